@@ -6,16 +6,23 @@
  * - 设置全局字体和主题
  * - 应用状态管理
  * - 认证提供者
+ * - 语言提供者
+ * - AI录制失败提示
  */
 
 import type { AppProps } from 'next/app';
 import '../src/index.css';
 import { AuthProvider } from '../src/contexts/AuthContext';
+import { LanguageProvider } from '../src/contexts/LanguageContext';
+import FixtureRecordingNotice from '../src/components/FixtureRecordingNotice';
 
 export default function App({ Component, pageProps }: AppProps) {
   return (
     <AuthProvider>
-      <Component {...pageProps} />
+      <LanguageProvider>
+        <Component {...pageProps} />
+        <FixtureRecordingNotice />
+      </LanguageProvider>
     </AuthProvider>
   );
 }
\ No newline at end of file
@@ -0,0 +1,142 @@
+/**
+ * AI代理转发接口
+ *
+ * 接收浏览器的对话/大纲请求，附上服务端保存的密钥后转发给服务商：
+ * - 响应状态码和内容原样返回，浏览器端的适配器照常解析
+ * - 流式请求边收边转发；浏览器断开时同时取消发往服务商的请求
+ * - 错误统一返回 { error: { message } }，与服务商的错误格式一致
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { buildProviderHttpRequest, getProviderAdapter } from '../../../src/utils/aiProviders';
+import { AIProxyRequest } from '../../../src/utils/aiProxy';
+import {
+  authorizeProxyRequest,
+  consumeProxyRateLimit,
+  getServerProviderConfig,
+  isProxyEnabled,
+} from '../../../src/utils/aiProxyServer';
+
+export const config = {
+  api: {
+    // 大纲生成会携带较长的文档内容
+    bodyParser: { sizeLimit: '4mb' },
+  },
+};
+
+/** 单次请求允许的最大生成token数，防止代理被滥用 */
+const MAX_PROXY_COMPLETION_TOKENS = 32768;
+
+/**
+ * 允许的模型名称：由字母、数字和 _ . : - 组成，可以用 / 分段（如 openai/gpt-4o），
+ * 每段以字母或数字开头，避免模型名称拼进地址时改变请求路径
+ */
+const MODEL_NAME_PATTERN = /^\w[\w.:-]*(\/\w[\w.:-]*)*$/;
+
+const sendError = (res: NextApiResponse, status: number, message: string) => {
+  res.status(status).json({ error: { message } });
+};
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return sendError(res, 405, '只支持POST请求');
+  }
+
+  if (!isProxyEnabled()) {
+    return sendError(res, 404, '服务器未开启AI代理');
+  }
+
+  const clientId = await authorizeProxyRequest(req);
+  if (!clientId) {
+    return sendError(res, 401, '请先登录后再使用AI服务');
+  }
+
+  const retryAfter = consumeProxyRateLimit(clientId);
+  if (retryAfter > 0) {
+    res.setHeader('Retry-After', String(retryAfter));
+    return sendError(res, 429, `请求过于频繁，请 ${retryAfter} 秒后再试`);
+  }
+
+  const body = req.body as AIProxyRequest;
+  if (!body || typeof body.provider !== 'string' || !Array.isArray(body.messages) || body.messages.length === 0) {
+    return sendError(res, 400, '请求格式不正确');
+  }
+
+  const adapter = getProviderAdapter(body.provider);
+  if (!adapter) {
+    return sendError(res, 400, `不支持的AI服务提供商: ${body.provider}`);
+  }
+
+  if (body.model !== undefined && (typeof body.model !== 'string' || !MODEL_NAME_PATTERN.test(body.model))) {
+    return sendError(res, 400, '模型名称不正确');
+  }
+  if (body.localApiFormat !== undefined && body.localApiFormat !== 'ollama' && body.localApiFormat !== 'openai') {
+    return sendError(res, 400, '本地模型服务的接口格式不正确');
+  }
+
+  const serverConfig = getServerProviderConfig(body.provider);
+  if (!serverConfig) {
+    return sendError(res, 403, `服务器未配置 ${adapter.name} 的密钥，请联系管理员或改用其他服务商`);
+  }
+
+  const { url, headers, requestBody } = buildProviderHttpRequest(
+    adapter,
+    { ...serverConfig, model: body.model, localApiFormat: body.localApiFormat },
+    body.messages,
+    {
+      stream: !!body.stream,
+      maxTokens: Math.min(Number(body.maxTokens) || 2000, MAX_PROXY_COMPLETION_TOKENS),
+      temperature: typeof body.temperature === 'number' ? body.temperature : 0.7,
+      responseSchema: body.responseSchema,
+    }
+  );
+
+  // 浏览器断开（用户停止生成或关闭页面）时取消上游请求
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) controller.abort();
+  });
+
+  let upstream: Response;
+  try {
+    upstream = await fetch(url, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(requestBody),
+      signal: controller.signal,
+    });
+  } catch (error) {
+    if (controller.signal.aborted) return;
+    console.error('❌ AI代理无法连接服务商:', body.provider, error);
+    return sendError(res, 502, `无法连接AI服务商: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  res.status(upstream.status);
+  res.setHeader('Content-Type', upstream.headers.get('content-type') || 'application/json');
+
+  if (!body.stream || !upstream.ok || !upstream.body) {
+    res.send(await upstream.text());
+    return;
+  }
+
+  // 流式转发：禁止缓存和反向代理缓冲，保证逐字输出
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders();
+
+  const reader = upstream.body.getReader();
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      res.write(Buffer.from(value));
+    }
+  } catch (error) {
+    if (!controller.signal.aborted) {
+      console.error('❌ AI代理转发流式响应中断:', body.provider, error);
+    }
+  } finally {
+    res.end();
+  }
+}
@@ -0,0 +1,21 @@
+/**
+ * AI代理状态接口
+ *
+ * 返回服务端已配置密钥、可通过代理使用的服务商，供配置界面提示（不返回任何密钥）
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { AIProxyStatus } from '../../../src/utils/aiProxy';
+import { getProxyProviders, isProxyAuthRequired } from '../../../src/utils/aiProxyServer';
+
+export default function handler(req: NextApiRequest, res: NextApiResponse<AIProxyStatus | { error: { message: string } }>) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    return res.status(405).json({ error: { message: '只支持GET请求' } });
+  }
+
+  res.status(200).json({
+    providers: getProxyProviders(),
+    requireAuth: isProxyAuthRequired(),
+  });
+}
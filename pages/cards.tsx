@@ -26,9 +26,12 @@ import {
   recordCardReview,
   addLearningCard
 } from '../src/utils/storage';
+import { useLanguage } from '../src/contexts/LanguageContext';
+import LanguageSwitcher from '../src/components/LanguageSwitcher';
 
 const CardsPage: React.FC = () => {
   const router = useRouter();
+  const { locale, t } = useLanguage();
   
   /**
    * 渲染Markdown内容并美化显示
@@ -217,7 +220,7 @@ const CardsPage: React.FC = () => {
    */
   const getSessionName = (sessionId: string): string => {
     const session = sessions.find(s => s.id === sessionId);
-    return session ? session.title : '未知会话';
+    return session ? session.title : t('cards.unknownSession');
   };
 
   /**
@@ -230,13 +233,13 @@ const CardsPage: React.FC = () => {
     const diffDays = Math.floor(diffTime / (1000 * 60 * 60 * 24));
 
     if (diffDays === 0) {
-      return '今天';
+      return t('cards.today');
     } else if (diffDays === 1) {
-      return '昨天';
+      return t('cards.yesterday');
     } else if (diffDays < 7) {
-      return `${diffDays}天前`;
+      return t('cards.daysAgo', { count: diffDays });
     } else {
-      return date.toLocaleDateString('zh-CN');
+      return date.toLocaleDateString(locale);
     }
   };
 
@@ -252,13 +255,13 @@ const CardsPage: React.FC = () => {
     const diffDays = Math.floor(diffTime / (1000 * 60 * 60 * 24));
 
     if (diffTime <= 0) {
-      return '需要复习';
+      return t('cards.reviewDue');
     } else if (diffMinutes < 60) {
-      return `${diffMinutes}分钟后`;
+      return t('cards.inMinutes', { count: diffMinutes });
     } else if (diffHours < 24) {
-      return `${diffHours}小时后`;
+      return t('cards.inHours', { count: diffHours });
     } else {
-      return `${diffDays}天后`;
+      return t('cards.inDays', { count: diffDays });
     }
   };
 
@@ -341,7 +344,7 @@ const CardsPage: React.FC = () => {
    * 删除卡片
    */
   const handleDeleteCard = (card: LearningCard) => {
-    if (window.confirm('确定要删除这张卡片吗？')) {
+    if (window.confirm(t('cards.confirmDelete'))) {
       const success = deleteLearningCard(card.sessionId, card.id);
       if (success) {
         loadData();
@@ -363,7 +366,7 @@ const CardsPage: React.FC = () => {
   const handleStartBatchReview = () => {
     const cardsToReview = getFilteredCards(filteredCards);
     if (cardsToReview.length === 0) {
-      alert('没有需要复习的卡片');
+      alert(t('cards.noDueCardsAlert'));
       return;
     }
     
@@ -409,7 +412,7 @@ const CardsPage: React.FC = () => {
           setCurrentBatchIndex(0);
           setShowReviewModal(false);
           setCurrentReviewCard(null);
-          alert(`批量复习完成！共复习了 ${batchReviewCards.length} 张卡片 🎉`);
+          alert(t('cards.batchComplete', { count: batchReviewCards.length }));
         }
       } else {
         // 单张卡片复习
@@ -442,24 +445,24 @@ const CardsPage: React.FC = () => {
       const cardsToExport = filteredCards;
       
       if (cardsToExport.length === 0) {
-        alert('没有可导出的卡片数据');
+        alert(t('cards.nothingToExport'));
         return;
       }
 
       // 定义CSV表头
       const headers = [
-        '标题',
-        '内容',
-        '笔记',
-        '类型',
-        '标签',
-        '创建时间',
-        '最后复习时间',
-        '下次复习时间',
-        '复习次数',
-        '难度',
-        '会话ID',
-        '章节ID'
+        t('cards.csvHeaders.title'),
+        t('cards.csvHeaders.content'),
+        t('cards.csvHeaders.note'),
+        t('cards.csvHeaders.type'),
+        t('cards.csvHeaders.tags'),
+        t('cards.csvHeaders.createdAt'),
+        t('cards.csvHeaders.lastReviewedAt'),
+        t('cards.csvHeaders.nextReviewAt'),
+        t('cards.csvHeaders.reviewCount'),
+        t('cards.csvHeaders.difficulty'),
+        t('cards.csvHeaders.sessionId'),
+        t('cards.csvHeaders.chapterId')
       ];
 
      /**
@@ -565,8 +568,8 @@ const CardsPage: React.FC = () => {
         // 处理标签（用空格分隔，符合Anki习惯）
         const tagsString = (card.tags || []).join(' ');
         
-        // 类型转换为中文
-        const typeLabel = card.type === 'inspiration' ? '灵感' : '收藏';
+        // 类型转换为当前语言
+        const typeLabel = card.type === 'inspiration' ? t('cards.csvInspiration') : t('cards.csvBookmark');
 
         return [
           card.title || '',
@@ -629,11 +632,11 @@ const CardsPage: React.FC = () => {
       URL.revokeObjectURL(url);
       
       // 显示成功消息
-      alert(`成功导出 ${cardsToExport.length} 张卡片到文件：${filename}`);
+      alert(t('cards.exportSuccess', { count: cardsToExport.length, filename }));
       
     } catch (error) {
       console.error('导出卡片失败:', error);
-      alert('导出失败，请重试');
+      alert(t('cards.exportFailed'));
     }
   };
 
@@ -651,7 +654,7 @@ const CardsPage: React.FC = () => {
                   onClick={() => router.push('/')}
                   icon={<ArrowLeft className="w-4 h-4" />}
                 >
-                  返回
+                  {t('common.back')}
                 </Button>
                 
                 <div className="flex items-center gap-3">
@@ -659,20 +662,21 @@ const CardsPage: React.FC = () => {
                     <BookOpen className="w-6 h-6 text-white" />
                   </div>
                   <div>
-                    <h1 className="text-xl font-bold text-gray-900">卡片管理</h1>
-                    <p className="text-sm text-gray-500">管理您的所有学习卡片</p>
+                    <h1 className="text-xl font-bold text-gray-900">{t('cards.title')}</h1>
+                    <p className="text-sm text-gray-500">{t('cards.pageSubtitle')}</p>
                   </div>
                 </div>
               </div>
 
               <div className="flex items-center gap-3">
+                <LanguageSwitcher />
                 {reviewCardsCount > 0 && (
                   <Button
                     variant="secondary"
                     onClick={handleStartBatchReview}
                     icon={<TrendingUp className="w-4 h-4" />}
                   >
-                    开始批量复习 ({reviewCardsCount} 张)
+                    {t('cards.startBatchReview', { count: reviewCardsCount })}
                   </Button>
                 )}
                 <Button
@@ -680,14 +684,14 @@ const CardsPage: React.FC = () => {
                   onClick={handleExportCards}
                   icon={<Download className="w-4 h-4" />}
                 >
-                  导出卡片
+                  {t('cards.exportCards')}
                 </Button>
                 <Button
                   variant="primary"
                   onClick={() => setShowNewCardModal(true)}
                   icon={<Plus className="w-4 h-4" />}
                 >
-                  新建卡片
+                  {t('cards.newCard')}
                 </Button>
               </div>
             </div>
@@ -699,19 +703,19 @@ const CardsPage: React.FC = () => {
           <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-8">
             <Card className="text-center p-6">
               <div className="text-3xl font-bold text-blue-600 mb-2">{stats.totalCards}</div>
-              <div className="text-sm text-gray-600">总卡片数</div>
+              <div className="text-sm text-gray-600">{t('cards.total')}</div>
             </Card>
             <Card className="text-center p-6">
               <div className="text-3xl font-bold text-orange-600 mb-2">{stats.reviewCards}</div>
-              <div className="text-sm text-gray-600">待复习</div>
+              <div className="text-sm text-gray-600">{t('cards.due')}</div>
             </Card>
             <Card className="text-center p-6">
               <div className="text-3xl font-bold text-yellow-600 mb-2">{stats.inspirationCards}</div>
-              <div className="text-sm text-gray-600">灵感卡片</div>
+              <div className="text-sm text-gray-600">{t('cards.inspiration')}</div>
             </Card>
             <Card className="text-center p-6">
               <div className="text-3xl font-bold text-green-600 mb-2">{stats.bookmarkCards}</div>
-              <div className="text-sm text-gray-600">收藏卡片</div>
+              <div className="text-sm text-gray-600">{t('cards.bookmark')}</div>
             </Card>
           </div>
 
@@ -722,7 +726,7 @@ const CardsPage: React.FC = () => {
               <div className="flex gap-4">
                 <div className="flex-1">
                   <Input
-                    placeholder="搜索卡片标题、内容或笔记..."
+                    placeholder={t('cards.pageSearchPlaceholder')}
                     value={searchTerm}
                     onChange={(e) => setSearchTerm(e.target.value)}
                     leftIcon={<Search className="w-4 h-4" />}
@@ -733,11 +737,11 @@ const CardsPage: React.FC = () => {
               {/* 过滤器 */}
               <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
                 <Select
-                  label="会话"
+                  label={t('cards.session')}
                   value={selectedSession}
                   onChange={setSelectedSession}
                   options={[
-                    { value: 'all', label: '所有会话' },
+                    { value: 'all', label: t('cards.allSessions') },
                     ...sessions.map(session => ({
                       value: session.id,
                       label: session.title
@@ -746,35 +750,35 @@ const CardsPage: React.FC = () => {
                 />
 
                 <Select
-                  label="类型"
+                  label={t('cards.type')}
                   value={cardType}
                   onChange={setCardType}
                   options={[
-                    { value: 'all', label: '所有类型' },
-                    { value: 'inspiration', label: '灵感卡片' },
-                    { value: 'bookmark', label: '收藏卡片' }
+                    { value: 'all', label: t('cards.allTypes') },
+                    { value: 'inspiration', label: t('cards.inspiration') },
+                    { value: 'bookmark', label: t('cards.bookmark') }
                   ]}
                 />
 
                 <Select
-                  label="复习状态"
+                  label={t('cards.reviewStatus')}
                   value={reviewStatus}
                   onChange={setReviewStatus}
                   options={[
-                    { value: 'all', label: '所有状态' },
-                    { value: 'due', label: '需要复习' },
-                    { value: 'upcoming', label: '即将复习' }
+                    { value: 'all', label: t('cards.allStatuses') },
+                    { value: 'due', label: t('cards.reviewDue') },
+                    { value: 'upcoming', label: t('cards.upcoming') }
                   ]}
                 />
 
                 <Select
-                  label="排序方式"
+                  label={t('cards.sortBy')}
                   value={sortBy}
                   onChange={(value) => setSortBy(value as typeof sortBy)}
                   options={[
-                    { value: 'recent', label: '最近创建' },
-                    { value: 'title', label: '标题排序' },
-                    { value: 'review', label: '复习时间' }
+                    { value: 'recent', label: t('cards.sortRecent') },
+                    { value: 'title', label: t('cards.sortTitle') },
+                    { value: 'review', label: t('cards.sortReview') }
                   ]}
                 />
               </div>
@@ -782,7 +786,7 @@ const CardsPage: React.FC = () => {
               {/* 标签过滤 */}
               {getAllTags().length > 0 && (
                 <div>
-                  <div className="text-sm font-medium text-gray-700 mb-2">标签过滤：</div>
+                  <div className="text-sm font-medium text-gray-700 mb-2">{t('cards.tagFilter')}</div>
                   <div className="flex flex-wrap gap-2">
                     {getAllTags().map(tag => (
                       <button
@@ -811,14 +815,14 @@ const CardsPage: React.FC = () => {
                 <BookOpen className="w-16 h-16 text-gray-300 mx-auto mb-4" />
                 <h3 className="text-lg font-medium text-gray-900 mb-2">
                   {searchTerm || selectedTags.length > 0 || selectedSession !== 'all' || cardType !== 'all' || reviewStatus !== 'all'
-                    ? '没有找到匹配的卡片' 
-                    : '还没有学习卡片'
+                    ? t('cards.noMatches')
+                    : t('cards.noCards')
                   }
                 </h3>
                 <p className="text-gray-500">
                   {searchTerm || selectedTags.length > 0 || selectedSession !== 'all' || cardType !== 'all' || reviewStatus !== 'all'
-                    ? '尝试调整搜索条件或过滤器'
-                    : '开始学习并收藏重要内容，或点击上方按钮新建卡片'
+                    ? t('cards.adjustFilters')
+                    : t('cards.getStarted')
                   }
                 </p>
               </div>
@@ -847,7 +851,8 @@ const CardsPage: React.FC = () => {
                             </div>
                           )}
                           <span className="text-xs text-gray-500">
-                            {card.type === 'inspiration' ? '灵感卡片' : '收藏卡片'}
+                            {card.type === 'inspiration' ? t('cards.inspiration') : t('cards.bookmark')}
+                            {card.format && ` · ${t(`cardGeneration.formats.${card.format}`)}`}
                           </span>
                         </div>
                         
@@ -858,7 +863,7 @@ const CardsPage: React.FC = () => {
                             onClick={() => handleEditCard(card)}
                             className="text-gray-400 hover:text-gray-600"
                           >
-                            编辑
+                            {t('common.edit')}
                           </Button>
                           <Button
                             variant="ghost"
@@ -866,7 +871,7 @@ const CardsPage: React.FC = () => {
                             onClick={() => handleDeleteCard(card)}
                             className="text-gray-400 hover:text-red-600"
                           >
-                            删除
+                            {t('common.delete')}
                           </Button>
                         </div>
                       </div>
@@ -874,7 +879,7 @@ const CardsPage: React.FC = () => {
                       {/* 卡片内容 */}
                       <div className="mb-4">
                         <h4 className="font-medium text-gray-900 text-sm mb-2 line-clamp-2 leading-relaxed">
-                          {card.title || '无标题'}
+                          {card.title || t('cards.untitled')}
                         </h4>
                         <div 
                           className="text-xs text-gray-600 line-clamp-3 mb-2"
@@ -907,11 +912,11 @@ const CardsPage: React.FC = () => {
                       {/* 卡片底部信息 */}
                       <div className="space-y-2 text-xs text-gray-500">
                         <div className="flex items-center justify-between">
-                          <span>来源：{getSessionName(card.sessionId)}</span>
+                          <span>{t('cards.source', { name: getSessionName(card.sessionId) })}</span>
                           <span>{formatTime(card.createdAt)}</span>
                         </div>
                         <div className="flex items-center justify-between">
-                          <span>复习 {card.reviewCount} 次</span>
+                          <span>{t('cards.reviewCount', { count: card.reviewCount })}</span>
                           <span className={`
                             ${isOverdue ? 'text-orange-600 font-medium' : 'text-gray-500'}
                           `}>
@@ -925,7 +930,7 @@ const CardsPage: React.FC = () => {
                             onClick={() => handleStartReview(card)}
                             className="w-full text-xs"
                           >
-                            开始复习
+                            {t('cards.startReview')}
                           </Button>
                         )}
                       </div>
@@ -943,25 +948,25 @@ const CardsPage: React.FC = () => {
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
           <div className="bg-white rounded-lg p-6 w-full max-w-md mx-4 max-h-[90vh] overflow-y-auto">
             <h3 className="text-lg font-semibold text-gray-900 mb-4">
-              新建卡片
+              {t('cards.newCard')}
             </h3>
             
             <div className="space-y-4">
               <Input
-                label="卡片标题"
+                label={t('cards.cardTitle')}
                 value={newCard.title}
                 onChange={(e) => setNewCard({ ...newCard, title: e.target.value })}
-                placeholder="输入卡片标题..."
+                placeholder={t('cards.newTitlePlaceholder')}
               />
               
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
-                  卡片内容 *
+                  {t('cards.contentRequired')}
                 </label>
                 <textarea
                   value={newCard.content}
                   onChange={(e) => setNewCard({ ...newCard, content: e.target.value })}
-                  placeholder="输入卡片的主要内容..."
+                  placeholder={t('cards.newContentPlaceholder')}
                   rows={4}
                   className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent resize-none"
                 />
@@ -969,12 +974,12 @@ const CardsPage: React.FC = () => {
 
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
-                  个人笔记
+                  {t('cards.personalNote')}
                 </label>
                 <textarea
                   value={newCard.userNote}
                   onChange={(e) => setNewCard({ ...newCard, userNote: e.target.value })}
-                  placeholder="添加您的想法、感受或笔记..."
+                  placeholder={t('cards.notePlaceholder')}
                   rows={3}
                   className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent resize-none"
                 />
@@ -983,7 +988,7 @@ const CardsPage: React.FC = () => {
               {/* 标签添加 */}
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
-                  标签
+                  {t('cards.tags')}
                 </label>
                 <div className="flex flex-wrap gap-2 mb-2">
                   {newCard.tags.map(tag => (
@@ -1008,7 +1013,7 @@ const CardsPage: React.FC = () => {
                 <div className="flex gap-2">
                   <input
                     type="text"
-                    placeholder="添加标签..."
+                    placeholder={t('cards.tagPlaceholder')}
                     value={newCard.newTag}
                     onChange={(e) => setNewCard({ ...newCard, newTag: e.target.value })}
                     className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
@@ -1060,14 +1065,14 @@ const CardsPage: React.FC = () => {
                   });
                 }}
               >
-                取消
+                {t('common.cancel')}
               </Button>
               <Button
                 variant="primary"
                 onClick={handleCreateNewCard}
                 disabled={!newCard.title.trim() || !newCard.content.trim()}
               >
-                创建卡片
+                {t('cards.createCard')}
               </Button>
             </div>
           </div>
@@ -1079,25 +1084,25 @@ const CardsPage: React.FC = () => {
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
           <div className="bg-white rounded-lg p-6 w-full max-w-md mx-4">
             <h3 className="text-lg font-semibold text-gray-900 mb-4">
-              编辑卡片
+              {t('cards.editCard')}
             </h3>
             
             <div className="space-y-4">
               <Input
-                label="卡片标题"
+                label={t('cards.cardTitle')}
                 value={editingCard.title}
                 onChange={(e) => setEditingCard({ ...editingCard, title: e.target.value })}
-                placeholder="为这张卡片起个标题..."
+                placeholder={t('cards.editTitlePlaceholder')}
               />
               
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
-                  卡片内容
+                  {t('cards.content')}
                 </label>
                 <textarea
                   value={editingCard.content || ''}
                   onChange={(e) => setEditingCard({ ...editingCard, content: e.target.value })}
-                  placeholder="编辑卡片的核心知识内容..."
+                  placeholder={t('cards.editContentPlaceholder')}
                   rows={6}
                   className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent resize-none"
                 />
@@ -1105,12 +1110,12 @@ const CardsPage: React.FC = () => {
               
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
-                  您的笔记
+                  {t('cards.yourNote')}
                 </label>
                 <textarea
                   value={editingCard.userNote || ''}
                   onChange={(e) => setEditingCard({ ...editingCard, userNote: e.target.value })}
-                  placeholder="添加您的想法、感受或笔记..."
+                  placeholder={t('cards.notePlaceholder')}
                   rows={3}
                   className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent resize-none"
                 />
@@ -1119,7 +1124,7 @@ const CardsPage: React.FC = () => {
               {/* 标签编辑 */}
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
-                  标签
+                  {t('cards.tags')}
                 </label>
                 <div className="flex flex-wrap gap-2 mb-2">
                   {(editingCard.tags || []).map(tag => (
@@ -1144,7 +1149,7 @@ const CardsPage: React.FC = () => {
                 <div className="flex gap-2">
                   <input
                     type="text"
-                    placeholder="添加标签..."
+                    placeholder={t('cards.tagPlaceholder')}
                     className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
                     onKeyDown={(e) => {
                       if (e.key === 'Enter') {
@@ -1187,13 +1192,13 @@ const CardsPage: React.FC = () => {
                 variant="outline"
                 onClick={() => setEditingCard(null)}
               >
-                取消
+                {t('common.cancel')}
               </Button>
               <Button
                 variant="primary"
                 onClick={handleSaveCard}
               >
-                保存
+                {t('common.save')}
               </Button>
             </div>
           </div>
@@ -1207,7 +1212,7 @@ const CardsPage: React.FC = () => {
             <div className="flex items-center justify-between mb-4">
               <h3 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
                 <RefreshCw className="w-5 h-5 text-primary-600" />
-                {batchReviewMode ? '批量复习' : '复习卡片'}
+                {batchReviewMode ? t('cards.batchReview') : t('cards.reviewCard')}
               </h3>
               
               {/* 批量复习进度指示器 */}
@@ -1221,7 +1226,7 @@ const CardsPage: React.FC = () => {
             <div className="mb-6">
               <div className="bg-gray-50 rounded-lg p-4 mb-4">
                 <h4 className="font-medium text-gray-900 mb-2">
-                  {currentReviewCard.title || '无标题'}
+                  {currentReviewCard.title || t('cards.untitled')}
                 </h4>
                               <div 
                 className="text-sm text-gray-600 mb-3 prose prose-sm max-w-none"
@@ -1237,17 +1242,17 @@ const CardsPage: React.FC = () => {
               </div>
               
               <p className="text-sm text-gray-600 text-center mb-4">
-                请根据您对这张卡片内容的掌握程度选择：
+                {t('cards.ratePrompt')}
               </p>
               
               {/* 五点量表横向布局 */}
               <div className="space-y-3">
                 <div className="flex justify-between items-center text-xs text-gray-500">
-                  <span>很困难</span>
-                  <span>困难</span>
-                  <span>一般</span>
-                  <span>容易</span>
-                  <span>很容易</span>
+                  <span>{t('cards.ratings.veryHard')}</span>
+                  <span>{t('cards.ratings.hard')}</span>
+                  <span>{t('cards.ratings.ok')}</span>
+                  <span>{t('cards.ratings.easy')}</span>
+                  <span>{t('cards.ratings.veryEasy')}</span>
                 </div>
                 
                 <div className="flex justify-between gap-2">
@@ -1293,7 +1298,7 @@ const CardsPage: React.FC = () => {
                 </div>
                 
                 <div className="text-center text-xs text-gray-400 mt-2">
-                  点击选择您的掌握程度（1=完全忘记，5=完全掌握）
+                  {t('cards.rateHelp')}
                 </div>
               </div>
             </div>
@@ -1310,7 +1315,7 @@ const CardsPage: React.FC = () => {
                     setCurrentReviewCard(null);
                   }}
                 >
-                  退出批量复习
+                  {t('cards.exitBatchReview')}
                 </Button>
               )}
               <Button
@@ -1325,7 +1330,7 @@ const CardsPage: React.FC = () => {
                   setCurrentReviewCard(null);
                 }}
               >
-                稍后复习
+                {t('cards.reviewLater')}
               </Button>
             </div>
           </div>
@@ -9,16 +9,20 @@
  */
 
 import React, { useState, useEffect, useRef } from 'react';
-import { Settings, Upload, BookOpen, Brain, Zap, ArrowLeft, FileText, User } from 'lucide-react';
+import { Settings, Upload, BookOpen, Brain, Zap, ArrowLeft, FileText, User, AlertTriangle } from 'lucide-react';
 import dynamic from 'next/dynamic';
 import Button from '../src/components/ui/Button';
 import Card from '../src/components/ui/Card';
+import Select from '../src/components/ui/Select';
 import OutlineEditor from '../src/components/OutlineEditor';
 import APIConfigModal from '../src/components/APIConfigModal';
 import SessionHistoryList from '../src/components/SessionHistoryList';
 import SmartSyncControl from '../src/components/SmartSyncControl';
 import DataLifecycleManager from '../src/components/DataLifecycleManager';
-import { APIConfig, LearningSession, DocumentParseResult, OutlineItem } from '../src/types';
+import UsageDashboard from '../src/components/UsageDashboard';
+import PromptTemplateManager from '../src/components/PromptTemplateManager';
+import StudyReportModal from '../src/components/StudyReportModal';
+import { APIConfig, LearningSession, DocumentParseResult, OutlineItem, PromptTemplate, PromptTemplateRef } from '../src/types';
 import { 
   getAllSessions, 
   deleteSession, 
@@ -27,8 +31,12 @@ import {
 } from '../src/utils/storageAdapter';
 import { purgeTombstonedSessions, deleteSession as localDeleteSession } from '../src/utils/storage';
 import { useAuth } from '../src/contexts/AuthContext';
+import { useLanguage } from '../src/contexts/LanguageContext';
+import LanguageSwitcher from '../src/components/LanguageSwitcher';
 import { useRouter } from 'next/router';
 import { generateOutline, fixExistingOutline } from '../src/utils/aiService';
+import { describeContextTrimming } from '../src/utils/tokenBudget';
+import { getActivePromptTemplateId, getPromptTemplates, pinPromptTemplate } from '../src/utils/promptTemplates';
 import { ThemeProvider } from '../src/contexts/ThemeContext';
 
 // 动态导入上传组件，避免SSR问题
@@ -44,18 +52,24 @@ const DocumentUploader = dynamic(() => import('../src/components/DocumentUploade
 const DashboardPage: React.FC = () => {
   const router = useRouter();
   const { user, loading } = useAuth();
+  const { language, locale, t } = useLanguage();
   
   // 状态管理
   const [sessions, setSessions] = useState<LearningSession[]>([]);
   const [apiConfig, setApiConfig] = useState<APIConfig | null>(null);
   const [showAPIConfigModal, setShowAPIConfigModal] = useState(false);
+  const [reportSessionId, setReportSessionId] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
 
   // 内嵌上传流程的本地状态（仅影响“欢迎区域”的呈现）
   const [currentStep, setCurrentStep] = useState<'upload' | 'uploaded' | 'outline' | 'level'>('upload');
   const [parseResult, setParseResult] = useState<DocumentParseResult | null>(null);
   const [outline, setOutline] = useState<OutlineItem[]>([]);
+  const [outlineNotice, setOutlineNotice] = useState<string | null>(null);
   const [learningLevel, setLearningLevel] = useState<'beginner' | 'expert'>('beginner');
+  const [tutorTemplates, setTutorTemplates] = useState<PromptTemplate[]>([]);
+  const [tutorTemplateId, setTutorTemplateId] = useState('');
+  const [outlineTemplateRef, setOutlineTemplateRef] = useState<PromptTemplateRef | undefined>();
   const [isGeneratingOutline, setIsGeneratingOutline] = useState(false);
   const [isCreatingSession, setIsCreatingSession] = useState(false);
   const uploadSectionRef = useRef<HTMLDivElement>(null);
@@ -69,6 +83,19 @@ const DashboardPage: React.FC = () => {
     });
   };
 
+  /**
+   * 加载可选的私教人设（模板管理中修改后也会调用）
+   */
+  const loadTutorTemplates = () => {
+    setTutorTemplates(getPromptTemplates('tutor'));
+    setTutorTemplateId(getActivePromptTemplateId('tutor'));
+  };
+
+  // 内置人设的名称随界面语言变化
+  useEffect(() => {
+    loadTutorTemplates();
+  }, [language]);
+
   /**
    * 初始化数据加载和用户认证检查
    */
@@ -133,7 +160,7 @@ const DashboardPage: React.FC = () => {
    * 删除学习会话
    */
   const handleDeleteSession = async (sessionId: string) => {
-    if (!window.confirm('确定要删除这个学习记录吗？此操作不可恢复。')) return;
+    if (!window.confirm(t('dashboard.confirmDelete'))) return;
 
     // 立即本地持久化删除（写入墓碑），保证离开页面后也不会回流
     try { localDeleteSession(sessionId) } catch {}
@@ -149,13 +176,13 @@ const DashboardPage: React.FC = () => {
           const restore = snapshot.find(s => s.id === sessionId);
           return restore ? [restore, ...prev] : prev;
         });
-        alert('删除失败，请重试');
+        alert(t('dashboard.deleteFailed'));
       }
     } catch (e) {
       console.error('删除失败:', e);
       // 回滚
       setSessions(snapshot);
-      alert('删除失败，请重试');
+      alert(t('dashboard.deleteFailed'));
     }
   };
 
@@ -164,7 +191,7 @@ const DashboardPage: React.FC = () => {
    */
   const handleBatchDelete = async (ids: string[]) => {
     if (ids.length === 0) return;
-    if (!window.confirm(`确定要删除选中的 ${ids.length} 个学习记录吗？此操作不可恢复。`)) return;
+    if (!window.confirm(t('dashboard.confirmBatchDelete', { count: ids.length }))) return;
 
     // 立即本地持久化删除每一条（写入墓碑）
     try { ids.forEach(id => { try { localDeleteSession(id) } catch {} }) } catch {}
@@ -193,13 +220,13 @@ const DashboardPage: React.FC = () => {
           const merged = [...prev, ...toRestore];
           return merged.sort((a, b) => b.updatedAt - a.updatedAt);
         });
-        alert(`有 ${failedIds.length} 个记录删除失败，已恢复到列表`);
+        alert(t('dashboard.partialDeleteFailed', { count: failedIds.length }));
       }
     } catch (e) {
       console.error('批量删除失败:', e);
       // 全量回滚
       setSessions(snapshot);
-      alert('批量删除失败，请重试');
+      alert(t('dashboard.batchDeleteFailed'));
     }
   };
 
@@ -212,7 +239,7 @@ const DashboardPage: React.FC = () => {
       setApiConfig(config);
       setShowAPIConfigModal(false);
     } else {
-      alert('保存配置失败，请重试');
+      alert(t('dashboard.saveConfigFailed'));
     }
   };
 
@@ -221,7 +248,7 @@ const DashboardPage: React.FC = () => {
    */
   const handleStartNewSession = () => {
     if (!apiConfig) {
-      alert('请先配置AI服务');
+      alert(t('dashboard.configureFirst'));
       setShowAPIConfigModal(true);
       return;
     }
@@ -246,7 +273,7 @@ const DashboardPage: React.FC = () => {
     scrollToUploadSection();
 
     if (!apiConfig) {
-      alert('需要先配置AI服务');
+      alert(t('dashboard.configureRequired'));
       setShowAPIConfigModal(true);
       return;
     }
@@ -260,6 +287,8 @@ const DashboardPage: React.FC = () => {
       );
 
       if (outlineResponse.success) {
+        setOutlineNotice(describeContextTrimming(outlineResponse.contextUsage));
+        setOutlineTemplateRef(outlineResponse.promptTemplate);
         if (outlineResponse.generatedTitle) {
           result.title = outlineResponse.generatedTitle;
         }
@@ -280,7 +309,7 @@ const DashboardPage: React.FC = () => {
         setCurrentStep('outline');
         scrollToUploadSection();
       } else {
-        throw new Error(outlineResponse.error || '生成大纲失败');
+        throw new Error(outlineResponse.error || t('newSession.outlineFailed'));
       }
     } catch (error) {
       console.error('生成大纲失败:', error);
@@ -298,7 +327,7 @@ const DashboardPage: React.FC = () => {
 
   const handleInlineConfirmOutline = () => {
     if (outline.length === 0) {
-      alert('请至少添加一个章节');
+      alert(t('newSession.addChapterFirst'));
       return;
     }
     setCurrentStep('level');
@@ -307,7 +336,7 @@ const DashboardPage: React.FC = () => {
 
   const handleInlineCreateSession = async () => {
     if (!parseResult || !apiConfig) {
-      alert('缺少必要的解析结果或API配置');
+      alert(t('newSession.missingData'));
       return;
     }
     setIsCreatingSession(true);
@@ -315,16 +344,22 @@ const DashboardPage: React.FC = () => {
       const sessionId = generateId();
       const session: LearningSession = {
         id: sessionId,
-        title: parseResult.title || '未命名文档',
+        title: parseResult.title || t('common.untitledDocument'),
         createdAt: Date.now(),
         updatedAt: Date.now(),
         learningLevel,
         documentContent: parseResult.content,
-        documentType: 'text',
+        documentType: parseResult.documentType || 'text',
+        ...(parseResult.metadata?.pageOffsets ? { documentPageOffsets: parseResult.metadata.pageOffsets } : {}),
         outline,
         messages: [],
         status: 'active',
         cards: [],
+        // 记录创建时的模板版本，之后修改模板不影响这个会话
+        promptTemplates: {
+          tutor: pinPromptTemplate('tutor', tutorTemplateId),
+          ...(outlineTemplateRef ? { outline: outlineTemplateRef } : {}),
+        },
       };
 
       const { saveSession } = await import('../src/utils/storage');
@@ -332,10 +367,10 @@ const DashboardPage: React.FC = () => {
       if (ok) {
         window.location.href = `/learn/${sessionId}`;
       } else {
-        throw new Error('本地存储失败');
+        throw new Error(t('newSession.saveFailed'));
       }
     } catch (e: any) {
-      alert(`创建失败: ${e?.message || '未知错误'}`);
+      alert(t('newSession.createFailed', { error: e?.message || t('common.unknownError') }));
     } finally {
       setIsCreatingSession(false);
     }
@@ -346,7 +381,7 @@ const DashboardPage: React.FC = () => {
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
         <div className="text-center">
           <div className="animate-spin rounded-full h-12 w-12 border-4 border-primary-600 border-t-transparent mx-auto mb-4"></div>
-          <p className="text-gray-600">加载中...</p>
+          <p className="text-gray-600">{t('common.loading')}</p>
         </div>
       </div>
     );
@@ -369,8 +404,8 @@ const DashboardPage: React.FC = () => {
                 <Brain className="w-6 h-6 text-white" />
               </div>
               <div>
-                <h1 className="text-xl font-bold text-gray-900">AI学习私教</h1>
-                <p className="text-sm text-gray-500">应用仪表板</p>
+                <h1 className="text-xl font-bold text-gray-900">{t('landing.appName')}</h1>
+                <p className="text-sm text-gray-500">{t('dashboard.subtitle')}</p>
               </div>
             </div>
 
@@ -378,6 +413,8 @@ const DashboardPage: React.FC = () => {
             <div className="flex items-center gap-3">
               {/* 紧凑同步状态 */}
               <SmartSyncControl compact={true} showDetails={false} />
+
+              <LanguageSwitcher />
               
               <Button
                 variant="outline"
@@ -385,7 +422,7 @@ const DashboardPage: React.FC = () => {
                 onClick={() => router.push('/cards')}
                 icon={<BookOpen className="w-4 h-4" />}
               >
-                卡片管理
+                {t('dashboard.cards')}
               </Button>
               
               <Button
@@ -394,7 +431,7 @@ const DashboardPage: React.FC = () => {
                 onClick={() => setShowAPIConfigModal(true)}
                 icon={<Settings className="w-4 h-4" />}
               >
-                API设置
+                {t('dashboard.apiSettings')}
               </Button>
               
               <Button
@@ -402,7 +439,7 @@ const DashboardPage: React.FC = () => {
                 onClick={handleStartNewSession}
                 icon={<Upload className="w-4 h-4" />}
               >
-                开始新学习
+                {t('dashboard.newSession')}
               </Button>
             </div>
           </div>
@@ -419,9 +456,9 @@ const DashboardPage: React.FC = () => {
             {currentStep === 'upload' && (
               <div className="space-y-8">
                 <div className="text-center">
-                  <h2 className="text-2xl font-bold text-gray-900 mb-4">上传您的学习材料</h2>
+                  <h2 className="text-2xl font-bold text-gray-900 mb-4">{t('newSession.uploadTitle')}</h2>
                   <p className="text-gray-600 max-w-2xl mx-auto">
-                    支持多种格式：PDF、Word、PowerPoint、Markdown、文本等。上传后AI将自动解析并生成学习大纲。
+                    {t('newSession.uploadIntro')}
                   </p>
                 </div>
 
@@ -435,7 +472,7 @@ const DashboardPage: React.FC = () => {
                   <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
                     <div className="flex items-center gap-3">
                       <div className="animate-spin rounded-full h-5 w-5 border-2 border-blue-600 border-t-transparent"></div>
-                      <span className="text-blue-900 font-medium">AI正在分析文档内容并生成学习大纲，请稍候...</span>
+                      <span className="text-blue-900 font-medium">{t('newSession.generatingOutline')}</span>
                     </div>
                   </div>
                 )}
@@ -446,23 +483,23 @@ const DashboardPage: React.FC = () => {
             {currentStep === 'uploaded' && parseResult && (
               <div className="space-y-8">
                 <div className="text-center">
-                  <h2 className="text-2xl font-bold text-gray-900 mb-4">文档解析完成</h2>
-                  <p className="text-gray-600 max-w-2xl mx-auto">您的文档已成功上传并解析。请选择下一步操作。</p>
+                  <h2 className="text-2xl font-bold text-gray-900 mb-4">{t('newSession.parsedTitle')}</h2>
+                  <p className="text-gray-600 max-w-2xl mx-auto">{t('newSession.parsedIntro')}</p>
                 </div>
 
                 <div className="bg-white rounded-lg border border-gray-200 p-6">
                   <div className="flex items-start gap-4">
                     <FileText className="w-8 h-8 text-green-500 flex-shrink-0 mt-1" />
                     <div className="flex-1 min-w-0">
-                      <h3 className="font-medium text-gray-900 mb-2">{parseResult.title || '未命名文档'}</h3>
+                      <h3 className="font-medium text-gray-900 mb-2">{parseResult.title || t('common.untitledDocument')}</h3>
                       <div className="text-sm text-gray-500 space-y-1">
                         {parseResult.metadata?.wordCount && (
-                          <p>字数：{parseResult.metadata.wordCount.toLocaleString()} 字</p>
+                          <p>{t('newSession.wordCount', { count: parseResult.metadata.wordCount.toLocaleString(locale) })}</p>
                         )}
                         {parseResult.metadata?.pageCount && (
-                          <p>页数：{parseResult.metadata.pageCount} 页</p>
+                          <p>{t('newSession.pageCount', { count: parseResult.metadata.pageCount })}</p>
                         )}
-                        <p className="text-green-600 font-medium">✅ 文档解析成功</p>
+                        <p className="text-green-600 font-medium">{t('newSession.parseSuccess')}</p>
                       </div>
                     </div>
                   </div>
@@ -474,11 +511,11 @@ const DashboardPage: React.FC = () => {
                       <span className="text-amber-600 text-sm">⚠️</span>
                     </div>
                     <div className="flex-1">
-                      <h3 className="font-medium text-amber-900 mb-2">大纲生成遇到问题</h3>
-                      <p className="text-amber-700 text-sm mb-4">可能是网络、API配置或文档内容复杂导致。您可以重试或使用基础大纲。</p>
+                      <h3 className="font-medium text-amber-900 mb-2">{t('newSession.outlineProblem')}</h3>
+                      <p className="text-amber-700 text-sm mb-4">{t('dashboard.outlineProblemHelp')}</p>
                       <div className="flex flex-col sm:flex-row gap-3">
                         <Button variant="primary" onClick={retryInlineGenerateOutline} loading={isGeneratingOutline}>
-                          重试生成大纲
+                          {t('newSession.retryOutline')}
                         </Button>
                         <Button
                           variant="secondary"
@@ -488,7 +525,7 @@ const DashboardPage: React.FC = () => {
                             setParseResult(null);
                           }}
                         >
-                          返回重新上传
+                          {t('dashboard.backToUpload')}
                         </Button>
                       </div>
                     </div>
@@ -501,21 +538,27 @@ const DashboardPage: React.FC = () => {
             {currentStep === 'outline' && parseResult && (
               <div className="space-y-8">
                 <div className="text-center">
-                  <h2 className="text-2xl font-bold text-gray-900 mb-4">确认学习大纲</h2>
-                  <p className="text-gray-600 max-w-2xl mx-auto">AI已为您生成学习大纲，可根据需要进行调整。</p>
+                  <h2 className="text-2xl font-bold text-gray-900 mb-4">{t('newSession.confirmOutlineTitle')}</h2>
+                  <p className="text-gray-600 max-w-2xl mx-auto">{t('dashboard.outlineIntro')}</p>
                 </div>
 
                 <div className="bg-white rounded-lg border border-gray-200 p-6">
                   <div className="flex items-start gap-4">
                     <FileText className="w-8 h-8 text-gray-400 flex-shrink-0 mt-1" />
                     <div className="flex-1 min-w-0">
-                      <h3 className="font-medium text-gray-900 mb-2">{parseResult.title || '未命名文档'}</h3>
+                      <h3 className="font-medium text-gray-900 mb-2">{parseResult.title || t('common.untitledDocument')}</h3>
                       <div className="text-sm text-gray-500 space-y-1">
                         {parseResult.metadata?.wordCount && (
-                          <p>字数：{parseResult.metadata.wordCount.toLocaleString()} 字</p>
+                          <p>{t('newSession.wordCount', { count: parseResult.metadata.wordCount.toLocaleString(locale) })}</p>
                         )}
                         {parseResult.metadata?.pageCount && (
-                          <p>页数：{parseResult.metadata.pageCount} 页</p>
+                          <p>{t('newSession.pageCount', { count: parseResult.metadata.pageCount })}</p>
+                        )}
+                        {outlineNotice && (
+                          <p className="flex items-start gap-1 text-yellow-700">
+                            <AlertTriangle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+                            <span>{outlineNotice}</span>
+                          </p>
                         )}
                       </div>
                     </div>
@@ -523,13 +566,13 @@ const DashboardPage: React.FC = () => {
                 </div>
 
                 <div className="bg-white rounded-lg border border-gray-200 p-6">
-                  <h3 className="text-lg font-semibold text-gray-900 mb-4">学习大纲（{outline.length} 个章节）</h3>
+                  <h3 className="text-lg font-semibold text-gray-900 mb-4">{t('newSession.outlineHeading', { count: outline.length })}</h3>
                   <OutlineEditor items={outline} onChange={setOutline} readonly={false} showNumbers={true} />
                 </div>
 
                 <div className="flex justify-center">
                   <Button variant="primary" size="lg" onClick={handleInlineConfirmOutline} disabled={outline.length === 0}>
-                    确认大纲，下一步
+                    {t('newSession.confirmOutline')}
                   </Button>
                 </div>
               </div>
@@ -539,8 +582,8 @@ const DashboardPage: React.FC = () => {
             {currentStep === 'level' && (
               <div className="space-y-8">
                 <div className="text-center">
-                  <h2 className="text-2xl font-bold text-gray-900 mb-4">选择您的学习水平</h2>
-                  <p className="text-gray-600 max-w-2xl mx-auto">AI私教将根据您选择的水平调整教学方式。</p>
+                  <h2 className="text-2xl font-bold text-gray-900 mb-4">{t('newSession.levelTitle')}</h2>
+                  <p className="text-gray-600 max-w-2xl mx-auto">{t('newSession.levelIntro')}</p>
                 </div>
 
                 <div className="grid md:grid-cols-2 gap-6 max-w-3xl mx-auto">
@@ -556,11 +599,11 @@ const DashboardPage: React.FC = () => {
                       }`}>
                         <User className="w-8 h-8" />
                       </div>
-                      <h3 className={`text-xl font-semibold mb-3 ${learningLevel === 'beginner' ? 'text-primary-900' : 'text-gray-900'}`}>小白模式</h3>
+                      <h3 className={`text-xl font-semibold mb-3 ${learningLevel === 'beginner' ? 'text-primary-900' : 'text-gray-900'}`}>{t('common.beginnerMode')}</h3>
                       <ul className="text-sm text-gray-600 space-y-1 ml-4 text-left">
-                        <li>• 节奏缓慢，循序渐进</li>
-                        <li>• 详细解释每个概念</li>
-                        <li>• 提供具体的操作步骤</li>
+                        <li>• {t('newSession.beginnerTraits.pace')}</li>
+                        <li>• {t('newSession.beginnerTraits.explain')}</li>
+                        <li>• {t('newSession.beginnerTraits.steps')}</li>
                       </ul>
                     </div>
             </div>
@@ -577,19 +620,31 @@ const DashboardPage: React.FC = () => {
                       }`}>
                         <Zap className="w-8 h-8" />
                       </div>
-                      <h3 className={`text-xl font-semibold mb-3 ${learningLevel === 'expert' ? 'text-secondary-900' : 'text-gray-900'}`}>高手模式</h3>
+                      <h3 className={`text-xl font-semibold mb-3 ${learningLevel === 'expert' ? 'text-secondary-900' : 'text-gray-900'}`}>{t('common.expertMode')}</h3>
                       <ul className="text-sm text-gray-600 space-y-1 ml-4 text-left">
-                        <li>• 节奏较快，直击要点</li>
-                        <li>• 聚焦核心概念和差异</li>
-                        <li>• 讨论设计原理和最佳实践</li>
+                        <li>• {t('newSession.expertTraits.pace')}</li>
+                        <li>• {t('newSession.expertTraits.core')}</li>
+                        <li>• {t('newSession.expertTraits.design')}</li>
                       </ul>
                     </div>
                   </div>
                 </div>
 
+                {tutorTemplates.length > 1 && (
+                  <div className="max-w-md mx-auto">
+                    <Select
+                      label={t('promptTemplates.persona')}
+                      value={tutorTemplateId}
+                      onChange={setTutorTemplateId}
+                      options={tutorTemplates.map(template => ({ value: template.id, label: template.name }))}
+                      helpText={tutorTemplates.find(template => template.id === tutorTemplateId)?.description}
+                    />
+                  </div>
+                )}
+
                 <div className="flex justify-center">
                   <Button variant="primary" size="lg" onClick={handleInlineCreateSession} loading={isCreatingSession} icon={<FileText className="w-5 h-5" />}>
-                    开始学习
+                    {t('newSession.startLearning')}
             </Button>
                 </div>
               </div>
@@ -602,11 +657,11 @@ const DashboardPage: React.FC = () => {
         <div className="mb-8">
           <div className="flex items-center justify-between mb-6">
             <h3 className="text-xl font-semibold text-gray-900">
-              学习历史 ({sessions.length})
+              {t('dashboard.history', { count: sessions.length })}
             </h3>
             {sessions.length > 0 && (
               <p className="text-sm text-gray-500">
-                点击任一记录可继续学习
+                {t('dashboard.historyHint')}
               </p>
             )}
           </div>
@@ -616,9 +671,20 @@ const DashboardPage: React.FC = () => {
             onEnterSession={handleEnterSession}
             onDeleteSession={handleDeleteSession}
             onBatchDelete={handleBatchDelete}
+            onViewReport={setReportSessionId}
           />
         </div>
 
+        {/* AI用量与费用 */}
+        <div className="mb-8">
+          <UsageDashboard sessions={sessions} />
+        </div>
+
+        {/* 提示词模板与私教人设 */}
+        <div className="mb-8">
+          <PromptTemplateManager onTemplatesChange={loadTutorTemplates} />
+        </div>
+
         {/* 数据生命周期管理 */}
         <div className="mb-8">
           <DataLifecycleManager />
@@ -632,9 +698,9 @@ const DashboardPage: React.FC = () => {
                 <Settings className="w-5 h-5 text-yellow-600" />
               </div>
               <div className="flex-1">
-                <h4 className="font-medium text-yellow-900">需要配置AI服务</h4>
+                <h4 className="font-medium text-yellow-900">{t('dashboard.configureTitle')}</h4>
                 <p className="text-sm text-yellow-700 mt-1">
-                  请先配置您的AI API密钥，才能开始学习体验
+                  {t('dashboard.configureText')}
                 </p>
               </div>
               <Button
@@ -643,7 +709,7 @@ const DashboardPage: React.FC = () => {
                 onClick={() => setShowAPIConfigModal(true)}
                 className="border-yellow-300 text-yellow-700 hover:bg-yellow-100"
               >
-                立即配置
+                {t('dashboard.configureNow')}
               </Button>
             </div>
           </Card>
@@ -659,6 +725,18 @@ const DashboardPage: React.FC = () => {
           onSave={handleSaveAPIConfig}
         />
       )}
+
+      {/* 学习报告 */}
+      {(() => {
+        const reportSession = sessions.find(s => s.id === reportSessionId);
+        return reportSession && (
+          <StudyReportModal
+            isOpen={true}
+            session={reportSession}
+            onClose={() => setReportSessionId(null)}
+          />
+        );
+      })()}
     </div>
   );
 };
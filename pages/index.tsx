@@ -11,11 +11,13 @@
 import React, { useState, useEffect } from 'react';
 import { useRouter } from 'next/router';
 import LandingPage from '../src/components/LandingPage';
+import { useLanguage } from '../src/contexts/LanguageContext';
 import { APIConfig } from '../src/types';
 import { getAPIConfig } from '../src/utils/storage';
 
 const HomePage: React.FC = () => {
   const router = useRouter();
+  const { t } = useLanguage();
   
   // 状态管理
   const [apiConfig, setApiConfig] = useState<APIConfig | null>(null);
@@ -74,7 +76,7 @@ const HomePage: React.FC = () => {
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
         <div className="text-center">
           <div className="animate-spin rounded-full h-12 w-12 border-4 border-primary-600 border-t-transparent mx-auto mb-4"></div>
-          <p className="text-gray-600">加载中...</p>
+          <p className="text-gray-600">{t('common.loading')}</p>
         </div>
       </div>
     );
@@ -4,11 +4,12 @@
  * 提供双栏布局的学习界面：
  * - 左侧：学习大纲导航
  * - 右侧：AI私教对话界面
+ * - 原文面板：与对话并排查看上传的文档（可拖动调整宽度），可高亮原文并添加批注
  * - 大纲与对话的双向同步
  * - 学习进度跟踪
  */
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { useRouter } from 'next/router';
 import { ArrowLeft, Settings, BookOpen, MessageCircle, User, Zap } from 'lucide-react';
 import Button from '../../src/components/ui/Button';
@@ -16,14 +17,30 @@ import ResizablePanel from '../../src/components/ResizablePanel';
 
 import ChatInterface from '../../src/components/ChatInterface';
 import CardManager from '../../src/components/CardManager';
+import ChapterQuiz from '../../src/components/ChapterQuiz';
+import CardGenerationReview from '../../src/components/CardGenerationReview';
+import ConceptMapModal from '../../src/components/ConceptMapModal';
+import StudyReportModal from '../../src/components/StudyReportModal';
+import SourceViewer from '../../src/components/SourceViewer';
 import { ThemedOutlineSidebar } from '../../src/components/ThemedOutlineSidebar';
 import { ThemeProvider, useTheme } from '../../src/contexts/ThemeContext';
+import { useLanguage } from '../../src/contexts/LanguageContext';
+import LanguageSwitcher from '../../src/components/LanguageSwitcher';
 import { 
   LearningSession, 
   ChatMessage, 
   OutlineItem, 
   APIConfig,
-  LearningCard
+  LearningCard,
+  ChapterProgress,
+  OutlineItemQuiz,
+  QuizAttempt,
+  MessageCitation,
+  Annotation,
+  AnnotationColor,
+  LearningLevel,
+  Glossary,
+  ConceptMap
 } from '../../src/types';
 import { 
   getSessionById, 
@@ -31,15 +48,78 @@ import {
   updateSessionMessages,
   updateSessionCurrentChapter,
   getAPIConfig,
-  markChapterCompleted
+  markChapterCompleted,
+  updateSessionRetrievalIndex,
+  updateSessionConversationMemory,
+  updateOutlineItemQuiz,
+  updateSessionAnnotations,
+  updateSessionActiveMessage,
+  updateSessionLearnerModel,
+  updateSessionGlossary,
+  updateSessionConceptMap,
+  updateSessionChapterRecap,
+  addLearningCard,
+  storageAdapter
 } from '../../src/utils/storageAdapter';
-import { addLearningCard } from '../../src/utils/storage';
-import { sendChatMessage, summarizeCardTitle, purifyCardContent, fixExistingOutline } from '../../src/utils/aiService';
+import { getSessionCards, getUserPreferences, saveUserPreferences } from '../../src/utils/storage';
+import {
+  sendChatMessageStream,
+  summarizeCardTitle,
+  purifyCardContent,
+  fixExistingOutline,
+  updateConversationMemory,
+  generateChapterQuiz,
+  gradeQuizAnswers,
+  generateChapterCards,
+  generateGlossary,
+  generateConceptMap,
+  generateChapterRecap,
+  ABORTED_CODE
+} from '../../src/utils/aiService';
+import { canAutoComplete, recordQuizAttempt } from '../../src/utils/chapterQuiz';
+import { CardDraft, createCardFromDraft } from '../../src/utils/cardGeneration';
+import { findParentId, getActiveBranch, getBranchInfo, getBranchUntil } from '../../src/utils/messageTree';
+import {
+  formatDifficulty,
+  getChapterDifficulty,
+  getLevelForDifficulty,
+  recordLearnerReply,
+  recordQuizScore,
+  setLearnerLevel
+} from '../../src/utils/learnerModel';
+import { carryOverGlossaryCards, createCardFromGlossaryTerm } from '../../src/utils/glossary';
+import {
+  TextRange,
+  createAnnotationAnchor,
+  createCardFromAnnotation,
+  findOutlineItemForOffset,
+  reanchorAnnotations
+} from '../../src/utils/annotations';
+import { buildRetrievalIndex, isRetrievalIndexValid, needsEmbeddings, addEmbeddingsToIndex } from '../../src/utils/documentRetrieval';
+import { describeContextTrimming } from '../../src/utils/tokenBudget';
+import { getBudgetStatus, formatCost } from '../../src/utils/usageTracker';
+import { isProxyMode } from '../../src/utils/aiProxy';
+import { describePromptTemplate } from '../../src/utils/promptTemplates';
+
+/** 请私教讲解选中原文时引用的最大字数 */
+const MAX_QUOTED_SELECTION_CHARS = 800;
+
+/**
+ * 生成UUID格式的唯一ID（消息、批注、卡片共用）
+ */
+const generateId = (): string => {
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, function(c) {
+    const r = Math.random() * 16 | 0
+    const v = c == 'x' ? r : (r & 0x3 | 0x8)
+    return v.toString(16)
+  })
+};
 
 const LearnPageContent: React.FC = () => {
   const router = useRouter();
   const { sessionId } = router.query;
-  const { currentLevel } = useTheme();
+  const { currentLevel, switchToLevel } = useTheme();
+  const { t } = useLanguage();
   const isBeginner = currentLevel === 'beginner';
 
   // 状态管理
@@ -47,7 +127,75 @@ const LearnPageContent: React.FC = () => {
   const [apiConfig, setApiConfig] = useState<APIConfig | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isSendingMessage, setIsSendingMessage] = useState(false);
+  const [streamingMessageId, setStreamingMessageId] = useState<string | null>(null);
+  const [contextNotice, setContextNotice] = useState<string | null>(null);
+  // 私教建议的下一小节（来自回复中的进度信号）
+  const [suggestedNextChapterId, setSuggestedNextChapterId] = useState<string | null>(null);
   const [cardManagerKey, setCardManagerKey] = useState(0);
+  // 当前进行中的AI请求，用于停止生成
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // 对话记忆是否正在后台更新，避免重复发起摘要请求
+  const isUpdatingMemoryRef = useRef(false);
+  // 本次打开页面是否已提醒过预算，避免每轮对话重复弹窗
+  const budgetWarnedRef = useRef(false);
+  // 小节测验：正在查看的小节、出题/批改状态和错误信息
+  const [quizItemId, setQuizItemId] = useState<string | null>(null);
+  const [isGeneratingQuiz, setIsGeneratingQuiz] = useState(false);
+  const [isGradingQuiz, setIsGradingQuiz] = useState(false);
+  const [quizError, setQuizError] = useState<string | null>(null);
+  // 是否须通过测验才由进度信号自动完成小节（用户偏好）
+  const [requireQuizToComplete, setRequireQuizToComplete] = useState(false);
+  // 小节完成时是否自动生成复盘笔记（偏好设置，未设置时开启）
+  const [autoGenerateRecaps, setAutoGenerateRecaps] = useState(true);
+  // 进行中的出题或批改请求，关闭测验时取消
+  const quizAbortControllerRef = useRef<AbortController | null>(null);
+  // 复习卡片提取：刚完成、等待提示提取的小节，正在确认的小节、草稿和提取状态
+  const [cardSuggestionItemId, setCardSuggestionItemId] = useState<string | null>(null);
+  const [cardItemId, setCardItemId] = useState<string | null>(null);
+  const [cardDrafts, setCardDrafts] = useState<CardDraft[] | null>(null);
+  const [isGeneratingCards, setIsGeneratingCards] = useState(false);
+  const [isGeneratingGlossary, setIsGeneratingGlossary] = useState(false);
+  const [cardError, setCardError] = useState<string | null>(null);
+  // 进行中的卡片提取请求，关闭对话框时取消
+  const cardAbortControllerRef = useRef<AbortController | null>(null);
+  // 原文面板：是否显示、正在定位的引用片段
+  const [showSourceViewer, setShowSourceViewer] = useState(false);
+  const [activeCitation, setActiveCitation] = useState<MessageCitation | null>(null);
+  // 概念图：是否显示、生成状态和失败原因
+  const [showConceptMap, setShowConceptMap] = useState(false);
+  const [isGeneratingConceptMap, setIsGeneratingConceptMap] = useState(false);
+  const [conceptMapError, setConceptMapError] = useState<string | null>(null);
+  // 学习报告：是否显示、正在生成复盘笔记的小节和失败原因
+  const [showStudyReport, setShowStudyReport] = useState(false);
+  const [generatingRecapId, setGeneratingRecapId] = useState<string | null>(null);
+  const [recapError, setRecapError] = useState<string | null>(null);
+  // 上次检查时是否已完成全部小节（加载时已全部完成的会话不自动打开报告）
+  const wasAllCompletedRef = useRef<boolean | null>(null);
+
+  // 当前查看的对话分支，以及分支上有多个版本的消息
+  const activeBranch = useMemo(
+    () => session ? getActiveBranch(session.messages, session.activeMessageId) : [],
+    [session?.messages, session?.activeMessageId]
+  );
+  const allSectionsCompleted = useMemo(() => {
+    const sections = session?.outline.filter(item => item.type === 'section') || [];
+    return sections.length > 0 && sections.every(item => item.isCompleted);
+  }, [session?.outline]);
+
+  // 学习中完成最后一个小节时打开学习报告
+  useEffect(() => {
+    if (!session) return;
+    if (wasAllCompletedRef.current === false && allSectionsCompleted) {
+      console.log('🎉 已完成全部小节，打开学习报告');
+      setShowStudyReport(true);
+    }
+    wasAllCompletedRef.current = allSectionsCompleted;
+  }, [session?.id, allSectionsCompleted]);
+
+  const messageBranches = useMemo(
+    () => session ? getBranchInfo(session.messages, activeBranch) : {},
+    [session?.messages, activeBranch]
+  );
 
   /**
    * 初始化会话数据
@@ -70,7 +218,7 @@ const LearnPageContent: React.FC = () => {
           try {
             const raw = window.localStorage.getItem('ai-learning-platform');
             const parsed = raw ? JSON.parse(raw) : null;
-            if (parsed && parsed.apiConfig && parsed.apiConfig.apiKey) {
+            if (parsed && parsed.apiConfig && (parsed.apiConfig.apiKey || parsed.apiConfig.provider === 'local' || parsed.apiConfig.provider === 'mock' || isProxyMode(parsed.apiConfig))) {
               loadedConfig = parsed.apiConfig;
               console.log('⚙️ 通过兜底读取到API配置');
             }
@@ -85,20 +233,42 @@ const LearnPageContent: React.FC = () => {
 
         if (!loadedSession) {
           console.error('❌ 学习会话不存在，sessionId:', sessionId);
-          alert('学习会话不存在');
+          alert(t('learn.sessionNotFound'));
           router.push('/dashboard');
           return;
         }
 
         if (!loadedConfig) {
           console.error('❌ API配置丢失（适配器与兜底都未读取到）');
-          alert('API配置丢失，请重新配置');
+          alert(t('learn.configMissing'));
           router.push('/dashboard');
           return;
         }
 
+        // 文档检索索引缺失或文档已变化时重建（关键词索引是同步构建的，很快）
+        if (!isRetrievalIndexValid(loadedSession.retrievalIndex, loadedSession.documentContent)) {
+          loadedSession.retrievalIndex = buildRetrievalIndex(loadedSession.documentContent);
+          updateSessionRetrievalIndex(loadedSession.id, loadedSession.retrievalIndex);
+        }
+
+        // 原文变化后按保存的原文片段重新定位批注，保存位置有变化的锚点
+        const movedAnnotations = reanchorAnnotations(loadedSession.documentContent, loadedSession.annotations || []);
+        if (movedAnnotations.length > 0) {
+          loadedSession.annotations = loadedSession.annotations!.map(annotation =>
+            movedAnnotations.find(moved => moved.id === annotation.id) || annotation
+          );
+          updateSessionAnnotations(loadedSession.id, loadedSession.annotations);
+        }
+
         setSession(loadedSession);
         setApiConfig(loadedConfig);
+        setRequireQuizToComplete(!!getUserPreferences().requireQuizToComplete);
+        setAutoGenerateRecaps(getUserPreferences().autoGenerateRecaps !== false);
+        ensureIndexEmbeddings(loadedSession, loadedConfig);
+        // 还没有术语表时在后台提取，失败时可以在术语表标签页中手动生成
+        if (!loadedSession.glossary && loadedSession.outline.length > 0) {
+          buildGlossary(loadedSession, loadedConfig);
+        }
         
         // 如果是新会话且没有消息，发送初始消息
         if (loadedSession.messages.length === 0) {
@@ -106,7 +276,7 @@ const LearnPageContent: React.FC = () => {
         }
       } catch (error) {
         console.error('加载会话失败:', error);
-        alert('加载会话失败');
+        alert(t('learn.loadFailed'));
         router.push('/');
       } finally {
         setIsLoading(false);
@@ -117,25 +287,83 @@ const LearnPageContent: React.FC = () => {
   }, [sessionId, router]);
 
   /**
-   * 生成UUID格式的消息ID
+   * 在后台为检索索引生成向量（服务商支持时），完成后保存，不阻塞对话
    */
-  const generateMessageId = (): string => {
-    return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, function(c) {
-      const r = Math.random() * 16 | 0
-      const v = c == 'x' ? r : (r & 0x3 | 0x8)
-      return v.toString(16)
-    })
+  const ensureIndexEmbeddings = async (sessionData: LearningSession, config: APIConfig) => {
+    const index = sessionData.retrievalIndex;
+    if (!index || !needsEmbeddings(index, config)) return;
+
+    const indexWithEmbeddings = await addEmbeddingsToIndex(index, sessionData.documentContent, config);
+    setSession(prev => prev && prev.id === sessionData.id ? { ...prev, retrievalIndex: indexWithEmbeddings } : prev);
+    updateSessionRetrievalIndex(sessionData.id, indexWithEmbeddings);
   };
 
   /**
-   * 生成UUID格式的卡片ID
+   * 从学习材料中提取术语表，完成后保存（重新生成时保留已生成的卡片关联）
+   * 返回失败原因，成功时返回 null
    */
-  const generateCardId = (): string => {
-    return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, function(c) {
-      const r = Math.random() * 16 | 0
-      const v = c == 'x' ? r : (r & 0x3 | 0x8)
-      return v.toString(16)
-    })
+  const buildGlossary = async (sessionData: LearningSession, config: APIConfig): Promise<string | null> => {
+    setIsGeneratingGlossary(true);
+    try {
+      const response = await generateGlossary(config, sessionData.documentContent, sessionData.outline, {
+        sessionId: sessionData.id,
+      });
+      warnIfOverBudget();
+      if (!response.success || !response.data) {
+        console.warn('⚠️ 生成术语表失败:', response.error);
+        return response.error || t('common.unknownError');
+      }
+
+      const glossary: Glossary = {
+        terms: carryOverGlossaryCards(sessionData.glossary?.terms, response.data),
+        createdAt: Date.now(),
+      };
+      setSession(prev => prev && prev.id === sessionData.id ? { ...prev, glossary } : prev);
+      updateSessionGlossary(sessionData.id, glossary);
+      return null;
+    } finally {
+      setIsGeneratingGlossary(false);
+    }
+  };
+
+  /**
+   * 在后台更新对话记忆（较早的对话按章节压缩为摘要），有变化时保存
+   */
+  const refreshConversationMemory = async (messages: ChatMessage[]) => {
+    if (!session || !apiConfig || isUpdatingMemoryRef.current) return;
+
+    isUpdatingMemoryRef.current = true;
+    try {
+      const result = await updateConversationMemory(
+        apiConfig,
+        messages,
+        session.conversationMemory,
+        session.outline,
+        undefined,
+        session.id
+      );
+      const memory = result.data;
+      if (memory && memory !== session.conversationMemory) {
+        setSession(prev => prev && prev.id === session.id ? { ...prev, conversationMemory: memory } : prev);
+        updateSessionConversationMemory(session.id, memory);
+      }
+    } finally {
+      isUpdatingMemoryRef.current = false;
+    }
+  };
+
+  /**
+   * 本月AI费用接近或超出预算时提醒一次
+   */
+  const warnIfOverBudget = () => {
+    if (budgetWarnedRef.current) return;
+    const status = getBudgetStatus();
+    if (status.level !== 'warning' && status.level !== 'exceeded') return;
+
+    budgetWarnedRef.current = true;
+    alert(status.level === 'exceeded'
+      ? t('learn.budgetExceeded', { spent: formatCost(status.spent), limit: formatCost(status.limit) })
+      : t('learn.budgetWarning', { spent: formatCost(status.spent), limit: formatCost(status.limit), percent: Math.round(status.ratio * 100) }));
   };
 
   /**
@@ -144,22 +372,23 @@ const LearnPageContent: React.FC = () => {
   const initializeChat = async (sessionData: LearningSession, config: APIConfig) => {
     // 找到第一个小节作为初始学习目标
     const firstSection = sessionData.outline.find(item => item.type === 'section');
+    const level = t(sessionData.learningLevel === 'beginner' ? 'common.beginner' : 'common.expert');
     
     // 创建系统初始化消息
     const systemMessage: ChatMessage = {
-      id: generateMessageId(),
+      id: generateId(),
       role: 'system',
-      content: `学习会话已开始。文档标题：${sessionData.title}，学习水平：${sessionData.learningLevel === 'beginner' ? '小白' : '高手'}模式。`,
+      content: t('learn.systemStarted', { title: sessionData.title, level }),
       timestamp: Date.now(),
     };
 
     const welcomeMessage: ChatMessage = {
-      id: generateMessageId(),
+      id: generateId(),
       role: 'assistant',
-      content: `你好！我将作为你的私人导师，帮助你更好的理解你上传的材料《${sessionData.title}》。为了给您提供最合适的教学体验，我将根据你之前选择的${sessionData.learningLevel === 'beginner' ? '小白' : '高手'}模式来跟你互动。
-
-看完左边这个课程大纲了吗？我们是按照这个顺序从第一章开始，还是您想先跳到某个您特别感兴趣的章节？`,
+      content: t('learn.welcome', { title: sessionData.title, level }),
       timestamp: Date.now(),
+      completedAt: Date.now(),
+      parentId: systemMessage.id,
     };
 
     const initialMessages = [systemMessage, welcomeMessage];
@@ -177,56 +406,225 @@ const LearnPageContent: React.FC = () => {
   };
 
   /**
-   * 发送消息给AI
+   * 页面卸载时取消仍在进行的AI请求
+   */
+  useEffect(() => {
+    return () => {
+      abortControllerRef.current?.abort();
+      quizAbortControllerRef.current?.abort();
+    };
+  }, []);
+
+  /**
+   * 发送消息给AI（接在当前分支的末尾）
    */
   const handleSendMessage = async (content: string) => {
     if (!session || !apiConfig || isSendingMessage) return;
 
+    const userMessage: ChatMessage = {
+      id: generateId(),
+      role: 'user',
+      content,
+      timestamp: Date.now(),
+      chapterId: session.currentChapter,
+      parentId: activeBranch[activeBranch.length - 1]?.id,
+    };
+
+    // 根据这条回复（是否没听懂、是否跳过反思模块、回复间隔）调整当前小节的难度
+    const learnerModel = recordLearnerReply(
+      session.learnerModel, session.learningLevel, session.currentChapter, userMessage, activeBranch[activeBranch.length - 1]
+    );
+    if (learnerModel && learnerModel !== session.learnerModel) {
+      setSession(prev => prev ? { ...prev, learnerModel } : null);
+      updateSessionLearnerModel(session.id, learnerModel);
+    }
+    await requestTutorReply([...session.messages, userMessage], userMessage.id, learnerModel);
+  };
+
+  /**
+   * 重新生成AI回复：新回复与原回复接在同一条提问之后，原回复保留为另一个分支
+   */
+  const handleRegenerateReply = async (messageId: string) => {
+    if (!session || !apiConfig || isSendingMessage) return;
+
+    const parentId = findParentId(session.messages, messageId);
+    if (!parentId) return;
+    await requestTutorReply(session.messages, parentId);
+  };
+
+  /**
+   * 编辑提问后重新发送：编辑后的提问与原提问接在同一条消息之后，原提问及其后的对话保留为另一个分支
+   */
+  const handleEditMessage = async (messageId: string, content: string) => {
+    if (!session || !apiConfig || isSendingMessage) return;
+
+    const original = session.messages.find(m => m.id === messageId);
+    if (!original) return;
+    const editedMessage: ChatMessage = {
+      id: generateId(),
+      role: 'user',
+      content,
+      timestamp: Date.now(),
+      chapterId: original.chapterId ?? session.currentChapter,
+      parentId: findParentId(session.messages, messageId),
+    };
+    await requestTutorReply([...session.messages, editedMessage], editedMessage.id);
+  };
+
+  /**
+   * 切换到消息的另一个版本
+   */
+  const handleSwitchBranch = (messageId: string) => {
+    if (!session || isSendingMessage) return;
+    setSession(prev => prev ? { ...prev, activeMessageId: messageId } : null);
+    updateSessionActiveMessage(session.id, messageId);
+  };
+
+  /**
+   * 学习中切换学习水平：各小节的难度重置为该水平的初始难度，并在对话历史中记录这次切换
+   */
+  const handleSwitchLevel = (level: LearningLevel) => {
+    if (!session || isSendingMessage || level === session.learningLevel) return;
+
+    const switchMessage: ChatMessage = {
+      id: generateId(),
+      role: 'system',
+      content: t('learn.levelSwitched', { level: t(level === 'beginner' ? 'common.beginner' : 'common.expert') }),
+      timestamp: Date.now(),
+      chapterId: session.currentChapter,
+      parentId: activeBranch[activeBranch.length - 1]?.id,
+    };
+    const updatedSession: LearningSession = {
+      ...session,
+      learningLevel: level,
+      learnerModel: setLearnerLevel(session.learnerModel, level),
+      messages: [...session.messages, switchMessage],
+      activeMessageId: switchMessage.id,
+    };
+
+    setSession(updatedSession);
+    switchToLevel(level);
+    // 以存储中的会话为基础保存，页面状态中没有的改动（如刚添加的卡片）不会被覆盖
+    const { learningLevel, learnerModel, messages, activeMessageId } = updatedSession;
+    saveSession({ ...(getSessionById(session.id) || session), learningLevel, learnerModel, messages, activeMessageId });
+    console.log('🎚️ 学习水平已切换为:', level);
+  };
+
+  /**
+   * 请私教回复指定的提问
+   * messages 为包含该提问的全部消息，回复接在 parentId 之后，发送给AI的只有从根到该提问的分支
+   * 讲解难度取学习者模型中当前小节的难度
+   */
+  const requestTutorReply = async (
+    messages: ChatMessage[],
+    parentId: string,
+    learnerModel = session?.learnerModel
+  ) => {
+    if (!session || !apiConfig) return;
+
     setIsSendingMessage(true);
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    // 本轮对话所在分支的末端，出错时错误消息接在它之后
+    let branchLeafId = parentId;
 
     try {
-      // 创建用户消息
-      const userMessage: ChatMessage = {
-        id: generateMessageId(),
-        role: 'user',
-        content,
-        timestamp: Date.now(),
-      };
+      const branchMessages = getBranchUntil(messages, parentId);
 
-      // 更新消息列表
-      const updatedMessages = [...session.messages, userMessage];
-      setSession(prev => prev ? { ...prev, messages: updatedMessages } : null);
+      // 切换到本轮对话所在的分支
+      setSession(prev => prev ? { ...prev, messages, activeMessageId: parentId } : null);
 
-      // 发送给AI
-      const response = await sendChatMessage(
+      // 流式发送给AI：回复逐字显示，但只在完成或中断时才持久化
+      const assistantMessageId = generateId();
+      const assistantTimestamp = Date.now();
+      setStreamingMessageId(assistantMessageId);
+
+      const response = await sendChatMessageStream(
         apiConfig,
-        updatedMessages,
+        branchMessages,
         session.documentContent,
         session.outline,
-        session.learningLevel
+        session.learningLevel,
+        (_delta, accumulated) => {
+          // 仅更新本地状态，第一次收到内容时插入AI消息，之后原地更新
+          setSession(prev => {
+            if (!prev) return null;
+            const streamingMessage: ChatMessage = {
+              id: assistantMessageId,
+              role: 'assistant',
+              content: accumulated,
+              timestamp: assistantTimestamp,
+              chapterId: session.currentChapter,
+              parentId,
+            };
+            const exists = prev.messages.some(m => m.id === assistantMessageId);
+            return {
+              ...prev,
+              messages: exists
+                ? prev.messages.map(m => m.id === assistantMessageId ? streamingMessage : m)
+                : [...prev.messages, streamingMessage],
+            };
+          });
+        },
+        abortController.signal,
+        {
+          retrievalIndex: session.retrievalIndex,
+          currentChapterId: session.currentChapter,
+          conversationMemory: session.conversationMemory,
+          sessionId: session.id,
+          promptTemplate: session.promptTemplates?.tutor,
+          difficulty: getChapterDifficulty(learnerModel, session.learningLevel, session.currentChapter),
+        }
       );
 
-      if (response.success && response.data) {
-        // 创建AI回复消息
+      const isAborted = response.code === ABORTED_CODE;
+      setContextNotice(describeContextTrimming(response.contextUsage));
+      warnIfOverBudget();
+
+      if (response.data && (response.success || isAborted)) {
+        // 创建AI回复消息（停止时保留已经收到的部分内容）
         const assistantMessage: ChatMessage = {
-          id: generateMessageId(),
+          id: assistantMessageId,
           role: 'assistant',
           content: response.data,
-          timestamp: Date.now(),
+          timestamp: assistantTimestamp,
+          completedAt: Date.now(),
+          chapterId: session.currentChapter,
+          parentId,
+          ...(isAborted ? { isInterrupted: true } : {}),
+          ...(response.answeredBy ? { answeredBy: response.answeredBy } : {}),
+          ...(response.citations?.length ? { citations: response.citations } : {}),
         };
 
-        const finalMessages = [...updatedMessages, assistantMessage];
+        const finalMessages = [...messages, assistantMessage];
+        branchLeafId = assistantMessage.id;
         
         // 更新本地状态
-        setSession(prev => prev ? { ...prev, messages: finalMessages } : null);
+        setSession(prev => prev ? { ...prev, messages: finalMessages, activeMessageId: assistantMessage.id } : null);
         
         // 保存到存储
         updateSessionMessages(session.id, finalMessages);
+        updateSessionActiveMessage(session.id, assistantMessage.id);
+
+        // 后台把较早的对话压缩进记忆，不阻塞本轮对话
+        refreshConversationMemory([...branchMessages, assistantMessage]);
+      } else {
+        // 没有收到任何有效内容或请求失败，移除流式显示的消息（失败时不保存不完整的回复）
+        setSession(prev => prev ? { ...prev, messages } : null);
+        if (isAborted) {
+          // 停止时尚未生成内容，仍保留用户的提问
+          updateSessionMessages(session.id, messages);
+          updateSessionActiveMessage(session.id, parentId);
+        }
+      }
 
-        // 检查是否需要更新当前章节
-        await checkAndUpdateCurrentChapter(response.data, session);
+      if (isAborted) {
+        console.log('⏹️ 用户已停止生成');
+      } else if (response.success && response.data) {
+        // 按私教给出的进度信号更新当前小节和完成状态
+        await applyChapterProgress(response.progress, session);
       } else {
-        throw new Error(response.error || 'AI响应失败');
+        throw new Error(response.error || t('learn.replyFailed'));
       }
     } catch (error) {
       console.error('发送消息失败:', error);
@@ -236,276 +634,452 @@ const LearnPageContent: React.FC = () => {
         apiConfig: apiConfig,
         sessionInfo: {
           id: session.id,
-          messagesCount: session.messages.length,
+          messagesCount: messages.length,
           learningLevel: session.learningLevel,
         }
       });
       
       // 创建详细的错误消息
-      const errorDetails = error instanceof Error ? error.message : '未知错误';
+      const errorDetails = error instanceof Error ? error.message : t('common.unknownError');
       const errorMessage: ChatMessage = {
-        id: generateMessageId(),
+        id: generateId(),
         role: 'system',
-        content: `❌ AI回复失败：${errorDetails}
-
-可能的原因：
-• API密钥无效或已过期
-• 网络连接问题
-• AI服务暂时不可用
-• 请求内容超过限制
-
-建议操作：
-• 检查API配置是否正确
-• 稍后重试
-• 联系技术支持`,
+        content: t('learn.replyFailedMessage', { error: errorDetails }),
         timestamp: Date.now(),
+        parentId: branchLeafId,
       };
 
+      // 错误消息接在本轮分支的末端；重新生成失败时仍显示原来的回复
       setSession(prev => {
         if (!prev) return null;
         const messagesWithError = [...prev.messages, errorMessage];
         updateSessionMessages(prev.id, messagesWithError);
-        return { ...prev, messages: messagesWithError };
+        updateSessionActiveMessage(prev.id, branchLeafId);
+        return { ...prev, messages: messagesWithError, activeMessageId: branchLeafId };
       });
     } finally {
+      if (abortControllerRef.current === abortController) {
+        abortControllerRef.current = null;
+      }
+      setStreamingMessageId(null);
       setIsSendingMessage(false);
     }
   };
 
   /**
-   * 检查并更新当前章节
+   * 停止生成当前回复，已生成的内容会被保留
    */
-  const checkAndUpdateCurrentChapter = async (aiResponse: string, sessionData: LearningSession) => {
-    const lowerResponse = aiResponse.toLowerCase();
-    
-    // 1. 首先检查用户是否明确要求跳转到特定小节
-    const userMessageForJump = sessionData.messages.filter(m => m.role === 'user').pop();
-    if (userMessageForJump) {
-      // 检查用户消息中的小节编号（如"去1.2"、"学习1.3"、"1.2小节"等）
-      const userSectionPattern = /(?:去|到|学习|进入|开始)?.*?(\d+\.\d+)(?:小节|节)?/g;
-      const userSectionMatches = [...userMessageForJump.content.matchAll(userSectionPattern)];
-      
-      if (userSectionMatches.length > 0) {
-        // 找到最后一个提到的小节编号
-        const lastMatch = userSectionMatches[userSectionMatches.length - 1];
-        const sectionNumber = lastMatch[1];
-        
-        // 在大纲中查找对应的小节
-        const targetSection = sessionData.outline.find(item => 
-          item.type === 'section' && item.title.includes(sectionNumber)
-        );
-        
-        if (targetSection && sessionData.currentChapter !== targetSection.id) {
-          console.log(`用户要求跳转到小节 ${sectionNumber}，切换到:`, targetSection.title);
-          
-          // 在跳转到指定小节之前，先标记当前小节为完成
-          if (sessionData.currentChapter) {
-            console.log('用户跳转前标记当前小节为完成:', sessionData.currentChapter);
-            await handleMarkChapterCompleted(sessionData.currentChapter);
-          }
-          
-          updateSessionCurrentChapter(sessionData.id, targetSection.id);
-          setSession(prev => prev ? { ...prev, currentChapter: targetSection.id } : null);
-          return; // 找到明确的小节，直接返回
-        }
-      }
+  const handleStopGenerating = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  /**
+   * 根据私教回复中的进度信号更新学习进度
+   * 标记学完的小节、切换当前小节，并记录建议的下一小节；回复中没有进度标记时不做任何改动
+   */
+  const applyChapterProgress = async (progress: ChapterProgress | undefined, sessionData: LearningSession) => {
+    if (!progress) {
+      console.log('ℹ️ 本轮回复没有进度标记，保持当前学习进度');
+      return;
     }
-    
-    // 2. 检查AI是否明确提到了具体的小节编号
-    console.log('AI回复内容:', aiResponse);
-    const aiSectionPattern = /(?:现在|开始|进入|学习|讲解|探讨|来看|接下来|我们来|先看|首先|然后).*?(\d+\.\d+)(?:小节|节|章|部分)?/g;
-    const aiSectionMatches = [...aiResponse.matchAll(aiSectionPattern)];
-    console.log('AI小节匹配结果:', aiSectionMatches);
-    
-    if (aiSectionMatches.length > 0) {
-      // 找到最后一个提到的小节编号
-      const lastMatch = aiSectionMatches[aiSectionMatches.length - 1];
-      const sectionNumber = lastMatch[1];
-      console.log('AI提到的小节编号:', sectionNumber);
-      
-      // 在大纲中查找对应的小节
-      const targetSection = sessionData.outline.find(item => 
-        item.type === 'section' && item.title.includes(sectionNumber)
-      );
-      console.log('找到的目标小节:', targetSection);
-      
-      if (targetSection && sessionData.currentChapter !== targetSection.id) {
-        console.log(`AI明确提到小节 ${sectionNumber}，切换到:`, targetSection.title);
-        
-        // 在切换到新小节之前，先标记当前小节为完成
-        if (sessionData.currentChapter) {
-          console.log('切换前标记当前小节为完成:', sessionData.currentChapter);
-          await handleMarkChapterCompleted(sessionData.currentChapter);
-        }
-        
-        updateSessionCurrentChapter(sessionData.id, targetSection.id);
-        setSession(prev => prev ? { ...prev, currentChapter: targetSection.id } : null);
-        return; // 找到明确的小节，直接返回
+    console.log('📍 私教进度信号:', progress);
+
+    for (const completedId of progress.completedItemIds) {
+      const item = sessionData.outline.find(outlineItem => outlineItem.id === completedId);
+      if (!item || item.isCompleted) continue;
+      if (canAutoComplete(item.quiz, requireQuizToComplete)) {
+        await handleMarkChapterCompleted(completedId);
+      } else {
+        console.log('📝 小节测验尚未通过，暂不自动完成:', item.title);
       }
     }
 
-    // 3. 尝试简单的数字模式匹配 (如 "1.2" 这样的独立数字)
-    const simpleNumberPattern = /(\d+\.\d+)/g;
-    const simpleMatches = [...aiResponse.matchAll(simpleNumberPattern)];
-    
-    if (simpleMatches.length > 0) {
-      // 检查每个数字是否对应大纲中的小节
-      for (const match of simpleMatches) {
-        const sectionNumber = match[1];
-        const targetSection = sessionData.outline.find(item => 
-          item.type === 'section' && item.title.includes(sectionNumber)
-        );
-        
-        if (targetSection && sessionData.currentChapter !== targetSection.id) {
-          console.log(`通过数字模式匹配到小节 ${sectionNumber}，切换到:`, targetSection.title);
-          
-          // 在切换到新小节之前，先标记当前小节为完成
-          if (sessionData.currentChapter) {
-            await handleMarkChapterCompleted(sessionData.currentChapter);
-          }
-          
-          updateSessionCurrentChapter(sessionData.id, targetSection.id);
-          setSession(prev => prev ? { ...prev, currentChapter: targetSection.id } : null);
-          return;
-        }
-      }
+    if (progress.currentItemId && progress.currentItemId !== sessionData.currentChapter) {
+      updateSessionCurrentChapter(sessionData.id, progress.currentItemId);
+      setSession(prev => prev ? { ...prev, currentChapter: progress.currentItemId } : null);
     }
-    
-    // 2. 检查AI是否提到了小节完成的关键词
-    const completionKeywords = [
-      '完成了', '已经完成了', '我们完成了', '刚才完成了',
-      '学习完了', '已经学完了', '我们学完了',
-      '结束了', '已经结束了', '我们结束了',
-      '这一节就到这里', '本节内容结束',
-      '这个小节的内容就讲完了', '本小节到此结束'
-    ];
-    
-    console.log('检查AI是否提到完成关键词:', completionKeywords.some(keyword => lowerResponse.includes(keyword)));
-    console.log('AI回复内容(小写):', lowerResponse);
-    
-    // 如果AI提到了完成关键词
-    if (completionKeywords.some(keyword => lowerResponse.includes(keyword))) {
-      let completedSectionId = null;
-      
-      // 检查是否提到了具体的小节编号（用于标记完成）
-      // 增强正则表达式，支持更多的表达方式
-      const completedSectionPattern = /(?:完成了|学完了|结束了|已经完成了|我们完成了).*?(\d+\.\d+)(?:小节|节)?.*?(?:的学习|学习|的内容)?/g;
-      const completedMatches = [...aiResponse.matchAll(completedSectionPattern)];
-      
-      console.log('完成小节匹配结果:', completedMatches);
-      
-      if (completedMatches.length > 0) {
-        const completedNumber = completedMatches[0][1];
-        console.log('提取到的完成小节编号:', completedNumber);
-        
-        const completedSection = sessionData.outline.find(item => 
-          item.type === 'section' && item.title.includes(completedNumber)
-        );
-        
-        console.log('找到的完成小节:', completedSection);
-        
-        if (completedSection) {
-          completedSectionId = completedSection.id;
-        }
+
+    const nextId = progress.nextSuggestedItemId;
+    const currentId = progress.currentItemId || sessionData.currentChapter;
+    setSuggestedNextChapterId(
+      nextId && nextId !== currentId && !progress.completedItemIds.includes(nextId) ? nextId : null
+    );
+  };
+
+  /**
+   * 保存小节测验（本地状态与存储）
+   */
+  const saveItemQuiz = (itemId: string, quiz: OutlineItemQuiz) => {
+    if (!session) return;
+    setSession(prev => prev ? {
+      ...prev,
+      outline: prev.outline.map(item => item.id === itemId ? { ...item, quiz } : item),
+    } : null);
+    updateOutlineItemQuiz(session.id, itemId, quiz);
+  };
+
+  /**
+   * 打开小节测验
+   */
+  const handleOpenQuiz = (itemId: string) => {
+    setQuizError(null);
+    setQuizItemId(itemId);
+  };
+
+  /**
+   * 关闭小节测验，取消进行中的出题或批改
+   */
+  const handleCloseQuiz = () => {
+    quizAbortControllerRef.current?.abort();
+    setQuizItemId(null);
+  };
+
+  /**
+   * 根据小节的学习材料生成测验（重新出题会替换原有题目和作答记录）
+   */
+  const handleGenerateQuiz = async () => {
+    if (!session || !apiConfig || !quizItemId) return;
+
+    const itemId = quizItemId;
+    const abortController = new AbortController();
+    quizAbortControllerRef.current = abortController;
+    setIsGeneratingQuiz(true);
+    setQuizError(null);
+    try {
+      const response = await generateChapterQuiz(apiConfig, session.documentContent, session.outline, itemId, {
+        retrievalIndex: session.retrievalIndex,
+        learningLevel: getLevelForDifficulty(getChapterDifficulty(session.learnerModel, session.learningLevel, itemId)),
+        sessionId: session.id,
+        signal: abortController.signal,
+      });
+      warnIfOverBudget();
+      if (response.success && response.data) {
+        saveItemQuiz(itemId, response.data);
+      } else if (response.code !== ABORTED_CODE) {
+        setQuizError(t('quiz.generateFailed', { error: response.error || t('common.unknownError') }));
       }
-      
-      // 如果没有明确的编号，尝试通过小节标题匹配
-      if (!completedSectionId) {
-        console.log('尝试通过标题匹配完成的小节');
-        for (const item of sessionData.outline) {
-          if (item.type === 'section') {
-            const titleWithoutNumber = item.title.replace(/^\d+\.\d+\s*/, '').trim();
-            if (titleWithoutNumber && aiResponse.includes(titleWithoutNumber)) {
-              console.log('通过标题匹配到完成小节:', item.title);
-              completedSectionId = item.id;
-              break;
-            }
-          }
+    } finally {
+      if (quizAbortControllerRef.current === abortController) {
+        quizAbortControllerRef.current = null;
+      }
+      setIsGeneratingQuiz(false);
+    }
+  };
+
+  /**
+   * 批改测验并记录成绩
+   * 开启“须通过测验才自动完成”时，通过测验即标记小节完成
+   */
+  const handleSubmitQuiz = async (answers: Record<string, string>): Promise<QuizAttempt | null> => {
+    const item = session?.outline.find(outlineItem => outlineItem.id === quizItemId);
+    if (!session || !apiConfig || !item?.quiz) return null;
+
+    const abortController = new AbortController();
+    quizAbortControllerRef.current = abortController;
+    setIsGradingQuiz(true);
+    setQuizError(null);
+    try {
+      const response = await gradeQuizAnswers(apiConfig, item.quiz, answers, {
+        sessionId: session.id,
+        signal: abortController.signal,
+      });
+      warnIfOverBudget();
+      if (!response.success || !response.data) {
+        if (response.code !== ABORTED_CODE) {
+          setQuizError(t('quiz.gradeFailed', { error: response.error || t('common.unknownError') }));
         }
+        return null;
       }
-      
-      // 如果还是没找到，使用当前章节
-      if (!completedSectionId && sessionData.currentChapter) {
-        console.log('使用当前章节作为完成小节:', sessionData.currentChapter);
-        completedSectionId = sessionData.currentChapter;
+
+      const attempt = response.data;
+      saveItemQuiz(item.id, recordQuizAttempt(item.quiz, attempt));
+      // 按测验成绩调整该小节的难度
+      setSession(prev => {
+        if (!prev) return null;
+        const learnerModel = recordQuizScore(prev.learnerModel, prev.learningLevel, item.id, attempt.score);
+        updateSessionLearnerModel(prev.id, learnerModel);
+        return { ...prev, learnerModel };
+      });
+      if (attempt.passed && requireQuizToComplete && !item.isCompleted) {
+        await handleMarkChapterCompleted(item.id);
       }
-      
-      // 标记找到的小节为完成
-      if (completedSectionId) {
-        console.log('标记小节为完成:', completedSectionId);
-        await handleMarkChapterCompleted(completedSectionId);
-      } else {
-        console.log('未找到要标记为完成的小节');
+      return attempt;
+    } finally {
+      if (quizAbortControllerRef.current === abortController) {
+        quizAbortControllerRef.current = null;
       }
+      setIsGradingQuiz(false);
     }
-    
-    // 3. 检查是否用户明确要求进入下一节
-    // 注意：根据新的"一步一停"教学模式，我们不应该因为AI提到"接下来"就自动推进
-    // 只有当用户明确要求或AI明确说明整个小节已经完成时才推进
-    const userRequestNextKeywords = [
-      '我想学下一节', '进入下一节吧', '开始下一节', 
-      '下一个小节', '继续下一节', '跳到下一节',
-      '下一章吧', '进入下一章', '开始下一章',
-      '下一个章节', '继续下一章', '下个章节'
-    ];
-    
-    // 只有当用户的消息中包含这些关键词时才考虑推进
-    const userMessageForNext = sessionData.messages.filter(m => m.role === 'user').pop();
-    if (userMessageForNext && userRequestNextKeywords.some(keyword => userMessageForNext.content.toLowerCase().includes(keyword))) {
-      // 如果没有明确指定小节编号，自动推进到下一个小节
-      if (!aiSectionMatches.length && sessionData.currentChapter) {
-        const currentIndex = sessionData.outline.findIndex(item => item.id === sessionData.currentChapter);
-        console.log('当前章节索引:', currentIndex, '当前章节ID:', sessionData.currentChapter);
-        console.log('大纲结构:', sessionData.outline.map((item, index) => `${index}: ${item.title} (${item.type})`));
-        
-        if (currentIndex >= 0) {
-          // 查找下一个小节（跳过章节标题）
-          for (let i = currentIndex + 1; i < sessionData.outline.length; i++) {
-            console.log(`检查索引 ${i}: ${sessionData.outline[i].title} (${sessionData.outline[i].type})`);
-            if (sessionData.outline[i].type === 'section') {
-              const nextSection = sessionData.outline[i];
-              console.log('用户要求推进到下一小节:', nextSection.title);
-              
-              // 在推进到下一节之前，先标记当前小节为完成
-              console.log('用户推进前标记当前小节为完成:', sessionData.currentChapter);
-              await handleMarkChapterCompleted(sessionData.currentChapter);
-              
-              updateSessionCurrentChapter(sessionData.id, nextSection.id);
-              setSession(prev => prev ? { ...prev, currentChapter: nextSection.id } : null);
-              break;
-            }
-          }
-        }
+  };
+
+  /**
+   * 切换“须通过测验才自动完成小节”，保存到偏好设置
+   */
+  const handleRequireQuizToCompleteChange = (value: boolean) => {
+    setRequireQuizToComplete(value);
+    saveUserPreferences({ requireQuizToComplete: value });
+    storageAdapter.saveUserPreferences({ ...getUserPreferences(), requireQuizToComplete: value }).catch(error => {
+      console.warn('保存测验设置失败:', error);
+    });
+  };
+
+  /**
+   * 打开复习卡片提取对话框并立即开始提取
+   */
+  const handleOpenCardGeneration = (itemId: string) => {
+    setCardSuggestionItemId(null);
+    setCardItemId(itemId);
+    setCardDrafts(null);
+    setCardError(null);
+    handleGenerateCards(itemId);
+  };
+
+  /**
+   * 关闭复习卡片提取对话框，取消进行中的提取
+   */
+  const handleCloseCardGeneration = () => {
+    cardAbortControllerRef.current?.abort();
+    setCardItemId(null);
+    setCardDrafts(null);
+  };
+
+  /**
+   * 从小节的对话和原文中提取卡片草稿
+   */
+  const handleGenerateCards = async (itemId: string) => {
+    if (!session || !apiConfig) return;
+
+    const abortController = new AbortController();
+    cardAbortControllerRef.current = abortController;
+    setIsGeneratingCards(true);
+    setCardError(null);
+    try {
+      const response = await generateChapterCards(apiConfig, session.documentContent, session.outline, itemId, activeBranch, {
+        retrievalIndex: session.retrievalIndex,
+        sessionId: session.id,
+        signal: abortController.signal,
+      });
+      warnIfOverBudget();
+      if (response.success && response.data) {
+        setCardDrafts(response.data);
+      } else if (response.code !== ABORTED_CODE) {
+        setCardError(t('cardGeneration.generateFailed', { error: response.error || t('common.unknownError') }));
+      }
+    } finally {
+      if (cardAbortControllerRef.current === abortController) {
+        cardAbortControllerRef.current = null;
       }
+      setIsGeneratingCards(false);
     }
-    
-    // 4. 检查AI是否提到了具体的小节标题（用于切换章节）
-    let chapterFoundAndUpdated = false;
-    for (const item of sessionData.outline) {
-      if (item.type === 'section' && !chapterFoundAndUpdated) {
-        // 检查是否提到了小节的核心标题
-        const titleWithoutNumber = item.title.replace(/^\d+\.\d+\s*/, '').trim();
-        
-        if (titleWithoutNumber.length > 2) { // 避免匹配过短的标题
-          const titlePatterns = [
-            `学习${titleWithoutNumber}`, `开始${titleWithoutNumber}`,
-            `进入${titleWithoutNumber}`, `讲解${titleWithoutNumber}`,
-            `${titleWithoutNumber}的内容`, `${titleWithoutNumber}部分`
-          ];
-          
-          if (titlePatterns.some(pattern => aiResponse.includes(pattern))) {
-            if (sessionData.currentChapter !== item.id) {
-              console.log('通过标题匹配切换章节:', item.title);
-              updateSessionCurrentChapter(sessionData.id, item.id);
-              setSession(prev => prev ? { ...prev, currentChapter: item.id } : null);
-              chapterFoundAndUpdated = true;
-            }
-          }
-        }
+  };
+
+  /**
+   * 保存用户确认的卡片，关联到小节和来源消息
+   */
+  const handleSaveGeneratedCards = async (drafts: CardDraft[]) => {
+    if (!session || !cardItemId) return;
+
+    const cards = drafts.map(draft => createCardFromDraft(draft, {
+      id: generateId(),
+      sessionId: session.id,
+      chapterId: cardItemId,
+    }));
+    // 逐张保存：每次保存都会读取并重写会话
+    let savedCount = 0;
+    for (const card of cards) {
+      if (await addLearningCard(session.id, card)) savedCount++;
+    }
+    console.log(`🃏 已保存 ${savedCount}/${cards.length} 张提取的卡片`);
+    handleCardsUpdate();
+
+    if (savedCount < cards.length) {
+      setCardError(t('cardGeneration.saveFailed'));
+      return;
+    }
+    handleCloseCardGeneration();
+  };
+
+  /**
+   * 打开原文面板并定位到回复引用的片段
+   */
+  const handleCitationClick = (citation: MessageCitation) => {
+    setActiveCitation(citation);
+    setShowSourceViewer(true);
+  };
+
+  const handleCloseSourceViewer = () => {
+    setShowSourceViewer(false);
+    setActiveCitation(null);
+  };
+
+  /**
+   * 请私教讲解原文中选中的内容
+   */
+  const handleAskAboutSelection = (text: string) => {
+    const quote = text
+      .slice(0, MAX_QUOTED_SELECTION_CHARS)
+      .split('\n')
+      .map(line => `> ${line}`)
+      .join('\n');
+    handleSendMessage(t('sourceViewer.askPrompt', { quote }));
+  };
+
+  /**
+   * 更新页面中的批注并保存
+   */
+  const persistAnnotations = async (annotations: Annotation[]) => {
+    if (!session) return;
+
+    setSession(prev => prev ? { ...prev, annotations } : null);
+    const success = await updateSessionAnnotations(session.id, annotations);
+    if (!success) {
+      alert(t('annotations.saveFailed'));
+    }
+  };
+
+  /**
+   * 高亮原文区间，批注归入高亮位置所在的大纲项（找不到时归入当前小节）
+   */
+  const handleCreateAnnotation = (range: TextRange, color: AnnotationColor): string | null => {
+    if (!session) return null;
+
+    const now = Date.now();
+    const annotation: Annotation = {
+      id: generateId(),
+      sessionId: session.id,
+      chapterId: findOutlineItemForOffset(session.documentContent, session.outline, range.start) || session.currentChapter,
+      color,
+      anchor: createAnnotationAnchor(session.documentContent, range.start, range.end),
+      createdAt: now,
+      updatedAt: now,
+    };
+    persistAnnotations([...(session.annotations || []), annotation]);
+    return annotation.id;
+  };
+
+  const handleUpdateAnnotation = (id: string, changes: { color?: AnnotationColor; note?: string }) => {
+    if (!session) return;
+
+    persistAnnotations((session.annotations || []).map(annotation => {
+      if (annotation.id !== id) return annotation;
+      const updated = { ...annotation, ...changes, updatedAt: Date.now() };
+      if (!updated.note) delete updated.note;
+      return updated;
+    }));
+  };
+
+  const handleDeleteAnnotation = (id: string) => {
+    if (!session) return;
+    persistAnnotations((session.annotations || []).filter(annotation => annotation.id !== id));
+  };
+
+  /**
+   * 把批注转换为学习卡片，卡片保存（登录时同步到云端）后再在批注上记录卡片ID
+   */
+  const handleCreateCardFromAnnotation = async (id: string) => {
+    const annotation = session?.annotations?.find(item => item.id === id);
+    if (!session || !annotation || annotation.cardId) return;
+
+    const card = createCardFromAnnotation(annotation, { id: generateId() });
+    if (!(await addLearningCard(session.id, card))) {
+      alert(t('annotations.cardFailed'));
+      return;
+    }
+    console.log('🖍️ 已从批注生成卡片:', card.id);
+    handleCardsUpdate();
+    persistAnnotations(session.annotations!.map(item => item.id === id ? { ...item, cardId: card.id } : item));
+  };
+
+  /**
+   * 手动生成或重新生成术语表
+   */
+  const handleGenerateGlossary = async () => {
+    if (!session || !apiConfig || isGeneratingGlossary) return;
+
+    const error = await buildGlossary(session, apiConfig);
+    if (error) {
+      alert(t('glossary.generateFailed', { error }));
+    }
+  };
+
+  /**
+   * 生成或重新生成概念图（已有术语表时作为候选概念），完成后保存
+   */
+  const handleGenerateConceptMap = async () => {
+    if (!session || !apiConfig || isGeneratingConceptMap) return;
+
+    setIsGeneratingConceptMap(true);
+    setConceptMapError(null);
+    try {
+      const response = await generateConceptMap(apiConfig, session.documentContent, session.outline, {
+        glossaryTerms: session.glossary?.terms,
+        sessionId: session.id,
+      });
+      warnIfOverBudget();
+      if (!response.success || !response.data) {
+        console.warn('⚠️ 生成概念图失败:', response.error);
+        setConceptMapError(response.error || t('common.unknownError'));
+        return;
       }
+
+      const conceptMap: ConceptMap = { ...response.data, createdAt: Date.now() };
+      setSession(prev => prev && prev.id === session.id ? { ...prev, conceptMap } : prev);
+      updateSessionConceptMap(session.id, conceptMap);
+    } finally {
+      setIsGeneratingConceptMap(false);
     }
   };
 
+  /**
+   * 打开概念图，还没有概念图时自动生成
+   */
+  const handleOpenConceptMap = () => {
+    setShowConceptMap(true);
+    if (!session?.conceptMap) {
+      handleGenerateConceptMap();
+    }
+  };
+
+  /**
+   * 从概念图跳转学习：点击章时跳到该章的第一个小节
+   */
+  const handleConceptMapSelect = (itemId: string) => {
+    if (!session) return;
+    const index = session.outline.findIndex(item => item.id === itemId);
+    if (index < 0) return;
+
+    const item = session.outline[index];
+    const target = item.type === 'chapter'
+      ? session.outline.find(other => other.type === 'section' && other.parentId === item.id)
+        || session.outline.slice(index + 1).find(other => other.type === 'section')
+      : item;
+    if (target) {
+      handleChapterClick(target.id);
+    }
+  };
+
+  /**
+   * 把术语转换为学习卡片，并在术语上记录卡片ID
+   */
+  const handleCreateCardFromTerm = async (termId: string) => {
+    const term = session?.glossary?.terms.find(item => item.id === termId);
+    if (!session || !term || term.cardId) return;
+
+    const card = createCardFromGlossaryTerm(term, { id: generateId(), sessionId: session.id });
+    if (!(await addLearningCard(session.id, card))) {
+      alert(t('glossary.cardFailed'));
+      return;
+    }
+    console.log('📖 已从术语生成卡片:', card.id);
+    handleCardsUpdate();
+    const glossary: Glossary = {
+      ...session.glossary!,
+      terms: session.glossary!.terms.map(item => item.id === termId ? { ...item, cardId: card.id } : item),
+    };
+    setSession(prev => prev ? { ...prev, glossary } : null);
+    updateSessionGlossary(session.id, glossary);
+  };
+
   /**
    * 修复大纲数据，确保每个章节都有小节
    */
@@ -538,10 +1112,10 @@ const LearnPageContent: React.FC = () => {
       setSession(updatedSession);
       
       console.log('✅ 【新强化版】大纲修复完成');
-      alert('✅ 大纲修复完成！使用了新的强化重组算法。请查看控制台日志了解详细过程。');
+      alert(t('learn.outlineFixed'));
     } catch (error) {
       console.error('❌ 修复大纲失败:', error);
-      alert('修复大纲失败，请稍后重试。');
+      alert(t('learn.outlineFixFailed'));
     }
   };
 
@@ -562,7 +1136,7 @@ const LearnPageContent: React.FC = () => {
     setSession(prev => prev ? { ...prev, currentChapter: chapterId } : null);
 
     // 发送切换章节的消息
-    const switchMessage = `我想跳转到"${item.title}"这个小节进行学习。`;
+    const switchMessage = t('learn.jumpToSection', { title: item.title });
     handleSendMessage(switchMessage);
   };
 
@@ -607,7 +1181,7 @@ const LearnPageContent: React.FC = () => {
       console.log('提纯后内容:', purifiedContent);
 
       // 基于提纯后的内容生成标题
-      const titleResponse = await summarizeCardTitle(apiConfig, purifiedContent);
+      const titleResponse = await summarizeCardTitle(apiConfig, purifiedContent, session.id);
       cardTitle = titleResponse.success ? titleResponse.data : purifiedContent.substring(0, 12);
       cardContent = purifiedContent;
 
@@ -629,9 +1203,9 @@ const LearnPageContent: React.FC = () => {
 
     // 无论AI是否成功，都只创建一张卡片
     const card: LearningCard = {
-      id: generateCardId(),
+      id: generateId(),
       title: cardTitle,
-      content: cardContent + (userNote ? `\n\n学习感受：${userNote}` : ''),
+      content: cardContent + (userNote ? `\n\n${t('learn.cardNote', { note: userNote })}` : ''),
       userNote,
       type,
       tags: [],
@@ -646,7 +1220,7 @@ const LearnPageContent: React.FC = () => {
 
     try {
       // 保存卡片
-      const success = addLearningCard(session.id, card);
+      const success = await addLearningCard(session.id, card);
       if (success) {
         // 更新消息的收藏状态，添加卡片ID
         const updatedMessages = session.messages.map(m =>
@@ -664,7 +1238,7 @@ const LearnPageContent: React.FC = () => {
         
         console.log('✅ 卡片创建成功:', card.id);
       } else {
-        throw new Error('保存卡片失败');
+        throw new Error(t('learn.saveCardFailed'));
       }
     } catch (saveError) {
       console.error('保存卡片失败:', saveError);
@@ -676,7 +1250,7 @@ const LearnPageContent: React.FC = () => {
       setSession(prev => prev ? { ...prev, messages: revertedMessages } : null);
       
       // 可以在这里添加用户提示
-      alert('收藏失败，请重试');
+      alert(t('learn.bookmarkFailed'));
     }
   };
 
@@ -693,7 +1267,7 @@ const LearnPageContent: React.FC = () => {
   const handleMarkChapterCompleted = async (chapterId: string) => {
     if (!session) return;
 
-    const success = markChapterCompleted(session.id, chapterId);
+    const success = await markChapterCompleted(session.id, chapterId);
     if (success) {
       // 更新本地状态
       setSession(prev => {
@@ -705,6 +1279,69 @@ const LearnPageContent: React.FC = () => {
         );
         return { ...prev, outline: updatedOutline };
       });
+      // 提示从刚完成的小节提取复习卡片；开启自动复盘时在完成状态保存后于后台生成复盘笔记
+      setCardSuggestionItemId(chapterId);
+      if (autoGenerateRecaps) {
+        buildChapterRecap(chapterId).catch(error => console.warn('⚠️ 自动生成复盘笔记失败:', error));
+      }
+    }
+  };
+
+  /**
+   * 为小节生成复盘笔记并保存（使用已保存的最新对话）
+   * 返回失败原因，成功时返回 null
+   */
+  const buildChapterRecap = async (itemId: string): Promise<string | null> => {
+    if (!session || !apiConfig) return null;
+
+    setGeneratingRecapId(itemId);
+    try {
+      const stored = getSessionById(session.id) || session;
+      const response = await generateChapterRecap(
+        apiConfig,
+        session.documentContent,
+        session.outline,
+        itemId,
+        getActiveBranch(stored.messages, stored.activeMessageId),
+        { retrievalIndex: session.retrievalIndex, sessionId: session.id }
+      );
+      warnIfOverBudget();
+      if (!response.success || !response.data) {
+        console.warn('⚠️ 生成复盘笔记失败:', response.error);
+        return response.error || t('common.unknownError');
+      }
+
+      const recap = response.data;
+      setSession(prev => prev && prev.id === session.id
+        ? { ...prev, chapterRecaps: { ...(prev.chapterRecaps || {}), [itemId]: recap } }
+        : prev);
+      updateSessionChapterRecap(session.id, recap);
+      return null;
+    } finally {
+      setGeneratingRecapId(current => current === itemId ? null : current);
+    }
+  };
+
+  /**
+   * 切换“完成小节时自动生成复盘笔记”，保存到偏好设置
+   */
+  const handleAutoGenerateRecapsChange = (value: boolean) => {
+    setAutoGenerateRecaps(value);
+    saveUserPreferences({ autoGenerateRecaps: value });
+    storageAdapter.saveUserPreferences({ ...getUserPreferences(), autoGenerateRecaps: value }).catch(error => {
+      console.warn('保存复盘设置失败:', error);
+    });
+  };
+
+  /**
+   * 在学习报告中手动生成或重新生成复盘笔记
+   */
+  const handleGenerateRecap = async (itemId: string) => {
+    if (generatingRecapId) return;
+    setRecapError(null);
+    const error = await buildChapterRecap(itemId);
+    if (error) {
+      setRecapError(error);
     }
   };
 
@@ -734,7 +1371,7 @@ const LearnPageContent: React.FC = () => {
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
         <div className="text-center">
           <div className="animate-spin rounded-full h-12 w-12 border-4 border-primary-600 border-t-transparent mx-auto mb-4"></div>
-          <p className="text-gray-600">加载学习会话中...</p>
+          <p className="text-gray-600">{t('learn.loadingSession')}</p>
         </div>
       </div>
     );
@@ -744,14 +1381,102 @@ const LearnPageContent: React.FC = () => {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
         <div className="text-center">
-          <h2 className="text-2xl font-bold text-gray-900 mb-4">会话不存在</h2>
-          <p className="text-gray-600 mb-6">请检查链接是否正确</p>
-          <Button onClick={handleGoBack}>返回首页</Button>
+          <h2 className="text-2xl font-bold text-gray-900 mb-4">{t('learn.notFoundTitle')}</h2>
+          <p className="text-gray-600 mb-6">{t('learn.notFoundHint')}</p>
+          <Button onClick={handleGoBack}>{t('learn.backHome')}</Button>
         </div>
       </div>
     );
   }
 
+  // 聊天界面，打开原文时作为可调整宽度面板的左侧
+  const chatPanel = (
+    <div className="flex-1 h-full flex flex-col bg-[var(--surface-primary)] overflow-hidden">
+      {/* 聊天头部 */}
+      <div className="flex-shrink-0 p-4 border-b border-[var(--border-secondary)]">
+        <div className="flex items-center gap-3">
+          <div className={`
+            w-10 h-10 bg-gradient-to-br flex items-center justify-center
+            ${session.learningLevel === 'beginner' 
+              ? 'from-[var(--color-primary-500)] to-[var(--color-primary-600)] rounded-full' 
+              : 'from-[var(--color-secondary-500)] to-[var(--color-secondary-600)] rounded-lg'
+            }
+          `}>
+            {session.learningLevel === 'beginner' ? (
+              <User className="w-5 h-5 text-white" />
+            ) : (
+              <Zap className="w-5 h-5 text-white" />
+            )}
+          </div>
+          <div className="flex-1 min-w-0">
+            <h3 className="font-semibold text-[var(--text-primary)]">
+              {t('learn.tutorTitle')}
+              <span className={`
+                ml-2 px-2 py-1 text-xs font-medium rounded-full
+                ${session.learningLevel === 'beginner' 
+                  ? 'bg-[var(--color-primary-100)] text-[var(--color-primary-700)]' 
+                  : 'bg-[var(--color-secondary-100)] text-[var(--color-secondary-700)]'
+                }
+              `}>
+                {t(session.learningLevel === 'beginner' ? 'common.beginnerMode' : 'common.expertMode')}
+              </span>
+            </h3>
+            <p className="text-sm text-[var(--text-secondary)]">
+              {session.learningLevel === 'beginner' 
+                ? t('learn.beginnerTagline')
+                : t('learn.expertTagline')
+              }
+            </p>
+          </div>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => showSourceViewer ? handleCloseSourceViewer() : setShowSourceViewer(true)}
+          >
+            {showSourceViewer ? t('sourceViewer.hide') : t('sourceViewer.show')}
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={handleOpenConceptMap}
+            disabled={session.outline.length === 0}
+          >
+            {t('conceptMap.open')}
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setShowStudyReport(true)}
+          >
+            {t('studyReport.open')}
+          </Button>
+        </div>
+      </div>
+
+      {/* 聊天内容 */}
+      <div className="flex-1 overflow-hidden">
+        <ChatInterface
+          messages={activeBranch.filter(m => m.role !== 'system')}
+          onSendMessage={handleSendMessage}
+          onStopGenerating={handleStopGenerating}
+          onBookmarkMessage={handleBookmarkMessage}
+          loading={isSendingMessage}
+          streamingMessageId={streamingMessageId}
+          contextNotice={contextNotice}
+          placeholder={t('learn.inputPlaceholder')}
+          disabled={isSendingMessage}
+          learningLevel={session.learningLevel}
+          onCitationClick={handleCitationClick}
+          branches={messageBranches}
+          onSwitchBranch={handleSwitchBranch}
+          onRegenerate={handleRegenerateReply}
+          onEditMessage={handleEditMessage}
+          glossaryTerms={session.glossary?.terms}
+        />
+      </div>
+    </div>
+  );
+
   return (
     <div className="h-screen bg-[var(--bg-primary)] flex flex-col">
         {/* 顶部导航栏 */}
@@ -765,7 +1490,7 @@ const LearnPageContent: React.FC = () => {
               onClick={handleGoBack}
               icon={<ArrowLeft className="w-4 h-4" />}
             >
-              返回
+              {t('common.back')}
             </Button>
             
             <div className="border-l border-gray-300 pl-4">
@@ -773,27 +1498,51 @@ const LearnPageContent: React.FC = () => {
                 {session.title}
               </h1>
               <div className="flex items-center gap-3 text-sm text-gray-500">
-                <span className="flex items-center gap-1">
-                  {session.learningLevel === 'beginner' ? (
-                    <User className="w-4 h-4" />
-                  ) : (
-                    <Zap className="w-4 h-4" />
-                  )}
-                  {session.learningLevel === 'beginner' ? '小白模式' : '高手模式'}
+                <div className="flex items-center rounded-md border border-gray-200 overflow-hidden" title={t('learn.switchLevel')}>
+                  {(['beginner', 'expert'] as LearningLevel[]).map(level => (
+                    <button
+                      key={level}
+                      onClick={() => handleSwitchLevel(level)}
+                      disabled={isSendingMessage}
+                      className={`flex items-center gap-1 px-2 py-0.5 text-xs transition-colors disabled:cursor-not-allowed ${
+                        session.learningLevel === level
+                          ? 'bg-primary-50 text-primary-700 font-medium'
+                          : 'text-gray-500 hover:bg-gray-50'
+                      }`}
+                    >
+                      {level === 'beginner' ? <User className="w-3.5 h-3.5" /> : <Zap className="w-3.5 h-3.5" />}
+                      {t(level === 'beginner' ? 'common.beginnerMode' : 'common.expertMode')}
+                    </button>
+                  ))}
+                </div>
+
+                <span>·</span>
+
+                <span title={t('learn.difficultyHint')}>
+                  {t('learn.difficulty', {
+                    percent: formatDifficulty(getChapterDifficulty(session.learnerModel, session.learningLevel, session.currentChapter)),
+                  })}
                 </span>
                 
+                {session.promptTemplates?.tutor && (
+                  <>
+                    <span>·</span>
+                    <span>{describePromptTemplate('tutor', session.promptTemplates.tutor)}</span>
+                  </>
+                )}
+                
                 <span>·</span>
                 
                 <span>
                   {(() => {
                     const stats = getCompletionStats();
-                    return `${stats.completed}/${stats.total} 个章节已完成`;
+                    return t('learn.chaptersCompleted', { completed: stats.completed, total: stats.total });
                   })()}
                 </span>
                 
                 <span>·</span>
                 
-                <span>{session.messages.filter(m => m.role !== 'system').length} 条对话</span>
+                <span>{t('learn.messageCount', { count: activeBranch.filter(m => m.role !== 'system').length })}</span>
               </div>
             </div>
           </div>
@@ -801,8 +1550,9 @@ const LearnPageContent: React.FC = () => {
           {/* 右侧操作 */}
           <div className="flex items-center gap-3">
             <div className="text-xs text-gray-500">
-              拖拽中间分隔条可调整面板大小
+              {t('learn.resizeHint')}
             </div>
+            <LanguageSwitcher />
           </div>
         </div>
       </header>
@@ -818,7 +1568,7 @@ const LearnPageContent: React.FC = () => {
                 <div className="flex items-center gap-2">
                   <BookOpen className="w-4 h-4 text-[var(--color-primary-600)]" />
                   <h2 className={`${isBeginner ? 'text-base' : 'text-sm'} font-semibold text-[var(--text-primary)]`}>
-                    学习大纲
+                    {t('learn.outlineTitle')}
                   </h2>
                 </div>
                 
@@ -851,7 +1601,7 @@ const LearnPageContent: React.FC = () => {
               {/* 当前章节提示 - 仅小白模式显示 */}
               {isBeginner && session.currentChapter && (
                 <p className="text-xs text-primary-600 truncate">
-                  当前：{session.outline.find(item => item.id === session.currentChapter)?.title}
+                  {t('learn.current', { title: session.outline.find(item => item.id === session.currentChapter)?.title })}
                 </p>
               )}
             </div>
@@ -868,13 +1618,35 @@ const LearnPageContent: React.FC = () => {
                 }))}
                 currentChapter={session.currentChapter}
                 onChapterSelect={handleChapterClick}
+                glossary={session.glossary}
+                isGeneratingGlossary={isGeneratingGlossary}
+                onGenerateGlossary={handleGenerateGlossary}
+                onCreateCardFromTerm={handleCreateCardFromTerm}
               />
               
+              {/* 小节完成后提示提取复习卡片 */}
+              {cardSuggestionItemId && (() => {
+                const suggestedItem = session.outline.find(item => item.id === cardSuggestionItemId);
+                return suggestedItem && (
+                  <div className="mt-4 p-3 text-sm bg-primary-50 border border-primary-200 rounded-lg">
+                    <p className="text-primary-800 mb-2">{t('cardGeneration.suggestion', { title: suggestedItem.title })}</p>
+                    <div className="flex gap-2">
+                      <Button size="sm" onClick={() => handleOpenCardGeneration(suggestedItem.id)} disabled={isGeneratingCards}>
+                        {t('cardGeneration.generate')}
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => setCardSuggestionItemId(null)}>
+                        {t('cardGeneration.dismiss')}
+                      </Button>
+                    </div>
+                  </div>
+                );
+              })()}
+
               {/* 章节完成操作 */}
               {session.currentChapter && session.outline.find(item => item.id === session.currentChapter)?.type === 'section' && (
                 <div className="mt-4 pt-4 border-t border-gray-200">
                   <div className="text-sm text-gray-600 mb-2">
-                    当前小节操作：
+                    {t('learn.sectionActions')}
                   </div>
                   <Button
                     variant="outline"
@@ -884,10 +1656,47 @@ const LearnPageContent: React.FC = () => {
                     className="w-full"
                   >
                     {session.outline.find(item => item.id === session.currentChapter)?.isCompleted 
-                      ? '✅ 已完成' 
-                      : '标记为已完成'
+                      ? t('learn.completed')
+                      : t('learn.markCompleted')
                     }
                   </Button>
+                  {(() => {
+                    const quiz = session.outline.find(item => item.id === session.currentChapter)?.quiz;
+                    return (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleOpenQuiz(session.currentChapter!)}
+                        className="w-full mt-2"
+                      >
+                        {quiz?.attempts.length
+                          ? t('quiz.openWithScore', { score: quiz.bestScore ?? 0 })
+                          : t('quiz.open')}
+                      </Button>
+                    );
+                  })()}
+                  {session.outline.find(item => item.id === session.currentChapter)?.isCompleted && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleOpenCardGeneration(session.currentChapter!)}
+                      disabled={isGeneratingCards}
+                      className="w-full mt-2"
+                    >
+                      {t('cardGeneration.open')}
+                    </Button>
+                  )}
+                  {suggestedNextChapterId && suggestedNextChapterId !== session.currentChapter && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleChapterClick(suggestedNextChapterId)}
+                      disabled={isSendingMessage}
+                      className="w-full mt-2 text-primary-600"
+                    >
+                      {t('learn.suggestedNext', { title: session.outline.find(item => item.id === suggestedNextChapterId)?.title })}
+                    </Button>
+                  )}
                 </div>
               )}
             </div>
@@ -900,65 +1709,40 @@ const LearnPageContent: React.FC = () => {
                 onClick={handleFixOutline}
                 className="w-full text-xs py-1"
               >
-                🔧 修复大纲
+                {t('learn.fixOutline')}
               </Button>
             </div>
           </div>
 
-          {/* 中间聊天界面 */}
-          <div className="flex-1 h-full flex flex-col bg-[var(--surface-primary)] overflow-hidden">
-            {/* 聊天头部 */}
-            <div className="flex-shrink-0 p-4 border-b border-[var(--border-secondary)]">
-              <div className="flex items-center gap-3">
-                <div className={`
-                  w-10 h-10 bg-gradient-to-br flex items-center justify-center
-                  ${session.learningLevel === 'beginner' 
-                    ? 'from-[var(--color-primary-500)] to-[var(--color-primary-600)] rounded-full' 
-                    : 'from-[var(--color-secondary-500)] to-[var(--color-secondary-600)] rounded-lg'
-                  }
-                `}>
-                  {session.learningLevel === 'beginner' ? (
-                    <User className="w-5 h-5 text-white" />
-                  ) : (
-                    <Zap className="w-5 h-5 text-white" />
-                  )}
-                </div>
-                <div>
-                  <h3 className="font-semibold text-[var(--text-primary)]">
-                    AI私教助手
-                    <span className={`
-                      ml-2 px-2 py-1 text-xs font-medium rounded-full
-                      ${session.learningLevel === 'beginner' 
-                        ? 'bg-[var(--color-primary-100)] text-[var(--color-primary-700)]' 
-                        : 'bg-[var(--color-secondary-100)] text-[var(--color-secondary-700)]'
-                      }
-                    `}>
-                      {session.learningLevel === 'beginner' ? '小白模式' : '高手模式'}
-                    </span>
-                  </h3>
-                  <p className="text-sm text-[var(--text-secondary)]">
-                    {session.learningLevel === 'beginner' 
-                      ? '🌱 耐心引导模式，循序渐进，用心陪伴每一步' 
-                      : '⚡ 高效学习模式，直击重点，快速掌握核心'
-                    }
-                  </p>
-                </div>
-              </div>
-            </div>
-
-            {/* 聊天内容 */}
-            <div className="flex-1 overflow-hidden">
-              <ChatInterface
-                messages={session.messages.filter(m => m.role !== 'system')}
-                onSendMessage={handleSendMessage}
-                onBookmarkMessage={handleBookmarkMessage}
-                loading={isSendingMessage}
-                placeholder="输入您的问题或回应..."
-                disabled={isSendingMessage}
-                learningLevel={session.learningLevel}
+          {/* 中间聊天界面，打开原文时与原文面板并排（可拖动分隔条调整宽度） */}
+          {showSourceViewer ? (
+            <div className="flex-1 h-full min-w-0">
+              <ResizablePanel
+                leftPanel={chatPanel}
+                rightPanel={
+                  <SourceViewer
+                    documentContent={session.documentContent}
+                    documentType={session.documentType}
+                    pageOffsets={session.documentPageOffsets}
+                    outline={session.outline}
+                    currentItemId={session.currentChapter}
+                    citation={activeCitation}
+                    annotations={session.annotations || []}
+                    onAskAboutSelection={handleAskAboutSelection}
+                    onCreateAnnotation={handleCreateAnnotation}
+                    onUpdateAnnotation={handleUpdateAnnotation}
+                    onDeleteAnnotation={handleDeleteAnnotation}
+                    onCreateCardFromAnnotation={handleCreateCardFromAnnotation}
+                    onClose={handleCloseSourceViewer}
+                  />
+                }
+                initialLeftWidth={560}
+                minLeftWidth={360}
+                maxLeftWidth={960}
+                storageKey="learn-source-panel-width"
               />
             </div>
-          </div>
+          ) : chatPanel}
 
           {/* 右侧卡片管理面板 - 适中宽度，提升可读性 */}
           <div className="w-[20%] min-w-[280px] max-w-[360px] h-full">
@@ -970,6 +1754,70 @@ const LearnPageContent: React.FC = () => {
           </div>
         </div>
       </div>
+
+      {/* 小节测验 */}
+      {(() => {
+        const quizItem = session.outline.find(item => item.id === quizItemId);
+        return quizItem && (
+          <ChapterQuiz
+            isOpen={true}
+            item={quizItem}
+            isGenerating={isGeneratingQuiz}
+            isGrading={isGradingQuiz}
+            error={quizError}
+            requireQuizToComplete={requireQuizToComplete}
+            onGenerate={handleGenerateQuiz}
+            onSubmit={handleSubmitQuiz}
+            onRequireQuizToCompleteChange={handleRequireQuizToCompleteChange}
+            onClose={handleCloseQuiz}
+          />
+        );
+      })()}
+
+      {/* 复习卡片提取 */}
+      {(() => {
+        const cardItem = session.outline.find(item => item.id === cardItemId);
+        return cardItem && (
+          <CardGenerationReview
+            isOpen={true}
+            item={cardItem}
+            drafts={cardDrafts}
+            isGenerating={isGeneratingCards}
+            error={cardError}
+            onGenerate={() => handleGenerateCards(cardItem.id)}
+            onSave={handleSaveGeneratedCards}
+            onClose={handleCloseCardGeneration}
+          />
+        );
+      })()}
+
+      {/* 概念图 */}
+      <ConceptMapModal
+        isOpen={showConceptMap}
+        title={session.title}
+        outline={session.outline}
+        conceptMap={session.conceptMap}
+        isGenerating={isGeneratingConceptMap}
+        error={conceptMapError}
+        onGenerate={handleGenerateConceptMap}
+        onSelectItem={handleConceptMapSelect}
+        onClose={() => setShowConceptMap(false)}
+      />
+
+      {/* 学习报告 */}
+      {showStudyReport && (
+        <StudyReportModal
+          isOpen={true}
+          session={session}
+          cards={getSessionCards(session.id)}
+          onGenerateRecap={handleGenerateRecap}
+          generatingRecapId={generatingRecapId}
+          recapError={recapError}
+          autoGenerateRecaps={autoGenerateRecaps}
+          onAutoGenerateRecapsChange={handleAutoGenerateRecapsChange}
+          onClose={() => setShowStudyReport(false)}
+        />
+      )}
     </div>
   );
 };
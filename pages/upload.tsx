@@ -9,15 +9,21 @@
  */
 
 import React, { useState, useEffect } from 'react';
-import { ArrowLeft, User, Zap, FileText } from 'lucide-react';
+import { ArrowLeft, User, Zap, FileText, AlertTriangle } from 'lucide-react';
 import { useRouter } from 'next/router';
 import dynamic from 'next/dynamic';
 import Button from '../src/components/ui/Button';
+import Select from '../src/components/ui/Select';
 import OutlineEditor from '../src/components/OutlineEditor';
-import { DocumentParseResult, OutlineItem, LearningSession, APIConfig } from '../src/types';
+import { DocumentParseResult, OutlineItem, LearningSession, APIConfig, PromptTemplate, PromptTemplateRef } from '../src/types';
 import { generateOutline, fixExistingOutline } from '../src/utils/aiService';
+import { describeContextTrimming } from '../src/utils/tokenBudget';
+import { getActivePromptTemplateId, getPromptTemplates, pinPromptTemplate } from '../src/utils/promptTemplates';
 import { storageAdapter } from '../src/utils/storageAdapter';
 import { ThemeProvider } from '../src/contexts/ThemeContext';
+import { useLanguage } from '../src/contexts/LanguageContext';
+import LanguageSwitcher from '../src/components/LanguageSwitcher';
+import { formatChapterTitle } from '../src/utils/chapterNumbering';
 
 /**
  * 生成UUID格式的唯一ID
@@ -42,12 +48,17 @@ const DocumentUploader = dynamic(() => import('../src/components/DocumentUploade
 
 const UploadPageContent: React.FC = () => {
   const router = useRouter();
+  const { language, locale, t } = useLanguage();
 
   // 状态管理
   const [currentStep, setCurrentStep] = useState<'upload' | 'uploaded' | 'outline' | 'level'>('upload');
   const [parseResult, setParseResult] = useState<DocumentParseResult | null>(null);
   const [outline, setOutline] = useState<OutlineItem[]>([]);
+  const [outlineNotice, setOutlineNotice] = useState<string | null>(null);
   const [learningLevel, setLearningLevel] = useState<'beginner' | 'expert'>('beginner');
+  const [tutorTemplates, setTutorTemplates] = useState<PromptTemplate[]>([]);
+  const [tutorTemplateId, setTutorTemplateId] = useState('');
+  const [outlineTemplateRef, setOutlineTemplateRef] = useState<PromptTemplateRef | undefined>();
   const [isGeneratingOutline, setIsGeneratingOutline] = useState(false);
   const [isCreatingSession, setIsCreatingSession] = useState(false);
   const [apiConfig, setApiConfig] = useState<APIConfig | null>(null);
@@ -92,6 +103,14 @@ const UploadPageContent: React.FC = () => {
     return () => clearTimeout(timeout);
   }, [router]);
 
+  /**
+   * 加载可选的私教人设（内置人设的名称随界面语言变化）
+   */
+  useEffect(() => {
+    setTutorTemplates(getPromptTemplates('tutor'));
+    setTutorTemplateId(getActivePromptTemplateId('tutor'));
+  }, [language]);
+
   /**
    * 生成唯一ID
    */
@@ -161,7 +180,7 @@ const UploadPageContent: React.FC = () => {
         for (let j = 0; j < sectionCount; j++) {
           outline.push({
             id: `section-${index + 1}-${j + 1}`,
-            title: `${chapter.title} - 第${j + 1}部分`,
+            title: t('upload.fallbackPart', { title: chapter.title, number: j + 1 }),
             type: 'section',
             level: 2,
             order: outline.length + 1,
@@ -176,17 +195,17 @@ const UploadPageContent: React.FC = () => {
       console.log(`📝 创建 ${chapterCount} 个通用章节`);
       
       const chapterTitles = [
-        '基础概念与入门',
-        '核心原理深入理解',
-        '实践应用与案例',
-        '高级技巧与进阶',
-        '总结与展望'
+        t('upload.fallbackChapters.basics'),
+        t('upload.fallbackChapters.principles'),
+        t('upload.fallbackChapters.practice'),
+        t('upload.fallbackChapters.advanced'),
+        t('upload.fallbackChapters.summary')
       ];
       
       for (let i = 0; i < chapterCount; i++) {
         const chapterTitle = i < chapterTitles.length ? 
           chapterTitles[i] : 
-          `第${i + 1}章 核心内容学习`;
+          formatChapterTitle(i + 1, t('upload.fallbackCoreContent'), language);
         
         outline.push({
           id: `chapter-${i + 1}`,
@@ -202,9 +221,9 @@ const UploadPageContent: React.FC = () => {
         const sectionCount = 3;
         for (let j = 0; j < sectionCount; j++) {
           const sectionTitles = [
-            '基础知识点',
-            '详细解析',
-            '实践应用'
+            t('upload.fallbackSections.basics'),
+            t('upload.fallbackSections.details'),
+            t('upload.fallbackSections.practice')
           ];
           
           outline.push({
@@ -230,19 +249,19 @@ const UploadPageContent: React.FC = () => {
    */
   const getUserFriendlyErrorMessage = (errorMessage: string): string => {
     if (errorMessage.includes('JSON')) {
-      return 'AI返回格式异常，可能是网络不稳定导致';
+      return t('upload.errors.format');
     }
     if (errorMessage.includes('timeout') || errorMessage.includes('超时')) {
-      return '请求超时，请检查网络连接';
+      return t('upload.errors.timeout');
     }
     if (errorMessage.includes('API') || errorMessage.includes('401') || errorMessage.includes('403')) {
-      return 'API配置问题，请检查密钥是否正确';
+      return t('upload.errors.auth');
     }
     if (errorMessage.includes('rate limit') || errorMessage.includes('限制')) {
-      return 'API调用次数限制，请稍后再试';
+      return t('upload.errors.rateLimit');
     }
     if (errorMessage.includes('insufficient') || errorMessage.includes('余额')) {
-      return 'API余额不足，请检查账户状态';
+      return t('upload.errors.balance');
     }
     return errorMessage;
   };
@@ -262,7 +281,7 @@ const UploadPageContent: React.FC = () => {
     setParseResult(result);
     
     if (!apiConfig) {
-      alert('API配置丢失，请重新设置');
+      alert(t('upload.configMissing'));
       router.push('/');
       return;
     }
@@ -294,6 +313,9 @@ const UploadPageContent: React.FC = () => {
       });
 
       if (outlineResponse.success) {
+        setOutlineNotice(describeContextTrimming(outlineResponse.contextUsage));
+        setOutlineTemplateRef(outlineResponse.promptTemplate);
+
         // 如果AI生成了新标题，更新result.title
         if (outlineResponse.generatedTitle) {
           result.title = outlineResponse.generatedTitle;
@@ -329,7 +351,7 @@ const UploadPageContent: React.FC = () => {
         setOutline(outlineWithIds);
         setCurrentStep('outline');
       } else {
-        throw new Error(outlineResponse.error || '生成大纲失败');
+        throw new Error(outlineResponse.error || t('newSession.outlineFailed'));
       }
     } catch (error) {
       console.error('生成大纲失败:', error);
@@ -338,7 +360,7 @@ const UploadPageContent: React.FC = () => {
       // 尝试创建一个基础大纲作为备用方案
       try {
         console.log('🔧 大纲生成失败，尝试创建备用大纲...');
-        const fallbackOutline = createFallbackOutline(result.content, result.title || '文档');
+        const fallbackOutline = createFallbackOutline(result.content, result.title || t('uploader.defaultTitle'));
         
         if (fallbackOutline.length > 0) {
           console.log('✅ 备用大纲创建成功:', fallbackOutline);
@@ -346,7 +368,7 @@ const UploadPageContent: React.FC = () => {
           setCurrentStep('outline');
           
           // 显示友好的提示信息
-          alert('AI大纲生成遇到问题，已为您创建基础学习大纲。您可以在下一步中自定义调整。');
+          alert(t('upload.usedFallbackOutline'));
           return;
         }
       } catch (fallbackError) {
@@ -354,10 +376,10 @@ const UploadPageContent: React.FC = () => {
       }
       
       // 如果备用方案也失败，提供更友好的错误处理
-      const errorMessage = error instanceof Error ? error.message : '未知错误';
+      const errorMessage = error instanceof Error ? error.message : t('common.unknownError');
       const userFriendlyMessage = getUserFriendlyErrorMessage(errorMessage);
       
-      alert(`生成大纲失败: ${userFriendlyMessage}\n\n您可以：\n1. 检查网络连接后重试\n2. 尝试上传较小的文档\n3. 检查API配置是否正确`);
+      alert(t('upload.outlineFailedAlert', { error: userFriendlyMessage }));
       
       // 重置到文档已上传状态，允许用户重试
       setCurrentStep('uploaded');
@@ -378,7 +400,7 @@ const UploadPageContent: React.FC = () => {
    */
   const handleConfirmOutline = () => {
     if (outline.length === 0) {
-      alert('请至少添加一个章节');
+      alert(t('newSession.addChapterFirst'));
       return;
     }
     setCurrentStep('level');
@@ -392,7 +414,7 @@ const UploadPageContent: React.FC = () => {
     
     if (!parseResult || !apiConfig) {
       console.error('❌ 缺少必要条件');
-      alert('缺少必要的解析结果或API配置');
+      alert(t('newSession.missingData'));
       return;
     }
 
@@ -404,16 +426,22 @@ const UploadPageContent: React.FC = () => {
       
       const session: LearningSession = {
         id: sessionId,
-        title: parseResult.title || '未命名文档',
+        title: parseResult.title || t('common.untitledDocument'),
         createdAt: Date.now(),
         updatedAt: Date.now(),
         learningLevel,
         documentContent: parseResult.content,
-        documentType: 'text',
+        documentType: parseResult.documentType || 'text',
+        ...(parseResult.metadata?.pageOffsets ? { documentPageOffsets: parseResult.metadata.pageOffsets } : {}),
         outline,
         messages: [],
         status: 'active',
         cards: [],
+        // 记录创建时的模板版本，之后修改模板不影响这个会话
+        promptTemplates: {
+          tutor: pinPromptTemplate('tutor', tutorTemplateId),
+          ...(outlineTemplateRef ? { outline: outlineTemplateRef } : {}),
+        },
       };
 
       console.log('💾 直接保存到本地存储');
@@ -427,12 +455,12 @@ const UploadPageContent: React.FC = () => {
         console.log('🚀 直接跳转到学习页面');
         window.location.href = `/learn/${sessionId}`;
       } else {
-        throw new Error('本地存储失败');
+        throw new Error(t('newSession.saveFailed'));
       }
       
     } catch (error) {
       console.error('❌ 会话创建失败:', error);
-      alert(`创建失败: ${error instanceof Error ? error.message : '未知错误'}`);
+      alert(t('newSession.createFailed', { error: error instanceof Error ? error.message : t('common.unknownError') }));
     } finally {
       setIsCreatingSession(false);
     }
@@ -462,7 +490,7 @@ const UploadPageContent: React.FC = () => {
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
         <div className="text-center">
           <div className="animate-spin rounded-full h-12 w-12 border-4 border-primary-600 border-t-transparent mx-auto mb-4"></div>
-          <p className="text-gray-600">正在检查配置...</p>
+          <p className="text-gray-600">{t('upload.checkingConfig')}</p>
         </div>
       </div>
     );
@@ -481,16 +509,18 @@ const UploadPageContent: React.FC = () => {
                 onClick={handleGoBack}
                 icon={<ArrowLeft className="w-4 h-4" />}
               >
-                返回
+                {t('common.back')}
               </Button>
               
               <h1 className="text-xl font-semibold text-gray-900">
-                创建新的学习会话
+                {t('upload.title')}
               </h1>
             </div>
 
             {/* 步骤指示器 */}
             <div className="flex items-center gap-4">
+              <LanguageSwitcher />
+
               <div className={`flex items-center gap-2 text-sm ${
                 currentStep === 'upload' ? 'text-primary-600 font-medium' : 'text-gray-500'
               }`}>
@@ -503,7 +533,7 @@ const UploadPageContent: React.FC = () => {
                 }`}>
                   1
                 </div>
-                上传文档
+                {t('upload.steps.upload')}
               </div>
 
               <div className={`w-8 h-px ${parseResult ? 'bg-green-500' : 'bg-gray-300'}`} />
@@ -520,7 +550,7 @@ const UploadPageContent: React.FC = () => {
                 }`}>
                   2
                 </div>
-                编辑大纲
+                {t('upload.steps.outline')}
               </div>
 
               <div className={`w-8 h-px ${outline.length > 0 ? 'bg-green-500' : 'bg-gray-300'}`} />
@@ -535,7 +565,7 @@ const UploadPageContent: React.FC = () => {
                 }`}>
                   3
                 </div>
-                选择水平
+                {t('upload.steps.level')}
               </div>
             </div>
           </div>
@@ -548,11 +578,10 @@ const UploadPageContent: React.FC = () => {
           <div className="space-y-8">
             <div className="text-center">
               <h2 className="text-2xl font-bold text-gray-900 mb-4">
-                上传您的学习材料
+                {t('newSession.uploadTitle')}
               </h2>
               <p className="text-gray-600 max-w-2xl mx-auto">
-                支持多种格式的文档，包括PDF、Word、PowerPoint、Markdown等。
-                上传后AI将自动解析内容并生成学习大纲。
+                {t('upload.uploadIntro')}
               </p>
             </div>
 
@@ -567,7 +596,7 @@ const UploadPageContent: React.FC = () => {
                 <div className="flex items-center gap-3">
                   <div className="animate-spin rounded-full h-5 w-5 border-2 border-blue-600 border-t-transparent"></div>
                   <span className="text-blue-900 font-medium">
-                    AI正在分析文档内容并生成学习大纲，请稍候...
+                    {t('newSession.generatingOutline')}
                   </span>
                 </div>
               </div>
@@ -580,10 +609,10 @@ const UploadPageContent: React.FC = () => {
           <div className="space-y-8">
             <div className="text-center">
               <h2 className="text-2xl font-bold text-gray-900 mb-4">
-                文档解析完成
+                {t('newSession.parsedTitle')}
               </h2>
               <p className="text-gray-600 max-w-2xl mx-auto">
-                您的文档已成功上传并解析。请选择下一步操作。
+                {t('newSession.parsedIntro')}
               </p>
             </div>
 
@@ -593,16 +622,16 @@ const UploadPageContent: React.FC = () => {
                 <FileText className="w-8 h-8 text-green-500 flex-shrink-0 mt-1" />
                 <div className="flex-1 min-w-0">
                   <h3 className="font-medium text-gray-900 mb-2">
-                    {parseResult.title || '未命名文档'}
+                    {parseResult.title || t('common.untitledDocument')}
                   </h3>
                   <div className="text-sm text-gray-500 space-y-1">
                     {parseResult.metadata?.wordCount && (
-                      <p>字数：{parseResult.metadata.wordCount.toLocaleString()} 字</p>
+                      <p>{t('newSession.wordCount', { count: parseResult.metadata.wordCount.toLocaleString(locale) })}</p>
                     )}
                     {parseResult.metadata?.pageCount && (
-                      <p>页数：{parseResult.metadata.pageCount} 页</p>
+                      <p>{t('newSession.pageCount', { count: parseResult.metadata.pageCount })}</p>
                     )}
-                    <p className="text-green-600 font-medium">✅ 文档解析成功</p>
+                    <p className="text-green-600 font-medium">{t('newSession.parseSuccess')}</p>
                   </div>
                 </div>
               </div>
@@ -616,10 +645,10 @@ const UploadPageContent: React.FC = () => {
                 </div>
                 <div className="flex-1">
                   <h3 className="font-medium text-amber-900 mb-2">
-                    大纲生成遇到问题
+                    {t('newSession.outlineProblem')}
                   </h3>
                   <p className="text-amber-700 text-sm mb-4">
-                    AI大纲生成失败，这可能是由于网络问题、API配置问题或文档内容过于复杂导致的。
+                    {t('upload.outlineProblemHelp')}
                   </p>
                   <div className="flex flex-col sm:flex-row gap-3">
                     <Button
@@ -628,17 +657,17 @@ const UploadPageContent: React.FC = () => {
                       loading={isGeneratingOutline}
                       icon={<div className="w-4 h-4">🔄</div>}
                     >
-                      重试生成大纲
+                      {t('newSession.retryOutline')}
                     </Button>
                     <Button
                       variant="secondary"
                       onClick={() => {
-                        const fallbackOutline = createFallbackOutline(parseResult.content, parseResult.title || '文档');
+                        const fallbackOutline = createFallbackOutline(parseResult.content, parseResult.title || t('uploader.defaultTitle'));
                         setOutline(fallbackOutline);
                         setCurrentStep('outline');
                       }}
                     >
-                      使用基础大纲
+                      {t('upload.useFallbackOutline')}
                     </Button>
                     <Button
                       variant="ghost"
@@ -647,7 +676,7 @@ const UploadPageContent: React.FC = () => {
                         setParseResult(null);
                       }}
                     >
-                      重新上传
+                      {t('upload.reupload')}
                     </Button>
                   </div>
                 </div>
@@ -661,11 +690,10 @@ const UploadPageContent: React.FC = () => {
           <div className="space-y-8">
             <div className="text-center">
               <h2 className="text-2xl font-bold text-gray-900 mb-4">
-                确认学习大纲
+                {t('newSession.confirmOutlineTitle')}
               </h2>
               <p className="text-gray-600 max-w-2xl mx-auto">
-                AI已为您生成了学习大纲，您可以根据需要进行调整。
-                可以编辑章节标题、调整顺序或添加新章节。
+                {t('upload.outlineIntro')}
               </p>
             </div>
 
@@ -675,14 +703,20 @@ const UploadPageContent: React.FC = () => {
                 <FileText className="w-8 h-8 text-gray-400 flex-shrink-0 mt-1" />
                 <div className="flex-1 min-w-0">
                   <h3 className="font-medium text-gray-900 mb-2">
-                    {parseResult.title || '未命名文档'}
+                    {parseResult.title || t('common.untitledDocument')}
                   </h3>
                   <div className="text-sm text-gray-500 space-y-1">
                     {parseResult.metadata?.wordCount && (
-                      <p>字数：{parseResult.metadata.wordCount.toLocaleString()} 字</p>
+                      <p>{t('newSession.wordCount', { count: parseResult.metadata.wordCount.toLocaleString(locale) })}</p>
                     )}
                     {parseResult.metadata?.pageCount && (
-                      <p>页数：{parseResult.metadata.pageCount} 页</p>
+                      <p>{t('newSession.pageCount', { count: parseResult.metadata.pageCount })}</p>
+                    )}
+                    {outlineNotice && (
+                      <p className="flex items-start gap-1 text-yellow-700">
+                        <AlertTriangle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+                        <span>{outlineNotice}</span>
+                      </p>
                     )}
                   </div>
                 </div>
@@ -692,7 +726,7 @@ const UploadPageContent: React.FC = () => {
             {/* 大纲编辑器 */}
             <div className="bg-white rounded-lg border border-gray-200 p-6">
               <h3 className="text-lg font-semibold text-gray-900 mb-4">
-                学习大纲（{outline.length} 个章节）
+                {t('newSession.outlineHeading', { count: outline.length })}
               </h3>
               
               <OutlineEditor
@@ -711,7 +745,7 @@ const UploadPageContent: React.FC = () => {
                 onClick={handleConfirmOutline}
                 disabled={outline.length === 0}
               >
-                确认大纲，下一步
+                {t('newSession.confirmOutline')}
               </Button>
             </div>
           </div>
@@ -722,11 +756,10 @@ const UploadPageContent: React.FC = () => {
           <div className="space-y-8">
             <div className="text-center">
               <h2 className="text-2xl font-bold text-gray-900 mb-4">
-                选择您的学习水平
+                {t('newSession.levelTitle')}
               </h2>
               <p className="text-gray-600 max-w-2xl mx-auto">
-                AI私教将根据您选择的水平调整教学方式。
-                您可以随时在学习过程中调整这个设置。
+                {t('upload.levelIntro')}
               </p>
             </div>
 
@@ -757,22 +790,22 @@ const UploadPageContent: React.FC = () => {
                   <h3 className={`text-xl font-semibold mb-3 ${
                     learningLevel === 'beginner' ? 'text-primary-900' : 'text-gray-900'
                   }`}>
-                    小白模式
+                    {t('common.beginnerMode')}
                   </h3>
                   
                   <div className="text-sm space-y-2 text-left">
                     <p className="text-gray-600">
-                      <strong>适合对象：</strong>初学者或对主题不熟悉的用户
+                      <strong>{t('upload.audience')}</strong>{t('upload.beginnerAudience')}
                     </p>
                     <p className="text-gray-600">
-                      <strong>教学特点：</strong>
+                      <strong>{t('upload.teachingStyle')}</strong>
                     </p>
                     <ul className="text-gray-600 space-y-1 ml-4">
-                      <li>• 节奏缓慢，循序渐进</li>
-                      <li>• 详细解释每个概念</li>
-                      <li>• 提供具体的操作步骤</li>
-                      <li>• 使用通俗易懂的比喻</li>
-                      <li>• 频繁确认学习效果</li>
+                      <li>• {t('newSession.beginnerTraits.pace')}</li>
+                      <li>• {t('newSession.beginnerTraits.explain')}</li>
+                      <li>• {t('newSession.beginnerTraits.steps')}</li>
+                      <li>• {t('newSession.beginnerTraits.analogies')}</li>
+                      <li>• {t('newSession.beginnerTraits.checks')}</li>
                     </ul>
                   </div>
                 </div>
@@ -803,28 +836,41 @@ const UploadPageContent: React.FC = () => {
                   <h3 className={`text-xl font-semibold mb-3 ${
                     learningLevel === 'expert' ? 'text-secondary-900' : 'text-gray-900'
                   }`}>
-                    高手模式
+                    {t('common.expertMode')}
                   </h3>
                   
                   <div className="text-sm space-y-2 text-left">
                     <p className="text-gray-600">
-                      <strong>适合对象：</strong>有相关基础或经验的用户
+                      <strong>{t('upload.audience')}</strong>{t('upload.expertAudience')}
                     </p>
                     <p className="text-gray-600">
-                      <strong>教学特点：</strong>
+                      <strong>{t('upload.teachingStyle')}</strong>
                     </p>
                     <ul className="text-gray-600 space-y-1 ml-4">
-                      <li>• 节奏较快，直击要点</li>
-                      <li>• 聚焦核心概念和差异</li>
-                      <li>• 讨论设计原理和最佳实践</li>
-                      <li>• 启发式深度思考</li>
-                      <li>• 高层级的技术对话</li>
+                      <li>• {t('newSession.expertTraits.pace')}</li>
+                      <li>• {t('newSession.expertTraits.core')}</li>
+                      <li>• {t('newSession.expertTraits.design')}</li>
+                      <li>• {t('newSession.expertTraits.thinking')}</li>
+                      <li>• {t('newSession.expertTraits.dialogue')}</li>
                     </ul>
                   </div>
                 </div>
               </div>
             </div>
 
+            {/* 私教人设选择 */}
+            {tutorTemplates.length > 1 && (
+              <div className="max-w-md mx-auto">
+                <Select
+                  label={t('promptTemplates.persona')}
+                  value={tutorTemplateId}
+                  onChange={setTutorTemplateId}
+                  options={tutorTemplates.map(template => ({ value: template.id, label: template.name }))}
+                  helpText={tutorTemplates.find(template => template.id === tutorTemplateId)?.description}
+                />
+              </div>
+            )}
+
             {/* 操作按钮 */}
             <div className="flex justify-center">
               <Button
@@ -834,7 +880,7 @@ const UploadPageContent: React.FC = () => {
                 loading={isCreatingSession}
                 icon={<FileText className="w-5 h-5" />}
               >
-                开始学习
+                {t('newSession.startLearning')}
               </Button>
             </div>
           </div>
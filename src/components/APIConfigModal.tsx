@@ -3,19 +3,36 @@
  * 
  * 提供用户配置AI服务API的界面：
  * - 支持多个AI服务提供商选择
- * - API密钥输入和验证
+ * - API密钥输入和验证（本地模型服务可免密钥）
  * - 连接测试功能
+ * - 本地模型服务的模型列表获取
+ * - 备用服务商（主服务商失败时按顺序切换）
+ * - 服务器代理模式（密钥保存在服务器上，浏览器不保存密钥）
+ * - 离线模式：录制真实服务商的回复、导出导入录制文件并离线回放
  * - 配置保存和管理
  */
 
 import React, { useState, useEffect } from 'react';
-import { Settings, Check, AlertCircle } from 'lucide-react';
+import { Settings, Check, AlertCircle, RefreshCw, Plus, ArrowUp, ArrowDown, Trash2, Download, Upload } from 'lucide-react';
 import Modal from './ui/Modal';
 import Button from './ui/Button';
 import Input from './ui/Input';
 import Select from './ui/Select';
 import { APIConfig } from '../types';
-import { getSupportedProviders, testAPIConnection } from '../utils/aiService';
+import { getSupportedProviders, testAPIConnection, listProviderModels, describeProviderConfig } from '../utils/aiService';
+import { LOCAL_DEFAULT_BASE_URL } from '../utils/aiProviders';
+import { AIProxyStatus, fetchProxyStatus, isProxyEnforced, isProxyMode } from '../utils/aiProxy';
+import {
+  AIFixtureMode,
+  clearFixtures,
+  exportFixtures,
+  getEnforcedFixtureMode,
+  getFixtureMode,
+  getRecordedExchanges,
+  importFixtures,
+  setFixtureMode,
+} from '../utils/aiFixtures';
+import { useLanguage } from '../contexts/LanguageContext';
 
 interface APIConfigModalProps {
   /** 是否显示模态框 */
@@ -34,6 +51,8 @@ const APIConfigModal: React.FC<APIConfigModalProps> = ({
   currentConfig,
   onSave,
 }) => {
+  const { t } = useLanguage();
+
   // 表单状态
   const [formData, setFormData] = useState<APIConfig>({
     provider: 'openai',
@@ -49,6 +68,13 @@ const APIConfigModal: React.FC<APIConfigModalProps> = ({
     message: string;
   } | null>(null);
   const [isSaving, setIsSaving] = useState(false);
+  const [isLoadingModels, setIsLoadingModels] = useState(false);
+  const [availableModels, setAvailableModels] = useState<string[]>([]);
+  const [testingFallbackIndex, setTestingFallbackIndex] = useState<number | null>(null);
+  const [proxyStatus, setProxyStatus] = useState<AIProxyStatus | null>(null);
+  const [fixtureMode, setFixtureModeState] = useState<AIFixtureMode>('off');
+  const [recordedCount, setRecordedCount] = useState(0);
+  const [fixtureMessage, setFixtureMessage] = useState<string | null>(null);
 
   // 支持的AI服务商
   const providers = getSupportedProviders();
@@ -66,8 +92,19 @@ const APIConfigModal: React.FC<APIConfigModalProps> = ({
       });
     }
     setTestResult(null);
+    setAvailableModels([]);
   }, [currentConfig, isOpen]);
 
+  // 打开时查询服务器代理已配置的服务商，并读取录制回放的状态
+  useEffect(() => {
+    if (isOpen) {
+      fetchProxyStatus().then(setProxyStatus);
+      setFixtureModeState(getFixtureMode());
+      setRecordedCount(getRecordedExchanges().length);
+      setFixtureMessage(null);
+    }
+  }, [isOpen]);
+
   /**
    * 处理表单字段变化
    */
@@ -78,9 +115,13 @@ const APIConfigModal: React.FC<APIConfigModalProps> = ({
     }));
     
     // 清除之前的测试结果
-    if (field === 'apiKey' || field === 'provider') {
+    if (field === 'apiKey' || field === 'provider' || field === 'baseUrl' || field === 'localApiFormat') {
       setTestResult(null);
     }
+    // 端点变化后，之前获取的模型列表不再可信
+    if (field === 'baseUrl' || field === 'localApiFormat') {
+      setAvailableModels([]);
+    }
   };
 
   /**
@@ -94,16 +135,239 @@ const APIConfigModal: React.FC<APIConfigModalProps> = ({
       model: provider?.defaultModel || '',
     }));
     setTestResult(null);
+    setAvailableModels([]);
+  };
+
+  /**
+   * 获取当前选中提供商的信息
+   */
+  const selectedProvider = providers.find(p => p.id === formData.provider);
+  const isLocalProvider = formData.provider === 'local';
+  const isOfflineProvider = !!selectedProvider?.offline;
+  const requiresApiKey = selectedProvider?.requiresApiKey !== false;
+  const fallbacks = formData.fallbacks || [];
+  const proxyEnforced = isProxyEnforced();
+  const useProxy = isProxyMode(formData);
+
+  /**
+   * 服务器代理是否可以使用该服务商（状态未知时不做限制）
+   */
+  const isProxyProviderAvailable = (providerId: string) => {
+    // 离线演示在本地生成回复，不经过代理
+    if (providers.find(p => p.id === providerId)?.offline) return true;
+    return !proxyStatus || proxyStatus.providers.includes(providerId);
+  };
+
+  /**
+   * 检查配置是否缺少必需的API密钥（代理模式下密钥在服务器上）
+   */
+  const hasRequiredKey = (config: APIConfig) => {
+    if (useProxy) return isProxyProviderAvailable(config.provider);
+    const provider = providers.find(p => p.id === config.provider);
+    return provider?.requiresApiKey === false || !!config.apiKey.trim();
+  };
+  const isFormValid = hasRequiredKey(formData) && fallbacks.every(hasRequiredKey);
+
+  /**
+   * 切换服务器代理模式
+   * 开启后清空已填写的密钥和自定义端点，避免继续保存在浏览器中
+   */
+  const handleProxyToggle = (enabled: boolean) => {
+    setFormData(prev => ({
+      ...prev,
+      useProxy: enabled,
+      ...(enabled ? {
+        apiKey: '',
+        baseUrl: '',
+        fallbacks: prev.fallbacks?.map(fallback => ({ ...fallback, apiKey: '', baseUrl: '' })),
+      } : {}),
+    }));
+    setTestResult(null);
+    setAvailableModels([]);
+  };
+
+  // =================
+  // 录制与回放
+  // =================
+
+  const enforcedFixtureMode = getEnforcedFixtureMode();
+
+  /**
+   * 切换录制回放模式（立即生效，不随配置保存）
+   */
+  const handleFixtureModeChange = (mode: string) => {
+    setFixtureMode(mode as AIFixtureMode);
+    setFixtureModeState(mode as AIFixtureMode);
+    setFixtureMessage(null);
+  };
+
+  /**
+   * 导出录制文件
+   */
+  const handleExportFixtures = () => {
+    const blob = new Blob([exportFixtures()], { type: 'application/json;charset=utf-8;' });
+    const link = document.createElement('a');
+    const url = URL.createObjectURL(blob);
+    link.setAttribute('href', url);
+    link.setAttribute('download', `ai-fixtures-${new Date().toISOString().split('T')[0]}.json`);
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  /**
+   * 导入录制文件
+   */
+  const handleImportFixtures = () => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = 'application/json,.json';
+    input.onchange = async (e: any) => {
+      const file: File | undefined = e.target?.files?.[0];
+      if (!file) return;
+      try {
+        const count = importFixtures(await file.text());
+        setFixtureMessage(t('apiConfig.fixturesImported', { count }));
+      } catch (error) {
+        setFixtureMessage(t('apiConfig.fixturesImportFailed', {
+          error: error instanceof Error ? error.message : String(error),
+        }));
+      }
+      setRecordedCount(getRecordedExchanges().length);
+    };
+    input.click();
+  };
+
+  /**
+   * 清空录制内容
+   */
+  const handleClearFixtures = () => {
+    if (!confirm(t('apiConfig.clearFixturesConfirm'))) return;
+    clearFixtures();
+    setRecordedCount(0);
+    setFixtureMessage(null);
+  };
+
+  // =================
+  // 备用服务商管理
+  // =================
+
+  /**
+   * 更新备用服务商列表
+   */
+  const updateFallbacks = (next: APIConfig[]) => {
+    setFormData(prev => ({
+      ...prev,
+      fallbacks: next,
+    }));
+  };
+
+  /**
+   * 添加备用服务商（默认选择与主服务商不同的第一个服务商）
+   */
+  const handleAddFallback = () => {
+    const provider = providers.find(p => p.id !== formData.provider) || providers[0];
+    updateFallbacks([
+      ...fallbacks,
+      { provider: provider.id, apiKey: '', baseUrl: '', model: provider.defaultModel },
+    ]);
+  };
+
+  /**
+   * 修改备用服务商的字段，切换服务商时重置模型和端点
+   */
+  const handleFallbackChange = (index: number, field: keyof APIConfig, value: string) => {
+    updateFallbacks(fallbacks.map((fallback, i) => {
+      if (i !== index) return fallback;
+      if (field === 'provider') {
+        const provider = providers.find(p => p.id === value);
+        return { ...fallback, provider: value, model: provider?.defaultModel || '', baseUrl: '' };
+      }
+      return { ...fallback, [field]: value };
+    }));
+  };
+
+  /**
+   * 调整备用服务商的顺序
+   */
+  const handleMoveFallback = (index: number, offset: -1 | 1) => {
+    const target = index + offset;
+    if (target < 0 || target >= fallbacks.length) return;
+    const next = [...fallbacks];
+    [next[index], next[target]] = [next[target], next[index]];
+    updateFallbacks(next);
+  };
+
+  /**
+   * 删除备用服务商
+   */
+  const handleRemoveFallback = (index: number) => {
+    updateFallbacks(fallbacks.filter((_, i) => i !== index));
+  };
+
+  /**
+   * 测试单个备用服务商的连接
+   */
+  const handleTestFallback = async (index: number) => {
+    const fallback = fallbacks[index];
+    setTestingFallbackIndex(index);
+    setTestResult(null);
+
+    try {
+      const result = await testAPIConnection(fallback);
+      const label = t('apiConfig.fallbackTestLabel', { number: index + 1, provider: describeProviderConfig(fallback) });
+      setTestResult({
+        success: result.success,
+        message: result.success
+          ? t('apiConfig.fallbackTestSuccess', { label })
+          : t('apiConfig.fallbackTestFailed', { label, error: result.error || t('apiConfig.testFailed') }),
+      });
+    } finally {
+      setTestingFallbackIndex(null);
+    }
+  };
+
+  /**
+   * 从服务端获取可用模型列表
+   */
+  const handleLoadModels = async () => {
+    setIsLoadingModels(true);
+    setTestResult(null);
+
+    try {
+      const result = await listProviderModels(formData);
+      if (result.success && result.data) {
+        setAvailableModels(result.data);
+        if (result.data.length === 0) {
+          setTestResult({
+            success: false,
+            message: t('apiConfig.noModels'),
+          });
+        } else if (!formData.model || !result.data.includes(formData.model)) {
+          // 当前模型不在列表中时，默认选中第一个可用模型
+          handleFieldChange('model', result.data[0]);
+        }
+      } else {
+        setTestResult({
+          success: false,
+          message: result.error || t('apiConfig.loadModelsFailed'),
+        });
+      }
+    } finally {
+      setIsLoadingModels(false);
+    }
   };
 
   /**
    * 测试API连接
    */
   const handleTestConnection = async () => {
-    if (!formData.apiKey.trim()) {
+    if (!isFormValid) {
       setTestResult({
         success: false,
-        message: '请先输入API密钥',
+        message: useProxy ? t('apiConfig.proxyKeyMissing') : t('apiConfig.enterApiKeyFirst'),
       });
       return;
     }
@@ -117,13 +381,13 @@ const APIConfigModal: React.FC<APIConfigModalProps> = ({
       setTestResult({
         success: result.success,
         message: result.success 
-          ? 'API连接测试成功！' 
-          : result.error || '连接测试失败',
+          ? t('apiConfig.testSuccess')
+          : result.error || t('apiConfig.testFailed'),
       });
     } catch (error) {
       setTestResult({
         success: false,
-        message: '连接测试失败：网络错误',
+        message: t('apiConfig.testNetworkError'),
       });
     } finally {
       setIsTestingConnection(false);
@@ -134,10 +398,10 @@ const APIConfigModal: React.FC<APIConfigModalProps> = ({
    * 保存配置
    */
   const handleSave = async () => {
-    if (!formData.apiKey.trim()) {
+    if (!isFormValid) {
       setTestResult({
         success: false,
-        message: '请输入API密钥',
+        message: useProxy ? t('apiConfig.proxyKeyMissing') : t('apiConfig.enterApiKey'),
       });
       return;
     }
@@ -151,31 +415,34 @@ const APIConfigModal: React.FC<APIConfigModalProps> = ({
         if (!testResultData.success) {
           setTestResult({
             success: false,
-            message: testResultData.error || '配置验证失败',
+            message: testResultData.error || t('apiConfig.validationFailed'),
           });
           setIsSaving(false);
           return;
         }
       }
 
-      // 保存配置
-      onSave(formData);
+      // 保存配置（强制代理的部署始终保存为代理模式）；代理模式下密钥和端点由服务器提供，不保存在浏览器中
+      onSave(isProxyMode(formData)
+        ? {
+            ...formData,
+            useProxy: true,
+            apiKey: '',
+            baseUrl: '',
+            fallbacks: formData.fallbacks?.map(fallback => ({ ...fallback, apiKey: '', baseUrl: '' })),
+          }
+        : formData);
       onClose();
     } catch (error) {
       setTestResult({
         success: false,
-        message: '保存配置失败',
+        message: t('apiConfig.saveFailed'),
       });
     } finally {
       setIsSaving(false);
     }
   };
 
-  /**
-   * 获取当前选中提供商的信息
-   */
-  const selectedProvider = providers.find(p => p.id === formData.provider);
-
   const modalFooter = (
     <>
       <Button
@@ -183,23 +450,23 @@ const APIConfigModal: React.FC<APIConfigModalProps> = ({
         onClick={onClose}
         disabled={isTestingConnection || isSaving}
       >
-        取消
+        {t('common.cancel')}
       </Button>
       <Button
         variant="secondary"
         onClick={handleTestConnection}
         loading={isTestingConnection}
-        disabled={!formData.apiKey.trim() || isSaving}
+        disabled={!isFormValid || isSaving}
       >
-        测试连接
+        {t('apiConfig.testConnection')}
       </Button>
       <Button
         variant="primary"
         onClick={handleSave}
         loading={isSaving}
-        disabled={!formData.apiKey.trim() || isTestingConnection}
+        disabled={!isFormValid || isTestingConnection}
       >
-        保存配置
+        {t('apiConfig.saveConfig')}
       </Button>
     </>
   );
@@ -208,7 +475,7 @@ const APIConfigModal: React.FC<APIConfigModalProps> = ({
     <Modal
       isOpen={isOpen}
       onClose={onClose}
-      title="AI服务配置"
+      title={t('apiConfig.title')}
       size="md"
       footer={modalFooter}
     >
@@ -219,10 +486,12 @@ const APIConfigModal: React.FC<APIConfigModalProps> = ({
             <Settings className="w-5 h-5 text-blue-600 mt-0.5 flex-shrink-0" />
             <div>
               <h4 className="text-sm font-medium text-blue-900 mb-1">
-                配置您的AI服务
+                {t('apiConfig.heading')}
               </h4>
               <p className="text-sm text-blue-700">
-                选择您偏好的AI服务提供商并输入相应的API密钥。配置将安全地保存在您的浏览器本地存储中。
+                {useProxy
+                  ? t('apiConfig.introProxy')
+                  : t('apiConfig.introLocal')}
               </p>
             </div>
           </div>
@@ -230,48 +499,309 @@ const APIConfigModal: React.FC<APIConfigModalProps> = ({
 
         {/* AI服务提供商选择 */}
         <Select
-          label="AI服务提供商"
+          label={t('apiConfig.provider')}
           value={formData.provider}
           onChange={handleProviderChange}
           options={providers.map(provider => ({
             value: provider.id,
             label: provider.name,
           }))}
-          helpText="选择您要使用的AI服务提供商"
+          helpText={t('apiConfig.providerHelp')}
         />
+        {isOfflineProvider && (
+          <p className="text-sm text-gray-600">
+            {t('apiConfig.offlineProviderHint')}
+          </p>
+        )}
 
-        {/* API密钥输入 */}
-        <Input
-          label="API密钥"
-          type="password"
-          value={formData.apiKey}
-          onChange={(e) => handleFieldChange('apiKey', e.target.value)}
-          placeholder="请输入您的API密钥"
-          helpText="您的API密钥将加密存储在本地，不会上传到服务器"
-        />
+        {/* 服务器代理 */}
+        {proxyEnforced ? (
+          <p className="text-sm text-gray-600">
+            {t('apiConfig.proxyEnforced')}
+          </p>
+        ) : (
+          <label className="flex items-start gap-2 text-sm text-gray-700 cursor-pointer select-none">
+            <input
+              type="checkbox"
+              className="mt-0.5"
+              checked={useProxy}
+              onChange={(e) => handleProxyToggle(e.target.checked)}
+            />
+            <span>
+              {t('apiConfig.useProxy')}
+              <span className="block text-xs text-gray-500 mt-0.5">
+                {t('apiConfig.useProxyHelp')}
+              </span>
+            </span>
+          </label>
+        )}
+        {useProxy && !isProxyProviderAvailable(formData.provider) && (
+          <p className="text-sm text-red-600">
+            {t('apiConfig.proxyMissingKey', { provider: selectedProvider?.name || formData.provider })}
+            {proxyStatus && proxyStatus.providers.length > 0
+              ? t('apiConfig.proxyAvailable', {
+                  providers: proxyStatus.providers.map(id => providers.find(p => p.id === id)?.name || id).join(t('apiConfig.listSeparator')),
+                })
+              : t('apiConfig.proxyContactAdmin')}
+          </p>
+        )}
 
-        {/* 模型名称（可选） */}
-        <Input
-          label="模型名称（可选）"
-          value={formData.model}
-          onChange={(e) => handleFieldChange('model', e.target.value)}
-          placeholder={selectedProvider?.defaultModel || '使用默认模型'}
-          helpText={`默认模型：${selectedProvider?.defaultModel || '未知'}`}
-        />
+        {/* 本地模型服务：接口格式与服务地址（代理模式下地址由服务器配置） */}
+        {isLocalProvider && (
+          <>
+            <Select
+              label={t('apiConfig.apiFormat')}
+              value={formData.localApiFormat || 'ollama'}
+              onChange={(value) => handleFieldChange('localApiFormat', value)}
+              options={[
+                { value: 'ollama', label: t('apiConfig.apiFormatOllama') },
+                { value: 'openai', label: t('apiConfig.apiFormatOpenAI') },
+              ]}
+              helpText={t('apiConfig.apiFormatHelp')}
+            />
+            {!useProxy && (
+              <Input
+                label={t('apiConfig.baseUrl')}
+                value={formData.baseUrl}
+                onChange={(e) => handleFieldChange('baseUrl', e.target.value)}
+                placeholder={(formData.localApiFormat || 'ollama') === 'ollama' ? LOCAL_DEFAULT_BASE_URL : 'http://localhost:8000/v1'}
+                helpText={t('apiConfig.baseUrlHelp')}
+              />
+            )}
+          </>
+        )}
+
+        {/* API密钥输入（离线演示不需要） */}
+        {!useProxy && !isOfflineProvider && (
+          <Input
+            label={requiresApiKey ? t('apiConfig.apiKey') : t('apiConfig.apiKeyOptional')}
+            type="password"
+            value={formData.apiKey}
+            onChange={(e) => handleFieldChange('apiKey', e.target.value)}
+            placeholder={requiresApiKey ? t('apiConfig.apiKeyPlaceholder') : t('apiConfig.apiKeyNotNeeded')}
+            helpText={t('apiConfig.apiKeyHelp')}
+          />
+        )}
 
-        {/* 自定义API端点（高级选项） */}
-        <details className="group">
+        {/* 模型名称：获取到模型列表后改为下拉选择 */}
+        {availableModels.length > 0 ? (
+          <Select
+            label={t('apiConfig.model')}
+            value={formData.model || ''}
+            onChange={(value) => handleFieldChange('model', value)}
+            options={availableModels.map(model => ({
+              value: model,
+              label: model,
+            }))}
+            helpText={t('apiConfig.modelCount', { count: availableModels.length })}
+          />
+        ) : (
+          <Input
+            label={t('apiConfig.modelName')}
+            value={formData.model}
+            onChange={(e) => handleFieldChange('model', e.target.value)}
+            placeholder={selectedProvider?.defaultModel || t('apiConfig.defaultModelPlaceholder')}
+            helpText={t('apiConfig.defaultModel', { model: selectedProvider?.defaultModel || t('apiConfig.unknown') })}
+          />
+        )}
+
+        {selectedProvider?.supportsModelList && !useProxy && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleLoadModels}
+            loading={isLoadingModels}
+            disabled={isTestingConnection || isSaving}
+            icon={<RefreshCw className="w-4 h-4" />}
+          >
+            {t('apiConfig.loadModels')}
+          </Button>
+        )}
+
+        {/* 自定义API端点（高级选项，本地模型服务已在上方单独配置；代理模式下由服务器决定） */}
+        {!isLocalProvider && !isOfflineProvider && !useProxy && (
+          <details className="group">
+            <summary className="cursor-pointer text-sm font-medium text-gray-700 hover:text-gray-900">
+              {t('apiConfig.advanced')}
+            </summary>
+            <div className="mt-3 space-y-4">
+              <Input
+                label={t('apiConfig.customEndpoint')}
+                value={formData.baseUrl}
+                onChange={(e) => handleFieldChange('baseUrl', e.target.value)}
+                placeholder="https://api.example.com/v1"
+                helpText={t('apiConfig.customEndpointHelp')}
+              />
+            </div>
+          </details>
+        )}
+
+        {/* 备用服务商 */}
+        <div className="space-y-3">
+          <div className="flex items-center justify-between gap-3">
+            <div>
+              <h4 className="text-sm font-medium text-gray-700">{t('apiConfig.fallbacks')}</h4>
+              <p className="text-xs text-gray-500 mt-1">
+                {t('apiConfig.fallbacksHelp')}
+              </p>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleAddFallback}
+              icon={<Plus className="w-4 h-4" />}
+            >
+              {t('apiConfig.add')}
+            </Button>
+          </div>
+
+          {fallbacks.map((fallback, index) => {
+            const fallbackProvider = providers.find(p => p.id === fallback.provider);
+            const fallbackRequiresKey = fallbackProvider?.requiresApiKey !== false;
+            return (
+              <div key={index} className="border border-gray-200 rounded-lg p-3 space-y-3">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium text-gray-700">{t('apiConfig.fallbackLabel', { number: index + 1 })}</span>
+                  <div className="flex items-center gap-1">
+                    <button
+                      onClick={() => handleMoveFallback(index, -1)}
+                      disabled={index === 0}
+                      className="p-1 text-gray-500 hover:text-gray-700 disabled:opacity-30"
+                      title={t('apiConfig.moveUp')}
+                    >
+                      <ArrowUp className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleMoveFallback(index, 1)}
+                      disabled={index === fallbacks.length - 1}
+                      className="p-1 text-gray-500 hover:text-gray-700 disabled:opacity-30"
+                      title={t('apiConfig.moveDown')}
+                    >
+                      <ArrowDown className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleRemoveFallback(index)}
+                      className="p-1 text-gray-500 hover:text-red-600"
+                      title={t('common.delete')}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+
+                <Select
+                  label={t('apiConfig.fallbackProvider')}
+                  value={fallback.provider}
+                  onChange={(value) => handleFallbackChange(index, 'provider', value)}
+                  options={providers.map(provider => ({
+                    value: provider.id,
+                    label: provider.name,
+                  }))}
+                />
+                {fallback.provider === 'local' && (
+                  <Select
+                    label={t('apiConfig.apiFormat')}
+                    value={fallback.localApiFormat || 'ollama'}
+                    onChange={(value) => handleFallbackChange(index, 'localApiFormat', value)}
+                    options={[
+                      { value: 'ollama', label: t('apiConfig.apiFormatOllama') },
+                      { value: 'openai', label: t('apiConfig.apiFormatOpenAI') },
+                    ]}
+                  />
+                )}
+                {!useProxy && !fallbackProvider?.offline && (
+                  <Input
+                    label={fallbackRequiresKey ? t('apiConfig.apiKey') : t('apiConfig.apiKeyOptional')}
+                    type="password"
+                    value={fallback.apiKey}
+                    onChange={(e) => handleFallbackChange(index, 'apiKey', e.target.value)}
+                    placeholder={fallbackRequiresKey ? t('apiConfig.fallbackApiKeyPlaceholder') : t('apiConfig.apiKeyNotNeeded')}
+                  />
+                )}
+                {useProxy && !isProxyProviderAvailable(fallback.provider) && (
+                  <p className="text-sm text-red-600">
+                    {t('apiConfig.proxyMissingKey', { provider: fallbackProvider?.name || fallback.provider })}
+                  </p>
+                )}
+                <Input
+                  label={t('apiConfig.modelName')}
+                  value={fallback.model}
+                  onChange={(e) => handleFallbackChange(index, 'model', e.target.value)}
+                  placeholder={fallbackProvider?.defaultModel || t('apiConfig.defaultModelPlaceholder')}
+                />
+                {!useProxy && (
+                  <Input
+                    label={fallback.provider === 'local' ? t('apiConfig.baseUrl') : t('apiConfig.customEndpoint')}
+                    value={fallback.baseUrl}
+                    onChange={(e) => handleFallbackChange(index, 'baseUrl', e.target.value)}
+                    placeholder={fallback.provider === 'local' ? LOCAL_DEFAULT_BASE_URL : 'https://api.example.com/v1'}
+                  />
+                )}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleTestFallback(index)}
+                  loading={testingFallbackIndex === index}
+                  disabled={!hasRequiredKey(fallback) || isTestingConnection || isSaving}
+                >
+                  {t('apiConfig.testConnection')}
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+
+        {/* 离线模式：录制与回放 */}
+        <details className="group" open={fixtureMode !== 'off'}>
           <summary className="cursor-pointer text-sm font-medium text-gray-700 hover:text-gray-900">
-            高级选项
+            {t('apiConfig.fixtures')}
           </summary>
-          <div className="mt-3 space-y-4">
-            <Input
-              label="自定义API端点（可选）"
-              value={formData.baseUrl}
-              onChange={(e) => handleFieldChange('baseUrl', e.target.value)}
-              placeholder="https://api.example.com/v1"
-              helpText="如果使用代理或自托管服务，请输入自定义API端点"
+          <div className="mt-3 space-y-3">
+            <p className="text-xs text-gray-500">{t('apiConfig.fixturesHelp')}</p>
+            <Select
+              label={t('apiConfig.fixtureMode')}
+              value={fixtureMode}
+              onChange={handleFixtureModeChange}
+              disabled={!!enforcedFixtureMode}
+              options={[
+                { value: 'off', label: t('apiConfig.fixtureModeOff') },
+                { value: 'record', label: t('apiConfig.fixtureModeRecord') },
+                { value: 'replay', label: t('apiConfig.fixtureModeReplay') },
+              ]}
+              helpText={enforcedFixtureMode
+                ? t('apiConfig.fixtureModeEnforced')
+                : fixtureMode === 'replay' ? t('apiConfig.fixtureModeReplayHelp') : undefined}
             />
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="text-sm text-gray-600 mr-auto">{t('apiConfig.recordedCount', { count: recordedCount })}</span>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleExportFixtures}
+                disabled={recordedCount === 0}
+                icon={<Download className="w-4 h-4" />}
+              >
+                {t('apiConfig.exportFixtures')}
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleImportFixtures}
+                icon={<Upload className="w-4 h-4" />}
+              >
+                {t('apiConfig.importFixtures')}
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleClearFixtures}
+                disabled={recordedCount === 0}
+                icon={<Trash2 className="w-4 h-4" />}
+              >
+                {t('apiConfig.clearFixtures')}
+              </Button>
+            </div>
+            {fixtureMessage && <p className="text-sm text-gray-700">{fixtureMessage}</p>}
           </div>
         </details>
 
@@ -288,7 +818,7 @@ const APIConfigModal: React.FC<APIConfigModalProps> = ({
               ) : (
                 <AlertCircle className="w-5 h-5 text-red-600" />
               )}
-              <span className={`text-sm font-medium ${
+              <span className={`text-sm font-medium whitespace-pre-line ${
                 testResult.success ? 'text-green-900' : 'text-red-900'
               }`}>
                 {testResult.message}
@@ -303,11 +833,12 @@ const APIConfigModal: React.FC<APIConfigModalProps> = ({
             <AlertCircle className="w-5 h-5 text-yellow-600 mt-0.5 flex-shrink-0" />
             <div>
               <h4 className="text-sm font-medium text-yellow-900 mb-1">
-                安全提示
+                {t('apiConfig.securityTitle')}
               </h4>
               <p className="text-sm text-yellow-700">
-                您的API密钥将存储在浏览器的本地存储中。请不要在公共计算机上保存敏感信息。
-                清除浏览器数据将删除所有保存的配置。
+                {useProxy
+                  ? t('apiConfig.securityProxy')
+                  : t('apiConfig.securityLocal')}
               </p>
             </div>
           </div>
@@ -0,0 +1,112 @@
+/**
+ * 批注编辑组件
+ *
+ * 原文面板和批注列表中编辑单条批注：
+ * - 切换高亮颜色
+ * - 编辑批注内容
+ * - 把批注转换为学习卡片、删除批注
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Check, CreditCard, Trash2 } from 'lucide-react';
+import { Annotation, AnnotationColor } from '../types';
+import { ANNOTATION_COLOR_CLASSES, ANNOTATION_COLORS } from '../utils/annotations';
+import { useLanguage } from '../contexts/LanguageContext';
+
+interface AnnotationEditorProps {
+  /** 正在编辑的批注 */
+  annotation: Annotation;
+  /** 更新颜色或批注内容 */
+  onUpdate: (changes: { color?: AnnotationColor; note?: string }) => void;
+  /** 删除批注 */
+  onDelete: () => void;
+  /** 把批注转换为学习卡片 */
+  onCreateCard: () => void;
+  /** 结束编辑 */
+  onClose: () => void;
+}
+
+const AnnotationEditor: React.FC<AnnotationEditorProps> = ({
+  annotation,
+  onUpdate,
+  onDelete,
+  onCreateCard,
+  onClose,
+}) => {
+  const { t } = useLanguage();
+  const [note, setNote] = useState(annotation.note || '');
+
+  useEffect(() => {
+    setNote(annotation.note || '');
+  }, [annotation.id, annotation.note]);
+
+  const handleSaveNote = () => {
+    onUpdate({ note: note.trim() });
+    onClose();
+  };
+
+  const handleDelete = () => {
+    if (window.confirm(t('annotations.confirmDelete'))) {
+      onDelete();
+    }
+  };
+
+  return (
+    <div
+      className={`p-2 space-y-2 bg-white border-l-4 ${ANNOTATION_COLOR_CLASSES[annotation.color].border} rounded shadow-sm`}
+      onMouseUp={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-center gap-1">
+        {ANNOTATION_COLORS.map(color => (
+          <button
+            key={color}
+            onClick={() => onUpdate({ color })}
+            className={`w-5 h-5 rounded-full ${ANNOTATION_COLOR_CLASSES[color].swatch} flex items-center justify-center`}
+            title={t('annotations.highlight', { color: t(`annotations.colors.${color}`) })}
+          >
+            {annotation.color === color && <Check className="w-3 h-3 text-gray-700" />}
+          </button>
+        ))}
+        <div className="ml-auto flex items-center gap-1">
+          <button
+            onClick={onCreateCard}
+            disabled={!!annotation.cardId}
+            className="flex items-center gap-1 px-2 py-0.5 text-xs text-gray-600 hover:text-primary-700 disabled:text-green-600 disabled:cursor-default"
+          >
+            <CreditCard className="w-3.5 h-3.5" />
+            {annotation.cardId ? t('annotations.cardCreated') : t('annotations.createCard')}
+          </button>
+          <button
+            onClick={handleDelete}
+            className="p-1 text-gray-400 hover:text-red-600"
+            title={t('annotations.delete')}
+          >
+            <Trash2 className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      </div>
+
+      <textarea
+        value={note}
+        onChange={(e) => setNote(e.target.value)}
+        placeholder={t('annotations.notePlaceholder')}
+        rows={3}
+        autoFocus
+        className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-primary-500"
+      />
+      <div className="flex justify-end gap-2">
+        <button onClick={onClose} className="px-2 py-0.5 text-xs text-gray-500 hover:text-gray-700">
+          {t('annotations.cancel')}
+        </button>
+        <button
+          onClick={handleSaveNote}
+          className="px-2 py-0.5 text-xs font-medium text-white bg-primary-600 hover:bg-primary-700 rounded"
+        >
+          {t('annotations.saveNote')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default AnnotationEditor;
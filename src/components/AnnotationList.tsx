@@ -0,0 +1,140 @@
+/**
+ * 批注列表组件
+ *
+ * 原文面板中按章节列出全部高亮与批注：
+ * - 搜索原文片段和批注内容
+ * - 点击定位到原文中的位置，原文变化后无法定位的批注单独标出
+ * - 编辑颜色和批注内容、转换为学习卡片、删除
+ */
+
+import React, { useMemo, useState } from 'react';
+import { AlertTriangle, Edit3, Search } from 'lucide-react';
+import { Annotation, AnnotationColor, OutlineItem } from '../types';
+import {
+  ANNOTATION_COLOR_CLASSES,
+  ResolvedAnnotation,
+  filterAnnotations,
+  groupAnnotationsByOutlineItem,
+} from '../utils/annotations';
+import AnnotationEditor from './AnnotationEditor';
+import { useLanguage } from '../contexts/LanguageContext';
+
+interface AnnotationListProps {
+  /** 在当前原文中定位后的批注 */
+  annotations: ResolvedAnnotation[];
+  /** 学习大纲（用于按章节分组） */
+  outline: OutlineItem[];
+  /** 定位到原文中的批注 */
+  onSelect: (annotation: Annotation) => void;
+  /** 更新颜色或批注内容 */
+  onUpdate: (id: string, changes: { color?: AnnotationColor; note?: string }) => void;
+  /** 删除批注 */
+  onDelete: (id: string) => void;
+  /** 把批注转换为学习卡片 */
+  onCreateCard: (id: string) => void;
+}
+
+const AnnotationList: React.FC<AnnotationListProps> = ({
+  annotations,
+  outline,
+  onSelect,
+  onUpdate,
+  onDelete,
+  onCreateCard,
+}) => {
+  const { t } = useLanguage();
+  const [query, setQuery] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const orphanedIds = useMemo(
+    () => new Set(annotations.filter(item => !item.range).map(item => item.annotation.id)),
+    [annotations]
+  );
+  const groups = useMemo(
+    () => groupAnnotationsByOutlineItem(filterAnnotations(annotations.map(item => item.annotation), query), outline),
+    [annotations, outline, query]
+  );
+
+  if (annotations.length === 0) {
+    return <p className="p-4 text-sm text-gray-500 text-center">{t('annotations.empty')}</p>;
+  }
+
+  return (
+    <div className="p-3 space-y-4">
+      <div className="relative">
+        <Search className="absolute left-2 top-1/2 -translate-y-1/2 w-3.5 h-3.5 text-gray-400" />
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder={t('annotations.searchPlaceholder')}
+          className="w-full pl-7 pr-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-primary-500"
+        />
+      </div>
+
+      {groups.length === 0 && (
+        <p className="text-sm text-gray-500 text-center">{t('annotations.noResults')}</p>
+      )}
+
+      {groups.map(group => (
+        <div key={group.item?.id || 'ungrouped'}>
+          <h4 className="mb-2 text-xs font-semibold text-gray-500">
+            {group.item ? group.item.title : t('annotations.ungrouped')}
+          </h4>
+          <div className="space-y-2">
+            {group.annotations.map(annotation => {
+              const isOrphaned = orphanedIds.has(annotation.id);
+              return editingId === annotation.id ? (
+                <AnnotationEditor
+                  key={annotation.id}
+                  annotation={annotation}
+                  onUpdate={(changes) => onUpdate(annotation.id, changes)}
+                  onDelete={() => onDelete(annotation.id)}
+                  onCreateCard={() => onCreateCard(annotation.id)}
+                  onClose={() => setEditingId(null)}
+                />
+              ) : (
+                <div
+                  key={annotation.id}
+                  className={`group p-2 border-l-4 ${ANNOTATION_COLOR_CLASSES[annotation.color].border} bg-gray-50 rounded`}
+                >
+                  <button
+                    onClick={() => onSelect(annotation)}
+                    disabled={isOrphaned}
+                    className="block w-full text-left disabled:cursor-default"
+                    title={isOrphaned ? t('annotations.orphaned') : t('annotations.jumpTo')}
+                  >
+                    <p className={`text-sm text-gray-700 line-clamp-3 ${isOrphaned ? 'line-through opacity-60' : ''}`}>
+                      {annotation.anchor.quote}
+                    </p>
+                    {annotation.note && (
+                      <p className="mt-1 text-sm text-gray-900 whitespace-pre-wrap">{annotation.note}</p>
+                    )}
+                  </button>
+                  <div className="mt-1 flex items-center gap-2 text-xs text-gray-400">
+                    {isOrphaned && (
+                      <span className="flex items-center gap-1 text-amber-600">
+                        <AlertTriangle className="w-3 h-3" />
+                        {t('annotations.orphaned')}
+                      </span>
+                    )}
+                    {annotation.cardId && <span className="text-green-600">{t('annotations.cardCreated')}</span>}
+                    <button
+                      onClick={() => setEditingId(annotation.id)}
+                      className="ml-auto flex items-center gap-1 hover:text-gray-700"
+                    >
+                      <Edit3 className="w-3 h-3" />
+                      {t('annotations.edit')}
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default AnnotationList;
@@ -15,6 +15,7 @@ import Button from './ui/Button'
 import Input from './ui/Input'
 import Modal from './ui/Modal'
 import { useAuth } from '../contexts/AuthContext'
+import { useLanguage } from '../contexts/LanguageContext'
 
 interface AuthModalProps {
   isOpen: boolean
@@ -47,6 +48,7 @@ export default function AuthModal({
   onAuthSuccess 
 }: AuthModalProps) {
   const { signIn, signUp, resetPassword, loading } = useAuth()
+  const { t } = useLanguage()
   
   const [formData, setFormData] = useState<FormData>({
     email: '',
@@ -84,37 +86,37 @@ export default function AuthModal({
 
     // 邮箱验证
     if (!formData.email) {
-      newErrors.email = '请输入邮箱地址'
+      newErrors.email = t('auth.emailRequired')
     } else if (!validateEmail(formData.email)) {
-      newErrors.email = '邮箱格式不正确'
+      newErrors.email = t('auth.emailInvalid')
     }
 
     // 密码验证
     if (mode !== 'reset') {
       if (!formData.password) {
-        newErrors.password = '请输入密码'
+        newErrors.password = t('auth.passwordRequired')
       } else if (formData.password.length < 6) {
-        newErrors.password = '密码至少需要6位字符'
+        newErrors.password = t('auth.passwordTooShort')
       }
 
       // 注册时的额外验证
       if (mode === 'signup') {
         // 用户名验证
         if (!formData.username?.trim()) {
-          newErrors.username = '请输入用户名'
+          newErrors.username = t('auth.usernameRequired')
         } else if (formData.username.length < 2) {
-          newErrors.username = '用户名至少需要2位字符'
+          newErrors.username = t('auth.usernameTooShort')
         } else if (formData.username.length > 20) {
-          newErrors.username = '用户名不能超过20位字符'
+          newErrors.username = t('auth.usernameTooLong')
         } else if (!/^[a-zA-Z0-9\u4e00-\u9fa5_-]+$/.test(formData.username)) {
-          newErrors.username = '用户名只能包含字母、数字、中文、下划线和连字符'
+          newErrors.username = t('auth.usernameInvalid')
         }
 
         // 确认密码验证
         if (!formData.confirmPassword) {
-          newErrors.confirmPassword = '请确认密码'
+          newErrors.confirmPassword = t('auth.confirmPasswordRequired')
         } else if (formData.password !== formData.confirmPassword) {
-          newErrors.confirmPassword = '两次输入的密码不一致'
+          newErrors.confirmPassword = t('auth.passwordMismatch')
         }
       }
     }
@@ -165,7 +167,7 @@ export default function AuthModal({
       }
 
       if (result.success) {
-        setSuccessMessage(result.message || '操作成功！')
+        setSuccessMessage(result.message || t('auth.success'))
         
         // 登录成功后关闭模态框
         if (mode === 'login') {
@@ -175,11 +177,11 @@ export default function AuthModal({
           }, 1500)
         }
       } else {
-        setErrors({ general: result.error || '操作失败，请稍后重试' })
+        setErrors({ general: result.error || t('auth.failed') })
       }
     } catch (error) {
       console.error('认证操作失败:', error)
-      setErrors({ general: '操作过程中发生错误，请稍后重试' })
+      setErrors({ general: t('auth.error') })
     } finally {
       setIsSubmitting(false)
     }
@@ -197,10 +199,10 @@ export default function AuthModal({
    */
   const getTitle = () => {
     switch (mode) {
-      case 'login': return '登录'
-      case 'signup': return '注册'
-      case 'reset': return '重置密码'
-      default: return '认证'
+      case 'login': return t('auth.login')
+      case 'signup': return t('auth.signup')
+      case 'reset': return t('auth.resetPassword')
+      default: return t('auth.authenticate')
     }
   }
 
@@ -210,17 +212,17 @@ export default function AuthModal({
   const getSubmitText = () => {
     if (isSubmitting) {
       switch (mode) {
-        case 'login': return '登录中...'
-        case 'signup': return '注册中...'
-        case 'reset': return '发送中...'
+        case 'login': return t('auth.loggingIn')
+        case 'signup': return t('auth.signingUp')
+        case 'reset': return t('auth.sending')
       }
     }
     
     switch (mode) {
-      case 'login': return '登录'
-      case 'signup': return '注册'
-      case 'reset': return '发送重置邮件'
-      default: return '提交'
+      case 'login': return t('auth.login')
+      case 'signup': return t('auth.signup')
+      case 'reset': return t('auth.sendResetEmail')
+      default: return t('auth.submit')
     }
   }
 
@@ -257,7 +259,7 @@ export default function AuthModal({
         <div>
           <Input
             type="email"
-            placeholder="邮箱地址"
+            placeholder={t('auth.email')}
             value={formData.email}
             onChange={(e) => setFormData({ ...formData, email: e.target.value })}
             error={errors.email}
@@ -271,7 +273,7 @@ export default function AuthModal({
           <div>
             <Input
               type="text"
-              placeholder="用户名"
+              placeholder={t('auth.username')}
               value={formData.username}
               onChange={(e) => setFormData({ ...formData, username: e.target.value })}
               error={errors.username}
@@ -286,7 +288,7 @@ export default function AuthModal({
           <div>
             <Input
               type={showPassword ? 'text' : 'password'}
-              placeholder="密码"
+              placeholder={t('auth.password')}
               value={formData.password}
               onChange={(e) => setFormData({ ...formData, password: e.target.value })}
               error={errors.password}
@@ -310,7 +312,7 @@ export default function AuthModal({
           <div>
             <Input
               type={showConfirmPassword ? 'text' : 'password'}
-              placeholder="确认密码"
+              placeholder={t('auth.confirmPassword')}
               value={formData.confirmPassword}
               onChange={(e) => setFormData({ ...formData, confirmPassword: e.target.value })}
               error={errors.confirmPassword}
@@ -346,12 +348,12 @@ export default function AuthModal({
         {mode === 'login' && (
           <>
             <p className="text-sm text-gray-600">
-              还没有账户？{' '}
+              {t('auth.noAccount')}{' '}
               <button
                 onClick={() => switchMode('signup')}
                 className="text-blue-600 hover:text-blue-500 font-medium"
               >
-                立即注册
+                {t('auth.signupNow')}
               </button>
             </p>
             <p className="text-sm">
@@ -359,7 +361,7 @@ export default function AuthModal({
                 onClick={() => switchMode('reset')}
                 className="text-gray-500 hover:text-gray-700"
               >
-                忘记密码？
+                {t('auth.forgotPassword')}
               </button>
             </p>
           </>
@@ -367,24 +369,24 @@ export default function AuthModal({
 
         {mode === 'signup' && (
           <p className="text-sm text-gray-600">
-            已有账户？{' '}
+            {t('auth.haveAccount')}{' '}
             <button
               onClick={() => switchMode('login')}
               className="text-blue-600 hover:text-blue-500 font-medium"
             >
-              立即登录
+              {t('auth.loginNow')}
             </button>
           </p>
         )}
 
         {mode === 'reset' && (
           <p className="text-sm text-gray-600">
-            记起密码了？{' '}
+            {t('auth.rememberedPassword')}{' '}
             <button
               onClick={() => switchMode('login')}
               className="text-blue-600 hover:text-blue-500 font-medium"
             >
-              返回登录
+              {t('auth.backToLogin')}
             </button>
           </p>
         )}
@@ -0,0 +1,181 @@
+/**
+ * 复习卡片提取确认对话框组件
+ *
+ * 学完小节后，从本小节的对话和原文中提取复习卡片：
+ * - 还没有草稿时提取卡片，已有草稿时可以重新提取
+ * - 逐张编辑问答卡的问题和答案、填空卡的句子（用 {{答案}} 标出挖空）
+ * - 逐张选择保留或舍弃，只保存保留且内容完整的卡片
+ *
+ * 提取由学习页面调用AI完成，保存也由学习页面负责，本组件只负责展示和编辑草稿
+ */
+
+import React, { useEffect, useState } from 'react';
+import { OutlineItem } from '../types';
+import { CardDraft, isCardDraftComplete } from '../utils/cardGeneration';
+import Modal from './ui/Modal';
+import Button from './ui/Button';
+import { useLanguage } from '../contexts/LanguageContext';
+
+interface CardGenerationReviewProps {
+  /** 是否显示对话框 */
+  isOpen: boolean;
+  /** 提取卡片的小节 */
+  item: OutlineItem;
+  /** 模型提取的卡片草稿（尚未提取时为 null） */
+  drafts: CardDraft[] | null;
+  /** 是否正在提取 */
+  isGenerating: boolean;
+  /** 提取或保存失败的错误信息 */
+  error?: string | null;
+  /** 提取（或重新提取）卡片 */
+  onGenerate: () => void;
+  /** 保存用户保留的卡片 */
+  onSave: (drafts: CardDraft[]) => void;
+  /** 关闭对话框 */
+  onClose: () => void;
+}
+
+/** 用户正在确认的草稿：可编辑的内容和是否保留 */
+interface ReviewedDraft extends CardDraft {
+  accepted: boolean;
+}
+
+const CardGenerationReview: React.FC<CardGenerationReviewProps> = ({
+  isOpen,
+  item,
+  drafts,
+  isGenerating,
+  error,
+  onGenerate,
+  onSave,
+  onClose,
+}) => {
+  const { t } = useLanguage();
+  const [reviewed, setReviewed] = useState<ReviewedDraft[]>([]);
+
+  // 重新提取后默认全部保留
+  useEffect(() => {
+    setReviewed((drafts || []).map(draft => ({ ...draft, accepted: true })));
+  }, [drafts]);
+
+  const updateDraft = (index: number, changes: Partial<ReviewedDraft>) => {
+    setReviewed(prev => prev.map((draft, i) => i === index ? { ...draft, ...changes } : draft));
+  };
+
+  const acceptedDrafts = reviewed.filter(draft => draft.accepted);
+  const incompleteCount = acceptedDrafts.filter(draft => !isCardDraftComplete(draft)).length;
+
+  /**
+   * 保存保留的卡片（去掉确认状态字段）
+   */
+  const handleSave = () => {
+    onSave(acceptedDrafts.map(({ accepted, ...draft }) => draft));
+  };
+
+  const inputClassName = 'w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500';
+
+  const footer = drafts && drafts.length > 0 && (
+    <>
+      <span className="mr-auto text-sm text-gray-500">
+        {incompleteCount > 0
+          ? t('cardGeneration.incomplete', { count: incompleteCount })
+          : t('cardGeneration.selected', { count: acceptedDrafts.length, total: reviewed.length })}
+      </span>
+      <Button variant="ghost" size="sm" onClick={onGenerate} disabled={isGenerating}>
+        {t('cardGeneration.regenerate')}
+      </Button>
+      <Button
+        size="sm"
+        onClick={handleSave}
+        disabled={isGenerating || acceptedDrafts.length === 0 || incompleteCount > 0}
+      >
+        {t('cardGeneration.save', { count: acceptedDrafts.length })}
+      </Button>
+    </>
+  );
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={t('cardGeneration.title', { title: item.title })}
+      size="lg"
+      footer={footer || undefined}
+    >
+      <div className="space-y-4 max-h-[60vh] overflow-y-auto">
+        {error && (
+          <div className="p-3 text-sm text-red-700 bg-red-50 border border-red-200 rounded-lg">
+            {error}
+          </div>
+        )}
+
+        {!drafts || isGenerating ? (
+          <div className="text-center py-6">
+            <p className="text-sm text-gray-600 mb-4">{t('cardGeneration.intro')}</p>
+            <Button onClick={onGenerate} loading={isGenerating} disabled={isGenerating}>
+              {isGenerating ? t('cardGeneration.generating') : t('cardGeneration.generate')}
+            </Button>
+          </div>
+        ) : drafts.length === 0 ? (
+          <p className="text-center py-6 text-sm text-gray-600">{t('cardGeneration.empty')}</p>
+        ) : (
+          reviewed.map((draft, index) => (
+            <div
+              key={index}
+              className={`p-4 border rounded-lg ${draft.accepted ? 'border-gray-200' : 'border-gray-100 bg-gray-50 opacity-60'}`}
+            >
+              <div className="flex items-center gap-2 mb-3">
+                <span className="px-2 py-0.5 text-xs font-medium text-primary-700 bg-primary-100 rounded-full">
+                  {t(`cardGeneration.formats.${draft.format}`)}
+                </span>
+                <label className="ml-auto flex items-center gap-2 text-sm text-gray-600">
+                  <input
+                    type="checkbox"
+                    checked={draft.accepted}
+                    onChange={(e) => updateDraft(index, { accepted: e.target.checked })}
+                  />
+                  {t('cardGeneration.keep')}
+                </label>
+              </div>
+
+              {draft.format === 'qa' ? (
+                <div className="space-y-2">
+                  <label className="block text-xs text-gray-500">{t('cardGeneration.question')}</label>
+                  <textarea
+                    value={draft.question || ''}
+                    onChange={(e) => updateDraft(index, { question: e.target.value })}
+                    disabled={!draft.accepted}
+                    rows={2}
+                    className={inputClassName}
+                  />
+                  <label className="block text-xs text-gray-500">{t('cardGeneration.answer')}</label>
+                  <textarea
+                    value={draft.answer || ''}
+                    onChange={(e) => updateDraft(index, { answer: e.target.value })}
+                    disabled={!draft.accepted}
+                    rows={2}
+                    className={inputClassName}
+                  />
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  <label className="block text-xs text-gray-500">{t('cardGeneration.clozeText')}</label>
+                  <textarea
+                    value={draft.clozeText || ''}
+                    onChange={(e) => updateDraft(index, { clozeText: e.target.value })}
+                    disabled={!draft.accepted}
+                    rows={2}
+                    className={inputClassName}
+                  />
+                  <p className="text-xs text-gray-400">{t('cardGeneration.clozeHint')}</p>
+                </div>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+    </Modal>
+  );
+};
+
+export default CardGenerationReview;
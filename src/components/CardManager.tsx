@@ -36,6 +36,7 @@ import {
   recordCardReview,
   addLearningCard
 } from '../utils/storage';
+import { useLanguage } from '../contexts/LanguageContext';
 
 interface CardManagerProps {
   /** 会话ID */
@@ -48,6 +49,8 @@ const CardManager: React.FC<CardManagerProps> = ({
   sessionId,
   onCardsUpdate,
 }) => {
+  const { locale, t } = useLanguage();
+
   /**
    * 渲染Markdown内容并美化显示
    */
@@ -198,13 +201,13 @@ const CardManager: React.FC<CardManagerProps> = ({
     const diffDays = Math.floor(diffTime / (1000 * 60 * 60 * 24));
 
     if (diffDays === 0) {
-      return '今天';
+      return t('cards.today');
     } else if (diffDays === 1) {
-      return '昨天';
+      return t('cards.yesterday');
     } else if (diffDays < 7) {
-      return `${diffDays}天前`;
+      return t('cards.daysAgo', { count: diffDays });
     } else {
-      return date.toLocaleDateString('zh-CN');
+      return date.toLocaleDateString(locale);
     }
   };
 
@@ -220,13 +223,13 @@ const CardManager: React.FC<CardManagerProps> = ({
     const diffDays = Math.floor(diffTime / (1000 * 60 * 60 * 24));
 
     if (diffTime <= 0) {
-      return '需要复习';
+      return t('cards.reviewDue');
     } else if (diffMinutes < 60) {
-      return `${diffMinutes}分钟后`;
+      return t('cards.inMinutes', { count: diffMinutes });
     } else if (diffHours < 24) {
-      return `${diffHours}小时后`;
+      return t('cards.inHours', { count: diffHours });
     } else {
-      return `${diffDays}天后`;
+      return t('cards.inDays', { count: diffDays });
     }
   };
 
@@ -261,7 +264,7 @@ const CardManager: React.FC<CardManagerProps> = ({
    * 删除卡片
    */
   const handleDeleteCard = (cardId: string) => {
-    if (window.confirm('确定要删除这张卡片吗？')) {
+    if (window.confirm(t('cards.confirmDelete'))) {
       const success = deleteLearningCard(sessionId, cardId);
       if (success) {
         loadCards();
@@ -413,7 +416,8 @@ const CardManager: React.FC<CardManagerProps> = ({
               <Star className="w-4 h-4 text-blue-500" />
             )}
             <span className="text-xs text-gray-500">
-              {card.type === 'inspiration' ? '灵感卡片' : '收藏卡片'}
+              {card.type === 'inspiration' ? t('cards.inspiration') : t('cards.bookmark')}
+              {card.format && ` · ${t(`cardGeneration.formats.${card.format}`)}`}
             </span>
           </div>
           
@@ -438,7 +442,7 @@ const CardManager: React.FC<CardManagerProps> = ({
         {/* 卡片内容 */}
         <div className="mb-3">
           <h4 className="font-medium text-gray-900 text-sm mb-2 line-clamp-2 leading-relaxed">
-            {card.title || '无标题'}
+            {card.title || t('cards.untitled')}
           </h4>
           <div 
             className="text-xs text-gray-600 line-clamp-3 mb-2"
@@ -475,7 +479,7 @@ const CardManager: React.FC<CardManagerProps> = ({
               <Clock className="w-3 h-3" />
               {formatTime(card.createdAt)}
             </span>
-            <span>复习 {card.reviewCount} 次</span>
+            <span>{t('cards.reviewCount', { count: card.reviewCount })}</span>
           </div>
           
           <div className="flex items-center gap-2">
@@ -491,7 +495,7 @@ const CardManager: React.FC<CardManagerProps> = ({
                 onClick={() => handleStartReview(card)}
                 className="text-xs px-2 py-1"
               >
-                复习
+                {t('cards.review')}
               </Button>
             )}
           </div>
@@ -514,22 +518,22 @@ const CardManager: React.FC<CardManagerProps> = ({
         <div className="grid grid-cols-2 gap-3">
           <div className="bg-blue-50 rounded-lg p-3 text-center">
             <div className="text-2xl font-bold text-blue-600">{totalCards}</div>
-            <div className="text-xs text-blue-600">总卡片数</div>
+            <div className="text-xs text-blue-600">{t('cards.total')}</div>
           </div>
           <div className="bg-orange-50 rounded-lg p-3 text-center">
             <div className="text-2xl font-bold text-orange-600">{reviewCardsCount}</div>
-            <div className="text-xs text-orange-600">待复习</div>
+            <div className="text-xs text-orange-600">{t('cards.due')}</div>
           </div>
         </div>
         
         <div className="grid grid-cols-2 gap-3">
           <div className="bg-yellow-50 rounded-lg p-3 text-center">
             <div className="text-xl font-bold text-yellow-600">{inspirationCards}</div>
-            <div className="text-xs text-yellow-600">灵感卡片</div>
+            <div className="text-xs text-yellow-600">{t('cards.inspiration')}</div>
           </div>
           <div className="bg-green-50 rounded-lg p-3 text-center">
             <div className="text-xl font-bold text-green-600">{bookmarkCards}</div>
-            <div className="text-xs text-green-600">收藏卡片</div>
+            <div className="text-xs text-green-600">{t('cards.bookmark')}</div>
           </div>
         </div>
 
@@ -541,7 +545,7 @@ const CardManager: React.FC<CardManagerProps> = ({
             icon={<RefreshCw className="w-4 h-4" />}
             className="w-full"
           >
-            开始复习 ({reviewCardsCount} 张)
+            {t('cards.startReviewCount', { count: reviewCardsCount })}
           </Button>
         )}
       </div>
@@ -555,13 +559,13 @@ const CardManager: React.FC<CardManagerProps> = ({
         <div className="p-4 border-b border-gray-200 flex-shrink-0">
           <div className="flex items-center gap-2 mb-3">
             <BookOpen className="w-5 h-5 text-primary-600" />
-            <h2 className="font-semibold text-gray-900 text-sm">卡片管理</h2>
+            <h2 className="font-semibold text-gray-900 text-sm">{t('cards.title')}</h2>
           </div>
           
           {/* 搜索栏 */}
           <div className="mb-3">
             <Input
-              placeholder="搜索卡片..."
+              placeholder={t('cards.searchPlaceholder')}
               value={searchTerm}
               onChange={(e) => setSearchTerm(e.target.value)}
               leftIcon={<Search className="w-4 h-4" />}
@@ -572,7 +576,7 @@ const CardManager: React.FC<CardManagerProps> = ({
           {/* 标签过滤 */}
           {getAllTags().length > 0 && (
             <div className="mb-3">
-              <div className="text-xs text-gray-500 mb-2">标签过滤：</div>
+              <div className="text-xs text-gray-500 mb-2">{t('cards.tagFilter')}</div>
               <div className="flex flex-wrap gap-1">
                 {getAllTags().map(tag => (
                   <button
@@ -602,7 +606,7 @@ const CardManager: React.FC<CardManagerProps> = ({
                   : 'text-gray-600 hover:text-gray-900'
               }`}
             >
-              全部
+              {t('cards.viewAll')}
             </button>
             <button
               onClick={() => setCurrentView('review')}
@@ -612,7 +616,7 @@ const CardManager: React.FC<CardManagerProps> = ({
                   : 'text-gray-600 hover:text-gray-900'
               }`}
             >
-              复习
+              {t('cards.review')}
             </button>
             <button
               onClick={() => setCurrentView('stats')}
@@ -622,7 +626,7 @@ const CardManager: React.FC<CardManagerProps> = ({
                   : 'text-gray-600 hover:text-gray-900'
               }`}
             >
-              统计
+              {t('cards.viewStats')}
             </button>
           </div>
 
@@ -634,7 +638,7 @@ const CardManager: React.FC<CardManagerProps> = ({
             icon={<Plus className="w-4 h-4" />}
             className="w-full mt-3"
           >
-            新建卡片
+            {t('cards.newCard')}
           </Button>
         </div>
 
@@ -649,16 +653,16 @@ const CardManager: React.FC<CardManagerProps> = ({
                   <BookOpen className="w-8 h-8 text-gray-300 mx-auto mb-2" />
                   <p className="text-sm">
                     {searchTerm || selectedTags.length > 0 
-                      ? '没有找到匹配的卡片' 
-                      : currentView === 'all' ? '还没有收藏的卡片' : '暂无需要复习的卡片'
+                      ? t('cards.noMatches')
+                      : currentView === 'all' ? t('cards.noCardsYet') : t('cards.noDueCards')
                     }
                   </p>
                   <p className="text-xs mt-1">
                     {searchTerm || selectedTags.length > 0
-                      ? '尝试调整搜索条件或标签过滤'
-                      : currentView === 'all' 
-                      ? '在AI回答旁点击💡或⭐图标来收藏' 
-                      : '继续学习，稍后会有卡片需要复习'
+                      ? t('cards.adjustSearch')
+                      : currentView === 'all'
+                      ? t('cards.howToSave')
+                      : t('cards.keepLearning')
                     }
                   </p>
                 </div>
@@ -675,25 +679,25 @@ const CardManager: React.FC<CardManagerProps> = ({
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
           <div className="bg-white rounded-lg p-6 w-full max-w-md mx-4">
             <h3 className="text-lg font-semibold text-gray-900 mb-4">
-              编辑卡片
+              {t('cards.editCard')}
             </h3>
             
             <div className="space-y-4">
               <Input
-                label="卡片标题"
+                label={t('cards.cardTitle')}
                 value={editingCard.title}
                 onChange={(e) => setEditingCard({ ...editingCard, title: e.target.value })}
-                placeholder="为这张卡片起个标题..."
+                placeholder={t('cards.editTitlePlaceholder')}
               />
               
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
-                  卡片内容
+                  {t('cards.content')}
                 </label>
                 <textarea
                   value={editingCard.content || ''}
                   onChange={(e) => setEditingCard({ ...editingCard, content: e.target.value })}
-                  placeholder="编辑卡片的核心知识内容..."
+                  placeholder={t('cards.editContentPlaceholder')}
                   rows={6}
                   className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent resize-none"
                 />
@@ -701,12 +705,12 @@ const CardManager: React.FC<CardManagerProps> = ({
               
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
-                  您的笔记
+                  {t('cards.yourNote')}
                 </label>
                 <textarea
                   value={editingCard.userNote || ''}
                   onChange={(e) => setEditingCard({ ...editingCard, userNote: e.target.value })}
-                  placeholder="添加您的想法、感受或笔记..."
+                  placeholder={t('cards.notePlaceholder')}
                   rows={3}
                   className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent resize-none"
                 />
@@ -715,7 +719,7 @@ const CardManager: React.FC<CardManagerProps> = ({
               {/* 标签编辑 */}
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
-                  标签
+                  {t('cards.tags')}
                 </label>
                 <div className="flex flex-wrap gap-2 mb-2">
                   {(editingCard.tags || []).map(tag => (
@@ -737,7 +741,7 @@ const CardManager: React.FC<CardManagerProps> = ({
                 <div className="flex gap-2">
                   <input
                     type="text"
-                    placeholder="添加标签..."
+                    placeholder={t('cards.tagPlaceholder')}
                     className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
                     onKeyDown={(e) => {
                       if (e.key === 'Enter') {
@@ -768,13 +772,13 @@ const CardManager: React.FC<CardManagerProps> = ({
                 variant="outline"
                 onClick={() => setEditingCard(null)}
               >
-                取消
+                {t('common.cancel')}
               </Button>
               <Button
                 variant="primary"
                 onClick={handleSaveCard}
               >
-                保存
+                {t('common.save')}
               </Button>
             </div>
           </div>
@@ -787,13 +791,13 @@ const CardManager: React.FC<CardManagerProps> = ({
           <div className="bg-white rounded-lg p-6 w-full max-w-lg mx-4">
             <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center gap-2">
               <RefreshCw className="w-5 h-5 text-primary-600" />
-              复习卡片
+              {t('cards.reviewCard')}
             </h3>
             
             <div className="mb-6">
               <div className="bg-gray-50 rounded-lg p-4 mb-4">
                 <h4 className="font-medium text-gray-900 mb-2">
-                  {currentReviewCard.title || '无标题'}
+                  {currentReviewCard.title || t('cards.untitled')}
                 </h4>
                 <div 
                   className="text-sm text-gray-600 mb-3 prose prose-sm max-w-none"
@@ -809,17 +813,17 @@ const CardManager: React.FC<CardManagerProps> = ({
               </div>
               
               <p className="text-sm text-gray-600 text-center mb-4">
-                请根据您对这张卡片内容的掌握程度选择：
+                {t('cards.ratePrompt')}
               </p>
               
               {/* 五点量表横向布局 */}
               <div className="space-y-3">
                 <div className="flex justify-between items-center text-xs text-gray-500">
-                  <span>很困难</span>
-                  <span>困难</span>
-                  <span>一般</span>
-                  <span>容易</span>
-                  <span>很容易</span>
+                  <span>{t('cards.ratings.veryHard')}</span>
+                  <span>{t('cards.ratings.hard')}</span>
+                  <span>{t('cards.ratings.ok')}</span>
+                  <span>{t('cards.ratings.easy')}</span>
+                  <span>{t('cards.ratings.veryEasy')}</span>
                 </div>
                 
                 <div className="flex justify-between gap-2">
@@ -865,7 +869,7 @@ const CardManager: React.FC<CardManagerProps> = ({
                 </div>
                 
                 <div className="text-center text-xs text-gray-400 mt-2">
-                  点击选择您的掌握程度（1=完全忘记，5=完全掌握）
+                  {t('cards.rateHelp')}
                 </div>
               </div>
             </div>
@@ -878,7 +882,7 @@ const CardManager: React.FC<CardManagerProps> = ({
                   setCurrentReviewCard(null);
                 }}
               >
-                稍后复习
+                {t('cards.reviewLater')}
               </Button>
             </div>
           </div>
@@ -890,25 +894,25 @@ const CardManager: React.FC<CardManagerProps> = ({
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
           <div className="bg-white rounded-lg p-6 w-full max-w-md mx-4 max-h-[90vh] overflow-y-auto">
             <h3 className="text-lg font-semibold text-gray-900 mb-4">
-              新建卡片
+              {t('cards.newCard')}
             </h3>
             
             <div className="space-y-4">
               <Input
-                label="卡片标题"
+                label={t('cards.cardTitle')}
                 value={newCard.title}
                 onChange={(e) => setNewCard({ ...newCard, title: e.target.value })}
-                placeholder="输入卡片标题..."
+                placeholder={t('cards.newTitlePlaceholder')}
               />
               
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
-                  卡片内容 *
+                  {t('cards.contentRequired')}
                 </label>
                 <textarea
                   value={newCard.content}
                   onChange={(e) => setNewCard({ ...newCard, content: e.target.value })}
-                  placeholder="输入卡片的主要内容..."
+                  placeholder={t('cards.newContentPlaceholder')}
                   rows={4}
                   className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent resize-none"
                 />
@@ -916,12 +920,12 @@ const CardManager: React.FC<CardManagerProps> = ({
 
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
-                  个人笔记
+                  {t('cards.personalNote')}
                 </label>
                 <textarea
                   value={newCard.userNote}
                   onChange={(e) => setNewCard({ ...newCard, userNote: e.target.value })}
-                  placeholder="添加您的想法、感受或笔记..."
+                  placeholder={t('cards.notePlaceholder')}
                   rows={3}
                   className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent resize-none"
                 />
@@ -930,7 +934,7 @@ const CardManager: React.FC<CardManagerProps> = ({
               {/* 标签添加 */}
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
-                  标签
+                  {t('cards.tags')}
                 </label>
                 <div className="flex flex-wrap gap-2 mb-2">
                   {newCard.tags.map(tag => (
@@ -952,7 +956,7 @@ const CardManager: React.FC<CardManagerProps> = ({
                 <div className="flex gap-2">
                   <input
                     type="text"
-                    placeholder="添加标签..."
+                    placeholder={t('cards.tagPlaceholder')}
                     value={newCard.newTag}
                     onChange={(e) => setNewCard({ ...newCard, newTag: e.target.value })}
                     className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
@@ -988,14 +992,14 @@ const CardManager: React.FC<CardManagerProps> = ({
                   });
                 }}
               >
-                取消
+                {t('common.cancel')}
               </Button>
               <Button
                 variant="primary"
                 onClick={handleCreateNewCard}
                 disabled={!newCard.title.trim() || !newCard.content.trim()}
               >
-                创建卡片
+                {t('cards.createCard')}
               </Button>
             </div>
           </div>
@@ -0,0 +1,273 @@
+/**
+ * 小节测验对话框组件
+ *
+ * 在学习页面中为当前小节出题、作答和查看批改结果：
+ * - 还没有测验时生成测验，已有测验时可以重新出题
+ * - 单选题、判断题和简答题作答，提交后逐题显示对错、解析和原文依据
+ * - 显示得分、及格线和历史最高分
+ * - 设置是否须通过测验才自动标记小节完成
+ *
+ * 出题和批改由学习页面调用AI完成，本组件只负责展示和收集答案
+ */
+
+import React, { useEffect, useState } from 'react';
+import { OutlineItem, QuizAttempt, QuizQuestion } from '../types';
+import Modal from './ui/Modal';
+import Button from './ui/Button';
+import { useLanguage } from '../contexts/LanguageContext';
+
+interface ChapterQuizProps {
+  /** 是否显示对话框 */
+  isOpen: boolean;
+  /** 测验所属的小节（测验保存在 item.quiz 上） */
+  item: OutlineItem;
+  /** 是否正在出题 */
+  isGenerating: boolean;
+  /** 是否正在批改 */
+  isGrading: boolean;
+  /** 出题或批改失败的错误信息 */
+  error?: string | null;
+  /** 是否须通过测验才自动标记小节完成 */
+  requireQuizToComplete: boolean;
+  /** 生成（或重新生成）测验 */
+  onGenerate: () => void;
+  /** 提交答案，返回批改结果（失败时为 null） */
+  onSubmit: (answers: Record<string, string>) => Promise<QuizAttempt | null>;
+  /** 切换“须通过测验才自动完成”设置 */
+  onRequireQuizToCompleteChange: (value: boolean) => void;
+  /** 关闭对话框 */
+  onClose: () => void;
+}
+
+const ChapterQuiz: React.FC<ChapterQuizProps> = ({
+  isOpen,
+  item,
+  isGenerating,
+  isGrading,
+  error,
+  requireQuizToComplete,
+  onGenerate,
+  onSubmit,
+  onRequireQuizToCompleteChange,
+  onClose,
+}) => {
+  const { t } = useLanguage();
+  const quiz = item.quiz;
+
+  const [answers, setAnswers] = useState<Record<string, string>>({});
+  // 本次提交的批改结果，有值时进入查看结果模式
+  const [result, setResult] = useState<QuizAttempt | null>(null);
+
+  // 切换小节或重新出题后清空作答
+  useEffect(() => {
+    setAnswers({});
+    setResult(null);
+  }, [item.id, quiz?.createdAt]);
+
+  const setAnswer = (questionId: string, answer: string) => {
+    setAnswers(prev => ({ ...prev, [questionId]: answer }));
+  };
+
+  /**
+   * 提交答案，有未作答的题目时先确认
+   */
+  const handleSubmit = async () => {
+    if (!quiz) return;
+    const unanswered = quiz.questions.filter(question => !(answers[question.id] || '').trim()).length;
+    if (unanswered > 0 && !window.confirm(t('quiz.confirmUnanswered', { count: unanswered }))) {
+      return;
+    }
+    const attempt = await onSubmit(answers);
+    if (attempt) {
+      setResult(attempt);
+    }
+  };
+
+  /**
+   * 重新出题（已有作答记录时先确认）
+   */
+  const handleRegenerate = () => {
+    if (quiz?.attempts.length && !window.confirm(t('quiz.confirmRegenerate'))) {
+      return;
+    }
+    onGenerate();
+  };
+
+  const handleRetake = () => {
+    setAnswers({});
+    setResult(null);
+  };
+
+  /**
+   * 渲染单道题的作答区域
+   */
+  const renderAnswerInput = (question: QuizQuestion) => {
+    const answer = answers[question.id] || '';
+    const disabled = !!result || isGrading;
+
+    if (question.type === 'shortAnswer') {
+      return (
+        <textarea
+          value={answer}
+          onChange={(e) => setAnswer(question.id, e.target.value)}
+          disabled={disabled}
+          rows={3}
+          placeholder={t('quiz.answerPlaceholder')}
+          className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 disabled:bg-gray-50"
+        />
+      );
+    }
+
+    const choices = question.type === 'multipleChoice'
+      ? (question.options || []).map((option, index) => ({ value: String(index), label: option }))
+      : [
+          { value: 'true', label: t('quiz.true') },
+          { value: 'false', label: t('quiz.false') },
+        ];
+
+    return (
+      <div className="space-y-2">
+        {choices.map(choice => (
+          <label
+            key={choice.value}
+            className={`flex items-start gap-2 px-3 py-2 text-sm border rounded-lg cursor-pointer ${
+              answer === choice.value ? 'border-primary-500 bg-primary-50' : 'border-gray-200 hover:bg-gray-50'
+            } ${disabled ? 'cursor-default' : ''}`}
+          >
+            <input
+              type="radio"
+              name={question.id}
+              value={choice.value}
+              checked={answer === choice.value}
+              onChange={() => setAnswer(question.id, choice.value)}
+              disabled={disabled}
+              className="mt-0.5"
+            />
+            <span>{choice.label}</span>
+          </label>
+        ))}
+      </div>
+    );
+  };
+
+  /**
+   * 渲染单道题的批改结果
+   */
+  const renderQuestionResult = (question: QuizQuestion) => {
+    const graded = result?.answers.find(answer => answer.questionId === question.id);
+    if (!graded) return null;
+
+    const correctAnswer = question.type === 'multipleChoice'
+      ? question.options?.[question.answerIndex ?? -1]
+      : question.type === 'trueFalse'
+        ? t(question.answerIsTrue ? 'quiz.true' : 'quiz.false')
+        : undefined;
+
+    return (
+      <div className="mt-3 p-3 rounded-lg bg-gray-50 text-sm space-y-1">
+        <p className={graded.score >= 1 ? 'text-green-700' : graded.score > 0 ? 'text-amber-700' : 'text-red-700'}>
+          {question.type === 'shortAnswer'
+            ? t('quiz.partialScore', { percent: Math.round(graded.score * 100) })
+            : t(graded.score >= 1 ? 'quiz.correct' : 'quiz.incorrect')}
+        </p>
+        {correctAnswer && graded.score < 1 && (
+          <p className="text-gray-700">{t('quiz.correctAnswer', { answer: correctAnswer })}</p>
+        )}
+        {question.referenceAnswer && (
+          <p className="text-gray-700">{t('quiz.referenceAnswer', { answer: question.referenceAnswer })}</p>
+        )}
+        {graded.feedback && (
+          <p className="text-gray-700">{t('quiz.feedback', { text: graded.feedback })}</p>
+        )}
+        {question.explanation && (
+          <p className="text-gray-600">{t('quiz.explanation', { text: question.explanation })}</p>
+        )}
+        {question.sourceExcerpt && (
+          <p className="text-gray-500 italic">{t('quiz.source', { text: question.sourceExcerpt })}</p>
+        )}
+      </div>
+    );
+  };
+
+  const footer = (
+    <>
+      <label className="mr-auto flex items-center gap-2 text-sm text-gray-600">
+        <input
+          type="checkbox"
+          checked={requireQuizToComplete}
+          onChange={(e) => onRequireQuizToCompleteChange(e.target.checked)}
+        />
+        {t('quiz.requireToComplete')}
+      </label>
+      {quiz && (
+        <Button variant="ghost" size="sm" onClick={handleRegenerate} disabled={isGenerating || isGrading}>
+          {t('quiz.regenerate')}
+        </Button>
+      )}
+      {quiz && (result ? (
+        <Button size="sm" onClick={handleRetake}>
+          {t('quiz.retake')}
+        </Button>
+      ) : (
+        <Button size="sm" onClick={handleSubmit} loading={isGrading} disabled={isGenerating || isGrading}>
+          {isGrading ? t('quiz.grading') : t('quiz.submit')}
+        </Button>
+      ))}
+    </>
+  );
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={t('quiz.title', { title: item.title })} size="lg" footer={footer}>
+      <div className="space-y-4 max-h-[60vh] overflow-y-auto">
+        {error && (
+          <div className="p-3 text-sm text-red-700 bg-red-50 border border-red-200 rounded-lg">
+            {error}
+          </div>
+        )}
+
+        {!quiz ? (
+          <div className="text-center py-6">
+            <p className="text-sm text-gray-600 mb-4">{t('quiz.intro')}</p>
+            <Button onClick={onGenerate} loading={isGenerating} disabled={isGenerating}>
+              {isGenerating ? t('quiz.generating') : t('quiz.generate')}
+            </Button>
+          </div>
+        ) : isGenerating ? (
+          <p className="text-center py-6 text-sm text-gray-600">{t('quiz.generating')}</p>
+        ) : (
+          <>
+            {/* 得分概况 */}
+            {result ? (
+              <div className={`p-3 rounded-lg text-sm ${result.passed ? 'bg-green-50 text-green-800' : 'bg-amber-50 text-amber-800'}`}>
+                <p className="font-medium">{t('quiz.score', { score: result.score, passing: quiz.passingScore })}</p>
+                <p>{result.passed ? t('quiz.passed') : t('quiz.failed')}</p>
+              </div>
+            ) : quiz.attempts.length > 0 && (
+              <p className="text-xs text-gray-500">
+                {quiz.passed && `${t('quiz.passed')} · `}
+                {t('quiz.history', { score: quiz.bestScore ?? 0, count: quiz.attempts.length })}
+              </p>
+            )}
+
+            {quiz.questions.map((question, index) => (
+              <div key={question.id} className="p-4 border border-gray-200 rounded-lg">
+                <div className="flex items-start gap-2 mb-3">
+                  <span className="flex-shrink-0 px-2 py-0.5 text-xs font-medium text-primary-700 bg-primary-100 rounded-full">
+                    {t(`quiz.types.${question.type}`)}
+                  </span>
+                  <p className="text-sm font-medium text-gray-900">
+                    {index + 1}. {question.question}
+                  </p>
+                </div>
+                {renderAnswerInput(question)}
+                {renderQuestionResult(question)}
+              </div>
+            ))}
+          </>
+        )}
+      </div>
+    </Modal>
+  );
+};
+
+export default ChapterQuiz;
@@ -4,26 +4,35 @@
  * 提供与AI私教的对话界面：
  * - 消息列表显示
  * - 输入框和发送功能
- * - 打字机效果
- * - 消息状态指示
+ * - 打字机效果（流式回复逐字渲染）
+ * - 消息状态指示（含停止生成与中断标记）
+ * - 回复中的原文引用标签，点击后打开原文
+ * - 重新生成最后一条回复、编辑提问后重新发送，并在多个版本（分支）之间切换
  * - 自动滚动
  * - 主题化的小白/高手模式差异
  */
 
 import React, { useState, useRef, useEffect } from 'react';
-import { Bot, Lightbulb, Star } from 'lucide-react';
+import { AlertTriangle, Bot, ChevronLeft, ChevronRight, Lightbulb, Pencil, RefreshCw, Star } from 'lucide-react';
 import { marked } from 'marked';
 import Button from './ui/Button';
-import { ChatMessage, LearningLevel } from '../types';
+import { ChatMessage, GlossaryTerm, LearningLevel, MessageCitation } from '../types';
+import { describeProviderConfig } from '../utils/aiService';
+import { renderCitationChips } from '../utils/citations';
+import { renderGlossaryTerms } from '../utils/glossary';
+import { MessageBranchInfo } from '../utils/messageTree';
 import { useTheme } from '../contexts/ThemeContext';
+import { useLanguage } from '../contexts/LanguageContext';
 import { ThemedChatMessage } from './ThemedChatMessage';
 import { ThemedChatInput } from './ThemedChatInput';
 
 interface ChatInterfaceProps {
-  /** 对话消息列表 */
+  /** 对话消息列表（当前分支） */
   messages: ChatMessage[];
   /** 发送消息回调 */
   onSendMessage: (content: string) => void;
+  /** 停止生成回调（保留已生成的内容） */
+  onStopGenerating?: () => void;
   /** 收藏消息为卡片回调 */
   onBookmarkMessage?: (messageId: string, type: 'inspiration' | 'bookmark', userNote?: string) => void;
   /** 是否正在加载中 */
@@ -34,16 +43,40 @@ interface ChatInterfaceProps {
   disabled?: boolean;
   /** 学习模式（用于UI差异化） */
   learningLevel?: LearningLevel;
+  /** 正在流式生成中的AI消息ID */
+  streamingMessageId?: string | null;
+  /** 上下文裁剪提示（上一次请求有内容因预算限制未发送给AI时显示） */
+  contextNotice?: string | null;
+  /** 点击原文引用回调 */
+  onCitationClick?: (citation: MessageCitation) => void;
+  /** 有多个版本的消息在兄弟分支中的位置 */
+  branches?: Record<string, MessageBranchInfo>;
+  /** 切换到另一个版本（兄弟消息ID） */
+  onSwitchBranch?: (messageId: string) => void;
+  /** 重新生成AI回复 */
+  onRegenerate?: (messageId: string) => void;
+  /** 编辑提问后重新发送 */
+  onEditMessage?: (messageId: string, content: string) => void;
+  /** 术语表中的术语（在私教回复中标出，悬停显示定义） */
+  glossaryTerms?: GlossaryTerm[];
 }
 
 const ChatInterface: React.FC<ChatInterfaceProps> = ({
   messages,
   onSendMessage,
+  onStopGenerating,
   onBookmarkMessage,
   loading = false,
-  placeholder = '输入您的问题...',
+  placeholder,
   disabled = false,
-
+  streamingMessageId = null,
+  contextNotice = null,
+  onCitationClick,
+  branches = {},
+  onSwitchBranch,
+  onRegenerate,
+  onEditMessage,
+  glossaryTerms,
 }) => {
   // 状态管理
   const [inputValue, setInputValue] = useState('');
@@ -51,6 +84,9 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
   const [showInspirationModal, setShowInspirationModal] = useState(false);
   const [selectedMessageId, setSelectedMessageId] = useState<string | null>(null);
   const [inspirationNote, setInspirationNote] = useState('');
+  // 正在编辑的提问
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+  const [editValue, setEditValue] = useState('');
 
   // 引用
   const messagesEndRef = useRef<HTMLDivElement>(null);
@@ -58,6 +94,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
 
   // 主题相关 - 获取当前主题状态
   const { currentLevel } = useTheme();
+  const { locale, t } = useLanguage();
 
   /**
    * 配置marked选项
@@ -117,7 +154,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
    */
   const formatTimestamp = (timestamp: number): string => {
     const date = new Date(timestamp);
-    return date.toLocaleTimeString('zh-CN', { 
+    return date.toLocaleTimeString(locale, { 
       hour: '2-digit', 
       minute: '2-digit' 
     });
@@ -237,7 +274,15 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
       /您想.*吗[？?]/,
       /你想.*吗[？?]/,
       /您准备好.*了吗[？?]/,
-      /你准备好.*了吗[？?]/
+      /你准备好.*了吗[？?]/,
+
+      // 英文确认类
+      /\b(?:ready|shall we)\b[^?]*\?/i,
+      /\bnext (?:section|chapter)\b[^?]*\?/i,
+      /\bwhat do you think\b[^?]*\?/i,
+      /\bany (?:questions|doubts)\b[^?]*\?/i,
+      /\b(?:make sense|clear)\?/i,
+      /\b(?:interested|would you like)\b[^?]*\?/i
     ];
 
     console.log('检测选择按钮:', content, choicePatterns.some(pattern => pattern.test(content)));
@@ -249,42 +294,127 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
    */
   const getChoiceButtonTexts = (content: string) => {
     // 如果是开头准备确认
-    if (/准备好了吗[？?]/.test(content) || /可以开始了吗[？?]/.test(content)) {
-      return ['准备好了，开始吧！', '等一下'];
+    if (/准备好了吗[？?]/.test(content) || /可以开始了吗[？?]/.test(content) || /\b(?:ready|shall we)\b[^?]*\?/i.test(content)) {
+      return [t('chatInterface.choices.readyYes'), t('chatInterface.choices.readyWait')];
     }
     
     // 如果是下一节确认
-    if (/可以开始下一节了吗[？?]/.test(content) || /可以进入下一节了吗[？?]/.test(content)) {
-      return ['开始下一节', '再复习一下'];
+    if (/可以开始下一节了吗[？?]/.test(content) || /可以进入下一节了吗[？?]/.test(content) || /\bnext (?:section|chapter)\b[^?]*\?/i.test(content)) {
+      return [t('chatInterface.choices.nextSection'), t('chatInterface.choices.review')];
     }
     
     // 如果是兴趣确认（反思与探索模块）
-    if (/您有兴趣吗[？?]/.test(content)) {
-      return ['有兴趣，开始吧', '直接进入下一节'];
+    if (/您有兴趣吗[？?]/.test(content) || /\binterested\?/i.test(content)) {
+      return [t('chatInterface.choices.interested'), t('chatInterface.choices.skipToNext')];
     }
     
     // 如果是内容理解确认
-    if (/你觉得.*如何[？?]/.test(content) || /您觉得.*如何[？?]/.test(content)) {
-      return ['很好，继续', '有疑问'];
+    if (/你觉得.*如何[？?]/.test(content) || /您觉得.*如何[？?]/.test(content) || /\bwhat do you think\b[^?]*\?/i.test(content)) {
+      return [t('chatInterface.choices.goodContinue'), t('chatInterface.choices.haveDoubts')];
     }
     
     // 如果是问题确认
-    if (/有没有.*问题[？?]/.test(content) || /有什么.*问题[？?]/.test(content)) {
-      return ['没有问题', '有问题'];
+    if (/有没有.*问题[？?]/.test(content) || /有什么.*问题[？?]/.test(content) || /\bany (?:questions|doubts)\b[^?]*\?/i.test(content)) {
+      return [t('chatInterface.choices.noQuestions'), t('chatInterface.choices.haveQuestions')];
     }
     
     // 如果是补充确认
     if (/需要.*补充.*吗[？?]/.test(content) || /有.*需要.*修改.*吗[？?]/.test(content)) {
-      return ['不需要', '需要补充'];
+      return [t('chatInterface.choices.noNeed'), t('chatInterface.choices.needMore')];
     }
     
     // 如果是理解确认
-    if (/明白了吗[？?]/.test(content) || /清楚了吗[？?]/.test(content) || /理解了吗[？?]/.test(content)) {
-      return ['明白了', '还有疑问'];
+    if (/明白了吗[？?]/.test(content) || /清楚了吗[？?]/.test(content) || /理解了吗[？?]/.test(content) || /\b(?:make sense|clear)\?/i.test(content)) {
+      return [t('chatInterface.choices.understood'), t('chatInterface.choices.stillUnclear')];
     }
     
     // 通用确认
-    return ['是的', '不，等一下'];
+    return [t('chatInterface.choices.yes'), t('chatInterface.choices.notYet')];
+  };
+
+  /**
+   * 开始编辑提问
+   */
+  const handleStartEdit = (message: ChatMessage) => {
+    setEditingMessageId(message.id);
+    setEditValue(message.content);
+  };
+
+  const handleCancelEdit = () => {
+    setEditingMessageId(null);
+    setEditValue('');
+  };
+
+  /**
+   * 保存编辑后的提问并重新发送（内容未变时直接结束编辑）
+   */
+  const handleSubmitEdit = (message: ChatMessage) => {
+    const trimmedValue = editValue.trim();
+    if (!trimmedValue || loading || disabled) return;
+    if (trimmedValue !== message.content.trim()) {
+      onEditMessage?.(message.id, trimmedValue);
+    }
+    handleCancelEdit();
+  };
+
+  /**
+   * 渲染消息下方的版本切换器、重新生成和编辑按钮
+   */
+  const renderMessageControls = (message: ChatMessage, canRegenerate: boolean) => {
+    const branch = branches[message.id];
+    const isUser = message.role === 'user';
+    const canEdit = isUser && !!onEditMessage;
+    if (!branch && !canRegenerate && !canEdit) return null;
+
+    const buttonClassName = 'p-1 rounded hover:bg-[var(--border-light)] disabled:opacity-40 disabled:cursor-not-allowed';
+    return (
+      <div
+        className={`-mt-2 mb-2 px-12 flex items-center gap-1 text-xs ${isUser ? 'justify-end' : ''}`}
+        style={{ color: 'var(--text-tertiary)' }}
+      >
+        {branch && (
+          <>
+            <button
+              onClick={() => onSwitchBranch?.(branch.siblingIds[branch.index - 2])}
+              disabled={loading || branch.index <= 1}
+              className={buttonClassName}
+              title={t('chatInterface.previousBranch')}
+            >
+              <ChevronLeft className="w-3.5 h-3.5" />
+            </button>
+            <span>{t('chatInterface.branchCount', { index: branch.index, total: branch.total })}</span>
+            <button
+              onClick={() => onSwitchBranch?.(branch.siblingIds[branch.index])}
+              disabled={loading || branch.index >= branch.total}
+              className={buttonClassName}
+              title={t('chatInterface.nextBranch')}
+            >
+              <ChevronRight className="w-3.5 h-3.5" />
+            </button>
+          </>
+        )}
+        {canRegenerate && (
+          <button
+            onClick={() => onRegenerate?.(message.id)}
+            disabled={loading || disabled}
+            className={`${buttonClassName} opacity-0 group-hover:opacity-100`}
+            title={t('chatInterface.regenerate')}
+          >
+            <RefreshCw className="w-3.5 h-3.5" />
+          </button>
+        )}
+        {canEdit && (
+          <button
+            onClick={() => handleStartEdit(message)}
+            disabled={loading || disabled}
+            className={`${buttonClassName} opacity-0 group-hover:opacity-100`}
+            title={t('chatInterface.editMessage')}
+          >
+            <Pencil className="w-3.5 h-3.5" />
+          </button>
+        )}
+      </div>
+    );
   };
 
   /**
@@ -301,7 +431,11 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
 
     const isSystem = message.role === 'system';
     const isAssistant = message.role === 'assistant';
-    const showChoiceButtons = isAssistant && shouldShowChoiceButtons(message.content);
+    // 流式生成中的消息内容还不完整，暂不提供收藏和选择按钮
+    const isStreaming = message.id === streamingMessageId;
+    const showChoiceButtons = isAssistant && !isStreaming && shouldShowChoiceButtons(message.content);
+    // 只能重新生成当前分支的最后一条回复
+    const canRegenerate = isAssistant && !isStreaming && !!onRegenerate && message.id === messages[messages.length - 1]?.id;
 
     // 系统消息特殊处理
     if (isSystem) {
@@ -314,17 +448,56 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
       );
     }
 
+    // 编辑中的提问
+    if (message.id === editingMessageId) {
+      return (
+        <div key={message.id} className="flex justify-end mb-4">
+          <div className="w-full max-w-[80%] space-y-2">
+            <textarea
+              value={editValue}
+              onChange={(e) => setEditValue(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && !e.shiftKey) {
+                  e.preventDefault();
+                  handleSubmitEdit(message);
+                } else if (e.key === 'Escape') {
+                  handleCancelEdit();
+                }
+              }}
+              rows={3}
+              autoFocus
+              className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 resize-none"
+            />
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" size="sm" onClick={handleCancelEdit}>
+                {t('common.cancel')}
+              </Button>
+              <Button size="sm" onClick={() => handleSubmitEdit(message)} disabled={!editValue.trim() || loading || disabled}>
+                {t('chatInterface.saveAndResend')}
+              </Button>
+            </div>
+          </div>
+        </div>
+      );
+    }
+
     return (
       <div key={message.id} className="relative group">
         {/* 使用主题化消息组件 */}
         <ThemedChatMessage
           role={message.role as 'user' | 'assistant'}
-          content={isAssistant ? renderMarkdown(message.content) : message.content}
+          content={isAssistant
+            ? renderGlossaryTerms(renderCitationChips(renderMarkdown(message.content), message.citations), glossaryTerms)
+            : message.content}
           timestamp={formatTimestamp(message.timestamp)}
           showAvatar={true}
           isHTML={isAssistant}
+          onCitationClick={(number) => {
+            const citation = message.citations?.find(item => item.number === number);
+            if (citation) onCitationClick?.(citation);
+          }}
           actions={
-            isAssistant
+            isAssistant && !isStreaming
               ? !message.isBookmarked
                 ? (
                     <div className="flex gap-1">
@@ -334,7 +507,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
                           handleInspirationClick(message.id);
                         }}
                         className="w-7 h-7 bg-yellow-500 hover:bg-yellow-600 text-white rounded-full flex items-center justify-center shadow-md transition-colors duration-200"
-                        title="有灵感，添加笔记"
+                        title={t('chatInterface.addInspiration')}
                       >
                         <Lightbulb className="w-3.5 h-3.5" />
                       </button>
@@ -344,7 +517,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
                           handleBookmarkClick(message.id);
                         }}
                         className="w-7 h-7 bg-blue-500 hover:bg-blue-600 text-white rounded-full flex items-center justify-center shadow-md transition-colors duration-200"
-                        title="直接收藏"
+                        title={t('chatInterface.bookmark')}
                       >
                         <Star className="w-3.5 h-3.5" />
                       </button>
@@ -359,6 +532,44 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
           }
         />
 
+        {/* 版本切换、重新生成与编辑 */}
+        {!isStreaming && renderMessageControls(message, canRegenerate)}
+
+        {/* 实际回答的模型（主服务商失败、由备用服务商回答时高亮提示） */}
+        {isAssistant && !isStreaming && message.answeredBy && (
+          <div
+            className={`-mt-2 mb-2 px-12 text-xs ${message.answeredBy.isFallback ? 'text-yellow-700' : ''}`}
+            style={message.answeredBy.isFallback ? undefined : { color: 'var(--text-tertiary)' }}
+          >
+            {message.answeredBy.isFallback ? t('chatInterface.answeredByFallback') : t('chatInterface.answeredBy')}
+            {describeProviderConfig(message.answeredBy)}
+          </div>
+        )}
+
+        {/* 回复引用的原文片段 */}
+        {isAssistant && !isStreaming && message.citations && message.citations.length > 0 && (
+          <div className="-mt-2 mb-2 px-12 flex flex-wrap items-center gap-1 text-xs" style={{ color: 'var(--text-tertiary)' }}>
+            <span>{t('citations.sources')}</span>
+            {message.citations.map(citation => (
+              <button
+                key={citation.number}
+                onClick={() => onCitationClick?.(citation)}
+                className="px-2 py-0.5 rounded bg-primary-50 text-primary-700 hover:bg-primary-100 max-w-[200px] truncate"
+                title={citation.heading}
+              >
+                [{citation.number}]{citation.heading ? ` ${citation.heading}` : ''}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {/* 被用户中途停止的回复 */}
+        {message.isInterrupted && (
+          <div className="-mt-2 mb-2 px-12 text-xs" style={{ color: 'var(--text-tertiary)' }}>
+            {t('chatInterface.interrupted')}
+          </div>
+        )}
+
         {/* AI消息的选择按钮 */}
         {showChoiceButtons && (
           <div className="mt-3 flex flex-wrap gap-2 px-4">
@@ -409,7 +620,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
                   fontWeight: 'var(--font-weight-semibold)'
                 }}
               >
-                AI私教已就绪
+                {t('chatInterface.readyTitle')}
               </h3>
               <p 
                 className="text-sm"
@@ -418,7 +629,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
                   fontSize: 'var(--font-size-sm)'
                 }}
               >
-                我将根据您上传的文档内容，为您提供个性化的学习引导。请随时提问！
+                {t('chatInterface.readyDescription')}
               </p>
             </div>
           </div>
@@ -427,8 +638,8 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
         {/* 消息列表 */}
         {messages.map(renderMessage)}
 
-        {/* AI打字指示器 - 主题化 */}
-        {isTyping && (
+        {/* AI打字指示器 - 主题化（流式回复开始输出后隐藏） */}
+        {isTyping && !messages.some(m => m.id === streamingMessageId) && (
           <div className="flex items-start gap-3 p-4">
             <div 
               className="flex-shrink-0 w-8 h-8 flex items-center justify-center"
@@ -457,7 +668,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
                       fontSize: 'var(--font-size-sm)'
                     }}
                   >
-                    AI私教正在思考
+                    {t('chatInterface.thinking')}
                   </span>
                   <div className="flex gap-1 ml-2">
                     <div className="w-1 h-1 bg-gray-400 rounded-full animate-pulse"></div>
@@ -474,14 +685,23 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
         <div ref={messagesEndRef} />
       </div>
 
+      {/* 上下文裁剪提示 */}
+      {contextNotice && (
+        <div className="flex items-start gap-2 px-4 py-2 text-xs text-yellow-800 bg-yellow-50 border-t border-yellow-200">
+          <AlertTriangle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+          <span>{contextNotice}</span>
+        </div>
+      )}
+
       {/* 输入区域 - 使用主题化组件 */}
       <ThemedChatInput
         value={inputValue}
         onChange={setInputValue}
         onSend={handleSendMessage}
+        onStop={onStopGenerating}
         loading={loading}
         disabled={disabled}
-        placeholder={placeholder}
+        placeholder={placeholder ?? t('chatInterface.inputPlaceholder')}
       />
     </div>
 
@@ -491,22 +711,22 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
         <div className="bg-white rounded-lg p-6 w-full max-w-md mx-4">
           <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center gap-2">
             <Lightbulb className="w-5 h-5 text-yellow-500" />
-            记录您的灵感
+            {t('chatInterface.inspirationTitle')}
           </h3>
           
           <div className="mb-4">
             <label className="block text-sm font-medium text-gray-700 mb-2">
-              您的感受和想法：
+              {t('chatInterface.inspirationLabel')}
             </label>
             <textarea
               value={inspirationNote}
               onChange={(e) => setInspirationNote(e.target.value)}
-              placeholder="记录下这段内容给您的启发、想法或感受..."
+              placeholder={t('chatInterface.inspirationPlaceholder')}
               rows={4}
               className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent resize-none"
             />
             <div className="mt-1 text-xs text-gray-500">
-              {inspirationNote.length}/500 字符
+              {t('chatInterface.inspirationLength', { count: inspirationNote.length })}
             </div>
           </div>
 
@@ -519,7 +739,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
                 setInspirationNote('');
               }}
             >
-              取消
+              {t('common.cancel')}
             </Button>
             <Button
               variant="primary"
@@ -527,7 +747,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
               disabled={!inspirationNote.trim()}
               icon={<Lightbulb className="w-4 h-4" />}
             >
-              保存灵感
+              {t('chatInterface.saveInspiration')}
             </Button>
           </div>
         </div>
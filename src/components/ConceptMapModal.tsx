@@ -0,0 +1,501 @@
+/**
+ * 概念图对话框组件
+ *
+ * 在大纲层级的基础上展示学习材料中的关键概念及其关系：
+ * - 根节点、章、节、概念从左到右排列，概念之间用不同样式的连线表示先修、组成部分、对比关系
+ * - 拖动平移、滚轮缩放，点击章节或概念跳转到对应的大纲项
+ * - 导出为 SVG、PNG 图片或 Mermaid、OPML 文本
+ *
+ * 生成由学习页面调用AI完成，本组件只负责展示和导出
+ */
+
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Download, Loader2, Maximize2, RefreshCw, ZoomIn, ZoomOut } from 'lucide-react';
+import { ConceptMap, ConceptRelationType, OutlineItem } from '../types';
+import {
+  ConceptMapLayout,
+  ConceptMapLayoutEdge,
+  ConceptMapLayoutNode,
+  layoutConceptMap,
+  NODE_HEIGHT,
+  NODE_WIDTH,
+  toMermaid,
+  toOpml,
+} from '../utils/conceptMap';
+import Modal from './ui/Modal';
+import Button from './ui/Button';
+import { useLanguage } from '../contexts/LanguageContext';
+import { MessageKey } from '../utils/i18n';
+
+interface ConceptMapModalProps {
+  /** 是否显示对话框 */
+  isOpen: boolean;
+  /** 会话标题（作为根节点） */
+  title: string;
+  /** 学习大纲 */
+  outline: OutlineItem[];
+  /** 会话的概念图（尚未生成时为空） */
+  conceptMap?: ConceptMap;
+  /** 是否正在生成 */
+  isGenerating: boolean;
+  /** 生成失败的错误信息 */
+  error?: string | null;
+  /** 生成（或重新生成）概念图 */
+  onGenerate: () => void;
+  /** 跳转到大纲项 */
+  onSelectItem: (itemId: string) => void;
+  /** 关闭对话框 */
+  onClose: () => void;
+}
+
+/** 平移和缩放状态 */
+interface Viewport {
+  x: number;
+  y: number;
+  scale: number;
+}
+
+const MIN_SCALE = 0.2;
+const MAX_SCALE = 3;
+const ZOOM_STEP = 1.2;
+/** 图四周的留白 */
+const PADDING = 24;
+/** 拖动超过该距离后不再视为点击 */
+const DRAG_THRESHOLD = 4;
+const FONT_FAMILY = 'system-ui, -apple-system, "PingFang SC", "Microsoft YaHei", sans-serif';
+
+const NODE_STYLES: Record<ConceptMapLayoutNode['kind'], { fill: string; stroke: string; text: string }> = {
+  root: { fill: '#2563eb', stroke: '#1d4ed8', text: '#ffffff' },
+  chapter: { fill: '#dbeafe', stroke: '#3b82f6', text: '#1e3a8a' },
+  section: { fill: '#f3f4f6', stroke: '#9ca3af', text: '#374151' },
+  concept: { fill: '#ecfdf5', stroke: '#10b981', text: '#065f46' },
+};
+
+const RELATION_STYLES: Record<ConceptRelationType, { stroke: string; dash?: string; arrow: boolean }> = {
+  prerequisiteOf: { stroke: '#d97706', arrow: true },
+  partOf: { stroke: '#2563eb', dash: '6 4', arrow: true },
+  contrastsWith: { stroke: '#e11d48', dash: '2 4', arrow: false },
+};
+
+type ExportFormat = 'svg' | 'png' | 'mermaid' | 'opml';
+
+const EXPORT_LABELS: Record<ExportFormat, MessageKey> = {
+  svg: 'conceptMap.exportSvg',
+  png: 'conceptMap.exportPng',
+  mermaid: 'conceptMap.exportMermaid',
+  opml: 'conceptMap.exportOpml',
+};
+
+const clampScale = (scale: number): number => Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale));
+
+/**
+ * 连线路径：层级连线从父节点右侧连到子节点左侧；
+ * 概念关系的两端在同一列，从节点右侧向外弯出
+ */
+const buildEdgePath = (edge: ConceptMapLayoutEdge, from: ConceptMapLayoutNode, to: ConceptMapLayoutNode): string => {
+  if (edge.kind === 'hierarchy') {
+    const x1 = from.x + NODE_WIDTH;
+    const y1 = from.y + NODE_HEIGHT / 2;
+    const x2 = to.x;
+    const y2 = to.y + NODE_HEIGHT / 2;
+    const mid = (x1 + x2) / 2;
+    return `M ${x1} ${y1} C ${mid} ${y1}, ${mid} ${y2}, ${x2} ${y2}`;
+  }
+
+  const x1 = from.x + NODE_WIDTH;
+  const y1 = from.y + NODE_HEIGHT / 2;
+  const x2 = to.x + NODE_WIDTH;
+  const y2 = to.y + NODE_HEIGHT / 2;
+  const bulge = Math.max(x1, x2) + 30 + Math.abs(y2 - y1) * 0.25;
+  return `M ${x1} ${y1} C ${bulge} ${y1}, ${bulge} ${y2}, ${x2} ${y2}`;
+};
+
+/**
+ * 生成下载文件名（去掉文件名中不允许的字符）
+ */
+const buildFileName = (title: string, extension: string): string => {
+  const base = title.replace(/[\\/:*?"<>|]+/g, '').trim().slice(0, 60) || 'concept-map';
+  return `${base}.${extension}`;
+};
+
+const downloadBlob = (blob: Blob, filename: string) => {
+  const link = document.createElement('a');
+  const url = URL.createObjectURL(blob);
+  link.setAttribute('href', url);
+  link.setAttribute('download', filename);
+  link.style.visibility = 'hidden';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * 把页面上的图序列化为独立的SVG：去掉平移缩放，按布局范围设置画布并加白色背景
+ */
+const serializeSvg = (svg: SVGSVGElement, layout: ConceptMapLayout): string => {
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  const width = layout.width + PADDING * 2;
+  const height = layout.height + PADDING * 2;
+  clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+  clone.setAttribute('viewBox', `${-PADDING} ${-PADDING} ${width} ${height}`);
+  clone.setAttribute('width', String(width));
+  clone.setAttribute('height', String(height));
+  clone.removeAttribute('class');
+  clone.querySelector('[data-viewport]')?.removeAttribute('transform');
+
+  const background = document.createElementNS('http://www.w3.org/2000/svg', 'rect');
+  background.setAttribute('x', String(-PADDING));
+  background.setAttribute('y', String(-PADDING));
+  background.setAttribute('width', String(width));
+  background.setAttribute('height', String(height));
+  background.setAttribute('fill', '#ffffff');
+  clone.insertBefore(background, clone.firstChild);
+
+  return new XMLSerializer().serializeToString(clone);
+};
+
+/**
+ * 把SVG绘制到两倍分辨率的画布上，导出为PNG
+ */
+const renderPng = (svgText: string, width: number, height: number): Promise<Blob> => {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(new Blob([svgText], { type: 'image/svg+xml;charset=utf-8' }));
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = width * 2;
+      canvas.height = height * 2;
+      const context = canvas.getContext('2d');
+      if (!context) {
+        URL.revokeObjectURL(url);
+        reject(new Error('无法创建画布'));
+        return;
+      }
+      context.scale(2, 2);
+      context.drawImage(image, 0, 0, width, height);
+      URL.revokeObjectURL(url);
+      canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('无法生成PNG'))), 'image/png');
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('无法加载SVG'));
+    };
+    image.src = url;
+  });
+};
+
+const ConceptMapModal: React.FC<ConceptMapModalProps> = ({
+  isOpen,
+  title,
+  outline,
+  conceptMap,
+  isGenerating,
+  error,
+  onGenerate,
+  onSelectItem,
+  onClose,
+}) => {
+  const { t } = useLanguage();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const dragRef = useRef<{ startX: number; startY: number; originX: number; originY: number; moved: boolean } | null>(null);
+  const movedRef = useRef(false);
+  const [viewport, setViewport] = useState<Viewport>({ x: 0, y: 0, scale: 1 });
+  const [isDragging, setIsDragging] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  const layout = useMemo(() => layoutConceptMap(conceptMap, outline, title), [conceptMap, outline, title]);
+  const nodesById = useMemo(() => new Map(layout.nodes.map(node => [node.id, node])), [layout]);
+
+  const fitToView = useCallback(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const width = layout.width + PADDING * 2;
+    const height = layout.height + PADDING * 2;
+    const scale = clampScale(Math.min(container.clientWidth / width, container.clientHeight / height, 1));
+    setViewport({
+      scale,
+      x: (container.clientWidth - layout.width * scale) / 2,
+      y: (container.clientHeight - layout.height * scale) / 2,
+    });
+  }, [layout]);
+
+  useEffect(() => {
+    if (isOpen && conceptMap) {
+      fitToView();
+    }
+  }, [isOpen, conceptMap, fitToView]);
+
+  /**
+   * 以容器中的某一点为中心缩放
+   */
+  const zoomAt = useCallback((factor: number, centerX?: number, centerY?: number) => {
+    const container = containerRef.current;
+    if (!container) return;
+    const cx = centerX ?? container.clientWidth / 2;
+    const cy = centerY ?? container.clientHeight / 2;
+    setViewport(previous => {
+      const scale = clampScale(previous.scale * factor);
+      const ratio = scale / previous.scale;
+      return { scale, x: cx - (cx - previous.x) * ratio, y: cy - (cy - previous.y) * ratio };
+    });
+  }, []);
+
+  // 滚轮缩放需要阻止页面滚动，React 的 onWheel 是被动监听，这里直接注册原生事件
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!isOpen || !container) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = container.getBoundingClientRect();
+      zoomAt(e.deltaY < 0 ? ZOOM_STEP : 1 / ZOOM_STEP, e.clientX - rect.left, e.clientY - rect.top);
+    };
+    container.addEventListener('wheel', handleWheel, { passive: false });
+    return () => container.removeEventListener('wheel', handleWheel);
+  }, [isOpen, conceptMap, zoomAt]);
+
+  const handleMouseDown = (e: React.MouseEvent) => {
+    if (e.button !== 0) return;
+    dragRef.current = { startX: e.clientX, startY: e.clientY, originX: viewport.x, originY: viewport.y, moved: false };
+    movedRef.current = false;
+    setIsDragging(true);
+  };
+
+  const handleMouseMove = (e: React.MouseEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const dx = e.clientX - drag.startX;
+    const dy = e.clientY - drag.startY;
+    if (Math.abs(dx) + Math.abs(dy) > DRAG_THRESHOLD) {
+      drag.moved = true;
+    }
+    setViewport(previous => ({ ...previous, x: drag.originX + dx, y: drag.originY + dy }));
+  };
+
+  const handleMouseUp = () => {
+    movedRef.current = !!dragRef.current?.moved;
+    dragRef.current = null;
+    setIsDragging(false);
+  };
+
+  const handleNodeClick = (node: ConceptMapLayoutNode) => {
+    // 拖动结束时也会触发点击，此时不跳转
+    if (movedRef.current || !node.outlineItemId) return;
+    onSelectItem(node.outlineItemId);
+    onClose();
+  };
+
+  const handleRegenerate = () => {
+    if (window.confirm(t('conceptMap.confirmRegenerate'))) {
+      onGenerate();
+    }
+  };
+
+  const handleExport = async (format: ExportFormat) => {
+    setExportError(null);
+    try {
+      if (format === 'mermaid') {
+        downloadBlob(new Blob([toMermaid(layout)], { type: 'text/plain;charset=utf-8' }), buildFileName(title, 'mmd'));
+        return;
+      }
+      if (format === 'opml') {
+        downloadBlob(new Blob([toOpml(layout)], { type: 'text/x-opml;charset=utf-8' }), buildFileName(title, 'opml'));
+        return;
+      }
+
+      const svg = svgRef.current;
+      if (!svg) return;
+      const svgText = serializeSvg(svg, layout);
+      if (format === 'svg') {
+        downloadBlob(new Blob([svgText], { type: 'image/svg+xml;charset=utf-8' }), buildFileName(title, 'svg'));
+      } else {
+        const png = await renderPng(svgText, layout.width + PADDING * 2, layout.height + PADDING * 2);
+        downloadBlob(png, buildFileName(title, 'png'));
+      }
+      console.log(`🗺️ 概念图已导出为 ${format.toUpperCase()}`);
+    } catch (exportFailure) {
+      console.error('导出概念图失败:', exportFailure);
+      setExportError(t('conceptMap.exportFailed'));
+    }
+  };
+
+  const renderEdge = (edge: ConceptMapLayoutEdge, index: number) => {
+    const from = nodesById.get(edge.from);
+    const to = nodesById.get(edge.to);
+    if (!from || !to) return null;
+    const relation = edge.kind === 'hierarchy' ? null : edge.kind;
+    const style = relation ? RELATION_STYLES[relation] : null;
+    return (
+      <path
+        key={index}
+        d={buildEdgePath(edge, from, to)}
+        fill="none"
+        stroke={style ? style.stroke : '#cbd5e1'}
+        strokeWidth={style ? 1.75 : 1.25}
+        strokeDasharray={style?.dash}
+        markerEnd={style?.arrow ? `url(#concept-arrow-${relation})` : undefined}
+      >
+        {relation && <title>{`${from.label} ${t(`conceptMap.relations.${relation}`)} ${to.label}`}</title>}
+      </path>
+    );
+  };
+
+  const renderNode = (node: ConceptMapLayoutNode) => {
+    const style = NODE_STYLES[node.kind];
+    const clickable = !!node.outlineItemId;
+    return (
+      <g
+        key={node.id}
+        transform={`translate(${node.x}, ${node.y})`}
+        onClick={() => handleNodeClick(node)}
+        style={{ cursor: clickable ? 'pointer' : 'inherit' }}
+      >
+        <title>{node.description ? `${node.label}\n${node.description}` : node.label}</title>
+        <rect
+          width={NODE_WIDTH}
+          height={NODE_HEIGHT}
+          rx={node.kind === 'concept' ? NODE_HEIGHT / 2 : 6}
+          fill={style.fill}
+          stroke={style.stroke}
+          strokeWidth={1}
+        />
+        <text
+          x={NODE_WIDTH / 2}
+          y={NODE_HEIGHT / 2}
+          textAnchor="middle"
+          dominantBaseline="central"
+          fill={style.text}
+          fontSize={12}
+          fontWeight={node.kind === 'concept' || node.kind === 'section' ? 400 : 600}
+          fontFamily={FONT_FAMILY}
+        >
+          {node.displayLabel}
+        </text>
+      </g>
+    );
+  };
+
+  const renderBody = () => {
+    if (isGenerating) {
+      return (
+        <div className="h-[70vh] flex flex-col items-center justify-center gap-2 text-sm text-gray-500">
+          <Loader2 className="w-6 h-6 animate-spin" />
+          {t('conceptMap.generating')}
+        </div>
+      );
+    }
+
+    if (!conceptMap) {
+      return (
+        <div className="h-[70vh] flex flex-col items-center justify-center gap-3 text-center">
+          <p className="text-sm text-gray-500 max-w-md">{t('conceptMap.empty')}</p>
+          {error && <p className="text-sm text-red-600">{t('conceptMap.generateFailed', { error })}</p>}
+          <Button onClick={onGenerate}>{t('conceptMap.generate')}</Button>
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-3">
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-sm text-gray-500">
+            {t('conceptMap.stats', { concepts: conceptMap.concepts.length, relations: conceptMap.relations.length })}
+          </span>
+          <div className="flex-1" />
+          <Button variant="ghost" size="sm" onClick={() => zoomAt(1 / ZOOM_STEP)} title={t('conceptMap.zoomOut')} icon={<ZoomOut className="w-4 h-4" />} />
+          <Button variant="ghost" size="sm" onClick={() => zoomAt(ZOOM_STEP)} title={t('conceptMap.zoomIn')} icon={<ZoomIn className="w-4 h-4" />} />
+          <Button variant="ghost" size="sm" onClick={fitToView} title={t('conceptMap.fit')} icon={<Maximize2 className="w-4 h-4" />} />
+          <Button variant="outline" size="sm" onClick={handleRegenerate} icon={<RefreshCw className="w-4 h-4" />}>
+            {t('conceptMap.regenerate')}
+          </Button>
+        </div>
+
+        {error && <p className="text-sm text-red-600">{t('conceptMap.generateFailed', { error })}</p>}
+
+        <div
+          ref={containerRef}
+          className={`relative h-[70vh] overflow-hidden rounded-lg border border-gray-200 bg-gray-50 select-none ${isDragging ? 'cursor-grabbing' : 'cursor-grab'}`}
+          onMouseDown={handleMouseDown}
+          onMouseMove={handleMouseMove}
+          onMouseUp={handleMouseUp}
+          onMouseLeave={handleMouseUp}
+        >
+          <svg ref={svgRef} className="w-full h-full">
+            <defs>
+              {(Object.keys(RELATION_STYLES) as ConceptRelationType[]).map(type => (
+                <marker
+                  key={type}
+                  id={`concept-arrow-${type}`}
+                  viewBox="0 0 10 10"
+                  refX={9}
+                  refY={5}
+                  markerWidth={7}
+                  markerHeight={7}
+                  orient="auto-start-reverse"
+                >
+                  <path d="M 0 0 L 10 5 L 0 10 z" fill={RELATION_STYLES[type].stroke} />
+                </marker>
+              ))}
+            </defs>
+            <g data-viewport transform={`translate(${viewport.x}, ${viewport.y}) scale(${viewport.scale})`}>
+              {layout.edges.filter(edge => edge.kind === 'hierarchy').map(renderEdge)}
+              {layout.nodes.map(renderNode)}
+              {layout.edges.map((edge, index) => (edge.kind === 'hierarchy' ? null : renderEdge(edge, index)))}
+            </g>
+          </svg>
+
+          <div className="absolute left-3 bottom-3 px-3 py-2 bg-white/90 rounded border border-gray-200 text-xs text-gray-600 space-y-1 pointer-events-none">
+            {(Object.keys(RELATION_STYLES) as ConceptRelationType[]).map(type => (
+              <div key={type} className="flex items-center gap-2">
+                <svg width="28" height="8">
+                  <line
+                    x1="0"
+                    y1="4"
+                    x2="28"
+                    y2="4"
+                    stroke={RELATION_STYLES[type].stroke}
+                    strokeWidth={2}
+                    strokeDasharray={RELATION_STYLES[type].dash}
+                  />
+                </svg>
+                {t(`conceptMap.relations.${type}`)}
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <p className="text-xs text-gray-500">{t('conceptMap.hint')}</p>
+        {exportError && <p className="text-sm text-red-600">{exportError}</p>}
+      </div>
+    );
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={t('conceptMap.title', { title })}
+      size="xl"
+      footer={conceptMap && !isGenerating ? (
+        <div className="flex flex-wrap justify-end gap-2">
+          {(Object.keys(EXPORT_LABELS) as ExportFormat[]).map(format => (
+            <Button
+              key={format}
+              variant="outline"
+              size="sm"
+              onClick={() => handleExport(format)}
+              icon={<Download className="w-4 h-4" />}
+            >
+              {t(EXPORT_LABELS[format])}
+            </Button>
+          ))}
+        </div>
+      ) : undefined}
+    >
+      {renderBody()}
+    </Modal>
+  );
+};
+
+export default ConceptMapModal;
@@ -25,6 +25,7 @@ import {
 import Button from './ui/Button'
 import { optimizedHybridStorage } from '../services/optimizedHybridStorage'
 import * as localStorageService from '../utils/storage'
+import { useLanguage } from '../contexts/LanguageContext'
 import { LocalStorageData, LearningSession } from '../types'
 
 interface StorageStats {
@@ -43,6 +44,7 @@ interface CleanupResult {
 }
 
 export default function DataLifecycleManager() {
+  const { locale, t } = useLanguage()
   const [storageStats, setStorageStats] = useState<StorageStats | null>(null)
   const [isLoading, setIsLoading] = useState(true)
   const [isCleaningUp, setIsCleaningUp] = useState(false)
@@ -113,7 +115,7 @@ export default function DataLifecycleManager() {
    * 执行数据清理
    */
   const handleCleanup = async () => {
-    if (!confirm(`确定要清理超过 ${cleanupDays} 天的临时数据吗？此操作不可恢复。`)) {
+    if (!confirm(t('dataLifecycle.confirmCleanup', { days: cleanupDays }))) {
       return
     }
     
@@ -162,7 +164,7 @@ export default function DataLifecycleManager() {
       
     } catch (error) {
       console.error('导出数据失败:', error)
-      alert('导出失败，请重试')
+      alert(t('dataLifecycle.exportFailed'))
     }
   }
 
@@ -213,11 +215,11 @@ export default function DataLifecycleManager() {
         try {
           parsed = JSON.parse(text)
         } catch (err) {
-          alert('选择的文件不是有效的JSON')
+          alert(t('dataLifecycle.invalidJson'))
           return
         }
 
-        const isOverwrite = confirm('是否以“覆盖模式”导入？\n确定：覆盖本地全部数据\n取消：进行合并导入（去重）')
+        const isOverwrite = confirm(t('dataLifecycle.confirmOverwrite'))
 
         let ok = false
         if (isOverwrite) {
@@ -229,7 +231,7 @@ export default function DataLifecycleManager() {
             ok = localStorageService.importData(JSON.stringify(merged))
           } catch (err) {
             console.error('合并导入失败:', err)
-            alert('合并导入失败，请重试或改用覆盖导入')
+            alert(t('dataLifecycle.mergeFailed'))
             return
           }
         }
@@ -237,7 +239,7 @@ export default function DataLifecycleManager() {
         if (ok) {
           // 无论覆盖或合并，导入成功后都清空墓碑，允许已删除记录恢复
           try { localStorage.removeItem('ai-learning-platform-deleted-ids') } catch {}
-          alert(isOverwrite ? '导入成功（覆盖）' : '导入成功（合并）')
+          alert(isOverwrite ? t('dataLifecycle.importedOverwrite') : t('dataLifecycle.importedMerge'))
           // 导入成功后，触发全局事件，通知仪表板和其他组件刷新列表（无需手动刷新）
           try {
             window.dispatchEvent(new CustomEvent('storageImported'))
@@ -246,14 +248,14 @@ export default function DataLifecycleManager() {
           // 触发UI刷新
           try { window.dispatchEvent(new CustomEvent('storageImported')) } catch {}
         } else {
-          alert('导入失败，请确认文件内容与格式')
+          alert(t('dataLifecycle.importInvalid'))
         }
       }
 
       input.click()
     } catch (error) {
       console.error('导入数据失败:', error)
-      alert('导入失败，请重试')
+      alert(t('dataLifecycle.importFailed'))
     }
   }
   
@@ -274,7 +276,7 @@ export default function DataLifecycleManager() {
       <div className="bg-white rounded-lg shadow-sm border p-6">
         <div className="flex items-center space-x-3">
           <HardDrive className="w-5 h-5 text-blue-500 animate-pulse" />
-          <span className="text-gray-600">加载存储统计...</span>
+          <span className="text-gray-600">{t('dataLifecycle.loading')}</span>
         </div>
       </div>
     )
@@ -285,7 +287,7 @@ export default function DataLifecycleManager() {
       <div className="bg-red-50 rounded-lg border border-red-200 p-6">
         <div className="flex items-center space-x-3">
           <AlertTriangle className="w-5 h-5 text-red-500" />
-          <span className="text-red-700">无法加载存储统计数据</span>
+          <span className="text-red-700">{t('dataLifecycle.loadFailed')}</span>
         </div>
       </div>
     )
@@ -298,7 +300,7 @@ export default function DataLifecycleManager() {
         <div className="flex items-center justify-between">
           <div className="flex items-center space-x-3">
             <HardDrive className="w-5 h-5 text-blue-500" />
-            <h3 className="font-medium text-gray-900">数据生命周期管理</h3>
+            <h3 className="font-medium text-gray-900">{t('dataLifecycle.title')}</h3>
           </div>
           <div className={`text-sm font-medium ${getStorageStatusColor()}`}>
             {storageStats.totalSize}
@@ -311,29 +313,29 @@ export default function DataLifecycleManager() {
         <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
           <div className="flex items-center space-x-2">
             <FileText className="w-4 h-4 text-blue-500" />
-            <span className="text-gray-600">学习会话:</span>
+            <span className="text-gray-600">{t('dataLifecycle.sessions')}</span>
             <span className="font-medium">{storageStats.totalSessions}</span>
           </div>
           
           <div className="flex items-center space-x-2">
             <Bookmark className="w-4 h-4 text-green-500" />
-            <span className="text-gray-600">收藏卡片:</span>
+            <span className="text-gray-600">{t('dataLifecycle.cards')}</span>
             <span className="font-medium">{storageStats.totalCards}</span>
           </div>
           
           <div className="flex items-center space-x-2">
             <Trash2 className="w-4 h-4 text-yellow-500" />
-            <span className="text-gray-600">临时数据:</span>
+            <span className="text-gray-600">{t('dataLifecycle.temporary')}</span>
             <span className="font-medium">{storageStats.temporarySessions}</span>
           </div>
           
           <div className="flex items-center space-x-2">
             <Clock className="w-4 h-4 text-purple-500" />
-            <span className="text-gray-600">使用时长:</span>
+            <span className="text-gray-600">{t('dataLifecycle.usageDuration')}</span>
             <span className="font-medium">
               {storageStats.oldestSession 
-                ? Math.ceil((Date.now() - storageStats.oldestSession.getTime()) / (24 * 60 * 60 * 1000)) + '天'
-                : '新用户'
+                ? t('dataLifecycle.days', { count: Math.ceil((Date.now() - storageStats.oldestSession.getTime()) / (24 * 60 * 60 * 1000)) })
+                : t('dataLifecycle.newUser')
               }
             </span>
           </div>
@@ -342,12 +344,12 @@ export default function DataLifecycleManager() {
       
       {/* 数据清理区域 */}
       <div className="p-4">
-        <h4 className="font-medium text-gray-900 mb-3">数据清理</h4>
+        <h4 className="font-medium text-gray-900 mb-3">{t('dataLifecycle.cleanupTitle')}</h4>
         
         {/* 清理配置 */}
         <div className="mb-4 p-3 bg-yellow-50 rounded-lg border border-yellow-200">
           <div className="flex items-center justify-between mb-2">
-            <span className="text-sm text-yellow-800">清理超过</span>
+            <span className="text-sm text-yellow-800">{t('dataLifecycle.cleanupBefore')}</span>
             <div className="flex items-center space-x-2">
               <input
                 type="number"
@@ -357,12 +359,12 @@ export default function DataLifecycleManager() {
                 max="365"
                 className="w-16 px-2 py-1 text-sm border border-yellow-300 rounded text-center"
               />
-              <span className="text-sm text-yellow-800">天的临时数据</span>
+              <span className="text-sm text-yellow-800">{t('dataLifecycle.cleanupAfter')}</span>
             </div>
           </div>
           
           <p className="text-xs text-yellow-700">
-            临时数据指：无收藏内容且长时间未更新的学习会话
+            {t('dataLifecycle.temporaryHint')}
           </p>
         </div>
         
@@ -376,7 +378,7 @@ export default function DataLifecycleManager() {
           >
             <Trash2 className="w-4 h-4" />
             <span>
-              {isCleaningUp ? '清理中...' : `清理数据 (${storageStats.temporarySessions})`}
+              {isCleaningUp ? t('dataLifecycle.cleaning') : t('dataLifecycle.cleanup', { count: storageStats.temporarySessions })}
             </span>
           </Button>
           
@@ -386,7 +388,7 @@ export default function DataLifecycleManager() {
             className="flex items-center justify-center space-x-2"
           >
             <Download className="w-4 h-4" />
-            <span>导出备份</span>
+            <span>{t('dataLifecycle.export')}</span>
           </Button>
 
           <Button
@@ -395,7 +397,7 @@ export default function DataLifecycleManager() {
             className="flex items-center justify-center space-x-2"
           >
             <Upload className="w-4 h-4" />
-            <span>导入备份</span>
+            <span>{t('dataLifecycle.import')}</span>
           </Button>
         </div>
       </div>
@@ -413,18 +415,18 @@ export default function DataLifecycleManager() {
                 <AlertTriangle className="w-4 h-4" />
               )}
               <span className="font-medium">
-                {cleanupResult.success ? '清理完成' : '清理失败'}
+                {cleanupResult.success ? t('dataLifecycle.cleanupDone') : t('dataLifecycle.cleanupFailed')}
               </span>
             </div>
             
             <div className="text-sm">
               {cleanupResult.success ? (
                 <div>
-                  成功清理了 {cleanupResult.cleanedCount} 个临时会话
-                  {cleanupResult.cleanedCount > 0 && '，释放了存储空间'}
+                  {t('dataLifecycle.cleanedCount', { count: cleanupResult.cleanedCount })}
+                  {cleanupResult.cleanedCount > 0 && t('dataLifecycle.spaceFreed')}
                 </div>
               ) : (
-                <div>清理失败: {cleanupResult.error}</div>
+                <div>{t('dataLifecycle.cleanupError', { error: cleanupResult.error })}</div>
               )}
             </div>
           </div>
@@ -434,12 +436,12 @@ export default function DataLifecycleManager() {
       {/* 数据时间线 */}
       {storageStats.oldestSession && storageStats.newestSession && (
         <div className="border-t border-gray-100 p-4 bg-gray-50">
-          <h5 className="text-sm font-medium text-gray-700 mb-2">数据时间线</h5>
+          <h5 className="text-sm font-medium text-gray-700 mb-2">{t('dataLifecycle.timeline')}</h5>
           <div className="text-xs text-gray-600 space-y-1">
-            <div>最早数据: {storageStats.oldestSession.toLocaleDateString()}</div>
-            <div>最新数据: {storageStats.newestSession.toLocaleDateString()}</div>
+            <div>{t('dataLifecycle.oldest', { date: storageStats.oldestSession.toLocaleDateString(locale) })}</div>
+            <div>{t('dataLifecycle.newest', { date: storageStats.newestSession.toLocaleDateString(locale) })}</div>
             <div>
-              活跃期间: {Math.ceil((storageStats.newestSession.getTime() - storageStats.oldestSession.getTime()) / (24 * 60 * 60 * 1000))} 天
+              {t('dataLifecycle.activeDays', { count: Math.ceil((storageStats.newestSession.getTime() - storageStats.oldestSession.getTime()) / (24 * 60 * 60 * 1000)) })}
             </div>
           </div>
         </div>
@@ -9,6 +9,7 @@ import React from 'react';
 import { DocumentSplit } from '../types';
 import Modal from './ui/Modal';
 import Button from './ui/Button';
+import { useLanguage } from '../contexts/LanguageContext';
 
 interface DocumentSplitConfirmModalProps {
   /** 是否显示对话框 */
@@ -45,39 +46,41 @@ const DocumentSplitConfirmModal: React.FC<DocumentSplitConfirmModalProps> = ({
   onCancel,
   onClose,
 }) => {
+  const { locale, t } = useLanguage();
+
   return (
     <Modal isOpen={isOpen} onClose={onClose} size="lg">
       <div className="p-6">
         {/* 标题 */}
         <div className="mb-6">
           <h2 className="text-2xl font-bold text-gray-900 dark:text-gray-100 mb-2">
-            📄 文档过长，建议拆分学习
+            {t('documentSplit.confirmTitle')}
           </h2>
           <p className="text-gray-600 dark:text-gray-400">
-            您上传的文档内容较多，为了更好的学习体验，建议拆分成多个部分进行学习。
+            {t('documentSplit.confirmIntro')}
           </p>
         </div>
 
         {/* 文档信息 */}
         <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg p-4 mb-6">
           <h3 className="font-semibold text-blue-900 dark:text-blue-100 mb-2">
-            📊 文档信息
+            {t('documentSplit.documentInfo')}
           </h3>
           <div className="space-y-1 text-sm">
             <div>
-              <span className="text-blue-700 dark:text-blue-300">原始文档：</span>
+              <span className="text-blue-700 dark:text-blue-300">{t('documentSplit.originalDocument')}</span>
               <span className="ml-2 text-gray-900 dark:text-gray-100">{originalTitle}</span>
             </div>
             <div>
-              <span className="text-blue-700 dark:text-blue-300">文档长度：</span>
+              <span className="text-blue-700 dark:text-blue-300">{t('documentSplit.documentLength')}</span>
               <span className="ml-2 text-gray-900 dark:text-gray-100">
-                {originalWordCount.toLocaleString()} 字
+                {t('common.wordCount', { count: originalWordCount.toLocaleString(locale) })}
               </span>
             </div>
             <div>
-              <span className="text-blue-700 dark:text-blue-300">建议拆分：</span>
+              <span className="text-blue-700 dark:text-blue-300">{t('documentSplit.suggestedSplit')}</span>
               <span className="ml-2 text-gray-900 dark:text-gray-100">
-                {splitDocuments.length} 个部分
+                {t('documentSplit.partCount', { count: splitDocuments.length })}
               </span>
             </div>
           </div>
@@ -86,7 +89,7 @@ const DocumentSplitConfirmModal: React.FC<DocumentSplitConfirmModalProps> = ({
         {/* 拆分预览 */}
         <div className="mb-6">
           <h3 className="font-semibold text-gray-900 dark:text-gray-100 mb-3">
-            📋 拆分预览
+            {t('documentSplit.preview')}
           </h3>
           <div className="space-y-2 max-h-60 overflow-y-auto">
             {splitDocuments.map((split, index) => (
@@ -99,11 +102,11 @@ const DocumentSplitConfirmModal: React.FC<DocumentSplitConfirmModalProps> = ({
                     {split.title}
                   </div>
                   <div className="text-sm text-gray-500 dark:text-gray-400">
-                    约 {split.wordCount.toLocaleString()} 字
+                    {t('documentSplit.approxWords', { count: split.wordCount.toLocaleString(locale) })}
                   </div>
                 </div>
                 <div className="ml-4 text-xs text-gray-400 dark:text-gray-500">
-                  第 {index + 1} 部分
+                  {t('documentSplit.partNumber', { number: index + 1 })}
                 </div>
               </div>
             ))}
@@ -113,13 +116,13 @@ const DocumentSplitConfirmModal: React.FC<DocumentSplitConfirmModalProps> = ({
         {/* 拆分优势说明 */}
         <div className="bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg p-4 mb-6">
           <h3 className="font-semibold text-green-900 dark:text-green-100 mb-2">
-            ✨ 拆分学习的优势
+            {t('documentSplit.benefitsTitle')}
           </h3>
           <ul className="text-sm text-green-700 dark:text-green-300 space-y-1">
-            <li>• 每个部分内容适中，学习更有针对性</li>
-            <li>• 可以根据自己的时间安排，灵活选择学习顺序</li>
-            <li>• 更好的学习进度控制和成就感</li>
-            <li>• 避免因内容过多而产生学习压力</li>
+            <li>• {t('documentSplit.benefits.focused')}</li>
+            <li>• {t('documentSplit.benefits.flexible')}</li>
+            <li>• {t('documentSplit.benefits.progress')}</li>
+            <li>• {t('documentSplit.benefits.pressure')}</li>
           </ul>
         </div>
 
@@ -130,20 +133,20 @@ const DocumentSplitConfirmModal: React.FC<DocumentSplitConfirmModalProps> = ({
             variant="secondary"
             className="px-6 py-2"
           >
-            继续整篇学习
+            {t('documentSplit.learnWhole')}
           </Button>
           <Button
             onClick={onConfirm}
             variant="primary"
             className="px-6 py-2"
           >
-            确认拆分学习
+            {t('documentSplit.confirmSplit')}
           </Button>
         </div>
 
         {/* 提示说明 */}
         <div className="mt-4 text-xs text-gray-500 dark:text-gray-400 text-center">
-          💡 提示：拆分后，您可以自由选择学习顺序和难度级别
+          {t('documentSplit.confirmTip')}
         </div>
       </div>
     </Modal>
@@ -17,6 +17,7 @@ import { parseDocument, validateParseResult } from '../utils/documentParser';
 import { DocumentParseResult, APIConfig, DocumentSplit } from '../types';
 import DocumentSplitConfirmModal from './DocumentSplitConfirmModal';
 import SplitDocumentSelector from './SplitDocumentSelector';
+import { useLanguage } from '../contexts/LanguageContext';
 
 interface DocumentUploaderProps {
   /** 文档上传完成回调 */
@@ -32,6 +33,8 @@ const DocumentUploader: React.FC<DocumentUploaderProps> = ({
   loading = false,
   // apiConfig, // 暂时未使用，保留用于未来功能扩展
 }) => {
+  const { t } = useLanguage();
+
   // 状态管理
   const [uploadMethod, setUploadMethod] = useState<'file' | 'url' | 'text'>('file');
   const [urlInput, setUrlInput] = useState('');
@@ -82,13 +85,13 @@ const DocumentUploader: React.FC<DocumentUploaderProps> = ({
 
   // 文件类型对应的友好名称
   const fileTypeNames = {
-    '.pdf': 'PDF文档',
-    '.doc': 'Word文档',
-    '.docx': 'Word文档',
-    '.ppt': 'PowerPoint演示文稿',
-    '.pptx': 'PowerPoint演示文稿',
-    '.md': 'Markdown文档',
-    '.txt': '文本文件'
+    '.pdf': t('uploader.fileTypes.pdf'),
+    '.doc': t('uploader.fileTypes.word'),
+    '.docx': t('uploader.fileTypes.word'),
+    '.ppt': t('uploader.fileTypes.powerpoint'),
+    '.pptx': t('uploader.fileTypes.powerpoint'),
+    '.md': t('uploader.fileTypes.markdown'),
+    '.txt': t('uploader.fileTypes.text')
   };
 
   /**
@@ -112,7 +115,7 @@ const DocumentUploader: React.FC<DocumentUploaderProps> = ({
     const mimeTypeValid = supportedMimeTypes.includes(file.type);
     const extensionValid = supportedFileTypes.includes(fileExtension);
     
-    const detectedType = fileTypeNames[fileExtension as keyof typeof fileTypeNames] || '未知类型';
+    const detectedType = fileTypeNames[fileExtension as keyof typeof fileTypeNames] || t('uploader.fileTypes.unknown');
     
     return {
       valid: mimeTypeValid || extensionValid,
@@ -133,7 +136,7 @@ const DocumentUploader: React.FC<DocumentUploaderProps> = ({
     if (!validation.valid) {
       updateProcessingStatus(
         false, 
-        `不支持的文件类型（检测到：${validation.detectedType}）\n\n💡 支持的文件格式：\n• PDF文档 (.pdf)\n• Word文档 (.doc, .docx)\n• PowerPoint演示文稿 (.ppt, .pptx)\n• Markdown文档 (.md)\n• 文本文件 (.txt)\n\n建议：如果是其他格式，可以复制内容后使用"文本粘贴"功能`, 
+        t('uploader.unsupportedType', { type: validation.detectedType }), 
         'error'
       );
       return;
@@ -145,7 +148,7 @@ const DocumentUploader: React.FC<DocumentUploaderProps> = ({
       const fileSizeMB = (file.size / (1024 * 1024)).toFixed(1);
       updateProcessingStatus(
         false, 
-        `文件过大（${fileSizeMB}MB，限制20MB）\n\n💡 建议解决方案：\n1. 压缩PDF文件大小\n2. 将大文档分页导出为多个小文件\n3. 或复制文档内容，使用"文本粘贴"功能`, 
+        t('uploader.fileTooLarge', { size: fileSizeMB }), 
         'error'
       );
       return;
@@ -154,7 +157,7 @@ const DocumentUploader: React.FC<DocumentUploaderProps> = ({
     // 保存上传数据用于重试
     setLastUploadData({ type: 'file', data: file });
     
-    updateProcessingStatus(true, '正在准备解析文件...', 'info', 0);
+    updateProcessingStatus(true, t('uploader.preparingFile'), 'info', 0);
     
     try {
       // 定义进度回调函数
@@ -165,7 +168,7 @@ const DocumentUploader: React.FC<DocumentUploaderProps> = ({
       const result = await parseDocument(file, undefined, progressCallback);
       
       if (validateParseResult(result)) {
-        updateProcessingStatus(false, '文件解析成功！', 'success', 100);
+        updateProcessingStatus(false, t('uploader.fileParsed'), 'success', 100);
         
         // 检查是否需要拆分
         if (result.requiresSplit && result.splitDocuments && result.splitDocuments.length > 1) {
@@ -177,13 +180,13 @@ const DocumentUploader: React.FC<DocumentUploaderProps> = ({
       } else {
         updateProcessingStatus(
           false, 
-          '文件解析失败\n\n💡 可能的原因：\n• 文件格式不完整或损坏\n• 文件内容过少（少于100字符）\n• 网络连接问题\n\n建议：尝试其他文件或使用"文本粘贴"功能', 
+          t('uploader.fileParseFailed'), 
           'error', 
           0
         );
       }
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : '未知错误';
+      const errorMessage = error instanceof Error ? error.message : t('common.unknownError');
       
       // 检查是否是网络相关错误
       const isNetworkError = errorMessage.toLowerCase().includes('network') || 
@@ -191,8 +194,8 @@ const DocumentUploader: React.FC<DocumentUploaderProps> = ({
                            errorMessage.toLowerCase().includes('connection');
       
       const finalMessage = isNetworkError 
-        ? `网络连接问题导致处理失败\n\n💡 建议解决方案：\n1. 点击重试按钮\n2. 检查网络连接\n3. 或使用"文本粘贴"功能\n\n详细错误：${errorMessage}`
-        : `文件处理失败: ${errorMessage}\n\n💡 建议解决方案：\n1. 点击重试按钮\n2. 检查文件完整性\n3. 或使用"文本粘贴"功能`;
+        ? t('uploader.networkFailed', { error: errorMessage })
+        : t('uploader.fileFailed', { error: errorMessage });
         
       updateProcessingStatus(false, finalMessage, 'error', 0, true);
     }
@@ -205,7 +208,7 @@ const DocumentUploader: React.FC<DocumentUploaderProps> = ({
     const url = urlInput.trim();
     
     if (!url) {
-      updateProcessingStatus(false, '请输入有效的URL', 'error');
+      updateProcessingStatus(false, t('uploader.urlRequired'), 'error');
       return;
     }
 
@@ -213,30 +216,30 @@ const DocumentUploader: React.FC<DocumentUploaderProps> = ({
     try {
       new URL(url);
     } catch {
-      updateProcessingStatus(false, '请输入有效的URL格式', 'error');
+      updateProcessingStatus(false, t('uploader.urlInvalid'), 'error');
       return;
     }
 
     // 保存上传数据用于重试
     setLastUploadData({ type: 'url', data: url });
     
-    updateProcessingStatus(true, '正在解析URL...', 'info');
+    updateProcessingStatus(true, t('uploader.parsingUrl'), 'info');
     
     try {
       const result = await parseDocument(url);
       
       if (validateParseResult(result)) {
-        updateProcessingStatus(false, 'URL解析成功！', 'success');
+        updateProcessingStatus(false, t('uploader.urlParsed'), 'success');
         onUploadComplete(result);
       } else {
-        updateProcessingStatus(false, 'URL解析失败，请检查链接是否有效', 'error');
+        updateProcessingStatus(false, t('uploader.urlParseFailed'), 'error');
       }
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : '未知错误';
+      const errorMessage = error instanceof Error ? error.message : t('common.unknownError');
       
       updateProcessingStatus(
         false, 
-        `URL解析失败: ${errorMessage}\n\n💡 常见问题及解决方案：\n• CORS限制：许多网站禁止跨域访问\n• 网络连接：检查网络连接是否正常\n• 页面保护：某些网站有反爬虫保护\n\n建议：点击重试或复制网页内容后使用"文本粘贴"功能`, 
+        t('uploader.urlFailed', { error: errorMessage }), 
         'error',
         undefined,
         true
@@ -251,32 +254,32 @@ const DocumentUploader: React.FC<DocumentUploaderProps> = ({
     const text = textInput.trim();
     
     if (!text) {
-      updateProcessingStatus(false, '请输入文本内容', 'error');
+      updateProcessingStatus(false, t('uploader.textRequired'), 'error');
       return;
     }
 
     if (text.length < 100) {
-      updateProcessingStatus(false, '文本内容太少，请输入至少100个字符的内容', 'error');
+      updateProcessingStatus(false, t('uploader.textTooShort'), 'error');
       return;
     }
 
     // 保存上传数据用于重试
     setLastUploadData({ type: 'text', data: text });
     
-    updateProcessingStatus(true, '正在解析文本...', 'info');
+    updateProcessingStatus(true, t('uploader.parsingText'), 'info');
     
     try {
       // 首先进行基础解析
       const result = await parseDocument(text);
       
       if (!validateParseResult(result)) {
-        updateProcessingStatus(false, '文本解析失败，请检查内容格式', 'error');
+        updateProcessingStatus(false, t('uploader.textParseFailed'), 'error');
         return;
       }
 
       // 注意：标题生成现在集成在大纲生成阶段进行，这里不再单独调用AI
       
-      updateProcessingStatus(false, '文本解析成功！', 'success');
+      updateProcessingStatus(false, t('uploader.textParsed'), 'success');
       
       // 检查是否需要拆分
       if (result.requiresSplit && result.splitDocuments && result.splitDocuments.length > 1) {
@@ -289,7 +292,7 @@ const DocumentUploader: React.FC<DocumentUploaderProps> = ({
     } catch (error) {
       updateProcessingStatus(
         false, 
-        `文本处理失败: ${error instanceof Error ? error.message : '未知错误'}`, 
+        t('uploader.textFailed', { error: error instanceof Error ? error.message : t('common.unknownError') }), 
         'error'
       );
     }
@@ -463,7 +466,7 @@ const DocumentUploader: React.FC<DocumentUploaderProps> = ({
           disabled={isProcessing}
           className="flex-1"
         >
-          文件上传
+          {t('uploader.methods.file')}
         </Button>
         <Button
           variant={uploadMethod === 'url' ? 'primary' : 'ghost'}
@@ -472,7 +475,7 @@ const DocumentUploader: React.FC<DocumentUploaderProps> = ({
           disabled={isProcessing}
           className="flex-1"
         >
-          URL链接
+          {t('uploader.methods.url')}
         </Button>
         <Button
           variant={uploadMethod === 'text' ? 'primary' : 'ghost'}
@@ -481,7 +484,7 @@ const DocumentUploader: React.FC<DocumentUploaderProps> = ({
           disabled={isProcessing}
           className="flex-1"
         >
-          文本粘贴
+          {t('uploader.methods.text')}
         </Button>
       </div>
 
@@ -510,15 +513,15 @@ const DocumentUploader: React.FC<DocumentUploaderProps> = ({
             
             <div>
               <h3 className="text-lg font-medium text-gray-900 mb-2">
-                {isDragOver ? '松开鼠标上传文件' : '上传学习文档'}
+                {isDragOver ? t('uploader.dropToUpload') : t('uploader.uploadTitle')}
               </h3>
               <p className="text-gray-600 mb-4">
-                拖拽文件到此处，或点击选择文件
+                {t('uploader.dragHint')}
               </p>
               
               <div className="text-sm text-gray-500">
-                <p>支持格式：PDF、Word、PowerPoint、Markdown、文本文件</p>
-                <p>文件大小限制：20MB以内</p>
+                <p>{t('uploader.supportedFormats')}</p>
+                <p>{t('uploader.sizeLimit')}</p>
               </div>
             </div>
 
@@ -528,7 +531,7 @@ const DocumentUploader: React.FC<DocumentUploaderProps> = ({
               disabled={isProcessing}
               icon={<FileText className="w-4 h-4" />}
             >
-              选择文件
+              {t('uploader.chooseFile')}
             </Button>
           </div>
 
@@ -552,16 +555,16 @@ const DocumentUploader: React.FC<DocumentUploaderProps> = ({
             
             <div className="text-center">
               <h3 className="text-lg font-medium text-gray-900 mb-2">
-                通过URL链接学习
+                {t('uploader.urlTitle')}
               </h3>
               <p className="text-gray-600 mb-4">
-                输入网页或在线文档的URL地址
+                {t('uploader.urlDescription')}
               </p>
             </div>
 
             <div className="space-y-4">
               <Input
-                placeholder="https://example.com/article 或 https://docs.google.com/document/..."
+                placeholder={t('uploader.urlPlaceholder')}
                 value={urlInput}
                 onChange={(e) => setUrlInput(e.target.value)}
                 disabled={isProcessing}
@@ -569,12 +572,12 @@ const DocumentUploader: React.FC<DocumentUploaderProps> = ({
               />
               
               <div className="text-xs text-gray-500 bg-yellow-50 p-2 rounded">
-                <p><strong>💡 使用提示：</strong></p>
+                <p><strong>{t('uploader.urlTipsTitle')}</strong></p>
                 <ul className="mt-1 space-y-1 text-xs">
-                  <li>• 支持大部分公开网页（博客、新闻、文档等）</li>
-                  <li>• 微信公众号文章可能需要手动复制</li>
-                  <li>• 如果解析失败，请使用"文本粘贴"功能</li>
-                  <li>• 示例：https://example.com/article</li>
+                  <li>• {t('uploader.urlTips.public')}</li>
+                  <li>• {t('uploader.urlTips.wechat')}</li>
+                  <li>• {t('uploader.urlTips.fallback')}</li>
+                  <li>• {t('uploader.urlTips.example')}</li>
                 </ul>
               </div>
               
@@ -586,7 +589,7 @@ const DocumentUploader: React.FC<DocumentUploaderProps> = ({
                 loading={isProcessing}
                 className="w-full"
               >
-                开始解析
+                {t('uploader.startParsing')}
               </Button>
             </div>
           </div>
@@ -601,17 +604,17 @@ const DocumentUploader: React.FC<DocumentUploaderProps> = ({
             
             <div className="text-center">
               <h3 className="text-lg font-medium text-gray-900 mb-2">
-                粘贴文本内容
+                {t('uploader.textTitle')}
               </h3>
               <p className="text-gray-600 mb-4">
-                直接粘贴您想要学习的文本内容
+                {t('uploader.textDescription')}
               </p>
             </div>
 
             <div className="space-y-4">
               <div>
                 <textarea
-                  placeholder="请粘贴您的文本内容..."
+                  placeholder={t('uploader.textPlaceholder')}
                   value={textInput}
                   onChange={(e) => setTextInput(e.target.value)}
                   disabled={isProcessing}
@@ -624,12 +627,12 @@ const DocumentUploader: React.FC<DocumentUploaderProps> = ({
                   "
                 />
                 <div className="mt-2 text-xs text-gray-500">
-                  已输入 {textInput.length} 个字符（建议至少100个字符）
+                  {t('uploader.charCount', { count: textInput.length })}
                 </div>
               </div>
               
               <div className="text-xs text-gray-500 bg-blue-50 p-2 rounded">
-                <p>💡 提示：您可以从网页、文档或任何地方复制文本内容，然后粘贴到这里进行学习。</p>
+                <p>{t('uploader.textTip')}</p>
               </div>
               
               <Button
@@ -640,7 +643,7 @@ const DocumentUploader: React.FC<DocumentUploaderProps> = ({
                 loading={isProcessing}
                 className="w-full"
               >
-                开始解析
+                {t('uploader.startParsing')}
               </Button>
             </div>
           </div>
@@ -690,7 +693,7 @@ const DocumentUploader: React.FC<DocumentUploaderProps> = ({
             {processingStatus.isProcessing && typeof processingStatus.progress === 'number' && (
               <div className="space-y-2">
                 <div className="flex justify-between items-center text-xs">
-                  <span className="text-gray-600">解析进度</span>
+                  <span className="text-gray-600">{t('uploader.progress')}</span>
                   <span className="text-gray-900 font-medium">{processingStatus.progress}%</span>
                 </div>
                 <div className="w-full bg-gray-200 rounded-full h-2">
@@ -711,7 +714,7 @@ const DocumentUploader: React.FC<DocumentUploaderProps> = ({
                   onClick={handleRetry}
                   className="text-xs"
                 >
-                  🔄 重试
+                  {t('uploader.retry')}
                 </Button>
               </div>
             )}
@@ -723,7 +726,7 @@ const DocumentUploader: React.FC<DocumentUploaderProps> = ({
       {showSplitConfirm && currentParseResult && currentParseResult.splitDocuments && (
         <DocumentSplitConfirmModal
           isOpen={showSplitConfirm}
-          originalTitle={currentParseResult.title || '文档'}
+          originalTitle={currentParseResult.title || t('uploader.defaultTitle')}
           originalWordCount={currentParseResult.content.length}
           splitDocuments={currentParseResult.splitDocuments}
           onConfirm={handleConfirmSplit}
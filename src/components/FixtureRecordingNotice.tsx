@@ -0,0 +1,50 @@
+/**
+ * 录制失败提示组件
+ *
+ * 录制模式下AI回复没能保存时（单次请求超出录制空间上限，或浏览器存储空间已满），
+ * 在页面底部提示学习者，可以在「AI服务配置」中导出并清空录制内容后继续录制
+ */
+
+import React, { useEffect, useState } from 'react';
+import { AlertCircle, X } from 'lucide-react';
+import { useLanguage } from '../contexts/LanguageContext';
+import { FIXTURE_RECORDING_FAILED_EVENT, FixtureRecordingFailure } from '../utils/aiFixtures';
+
+const FixtureRecordingNotice: React.FC = () => {
+  const { t } = useLanguage();
+  const [failure, setFailure] = useState<FixtureRecordingFailure | null>(null);
+
+  useEffect(() => {
+    const onFailed = (event: Event) => {
+      setFailure((event as CustomEvent<{ reason: FixtureRecordingFailure }>).detail.reason);
+    };
+    window.addEventListener(FIXTURE_RECORDING_FAILED_EVENT, onFailed);
+    return () => window.removeEventListener(FIXTURE_RECORDING_FAILED_EVENT, onFailed);
+  }, []);
+
+  if (!failure) return null;
+
+  return (
+    <div
+      role="alert"
+      className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50 flex items-start gap-2 max-w-lg px-4 py-3 text-sm bg-red-50 border border-red-200 text-red-800 rounded-lg shadow-lg"
+    >
+      <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+      <span className="flex-1">
+        {t('apiConfig.recordingFailed', {
+          reason: t(failure === 'tooLarge' ? 'apiConfig.recordingTooLarge' : 'apiConfig.recordingQuotaExceeded'),
+        })}
+      </span>
+      <button
+        type="button"
+        onClick={() => setFailure(null)}
+        className="text-red-600 hover:text-red-800"
+        aria-label={t('common.close')}
+      >
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
+
+export default FixtureRecordingNotice;
@@ -0,0 +1,155 @@
+/**
+ * 术语表面板组件
+ *
+ * 大纲侧边栏中的术语表：
+ * - 搜索术语、其他写法和定义
+ * - 显示依据原文给出的定义和原文片段
+ * - 点击术语出现的小节跳转学习，把术语转换为学习卡片
+ * - 还没有术语表或需要更新时手动生成
+ */
+
+import React, { useMemo, useState } from 'react';
+import { CreditCard, Loader2, RefreshCw, Search } from 'lucide-react';
+import { Glossary, OutlineItem } from '../types';
+import { filterGlossaryTerms } from '../utils/glossary';
+import { useLanguage } from '../contexts/LanguageContext';
+
+interface GlossaryPanelProps {
+  /** 会话的术语表 */
+  glossary?: Glossary;
+  /** 学习大纲（用于显示术语出现的小节） */
+  outline: Array<Pick<OutlineItem, 'id' | 'title'>>;
+  /** 是否正在生成术语表 */
+  isGenerating?: boolean;
+  /** 生成或重新生成术语表 */
+  onGenerate?: () => void;
+  /** 跳转到大纲项 */
+  onSelectItem: (itemId: string) => void;
+  /** 把术语转换为学习卡片 */
+  onCreateCard?: (termId: string) => void;
+}
+
+const GlossaryPanel: React.FC<GlossaryPanelProps> = ({
+  glossary,
+  outline,
+  isGenerating = false,
+  onGenerate,
+  onSelectItem,
+  onCreateCard,
+}) => {
+  const { t } = useLanguage();
+  const [query, setQuery] = useState('');
+
+  const terms = useMemo(() => filterGlossaryTerms(glossary?.terms || [], query), [glossary, query]);
+  const titles = useMemo(() => new Map(outline.map(item => [item.id, item.title])), [outline]);
+
+  const handleRegenerate = () => {
+    if (onGenerate && window.confirm(t('glossary.confirmRegenerate'))) {
+      onGenerate();
+    }
+  };
+
+  if (isGenerating) {
+    return (
+      <div className="py-8 flex flex-col items-center gap-2 text-sm text-gray-500">
+        <Loader2 className="w-5 h-5 animate-spin" />
+        {t('glossary.generating')}
+      </div>
+    );
+  }
+
+  if (!glossary?.terms.length) {
+    return (
+      <div className="py-8 text-center space-y-3">
+        <p className="text-sm text-gray-500">{t('glossary.empty')}</p>
+        {onGenerate && (
+          <button
+            onClick={onGenerate}
+            className="px-3 py-1 text-sm font-medium text-white bg-primary-600 hover:bg-primary-700 rounded"
+          >
+            {t('glossary.generate')}
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <div className="relative flex-1">
+          <Search className="absolute left-2 top-1/2 -translate-y-1/2 w-3.5 h-3.5 text-gray-400" />
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder={t('glossary.searchPlaceholder')}
+            className="w-full pl-7 pr-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-primary-500"
+          />
+        </div>
+        {onGenerate && (
+          <button
+            onClick={handleRegenerate}
+            className="p-1 text-gray-400 hover:text-gray-700"
+            title={t('glossary.regenerate')}
+          >
+            <RefreshCw className="w-3.5 h-3.5" />
+          </button>
+        )}
+      </div>
+
+      {terms.length === 0 && (
+        <p className="text-sm text-gray-500 text-center">{t('glossary.noResults')}</p>
+      )}
+
+      {terms.map(term => (
+        <div key={term.id} className="p-2 bg-gray-50 rounded border border-gray-100">
+          <div className="flex items-start gap-2">
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-semibold text-gray-900">
+                {term.term}
+                {term.aliases?.length ? (
+                  <span className="ml-1 font-normal text-gray-500">({term.aliases.join(', ')})</span>
+                ) : null}
+              </p>
+              <p className="mt-1 text-sm text-gray-700">{term.definition}</p>
+            </div>
+            {onCreateCard && (
+              <button
+                onClick={() => onCreateCard(term.id)}
+                disabled={!!term.cardId}
+                className="flex-shrink-0 flex items-center gap-1 text-xs text-gray-500 hover:text-primary-700 disabled:text-green-600 disabled:cursor-default"
+              >
+                <CreditCard className="w-3.5 h-3.5" />
+                {term.cardId ? t('glossary.cardCreated') : t('glossary.createCard')}
+              </button>
+            )}
+          </div>
+
+          {term.sourceQuote && (
+            <blockquote className="mt-2 pl-2 border-l-2 border-gray-300 text-xs text-gray-500 line-clamp-3">
+              {term.sourceQuote}
+            </blockquote>
+          )}
+
+          {term.outlineItemIds.length > 0 && (
+            <div className="mt-2 flex flex-wrap items-center gap-1 text-xs text-gray-500">
+              <span>{t('glossary.appearsIn')}</span>
+              {term.outlineItemIds.filter(id => titles.has(id)).map(id => (
+                <button
+                  key={id}
+                  onClick={() => onSelectItem(id)}
+                  className="px-1.5 py-0.5 rounded bg-white border border-gray-200 hover:border-primary-500 hover:text-primary-700 truncate max-w-[12rem]"
+                >
+                  {titles.get(id)}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default GlossaryPanel;
@@ -29,7 +29,9 @@ import {
 import Button from './ui/Button';
 import Card from './ui/Card';
 import AuthModal from './AuthModal';
+import LanguageSwitcher from './LanguageSwitcher';
 import { useAuth } from '../contexts/AuthContext';
+import { useLanguage } from '../contexts/LanguageContext';
 
 interface LandingPageProps {
   onGetStarted?: () => void;
@@ -47,6 +49,7 @@ const LandingPage: React.FC<LandingPageProps> = ({
 }) => {
   // 认证状态
   const { user } = useAuth();
+  const { t } = useLanguage();
   
   // 状态管理
   const [showAuthModal, setShowAuthModal] = useState(false);
@@ -109,41 +112,42 @@ const LandingPage: React.FC<LandingPageProps> = ({
                 <Brain className="w-6 h-6 text-white" />
               </div>
               <div>
-                <h1 className="text-xl font-bold text-gray-900">AI学习私教</h1>
-                <p className="text-xs text-gray-500 hidden sm:block">智能文档学习引导平台</p>
+                <h1 className="text-xl font-bold text-gray-900">{t('landing.appName')}</h1>
+                <p className="text-xs text-gray-500 hidden sm:block">{t('landing.tagline')}</p>
               </div>
             </div>
 
             {/* 桌面端导航 */}
             <nav className="hidden lg:flex items-center gap-8">
               <a href="#features" className="text-gray-600 hover:text-gray-900 transition-colors">
-                功能特色
+                {t('landing.navFeatures')}
               </a>
               <a href="#benefits" className="text-gray-600 hover:text-gray-900 transition-colors">
-                核心优势
+                {t('landing.navBenefits')}
               </a>
               <a href="#pricing" className="text-gray-600 hover:text-gray-900 transition-colors">
-                价格方案
+                {t('landing.navPricing')}
               </a>
               <a href="#testimonials" className="text-gray-600 hover:text-gray-900 transition-colors">
-                用户评价
+                {t('landing.navTestimonials')}
               </a>
             </nav>
 
             {/* 操作按钮 */}
             <div className="flex items-center gap-3">
+              <LanguageSwitcher className="hidden sm:inline-flex" />
               {user ? (
                 /* 已登录状态 */
                 <div className="flex items-center gap-3">
                   <span className="text-sm text-gray-600 hidden sm:block">
-                    欢迎，{user.email}
+                    {t('landing.welcome', { email: user.email })}
                   </span>
                   <Button
                     variant="primary"
                     size="sm"
                     onClick={() => window.location.href = '/dashboard'}
                   >
-                    进入应用
+                    {t('landing.enterApp')}
                   </Button>
                 </div>
               ) : (
@@ -155,7 +159,7 @@ const LandingPage: React.FC<LandingPageProps> = ({
                     onClick={handleLoginClick}
                     className="hidden sm:block"
                   >
-                    登录
+                    {t('landing.login')}
                   </Button>
                   
                   <Button
@@ -163,7 +167,7 @@ const LandingPage: React.FC<LandingPageProps> = ({
                     size="sm"
                     onClick={handleGetStartedClick}
                   >
-                    免费使用
+                    {t('landing.getStartedFree')}
                   </Button>
                 </>
               )}
@@ -191,28 +195,28 @@ const LandingPage: React.FC<LandingPageProps> = ({
                   className="text-gray-600 hover:text-gray-900 transition-colors"
                   onClick={() => setShowMobileMenu(false)}
                 >
-                  功能特色
+                  {t('landing.navFeatures')}
                 </a>
                 <a 
                   href="#benefits" 
                   className="text-gray-600 hover:text-gray-900 transition-colors"
                   onClick={() => setShowMobileMenu(false)}
                 >
-                  核心优势
+                  {t('landing.navBenefits')}
                 </a>
                 <a 
                   href="#pricing" 
                   className="text-gray-600 hover:text-gray-900 transition-colors"
                   onClick={() => setShowMobileMenu(false)}
                 >
-                  价格方案
+                  {t('landing.navPricing')}
                 </a>
                 <a 
                   href="#testimonials" 
                   className="text-gray-600 hover:text-gray-900 transition-colors"
                   onClick={() => setShowMobileMenu(false)}
                 >
-                  用户评价
+                  {t('landing.navTestimonials')}
                 </a>
                 {user ? (
                   <Button
@@ -221,7 +225,7 @@ const LandingPage: React.FC<LandingPageProps> = ({
                     onClick={() => window.location.href = '/dashboard'}
                     className="w-full justify-center sm:hidden"
                   >
-                    进入应用
+                    {t('landing.enterApp')}
                   </Button>
                 ) : (
                   <Button
@@ -230,7 +234,7 @@ const LandingPage: React.FC<LandingPageProps> = ({
                     onClick={handleLoginClick}
                     className="w-full justify-center sm:hidden"
                   >
-                    登录
+                    {t('landing.login')}
                   </Button>
                 )}
               </nav>
@@ -244,15 +248,14 @@ const LandingPage: React.FC<LandingPageProps> = ({
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 text-center">
           <div className="max-w-4xl mx-auto">
             <h2 className="text-4xl sm:text-5xl lg:text-6xl font-bold text-gray-900 mb-6 leading-tight">
-              让AI成为您的
+              {t('landing.heroTitle')}
               <span className="text-transparent bg-clip-text bg-gradient-to-r from-primary-600 to-secondary-600">
-                专属学习导师
+                {t('landing.heroHighlight')}
               </span>
             </h2>
             
             <p className="text-xl sm:text-2xl text-gray-600 mb-8 leading-relaxed">
-              上传任何文档，AI会为您生成个性化学习路径，提供互动式教学体验。
-              告别枯燥的自学，开启智能引导的学习新时代。
+              {t('landing.heroSubtitle')}
             </p>
 
             {/* CTA按钮组 */}
@@ -264,7 +267,7 @@ const LandingPage: React.FC<LandingPageProps> = ({
                 icon={<ArrowRight className="w-5 h-5" />}
                 className="w-full sm:w-auto text-lg px-8 py-4"
               >
-                立即开始14天免费试用
+                {t('landing.startTrial')}
               </Button>
               
               <Button
@@ -274,7 +277,7 @@ const LandingPage: React.FC<LandingPageProps> = ({
                 icon={<Play className="w-5 h-5" />}
                 className="w-full sm:w-auto text-lg px-8 py-4"
               >
-                了解更多
+                {t('landing.learnMore')}
               </Button>
             </div>
 
@@ -291,8 +294,8 @@ const LandingPage: React.FC<LandingPageProps> = ({
                 <div className="aspect-video bg-gradient-to-br from-primary-100 to-secondary-100 flex items-center justify-center">
                   <div className="text-center">
                     <Brain className="w-16 h-16 text-primary-600 mx-auto mb-4" />
-                    <p className="text-gray-600 text-lg">产品演示视频</p>
-                    <p className="text-gray-500 text-sm">智能文档学习体验</p>
+                    <p className="text-gray-600 text-lg">{t('landing.demoVideo')}</p>
+                    <p className="text-gray-500 text-sm">{t('landing.demoCaption')}</p>
                   </div>
                 </div>
               </div>
@@ -306,10 +309,10 @@ const LandingPage: React.FC<LandingPageProps> = ({
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
           <div className="text-center mb-16">
             <h3 className="text-3xl sm:text-4xl font-bold text-gray-900 mb-4">
-              为什么选择AI学习私教？
+              {t('landing.benefitsTitle')}
             </h3>
             <p className="text-xl text-gray-600 max-w-3xl mx-auto">
-              我们重新定义了文档学习体验，让每一次学习都变得高效且愉悦
+              {t('landing.benefitsSubtitle')}
             </p>
           </div>
 
@@ -319,10 +322,9 @@ const LandingPage: React.FC<LandingPageProps> = ({
               <div className="w-16 h-16 bg-gradient-to-br from-primary-500 to-primary-600 rounded-2xl flex items-center justify-center mx-auto mb-6">
                 <Brain className="w-8 h-8 text-white" />
               </div>
-              <h4 className="text-xl font-semibold text-gray-900 mb-4">智能引导学习</h4>
+              <h4 className="text-xl font-semibold text-gray-900 mb-4">{t('landing.guidedTitle')}</h4>
               <p className="text-gray-600 leading-relaxed">
-                AI导师采用苏格拉底式对话，不再是简单问答，而是启发式引导，
-                让您在思考中掌握知识，培养批判性思维能力。
+                {t('landing.guidedText')}
               </p>
             </Card>
 
@@ -331,10 +333,9 @@ const LandingPage: React.FC<LandingPageProps> = ({
               <div className="w-16 h-16 bg-gradient-to-br from-secondary-500 to-secondary-600 rounded-2xl flex items-center justify-center mx-auto mb-6">
                 <Users className="w-8 h-8 text-white" />
               </div>
-              <h4 className="text-xl font-semibold text-gray-900 mb-4">双模式教学</h4>
+              <h4 className="text-xl font-semibold text-gray-900 mb-4">{t('landing.modesTitle')}</h4>
               <p className="text-gray-600 leading-relaxed">
-                小白模式温和友善，注重基础建设；高手模式直击核心，探讨深层原理。
-                AI自动调整教学节奏和深度，完美匹配您的学习水平。
+                {t('landing.modesText')}
               </p>
             </Card>
 
@@ -343,10 +344,9 @@ const LandingPage: React.FC<LandingPageProps> = ({
               <div className="w-16 h-16 bg-gradient-to-br from-accent-500 to-accent-600 rounded-2xl flex items-center justify-center mx-auto mb-6">
                 <FileText className="w-8 h-8 text-white" />
               </div>
-              <h4 className="text-xl font-semibold text-gray-900 mb-4">全格式解析</h4>
+              <h4 className="text-xl font-semibold text-gray-900 mb-4">{t('landing.formatsTitle')}</h4>
               <p className="text-gray-600 leading-relaxed">
-                支持PDF、Word、PPT、Markdown等多种格式，还能解析网页内容。
-                无论什么形式的学习资料，都能智能提取并生成学习路径。
+                {t('landing.formatsText')}
               </p>
             </Card>
           </div>
@@ -358,10 +358,10 @@ const LandingPage: React.FC<LandingPageProps> = ({
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
           <div className="text-center mb-16">
             <h3 className="text-3xl sm:text-4xl font-bold text-gray-900 mb-4">
-              功能特色一览
+              {t('landing.featuresTitle')}
             </h3>
             <p className="text-xl text-gray-600 max-w-3xl mx-auto">
-              从文档上传到知识沉淀，完整的学习闭环体验
+              {t('landing.featuresSubtitle')}
             </p>
           </div>
 
@@ -374,11 +374,10 @@ const LandingPage: React.FC<LandingPageProps> = ({
                 </div>
                 <div>
                   <h4 className="text-lg font-semibold text-gray-900 mb-2">
-                    智能大纲生成 + 自由编辑
+                    {t('landing.outlineTitle')}
                   </h4>
                   <p className="text-gray-600">
-                    AI自动分析文档结构，生成逻辑清晰的学习大纲。您可以自由调整章节顺序、
-                    修改标题，完全按照个人喜好定制学习路径。
+                    {t('landing.outlineText')}
                   </p>
                 </div>
               </div>
@@ -389,11 +388,10 @@ const LandingPage: React.FC<LandingPageProps> = ({
                 </div>
                 <div>
                   <h4 className="text-lg font-semibold text-gray-900 mb-2">
-                    探索式对话学习
+                    {t('landing.exploreTitle')}
                   </h4>
                   <p className="text-gray-600">
-                    采用"教学节点+探索选项"模式，AI讲解完知识点后提供选择按钮，
-                    让您主导学习方向，激发学习兴趣和主动性。
+                    {t('landing.exploreText')}
                   </p>
                 </div>
               </div>
@@ -416,10 +414,10 @@ const LandingPage: React.FC<LandingPageProps> = ({
                     <div className="h-4 bg-primary-200 rounded w-5/6"></div>
                     <div className="flex gap-2 mt-6">
                       <div className="h-8 bg-primary-100 rounded-full px-4 flex items-center text-xs">
-                        深入了解
+                        {t('landing.demoDeepDive')}
                       </div>
                       <div className="h-8 bg-secondary-100 rounded-full px-4 flex items-center text-xs">
-                        查看示例
+                        {t('landing.demoExample')}
                       </div>
                     </div>
                   </div>
@@ -433,14 +431,14 @@ const LandingPage: React.FC<LandingPageProps> = ({
             <div className="order-2 lg:order-1 relative">
               <div className="bg-white rounded-2xl shadow-xl border border-gray-200 overflow-hidden">
                 <div className="bg-gray-50 px-4 py-3 border-b border-gray-200">
-                  <h5 className="font-medium text-gray-700">知识卡片管理</h5>
+                  <h5 className="font-medium text-gray-700">{t('landing.demoCards')}</h5>
                 </div>
                 <div className="p-6 space-y-4">
                   <Card className="p-4 border-l-4 border-primary-500">
                     <div className="flex items-start justify-between">
                       <div>
-                        <h6 className="font-medium text-gray-900">React Hooks核心概念</h6>
-                        <p className="text-sm text-gray-600 mt-1">使用状态管理的最佳实践...</p>
+                        <h6 className="font-medium text-gray-900">{t('landing.demoCard1Title')}</h6>
+                        <p className="text-sm text-gray-600 mt-1">{t('landing.demoCard1Text')}</p>
                       </div>
                       <Star className="w-4 h-4 text-yellow-500" />
                     </div>
@@ -448,8 +446,8 @@ const LandingPage: React.FC<LandingPageProps> = ({
                   <Card className="p-4 border-l-4 border-secondary-500">
                     <div className="flex items-start justify-between">
                       <div>
-                        <h6 className="font-medium text-gray-900">组件生命周期</h6>
-                        <p className="text-sm text-gray-600 mt-1">理解组件挂载和更新过程...</p>
+                        <h6 className="font-medium text-gray-900">{t('landing.demoCard2Title')}</h6>
+                        <p className="text-sm text-gray-600 mt-1">{t('landing.demoCard2Text')}</p>
                       </div>
                       <Star className="w-4 h-4 text-yellow-500" />
                     </div>
@@ -466,11 +464,10 @@ const LandingPage: React.FC<LandingPageProps> = ({
                 </div>
                 <div>
                   <h4 className="text-lg font-semibold text-gray-900 mb-2">
-                    一键收藏知识卡片
+                    {t('landing.cardsTitle')}
                   </h4>
                   <p className="text-gray-600">
-                    学习过程中遇到重要知识点，一键收藏为灵感💡或重点⭐卡片。
-                    AI自动生成精炼标题，建立个人知识库。
+                    {t('landing.cardsText')}
                   </p>
                 </div>
               </div>
@@ -481,11 +478,10 @@ const LandingPage: React.FC<LandingPageProps> = ({
                 </div>
                 <div>
                   <h4 className="text-lg font-semibold text-gray-900 mb-2">
-                    科学复习 + Anki导出
+                    {t('landing.reviewTitle')}
                   </h4>
                   <p className="text-gray-600">
-                    基于艾宾浩斯遗忘曲线，智能安排复习计划。支持导出到Anki，
-                    与您现有的学习工具无缝衔接。
+                    {t('landing.reviewText')}
                   </p>
                 </div>
               </div>
@@ -499,10 +495,10 @@ const LandingPage: React.FC<LandingPageProps> = ({
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
           <div className="text-center mb-16">
             <h3 className="text-3xl sm:text-4xl font-bold text-gray-900 mb-4">
-              用户怎么说
+              {t('landing.testimonialsTitle')}
             </h3>
             <p className="text-xl text-gray-600">
-              已有数千用户体验了AI私教的学习魅力
+              {t('landing.testimonialsSubtitle')}
             </p>
           </div>
 
@@ -515,16 +511,15 @@ const LandingPage: React.FC<LandingPageProps> = ({
                 ))}
               </div>
               <blockquote className="text-gray-700 mb-6 leading-relaxed">
-                "作为编程新手，我一直觉得技术文档很难懂。用了AI学习私教后，
-                复杂的概念都能用生活化的比喻解释清楚，学习效率提升了至少3倍！"
+                {t('landing.testimonial1')}
               </blockquote>
               <div className="flex items-center gap-3">
                 <div className="w-12 h-12 bg-gradient-to-br from-primary-500 to-primary-600 rounded-full flex items-center justify-center">
-                  <span className="text-white font-medium">张</span>
+                  <span className="text-white font-medium">{t('landing.testimonial1Initial')}</span>
                 </div>
                 <div>
-                  <div className="font-medium text-gray-900">张同学</div>
-                  <div className="text-sm text-gray-500">前端开发新手</div>
+                  <div className="font-medium text-gray-900">{t('landing.testimonial1Name')}</div>
+                  <div className="text-sm text-gray-500">{t('landing.testimonial1Role')}</div>
                 </div>
               </div>
             </Card>
@@ -537,16 +532,15 @@ const LandingPage: React.FC<LandingPageProps> = ({
                 ))}
               </div>
               <blockquote className="text-gray-700 mb-6 leading-relaxed">
-                "高手模式真的很棒！不会浪费时间在基础概念上，直接深入核心原理。
-                AI能够引导我思考架构设计，这种对话式学习让我收获很大。"
+                {t('landing.testimonial2')}
               </blockquote>
               <div className="flex items-center gap-3">
                 <div className="w-12 h-12 bg-gradient-to-br from-secondary-500 to-secondary-600 rounded-full flex items-center justify-center">
-                  <span className="text-white font-medium">李</span>
+                  <span className="text-white font-medium">{t('landing.testimonial2Initial')}</span>
                 </div>
                 <div>
-                  <div className="font-medium text-gray-900">李工程师</div>
-                  <div className="text-sm text-gray-500">资深技术架构师</div>
+                  <div className="font-medium text-gray-900">{t('landing.testimonial2Name')}</div>
+                  <div className="text-sm text-gray-500">{t('landing.testimonial2Role')}</div>
                 </div>
               </div>
             </Card>
@@ -558,10 +552,10 @@ const LandingPage: React.FC<LandingPageProps> = ({
       <section className="py-20 bg-gradient-to-r from-primary-600 to-secondary-600">
         <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 text-center">
           <h3 className="text-3xl sm:text-4xl font-bold text-white mb-6">
-            准备开始您的AI学习之旅了吗？
+            {t('landing.ctaTitle')}
           </h3>
           <p className="text-xl text-primary-100 mb-8">
-            立即体验个性化AI私教服务，让学习变得更高效、更愉悦
+            {t('landing.ctaSubtitle')}
           </p>
           
           <Button
@@ -570,11 +564,11 @@ const LandingPage: React.FC<LandingPageProps> = ({
             onClick={handleGetStartedClick}
             className="bg-white text-primary-600 hover:bg-gray-50 text-lg px-8 py-4"
           >
-            立即开始14天免费试用
+            {t('landing.startTrial')}
           </Button>
           
           <p className="text-primary-200 text-sm mt-4">
-            无需信用卡 · 随时可取消 · 全功能体验
+            {t('landing.ctaNote')}
           </p>
         </div>
       </section>
@@ -584,10 +578,10 @@ const LandingPage: React.FC<LandingPageProps> = ({
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
           <div className="text-center mb-16">
             <h3 className="text-3xl sm:text-4xl font-bold text-gray-900 mb-4">
-              选择适合您的方案
+              {t('landing.pricingTitle')}
             </h3>
             <p className="text-xl text-gray-600">
-              从个人学习到团队协作，总有一款适合您
+              {t('landing.pricingSubtitle')}
             </p>
           </div>
 
@@ -595,31 +589,31 @@ const LandingPage: React.FC<LandingPageProps> = ({
             {/* 基础版 */}
             <Card className="p-8 relative">
               <div className="text-center">
-                <h4 className="text-xl font-semibold text-gray-900 mb-2">基础版</h4>
+                <h4 className="text-xl font-semibold text-gray-900 mb-2">{t('landing.planBasic')}</h4>
                 <div className="mb-6">
-                  <span className="text-4xl font-bold text-gray-900">免费</span>
-                  <span className="text-gray-500">/月</span>
+                  <span className="text-4xl font-bold text-gray-900">{t('landing.free')}</span>
+                  <span className="text-gray-500">{t('landing.perMonth')}</span>
                 </div>
                 <ul className="space-y-3 mb-8 text-left">
                   <li className="flex items-center gap-3">
                     <Check className="w-5 h-5 text-green-500 flex-shrink-0" />
-                    <span className="text-gray-600">每月5个文档解析</span>
+                    <span className="text-gray-600">{t('landing.basic1')}</span>
                   </li>
                   <li className="flex items-center gap-3">
                     <Check className="w-5 h-5 text-green-500 flex-shrink-0" />
-                    <span className="text-gray-600">基础AI对话功能</span>
+                    <span className="text-gray-600">{t('landing.basic2')}</span>
                   </li>
                   <li className="flex items-center gap-3">
                     <Check className="w-5 h-5 text-green-500 flex-shrink-0" />
-                    <span className="text-gray-600">20张知识卡片</span>
+                    <span className="text-gray-600">{t('landing.basic3')}</span>
                   </li>
                   <li className="flex items-center gap-3">
                     <Check className="w-5 h-5 text-green-500 flex-shrink-0" />
-                    <span className="text-gray-600">社区支持</span>
+                    <span className="text-gray-600">{t('landing.basic4')}</span>
                   </li>
                 </ul>
                 <Button variant="outline" className="w-full" onClick={handleGetStartedClick}>
-                  开始使用
+                  {t('landing.startUsing')}
                 </Button>
               </div>
             </Card>
@@ -628,39 +622,39 @@ const LandingPage: React.FC<LandingPageProps> = ({
             <Card className="p-8 relative border-2 border-primary-500">
               <div className="absolute -top-4 left-1/2 transform -translate-x-1/2">
                 <span className="bg-primary-500 text-white px-4 py-1 rounded-full text-sm font-medium">
-                  推荐
+                  {t('landing.recommended')}
                 </span>
               </div>
               <div className="text-center">
-                <h4 className="text-xl font-semibold text-gray-900 mb-2">专业版</h4>
+                <h4 className="text-xl font-semibold text-gray-900 mb-2">{t('landing.planPro')}</h4>
                 <div className="mb-6">
                   <span className="text-4xl font-bold text-gray-900">¥99</span>
-                  <span className="text-gray-500">/月</span>
+                  <span className="text-gray-500">{t('landing.perMonth')}</span>
                 </div>
                 <ul className="space-y-3 mb-8 text-left">
                   <li className="flex items-center gap-3">
                     <Check className="w-5 h-5 text-green-500 flex-shrink-0" />
-                    <span className="text-gray-600">无限文档解析</span>
+                    <span className="text-gray-600">{t('landing.pro1')}</span>
                   </li>
                   <li className="flex items-center gap-3">
                     <Check className="w-5 h-5 text-green-500 flex-shrink-0" />
-                    <span className="text-gray-600">高级AI对话功能</span>
+                    <span className="text-gray-600">{t('landing.pro2')}</span>
                   </li>
                   <li className="flex items-center gap-3">
                     <Check className="w-5 h-5 text-green-500 flex-shrink-0" />
-                    <span className="text-gray-600">无限知识卡片</span>
+                    <span className="text-gray-600">{t('landing.pro3')}</span>
                   </li>
                   <li className="flex items-center gap-3">
                     <Check className="w-5 h-5 text-green-500 flex-shrink-0" />
-                    <span className="text-gray-600">Anki导出功能</span>
+                    <span className="text-gray-600">{t('landing.pro4')}</span>
                   </li>
                   <li className="flex items-center gap-3">
                     <Check className="w-5 h-5 text-green-500 flex-shrink-0" />
-                    <span className="text-gray-600">优先客服支持</span>
+                    <span className="text-gray-600">{t('landing.pro5')}</span>
                   </li>
                 </ul>
                 <Button variant="primary" className="w-full" onClick={handleGetStartedClick}>
-                  立即升级
+                  {t('landing.upgrade')}
                 </Button>
               </div>
             </Card>
@@ -668,35 +662,35 @@ const LandingPage: React.FC<LandingPageProps> = ({
             {/* 企业版 */}
             <Card className="p-8 relative">
               <div className="text-center">
-                <h4 className="text-xl font-semibold text-gray-900 mb-2">企业版</h4>
+                <h4 className="text-xl font-semibold text-gray-900 mb-2">{t('landing.planEnterprise')}</h4>
                 <div className="mb-6">
-                  <span className="text-4xl font-bold text-gray-900">联系</span>
-                  <span className="text-gray-500">销售</span>
+                  <span className="text-4xl font-bold text-gray-900">{t('landing.contact')}</span>
+                  <span className="text-gray-500">{t('landing.sales')}</span>
                 </div>
                 <ul className="space-y-3 mb-8 text-left">
                   <li className="flex items-center gap-3">
                     <Check className="w-5 h-5 text-green-500 flex-shrink-0" />
-                    <span className="text-gray-600">专业版所有功能</span>
+                    <span className="text-gray-600">{t('landing.enterprise1')}</span>
                   </li>
                   <li className="flex items-center gap-3">
                     <Check className="w-5 h-5 text-green-500 flex-shrink-0" />
-                    <span className="text-gray-600">团队协作功能</span>
+                    <span className="text-gray-600">{t('landing.enterprise2')}</span>
                   </li>
                   <li className="flex items-center gap-3">
                     <Check className="w-5 h-5 text-green-500 flex-shrink-0" />
-                    <span className="text-gray-600">数据安全保障</span>
+                    <span className="text-gray-600">{t('landing.enterprise3')}</span>
                   </li>
                   <li className="flex items-center gap-3">
                     <Check className="w-5 h-5 text-green-500 flex-shrink-0" />
-                    <span className="text-gray-600">专属客户经理</span>
+                    <span className="text-gray-600">{t('landing.enterprise4')}</span>
                   </li>
                   <li className="flex items-center gap-3">
                     <Check className="w-5 h-5 text-green-500 flex-shrink-0" />
-                    <span className="text-gray-600">定制化功能开发</span>
+                    <span className="text-gray-600">{t('landing.enterprise5')}</span>
                   </li>
                 </ul>
                 <Button variant="outline" className="w-full">
-                  联系我们
+                  {t('landing.contactUs')}
                 </Button>
               </div>
             </Card>
@@ -715,11 +709,11 @@ const LandingPage: React.FC<LandingPageProps> = ({
                   <Brain className="w-6 h-6 text-white" />
                 </div>
                 <div>
-                  <h1 className="text-xl font-bold">AI学习私教</h1>
+                  <h1 className="text-xl font-bold">{t('landing.appName')}</h1>
                 </div>
               </div>
               <p className="text-gray-400 mb-6 leading-relaxed">
-                让AI成为您的专属学习导师，开启智能引导的学习新时代。
+                {t('landing.footerTagline')}
               </p>
               <div className="flex gap-4">
                 {/* 社交媒体链接占位 */}
@@ -737,34 +731,34 @@ const LandingPage: React.FC<LandingPageProps> = ({
 
             {/* 产品链接 */}
             <div>
-              <h3 className="font-semibold mb-4">产品</h3>
+              <h3 className="font-semibold mb-4">{t('landing.footerProduct')}</h3>
               <ul className="space-y-3">
-                <li><a href="#features" className="text-gray-400 hover:text-white transition-colors">功能特色</a></li>
-                <li><a href="#pricing" className="text-gray-400 hover:text-white transition-colors">价格方案</a></li>
-                <li><a href="#" className="text-gray-400 hover:text-white transition-colors">更新日志</a></li>
-                <li><a href="#" className="text-gray-400 hover:text-white transition-colors">路线图</a></li>
+                <li><a href="#features" className="text-gray-400 hover:text-white transition-colors">{t('landing.navFeatures')}</a></li>
+                <li><a href="#pricing" className="text-gray-400 hover:text-white transition-colors">{t('landing.navPricing')}</a></li>
+                <li><a href="#" className="text-gray-400 hover:text-white transition-colors">{t('landing.changelog')}</a></li>
+                <li><a href="#" className="text-gray-400 hover:text-white transition-colors">{t('landing.roadmap')}</a></li>
               </ul>
             </div>
 
             {/* 支持链接 */}
             <div>
-              <h3 className="font-semibold mb-4">支持</h3>
+              <h3 className="font-semibold mb-4">{t('landing.footerSupport')}</h3>
               <ul className="space-y-3">
-                <li><a href="#" className="text-gray-400 hover:text-white transition-colors">使用指南</a></li>
-                <li><a href="#" className="text-gray-400 hover:text-white transition-colors">常见问题</a></li>
-                <li><a href="#" className="text-gray-400 hover:text-white transition-colors">联系客服</a></li>
-                <li><a href="#" className="text-gray-400 hover:text-white transition-colors">反馈建议</a></li>
+                <li><a href="#" className="text-gray-400 hover:text-white transition-colors">{t('landing.guide')}</a></li>
+                <li><a href="#" className="text-gray-400 hover:text-white transition-colors">{t('landing.faq')}</a></li>
+                <li><a href="#" className="text-gray-400 hover:text-white transition-colors">{t('landing.customerService')}</a></li>
+                <li><a href="#" className="text-gray-400 hover:text-white transition-colors">{t('landing.feedback')}</a></li>
               </ul>
             </div>
 
             {/* 公司信息 */}
             <div>
-              <h3 className="font-semibold mb-4">公司</h3>
+              <h3 className="font-semibold mb-4">{t('landing.footerCompany')}</h3>
               <ul className="space-y-3">
-                <li><a href="#" className="text-gray-400 hover:text-white transition-colors">关于我们</a></li>
-                <li><a href="#" className="text-gray-400 hover:text-white transition-colors">隐私政策</a></li>
-                <li><a href="#" className="text-gray-400 hover:text-white transition-colors">服务条款</a></li>
-                <li><a href="#" className="text-gray-400 hover:text-white transition-colors">加入我们</a></li>
+                <li><a href="#" className="text-gray-400 hover:text-white transition-colors">{t('landing.about')}</a></li>
+                <li><a href="#" className="text-gray-400 hover:text-white transition-colors">{t('landing.privacy')}</a></li>
+                <li><a href="#" className="text-gray-400 hover:text-white transition-colors">{t('landing.terms')}</a></li>
+                <li><a href="#" className="text-gray-400 hover:text-white transition-colors">{t('landing.careers')}</a></li>
               </ul>
             </div>
           </div>
@@ -772,7 +766,7 @@ const LandingPage: React.FC<LandingPageProps> = ({
           {/* 版权信息 */}
           <div className="border-t border-gray-800 mt-12 pt-8 text-center">
             <p className="text-gray-400">
-              © 2024 AI学习私教. 保留所有权利.
+              {t('landing.copyright')}
             </p>
           </div>
         </div>
@@ -0,0 +1,42 @@
+/**
+ * 语言切换组件
+ *
+ * 在页面顶栏切换界面语言，切换后立即生效：
+ * - 界面文字随之切换
+ * - 之后的AI请求（私教对话、大纲生成等）使用对应语言的提示词
+ */
+
+import React from 'react';
+import { Globe } from 'lucide-react';
+import { useLanguage } from '../contexts/LanguageContext';
+import { SUPPORTED_LANGUAGES } from '../utils/i18n';
+import { Language } from '../types';
+
+interface LanguageSwitcherProps {
+  /** 自定义类名 */
+  className?: string;
+}
+
+const LanguageSwitcher: React.FC<LanguageSwitcherProps> = ({ className = '' }) => {
+  const { language, setLanguage, t } = useLanguage();
+
+  return (
+    <label className={`inline-flex items-center gap-1 text-sm text-gray-600 ${className}`} title={t('common.language')}>
+      <Globe className="w-4 h-4" />
+      <select
+        value={language}
+        onChange={(e) => setLanguage(e.target.value as Language)}
+        className="bg-transparent border-none text-sm text-gray-700 focus:outline-none cursor-pointer"
+        aria-label={t('common.language')}
+      >
+        {SUPPORTED_LANGUAGES.map(option => (
+          <option key={option.code} value={option.code}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+};
+
+export default LanguageSwitcher;
@@ -23,6 +23,8 @@ import Button from './ui/Button';
 import Input from './ui/Input';
 import { OutlineItem } from '../types';
 import { useTheme } from '../contexts/ThemeContext';
+import { useLanguage } from '../contexts/LanguageContext';
+import { parseChapterNumber } from '../utils/chapterNumbering';
 
 interface OutlineEditorProps {
   /** 大纲项目列表 */
@@ -50,6 +52,7 @@ const OutlineEditor: React.FC<OutlineEditorProps> = ({
   // 主题相关
   const { currentLevel, currentTheme } = useTheme();
   const isBeginner = currentLevel === 'beginner';
+  const { t } = useLanguage();
   
   // 编辑状态
   const [editingId, setEditingId] = useState<string | null>(null);
@@ -115,7 +118,7 @@ const OutlineEditor: React.FC<OutlineEditorProps> = ({
   const addNewItem = (type: 'chapter' | 'section' = 'chapter', parentId?: string) => {
     const newItem: OutlineItem = {
       id: generateId(type),
-      title: type === 'chapter' ? '新章节' : '新小节',
+      title: type === 'chapter' ? t('outlineEditor.newChapter') : t('outlineEditor.newSection'),
       order: items.length + 1,
       type,
       level: type === 'chapter' ? 1 : 2,
@@ -279,7 +282,7 @@ const OutlineEditor: React.FC<OutlineEditorProps> = ({
                   boxShadow: 'none',
                 }}
               >
-                {isChapter ? (item.title.match(/第(\d+)章/) ? item.title.match(/第(\d+)章/)[1] : index + 1) : '•'}
+                {isChapter ? (parseChapterNumber(item.title) ?? index + 1) : '•'}
                 
                 {/* 完成状态标志 */}
                 {item.isCompleted && (
@@ -337,7 +340,7 @@ const OutlineEditor: React.FC<OutlineEditorProps> = ({
                           borderRadius: isBeginner ? 'var(--radius-full)' : 'var(--radius-sm)',
                         }}
                       >
-                        已完成
+                        {t('outlineEditor.completed')}
                       </span>
                     )}
                     {/* 预估时间显示 - 仅在小白模式下显示 */}
@@ -351,7 +354,7 @@ const OutlineEditor: React.FC<OutlineEditorProps> = ({
                           borderRadius: 'var(--radius-full)',
                         }}
                       >
-                        约 {item.estimatedMinutes} 分钟
+                        {t('outline.aboutMinutes', { count: item.estimatedMinutes })}
                       </span>
                     )}
                   </span>
@@ -404,7 +407,7 @@ const OutlineEditor: React.FC<OutlineEditorProps> = ({
                         size="sm"
                         onClick={() => addNewItem('section', item.id)}
                         icon={<Plus className="w-3 h-3" />}
-                        title="添加小节"
+                        title={t('outlineEditor.addSection')}
                         style={{
                           color: 'var(--color-info-600)',
                           borderRadius: isBeginner ? 'var(--radius-md)' : 'var(--radius-sm)',
@@ -492,7 +495,7 @@ const OutlineEditor: React.FC<OutlineEditorProps> = ({
               transition: 'var(--transition-normal)',
             }}
           >
-            {isBeginner ? '+ 添加新章节' : '添加章节'}
+            {isBeginner ? t('outlineEditor.addChapterBeginner') : t('outlineEditor.addChapter')}
           </Button>
         </div>
       )}
@@ -507,7 +510,7 @@ const OutlineEditor: React.FC<OutlineEditorProps> = ({
           }}
         >
           <div>
-            {readonly ? '暂无学习大纲' : (isBeginner ? '点击上方按钮开始创建您的学习大纲' : '点击上方按钮添加第一个章节')}
+            {readonly ? t('outlineEditor.emptyReadonly') : (isBeginner ? t('outlineEditor.emptyBeginner') : t('outlineEditor.emptyExpert'))}
           </div>
         </div>
       )}
@@ -0,0 +1,320 @@
+/**
+ * 提示词模板管理组件
+ *
+ * 管理私教人设、大纲生成和卡片标题的提示词模板：
+ * - 查看内置模板和自定义模板，设置各用途的默认模板
+ * - 新建、复制、编辑模板，每次修改正文保存为新版本
+ * - 查看并恢复历史版本
+ * - 删除自定义模板，或把修改过的内置模板恢复为默认内容
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Copy, Edit3, FileText, Plus, RotateCcw, Star, Trash2 } from 'lucide-react';
+import Button from './ui/Button';
+import Input from './ui/Input';
+import Select from './ui/Select';
+import { PromptTemplate, PromptTemplateKind, UserPreferences } from '../types';
+import { getUserPreferences } from '../utils/storage';
+import { storageAdapter } from '../utils/storageAdapter';
+import { MessageKey } from '../utils/i18n';
+import { useLanguage } from '../contexts/LanguageContext';
+import {
+  DEFAULT_PROMPT_TEMPLATE_IDS,
+  PROMPT_TEMPLATE_VARIABLES,
+  getActivePromptTemplateId,
+  getLatestVersion,
+  getPromptTemplates,
+  isBuiltInPromptTemplate,
+  removePromptTemplate,
+  upsertPromptTemplate,
+} from '../utils/promptTemplates';
+
+interface PromptTemplateManagerProps {
+  /** 模板或默认模板变化后的回调（用于刷新人设选择） */
+  onTemplatesChange?: () => void;
+}
+
+interface TemplateDraft {
+  /** 编辑已有模板时的ID，新建时为空 */
+  id?: string;
+  name: string;
+  description: string;
+  content: string;
+}
+
+const PromptTemplateManager: React.FC<PromptTemplateManagerProps> = ({ onTemplatesChange }) => {
+  const { language, locale, t } = useLanguage();
+
+  // 状态管理
+  const [kind, setKind] = useState<PromptTemplateKind>('tutor');
+  const [templates, setTemplates] = useState<PromptTemplate[]>([]);
+  const [activeId, setActiveId] = useState('');
+  const [draft, setDraft] = useState<TemplateDraft | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  /**
+   * 读取当前用途的模板列表
+   */
+  const loadTemplates = () => {
+    setTemplates(getPromptTemplates(kind));
+    setActiveId(getActivePromptTemplateId(kind));
+  };
+
+  useEffect(() => {
+    loadTemplates();
+    setDraft(null);
+  }, [kind, language]);
+
+  /**
+   * 保存偏好设置（同步到云端），成功后刷新列表
+   */
+  const savePreferences = async (changes: Partial<UserPreferences>): Promise<boolean> => {
+    setIsSaving(true);
+    try {
+      const success = await storageAdapter.saveUserPreferences({ ...getUserPreferences(), ...changes });
+      if (!success) {
+        alert(t('promptTemplates.saveFailed'));
+        return false;
+      }
+      loadTemplates();
+      onTemplatesChange?.();
+      return true;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const isBuiltIn = (template: PromptTemplate) => isBuiltInPromptTemplate(template.id);
+  const isModifiedBuiltIn = (template: PromptTemplate) =>
+    isBuiltIn(template) && (getUserPreferences().promptTemplates || []).some(t => t.id === template.id);
+
+  /**
+   * 设为该用途的默认模板
+   */
+  const handleSetActive = (template: PromptTemplate) => {
+    savePreferences({
+      activePromptTemplates: { ...getUserPreferences().activePromptTemplates, [kind]: template.id },
+    });
+  };
+
+  /**
+   * 删除自定义模板，或恢复内置模板
+   */
+  const handleRemove = (template: PromptTemplate) => {
+    const message = isBuiltIn(template)
+      ? t('promptTemplates.confirmRestore', { name: template.name })
+      : t('promptTemplates.confirmDelete', { name: template.name });
+    if (!confirm(message)) return;
+    savePreferences({ promptTemplates: removePromptTemplate(getUserPreferences(), template.id) });
+  };
+
+  /**
+   * 保存编辑中的模板
+   */
+  const handleSaveDraft = async () => {
+    if (!draft) return;
+    if (!draft.name.trim() || !draft.content.trim()) {
+      alert(t('promptTemplates.nameAndContentRequired'));
+      return;
+    }
+
+    const { templates: promptTemplates } = upsertPromptTemplate(getUserPreferences(), {
+      id: draft.id,
+      kind,
+      name: draft.name.trim(),
+      description: draft.description.trim() || undefined,
+      content: draft.content,
+    });
+    if (await savePreferences({ promptTemplates })) {
+      setDraft(null);
+    }
+  };
+
+  const editingTemplate = draft?.id ? templates.find(t => t.id === draft.id) : undefined;
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border">
+      {/* 标题栏 */}
+      <div className="p-4 border-b border-gray-100">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <FileText className="w-5 h-5 text-purple-500" />
+            <h3 className="font-medium text-gray-900">{t('promptTemplates.title')}</h3>
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setDraft({ name: '', description: '', content: '' })}
+            icon={<Plus className="w-4 h-4" />}
+          >
+            {t('promptTemplates.create')}
+          </Button>
+        </div>
+        <p className="mt-2 text-sm text-gray-500">
+          {t('promptTemplates.intro')}
+        </p>
+      </div>
+
+      {/* 用途切换 */}
+      <div className="px-4 pt-4 flex items-center gap-2">
+        {(Object.keys(DEFAULT_PROMPT_TEMPLATE_IDS) as PromptTemplateKind[]).map(key => (
+          <button
+            key={key}
+            onClick={() => setKind(key)}
+            className={`px-3 py-1 text-sm rounded-full border transition-colors ${
+              kind === key
+                ? 'bg-purple-50 border-purple-300 text-purple-700'
+                : 'border-gray-200 text-gray-600 hover:bg-gray-50'
+            }`}
+          >
+            {t(`promptTemplates.kinds.${key}`)}
+          </button>
+        ))}
+      </div>
+
+      {/* 模板列表 */}
+      <div className="p-4 space-y-2">
+        {templates.map(template => (
+          <div
+            key={template.id}
+            className="flex items-center justify-between gap-3 p-3 rounded-lg border border-gray-100 hover:bg-gray-50"
+          >
+            <div className="min-w-0">
+              <div className="flex items-center gap-2">
+                <span className="font-medium text-gray-900 truncate">{template.name}</span>
+                <span className="text-xs text-gray-500">v{getLatestVersion(template).version}</span>
+                {template.id === activeId && (
+                  <span className="text-xs px-2 py-0.5 rounded-full bg-purple-100 text-purple-700">{t('promptTemplates.defaultBadge')}</span>
+                )}
+                {isBuiltIn(template) && (
+                  <span className="text-xs px-2 py-0.5 rounded-full bg-gray-100 text-gray-600">{t('promptTemplates.builtInBadge')}</span>
+                )}
+              </div>
+              {template.description && (
+                <p className="text-sm text-gray-500 truncate">{template.description}</p>
+              )}
+            </div>
+            <div className="flex items-center gap-1 flex-shrink-0">
+              {template.id !== activeId && (
+                <Button variant="ghost" size="sm" onClick={() => handleSetActive(template)} disabled={isSaving} icon={<Star className="w-4 h-4" />}>
+                  {t('promptTemplates.setDefault')}
+                </Button>
+              )}
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setDraft({
+                  id: template.id,
+                  name: template.name,
+                  description: template.description || '',
+                  content: getLatestVersion(template).content,
+                })}
+                icon={<Edit3 className="w-4 h-4" />}
+              >
+                {t('common.edit')}
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setDraft({
+                  name: t('promptTemplates.copyName', { name: template.name }),
+                  description: template.description || '',
+                  content: getLatestVersion(template).content,
+                })}
+                icon={<Copy className="w-4 h-4" />}
+              >
+                {t('promptTemplates.duplicate')}
+              </Button>
+              {isModifiedBuiltIn(template) && (
+                <Button variant="ghost" size="sm" onClick={() => handleRemove(template)} disabled={isSaving} icon={<RotateCcw className="w-4 h-4" />}>
+                  {t('promptTemplates.restoreBuiltIn')}
+                </Button>
+              )}
+              {!isBuiltIn(template) && (
+                <Button variant="ghost" size="sm" onClick={() => handleRemove(template)} disabled={isSaving} icon={<Trash2 className="w-4 h-4" />}>
+                  {t('common.delete')}
+                </Button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {/* 模板编辑 */}
+      {draft && (
+        <div className="p-4 border-t border-gray-100 space-y-3">
+          <h4 className="font-medium text-gray-900">
+            {draft.id
+              ? t('promptTemplates.editTitle', { name: editingTemplate?.name || draft.name })
+              : t('promptTemplates.createTitle', { kind: t(`promptTemplates.kinds.${kind}`) })}
+          </h4>
+          <div className="grid md:grid-cols-2 gap-3">
+            <Input
+              label={t('promptTemplates.name')}
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              placeholder={t('promptTemplates.namePlaceholder')}
+            />
+            <Input
+              label={t('promptTemplates.description')}
+              value={draft.description}
+              onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+            />
+          </div>
+
+          {editingTemplate && editingTemplate.versions.length > 1 && (
+            <Select
+              label={t('promptTemplates.history')}
+              value=""
+              placeholder={t('promptTemplates.historyPlaceholder', { count: editingTemplate.versions.length })}
+              onChange={(value) => {
+                const version = editingTemplate.versions.find(v => String(v.version) === value);
+                if (version) setDraft({ ...draft, content: version.content });
+              }}
+              options={[...editingTemplate.versions].reverse().map(v => ({
+                value: String(v.version),
+                label: `v${v.version}${v.createdAt
+                  ? t('promptTemplates.versionDate', { date: new Date(v.createdAt).toLocaleString(locale) })
+                  : t('promptTemplates.builtInVersion')}`,
+              }))}
+              helpText={t('promptTemplates.historyHelp')}
+            />
+          )}
+
+          <div className="space-y-1">
+            <label className="block text-sm font-medium text-gray-700">{t('promptTemplates.content')}</label>
+            <textarea
+              value={draft.content}
+              onChange={(e) => setDraft({ ...draft, content: e.target.value })}
+              rows={14}
+              className="block w-full rounded-lg border border-gray-300 px-3 py-2.5 text-sm font-mono text-gray-900 focus:outline-none focus:ring-2 focus:ring-offset-1 focus:border-primary-500 focus:ring-primary-500"
+            />
+          </div>
+
+          {/* 可用变量 */}
+          <div className="text-xs text-gray-500 bg-gray-50 rounded-lg p-3 space-y-1">
+            <p>
+              {t('promptTemplates.variablesHelp')}
+            </p>
+            {PROMPT_TEMPLATE_VARIABLES[kind].map(name => (
+              <p key={name}>
+                <code className="text-purple-700">{`{{${name}}}`}</code> {t(`promptTemplates.variables.${kind}.${name}` as MessageKey)}
+              </p>
+            ))}
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" size="sm" onClick={() => setDraft(null)}>
+              {t('common.cancel')}
+            </Button>
+            <Button variant="primary" size="sm" onClick={handleSaveDraft} loading={isSaving}>
+              {t('common.save')}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PromptTemplateManager;
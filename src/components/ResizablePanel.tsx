@@ -10,6 +10,7 @@
 
 import React, { useState, useRef, useEffect, useCallback } from 'react';
 import { GripVertical } from 'lucide-react';
+import { useLanguage } from '../contexts/LanguageContext';
 
 interface ResizablePanelProps {
   /** 左侧面板内容 */
@@ -40,6 +41,8 @@ const ResizablePanel: React.FC<ResizablePanelProps> = ({
   storageKey = 'resizable-panel-width',
   className = '',
 }) => {
+  const { t } = useLanguage();
+
   // 状态管理
   const [leftWidth, setLeftWidth] = useState(initialLeftWidth);
   const [isResizing, setIsResizing] = useState(false);
@@ -161,7 +164,7 @@ const ResizablePanel: React.FC<ResizablePanelProps> = ({
         style={{ width: `${resizerWidth}px` }}
         onMouseDown={handleMouseDown}
         onDoubleClick={handleDoubleClick}
-        title="拖拽调整面板大小，双击重置"
+        title={t('layout.resizeHandle')}
       >
         {/* 拖拽手柄图标 */}
         <div className="absolute inset-0 flex items-center justify-center">
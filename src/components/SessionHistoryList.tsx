@@ -17,12 +17,15 @@ import {
   Trash2, 
   Play, 
   MoreVertical,
-  Filter 
+  Filter,
+  BarChart3
 } from 'lucide-react';
 import Button from './ui/Button';
 import Input from './ui/Input';
 import Card from './ui/Card';
 import { LearningSession } from '../types';
+import { useLanguage } from '../contexts/LanguageContext';
+import { MessageKey } from '../utils/i18n';
 
 interface SessionHistoryListProps {
   /** 会话列表 */
@@ -35,6 +38,8 @@ interface SessionHistoryListProps {
   loading?: boolean;
   /** 批量删除回调（可选） */
   onBatchDelete?: (ids: string[]) => void;
+  /** 查看学习报告回调（可选） */
+  onViewReport?: (sessionId: string) => void;
 }
 
 const SessionHistoryList: React.FC<SessionHistoryListProps> = ({
@@ -43,7 +48,10 @@ const SessionHistoryList: React.FC<SessionHistoryListProps> = ({
   onDeleteSession,
   loading = false,
   onBatchDelete,
+  onViewReport,
 }) => {
+  const { locale, t } = useLanguage();
+
   // 状态管理
   const [searchTerm, setSearchTerm] = useState('');
   const [filterStatus, setFilterStatus] = useState<string>('all');
@@ -95,19 +103,17 @@ const SessionHistoryList: React.FC<SessionHistoryListProps> = ({
     const diffDays = Math.floor(diffTime / (1000 * 60 * 60 * 24));
 
     if (diffDays === 0) {
-      return '今天 ' + date.toLocaleTimeString('zh-CN', { 
-        hour: '2-digit', 
-        minute: '2-digit' 
+      return t('sessions.today', {
+        time: date.toLocaleTimeString(locale, { hour: '2-digit', minute: '2-digit' }),
       });
     } else if (diffDays === 1) {
-      return '昨天 ' + date.toLocaleTimeString('zh-CN', { 
-        hour: '2-digit', 
-        minute: '2-digit' 
+      return t('sessions.yesterday', {
+        time: date.toLocaleTimeString(locale, { hour: '2-digit', minute: '2-digit' }),
       });
     } else if (diffDays < 7) {
-      return `${diffDays}天前`;
+      return t('sessions.daysAgo', { count: diffDays });
     } else {
-      return date.toLocaleDateString('zh-CN');
+      return date.toLocaleDateString(locale);
     }
   };
 
@@ -115,15 +121,9 @@ const SessionHistoryList: React.FC<SessionHistoryListProps> = ({
    * 获取文档类型显示名称
    */
   const getDocumentTypeLabel = (type: string): string => {
-    const typeMap: Record<string, string> = {
-      'url': '网页链接',
-      'pdf': 'PDF文档',
-      'word': 'Word文档',
-      'ppt': 'PPT演示',
-      'markdown': 'Markdown',
-      'text': '文本文档',
-    };
-    return typeMap[type] || type;
+    const key = `sessions.documentTypes.${type}` as MessageKey;
+    const label = t(key);
+    return label === key ? type : label;
   };
 
   /**
@@ -132,15 +132,15 @@ const SessionHistoryList: React.FC<SessionHistoryListProps> = ({
   const getStatusInfo = (status: LearningSession['status']) => {
     switch (status) {
       case 'draft':
-        return { label: '草稿', color: 'text-gray-600', bgColor: 'bg-gray-100' };
+        return { label: t('sessions.status.draft'), color: 'text-gray-600', bgColor: 'bg-gray-100' };
       case 'active':
-        return { label: '学习中', color: 'text-blue-600', bgColor: 'bg-blue-100' };
+        return { label: t('sessions.status.active'), color: 'text-blue-600', bgColor: 'bg-blue-100' };
       case 'completed':
-        return { label: '已完成', color: 'text-green-600', bgColor: 'bg-green-100' };
+        return { label: t('sessions.status.completed'), color: 'text-green-600', bgColor: 'bg-green-100' };
       case 'paused':
-        return { label: '已暂停', color: 'text-yellow-600', bgColor: 'bg-yellow-100' };
+        return { label: t('sessions.status.paused'), color: 'text-yellow-600', bgColor: 'bg-yellow-100' };
       default:
-        return { label: '未知', color: 'text-gray-600', bgColor: 'bg-gray-100' };
+        return { label: t('sessions.status.unknown'), color: 'text-gray-600', bgColor: 'bg-gray-100' };
     }
   };
 
@@ -186,7 +186,7 @@ const SessionHistoryList: React.FC<SessionHistoryListProps> = ({
         {/* 搜索输入 */}
         <div className="flex-1">
           <Input
-            placeholder="搜索学习记录..."
+            placeholder={t('sessions.searchPlaceholder')}
             value={searchTerm}
             onChange={(e) => setSearchTerm(e.target.value)}
             leftIcon={<Search className="w-4 h-4" />}
@@ -200,11 +200,11 @@ const SessionHistoryList: React.FC<SessionHistoryListProps> = ({
             onChange={(e) => setFilterStatus(e.target.value)}
             className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
           >
-            <option value="all">所有状态</option>
-            <option value="draft">草稿</option>
-            <option value="active">学习中</option>
-            <option value="completed">已完成</option>
-            <option value="paused">已暂停</option>
+            <option value="all">{t('sessions.allStatuses')}</option>
+            <option value="draft">{t('sessions.status.draft')}</option>
+            <option value="active">{t('sessions.status.active')}</option>
+            <option value="completed">{t('sessions.status.completed')}</option>
+            <option value="paused">{t('sessions.status.paused')}</option>
           </select>
 
           <select
@@ -212,9 +212,9 @@ const SessionHistoryList: React.FC<SessionHistoryListProps> = ({
             onChange={(e) => setSortBy(e.target.value as typeof sortBy)}
             className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
           >
-            <option value="recent">最近更新</option>
-            <option value="title">标题排序</option>
-            <option value="status">状态排序</option>
+            <option value="recent">{t('sessions.sortRecent')}</option>
+            <option value="title">{t('sessions.sortTitle')}</option>
+            <option value="status">{t('sessions.sortStatus')}</option>
           </select>
         </div>
       </div>
@@ -225,12 +225,12 @@ const SessionHistoryList: React.FC<SessionHistoryListProps> = ({
           <div className="text-center py-12">
             <FileText className="w-12 h-12 text-gray-300 mx-auto mb-4" />
             <h3 className="text-lg font-medium text-gray-900 mb-2">
-              {searchTerm || filterStatus !== 'all' ? '没有找到匹配的记录' : '还没有学习记录'}
+              {searchTerm || filterStatus !== 'all' ? t('sessions.noMatches') : t('sessions.noSessions')}
             </h3>
             <p className="text-gray-500 text-sm">
               {searchTerm || filterStatus !== 'all' 
-                ? '试试调整搜索条件或筛选器' 
-                : '上传您的第一个文档开始学习吧'
+                ? t('sessions.adjustFilters')
+                : t('sessions.uploadFirst')
               }
             </p>
           </div>
@@ -241,7 +241,7 @@ const SessionHistoryList: React.FC<SessionHistoryListProps> = ({
             <div className="flex items-center justify-between px-2 text-sm text-gray-600">
               <label className="inline-flex items-center gap-2 cursor-pointer select-none">
                 <input type="checkbox" checked={allSelected} onChange={toggleSelectAll} />
-                全选（{selectedIds.length}/{filteredAndSortedSessions.length}）
+                {t('sessions.selectAll', { selected: selectedIds.length, total: filteredAndSortedSessions.length })}
               </label>
               <div className="flex items-center gap-2">
                 <Button
@@ -256,7 +256,7 @@ const SessionHistoryList: React.FC<SessionHistoryListProps> = ({
                     onBatchDelete && onBatchDelete([...selectedIds])
                   }}
                 >
-                  批量删除
+                  {t('sessions.batchDelete')}
                 </Button>
               </div>
             </div>
@@ -280,7 +280,7 @@ const SessionHistoryList: React.FC<SessionHistoryListProps> = ({
                         className="mr-2 align-middle"
                         checked={selectedIds.includes(session.id)}
                         onChange={() => toggleSelectOne(session.id)}
-                        title="选择该会话"
+                        title={t('sessions.selectSession')}
                       />
                     </div>
                     <div className="flex items-center gap-3 mb-2">
@@ -310,18 +310,18 @@ const SessionHistoryList: React.FC<SessionHistoryListProps> = ({
                       </span>
 
                       <span>
-                        {session.outline.length} 个章节
+                        {t('sessions.chapterCount', { count: session.outline.length })}
                       </span>
 
                       <span>
                         {(() => {
                           const completed = session.outline.filter(item => item.isCompleted).length;
-                          return `${completed} 个已完成`;
+                          return t('sessions.completedCount', { count: completed });
                         })()}
                       </span>
 
                       <span>
-                        {session.messages.length} 条消息
+                        {t('sessions.messageCount', { count: session.messages.length })}
                       </span>
                     </div>
 
@@ -329,7 +329,7 @@ const SessionHistoryList: React.FC<SessionHistoryListProps> = ({
                     {session.outline.length > 0 && (
                       <div className="mb-3">
                         <div className="flex items-center justify-between text-xs text-gray-500 mb-1">
-                          <span>学习进度</span>
+                          <span>{t('sessions.progress')}</span>
                           <span>{progress}%</span>
                         </div>
                         <div className="w-full bg-gray-200 rounded-full h-2">
@@ -344,8 +344,8 @@ const SessionHistoryList: React.FC<SessionHistoryListProps> = ({
                     {/* 当前章节信息 */}
                     {session.currentChapter && (
                       <div className="text-sm text-gray-600">
-                        当前学习：
-                        {session.outline.find(item => item.id === session.currentChapter)?.title || '未知章节'}
+                        {t('sessions.currentChapter')}
+                        {session.outline.find(item => item.id === session.currentChapter)?.title || t('sessions.unknownChapter')}
                       </div>
                     )}
                   </div>
@@ -358,7 +358,7 @@ const SessionHistoryList: React.FC<SessionHistoryListProps> = ({
                       onClick={() => onEnterSession(session.id)}
                       icon={<Play className="w-4 h-4" />}
                     >
-                      继续学习
+                      {t('sessions.continue')}
                     </Button>
 
                     <div className="relative group">
@@ -370,12 +370,21 @@ const SessionHistoryList: React.FC<SessionHistoryListProps> = ({
                       
                       {/* 下拉菜单 */}
                       <div className="absolute right-0 top-full mt-1 w-32 bg-white border border-gray-200 rounded-lg shadow-lg opacity-0 invisible group-hover:opacity-100 group-hover:visible transition-all duration-200 z-10">
+                        {onViewReport && (
+                          <button
+                            onClick={() => onViewReport(session.id)}
+                            className="w-full px-3 py-2 text-left text-sm text-gray-700 hover:bg-gray-50 rounded-lg flex items-center gap-2"
+                          >
+                            <BarChart3 className="w-4 h-4" />
+                            {t('studyReport.open')}
+                          </button>
+                        )}
                         <button
                           onClick={() => onDeleteSession(session.id)}
                           className="w-full px-3 py-2 text-left text-sm text-red-600 hover:bg-red-50 rounded-lg flex items-center gap-2"
                         >
                           <Trash2 className="w-4 h-4" />
-                          删除
+                          {t('common.delete')}
                         </button>
                       </div>
                     </div>
@@ -391,9 +400,9 @@ const SessionHistoryList: React.FC<SessionHistoryListProps> = ({
       {/* 统计信息 */}
       {sessions.length > 0 && (
         <div className="text-center text-sm text-gray-500 pt-4 border-t border-gray-200">
-          共 {sessions.length} 个学习记录
+          {t('sessions.total', { count: sessions.length })}
           {filteredAndSortedSessions.length !== sessions.length && (
-            <span> · 显示 {filteredAndSortedSessions.length} 个</span>
+            <span>{t('sessions.showing', { count: filteredAndSortedSessions.length })}</span>
           )}
         </div>
       )}
@@ -26,6 +26,7 @@ import {
 } from 'lucide-react'
 import Button from './ui/Button'
 import { useAuth } from '../contexts/AuthContext'
+import { useLanguage } from '../contexts/LanguageContext'
 import { smartSyncManager, SyncPlan, SyncResult, SyncStats, DataItem } from '../services/smartSync'
 
 interface SmartSyncControlProps {
@@ -35,6 +36,7 @@ interface SmartSyncControlProps {
 
 export default function SmartSyncControl({ compact = false, showDetails = true }: SmartSyncControlProps) {
   const { user } = useAuth()
+  const { locale, t } = useLanguage()
   const [syncStats, setSyncStats] = useState<SyncStats | null>(null)
   const [syncPlan, setSyncPlan] = useState<SyncPlan | null>(null)
   const [isLoading, setIsLoading] = useState(false)
@@ -164,10 +166,10 @@ export default function SmartSyncControl({ compact = false, showDetails = true }
    * 获取状态文本
    */
   const getStatusText = () => {
-    if (!user) return '未登录'
-    if (isSyncing) return '正在同步数据...'
-    if (syncStats?.hasUnsyncedChanges) return `${syncStats.pendingItems} 项数据待同步`
-    return '已完成同步'
+    if (!user) return t('sync.notLoggedIn')
+    if (isSyncing) return t('sync.syncingData')
+    if (syncStats?.hasUnsyncedChanges) return t('sync.pendingItems', { count: syncStats.pendingItems })
+    return t('sync.synced')
   }
   
   /**
@@ -210,7 +212,7 @@ export default function SmartSyncControl({ compact = false, showDetails = true }
             disabled={isSyncing}
             className="text-xs"
           >
-            {isSyncing ? '同步中...' : '同步'}
+            {isSyncing ? t('sync.syncing') : t('sync.sync')}
           </Button>
         )}
       </div>
@@ -222,7 +224,7 @@ export default function SmartSyncControl({ compact = false, showDetails = true }
     return (
       <div className="bg-gray-50 rounded-lg p-4 text-center">
         <CloudOff className="w-8 h-8 text-gray-400 mx-auto mb-2" />
-        <p className="text-gray-600 text-sm">请登录后使用云端同步功能</p>
+        <p className="text-gray-600 text-sm">{t('sync.loginRequired')}</p>
       </div>
     )
   }
@@ -233,7 +235,7 @@ export default function SmartSyncControl({ compact = false, showDetails = true }
       <div className="bg-white rounded-lg shadow-sm border p-6">
         <div className="flex items-center space-x-3">
           <RefreshCw className="w-5 h-5 text-blue-500 animate-spin" />
-          <span className="text-gray-600">分析同步数据...</span>
+          <span className="text-gray-600">{t('sync.analyzing')}</span>
         </div>
       </div>
     )
@@ -248,7 +250,7 @@ export default function SmartSyncControl({ compact = false, showDetails = true }
             {getSyncStatusIcon()}
             <div>
               <h3 className="font-medium text-gray-900">
-                智能云端同步
+                {t('sync.title')}
               </h3>
               <p className="text-sm text-gray-600">
                 {getStatusText()}
@@ -259,10 +261,10 @@ export default function SmartSyncControl({ compact = false, showDetails = true }
           {syncStats && (
             <div className="text-right">
               <div className="text-sm text-gray-500">
-                数据大小: {syncStats.totalSize}
+                {t('sync.dataSize', { size: syncStats.totalSize })}
               </div>
               <div className={`text-xs ${getCostColor(syncStats.estimatedCost)}`}>
-                成本: {syncStats.estimatedCost}
+                {t('sync.cost', { cost: syncStats.estimatedCost })}
               </div>
             </div>
           )}
@@ -275,17 +277,17 @@ export default function SmartSyncControl({ compact = false, showDetails = true }
           <div className="grid grid-cols-2 gap-4 text-sm">
             <div className="flex items-center space-x-2">
               <Database className="w-4 h-4 text-blue-500" />
-              <span className="text-gray-600">待同步项目:</span>
+              <span className="text-gray-600">{t('sync.pendingLabel')}</span>
               <span className="font-medium">{syncStats.pendingItems}</span>
             </div>
             
             <div className="flex items-center space-x-2">
               <Clock className="w-4 h-4 text-green-500" />
-              <span className="text-gray-600">上次同步:</span>
+              <span className="text-gray-600">{t('sync.lastSync')}</span>
               <span className="font-medium">
                 {syncStats.lastSyncTime 
-                  ? syncStats.lastSyncTime.toLocaleString()
-                  : '从未同步'
+                  ? syncStats.lastSyncTime.toLocaleString(locale)
+                  : t('sync.neverSynced')
                 }
               </span>
             </div>
@@ -306,7 +308,7 @@ export default function SmartSyncControl({ compact = false, showDetails = true }
             ) : (
               <Cloud className="w-4 h-4" />
             )}
-            <span>{isSyncing ? '同步中...' : '同步到云端'}</span>
+            <span>{isSyncing ? t('sync.syncing') : t('sync.syncToCloud')}</span>
           </Button>
           
           <Button
@@ -315,7 +317,7 @@ export default function SmartSyncControl({ compact = false, showDetails = true }
             className="flex items-center justify-center space-x-2"
           >
             <Eye className="w-4 h-4" />
-            <span>预览</span>
+            <span>{t('sync.preview')}</span>
           </Button>
         </div>
       </div>
@@ -323,13 +325,13 @@ export default function SmartSyncControl({ compact = false, showDetails = true }
       {/* 同步预览 */}
       {showPreview && syncPlan && (
         <div className="border-t border-gray-100 p-4">
-          <h4 className="font-medium text-gray-900 mb-3">同步内容预览</h4>
+          <h4 className="font-medium text-gray-900 mb-3">{t('sync.previewTitle')}</h4>
           
           {/* 核心数据 */}
           {syncPlan.critical.length > 0 && (
             <div className="mb-4">
               <h5 className="text-sm font-medium text-red-600 mb-2">
-                核心数据 ({syncPlan.critical.length} 项)
+                {t('sync.criticalData', { count: syncPlan.critical.length })}
               </h5>
               <div className="space-y-2 max-h-32 overflow-y-auto">
                 {syncPlan.critical.map((item, index) => (
@@ -338,7 +340,7 @@ export default function SmartSyncControl({ compact = false, showDetails = true }
                     <span className="text-gray-700 truncate flex-1">
                       {item.type === 'card' ? item.content.content.substring(0, 50) + '...' :
                        item.type === 'session' ? item.content.title :
-                       item.type === 'preference' ? '用户偏好设置' : item.id}
+                       item.type === 'preference' ? t('sync.preferences') : item.id}
                     </span>
                     <span className="text-xs text-gray-500">
                       {(item.estimatedSize / 1024).toFixed(1)}KB
@@ -353,7 +355,7 @@ export default function SmartSyncControl({ compact = false, showDetails = true }
           {syncPlan.important.length > 0 && (
             <div className="mb-4">
               <h5 className="text-sm font-medium text-orange-600 mb-2">
-                重要数据 ({syncPlan.important.length} 项) - 可选
+                {t('sync.importantData', { count: syncPlan.important.length })}
               </h5>
               <div className="space-y-2 max-h-24 overflow-y-auto">
                 {syncPlan.important.slice(0, 3).map((item, index) => (
@@ -369,7 +371,7 @@ export default function SmartSyncControl({ compact = false, showDetails = true }
                 ))}
                 {syncPlan.important.length > 3 && (
                   <div className="text-xs text-gray-500 text-center">
-                    还有 {syncPlan.important.length - 3} 项...
+                    {t('sync.moreItems', { count: syncPlan.important.length - 3 })}
                   </div>
                 )}
               </div>
@@ -379,11 +381,11 @@ export default function SmartSyncControl({ compact = false, showDetails = true }
           {/* 同步估算 */}
           <div className="bg-blue-50 rounded-lg p-3 text-sm">
             <div className="flex justify-between items-center">
-              <span className="text-blue-800">预计同步时间:</span>
+              <span className="text-blue-800">{t('sync.estimatedTime')}</span>
               <span className="font-medium text-blue-900">
                 {syncPlan.estimatedTime < 60 ? 
-                  `${syncPlan.estimatedTime} 秒` : 
-                  `${Math.ceil(syncPlan.estimatedTime / 60)} 分钟`
+                  t('sync.seconds', { count: syncPlan.estimatedTime }) : 
+                  t('sync.minutes', { count: Math.ceil(syncPlan.estimatedTime / 60) })
                 }
               </span>
             </div>
@@ -404,23 +406,23 @@ export default function SmartSyncControl({ compact = false, showDetails = true }
                 <AlertTriangle className="w-4 h-4" />
               )}
               <span className="font-medium">
-                {syncResult.success ? '同步成功' : '同步失败'}
+                {syncResult.success ? t('sync.success') : t('sync.failed')}
               </span>
             </div>
             
             <div className="text-sm space-y-1">
-              <div>成功: {syncResult.syncedItems} 项</div>
+              <div>{t('sync.syncedItems', { count: syncResult.syncedItems })}</div>
               {syncResult.failedItems > 0 && (
-                <div>失败: {syncResult.failedItems} 项</div>
+                <div>{t('sync.failedItems', { count: syncResult.failedItems })}</div>
               )}
-              <div>耗时: {(syncResult.duration / 1000).toFixed(1)} 秒</div>
-              <div>节省: {(syncResult.savedSize / 1024).toFixed(1)} KB</div>
+              <div>{t('sync.duration', { seconds: (syncResult.duration / 1000).toFixed(1) })}</div>
+              <div>{t('sync.saved', { size: (syncResult.savedSize / 1024).toFixed(1) })}</div>
             </div>
             
             {syncResult.errors.length > 0 && (
               <div className="mt-2 text-xs">
                 <details>
-                  <summary className="cursor-pointer">错误详情</summary>
+                  <summary className="cursor-pointer">{t('sync.errorDetails')}</summary>
                   <div className="mt-1 space-y-1">
                     {syncResult.errors.map((error, index) => (
                       <div key={index} className="text-red-600">{error}</div>
@@ -0,0 +1,488 @@
+/**
+ * 原文查看面板组件
+ *
+ * 在学习页面中与对话并排显示上传文档的原文：
+ * - Markdown和文本文档按Markdown渲染，PDF按页、PPT按幻灯片分隔显示
+ * - 随当前小节自动滚动到原文中对应的标题
+ * - 点击私教回复中的引用时高亮并滚动到引用的片段
+ * - 原文搜索，逐个跳转匹配位置
+ * - 选中一段原文后可以直接请私教讲解，或者高亮、添加批注
+ * - 批注显示在所在段落下方，也可以切换到按章节分组的批注列表
+ */
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ChevronDown, ChevronUp, MessageCircle, Search, StickyNote, X } from 'lucide-react';
+import { marked } from 'marked';
+import { Annotation, AnnotationColor, LearningSession, MessageCitation, OutlineItem } from '../types';
+import { getPageNumber } from '../utils/citations';
+import {
+  ANNOTATION_COLOR_CLASSES,
+  ANNOTATION_COLORS,
+  TextRange,
+  insertAnnotationMarkers,
+  locateSelection,
+  renderAnnotationMarks,
+  resolveAnnotations,
+} from '../utils/annotations';
+import {
+  findOutlineItemOffset,
+  findSearchMatches,
+  highlightHtml,
+  isMarkdownSource,
+  splitSourcePages,
+} from '../utils/sourceDocument';
+import { escapeHtml } from '../utils/textEscape';
+import AnnotationEditor from './AnnotationEditor';
+import AnnotationList from './AnnotationList';
+import { useLanguage } from '../contexts/LanguageContext';
+
+interface SourceViewerProps {
+  /** 原文内容 */
+  documentContent: string;
+  /** 文档类型 */
+  documentType: LearningSession['documentType'];
+  /** 每页在原文中的起始位置（仅PDF） */
+  pageOffsets?: number[];
+  /** 学习大纲（用于定位当前小节） */
+  outline: OutlineItem[];
+  /** 当前小节ID，变化时滚动到原文中对应的位置 */
+  currentItemId?: string;
+  /** 要定位的引用片段 */
+  citation?: MessageCitation | null;
+  /** 原文上的高亮与批注 */
+  annotations: Annotation[];
+  /** 请私教讲解选中的原文 */
+  onAskAboutSelection: (text: string) => void;
+  /** 高亮原文区间，返回新批注的ID（保存失败时为 null） */
+  onCreateAnnotation: (range: TextRange, color: AnnotationColor) => string | null;
+  /** 更新批注的颜色或内容 */
+  onUpdateAnnotation: (id: string, changes: { color?: AnnotationColor; note?: string }) => void;
+  /** 删除批注 */
+  onDeleteAnnotation: (id: string) => void;
+  /** 把批注转换为学习卡片 */
+  onCreateCardFromAnnotation: (id: string) => void;
+  /** 关闭面板 */
+  onClose: () => void;
+}
+
+/** 选中原文后浮动操作栏的位置（相对于滚动区域） */
+interface SelectionAction {
+  text: string;
+  /** 选中文字在原文中的位置，无法定位时不能高亮 */
+  range: TextRange | null;
+  top: number;
+  left: number;
+}
+
+const SourceViewer: React.FC<SourceViewerProps> = ({
+  documentContent,
+  documentType,
+  pageOffsets,
+  outline,
+  currentItemId,
+  citation,
+  annotations,
+  onAskAboutSelection,
+  onCreateAnnotation,
+  onUpdateAnnotation,
+  onDeleteAnnotation,
+  onCreateCardFromAnnotation,
+  onClose,
+}) => {
+  const { t } = useLanguage();
+  const contentRef = useRef<HTMLDivElement>(null);
+  // 段落块元素，按块在原文中的起始位置索引
+  const blockRefs = useRef<Map<number, HTMLDivElement>>(new Map());
+
+  const [query, setQuery] = useState('');
+  const [activeMatch, setActiveMatch] = useState(0);
+  const [selectionAction, setSelectionAction] = useState<SelectionAction | null>(null);
+  const [activeTab, setActiveTab] = useState<'source' | 'annotations'>('source');
+  // 正在编辑的批注（显示在所在段落下方）
+  const [activeAnnotationId, setActiveAnnotationId] = useState<string | null>(null);
+  // 从批注列表切换回原文后要滚动到的位置
+  const [pendingScrollOffset, setPendingScrollOffset] = useState<number | null>(null);
+
+  const pages = useMemo(
+    () => splitSourcePages(documentContent, documentType, pageOffsets),
+    [documentContent, documentType, pageOffsets]
+  );
+  const renderAsMarkdown = isMarkdownSource(documentContent, documentType, pageOffsets);
+
+  const resolvedAnnotations = useMemo(
+    () => resolveAnnotations(documentContent, annotations),
+    [documentContent, annotations]
+  );
+  const annotationRanges = useMemo(
+    () => resolvedAnnotations
+      .map(({ range }, index) => ({ index, range }))
+      .filter((item): item is { index: number; range: TextRange } => !!item.range),
+    [resolvedAnnotations]
+  );
+
+  // 每个段落块渲染好的HTML（含高亮标记，不含搜索高亮）
+  const blockHtml = useMemo(() => {
+    const html = new Map<number, string>();
+    pages.forEach(page => page.blocks.forEach(block => {
+      const ranges = annotationRanges.filter(({ range }) => range.start < block.end && range.end > block.start);
+      const text = insertAnnotationMarkers(documentContent.slice(block.start, block.end), block.start, ranges);
+      html.set(block.start, renderAsMarkdown ? marked.parse(text, { async: false }) as string : escapeHtml(text));
+    }));
+    return html;
+  }, [pages, documentContent, renderAsMarkdown, annotationRanges]);
+
+  const matches = useMemo(() => findSearchMatches(documentContent, query), [documentContent, query]);
+
+  /**
+   * 滚动到原文中某个位置所在的段落块
+   */
+  const scrollToOffset = (offset: number, block: ScrollLogicalPosition = 'center') => {
+    const allBlocks = pages.flatMap(page => page.blocks);
+    const target = allBlocks.find(item => offset >= item.start && offset < item.end) ||
+      allBlocks.find(item => item.start >= offset);
+    if (target) {
+      blockRefs.current.get(target.start)?.scrollIntoView({ behavior: 'smooth', block });
+    }
+  };
+
+  // 切换小节时滚动到对应标题
+  useEffect(() => {
+    if (!currentItemId) return;
+    const offset = findOutlineItemOffset(documentContent, outline, currentItemId);
+    if (offset >= 0) {
+      scrollToOffset(offset, 'start');
+    }
+  }, [currentItemId, documentContent]);
+
+  // 打开引用时滚动到引用的片段
+  useEffect(() => {
+    if (citation) {
+      scrollToOffset(citation.start);
+    }
+  }, [citation]);
+
+  // 搜索词变化后从第一个匹配开始
+  useEffect(() => {
+    setActiveMatch(0);
+  }, [query]);
+
+  useEffect(() => {
+    if (matches.length > 0) {
+      scrollToOffset(matches[Math.min(activeMatch, matches.length - 1)]);
+    }
+  }, [matches, activeMatch]);
+
+  useEffect(() => {
+    if (activeTab === 'source' && pendingScrollOffset !== null) {
+      scrollToOffset(pendingScrollOffset);
+      setPendingScrollOffset(null);
+    }
+  }, [activeTab, pendingScrollOffset]);
+
+  const goToMatch = (step: number) => {
+    if (matches.length === 0) return;
+    setActiveMatch(prev => (prev + step + matches.length) % matches.length);
+  };
+
+  /**
+   * 选区两端所在的段落块，据此在原文中定位选中的文字
+   */
+  const locateSelectionRange = (selection: Selection, text: string): TextRange | null => {
+    const findBlock = (node: Node | null) =>
+      (node instanceof Element ? node : node?.parentElement)?.closest<HTMLElement>('[data-block-start]');
+    const blocks = [findBlock(selection.anchorNode), findBlock(selection.focusNode)];
+    if (!blocks[0] || !blocks[1]) return null;
+
+    const starts = blocks.map(block => Number(block!.dataset.blockStart));
+    const ends = blocks.map(block => Number(block!.dataset.blockEnd));
+    return locateSelection(documentContent, text, Math.min(...starts), Math.max(...ends));
+  };
+
+  /**
+   * 选中原文后在选区上方显示操作栏：请私教讲解、高亮、添加批注
+   */
+  const handleMouseUp = () => {
+    const selection = window.getSelection();
+    const text = selection?.toString().trim();
+    const container = contentRef.current;
+    if (!selection || !text || !container || !container.contains(selection.anchorNode)) {
+      setSelectionAction(null);
+      return;
+    }
+
+    const rect = selection.getRangeAt(0).getBoundingClientRect();
+    const containerRect = container.getBoundingClientRect();
+    setSelectionAction({
+      text,
+      range: locateSelectionRange(selection, text),
+      top: Math.max(0, rect.top - containerRect.top + container.scrollTop - 36),
+      left: Math.max(0, Math.min(rect.left - containerRect.left, containerRect.width - 280)),
+    });
+  };
+
+  /**
+   * 点击高亮时编辑对应的批注
+   */
+  const handleContentClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const mark = (e.target as HTMLElement).closest<HTMLElement>('mark[data-annotation]');
+    if (mark && !window.getSelection()?.toString().trim()) {
+      setActiveAnnotationId(mark.dataset.annotation || null);
+    }
+  };
+
+  /**
+   * 高亮选中的原文，添加批注时随即打开编辑框
+   */
+  const handleHighlightSelection = (color: AnnotationColor, withNote: boolean) => {
+    if (!selectionAction?.range) return;
+    const id = onCreateAnnotation(selectionAction.range, color);
+    window.getSelection()?.removeAllRanges();
+    setSelectionAction(null);
+    if (id && withNote) {
+      setActiveAnnotationId(id);
+    }
+  };
+
+  /**
+   * 从批注列表定位到原文中的高亮
+   */
+  const handleSelectAnnotation = (annotation: Annotation) => {
+    const resolved = resolvedAnnotations.find(item => item.annotation.id === annotation.id);
+    if (!resolved?.range) return;
+    setActiveAnnotationId(annotation.id);
+    setActiveTab('source');
+    setPendingScrollOffset(resolved.range.start);
+  };
+
+  const handleDeleteAnnotation = (id: string) => {
+    onDeleteAnnotation(id);
+    if (activeAnnotationId === id) {
+      setActiveAnnotationId(null);
+    }
+  };
+
+  const handleAskAboutSelection = () => {
+    if (!selectionAction) return;
+    onAskAboutSelection(selectionAction.text);
+    window.getSelection()?.removeAllRanges();
+    setSelectionAction(null);
+  };
+
+  const activeMatchOffset = matches.length > 0 ? matches[Math.min(activeMatch, matches.length - 1)] : -1;
+  const citationPage = citation ? getPageNumber(pageOffsets, citation.start) : undefined;
+
+  return (
+    <div className="h-full flex flex-col bg-white border-l border-gray-200">
+      {/* 头部 */}
+      <div className="flex-shrink-0 p-3 border-b border-gray-200 space-y-2">
+        <div className="flex items-start justify-between gap-2">
+          <div className="min-w-0">
+            <div className="flex items-center gap-3">
+              {(['source', 'annotations'] as const).map(tab => (
+                <button
+                  key={tab}
+                  onClick={() => setActiveTab(tab)}
+                  className={`text-sm font-semibold border-b-2 ${activeTab === tab ? 'text-gray-900 border-primary-600' : 'text-gray-500 border-transparent hover:text-gray-700'}`}
+                >
+                  {tab === 'source' ? t('annotations.sourceTab') : t('annotations.listTab', { count: annotations.length })}
+                </button>
+              ))}
+            </div>
+            {citation && (
+              <p className="text-xs text-gray-500 truncate">
+                {t('citations.passage', { number: citation.number })}
+                {citation.heading && ` · ${citation.heading}`}
+                {citationPage && ` · ${t('sourceViewer.page', { page: citationPage })}`}
+              </p>
+            )}
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 text-gray-400 hover:text-gray-600 rounded"
+            title={t('sourceViewer.close')}
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        {/* 原文搜索 */}
+        <div className={`flex items-center gap-1 ${activeTab === 'source' ? '' : 'hidden'}`}>
+          <div className="relative flex-1">
+            <Search className="absolute left-2 top-1/2 -translate-y-1/2 w-3.5 h-3.5 text-gray-400" />
+            <input
+              type="text"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault();
+                  goToMatch(e.shiftKey ? -1 : 1);
+                }
+              }}
+              placeholder={t('sourceViewer.searchPlaceholder')}
+              className="w-full pl-7 pr-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-primary-500"
+            />
+          </div>
+          {query.trim() && (
+            <span className="text-xs text-gray-500 whitespace-nowrap">
+              {matches.length > 0
+                ? t('sourceViewer.matchCount', { current: Math.min(activeMatch, matches.length - 1) + 1, total: matches.length })
+                : t('sourceViewer.noMatches')}
+            </span>
+          )}
+          <button
+            onClick={() => goToMatch(-1)}
+            disabled={matches.length === 0}
+            className="p-1 text-gray-500 hover:text-gray-700 disabled:opacity-40"
+            title={t('sourceViewer.previousMatch')}
+          >
+            <ChevronUp className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => goToMatch(1)}
+            disabled={matches.length === 0}
+            className="p-1 text-gray-500 hover:text-gray-700 disabled:opacity-40"
+            title={t('sourceViewer.nextMatch')}
+          >
+            <ChevronDown className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {/* 批注列表 */}
+      {activeTab === 'annotations' && (
+        <div className="flex-1 overflow-y-auto">
+          <AnnotationList
+            annotations={resolvedAnnotations}
+            outline={outline}
+            onSelect={handleSelectAnnotation}
+            onUpdate={onUpdateAnnotation}
+            onDelete={handleDeleteAnnotation}
+            onCreateCard={onCreateCardFromAnnotation}
+          />
+        </div>
+      )}
+
+      {/* 原文（切换到批注列表时保留，以便定位回原文） */}
+      <div
+        ref={contentRef}
+        className={`relative flex-1 overflow-y-auto p-4 space-y-4 ${activeTab === 'source' ? '' : 'hidden'}`}
+        onMouseUp={handleMouseUp}
+        onClick={handleContentClick}
+      >
+        {pages.map((page, pageIndex) => (
+          <div key={`${page.kind}-${page.number ?? pageIndex}`}>
+            {page.kind !== 'document' && (
+              <div className="mb-2 text-xs text-gray-400 border-b border-dashed border-gray-200">
+                {page.kind === 'page'
+                  ? t('sourceViewer.page', { page: page.number })
+                  : t('sourceViewer.slide', { number: page.number })}
+              </div>
+            )}
+            {page.blocks.map(block => {
+              const isCited = !!citation && block.start < citation.end && block.end > citation.start;
+              const hasActiveMatch = activeMatchOffset >= block.start && activeMatchOffset < block.end;
+              const blockRanges = annotationRanges.filter(({ range }) => range.start < block.end && range.end > block.start);
+              const markedHtml = blockHtml.get(block.start) || '';
+              const html = blockRanges.length > 0
+                ? renderAnnotationMarks(markedHtml, annotations, activeAnnotationId)
+                : markedHtml;
+              // 批注显示在高亮开始的段落下方
+              const blockAnnotations = blockRanges
+                .filter(({ range }) => range.start >= block.start)
+                .map(({ index }) => annotations[index])
+                .filter(annotation => annotation.note || annotation.id === activeAnnotationId);
+              return (
+                <div
+                  key={block.start}
+                  ref={(element) => {
+                    if (element) blockRefs.current.set(block.start, element);
+                    else blockRefs.current.delete(block.start);
+                  }}
+                  className="mb-3"
+                >
+                  <div
+                    data-block-start={block.start}
+                    data-block-end={block.end}
+                    className={`
+                      px-1 rounded text-sm text-gray-700 leading-relaxed break-words
+                      ${renderAsMarkdown ? 'prose prose-sm max-w-none' : 'whitespace-pre-wrap'}
+                      ${isCited ? 'bg-yellow-50 ring-1 ring-yellow-300' : ''}
+                      ${hasActiveMatch ? 'ring-2 ring-primary-300' : ''}
+                    `}
+                    dangerouslySetInnerHTML={{ __html: query.trim() ? highlightHtml(html, query) : html }}
+                  />
+                  {blockAnnotations.length > 0 && (
+                    <div className="mt-1 ml-4 space-y-1">
+                      {blockAnnotations.map(annotation => annotation.id === activeAnnotationId ? (
+                        <AnnotationEditor
+                          key={annotation.id}
+                          annotation={annotation}
+                          onUpdate={(changes) => onUpdateAnnotation(annotation.id, changes)}
+                          onDelete={() => handleDeleteAnnotation(annotation.id)}
+                          onCreateCard={() => onCreateCardFromAnnotation(annotation.id)}
+                          onClose={() => setActiveAnnotationId(null)}
+                        />
+                      ) : (
+                        <button
+                          key={annotation.id}
+                          onClick={() => setActiveAnnotationId(annotation.id)}
+                          className={`block w-full px-2 py-1 text-left text-xs text-gray-700 bg-gray-50 border-l-4 ${ANNOTATION_COLOR_CLASSES[annotation.color].border} rounded whitespace-pre-wrap hover:bg-gray-100`}
+                        >
+                          {annotation.note}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        ))}
+
+        {/* 选中原文后的操作 */}
+        {selectionAction && (
+          <div
+            onMouseDown={(e) => e.preventDefault()}
+            onMouseUp={(e) => e.stopPropagation()}
+            className="absolute z-10 flex items-center gap-1 p-1 bg-white border border-gray-200 rounded shadow-md"
+            style={{ top: selectionAction.top, left: selectionAction.left }}
+          >
+            <button
+              onClick={handleAskAboutSelection}
+              className="flex items-center gap-1 px-2 py-0.5 text-xs font-medium text-white bg-primary-600 hover:bg-primary-700 rounded"
+            >
+              <MessageCircle className="w-3.5 h-3.5" />
+              {t('sourceViewer.askTutor')}
+            </button>
+            {selectionAction.range ? (
+              <>
+                {ANNOTATION_COLORS.map(color => (
+                  <button
+                    key={color}
+                    onClick={() => handleHighlightSelection(color, false)}
+                    className={`w-5 h-5 rounded-full ${ANNOTATION_COLOR_CLASSES[color].swatch} hover:ring-2 hover:ring-gray-300`}
+                    title={t('annotations.highlight', { color: t(`annotations.colors.${color}`) })}
+                  />
+                ))}
+                <button
+                  onClick={() => handleHighlightSelection(ANNOTATION_COLORS[0], true)}
+                  className="flex items-center gap-1 px-2 py-0.5 text-xs text-gray-700 hover:bg-gray-100 rounded"
+                >
+                  <StickyNote className="w-3.5 h-3.5" />
+                  {t('annotations.addNote')}
+                </button>
+              </>
+            ) : (
+              <span className="px-1 text-xs text-gray-400" title={t('annotations.selectionNotLocated')}>
+                <StickyNote className="w-3.5 h-3.5" />
+              </span>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SourceViewer;
@@ -8,6 +8,7 @@ import React, { useState } from 'react';
 import { DocumentSplit } from '../types';
 import Button from './ui/Button';
 import Card from './ui/Card';
+import { useLanguage } from '../contexts/LanguageContext';
 
 interface SplitDocumentSelectorProps {
   /** 拆分后的文档片段列表 */
@@ -33,6 +34,7 @@ const SplitDocumentSelector: React.FC<SplitDocumentSelectorProps> = ({
   onSelectDocument,
   onGoBack,
 }) => {
+  const { locale, t } = useLanguage();
   const [selectedSplitId, setSelectedSplitId] = useState<string | null>(null);
 
   /**
@@ -70,13 +72,13 @@ const SplitDocumentSelector: React.FC<SplitDocumentSelectorProps> = ({
       {/* 标题和说明 */}
       <div className="mb-8 text-center">
         <h2 className="text-3xl font-bold text-gray-900 dark:text-gray-100 mb-3">
-          📚 选择学习内容
+          {t('documentSplit.selectTitle')}
         </h2>
         <p className="text-lg text-gray-600 dark:text-gray-400 mb-2">
-          文档已成功拆分为 {splitDocuments.length} 个部分，请选择您想要学习的内容
+          {t('documentSplit.selectIntro', { count: splitDocuments.length })}
         </p>
         <p className="text-sm text-gray-500 dark:text-gray-500">
-          💡 您可以按任意顺序学习，每完成一部分后可以继续选择其他部分
+          {t('documentSplit.selectTip')}
         </p>
       </div>
 
@@ -84,12 +86,12 @@ const SplitDocumentSelector: React.FC<SplitDocumentSelectorProps> = ({
       {splitDocuments.length > 0 && (
         <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg p-4 mb-6">
           <h3 className="font-semibold text-blue-900 dark:text-blue-100 mb-2">
-            📄 原始文档信息
+            {t('documentSplit.originalInfo')}
           </h3>
           <div className="text-sm text-blue-700 dark:text-blue-300">
-            <span>文档标题：{splitDocuments[0].originalTitle}</span>
+            <span>{t('documentSplit.originalTitle', { title: splitDocuments[0].originalTitle })}</span>
             <span className="ml-6">
-              总字数：{splitDocuments.reduce((sum, split) => sum + split.wordCount, 0).toLocaleString()} 字
+              {t('documentSplit.totalWords', { count: splitDocuments.reduce((sum, split) => sum + split.wordCount, 0).toLocaleString(locale) })}
             </span>
           </div>
         </div>
@@ -125,7 +127,7 @@ const SplitDocumentSelector: React.FC<SplitDocumentSelectorProps> = ({
               {/* 字数信息 */}
               <div className="mb-3">
                 <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-100 dark:bg-gray-800 text-gray-800 dark:text-gray-200">
-                  📊 {split.wordCount.toLocaleString()} 字
+                  📊 {t('common.wordCount', { count: split.wordCount.toLocaleString(locale) })}
                 </span>
               </div>
 
@@ -141,25 +143,25 @@ const SplitDocumentSelector: React.FC<SplitDocumentSelectorProps> = ({
                 <div className="mb-4 text-xs">
                   <div className="bg-gradient-to-r from-blue-50 to-green-50 dark:from-blue-900/20 dark:to-green-900/20 p-3 rounded-lg border border-blue-200 dark:border-blue-800">
                     <div className="flex items-center gap-1 mb-2 text-blue-700 dark:text-blue-300 font-medium">
-                      🧠 智能上下文增强
+                      {t('documentSplit.contextTitle')}
                     </div>
                     <div className="space-y-1 text-gray-600 dark:text-gray-400">
                       {split.fullDocumentSummary && (
                         <div className="flex items-center gap-1">
                           <span>📚</span>
-                          <span>包含完整文档概览</span>
+                          <span>{t('documentSplit.hasDocumentSummary')}</span>
                         </div>
                       )}
                       {split.previousChaptersSummary && (
                         <div className="flex items-center gap-1">
                           <span>🔗</span>
-                          <span>前文章节关联总结</span>
+                          <span>{t('documentSplit.hasPreviousSummary')}</span>
                         </div>
                       )}
                       {split.crossReferences && split.crossReferences.length > 0 && (
                         <div className="flex items-center gap-1">
                           <span>📎</span>
-                          <span>{split.crossReferences.length} 个章节交叉引用</span>
+                          <span>{t('documentSplit.crossReferences', { count: split.crossReferences.length })}</span>
                         </div>
                       )}
                     </div>
@@ -182,10 +184,10 @@ const SplitDocumentSelector: React.FC<SplitDocumentSelectorProps> = ({
                   {selectedSplitId === split.id ? (
                     <>
                       <span className="animate-spin mr-2">⏳</span>
-                      选择中...
+                      {t('documentSplit.selecting')}
                     </>
                   ) : (
-                    '开始学习此部分'
+                    t('documentSplit.startPart')
                   )}
                 </Button>
               </div>
@@ -202,25 +204,25 @@ const SplitDocumentSelector: React.FC<SplitDocumentSelectorProps> = ({
             variant="secondary"
             className="px-6 py-2"
           >
-            ← 返回重新选择
+            {t('documentSplit.goBack')}
           </Button>
         )}
         
         <div className="text-sm text-gray-500 dark:text-gray-400 flex items-center">
-          💡 选择任意部分开始您的学习之旅
+          {t('documentSplit.pickAny')}
         </div>
       </div>
 
       {/* 学习建议 */}
       <div className="mt-8 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg p-4">
         <h3 className="font-semibold text-green-900 dark:text-green-100 mb-2">
-          📖 学习建议
+          {t('documentSplit.adviceTitle')}
         </h3>
         <ul className="text-sm text-green-700 dark:text-green-300 space-y-1">
-          <li>• 建议先浏览各部分标题，了解整体结构</li>
-          <li>• 可以从感兴趣的部分开始，或按顺序学习</li>
-          <li>• 每完成一部分后，可以回到这里选择下一部分</li>
-          <li>• 学习过程中可以随时切换难度级别</li>
+          <li>• {t('documentSplit.advice.overview')}</li>
+          <li>• {t('documentSplit.advice.order')}</li>
+          <li>• {t('documentSplit.advice.next')}</li>
+          <li>• {t('documentSplit.advice.level')}</li>
         </ul>
       </div>
     </div>
@@ -0,0 +1,262 @@
+/**
+ * 学习报告对话框组件
+ *
+ * 汇总一个学习会话的学习情况：
+ * - 学习时长、完成进度、制作的卡片和测验平均分
+ * - 各小节的学习数据和复盘笔记（要点、遇到的困难、待解决的问题）
+ * - 导出为 Markdown，或通过浏览器打印另存为 PDF
+ *
+ * 复盘笔记需要调用AI，只在学习页面生成：默认在小节完成时自动生成（可在页脚关闭），
+ * 也可由学习者按需重新生成；在仪表板中只查看和导出
+ */
+
+import React, { useMemo, useState } from 'react';
+import { marked } from 'marked';
+import { CheckCircle, Circle, Download, FileText, Loader2, RefreshCw } from 'lucide-react';
+import { LearningCard, LearningSession } from '../types';
+import { buildSessionReport, formatStudyTime, reportToMarkdown, SectionReport } from '../utils/studyReport';
+import { escapeHtml } from '../utils/textEscape';
+import Modal from './ui/Modal';
+import Button from './ui/Button';
+import { useLanguage } from '../contexts/LanguageContext';
+
+interface StudyReportModalProps {
+  /** 是否显示对话框 */
+  isOpen: boolean;
+  /** 学习会话 */
+  session: LearningSession;
+  /** 会话的卡片（默认使用会话中保存的卡片） */
+  cards?: LearningCard[];
+  /** 生成（或重新生成）小节的复盘笔记，不提供时只能查看 */
+  onGenerateRecap?: (itemId: string) => void;
+  /** 正在生成复盘笔记的小节 */
+  generatingRecapId?: string | null;
+  /** 生成复盘笔记失败的错误信息 */
+  recapError?: string | null;
+  /** 小节完成时是否自动生成复盘笔记，不提供时不显示该设置 */
+  autoGenerateRecaps?: boolean;
+  /** 切换小节完成时自动生成复盘笔记 */
+  onAutoGenerateRecapsChange?: (value: boolean) => void;
+  /** 关闭对话框 */
+  onClose: () => void;
+}
+
+/** 打印窗口的样式 */
+const PRINT_STYLES = `
+  body { font-family: system-ui, -apple-system, "PingFang SC", "Microsoft YaHei", sans-serif; color: #111827; max-width: 760px; margin: 32px auto; padding: 0 24px; line-height: 1.6; }
+  h1 { font-size: 24px; border-bottom: 2px solid #e5e7eb; padding-bottom: 8px; }
+  h2 { font-size: 18px; margin-top: 28px; }
+  h3 { font-size: 15px; margin-top: 20px; page-break-after: avoid; }
+  ul { padding-left: 20px; }
+  em { color: #6b7280; }
+`;
+
+/**
+ * 生成下载文件名（去掉文件名中不允许的字符）
+ */
+const buildFileName = (title: string, extension: string): string => {
+  const base = title.replace(/[\\/:*?"<>|]+/g, '').trim().slice(0, 60) || 'study-report';
+  return `${base}.${extension}`;
+};
+
+const StudyReportModal: React.FC<StudyReportModalProps> = ({
+  isOpen,
+  session,
+  cards,
+  onGenerateRecap,
+  generatingRecapId,
+  recapError,
+  autoGenerateRecaps,
+  onAutoGenerateRecapsChange,
+  onClose,
+}) => {
+  const { locale, t } = useLanguage();
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  const report = useMemo(() => buildSessionReport(session, cards), [session, cards]);
+
+  /**
+   * 导出为 Markdown 文件
+   */
+  const handleExportMarkdown = () => {
+    const blob = new Blob([reportToMarkdown(report)], { type: 'text/markdown;charset=utf-8;' });
+    const link = document.createElement('a');
+    const url = URL.createObjectURL(blob);
+    link.setAttribute('href', url);
+    link.setAttribute('download', buildFileName(report.title, 'md'));
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+    console.log('📄 学习报告已导出为 Markdown');
+  };
+
+  /**
+   * 在新窗口中打开排版好的报告并调用打印，由浏览器另存为 PDF
+   * 复盘笔记来自模型输出，先转义再渲染，不执行其中的HTML
+   */
+  const handleExportPdf = () => {
+    setExportError(null);
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) {
+      setExportError(t('studyReport.printBlocked'));
+      return;
+    }
+
+    const body = marked.parse(escapeHtml(reportToMarkdown(report)), { async: false }) as string;
+    printWindow.document.write(
+      `<!DOCTYPE html><html><head><meta charset="utf-8"><title>${escapeHtml(t('studyReport.title', { title: report.title }))}</title>` +
+      `<style>${PRINT_STYLES}</style></head><body>${body}</body></html>`
+    );
+    printWindow.document.close();
+    printWindow.focus();
+    printWindow.print();
+  };
+
+  const renderList = (heading: string, entries: string[], className: string) => {
+    if (entries.length === 0) return null;
+    return (
+      <div>
+        <p className={`text-xs font-semibold ${className}`}>{heading}</p>
+        <ul className="mt-1 list-disc list-inside space-y-0.5 text-sm text-gray-700">
+          {entries.map((entry, index) => <li key={index}>{entry}</li>)}
+        </ul>
+      </div>
+    );
+  };
+
+  const renderSection = (section: SectionReport) => {
+    const { item, recap } = section;
+    const isGenerating = generatingRecapId === item.id;
+    return (
+      <div key={item.id} className="p-3 rounded-lg border border-gray-200">
+        <div className="flex items-start gap-2">
+          {item.isCompleted
+            ? <CheckCircle className="w-4 h-4 mt-0.5 flex-shrink-0 text-green-600" />
+            : <Circle className="w-4 h-4 mt-0.5 flex-shrink-0 text-gray-300" />}
+          <div className="flex-1 min-w-0">
+            <p className="text-sm font-medium text-gray-900">{item.title}</p>
+            {section.chapterTitle && <p className="text-xs text-gray-500">{section.chapterTitle}</p>}
+            <p className="mt-1 text-xs text-gray-500">
+              {t('studyReport.sectionStats', {
+                time: formatStudyTime(section.studyTimeMs),
+                questions: section.questionCount,
+                cards: section.cardCount,
+                quiz: section.bestQuizScore ?? t('studyReport.noQuiz'),
+              })}
+            </p>
+          </div>
+          {onGenerateRecap && item.isCompleted && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onGenerateRecap(item.id)}
+              disabled={!!generatingRecapId}
+              icon={isGenerating ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <RefreshCw className="w-3.5 h-3.5" />}
+            >
+              {recap ? t('studyReport.regenerateRecap') : t('studyReport.generateRecap')}
+            </Button>
+          )}
+        </div>
+
+        {isGenerating ? (
+          <p className="mt-2 ml-6 text-sm text-gray-500">{t('studyReport.generatingRecap')}</p>
+        ) : recap ? (
+          <div className="mt-2 ml-6 space-y-2">
+            {renderList(t('studyReport.keyPoints'), recap.keyPoints, 'text-primary-700')}
+            {renderList(t('studyReport.struggles'), recap.struggles, 'text-amber-700')}
+            {renderList(t('studyReport.openQuestions'), recap.openQuestions, 'text-gray-600')}
+          </div>
+        ) : item.isCompleted ? (
+          <p className="mt-2 ml-6 text-xs text-gray-400">{t('studyReport.noRecap')}</p>
+        ) : null}
+      </div>
+    );
+  };
+
+  const stats = [
+    {
+      label: t('studyReport.studyTime'),
+      value: formatStudyTime(report.studyTimeMs),
+      hint: t('studyReport.studyTimeHint'),
+    },
+    {
+      label: t('studyReport.completion'),
+      value: `${report.completionPercent}%`,
+      hint: t('studyReport.completionValue', {
+        completed: report.completedCount,
+        total: report.totalCount,
+        percent: report.completionPercent,
+      }),
+    },
+    { label: t('studyReport.cards'), value: String(report.cardCount) },
+    {
+      label: t('studyReport.averageQuizScore'),
+      value: report.averageQuizScore !== undefined ? String(report.averageQuizScore) : t('studyReport.noQuiz'),
+    },
+  ];
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={t('studyReport.title', { title: report.title })}
+      size="xl"
+      footer={
+        <div className="flex justify-end gap-2">
+          {onAutoGenerateRecapsChange && (
+            <label className="mr-auto flex items-center gap-2 text-sm text-gray-600">
+              <input
+                type="checkbox"
+                checked={!!autoGenerateRecaps}
+                onChange={(e) => onAutoGenerateRecapsChange(e.target.checked)}
+              />
+              {t('studyReport.autoGenerateRecaps')}
+            </label>
+          )}
+          <Button variant="outline" size="sm" onClick={handleExportMarkdown} icon={<Download className="w-4 h-4" />}>
+            {t('studyReport.exportMarkdown')}
+          </Button>
+          <Button variant="outline" size="sm" onClick={handleExportPdf} icon={<FileText className="w-4 h-4" />}>
+            {t('studyReport.exportPdf')}
+          </Button>
+        </div>
+      }
+    >
+      <div className="space-y-4 max-h-[70vh] overflow-y-auto">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          {stats.map(stat => (
+            <div key={stat.label} className="p-3 rounded-lg bg-gray-50" title={stat.hint}>
+              <p className="text-xs text-gray-500">{stat.label}</p>
+              <p className="mt-1 text-lg font-semibold text-gray-900">{stat.value}</p>
+            </div>
+          ))}
+        </div>
+
+        {report.completedAt && (
+          <p className="p-3 text-sm text-green-800 bg-green-50 border border-green-200 rounded-lg">
+            {t('studyReport.allCompleted')}
+          </p>
+        )}
+
+        <p className="text-xs text-gray-500">
+          {t('studyReport.startedAt')}: {new Date(report.startedAt).toLocaleString(locale)}
+          {report.completedAt && (
+            <> · {t('studyReport.completedAt')}: {new Date(report.completedAt).toLocaleString(locale)}</>
+          )}
+        </p>
+
+        {recapError && <p className="text-sm text-red-600">{t('studyReport.recapFailed', { error: recapError })}</p>}
+        {exportError && <p className="text-sm text-red-600">{exportError}</p>}
+
+        <div className="space-y-2">
+          <h4 className="text-sm font-semibold text-gray-900">{t('studyReport.sections')}</h4>
+          {report.sections.map(renderSection)}
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default StudyReportModal;
@@ -4,10 +4,12 @@
  * 根据学习模式提供不同的交互体验：
  * - 小白模式：友好的提示文字，温和的视觉反馈
  * - 高手模式：简洁的界面，快速的操作反馈
+ * - 生成过程中发送按钮切换为停止按钮
  */
 
 import React, { useState, useRef, useEffect } from 'react';
 import { useTheme } from '../contexts/ThemeContext';
+import { useLanguage } from '../contexts/LanguageContext';
 
 export interface ThemedChatInputProps {
   /** 输入值 */
@@ -16,6 +18,8 @@ export interface ThemedChatInputProps {
   onChange: (value: string) => void;
   /** 发送消息回调 */
   onSend: () => void;
+  /** 停止生成回调（提供后，加载中发送按钮会变为停止按钮） */
+  onStop?: () => void;
   /** 是否正在加载 */
   loading?: boolean;
   /** 是否禁用 */
@@ -33,12 +37,14 @@ export const ThemedChatInput: React.FC<ThemedChatInputProps> = ({
   value,
   onChange,
   onSend,
+  onStop,
   loading = false,
   disabled = false,
   placeholder,
   className = '',
 }) => {
   const { currentLevel, currentTheme } = useTheme();
+  const { t } = useLanguage();
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const [isFocused, setIsFocused] = useState(false);
   
@@ -46,8 +52,8 @@ export const ThemedChatInput: React.FC<ThemedChatInputProps> = ({
   
   // 根据模式设置默认占位符
   const defaultPlaceholder = isExpertMode
-    ? '输入消息...'
-    : '请输入您的问题，我会耐心为您解答...';
+    ? t('chat.inputPlaceholderExpert')
+    : t('chat.inputPlaceholderBeginner');
   
   const finalPlaceholder = placeholder || defaultPlaceholder;
   
@@ -99,6 +105,14 @@ export const ThemedChatInput: React.FC<ThemedChatInputProps> = ({
    * 获取发送按钮图标
    */
   const getSendIcon = () => {
+    if (canStop) {
+      return (
+        <svg className="w-4 h-4" viewBox="0 0 24 24" fill="currentColor">
+          <rect x="6" y="6" width="12" height="12" rx="2" />
+        </svg>
+      );
+    }
+
     if (loading) {
       return (
         <div className="animate-spin w-5 h-5">
@@ -136,10 +150,10 @@ export const ThemedChatInput: React.FC<ThemedChatInputProps> = ({
     
     return (
       <div className="flex items-center justify-between text-xs text-[var(--text-tertiary)] mt-2">
-        <span>💡 Enter 发送消息，Shift + Enter 换行</span>
+        <span>{t('chat.sendHint')}</span>
         {value.length > 0 && (
           <span className="opacity-75">
-            {value.length} 字符
+            {t('chat.characters', { count: value.length })}
           </span>
         )}
       </div>
@@ -147,6 +161,8 @@ export const ThemedChatInput: React.FC<ThemedChatInputProps> = ({
   };
   
   const canSend = value.trim() && !loading && !disabled;
+  const canStop = loading && !!onStop;
+  const isButtonActive = canSend || canStop;
   
   return (
     <div 
@@ -208,19 +224,20 @@ export const ThemedChatInput: React.FC<ThemedChatInputProps> = ({
         
         {/* 发送按钮 */}
         <button
-          onClick={handleSend}
-          disabled={!canSend}
+          onClick={canStop ? onStop : handleSend}
+          disabled={!isButtonActive}
+          title={canStop ? t('chat.stop') : t('chat.send')}
           className={`
             flex items-center justify-center flex-shrink-0
             transition-all duration-[var(--transition-normal)]
             focus:outline-none focus:ring-2 focus:ring-[var(--border-focus)] focus:ring-offset-2
             hover:scale-[var(--effect-scale-hover)]
             active:scale-[var(--effect-scale-active)]
-            ${!canSend ? 'opacity-50 cursor-not-allowed' : 'hover:shadow-lg'}
+            ${!isButtonActive ? 'opacity-50 cursor-not-allowed' : 'hover:shadow-lg'}
           `}
           style={{
-            backgroundColor: canSend ? 'var(--surface-message-user)' : 'var(--border-primary)',
-            color: canSend ? 'var(--text-inverse)' : 'var(--text-muted)',
+            backgroundColor: isButtonActive ? 'var(--surface-message-user)' : 'var(--border-primary)',
+            color: isButtonActive ? 'var(--text-inverse)' : 'var(--text-muted)',
             borderRadius: currentTheme.borderRadius.lg,
             width: isExpertMode ? '40px' : '48px',
             height: isExpertMode ? '40px' : '48px',
@@ -238,7 +255,7 @@ export const ThemedChatInput: React.FC<ThemedChatInputProps> = ({
       {isExpertMode && (
         <div className="flex justify-end mt-1">
           <span className="text-xs text-[var(--text-muted)] opacity-60">
-            Enter 发送，Shift + Enter 换行
+            {t('chat.sendHintShort')}
           </span>
         </div>
       )}
@@ -8,6 +8,7 @@
 
 import React from 'react';
 import { useTheme } from '../contexts/ThemeContext';
+import { useLanguage } from '../contexts/LanguageContext';
 
 export interface ThemedChatMessageProps {
   /** 消息角色 */
@@ -24,6 +25,8 @@ export interface ThemedChatMessageProps {
   isHTML?: boolean;
   /** 操作区插槽：用于在消息气泡右上角放置操作按钮（如收藏/灵感） */
   actions?: React.ReactNode;
+  /** 点击HTML内容中的引用标签（data-citation）时回调片段编号 */
+  onCitationClick?: (number: number) => void;
 }
 
 /**
@@ -37,8 +40,10 @@ export const ThemedChatMessage: React.FC<ThemedChatMessageProps> = ({
   className = '',
   isHTML = false,
   actions,
+  onCitationClick,
 }) => {
   const { currentLevel, currentTheme } = useTheme();
+  const { t } = useLanguage();
   
   const isUser = role === 'user';
   const isExpertMode = currentLevel === 'expert';
@@ -95,7 +100,7 @@ export const ThemedChatMessage: React.FC<ThemedChatMessageProps> = ({
     return (
       <div className="flex items-center mb-2 text-sm opacity-75">
         <span className="text-[var(--color-secondary-600)] font-medium">
-          AI助教
+          {t('chat.assistantLabel')}
         </span>
       </div>
     );
@@ -123,6 +128,17 @@ export const ThemedChatMessage: React.FC<ThemedChatMessageProps> = ({
     );
   };
   
+  /**
+   * 引用标签是渲染在HTML中的按钮，通过事件委托处理点击
+   */
+  const handleContentClick = (event: React.MouseEvent<HTMLDivElement>) => {
+    const chip = (event.target as HTMLElement).closest('[data-citation]');
+    if (chip && onCitationClick) {
+      event.stopPropagation();
+      onCitationClick(Number(chip.getAttribute('data-citation')));
+    }
+  };
+
   const maxWidth = getMessageMaxWidth(content);
   
   return (
@@ -178,6 +194,7 @@ export const ThemedChatMessage: React.FC<ThemedChatMessageProps> = ({
                 lineHeight: isExpertMode ? 'var(--line-height-relaxed)' : 'inherit',
                 color: 'inherit',
               }}
+              onClick={handleContentClick}
               dangerouslySetInnerHTML={{ __html: content }}
             />
           ) : (
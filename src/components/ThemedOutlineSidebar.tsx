@@ -4,10 +4,16 @@
  * 根据学习模式提供不同的大纲展示方式：
  * - 小白模式：温和的色彩，详细的信息，友好的图标
  * - 高手模式：简洁的设计，紧凑的布局，专业的外观
+ *
+ * 传入术语表相关属性时，大纲旁显示“术语表”标签页
  */
 
-import React from 'react';
+import React, { useState } from 'react';
 import { useTheme } from '../contexts/ThemeContext';
+import { useLanguage } from '../contexts/LanguageContext';
+import { isChapterHeading } from '../utils/chapterNumbering';
+import { Glossary } from '../types';
+import GlossaryPanel from './GlossaryPanel';
 
 export interface OutlineItem {
   /** 章节ID */
@@ -35,6 +41,14 @@ export interface ThemedOutlineSidebarProps {
   currentChapter?: string;
   /** 章节选择回调 */
   onChapterSelect: (chapterId: string) => void;
+  /** 会话的术语表 */
+  glossary?: Glossary;
+  /** 是否正在生成术语表 */
+  isGeneratingGlossary?: boolean;
+  /** 生成或重新生成术语表 */
+  onGenerateGlossary?: () => void;
+  /** 把术语转换为学习卡片 */
+  onCreateCardFromTerm?: (termId: string) => void;
   /** 自定义类名 */
   className?: string;
 }
@@ -46,11 +60,18 @@ export const ThemedOutlineSidebar: React.FC<ThemedOutlineSidebarProps> = ({
   outline,
   currentChapter,
   onChapterSelect,
+  glossary,
+  isGeneratingGlossary = false,
+  onGenerateGlossary,
+  onCreateCardFromTerm,
   className = '',
 }) => {
   const { currentLevel, currentTheme } = useTheme();
+  const { t } = useLanguage();
+  const [activeTab, setActiveTab] = useState<'outline' | 'glossary'>('outline');
   
   const isExpertMode = currentLevel === 'expert';
+  const showGlossaryTab = !!glossary || !!onGenerateGlossary;
   
 
   
@@ -91,7 +112,7 @@ export const ThemedOutlineSidebar: React.FC<ThemedOutlineSidebarProps> = ({
         }}
       >
         <span>⏱️</span>
-        <span>约 {item.estimatedMinutes} 分钟</span>
+        <span>{t('outline.aboutMinutes', { count: item.estimatedMinutes })}</span>
       </div>
     );
   };
@@ -123,7 +144,7 @@ export const ThemedOutlineSidebar: React.FC<ThemedOutlineSidebarProps> = ({
     if (item.type) {
       return item.type === 'chapter';
     }
-    return item.title.includes('第') && item.title.includes('章');
+    return (item.title.includes('第') && item.title.includes('章')) || isChapterHeading(item.title);
   };
 
   /**
@@ -220,7 +241,7 @@ export const ThemedOutlineSidebar: React.FC<ThemedOutlineSidebarProps> = ({
         }}
       >
         <div className="flex items-center justify-between text-sm mb-2">
-          <span className="text-[var(--text-secondary)] font-medium">学习进度</span>
+          <span className="text-[var(--text-secondary)] font-medium">{t('outline.progress')}</span>
           <span className="text-[var(--surface-message-user)] font-semibold">
             {progressPercent}%
           </span>
@@ -243,25 +264,46 @@ export const ThemedOutlineSidebar: React.FC<ThemedOutlineSidebarProps> = ({
         </div>
         
         <div className="text-xs text-[var(--text-tertiary)] mt-1 text-center">
-          已完成 {completedChapters} / {totalChapters} 章节
+          {t('outline.chaptersCompleted', { completed: completedChapters, total: totalChapters })}
         </div>
       </div>
     );
   };
   
-  return (
-    <div 
-      className={`
-        h-full overflow-y-auto
-        ${className}
-      `}
-      style={{
-        backgroundColor: 'var(--surface-primary)',
-        borderRight: `1px solid var(--border-secondary)`,
-        padding: currentTheme.spacing.container,
-      }}
-    >
-      
+  /**
+   * 渲染大纲与术语表的标签页切换
+   */
+  const renderTabs = () => {
+    if (!showGlossaryTab) return null;
+
+    const tabs = [
+      { id: 'outline' as const, label: t('glossary.outlineTab') },
+      { id: 'glossary' as const, label: t('glossary.glossaryTab', { count: glossary?.terms.length || 0 }) },
+    ];
+    return (
+      <div className="flex gap-4 mb-4 border-b border-[var(--border-light)]">
+        {tabs.map(tab => (
+          <button
+            key={tab.id}
+            onClick={() => setActiveTab(tab.id)}
+            className={`pb-2 -mb-px text-sm font-medium border-b-2 transition-colors ${
+              activeTab === tab.id
+                ? 'border-[var(--surface-message-user)] text-[var(--surface-message-user)]'
+                : 'border-transparent text-[var(--text-secondary)] hover:text-[var(--text-primary)]'
+            }`}
+          >
+            {tab.label}
+          </button>
+        ))}
+      </div>
+    );
+  };
+
+  /**
+   * 渲染大纲标签页
+   */
+  const renderOutlineTab = () => (
+    <>
       {/* 学习进度 */}
       {renderProgress()}
       
@@ -284,7 +326,7 @@ export const ThemedOutlineSidebar: React.FC<ThemedOutlineSidebarProps> = ({
           }}
         >
           {isExpertMode ? '📋' : '📚'} 
-          学习大纲
+          {t('outline.title')}
         </h3>
         
         {!isExpertMode && (
@@ -294,7 +336,7 @@ export const ThemedOutlineSidebar: React.FC<ThemedOutlineSidebarProps> = ({
               fontSize: currentTheme.typography.fontSize.sm,
             }}
           >
-            点击章节开始学习
+            {t('outline.clickToStart')}
           </p>
         )}
       </div>
@@ -308,9 +350,36 @@ export const ThemedOutlineSidebar: React.FC<ThemedOutlineSidebarProps> = ({
       {outline.length === 0 && (
         <div className="text-center text-[var(--text-tertiary)] py-8">
           <div className="text-4xl mb-4">📖</div>
-          <p>暂无学习内容</p>
+          <p>{t('outline.empty')}</p>
         </div>
       )}
+    </>
+  );
+
+  return (
+    <div 
+      className={`
+        h-full overflow-y-auto
+        ${className}
+      `}
+      style={{
+        backgroundColor: 'var(--surface-primary)',
+        borderRight: `1px solid var(--border-secondary)`,
+        padding: currentTheme.spacing.container,
+      }}
+    >
+      {renderTabs()}
+
+      {activeTab === 'glossary' && showGlossaryTab ? (
+        <GlossaryPanel
+          glossary={glossary}
+          outline={outline}
+          isGenerating={isGeneratingGlossary}
+          onGenerate={onGenerateGlossary}
+          onSelectItem={onChapterSelect}
+          onCreateCard={onCreateCardFromTerm}
+        />
+      ) : renderOutlineTab()}
     </div>
   );
 };
@@ -0,0 +1,278 @@
+/**
+ * AI用量与费用面板组件
+ *
+ * 展示本机记录的AI请求用量：
+ * - 本月费用与月度预算进度
+ * - 按日期、学习会话、服务商汇总的token和费用
+ * - 月度预算设置（接近或超出时提醒）
+ */
+
+import React, { useState, useEffect, useMemo } from 'react';
+import { AlertTriangle, BarChart3, Trash2, Wallet } from 'lucide-react';
+import Button from './ui/Button';
+import Input from './ui/Input';
+import { LearningSession, UsageBudget, UsageRecord } from '../types';
+import { getUsageRecords, getUsageBudget, saveUsageBudget, clearUsageRecords } from '../utils/storage';
+import { getSupportedProviders } from '../utils/aiService';
+import { useLanguage } from '../contexts/LanguageContext';
+import {
+  DEFAULT_USAGE_BUDGET,
+  formatCost,
+  getBudgetStatus,
+  summarizeUsage,
+  UsageSummaryRow,
+} from '../utils/usageTracker';
+
+interface UsageDashboardProps {
+  /** 学习会话列表（用于显示会话标题） */
+  sessions: LearningSession[];
+}
+
+type GroupBy = 'day' | 'session' | 'provider';
+
+const GROUP_BY_OPTIONS: GroupBy[] = ['day', 'session', 'provider'];
+
+/** 按日期汇总时最多显示的天数 */
+const MAX_DAY_ROWS = 30;
+
+const UsageDashboard: React.FC<UsageDashboardProps> = ({ sessions }) => {
+  const { locale, t } = useLanguage();
+
+  // 状态管理
+  const [records, setRecords] = useState<UsageRecord[]>([]);
+  const [budget, setBudget] = useState<UsageBudget>(DEFAULT_USAGE_BUDGET);
+  const [groupBy, setGroupBy] = useState<GroupBy>('day');
+  const [limitInput, setLimitInput] = useState('');
+  const [warnPercentInput, setWarnPercentInput] = useState('80');
+
+  /**
+   * 加载用量记录和预算
+   * 会话列表变化（如新建会话、生成大纲后）时重新读取
+   */
+  useEffect(() => {
+    setRecords(getUsageRecords());
+    const savedBudget = getUsageBudget() || DEFAULT_USAGE_BUDGET;
+    setBudget(savedBudget);
+    setLimitInput(savedBudget.monthlyLimit > 0 ? String(savedBudget.monthlyLimit) : '');
+    setWarnPercentInput(String(Math.round(savedBudget.warnRatio * 100)));
+  }, [sessions]);
+
+  const budgetStatus = useMemo(() => getBudgetStatus(records, budget), [records, budget]);
+  const rows = useMemo(() => {
+    const summary = summarizeUsage(records, groupBy);
+    return groupBy === 'day' ? summary.slice(0, MAX_DAY_ROWS) : summary;
+  }, [records, groupBy]);
+
+  const totalTokens = records.reduce((sum, r) => sum + r.promptTokens + r.completionTokens, 0);
+  const hasEstimated = records.some(r => r.estimated);
+  const hasUnknownCost = records.some(r => r.cost === null);
+
+  /**
+   * 获取汇总行的显示名称
+   */
+  const getRowLabel = (row: UsageSummaryRow): string => {
+    if (groupBy === 'session') {
+      if (!row.key) return t('usage.noSession');
+      return sessions.find(s => s.id === row.key)?.title || t('usage.deletedSession');
+    }
+    if (groupBy === 'provider') {
+      return getSupportedProviders().find(p => p.id === row.key)?.name || row.key;
+    }
+    return row.key;
+  };
+
+  /**
+   * 保存月度预算
+   */
+  const handleSaveBudget = () => {
+    const monthlyLimit = Number(limitInput) || 0;
+    const warnPercent = Math.min(100, Math.max(1, Number(warnPercentInput) || 80));
+    const nextBudget: UsageBudget = {
+      monthlyLimit: Math.max(0, monthlyLimit),
+      warnRatio: warnPercent / 100,
+    };
+
+    if (saveUsageBudget(nextBudget)) {
+      setBudget(nextBudget);
+      setWarnPercentInput(String(warnPercent));
+    } else {
+      alert(t('usage.saveBudgetFailed'));
+    }
+  };
+
+  /**
+   * 清空用量记录
+   */
+  const handleClearRecords = () => {
+    if (!confirm(t('usage.confirmClear'))) return;
+    if (clearUsageRecords()) {
+      setRecords([]);
+    }
+  };
+
+  const progressColor = budgetStatus.level === 'exceeded'
+    ? 'bg-red-500'
+    : budgetStatus.level === 'warning'
+      ? 'bg-yellow-500'
+      : 'bg-blue-500';
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border">
+      {/* 标题栏 */}
+      <div className="p-4 border-b border-gray-100">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <BarChart3 className="w-5 h-5 text-blue-500" />
+            <h3 className="font-medium text-gray-900">{t('usage.title')}</h3>
+          </div>
+          <div className="text-sm text-gray-600">
+            {t('usage.thisMonth')} <span className="font-medium text-gray-900">{formatCost(budgetStatus.spent)}</span>
+            {budgetStatus.limit > 0 && <span>{t('usage.budgetOf', { amount: formatCost(budgetStatus.limit) })}</span>}
+          </div>
+        </div>
+
+        {budgetStatus.limit > 0 && (
+          <div className="mt-3 h-2 bg-gray-100 rounded-full overflow-hidden">
+            <div
+              className={`h-full ${progressColor}`}
+              style={{ width: `${Math.min(100, budgetStatus.ratio * 100)}%` }}
+            />
+          </div>
+        )}
+      </div>
+
+      {/* 预算提醒 */}
+      {(budgetStatus.level === 'warning' || budgetStatus.level === 'exceeded') && (
+        <div className={`flex items-center gap-2 px-4 py-3 text-sm ${
+          budgetStatus.level === 'exceeded' ? 'bg-red-50 text-red-700' : 'bg-yellow-50 text-yellow-800'
+        }`}>
+          <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+          {budgetStatus.level === 'exceeded'
+            ? t('usage.exceeded', { amount: formatCost(budgetStatus.spent - budgetStatus.limit) })
+            : t('usage.warning', { percent: Math.round(budgetStatus.ratio * 100) })}
+        </div>
+      )}
+
+      {/* 总览 */}
+      <div className="p-4 bg-gray-50">
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-4 text-sm">
+          <div>
+            <span className="text-gray-600">{t('usage.requests')}</span>
+            <span className="font-medium">{records.length}</span>
+          </div>
+          <div>
+            <span className="text-gray-600">{t('usage.totalTokens')}</span>
+            <span className="font-medium">{totalTokens.toLocaleString(locale)}</span>
+          </div>
+          <div>
+            <span className="text-gray-600">{t('usage.totalCost')}</span>
+            <span className="font-medium">{formatCost(records.reduce((sum, r) => sum + (r.cost ?? 0), 0))}</span>
+          </div>
+        </div>
+        {(hasEstimated || hasUnknownCost) && (
+          <p className="mt-2 text-xs text-gray-500">
+            {hasEstimated && t('usage.estimatedNote')}
+            {hasUnknownCost && t('usage.unknownCostNote')}
+            {t('usage.costDisclaimer')}
+          </p>
+        )}
+      </div>
+
+      {/* 汇总表 */}
+      <div className="p-4">
+        <div className="flex items-center gap-2 mb-3">
+          {GROUP_BY_OPTIONS.map(key => (
+            <button
+              key={key}
+              onClick={() => setGroupBy(key)}
+              className={`px-3 py-1 text-sm rounded-full border transition-colors ${
+                groupBy === key
+                  ? 'bg-blue-50 border-blue-300 text-blue-700'
+                  : 'border-gray-200 text-gray-600 hover:bg-gray-50'
+              }`}
+            >
+              {t(`usage.groupBy.${key}`)}
+            </button>
+          ))}
+        </div>
+
+        {rows.length === 0 ? (
+          <p className="text-sm text-gray-500 py-6 text-center">{t('usage.empty')}</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b border-gray-100">
+                  <th className="py-2 pr-4 font-normal">{t(`usage.columns.${groupBy}`)}</th>
+                  <th className="py-2 pr-4 font-normal text-right">{t('usage.columns.requests')}</th>
+                  <th className="py-2 pr-4 font-normal text-right">{t('usage.columns.promptTokens')}</th>
+                  <th className="py-2 pr-4 font-normal text-right">{t('usage.columns.completionTokens')}</th>
+                  <th className="py-2 font-normal text-right">{t('usage.columns.cost')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(row => (
+                  <tr key={row.key || 'none'} className="border-b border-gray-50">
+                    <td className="py-2 pr-4 text-gray-900 truncate max-w-xs">{getRowLabel(row)}</td>
+                    <td className="py-2 pr-4 text-right">{row.requests}</td>
+                    <td className="py-2 pr-4 text-right">
+                      {row.promptTokens.toLocaleString(locale)}{row.hasEstimated && '*'}
+                    </td>
+                    <td className="py-2 pr-4 text-right">
+                      {row.completionTokens.toLocaleString(locale)}{row.hasEstimated && '*'}
+                    </td>
+                    <td className="py-2 text-right">
+                      {formatCost(row.cost)}{row.hasUnknownCost && '+'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* 预算设置 */}
+      <div className="p-4 border-t border-gray-100">
+        <h4 className="font-medium text-gray-900 mb-3 flex items-center gap-2">
+          <Wallet className="w-4 h-4 text-gray-500" />
+          {t('usage.monthlyBudget')}
+        </h4>
+        <div className="flex flex-wrap items-end gap-3">
+          <Input
+            type="number"
+            min={0}
+            step="0.01"
+            label={t('usage.budgetLabel')}
+            value={limitInput}
+            onChange={(e) => setLimitInput(e.target.value)}
+            containerClassName="w-56"
+          />
+          <Input
+            type="number"
+            min={1}
+            max={100}
+            label={t('usage.warnLabel')}
+            value={warnPercentInput}
+            onChange={(e) => setWarnPercentInput(e.target.value)}
+            containerClassName="w-32"
+          />
+          <Button variant="primary" size="sm" onClick={handleSaveBudget}>
+            {t('usage.saveBudget')}
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleClearRecords}
+            disabled={records.length === 0}
+            icon={<Trash2 className="w-4 h-4" />}
+          >
+            {t('usage.clearRecords')}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UsageDashboard;
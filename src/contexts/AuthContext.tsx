@@ -12,6 +12,7 @@ import React, { createContext, useContext, useEffect, useState } from 'react'
 import { User, Session, AuthError } from '@supabase/supabase-js'
 import { createClient } from '../utils/supabase'
 import { DbUser } from '../types/database.types'
+import { t } from '../utils/i18n'
 
 interface AuthContextType {
   // 认证状态
@@ -142,18 +143,18 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       if (data.user && !data.user.email_confirmed_at) {
         return { 
           success: true, 
-          message: '注册成功！请检查您的邮箱并点击验证链接来激活账户。' 
+          message: t('authService.signupConfirmEmail') 
         }
       }
 
       // 注册并已验证
       return { 
         success: true, 
-        message: '注册成功！欢迎使用AI学习私教。' 
+        message: t('authService.signupSuccess') 
       }
     } catch (error) {
       console.error('注册失败:', error)
-      return { success: false, error: '注册过程中发生错误，请稍后重试。' }
+      return { success: false, error: t('authService.signupError') }
     } finally {
       setLoading(false)
     }
@@ -178,14 +179,14 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       if (data.user) {
         return { 
           success: true, 
-          message: '登录成功！欢迎回来。' 
+          message: t('authService.loginSuccess') 
         }
       }
 
-      return { success: false, error: '登录失败，请检查您的凭据。' }
+      return { success: false, error: t('authService.loginFailed') }
     } catch (error) {
       console.error('登录失败:', error)
-      return { success: false, error: '登录过程中发生错误，请稍后重试。' }
+      return { success: false, error: t('authService.loginError') }
     } finally {
       setLoading(false)
     }
@@ -206,11 +207,11 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
       return { 
         success: true, 
-        message: '已成功登出。' 
+        message: t('authService.logoutSuccess') 
       }
     } catch (error) {
       console.error('登出失败:', error)
-      return { success: false, error: '登出过程中发生错误。' }
+      return { success: false, error: t('authService.logoutError') }
     } finally {
       setLoading(false)
     }
@@ -231,11 +232,11 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
       return { 
         success: true, 
-        message: '密码重置邮件已发送，请检查您的邮箱。' 
+        message: t('authService.resetEmailSent') 
       }
     } catch (error) {
       console.error('重置密码失败:', error)
-      return { success: false, error: '重置密码过程中发生错误。' }
+      return { success: false, error: t('authService.resetError') }
     }
   }
 
@@ -245,7 +246,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const updateProfile = async (updates: Partial<DbUser>): Promise<AuthResult> => {
     try {
       if (!user) {
-        return { success: false, error: '用户未登录' }
+        return { success: false, error: t('authService.notLoggedIn') }
       }
 
       const { error } = await supabase
@@ -262,11 +263,11 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
       return { 
         success: true, 
-        message: '档案更新成功！' 
+        message: t('authService.profileUpdated') 
       }
     } catch (error) {
       console.error('更新档案失败:', error)
-      return { success: false, error: '更新档案过程中发生错误。' }
+      return { success: false, error: t('authService.profileError') }
     }
   }
 
@@ -285,19 +286,19 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const getErrorMessage = (error: AuthError): string => {
     switch (error.message) {
       case 'Invalid login credentials':
-        return '邮箱或密码错误，请检查后重试。'
+        return t('authService.invalidCredentials')
       case 'Email not confirmed':
-        return '请先验证您的邮箱地址。'
+        return t('authService.emailNotConfirmed')
       case 'User already registered':
-        return '该邮箱已被注册，请直接登录或使用其他邮箱。'
+        return t('authService.alreadyRegistered')
       case 'Password should be at least 6 characters':
-        return '密码至少需要6位字符。'
+        return t('authService.weakPassword')
       case 'Only an email address is required':
-        return '请输入有效的邮箱地址。'
+        return t('authService.emailRequiredForSignup')
       case 'Unable to validate email address: invalid format':
-        return '邮箱格式不正确，请检查后重试。'
+        return t('authService.invalidEmailFormat')
       default:
-        return error.message || '发生未知错误，请稍后重试。'
+        return error.message || t('authService.unknownError')
     }
   }
 
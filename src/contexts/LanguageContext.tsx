@@ -0,0 +1,89 @@
+/**
+ * 语言上下文提供者
+ *
+ * 提供全局语言管理功能：
+ * - 当前语言状态（来自用户偏好设置）
+ * - 运行时切换语言，界面立即重新渲染，无需刷新页面
+ * - 切换结果保存到偏好设置（登录后同步到云端）
+ */
+
+import React, { createContext, useContext, useEffect, useState, useCallback } from 'react';
+import { Language } from '../types';
+import { DEFAULT_LANGUAGE, MessageKey, MessageParams, getCurrentLanguage, getLocale, translate } from '../utils/i18n';
+import { getUserPreferences, saveUserPreferences } from '../utils/storage';
+import { storageAdapter } from '../utils/storageAdapter';
+
+/**
+ * 语言上下文接口
+ */
+interface LanguageContextType {
+  /** 当前语言 */
+  language: Language;
+  /** 当前语言的区域设置（用于日期和数字格式化），如 'zh-CN' */
+  locale: string;
+  /** 切换语言 */
+  setLanguage: (language: Language) => void;
+  /** 按当前语言翻译 */
+  t: (key: MessageKey, params?: MessageParams) => string;
+}
+
+/**
+ * 语言上下文
+ */
+const LanguageContext = createContext<LanguageContextType | undefined>(undefined);
+
+/**
+ * 语言上下文Hook
+ * 用于在组件中获取当前语言和翻译函数
+ */
+export const useLanguage = (): LanguageContextType => {
+  const context = useContext(LanguageContext);
+  if (context === undefined) {
+    throw new Error('useLanguage 必须在 LanguageProvider 内部使用');
+  }
+  return context;
+};
+
+/**
+ * 语言提供者组件
+ */
+export const LanguageProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  // 服务端渲染时没有偏好设置，先使用默认语言，挂载后再读取，避免水合不一致
+  const [language, setLanguageState] = useState<Language>(DEFAULT_LANGUAGE);
+
+  useEffect(() => {
+    setLanguageState(getCurrentLanguage());
+
+    // 导入数据或云端同步后偏好设置可能已变化
+    const onImported = () => setLanguageState(getCurrentLanguage());
+    window.addEventListener('storageImported', onImported);
+    return () => window.removeEventListener('storageImported', onImported);
+  }, []);
+
+  useEffect(() => {
+    document.documentElement.lang = getLocale(language);
+  }, [language]);
+
+  /**
+   * 切换语言并保存到偏好设置
+   */
+  const setLanguage = useCallback((next: Language) => {
+    setLanguageState(next);
+    // 先同步写入本地，AI请求等非组件代码立即使用新语言；再通过适配器同步到云端
+    saveUserPreferences({ language: next });
+    storageAdapter.saveUserPreferences({ ...getUserPreferences(), language: next }).catch(error => {
+      console.warn('保存语言设置失败:', error);
+    });
+  }, []);
+
+  const t = useCallback(
+    (key: MessageKey, params?: MessageParams) => translate(language, key, params),
+    [language]
+  );
+
+  return (
+    <LanguageContext.Provider value={{ language, locale: getLocale(language), setLanguage, t }}>
+      {children}
+    </LanguageContext.Provider>
+  );
+};
@@ -0,0 +1,1430 @@
+/**
+ * English message catalog
+ *
+ * Must mirror the structure of zh.ts. {name} placeholders are filled in by t()
+ */
+
+import { Messages } from './zh';
+
+const en: Messages = {
+  common: {
+    language: 'Language',
+    save: 'Save',
+    cancel: 'Cancel',
+    confirm: 'OK',
+    delete: 'Delete',
+    edit: 'Edit',
+    close: 'Close',
+    back: 'Back',
+    retry: 'Retry',
+    loading: 'Loading...',
+    unknownError: 'Unknown error',
+    beginnerMode: 'Beginner mode',
+    expertMode: 'Expert mode',
+    beginner: 'Beginner',
+    expert: 'Expert',
+    minutes: '{count} min',
+    wordCount: '{count} characters',
+    untitledDocument: 'Untitled document',
+  },
+
+  promptTemplates: {
+    title: 'Prompt templates & tutor personas',
+    create: 'New template',
+    intro: 'New sessions use the default template. Each session remembers the template version it was created with, so later edits do not affect existing sessions.',
+    kinds: {
+      tutor: 'Tutor persona',
+      outline: 'Outline generation',
+      cardTitle: 'Card title',
+    },
+    defaultBadge: 'Default',
+    builtInBadge: 'Built-in',
+    setDefault: 'Set as default',
+    duplicate: 'Duplicate',
+    copyName: '{name} (copy)',
+    restoreBuiltIn: 'Restore built-in',
+    confirmRestore: 'Restore "{name}" to its built-in content? Your modified versions will be deleted.',
+    confirmDelete: 'Delete "{name}"? Sessions using it will switch to the default template.',
+    saveFailed: 'Failed to save the template, please try again',
+    nameAndContentRequired: 'Template name and content are required',
+    editTitle: 'Edit: {name}',
+    createTitle: 'New {kind} template',
+    name: 'Name',
+    namePlaceholder: 'e.g. Exam coach, Code reviewer',
+    description: 'Description (optional)',
+    history: 'Version history',
+    historyPlaceholder: '{count} versions, pick one to load into the editor',
+    historyHelp: 'Saving after loading an old version restores it as a new version',
+    builtInVersion: ' (built-in)',
+    versionDate: ' ({date})',
+    content: 'Template content',
+    variablesHelp: 'Available variables (write {{variable}}); {{#if variable}}...{{/if}} is kept when the variable is not empty, {{#if variable=value}}...{{/if}} is kept when the variable equals the value:',
+    persona: 'Tutor persona',
+    variables: {
+      tutor: {
+        document: 'Learning material (retrieved or condensed excerpts for long documents)',
+        documentLabel: 'Note about the material, e.g. " (key parts extracted)"; empty when complete',
+        documentNotice: 'Instructions for the tutor when the material was condensed; empty when complete',
+        outline: 'Outline with section IDs',
+        level: 'Display name of the level: Beginner or Expert (follows the interface language)',
+        levelId: 'Level: beginner or expert, handy in conditions such as {{#if levelId=beginner}}',
+        language: 'Interface language: 中文 or English',
+        conversationSummary: 'Summary of the earlier conversation; empty when there is none',
+      },
+      outline: {
+        document: 'Document content (condensed when too long)',
+        titleInstruction: 'Instructions for generating a title, or the existing document title',
+        wordCount: 'Document length in characters',
+        truncationNote: 'Note when the content was condensed; empty when complete',
+        totalMinutes: 'Total estimated study time (minutes)',
+        recommendedChapters: 'Recommended number of chapters',
+        recommendedSections: 'Recommended sections per chapter',
+        longDocumentNote: 'Notes for long documents; empty for normal documents',
+        structureInstructions: 'Chapter planning requirements from the structure analysis',
+        responseFormat: 'Example of the JSON response format',
+        language: 'Interface language: 中文 or English',
+      },
+      cardTitle: {
+        content: 'The content that needs a title',
+        language: 'Interface language: 中文 or English',
+      },
+    },
+  },
+
+  chat: {
+    inputPlaceholderExpert: 'Type a message...',
+    inputPlaceholderBeginner: 'Ask me anything and I will patiently explain...',
+    sendHint: '💡 Enter to send, Shift + Enter for a new line',
+    sendHintShort: 'Enter to send, Shift + Enter for a new line',
+    characters: '{count} characters',
+    stop: 'Stop generating',
+    send: 'Send',
+    assistantLabel: 'AI tutor',
+  },
+
+  outline: {
+    title: 'Outline',
+    clickToStart: 'Click a chapter to start learning',
+    progress: 'Progress',
+    chaptersCompleted: '{completed} / {total} chapters completed',
+    aboutMinutes: 'About {count} min',
+    empty: 'Nothing to learn yet',
+  },
+
+  layout: {
+    resizeHandle: 'Drag to resize the panel, double-click to reset',
+  },
+
+  chatInterface: {
+    inputPlaceholder: 'Ask your question...',
+    addInspiration: 'Got an idea? Add a note',
+    bookmark: 'Save to cards',
+    answeredByFallback: '🔀 Primary provider unavailable, answered by backup model: ',
+    answeredBy: 'Answered by: ',
+    interrupted: '⏹️ Reply was stopped; only the generated part is kept',
+    readyTitle: 'Your AI tutor is ready',
+    readyDescription: 'I will guide you through the document you uploaded. Ask me anything at any time!',
+    thinking: 'Your tutor is thinking',
+    inspirationTitle: 'Capture your idea',
+    inspirationLabel: 'Your thoughts and reflections:',
+    inspirationPlaceholder: 'Write down what this inspired, your ideas or how you feel about it...',
+    inspirationLength: '{count}/500 characters',
+    saveInspiration: 'Save idea',
+    regenerate: 'Regenerate answer',
+    editMessage: 'Edit question',
+    saveAndResend: 'Save and resend',
+    previousBranch: 'Previous version',
+    nextBranch: 'Next version',
+    branchCount: '{index}/{total}',
+    choices: {
+      readyYes: 'I\'m ready, let\'s go!',
+      readyWait: 'Wait a moment',
+      nextSection: 'Start the next section',
+      review: 'Review once more',
+      interested: 'Yes, let\'s do it',
+      skipToNext: 'Skip to the next section',
+      goodContinue: 'Great, continue',
+      haveDoubts: 'I have questions',
+      noQuestions: 'No questions',
+      haveQuestions: 'I have a question',
+      noNeed: 'No need',
+      needMore: 'Please add more',
+      understood: 'Got it',
+      stillUnclear: 'Still unclear',
+      yes: 'Yes',
+      notYet: 'No, wait',
+    },
+  },
+
+  outlineEditor: {
+    newChapter: 'New chapter',
+    newSection: 'New section',
+    completed: 'Completed',
+    addSection: 'Add section',
+    addChapterBeginner: '+ Add a new chapter',
+    addChapter: 'Add chapter',
+    emptyReadonly: 'No outline yet',
+    emptyBeginner: 'Click the button above to start building your outline',
+    emptyExpert: 'Click the button above to add the first chapter',
+  },
+
+  sessions: {
+    today: 'Today {time}',
+    yesterday: 'Yesterday {time}',
+    daysAgo: '{count} days ago',
+    documentTypes: {
+      url: 'Web page',
+      pdf: 'PDF document',
+      word: 'Word document',
+      ppt: 'PowerPoint',
+      markdown: 'Markdown',
+      text: 'Text document',
+    },
+    status: {
+      draft: 'Draft',
+      active: 'In progress',
+      completed: 'Completed',
+      paused: 'Paused',
+      unknown: 'Unknown',
+    },
+    searchPlaceholder: 'Search sessions...',
+    allStatuses: 'All statuses',
+    sortRecent: 'Recently updated',
+    sortTitle: 'By title',
+    sortStatus: 'By status',
+    noMatches: 'No matching sessions',
+    noSessions: 'No learning sessions yet',
+    adjustFilters: 'Try adjusting your search or filters',
+    uploadFirst: 'Upload your first document to start learning',
+    selectAll: 'Select all ({selected}/{total})',
+    batchDelete: 'Delete selected',
+    selectSession: 'Select this session',
+    chapterCount: '{count} items',
+    completedCount: '{count} completed',
+    messageCount: '{count} messages',
+    progress: 'Progress',
+    currentChapter: 'Currently studying: ',
+    unknownChapter: 'Unknown chapter',
+    continue: 'Continue',
+    total: '{count} sessions in total',
+    showing: ' · showing {count}',
+  },
+
+  usage: {
+    title: 'AI usage & cost',
+    thisMonth: 'This month',
+    budgetOf: ' / budget {amount}',
+    exceeded: 'This month\'s cost is {amount} over budget',
+    warning: 'This month\'s cost has reached {percent}% of the budget, keep an eye on usage',
+    requests: 'Requests: ',
+    totalTokens: 'Total tokens: ',
+    totalCost: 'Total cost: ',
+    estimatedNote: 'Values marked * include usage estimated from text length (the provider returned no usage). ',
+    unknownCostNote: 'Some model prices are unknown and are not included. ',
+    costDisclaimer: 'Costs are estimated from public pricing; your provider\'s bill is authoritative.',
+    groupBy: {
+      day: 'By day',
+      session: 'By session',
+      provider: 'By provider',
+    },
+    columns: {
+      day: 'Day',
+      session: 'Session',
+      provider: 'Provider',
+      requests: 'Requests',
+      promptTokens: 'Input tokens',
+      completionTokens: 'Output tokens',
+      cost: 'Cost',
+    },
+    noSession: 'No session (outline generation, connection tests, etc.)',
+    deletedSession: 'Deleted session',
+    empty: 'No usage recorded yet',
+    saveBudgetFailed: 'Failed to save the budget, please try again',
+    confirmClear: 'Clear all usage records? This cannot be undone.',
+    monthlyBudget: 'Monthly budget',
+    budgetLabel: 'Monthly budget (USD, leave empty for no limit)',
+    warnLabel: 'Warning threshold (%)',
+    saveBudget: 'Save budget',
+    clearRecords: 'Clear records',
+  },
+
+  sync: {
+    notLoggedIn: 'Not signed in',
+    syncingData: 'Syncing data...',
+    pendingItems: '{count} items waiting to sync',
+    synced: 'All synced',
+    syncing: 'Syncing...',
+    sync: 'Sync',
+    loginRequired: 'Sign in to use cloud sync',
+    analyzing: 'Analyzing data to sync...',
+    title: 'Smart cloud sync',
+    dataSize: 'Data size: {size}',
+    cost: 'Cost: {cost}',
+    pendingLabel: 'Pending items:',
+    lastSync: 'Last sync:',
+    neverSynced: 'Never',
+    syncToCloud: 'Sync to cloud',
+    preview: 'Preview',
+    previewTitle: 'Sync preview',
+    criticalData: 'Essential data ({count} items)',
+    preferences: 'User preferences',
+    importantData: 'Important data ({count} items) - optional',
+    moreItems: '{count} more...',
+    estimatedTime: 'Estimated time:',
+    seconds: '{count} s',
+    minutes: '{count} min',
+    success: 'Sync succeeded',
+    failed: 'Sync failed',
+    syncedItems: 'Synced: {count} items',
+    failedItems: 'Failed: {count} items',
+    duration: 'Took: {seconds} s',
+    saved: 'Saved: {size} KB',
+    errorDetails: 'Error details',
+  },
+
+  dataLifecycle: {
+    confirmCleanup: 'Clean up temporary data older than {days} days? This cannot be undone.',
+    exportFailed: 'Export failed, please try again',
+    invalidJson: 'The selected file is not valid JSON',
+    confirmOverwrite: 'Import in "overwrite" mode?\nOK: replace all local data\nCancel: merge into local data (deduplicated)',
+    mergeFailed: 'Merge import failed, try again or use overwrite mode',
+    importedOverwrite: 'Import succeeded (overwrite)',
+    importedMerge: 'Import succeeded (merge)',
+    importInvalid: 'Import failed, please check the file content and format',
+    importFailed: 'Import failed, please try again',
+    loading: 'Loading storage stats...',
+    loadFailed: 'Could not load storage stats',
+    title: 'Data lifecycle',
+    sessions: 'Sessions:',
+    cards: 'Saved cards:',
+    temporary: 'Temporary data:',
+    usageDuration: 'Using for:',
+    days: '{count} days',
+    newUser: 'New user',
+    cleanupTitle: 'Cleanup',
+    cleanupBefore: 'Clean up temporary data older than',
+    cleanupAfter: 'days',
+    temporaryHint: 'Temporary data means sessions with no saved cards that have not been updated for a long time',
+    cleaning: 'Cleaning up...',
+    cleanup: 'Clean up ({count})',
+    export: 'Export backup',
+    import: 'Import backup',
+    cleanupDone: 'Cleanup complete',
+    cleanupFailed: 'Cleanup failed',
+    cleanedCount: 'Removed {count} temporary sessions',
+    spaceFreed: ' and freed up storage',
+    cleanupError: 'Cleanup failed: {error}',
+    timeline: 'Data timeline',
+    oldest: 'Oldest data: {date}',
+    newest: 'Newest data: {date}',
+    activeDays: 'Active period: {count} days',
+  },
+
+  auth: {
+    emailRequired: 'Please enter your email address',
+    emailInvalid: 'Invalid email address',
+    passwordRequired: 'Please enter a password',
+    passwordTooShort: 'Password must be at least 6 characters',
+    usernameRequired: 'Please enter a username',
+    usernameTooShort: 'Username must be at least 2 characters',
+    usernameTooLong: 'Username must be at most 20 characters',
+    usernameInvalid: 'Username may only contain letters, numbers, Chinese characters, underscores and hyphens',
+    confirmPasswordRequired: 'Please confirm your password',
+    passwordMismatch: 'Passwords do not match',
+    success: 'Done!',
+    failed: 'Something went wrong, please try again later',
+    error: 'An error occurred, please try again later',
+    login: 'Sign in',
+    signup: 'Sign up',
+    resetPassword: 'Reset password',
+    authenticate: 'Authentication',
+    loggingIn: 'Signing in...',
+    signingUp: 'Signing up...',
+    sending: 'Sending...',
+    sendResetEmail: 'Send reset email',
+    submit: 'Submit',
+    email: 'Email address',
+    username: 'Username',
+    password: 'Password',
+    confirmPassword: 'Confirm password',
+    noAccount: 'Don\'t have an account?',
+    signupNow: 'Sign up now',
+    forgotPassword: 'Forgot password?',
+    haveAccount: 'Already have an account?',
+    loginNow: 'Sign in now',
+    rememberedPassword: 'Remembered your password?',
+    backToLogin: 'Back to sign in',
+  },
+
+  authService: {
+    signupConfirmEmail: 'Signed up! Check your inbox and click the verification link to activate your account.',
+    signupSuccess: 'Signed up! Welcome to your AI learning tutor.',
+    signupError: 'An error occurred while signing up, please try again later.',
+    loginSuccess: 'Signed in. Welcome back!',
+    loginFailed: 'Sign-in failed, please check your credentials.',
+    loginError: 'An error occurred while signing in, please try again later.',
+    logoutSuccess: 'Signed out.',
+    logoutError: 'An error occurred while signing out.',
+    resetEmailSent: 'Password reset email sent, please check your inbox.',
+    resetError: 'An error occurred while resetting the password.',
+    notLoggedIn: 'Not signed in',
+    profileUpdated: 'Profile updated!',
+    profileError: 'An error occurred while updating the profile.',
+    invalidCredentials: 'Incorrect email or password, please try again.',
+    emailNotConfirmed: 'Please verify your email address first.',
+    alreadyRegistered: 'This email is already registered. Sign in or use another email.',
+    weakPassword: 'Password must be at least 6 characters.',
+    emailRequiredForSignup: 'Please enter a valid email address.',
+    invalidEmailFormat: 'Invalid email format, please check and try again.',
+    unknownError: 'An unknown error occurred, please try again later.',
+  },
+
+  documentSplit: {
+    confirmTitle: '📄 This document is long — consider splitting it',
+    confirmIntro: 'Your document is quite long. For a better learning experience, we suggest splitting it into several parts.',
+    documentInfo: '📊 Document info',
+    originalDocument: 'Original document:',
+    documentLength: 'Length:',
+    suggestedSplit: 'Suggested split:',
+    partCount: '{count} parts',
+    preview: '📋 Split preview',
+    approxWords: 'About {count} characters',
+    partNumber: 'Part {number}',
+    benefitsTitle: '✨ Why split the document',
+    benefits: {
+      focused: 'Each part is a manageable size, so learning stays focused',
+      flexible: 'Choose the order that fits your schedule',
+      progress: 'Better control over progress and a stronger sense of achievement',
+      pressure: 'Avoid feeling overwhelmed by too much content at once',
+    },
+    learnWhole: 'Study the whole document',
+    confirmSplit: 'Split and study',
+    confirmTip: '💡 Tip: after splitting, you can pick the order and difficulty level freely',
+    selectTitle: '📚 Choose what to study',
+    selectIntro: 'The document was split into {count} parts. Choose the one you want to study',
+    selectTip: '💡 Study in any order; after finishing one part you can pick another',
+    originalInfo: '📄 Original document',
+    originalTitle: 'Title: {title}',
+    totalWords: 'Total length: {count} characters',
+    contextTitle: '🧠 Context enhancement',
+    hasDocumentSummary: 'Includes a full document overview',
+    hasPreviousSummary: 'Summary of earlier chapters',
+    crossReferences: '{count} cross-references to other chapters',
+    selecting: 'Selecting...',
+    startPart: 'Study this part',
+    goBack: '← Back',
+    pickAny: '💡 Pick any part to start learning',
+    adviceTitle: '📖 Study tips',
+    advice: {
+      overview: 'Skim the part titles first to get the overall structure',
+      order: 'Start with whatever interests you, or go in order',
+      next: 'After each part, come back here to choose the next one',
+      level: 'You can switch the difficulty level at any time',
+    },
+  },
+
+  apiConfig: {
+    title: 'AI service settings',
+    heading: 'Configure your AI service',
+    introProxy: 'Choose your preferred AI provider. Requests are sent through the server proxy and the API key stays on the server.',
+    introLocal: 'Choose your preferred AI provider and enter its API key. The settings are stored in your browser\'s local storage.',
+    provider: 'AI provider',
+    providerHelp: 'The AI provider you want to use',
+    proxyEnforced: 'This deployment requires the server proxy for AI requests, so no API key is needed.',
+    useProxy: 'Send requests through the server proxy',
+    useProxyHelp: 'The API key lives in the server\'s environment; the browser neither stores nor sends it',
+    proxyMissingKey: 'The server has no key configured for {provider}',
+    proxyAvailable: '. Available providers: {providers}',
+    proxyContactAdmin: '. Please contact the administrator',
+    listSeparator: ', ',
+    apiFormat: 'API format',
+    apiFormatOllama: 'Ollama native API',
+    apiFormatOpenAI: 'OpenAI-compatible API (vLLM, LM Studio, etc.)',
+    apiFormatHelp: 'Ollama also offers an OpenAI-compatible API (URL ending in /v1)',
+    baseUrl: 'Server URL',
+    baseUrlHelp: 'Address of the model server on your machine or network; leave empty for the default',
+    apiKey: 'API key',
+    apiKeyOptional: 'API key (optional)',
+    apiKeyPlaceholder: 'Enter your API key',
+    fallbackApiKeyPlaceholder: 'Enter the API key',
+    apiKeyNotNeeded: 'Local servers usually need no key',
+    apiKeyHelp: 'Your API key is stored locally and never uploaded to the server',
+    model: 'Model',
+    modelCount: '{count} models available on the server',
+    modelName: 'Model name (optional)',
+    defaultModelPlaceholder: 'Use the default model',
+    defaultModel: 'Default model: {model}',
+    unknown: 'unknown',
+    loadModels: 'Load model list',
+    advanced: 'Advanced options',
+    customEndpoint: 'Custom API endpoint (optional)',
+    customEndpointHelp: 'Enter a custom endpoint if you use a proxy or a self-hosted service',
+    fallbacks: 'Backup providers (optional)',
+    fallbacksHelp: 'When the primary provider fails or runs out of retries, these providers are tried in order',
+    add: 'Add',
+    fallbackLabel: 'Backup {number}',
+    moveUp: 'Move up',
+    moveDown: 'Move down',
+    fallbackProvider: 'Provider',
+    testConnection: 'Test connection',
+    saveConfig: 'Save settings',
+    securityTitle: 'Security note',
+    securityProxy: 'In proxy mode the API key stays on the server; the browser only stores settings such as provider and model.',
+    securityLocal: 'Your API key is stored in the browser\'s local storage. Do not save sensitive information on a public computer. Clearing browser data removes all saved settings.',
+    offlineProviderHint: 'The offline demo generates outlines, chat replies, cards and quizzes from built-in sample data. It needs no API key and sends no network requests.',
+    fixtures: 'Offline mode and recordings',
+    fixturesHelp: 'Record real provider replies and export them as a JSON file, then replay them without a network connection or API key for development and demos.',
+    fixtureMode: 'Mode',
+    fixtureModeOff: 'Off',
+    fixtureModeRecord: 'Record: save the reply to every AI request',
+    fixtureModeReplay: 'Replay: use recorded replies and never call the provider',
+    fixtureModeReplayHelp: 'Requests that were not recorded are answered with the offline demo\'s sample data.',
+    fixtureModeEnforced: 'This deployment fixes the mode with the NEXT_PUBLIC_AI_FIXTURE_MODE environment variable.',
+    recordedCount: '{count} recorded exchanges',
+    exportFixtures: 'Export recordings',
+    importFixtures: 'Import recordings',
+    clearFixtures: 'Clear recordings',
+    clearFixturesConfirm: 'Clear all recorded exchanges?',
+    fixturesImported: 'Imported {count} exchanges',
+    fixturesImportFailed: 'Import failed: {error}',
+    recordingFailed: 'This AI reply was not recorded: {reason}. Export and clear your recordings under AI service settings to keep recording.',
+    recordingTooLarge: 'the request is larger than the recording space allows',
+    recordingQuotaExceeded: 'browser storage is full',
+    fallbackTestLabel: 'Backup provider {number} ({provider})',
+    fallbackTestSuccess: '{label}: connection test succeeded!',
+    fallbackTestFailed: '{label}: {error}',
+    noModels: 'Connected, but no models were found. Download one first (e.g. ollama pull qwen2.5:7b)',
+    loadModelsFailed: 'Failed to load the model list',
+    proxyKeyMissing: 'The server has no key configured for the selected provider',
+    enterApiKeyFirst: 'Please enter an API key first',
+    enterApiKey: 'Please enter an API key',
+    testSuccess: 'API connection test succeeded!',
+    testFailed: 'Connection test failed',
+    testNetworkError: 'Connection test failed: network error',
+    validationFailed: 'Settings validation failed',
+    saveFailed: 'Failed to save settings',
+  },
+
+  uploader: {
+    fileTypes: {
+      pdf: 'PDF document',
+      word: 'Word document',
+      powerpoint: 'PowerPoint presentation',
+      markdown: 'Markdown document',
+      text: 'Text file',
+      unknown: 'unknown type',
+    },
+    unsupportedType: 'Unsupported file type (detected: {type})\n\n💡 Supported formats:\n• PDF document (.pdf)\n• Word document (.doc, .docx)\n• PowerPoint presentation (.ppt, .pptx)\n• Markdown document (.md)\n• Text file (.txt)\n\nTip: for other formats, copy the content and use "Paste text"',
+    fileTooLarge: 'File too large ({size}MB, limit 20MB)\n\n💡 Suggestions:\n1. Compress the PDF\n2. Export the document as several smaller files\n3. Or copy the content and use "Paste text"',
+    preparingFile: 'Preparing to parse the file...',
+    fileParsed: 'File parsed successfully!',
+    fileParseFailed: 'Failed to parse the file\n\n💡 Possible causes:\n• The file is incomplete or corrupted\n• The file has too little content (under 100 characters)\n• Network problems\n\nTip: try another file or use "Paste text"',
+    networkFailed: 'Processing failed because of a network problem\n\n💡 Suggestions:\n1. Click Retry\n2. Check your network connection\n3. Or use "Paste text"\n\nDetails: {error}',
+    fileFailed: 'Failed to process the file: {error}\n\n💡 Suggestions:\n1. Click Retry\n2. Check that the file is intact\n3. Or use "Paste text"',
+    urlRequired: 'Please enter a valid URL',
+    urlInvalid: 'Please enter a URL in a valid format',
+    parsingUrl: 'Parsing the URL...',
+    urlParsed: 'URL parsed successfully!',
+    urlParseFailed: 'Failed to parse the URL. Please check that the link works',
+    urlFailed: 'Failed to parse the URL: {error}\n\n💡 Common problems:\n• CORS: many sites block cross-origin requests\n• Network: check your connection\n• Page protection: some sites block automated access\n\nTip: click Retry, or copy the page content and use "Paste text"',
+    textRequired: 'Please enter some text',
+    textTooShort: 'The text is too short. Please enter at least 100 characters',
+    parsingText: 'Parsing the text...',
+    textParseFailed: 'Failed to parse the text. Please check its format',
+    textParsed: 'Text parsed successfully!',
+    textFailed: 'Failed to process the text: {error}',
+    methods: {
+      file: 'Upload file',
+      url: 'URL',
+      text: 'Paste text',
+    },
+    dropToUpload: 'Release to upload',
+    uploadTitle: 'Upload a document to study',
+    dragHint: 'Drag a file here, or click to choose one',
+    supportedFormats: 'Supported formats: PDF, Word, PowerPoint, Markdown, text files',
+    sizeLimit: 'Maximum file size: 20MB',
+    chooseFile: 'Choose file',
+    urlTitle: 'Learn from a URL',
+    urlDescription: 'Enter the URL of a web page or online document',
+    urlPlaceholder: 'https://example.com/article or https://docs.google.com/document/...',
+    urlTipsTitle: '💡 Tips:',
+    urlTips: {
+      public: 'Most public pages work (blogs, news, docs, etc.)',
+      wechat: 'WeChat articles may need to be copied manually',
+      fallback: 'If parsing fails, use "Paste text"',
+      example: 'Example: https://example.com/article',
+    },
+    startParsing: 'Parse',
+    textTitle: 'Paste text',
+    textDescription: 'Paste the text you want to study',
+    textPlaceholder: 'Paste your text here...',
+    charCount: '{count} characters entered (at least 100 recommended)',
+    textTip: '💡 Tip: copy text from a web page, document or anywhere else and paste it here to study.',
+    progress: 'Progress',
+    retry: '🔄 Retry',
+    defaultTitle: 'Document',
+  },
+
+  parser: {
+    fetchingUrl: 'Fetching the web page...',
+    urlDone: 'Web page parsed!',
+    parsingMarkdown: 'Parsing Markdown...',
+    markdownDone: 'Markdown parsed!',
+    processingText: 'Processing text...',
+    textDone: 'Text processed!',
+    parsingWord: 'Parsing the Word document...',
+    wordDone: 'Word document parsed!',
+    parsingPowerPoint: 'Parsing the PowerPoint document...',
+    powerPointDone: 'PowerPoint document parsed!',
+    readingMarkdown: 'Reading the Markdown file...',
+    markdownFileDone: 'Markdown file parsed!',
+    readingText: 'Reading the text file...',
+    textFileDone: 'Text file processed!',
+    failed: 'Parsing failed',
+    initPdf: 'Initializing the PDF parser...',
+    readingPdf: 'Reading the PDF file...',
+    parsingPdfStructure: 'Parsing the PDF structure...',
+    parsingPdfPages: 'Parsing pages {start}-{end} of {total}...',
+    collectingResults: 'Collecting the results...',
+    done: 'Parsing complete!',
+  },
+
+  cards: {
+    today: 'Today',
+    yesterday: 'Yesterday',
+    daysAgo: '{count} days ago',
+    reviewDue: 'Due for review',
+    inMinutes: 'in {count} min',
+    inHours: 'in {count} h',
+    inDays: 'in {count} days',
+    confirmDelete: 'Delete this card?',
+    inspiration: 'Inspiration card',
+    bookmark: 'Bookmarked card',
+    untitled: 'Untitled',
+    reviewCount: 'Reviewed {count} times',
+    review: 'Review',
+    total: 'Total cards',
+    due: 'Due',
+    startReviewCount: 'Start review ({count})',
+    title: 'Cards',
+    searchPlaceholder: 'Search cards...',
+    tagFilter: 'Filter by tag:',
+    viewAll: 'All',
+    viewStats: 'Stats',
+    newCard: 'New card',
+    noMatches: 'No matching cards',
+    noCardsYet: 'No saved cards yet',
+    noDueCards: 'No cards due for review',
+    adjustSearch: 'Try adjusting the search or tag filters',
+    howToSave: 'Click 💡 or ⭐ next to an AI reply to save it',
+    keepLearning: 'Keep learning; cards will come up for review later',
+    editCard: 'Edit card',
+    cardTitle: 'Card title',
+    editTitlePlaceholder: 'Give this card a title...',
+    content: 'Card content',
+    contentRequired: 'Card content *',
+    editContentPlaceholder: 'Edit the key knowledge on this card...',
+    yourNote: 'Your note',
+    personalNote: 'Personal note',
+    notePlaceholder: 'Add your thoughts, feelings or notes...',
+    tags: 'Tags',
+    tagPlaceholder: 'Add a tag...',
+    reviewCard: 'Review card',
+    ratePrompt: 'How well do you know this card?',
+    ratings: {
+      veryHard: 'Very hard',
+      hard: 'Hard',
+      ok: 'OK',
+      easy: 'Easy',
+      veryEasy: 'Very easy',
+    },
+    rateHelp: 'Pick your level of mastery (1 = forgot completely, 5 = know it perfectly)',
+    reviewLater: 'Review later',
+    newTitlePlaceholder: 'Enter a card title...',
+    newContentPlaceholder: 'Enter the main content of the card...',
+    createCard: 'Create card',
+    unknownSession: 'Unknown session',
+    noDueCardsAlert: 'No cards are due for review',
+    batchComplete: 'Batch review complete! You reviewed {count} cards 🎉',
+    nothingToExport: 'There are no cards to export',
+    csvHeaders: {
+      title: 'Title',
+      content: 'Content',
+      note: 'Note',
+      type: 'Type',
+      tags: 'Tags',
+      createdAt: 'Created',
+      lastReviewedAt: 'Last reviewed',
+      nextReviewAt: 'Next review',
+      reviewCount: 'Review count',
+      difficulty: 'Difficulty',
+      sessionId: 'Session ID',
+      chapterId: 'Chapter ID',
+    },
+    csvInspiration: 'Inspiration',
+    csvBookmark: 'Bookmark',
+    exportSuccess: 'Exported {count} cards to {filename}',
+    exportFailed: 'Export failed, please try again',
+    pageSubtitle: 'Manage all your learning cards',
+    startBatchReview: 'Start batch review ({count})',
+    exportCards: 'Export cards',
+    pageSearchPlaceholder: 'Search titles, content or notes...',
+    session: 'Session',
+    allSessions: 'All sessions',
+    type: 'Type',
+    allTypes: 'All types',
+    reviewStatus: 'Review status',
+    allStatuses: 'All statuses',
+    upcoming: 'Upcoming',
+    sortBy: 'Sort by',
+    sortRecent: 'Recently created',
+    sortTitle: 'Title',
+    sortReview: 'Review time',
+    noCards: 'No learning cards yet',
+    adjustFilters: 'Try adjusting the search or filters',
+    getStarted: 'Start learning and save important content, or create a card with the button above',
+    source: 'From: {name}',
+    startReview: 'Start review',
+    batchReview: 'Batch review',
+    exitBatchReview: 'Exit batch review',
+  },
+
+  landing: {
+    appName: 'AI Learning Tutor',
+    tagline: 'Guided learning for any document',
+    navFeatures: 'Features',
+    navBenefits: 'Why us',
+    navPricing: 'Pricing',
+    navTestimonials: 'Testimonials',
+    welcome: 'Welcome, {email}',
+    enterApp: 'Open app',
+    login: 'Log in',
+    getStartedFree: 'Get started free',
+    heroTitle: 'Let AI be your ',
+    heroHighlight: 'personal learning mentor',
+    heroSubtitle: 'Upload any document and AI builds a personalized learning path with interactive teaching. Leave dull self-study behind and start learning with a guide.',
+    startTrial: 'Start your 14-day free trial',
+    learnMore: 'Learn more',
+    demoVideo: 'Product demo video',
+    demoCaption: 'Smart document learning',
+    benefitsTitle: 'Why choose AI Learning Tutor?',
+    benefitsSubtitle: 'We reimagined learning from documents so every session is efficient and enjoyable',
+    guidedTitle: 'Guided learning',
+    guidedText: 'The AI tutor uses Socratic dialogue instead of plain Q&A, guiding you to master knowledge by thinking it through and building critical thinking.',
+    modesTitle: 'Two teaching modes',
+    modesText: 'Beginner mode is gentle and builds foundations; expert mode goes straight to the core principles. The AI adapts pace and depth to match your level.',
+    formatsTitle: 'Every format',
+    formatsText: 'Supports PDF, Word, PPT, Markdown and more, plus web pages. Whatever your material, it extracts the content and builds a learning path.',
+    featuresTitle: 'Features at a glance',
+    featuresSubtitle: 'From uploading a document to retaining what you learned, the whole loop in one place',
+    outlineTitle: 'Smart outlines you can edit',
+    outlineText: 'AI analyzes the document structure and generates a clear learning outline. Reorder chapters and rename titles to shape the path the way you like.',
+    exploreTitle: 'Exploratory conversations',
+    exploreText: 'After explaining each point, the AI offers choices for where to go next, so you steer the learning and stay curious and engaged.',
+    demoDeepDive: 'Dig deeper',
+    demoExample: 'See an example',
+    demoCards: 'Knowledge cards',
+    demoCard1Title: 'React Hooks core concepts',
+    demoCard1Text: 'Best practices for managing state...',
+    demoCard2Title: 'Component lifecycle',
+    demoCard2Text: 'How components mount and update...',
+    cardsTitle: 'Save knowledge cards in one click',
+    cardsText: 'Save key points as inspiration 💡 or bookmark ⭐ cards while you learn. AI writes concise titles to build your personal knowledge base.',
+    reviewTitle: 'Spaced review + Anki export',
+    reviewText: 'Review schedules follow the Ebbinghaus forgetting curve. Export to Anki to fit right into your existing tools.',
+    testimonialsTitle: 'What learners say',
+    testimonialsSubtitle: 'Thousands of learners already study with an AI tutor',
+    testimonial1: '"As a programming beginner I always found technical docs hard to follow. With AI Learning Tutor, complex ideas are explained with everyday analogies, and I learn at least three times faster!"',
+    testimonial1Initial: 'Z',
+    testimonial1Name: 'Zhang',
+    testimonial1Role: 'Junior front-end developer',
+    testimonial2: '"Expert mode is great! No time wasted on basics, straight into the core principles. The AI pushes me to think about architecture, and I get a lot out of the conversations."',
+    testimonial2Initial: 'L',
+    testimonial2Name: 'Li',
+    testimonial2Role: 'Senior software architect',
+    ctaTitle: 'Ready to start learning with AI?',
+    ctaSubtitle: 'Try a personal AI tutor today and make learning faster and more enjoyable',
+    ctaNote: 'No credit card · Cancel anytime · All features included',
+    pricingTitle: 'Choose your plan',
+    pricingSubtitle: 'From personal study to team collaboration, there is a plan for you',
+    planBasic: 'Basic',
+    free: 'Free',
+    perMonth: '/month',
+    basic1: '5 documents per month',
+    basic2: 'Basic AI conversations',
+    basic3: '20 knowledge cards',
+    basic4: 'Community support',
+    startUsing: 'Get started',
+    recommended: 'Recommended',
+    planPro: 'Pro',
+    pro1: 'Unlimited documents',
+    pro2: 'Advanced AI conversations',
+    pro3: 'Unlimited knowledge cards',
+    pro4: 'Anki export',
+    pro5: 'Priority support',
+    upgrade: 'Upgrade now',
+    planEnterprise: 'Enterprise',
+    contact: 'Contact',
+    sales: 'sales',
+    enterprise1: 'Everything in Pro',
+    enterprise2: 'Team collaboration',
+    enterprise3: 'Data security guarantees',
+    enterprise4: 'Dedicated account manager',
+    enterprise5: 'Custom feature development',
+    contactUs: 'Contact us',
+    footerTagline: 'Let AI be your personal learning mentor and start learning with a guide.',
+    footerProduct: 'Product',
+    changelog: 'Changelog',
+    roadmap: 'Roadmap',
+    footerSupport: 'Support',
+    guide: 'User guide',
+    faq: 'FAQ',
+    customerService: 'Customer service',
+    feedback: 'Feedback',
+    footerCompany: 'Company',
+    about: 'About us',
+    privacy: 'Privacy policy',
+    terms: 'Terms of service',
+    careers: 'Careers',
+    copyright: '© 2024 AI Learning Tutor. All rights reserved.',
+  },
+
+  contextBudget: {
+    parts: {
+      document: 'Learning material',
+      history: 'Conversation history',
+    },
+    kept: '{part}: about {percent}% kept',
+    keptWithNote: '{part}: about {percent}% kept ({note})',
+    summary: 'Trimmed to fit the context budget (model window {window} tokens): {details}',
+    separator: '; ',
+    sampledDocument: 'only the beginning, middle and end of this very large document were used',
+    retrieved: 'relevant passages retrieved for the question',
+    omittedMessages: '{count} earlier messages omitted',
+  },
+
+  newSession: {
+    uploadTitle: 'Upload your learning material',
+    uploadIntro: 'PDF, Word, PowerPoint, Markdown, plain text and more are supported. After upload, AI parses the content and generates a learning outline.',
+    generatingOutline: 'AI is analyzing the document and generating a learning outline, please wait...',
+    parsedTitle: 'Document parsed',
+    parsedIntro: 'Your document was uploaded and parsed. Choose what to do next.',
+    wordCount: 'Length: {count} characters',
+    pageCount: 'Pages: {count}',
+    parseSuccess: '✅ Document parsed successfully',
+    outlineProblem: 'Outline generation ran into a problem',
+    retryOutline: 'Retry outline generation',
+    confirmOutlineTitle: 'Confirm the learning outline',
+    outlineHeading: 'Learning outline ({count} chapters)',
+    confirmOutline: 'Confirm outline and continue',
+    levelTitle: 'Choose your learning level',
+    levelIntro: 'The AI tutor adapts its teaching to the level you choose.',
+    beginnerTraits: {
+      pace: 'Slow, step-by-step pace',
+      explain: 'Every concept explained in detail',
+      steps: 'Concrete step-by-step instructions',
+      analogies: 'Plain-language analogies',
+      checks: 'Frequent understanding checks',
+    },
+    expertTraits: {
+      pace: 'Fast pace, straight to the point',
+      core: 'Focus on core concepts and differences',
+      design: 'Design principles and best practices',
+      thinking: 'Deep, Socratic thinking',
+      dialogue: 'High-level technical discussion',
+    },
+    startLearning: 'Start learning',
+    addChapterFirst: 'Please add at least one chapter',
+    missingData: 'The parse result or API settings are missing',
+    saveFailed: 'Failed to save locally',
+    createFailed: 'Failed to create the session: {error}',
+    outlineFailed: 'Failed to generate the outline',
+  },
+
+  dashboard: {
+    subtitle: 'Dashboard',
+    cards: 'Cards',
+    apiSettings: 'API settings',
+    newSession: 'New session',
+    outlineProblemHelp: 'This may be caused by the network, API settings or a complex document. You can retry or start over.',
+    backToUpload: 'Back to upload',
+    outlineIntro: 'AI generated a learning outline for you. Adjust it as needed.',
+    history: 'Learning history ({count})',
+    historyHint: 'Click any entry to continue learning',
+    configureTitle: 'AI service not configured',
+    configureText: 'Configure your AI API key before you start learning',
+    configureNow: 'Configure now',
+    confirmDelete: 'Delete this learning record? This cannot be undone.',
+    deleteFailed: 'Delete failed, please try again',
+    confirmBatchDelete: 'Delete the {count} selected learning records? This cannot be undone.',
+    partialDeleteFailed: '{count} records could not be deleted and were restored to the list',
+    batchDeleteFailed: 'Batch delete failed, please try again',
+    saveConfigFailed: 'Failed to save settings, please try again',
+    configureFirst: 'Please configure the AI service first',
+    configureRequired: 'The AI service must be configured first',
+  },
+
+  upload: {
+    fallbackChapters: {
+      basics: 'Basic concepts and introduction',
+      principles: 'Core principles in depth',
+      practice: 'Practical applications and cases',
+      advanced: 'Advanced techniques',
+      summary: 'Summary and outlook',
+    },
+    fallbackCoreContent: 'Core content',
+    fallbackSections: {
+      basics: 'Key basics',
+      details: 'Detailed explanation',
+      practice: 'Practical application',
+    },
+    fallbackPart: '{title} - Part {number}',
+    errors: {
+      format: 'The AI returned an unexpected format, possibly because of an unstable network',
+      timeout: 'The request timed out. Please check your network connection',
+      auth: 'API configuration problem. Please check that the key is correct',
+      rateLimit: 'API rate limit reached. Please try again later',
+      balance: 'Insufficient API balance. Please check your account',
+    },
+    configMissing: 'API settings are missing. Please configure them again',
+    usedFallbackOutline: 'AI outline generation ran into a problem, so a basic outline was created. You can customize it in the next step.',
+    outlineFailedAlert: 'Failed to generate the outline: {error}\n\nYou can:\n1. Check your network and retry\n2. Try a smaller document\n3. Check your API settings',
+    checkingConfig: 'Checking settings...',
+    title: 'Create a new learning session',
+    steps: {
+      upload: 'Upload',
+      outline: 'Outline',
+      level: 'Level',
+    },
+    uploadIntro: 'PDF, Word, PowerPoint, Markdown and more are supported. After upload, AI parses the content and generates a learning outline.',
+    outlineProblemHelp: 'AI outline generation failed. This may be caused by network problems, API settings or a very complex document.',
+    useFallbackOutline: 'Use a basic outline',
+    reupload: 'Upload again',
+    outlineIntro: 'AI generated a learning outline for you. Edit chapter titles, reorder them or add new chapters as needed.',
+    levelIntro: 'The AI tutor adapts its teaching to the level you choose. You can change it at any time while learning.',
+    audience: 'Best for: ',
+    beginnerAudience: 'beginners or anyone new to the topic',
+    expertAudience: 'learners with some background or experience',
+    teachingStyle: 'Teaching style:',
+  },
+
+  learn: {
+    sessionNotFound: 'This learning session does not exist',
+    configMissing: 'API settings are missing. Please configure them again',
+    loadFailed: 'Failed to load the session',
+    budgetExceeded: 'This month\'s AI spending is over budget: {spent} used of {limit}',
+    budgetWarning: 'This month\'s AI spending is close to the budget: {spent} used of {limit} ({percent}%)',
+    systemStarted: 'Learning session started. Document: {title}, level: {level} mode.',
+    levelSwitched: 'Level switched to {level} mode.',
+    switchLevel: 'Switch level',
+    difficulty: 'Difficulty {percent}%',
+    difficultyHint: 'Difficulty of the current section, adjusted from your quiz scores, replies and pace (0% is beginner, 100% is expert)',
+    welcome: 'Hi! I\'ll be your personal tutor and help you understand the material you uploaded, "{title}". To give you the best teaching experience, I\'ll follow the {level} mode you chose earlier.\n\nHave you looked at the course outline on the left? Shall we start from the first chapter in that order, or would you like to jump to a chapter you\'re especially interested in?',
+    replyFailed: 'The AI did not respond',
+    replyFailedMessage: '❌ The AI reply failed: {error}\n\nPossible causes:\n• The API key is invalid or expired\n• Network problems\n• The AI service is temporarily unavailable\n• The request exceeds a limit\n\nWhat to try:\n• Check that your API settings are correct\n• Try again later\n• Contact support',
+    outlineFixed: '✅ Outline repaired with the improved restructuring algorithm. See the console log for details.',
+    outlineFixFailed: 'Failed to repair the outline. Please try again later.',
+    jumpToSection: 'I\'d like to jump to the section "{title}".',
+    cardNote: 'My notes: {note}',
+    saveCardFailed: 'Failed to save the card',
+    bookmarkFailed: 'Failed to save the card, please try again',
+    loadingSession: 'Loading learning session...',
+    notFoundTitle: 'Session not found',
+    notFoundHint: 'Please check that the link is correct',
+    backHome: 'Back to home',
+    chaptersCompleted: '{completed}/{total} chapters completed',
+    messageCount: '{count} messages',
+    resizeHint: 'Drag the dividers to resize panels',
+    outlineTitle: 'Learning outline',
+    current: 'Current: {title}',
+    sectionActions: 'Current section:',
+    completed: '✅ Completed',
+    markCompleted: 'Mark as completed',
+    suggestedNext: 'Suggested next: {title}',
+    fixOutline: '🔧 Repair outline',
+    tutorTitle: 'AI tutor',
+    beginnerTagline: '🌱 Patient, step-by-step guidance at every turn',
+    expertTagline: '⚡ Efficient mode that goes straight to the core ideas',
+    inputPlaceholder: 'Type your question or reply...',
+  },
+
+  quiz: {
+    open: '📝 Section quiz',
+    openWithScore: '📝 Section quiz (best {score})',
+    title: 'Section quiz: {title}',
+    intro: 'Questions are drawn from this section\'s material: multiple choice, true/false and short answer. Short answers are graded by AI against a rubric.',
+    generate: 'Generate quiz',
+    generating: 'Writing questions...',
+    regenerate: 'New questions',
+    confirmRegenerate: 'New questions will clear this section\'s quiz history. Continue?',
+    types: {
+      multipleChoice: 'Multiple choice',
+      trueFalse: 'True / false',
+      shortAnswer: 'Short answer',
+    },
+    true: 'True',
+    false: 'False',
+    answerPlaceholder: 'Write your answer...',
+    submit: 'Submit answers',
+    grading: 'Grading...',
+    retake: 'Try again',
+    confirmUnanswered: '{count} questions are unanswered. Submit anyway?',
+    score: 'Score {score} / 100 (pass mark {passing})',
+    passed: '✅ Passed',
+    failed: 'Not passed yet. Review the section and try again',
+    history: 'Best {score} · {count} attempts',
+    correct: '✔ Correct',
+    incorrect: '✘ Incorrect',
+    partialScore: 'Score {percent}%',
+    correctAnswer: 'Correct answer: {answer}',
+    referenceAnswer: 'Reference answer: {answer}',
+    feedback: 'Feedback: {text}',
+    explanation: 'Explanation: {text}',
+    source: 'Source: {text}',
+    requireToComplete: 'Only auto-complete a section after its quiz is passed',
+    generateFailed: 'Failed to generate the quiz: {error}',
+    gradeFailed: 'Failed to grade the quiz: {error}',
+  },
+
+  cardGeneration: {
+    open: '🃏 Make review cards',
+    suggestion: '"{title}" is complete. Make review cards from this section?',
+    dismiss: 'Not now',
+    title: 'Review cards: {title}',
+    intro: 'Extract 3-10 Q/A or cloze cards from this section\'s conversation and source text. Cards you keep join your review deck.',
+    generate: 'Extract cards',
+    generating: 'Extracting cards...',
+    regenerate: 'Extract again',
+    empty: 'No cards were extracted',
+    formats: {
+      qa: 'Q/A card',
+      cloze: 'Cloze card',
+    },
+    keep: 'Keep',
+    question: 'Question',
+    answer: 'Answer',
+    clozeText: 'Sentence',
+    clozeHint: 'Mark each blank as {{key term}}',
+    selected: 'Keeping {count} of {total}',
+    incomplete: '{count} kept cards are incomplete',
+    save: 'Save {count} cards',
+    generateFailed: 'Failed to extract cards: {error}',
+    saveFailed: 'Failed to save the cards. Please try again.',
+  },
+
+  citations: {
+    sources: 'Sources:',
+    chipTitle: 'View source passage {number}',
+    chipTitleWithHeading: 'View source passage {number}: {heading}',
+    passage: 'Passage {number}',
+  },
+
+  sourceViewer: {
+    title: 'Source',
+    show: '📄 Show source',
+    hide: 'Hide source',
+    close: 'Close source',
+    page: 'Page {page}',
+    slide: 'Slide {number}',
+    searchPlaceholder: 'Search the source...',
+    matchCount: '{current}/{total}',
+    noMatches: 'No matches',
+    previousMatch: 'Previous match',
+    nextMatch: 'Next match',
+    askTutor: 'Ask the tutor',
+    askPrompt: `About this passage from the source:
+
+{quote}
+
+Please explain it to me.`,
+  },
+
+  annotations: {
+    sourceTab: 'Source',
+    listTab: 'Notes ({count})',
+    highlight: 'Highlight {color}',
+    addNote: 'Add note',
+    selectionNotLocated: 'This text could not be located in the source. Try a smaller selection.',
+    notePlaceholder: 'Write down your thoughts...',
+    saveNote: 'Save',
+    cancel: 'Cancel',
+    edit: 'Edit',
+    delete: 'Delete',
+    confirmDelete: 'Delete this annotation?',
+    createCard: 'Make card',
+    cardCreated: 'Card created',
+    cardFailed: 'Failed to create the card. Please try again.',
+    saveFailed: 'Failed to save the annotation. Please try again.',
+    jumpTo: 'Show in source',
+    searchPlaceholder: 'Search notes...',
+    empty: 'No annotations yet. Select text in the source to highlight it or add a note.',
+    noResults: 'No matching annotations',
+    ungrouped: 'Not in a chapter',
+    orphaned: 'The source changed and this passage can no longer be found',
+    colors: {
+      yellow: 'yellow',
+      green: 'green',
+      blue: 'blue',
+      pink: 'pink',
+      purple: 'purple',
+    },
+  },
+
+  glossary: {
+    outlineTab: 'Outline',
+    glossaryTab: 'Glossary ({count})',
+    generating: 'Extracting terms from the learning material...',
+    generate: 'Build glossary',
+    regenerate: 'Rebuild',
+    confirmRegenerate: 'Rebuilding replaces the current glossary (cards you already made are kept). Continue?',
+    generateFailed: 'Failed to build the glossary: {error}',
+    empty: 'No glossary yet. It is built automatically when you start learning, or you can build it now.',
+    searchPlaceholder: 'Search terms...',
+    noResults: 'No matching terms',
+    appearsIn: 'Appears in:',
+    jumpToSource: 'Show in source',
+    createCard: 'Make card',
+    cardCreated: 'Card created',
+    cardFailed: 'Failed to create the card. Please try again.',
+    cardQuestion: 'What is "{term}"?',
+    cardTag: 'glossary',
+  },
+
+  conceptMap: {
+    open: 'Concept map',
+    title: 'Concept map: {title}',
+    generating: 'Extracting concepts and relationships from the material...',
+    generate: 'Generate concept map',
+    regenerate: 'Regenerate',
+    confirmRegenerate: 'Regenerating replaces the current concept map. Continue?',
+    generateFailed: 'Failed to generate the concept map: {error}',
+    empty: 'No concept map yet. A concept map adds the key concepts from the material and their relationships to the outline.',
+    stats: '{concepts} concepts · {relations} relationships',
+    hint: 'Drag to pan, scroll to zoom, click a chapter or concept to jump to it',
+    zoomIn: 'Zoom in',
+    zoomOut: 'Zoom out',
+    fit: 'Fit to window',
+    exportSvg: 'Export SVG',
+    exportPng: 'Export PNG',
+    exportMermaid: 'Export Mermaid',
+    exportOpml: 'Export OPML',
+    exportFailed: 'Export failed, please try again.',
+    relations: {
+      prerequisiteOf: 'prerequisite of',
+      partOf: 'part of',
+      contrastsWith: 'contrasts with',
+    },
+  },
+
+  studyReport: {
+    open: 'Study report',
+    title: 'Study report: {title}',
+    overview: 'Overview',
+    level: 'Level',
+    startedAt: 'Started',
+    completedAt: 'Completed',
+    studyTime: 'Time spent',
+    studyTimeHint: 'Estimated from conversation times; breaks longer than 10 minutes are not counted',
+    completion: 'Completion',
+    completionValue: '{completed}/{total} sections ({percent}%)',
+    cards: 'Cards created',
+    averageQuizScore: 'Average quiz score',
+    noQuiz: 'no quiz',
+    sections: 'Sections',
+    sectionStats: 'Time {time} · {questions} questions · {cards} cards · best quiz score {quiz}',
+    keyPoints: 'Key points',
+    struggles: 'Where you struggled',
+    openQuestions: 'Open questions',
+    noRecap: 'No recap yet',
+    hoursMinutes: '{hours} h {minutes} min',
+    generateRecap: 'Generate recap',
+    regenerateRecap: 'Regenerate recap',
+    generatingRecap: 'Writing the recap...',
+    recapFailed: 'Failed to write the recap: {error}',
+    autoGenerateRecaps: 'Write a recap when a section is completed (uses AI)',
+    exportMarkdown: 'Export Markdown',
+    exportPdf: 'Export PDF',
+    printBlocked: 'Could not open the print window. Allow pop-ups and try again.',
+    allCompleted: 'All sections completed. Your study report is ready.',
+    view: 'View study report',
+  },
+
+  prompts: {
+    tutor: {
+      retrievedLabel: ' (excerpts retrieved for the current section and question)',
+      truncatedLabel: ' (key parts extracted)',
+      retrievedNotice: 'Note: the learning material is long; the text above only contains the excerpts most relevant to the current question. Teach from these excerpts and do not invent anything they do not contain.',
+      truncatedNotice: 'Note: the learning material is long and has been condensed. Teach from the key parts provided, and ask the learner for a more specific question or section when needed.',
+    },
+    progress: {
+      instructions: `## Progress Signal
+
+The ID of each section is shown in square brackets in the outline. At the very end of every reply you must output a progress marker on its own line, in exactly this format (a single line of JSON, never inside a code block):
+{example}
+
+Rules:
+- current: the section this reply teaches; use null if no specific section has started yet
+- completed: only list a section once the learner has really finished it (the explanation is over and the learner confirmed they understand, or they explicitly asked to skip it); otherwise use []
+- next: the section you suggest studying next, or null if you have no suggestion
+- Only use IDs of items with type section from the outline; never invent IDs
+- The learner cannot see this marker; never mention it in your reply
+- Current section recorded by the app: {current}`,
+      example: '{"current":"ID of the section being taught","completed":["IDs of sections finished in this turn"],"next":"ID of the suggested next section"}',
+      currentItem: '{id} ({title})',
+      notStarted: 'not started yet',
+    },
+    outline: {
+      generateTitle: `
+**First**, write a precise title of 3-10 words for this document:
+Requirements: summarize the main topic or concept, use the proper terminology, avoid casual wording, and do not start with verbs such as "Learn" or "Understand".
+
+Then, `,
+      documentTitle: `Document title: {title}
+`,
+      truncationNote: ' (content condensed for outline generation)',
+      longDocumentNote: `
+**Long document notes**:
+This is a long document ({wordCount} characters) that was condensed with chapter-structure awareness. It contains:
+1. [Full chapter structure] - every chapter heading in the document
+2. [Chapter excerpts] - the opening of the key chapters
+3. The preface and the ending
+
+Plan the outline strictly according to the [Full chapter structure]:
+- Stay consistent with the original chapters and cover all of them
+- Create one learning chapter for each original chapter
+- Split chapters into sensible sections
+- Cover the complete logical structure of the document
+- The outline should follow the document's line of thought
+`,
+      responseFormatWithTitle: `
+Response format (title needed):
+{
+  "documentTitle": "The generated title",
+  "outline": [
+    {"title": "Chapter 1: Core Concepts", "order": 1, "type": "chapter", "level": 1, "chapterNumber": 1},
+    {"title": "1.1 Key Ideas", "order": 2, "type": "section", "level": 2, "parentChapter": 1, "estimatedMinutes": 8},
+    {"title": "1.2 Why It Matters", "order": 3, "type": "section", "level": 2, "parentChapter": 1, "estimatedMinutes": 7},
+    {"title": "Chapter 2: Going Deeper", "order": 4, "type": "chapter", "level": 1, "chapterNumber": 2},
+    {"title": "2.1 Chapter Highlights", "order": 5, "type": "section", "level": 2, "parentChapter": 2, "estimatedMinutes": 10},
+    {"title": "2.2 Putting It into Practice", "order": 6, "type": "section", "level": 2, "parentChapter": 2, "estimatedMinutes": 12},
+    {"title": "Chapter 3: Advanced Topics", "order": 7, "type": "chapter", "level": 1, "chapterNumber": 3},
+    {"title": "3.1 Case Studies", "order": 8, "type": "section", "level": 2, "parentChapter": 3, "estimatedMinutes": 15}
+  ]
+}
+
+❗️Note the numbering pattern in the example:
+- Sections of chapter 1: 1.1, 1.2 (parentChapter is 1)
+- Sections of chapter 2: 2.1, 2.2 (parentChapter is 2)
+- Sections of chapter 3: 3.1 (parentChapter is 3)
+Follow this pattern exactly!`,
+      responseFormatWithoutTitle: `
+Response format (title already known):
+{
+  "outline": [
+    {"title": "Chapter 1: Core Concepts", "order": 1, "type": "chapter", "level": 1, "chapterNumber": 1},
+    {"title": "1.1 Key Ideas", "order": 2, "type": "section", "level": 2, "parentChapter": 1, "estimatedMinutes": 8},
+    {"title": "1.2 Why It Matters", "order": 3, "type": "section", "level": 2, "parentChapter": 1, "estimatedMinutes": 7},
+    {"title": "Chapter 2: Going Deeper", "order": 4, "type": "chapter", "level": 1, "chapterNumber": 2},
+    {"title": "2.1 Chapter Highlights", "order": 5, "type": "section", "level": 2, "parentChapter": 2, "estimatedMinutes": 10},
+    {"title": "2.2 Putting It into Practice", "order": 6, "type": "section", "level": 2, "parentChapter": 2, "estimatedMinutes": 12}
+  ]
+}`,
+      structureShort: `1. This is a short document ({wordCount} characters); create {chapters} main chapters
+2. Each chapter has 3-5 sections with evenly distributed content
+3. Prefer more, finer-grained sections over more chapters
+4. Keep sections small: 2-4 minutes of study each`,
+      structureMedium: `1. This is a medium-length document ({wordCount} characters); create {chapters} main chapters
+2. Each chapter has 2-4 sections
+3. Follow the logical structure, from fundamentals to advanced topics
+4. Sections should take about 5-8 minutes each`,
+      structureKeepChapters: `1. The document already has {chapters} clear chapters; keep its chapter structure
+2. Each chapter has 2-3 sections
+3. Follow the document's own chapter titles and structure
+4. If there are more than 20 original chapters, merge chapters with similar topics`,
+      structureLong: `1. This is a long document ({wordCount} characters); create {chapters} main chapters (at most 8)
+2. Each chapter has 3-4 sections
+3. Give each chapter a clearly distinct topic and avoid overlap
+4. Sections should take about 8-12 minutes each`,
+      repair: `The outline you returned failed validation with these problems:
+{errors}
+
+Fix the problems above and keep everything else unchanged. Output only the complete corrected JSON object, with no explanation and no code fences.`,
+      structureDigest: '[Excerpts based on the full chapter structure]',
+      fullStructure: '[Full chapter structure]',
+      chapterDigest: '[Chapter excerpts]',
+      documentEnding: '[End of document]',
+      middlePart: '[...middle of the document...]',
+      laterPart: '[...later in the document...]',
+      middleOmitted: '[...middle of the document omitted...]',
+      laterOmitted: '[...later parts of the document omitted...]',
+      bodyOmitted: '[...main body of the document omitted...]',
+      fallbackDocumentTitle: 'Document outline',
+      placeholderChapter: 'Topic {number}',
+      mainContent: 'Main Content',
+      keySummary: 'Key Takeaways',
+      chapterKeyPoints: 'Chapter Highlights',
+    },
+    memory: {
+      system: 'You keep learning records: you condense the conversation between a tutor and a learner into a short learning memory.',
+      request: `Summarize what the learner has covered in "{chapter}".
+
+{previous}New conversation:
+{transcript}
+
+Requirements:
+1. {mergeHint}Summarize the concepts already explained, how well the learner understood them, and any open questions
+2. At most 120 words, in concise statements
+3. Output only the summary itself, with no preamble or explanation`,
+      previousSummary: `Existing summary:
+{summary}
+
+`,
+      mergeHint: 'Merge the new conversation into the existing summary. ',
+      learner: 'Learner',
+      tutor: 'Tutor',
+    },
+    quiz: {
+      generate: `You are a teacher writing a quiz for the section "{section}"{chapterNote} based on the learning material.
+
+Learning material:
+{material}
+
+Requirements:
+1. Write {multipleChoice} multiple-choice questions (type "multipleChoice"), {trueFalse} true/false questions ("trueFalse") and {shortAnswer} short-answer questions ("shortAnswer")
+2. Only test content from the material that belongs to this section; do not go beyond the material or test trivial details
+3. {levelInstruction}
+4. Multiple-choice questions have 3-4 options and answerIndex, the index of the correct option (starting at 0); distractors must be plausible
+5. A true/false question is a single statement; answerIsTrue says whether the statement is correct
+6. Short-answer questions have a referenceAnswer and a rubric of 2-4 grading points
+7. Every question has an explanation, and sourceExcerpt quotes the passage it is based on (at most 60 words)
+
+Output only the JSON object, with no explanation and no code fences, in this format:
+{"questions":[{"type":"multipleChoice","question":"...","options":["...","...","..."],"answerIndex":0,"explanation":"...","sourceExcerpt":"..."}]}`,
+      chapterNote: ' (part of "{chapter}")',
+      beginnerLevel: 'The learner is a beginner: focus on understanding the basic concepts and keep the wording plain',
+      expertLevel: 'The learner has some background: focus on principles, comparisons and practical application',
+      repair: `The JSON you returned failed validation with these problems:
+{errors}
+
+Fix the problems above and keep everything else unchanged. Output only the complete corrected JSON object, with no explanation and no code fences.`,
+      grade: `You are grading a learner's short answers against a rubric.
+
+{items}
+
+Grading rules:
+- Each score is between 0 and 1, in proportion to the rubric points covered; the meaning matters, not matching the reference wording
+- Answers that miss the question or are unrelated score 0
+- feedback tells the learner in one or two sentences which points they got and what they missed
+
+Output only the JSON object, with no explanation and no code fences, in this format:
+{"grades":[{"questionId":"question ID","score":0.5,"feedback":"..."}]}`,
+      gradeItem: `Question ID: {id}
+Question: {question}
+Reference answer: {reference}
+Rubric:
+{rubric}
+Learner's answer: {answer}`,
+    },
+    cards: {
+      extract: `You make study flashcards. The learner has just finished the section "{section}"{chapterNote}. Extract {min}-{max} spaced-repetition cards from the source text and conversation below.
+
+Section source text:
+{material}
+
+Conversation for this section (numbers in brackets identify each message):
+{transcript}
+
+Requirements:
+1. Each card tests exactly one idea; prefer key concepts, definitions, cause-and-effect relations and common mistakes that came up in the conversation
+2. Q/A cards (format "qa"): question must make sense without context; answer is short and precise (at most 40 words)
+3. Cloze cards (format "cloze"): clozeText is one complete statement with the words to remember marked as {{key term}}, one or two blanks per card
+4. Stay faithful to the source text and the conversation; do not invent anything
+5. sourceMessages lists the numbers of the messages the card is based on; use [] when it comes only from the source text
+
+Output only the JSON object, with no explanation and no code fences, in this format:
+{"cards":[{"format":"qa","question":"...","answer":"...","sourceMessages":[2,3]},{"format":"cloze","clozeText":"...{{...}}...","sourceMessages":[4]}]}`,
+      noConversation: '(There is no conversation for this section; use the source text only.)',
+    },
+    citations: {
+      instructions: `## Citations
+
+Every passage in the learning material is numbered (for example 【片段 {example}】, meaning "passage {example}"). When something you explain comes from the learning material, cite the passage number in square brackets at the end of that sentence, like [{example}]; when it draws on several passages, write the citations one after another, like [2][5].
+- Only use passage numbers that appear in the learning material; never invent one
+- Content unrelated to the material (questions, encouragement, your own examples) needs no citation
+- Put citations in the reply text, before the progress marker`,
+    },
+    difficulty: {
+      instructions: `## Difficulty
+
+Based on the learner's quiz scores, replies and pace, the difficulty for the current section is {percent}% (0% is a complete beginner, 100% is an experienced professional). {guidance}`,
+      veryEasy: 'The learner is struggling right now: slow down, cover one point at a time, use everyday analogies and check understanding after each point.',
+      easy: 'The learner is mostly keeping up: keep explanations plain, explain the terms you use and give examples where helpful.',
+      hard: 'The learner is doing well: you can use terms directly, move faster and focus on principles and connections.',
+      veryHard: 'The learner has a strong grasp: be concise, skip basic explanations and go deep into details, edge cases and real-world use.',
+    },
+    glossary: {
+      extract: `You are a study assistant. Extract {min}-{max} key terms the learner needs to master from the learning material below, to build a glossary.
+
+Learning outline (section IDs in square brackets):
+{outline}
+
+Learning material:
+{material}
+
+Requirements:
+1. term uses the exact spelling from the material; only pick technical terms and key concepts that actually appear in the material and matter for understanding it
+2. aliases lists other spellings found in the material (abbreviations, names in another language); use [] when there are none
+3. definition is a short definition based on the material (at most 40 words); when the material gives no explicit definition, summarize from context without bringing in outside claims
+4. quote copies, word for word, the sentence from the material the definition is based on; do not paraphrase
+5. sections lists the IDs of the sections where the term appears; only use IDs from the outline
+
+Output only the JSON object, with no explanation and no code fences, in this format:
+{"terms":[{"term":"...","aliases":["..."],"definition":"...","quote":"...","sections":["..."]}]}`,
+    },
+    conceptMap: {
+      terms: `Glossary terms (candidate concepts): {terms}
+`,
+      extract: `You are a study assistant. Extract {min}-{max} key concepts from the learning material below, and the relationships between them, to draw a concept map.
+
+Learning outline (section IDs in square brackets):
+{outline}
+
+{terms}Learning material:
+{material}
+
+Requirements:
+1. id uses numbers like c1, c2; label is a short concept name (at most 6 words) using the wording of the material
+2. description explains the concept in one sentence (at most 30 words) based on the material, without bringing in outside claims
+3. section is the ID of the section that covers the concept most directly; only use IDs from the outline
+4. relations describe how concepts relate; type must be one of:
+   - prerequisiteOf: understanding from is needed to understand to
+   - partOf: from is a component or subtype of to
+   - contrastsWith: from and to are easily confused and best understood side by side
+5. from and to only use IDs from concepts; do not list the same relationship twice; the outline's own chapter hierarchy does not need to be written as relationships
+
+Output only the JSON object, with no explanation and no code fences, in this format:
+{"concepts":[{"id":"c1","label":"...","description":"...","section":"..."}],"relations":[{"from":"c1","to":"c2","type":"prerequisiteOf"}]}`,
+    },
+    recap: {
+      noConversation: '(There was no conversation in this section; summarize the key points from the material only and use [] for struggles and openQuestions.)',
+      extract: `You are a study assistant. The learner has just finished "{section}"{chapterNote}. Based on the section material and the conversation between the learner and the tutor, write a recap.
+
+Learning material:
+{material}
+
+Conversation in this section:
+{transcript}
+
+Requirements:
+1. keyPoints: the 3-{max} most important points of the section, one sentence each, based on the material without bringing in outside claims
+2. struggles: where the learner showed confusion, answered wrongly or kept asking, each naming the specific concept; use [] when the conversation shows none
+3. openQuestions: at most {max} questions that were not fully answered in the conversation or are worth further thought; use [] when there are none
+4. Address the learner as "you" and keep it concise
+
+Output only the JSON object, with no explanation and no code fences, in this format:
+{"keyPoints":["..."],"struggles":["..."],"openQuestions":["..."]}`,
+    },
+  },
+};
+
+export default en;
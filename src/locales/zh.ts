@@ -0,0 +1,1431 @@
+/**
+ * 中文消息目录（默认语言）
+ *
+ * 其他语言的目录必须与本文件结构一致（类型 Messages 由本文件推导）。
+ * 文字中的 {name} 为参数占位符，由 t() 替换
+ */
+
+const zh = {
+  common: {
+    language: '语言',
+    save: '保存',
+    cancel: '取消',
+    confirm: '确定',
+    delete: '删除',
+    edit: '编辑',
+    close: '关闭',
+    back: '返回',
+    retry: '重试',
+    loading: '加载中...',
+    unknownError: '未知错误',
+    beginnerMode: '小白模式',
+    expertMode: '高手模式',
+    beginner: '小白',
+    expert: '高手',
+    minutes: '{count} 分钟',
+    wordCount: '{count} 字',
+    untitledDocument: '未命名文档',
+  },
+
+  promptTemplates: {
+    title: '提示词模板与私教人设',
+    create: '新建模板',
+    intro: '新建会话时使用默认模板；会话会记住创建时的模板版本，之后修改模板不影响已有会话。',
+    kinds: {
+      tutor: '私教人设',
+      outline: '大纲生成',
+      cardTitle: '卡片标题',
+    },
+    defaultBadge: '默认',
+    builtInBadge: '内置',
+    setDefault: '设为默认',
+    duplicate: '复制',
+    copyName: '{name}（副本）',
+    restoreBuiltIn: '恢复内置',
+    confirmRestore: '确定要把“{name}”恢复为内置内容吗？修改过的版本将被删除。',
+    confirmDelete: '确定要删除“{name}”吗？使用它的会话将改用默认模板。',
+    saveFailed: '保存模板失败，请重试',
+    nameAndContentRequired: '模板名称和内容不能为空',
+    editTitle: '编辑：{name}',
+    createTitle: '新建{kind}模板',
+    name: '名称',
+    namePlaceholder: '如：考试教练、代码评审',
+    description: '说明（可选）',
+    history: '历史版本',
+    historyPlaceholder: '共 {count} 个版本，选择一个载入编辑框',
+    historyHelp: '载入旧版本后保存，会作为新版本恢复该内容',
+    builtInVersion: '（内置）',
+    versionDate: '（{date}）',
+    content: '模板内容',
+    variablesHelp: '可用变量（写成 {{变量}}）；{{#if 变量}}...{{/if}} 在变量非空时保留，{{#if 变量=值}}...{{/if}} 在变量等于该值时保留：',
+    persona: '私教人设',
+    variables: {
+      tutor: {
+        document: '学习材料（长文档为检索或截取后的片段）',
+        documentLabel: '学习材料的说明，如“(已智能截取关键部分)”，完整时为空',
+        documentNotice: '材料被截取时给私教的注意事项，完整时为空',
+        outline: '带小节ID的学习大纲',
+        level: '学习水平的显示名称：小白 或 高手（随界面语言变化）',
+        levelId: '学习水平：beginner 或 expert，适合写条件，如 {{#if levelId=beginner}}',
+        language: '界面语言：中文 或 English',
+        conversationSummary: '较早对话的摘要，没有时为空',
+      },
+      outline: {
+        document: '文档内容（过长时为截取后的内容）',
+        titleInstruction: '生成文档标题的要求，或已有的文档标题',
+        wordCount: '文档字数',
+        truncationNote: '内容被截取时的说明，完整时为空',
+        totalMinutes: '总预估学习时间（分钟）',
+        recommendedChapters: '推荐章节数',
+        recommendedSections: '推荐每章小节数',
+        longDocumentNote: '长篇文档的处理说明，普通文档为空',
+        structureInstructions: '根据文档结构分析得出的章节规划要求',
+        responseFormat: 'JSON返回格式示例',
+        language: '界面语言：中文 或 English',
+      },
+      cardTitle: {
+        content: '需要生成标题的知识内容',
+        language: '界面语言：中文 或 English',
+      },
+    },
+  },
+
+  chat: {
+    inputPlaceholderExpert: '输入消息...',
+    inputPlaceholderBeginner: '请输入您的问题，我会耐心为您解答...',
+    sendHint: '💡 Enter 发送消息，Shift + Enter 换行',
+    sendHintShort: 'Enter 发送，Shift + Enter 换行',
+    characters: '{count} 字符',
+    stop: '停止生成',
+    send: '发送',
+    assistantLabel: 'AI助教',
+  },
+
+  outline: {
+    title: '学习大纲',
+    clickToStart: '点击章节开始学习',
+    progress: '学习进度',
+    chaptersCompleted: '已完成 {completed} / {total} 章节',
+    aboutMinutes: '约 {count} 分钟',
+    empty: '暂无学习内容',
+  },
+
+  layout: {
+    resizeHandle: '拖拽调整面板大小，双击重置',
+  },
+
+  chatInterface: {
+    inputPlaceholder: '输入您的问题...',
+    addInspiration: '有灵感，添加笔记',
+    bookmark: '直接收藏',
+    answeredByFallback: '🔀 主服务商不可用，由备用模型回答：',
+    answeredBy: '回答模型：',
+    interrupted: '⏹️ 回复已被中断，仅保留已生成的部分',
+    readyTitle: 'AI私教已就绪',
+    readyDescription: '我将根据您上传的文档内容，为您提供个性化的学习引导。请随时提问！',
+    thinking: 'AI私教正在思考',
+    inspirationTitle: '记录您的灵感',
+    inspirationLabel: '您的感受和想法：',
+    inspirationPlaceholder: '记录下这段内容给您的启发、想法或感受...',
+    inspirationLength: '{count}/500 字符',
+    saveInspiration: '保存灵感',
+    regenerate: '重新生成回答',
+    editMessage: '编辑问题',
+    saveAndResend: '保存并重新发送',
+    previousBranch: '上一个版本',
+    nextBranch: '下一个版本',
+    branchCount: '{index}/{total}',
+    choices: {
+      readyYes: '准备好了，开始吧！',
+      readyWait: '等一下',
+      nextSection: '开始下一节',
+      review: '再复习一下',
+      interested: '有兴趣，开始吧',
+      skipToNext: '直接进入下一节',
+      goodContinue: '很好，继续',
+      haveDoubts: '有疑问',
+      noQuestions: '没有问题',
+      haveQuestions: '有问题',
+      noNeed: '不需要',
+      needMore: '需要补充',
+      understood: '明白了',
+      stillUnclear: '还有疑问',
+      yes: '是的',
+      notYet: '不，等一下',
+    },
+  },
+
+  outlineEditor: {
+    newChapter: '新章节',
+    newSection: '新小节',
+    completed: '已完成',
+    addSection: '添加小节',
+    addChapterBeginner: '+ 添加新章节',
+    addChapter: '添加章节',
+    emptyReadonly: '暂无学习大纲',
+    emptyBeginner: '点击上方按钮开始创建您的学习大纲',
+    emptyExpert: '点击上方按钮添加第一个章节',
+  },
+
+  sessions: {
+    today: '今天 {time}',
+    yesterday: '昨天 {time}',
+    daysAgo: '{count}天前',
+    documentTypes: {
+      url: '网页链接',
+      pdf: 'PDF文档',
+      word: 'Word文档',
+      ppt: 'PPT演示',
+      markdown: 'Markdown',
+      text: '文本文档',
+    },
+    status: {
+      draft: '草稿',
+      active: '学习中',
+      completed: '已完成',
+      paused: '已暂停',
+      unknown: '未知',
+    },
+    searchPlaceholder: '搜索学习记录...',
+    allStatuses: '所有状态',
+    sortRecent: '最近更新',
+    sortTitle: '标题排序',
+    sortStatus: '状态排序',
+    noMatches: '没有找到匹配的记录',
+    noSessions: '还没有学习记录',
+    adjustFilters: '试试调整搜索条件或筛选器',
+    uploadFirst: '上传您的第一个文档开始学习吧',
+    selectAll: '全选（{selected}/{total}）',
+    batchDelete: '批量删除',
+    selectSession: '选择该会话',
+    chapterCount: '{count} 个章节',
+    completedCount: '{count} 个已完成',
+    messageCount: '{count} 条消息',
+    progress: '学习进度',
+    currentChapter: '当前学习：',
+    unknownChapter: '未知章节',
+    continue: '继续学习',
+    total: '共 {count} 个学习记录',
+    showing: ' · 显示 {count} 个',
+  },
+
+  usage: {
+    title: 'AI用量与费用',
+    thisMonth: '本月',
+    budgetOf: ' / 预算 {amount}',
+    exceeded: '本月费用已超出预算 {amount}',
+    warning: '本月费用已达预算的 {percent}%，请注意控制用量',
+    requests: '请求次数: ',
+    totalTokens: '总token: ',
+    totalCost: '累计费用: ',
+    estimatedNote: '标 * 的数据包含按文本长度估算的用量（服务商未返回用量）。',
+    unknownCostNote: '部分模型单价未知，未计入费用。',
+    costDisclaimer: '费用按公开报价估算，请以服务商账单为准。',
+    groupBy: {
+      day: '按日期',
+      session: '按会话',
+      provider: '按服务商',
+    },
+    columns: {
+      day: '日期',
+      session: '会话',
+      provider: '服务商',
+      requests: '请求',
+      promptTokens: '输入token',
+      completionTokens: '输出token',
+      cost: '费用',
+    },
+    noSession: '未关联会话（生成大纲、连接测试等）',
+    deletedSession: '已删除的会话',
+    empty: '暂无用量记录',
+    saveBudgetFailed: '保存预算失败，请重试',
+    confirmClear: '确定要清空所有用量记录吗？此操作无法撤销。',
+    monthlyBudget: '月度预算',
+    budgetLabel: '每月预算（美元，留空不限制）',
+    warnLabel: '提醒阈值（%）',
+    saveBudget: '保存预算',
+    clearRecords: '清空记录',
+  },
+
+  sync: {
+    notLoggedIn: '未登录',
+    syncingData: '正在同步数据...',
+    pendingItems: '{count} 项数据待同步',
+    synced: '已完成同步',
+    syncing: '同步中...',
+    sync: '同步',
+    loginRequired: '请登录后使用云端同步功能',
+    analyzing: '分析同步数据...',
+    title: '智能云端同步',
+    dataSize: '数据大小: {size}',
+    cost: '成本: {cost}',
+    pendingLabel: '待同步项目:',
+    lastSync: '上次同步:',
+    neverSynced: '从未同步',
+    syncToCloud: '同步到云端',
+    preview: '预览',
+    previewTitle: '同步内容预览',
+    criticalData: '核心数据 ({count} 项)',
+    preferences: '用户偏好设置',
+    importantData: '重要数据 ({count} 项) - 可选',
+    moreItems: '还有 {count} 项...',
+    estimatedTime: '预计同步时间:',
+    seconds: '{count} 秒',
+    minutes: '{count} 分钟',
+    success: '同步成功',
+    failed: '同步失败',
+    syncedItems: '成功: {count} 项',
+    failedItems: '失败: {count} 项',
+    duration: '耗时: {seconds} 秒',
+    saved: '节省: {size} KB',
+    errorDetails: '错误详情',
+  },
+
+  dataLifecycle: {
+    confirmCleanup: '确定要清理超过 {days} 天的临时数据吗？此操作不可恢复。',
+    exportFailed: '导出失败，请重试',
+    invalidJson: '选择的文件不是有效的JSON',
+    confirmOverwrite: '是否以“覆盖模式”导入？\n确定：覆盖本地全部数据\n取消：进行合并导入（去重）',
+    mergeFailed: '合并导入失败，请重试或改用覆盖导入',
+    importedOverwrite: '导入成功（覆盖）',
+    importedMerge: '导入成功（合并）',
+    importInvalid: '导入失败，请确认文件内容与格式',
+    importFailed: '导入失败，请重试',
+    loading: '加载存储统计...',
+    loadFailed: '无法加载存储统计数据',
+    title: '数据生命周期管理',
+    sessions: '学习会话:',
+    cards: '收藏卡片:',
+    temporary: '临时数据:',
+    usageDuration: '使用时长:',
+    days: '{count}天',
+    newUser: '新用户',
+    cleanupTitle: '数据清理',
+    cleanupBefore: '清理超过',
+    cleanupAfter: '天的临时数据',
+    temporaryHint: '临时数据指：无收藏内容且长时间未更新的学习会话',
+    cleaning: '清理中...',
+    cleanup: '清理数据 ({count})',
+    export: '导出备份',
+    import: '导入备份',
+    cleanupDone: '清理完成',
+    cleanupFailed: '清理失败',
+    cleanedCount: '成功清理了 {count} 个临时会话',
+    spaceFreed: '，释放了存储空间',
+    cleanupError: '清理失败: {error}',
+    timeline: '数据时间线',
+    oldest: '最早数据: {date}',
+    newest: '最新数据: {date}',
+    activeDays: '活跃期间: {count} 天',
+  },
+
+  auth: {
+    emailRequired: '请输入邮箱地址',
+    emailInvalid: '邮箱格式不正确',
+    passwordRequired: '请输入密码',
+    passwordTooShort: '密码至少需要6位字符',
+    usernameRequired: '请输入用户名',
+    usernameTooShort: '用户名至少需要2位字符',
+    usernameTooLong: '用户名不能超过20位字符',
+    usernameInvalid: '用户名只能包含字母、数字、中文、下划线和连字符',
+    confirmPasswordRequired: '请确认密码',
+    passwordMismatch: '两次输入的密码不一致',
+    success: '操作成功！',
+    failed: '操作失败，请稍后重试',
+    error: '操作过程中发生错误，请稍后重试',
+    login: '登录',
+    signup: '注册',
+    resetPassword: '重置密码',
+    authenticate: '认证',
+    loggingIn: '登录中...',
+    signingUp: '注册中...',
+    sending: '发送中...',
+    sendResetEmail: '发送重置邮件',
+    submit: '提交',
+    email: '邮箱地址',
+    username: '用户名',
+    password: '密码',
+    confirmPassword: '确认密码',
+    noAccount: '还没有账户？',
+    signupNow: '立即注册',
+    forgotPassword: '忘记密码？',
+    haveAccount: '已有账户？',
+    loginNow: '立即登录',
+    rememberedPassword: '记起密码了？',
+    backToLogin: '返回登录',
+  },
+
+  authService: {
+    signupConfirmEmail: '注册成功！请检查您的邮箱并点击验证链接来激活账户。',
+    signupSuccess: '注册成功！欢迎使用AI学习私教。',
+    signupError: '注册过程中发生错误，请稍后重试。',
+    loginSuccess: '登录成功！欢迎回来。',
+    loginFailed: '登录失败，请检查您的凭据。',
+    loginError: '登录过程中发生错误，请稍后重试。',
+    logoutSuccess: '已成功登出。',
+    logoutError: '登出过程中发生错误。',
+    resetEmailSent: '密码重置邮件已发送，请检查您的邮箱。',
+    resetError: '重置密码过程中发生错误。',
+    notLoggedIn: '用户未登录',
+    profileUpdated: '档案更新成功！',
+    profileError: '更新档案过程中发生错误。',
+    invalidCredentials: '邮箱或密码错误，请检查后重试。',
+    emailNotConfirmed: '请先验证您的邮箱地址。',
+    alreadyRegistered: '该邮箱已被注册，请直接登录或使用其他邮箱。',
+    weakPassword: '密码至少需要6位字符。',
+    emailRequiredForSignup: '请输入有效的邮箱地址。',
+    invalidEmailFormat: '邮箱格式不正确，请检查后重试。',
+    unknownError: '发生未知错误，请稍后重试。',
+  },
+
+  documentSplit: {
+    confirmTitle: '📄 文档过长，建议拆分学习',
+    confirmIntro: '您上传的文档内容较多，为了更好的学习体验，建议拆分成多个部分进行学习。',
+    documentInfo: '📊 文档信息',
+    originalDocument: '原始文档：',
+    documentLength: '文档长度：',
+    suggestedSplit: '建议拆分：',
+    partCount: '{count} 个部分',
+    preview: '📋 拆分预览',
+    approxWords: '约 {count} 字',
+    partNumber: '第 {number} 部分',
+    benefitsTitle: '✨ 拆分学习的优势',
+    benefits: {
+      focused: '每个部分内容适中，学习更有针对性',
+      flexible: '可以根据自己的时间安排，灵活选择学习顺序',
+      progress: '更好的学习进度控制和成就感',
+      pressure: '避免因内容过多而产生学习压力',
+    },
+    learnWhole: '继续整篇学习',
+    confirmSplit: '确认拆分学习',
+    confirmTip: '💡 提示：拆分后，您可以自由选择学习顺序和难度级别',
+    selectTitle: '📚 选择学习内容',
+    selectIntro: '文档已成功拆分为 {count} 个部分，请选择您想要学习的内容',
+    selectTip: '💡 您可以按任意顺序学习，每完成一部分后可以继续选择其他部分',
+    originalInfo: '📄 原始文档信息',
+    originalTitle: '文档标题：{title}',
+    totalWords: '总字数：{count} 字',
+    contextTitle: '🧠 智能上下文增强',
+    hasDocumentSummary: '包含完整文档概览',
+    hasPreviousSummary: '前文章节关联总结',
+    crossReferences: '{count} 个章节交叉引用',
+    selecting: '选择中...',
+    startPart: '开始学习此部分',
+    goBack: '← 返回重新选择',
+    pickAny: '💡 选择任意部分开始您的学习之旅',
+    adviceTitle: '📖 学习建议',
+    advice: {
+      overview: '建议先浏览各部分标题，了解整体结构',
+      order: '可以从感兴趣的部分开始，或按顺序学习',
+      next: '每完成一部分后，可以回到这里选择下一部分',
+      level: '学习过程中可以随时切换难度级别',
+    },
+  },
+
+  apiConfig: {
+    title: 'AI服务配置',
+    heading: '配置您的AI服务',
+    introProxy: '选择您偏好的AI服务提供商，请求将通过服务器代理发送，API密钥由服务器保管。',
+    introLocal: '选择您偏好的AI服务提供商并输入相应的API密钥。配置将安全地保存在您的浏览器本地存储中。',
+    provider: 'AI服务提供商',
+    providerHelp: '选择您要使用的AI服务提供商',
+    proxyEnforced: '当前部署要求通过服务器代理访问AI服务，无需填写API密钥。',
+    useProxy: '通过服务器代理请求',
+    useProxyHelp: 'API密钥保存在服务器的环境变量中，浏览器不保存也不发送密钥',
+    proxyMissingKey: '服务器尚未配置 {provider} 的密钥',
+    proxyAvailable: '，可用的服务商：{providers}',
+    proxyContactAdmin: '，请联系管理员',
+    listSeparator: '、',
+    apiFormat: '接口格式',
+    apiFormatOllama: 'Ollama 原生接口',
+    apiFormatOpenAI: 'OpenAI 兼容接口（vLLM、LM Studio 等）',
+    apiFormatHelp: 'Ollama 也提供 OpenAI 兼容接口（地址以 /v1 结尾）',
+    baseUrl: '服务地址',
+    baseUrlHelp: '本地或局域网内模型服务的地址，留空则使用默认地址',
+    apiKey: 'API密钥',
+    apiKeyOptional: 'API密钥（可选）',
+    apiKeyPlaceholder: '请输入您的API密钥',
+    fallbackApiKeyPlaceholder: '请输入API密钥',
+    apiKeyNotNeeded: '本地服务通常无需密钥',
+    apiKeyHelp: '您的API密钥将加密存储在本地，不会上传到服务器',
+    model: '模型',
+    modelCount: '服务端共有 {count} 个可用模型',
+    modelName: '模型名称（可选）',
+    defaultModelPlaceholder: '使用默认模型',
+    defaultModel: '默认模型：{model}',
+    unknown: '未知',
+    loadModels: '获取模型列表',
+    advanced: '高级选项',
+    customEndpoint: '自定义API端点（可选）',
+    customEndpointHelp: '如果使用代理或自托管服务，请输入自定义API端点',
+    fallbacks: '备用服务商（可选）',
+    fallbacksHelp: '主服务商请求失败或重试耗尽时，按顺序切换到下列服务商',
+    add: '添加',
+    fallbackLabel: '备用 {number}',
+    moveUp: '上移',
+    moveDown: '下移',
+    fallbackProvider: '服务提供商',
+    testConnection: '测试连接',
+    saveConfig: '保存配置',
+    securityTitle: '安全提示',
+    securityProxy: '代理模式下API密钥只保存在服务器上，浏览器中仅保存服务商和模型等设置。',
+    securityLocal: '您的API密钥将存储在浏览器的本地存储中。请不要在公共计算机上保存敏感信息。清除浏览器数据将删除所有保存的配置。',
+    offlineProviderHint: '离线演示使用内置示例数据生成大纲、对话、卡片和测验，不需要API密钥，也不会发送任何网络请求。',
+    fixtures: '离线模式与录制回放',
+    fixturesHelp: '录制真实服务商的回复并导出为JSON文件，之后可以在没有网络和密钥的环境中回放，用于开发调试和演示。',
+    fixtureMode: '模式',
+    fixtureModeOff: '关闭',
+    fixtureModeRecord: '录制：保存每次AI请求的回复',
+    fixtureModeReplay: '回放：使用录制的回复，不请求服务商',
+    fixtureModeReplayHelp: '没有录到的请求由离线演示的示例数据回答。',
+    fixtureModeEnforced: '当前部署已通过环境变量 NEXT_PUBLIC_AI_FIXTURE_MODE 固定了模式。',
+    recordedCount: '已录制 {count} 条交互',
+    exportFixtures: '导出录制',
+    importFixtures: '导入录制',
+    clearFixtures: '清空录制',
+    clearFixturesConfirm: '确定要清空所有录制的交互吗？',
+    fixturesImported: '已导入 {count} 条交互',
+    fixturesImportFailed: '导入失败：{error}',
+    recordingFailed: '这次AI回复没有录制下来：{reason}。可以在「AI服务配置」中导出并清空录制内容后继续录制。',
+    recordingTooLarge: '请求内容超过了录制空间的上限',
+    recordingQuotaExceeded: '浏览器存储空间已满',
+    fallbackTestLabel: '备用服务商 {number}（{provider}）',
+    fallbackTestSuccess: '{label}连接测试成功！',
+    fallbackTestFailed: '{label}：{error}',
+    noModels: '服务已连接，但没有找到任何模型，请先下载模型（如 ollama pull qwen2.5:7b）',
+    loadModelsFailed: '获取模型列表失败',
+    proxyKeyMissing: '服务器尚未配置所选服务商的密钥',
+    enterApiKeyFirst: '请先输入API密钥',
+    enterApiKey: '请输入API密钥',
+    testSuccess: 'API连接测试成功！',
+    testFailed: '连接测试失败',
+    testNetworkError: '连接测试失败：网络错误',
+    validationFailed: '配置验证失败',
+    saveFailed: '保存配置失败',
+  },
+
+  uploader: {
+    fileTypes: {
+      pdf: 'PDF文档',
+      word: 'Word文档',
+      powerpoint: 'PowerPoint演示文稿',
+      markdown: 'Markdown文档',
+      text: '文本文件',
+      unknown: '未知类型',
+    },
+    unsupportedType: '不支持的文件类型（检测到：{type}）\n\n💡 支持的文件格式：\n• PDF文档 (.pdf)\n• Word文档 (.doc, .docx)\n• PowerPoint演示文稿 (.ppt, .pptx)\n• Markdown文档 (.md)\n• 文本文件 (.txt)\n\n建议：如果是其他格式，可以复制内容后使用"文本粘贴"功能',
+    fileTooLarge: '文件过大（{size}MB，限制20MB）\n\n💡 建议解决方案：\n1. 压缩PDF文件大小\n2. 将大文档分页导出为多个小文件\n3. 或复制文档内容，使用"文本粘贴"功能',
+    preparingFile: '正在准备解析文件...',
+    fileParsed: '文件解析成功！',
+    fileParseFailed: '文件解析失败\n\n💡 可能的原因：\n• 文件格式不完整或损坏\n• 文件内容过少（少于100字符）\n• 网络连接问题\n\n建议：尝试其他文件或使用"文本粘贴"功能',
+    networkFailed: '网络连接问题导致处理失败\n\n💡 建议解决方案：\n1. 点击重试按钮\n2. 检查网络连接\n3. 或使用"文本粘贴"功能\n\n详细错误：{error}',
+    fileFailed: '文件处理失败: {error}\n\n💡 建议解决方案：\n1. 点击重试按钮\n2. 检查文件完整性\n3. 或使用"文本粘贴"功能',
+    urlRequired: '请输入有效的URL',
+    urlInvalid: '请输入有效的URL格式',
+    parsingUrl: '正在解析URL...',
+    urlParsed: 'URL解析成功！',
+    urlParseFailed: 'URL解析失败，请检查链接是否有效',
+    urlFailed: 'URL解析失败: {error}\n\n💡 常见问题及解决方案：\n• CORS限制：许多网站禁止跨域访问\n• 网络连接：检查网络连接是否正常\n• 页面保护：某些网站有反爬虫保护\n\n建议：点击重试或复制网页内容后使用"文本粘贴"功能',
+    textRequired: '请输入文本内容',
+    textTooShort: '文本内容太少，请输入至少100个字符的内容',
+    parsingText: '正在解析文本...',
+    textParseFailed: '文本解析失败，请检查内容格式',
+    textParsed: '文本解析成功！',
+    textFailed: '文本处理失败: {error}',
+    methods: {
+      file: '文件上传',
+      url: 'URL链接',
+      text: '文本粘贴',
+    },
+    dropToUpload: '松开鼠标上传文件',
+    uploadTitle: '上传学习文档',
+    dragHint: '拖拽文件到此处，或点击选择文件',
+    supportedFormats: '支持格式：PDF、Word、PowerPoint、Markdown、文本文件',
+    sizeLimit: '文件大小限制：20MB以内',
+    chooseFile: '选择文件',
+    urlTitle: '通过URL链接学习',
+    urlDescription: '输入网页或在线文档的URL地址',
+    urlPlaceholder: 'https://example.com/article 或 https://docs.google.com/document/...',
+    urlTipsTitle: '💡 使用提示：',
+    urlTips: {
+      public: '支持大部分公开网页（博客、新闻、文档等）',
+      wechat: '微信公众号文章可能需要手动复制',
+      fallback: '如果解析失败，请使用"文本粘贴"功能',
+      example: '示例：https://example.com/article',
+    },
+    startParsing: '开始解析',
+    textTitle: '粘贴文本内容',
+    textDescription: '直接粘贴您想要学习的文本内容',
+    textPlaceholder: '请粘贴您的文本内容...',
+    charCount: '已输入 {count} 个字符（建议至少100个字符）',
+    textTip: '💡 提示：您可以从网页、文档或任何地方复制文本内容，然后粘贴到这里进行学习。',
+    progress: '解析进度',
+    retry: '🔄 重试',
+    defaultTitle: '文档',
+  },
+
+  parser: {
+    fetchingUrl: '正在抓取网页内容...',
+    urlDone: '网页解析完成！',
+    parsingMarkdown: '正在解析Markdown内容...',
+    markdownDone: 'Markdown解析完成！',
+    processingText: '正在处理文本内容...',
+    textDone: '文本处理完成！',
+    parsingWord: '正在解析Word文档...',
+    wordDone: 'Word文档解析完成！',
+    parsingPowerPoint: '正在解析PowerPoint文档...',
+    powerPointDone: 'PowerPoint文档解析完成！',
+    readingMarkdown: '正在读取Markdown文件...',
+    markdownFileDone: 'Markdown文件解析完成！',
+    readingText: '正在读取文本文件...',
+    textFileDone: '文本文件处理完成！',
+    failed: '解析失败',
+    initPdf: '正在初始化PDF解析器...',
+    readingPdf: '正在读取PDF文件...',
+    parsingPdfStructure: '正在解析PDF文档结构...',
+    parsingPdfPages: '正在解析第 {start}-{end} 页 (共 {total} 页)...',
+    collectingResults: '正在整理解析结果...',
+    done: '解析完成！',
+  },
+
+  cards: {
+    today: '今天',
+    yesterday: '昨天',
+    daysAgo: '{count}天前',
+    reviewDue: '需要复习',
+    inMinutes: '{count}分钟后',
+    inHours: '{count}小时后',
+    inDays: '{count}天后',
+    confirmDelete: '确定要删除这张卡片吗？',
+    inspiration: '灵感卡片',
+    bookmark: '收藏卡片',
+    untitled: '无标题',
+    reviewCount: '复习 {count} 次',
+    review: '复习',
+    total: '总卡片数',
+    due: '待复习',
+    startReviewCount: '开始复习 ({count} 张)',
+    title: '卡片管理',
+    searchPlaceholder: '搜索卡片...',
+    tagFilter: '标签过滤：',
+    viewAll: '全部',
+    viewStats: '统计',
+    newCard: '新建卡片',
+    noMatches: '没有找到匹配的卡片',
+    noCardsYet: '还没有收藏的卡片',
+    noDueCards: '暂无需要复习的卡片',
+    adjustSearch: '尝试调整搜索条件或标签过滤',
+    howToSave: '在AI回答旁点击💡或⭐图标来收藏',
+    keepLearning: '继续学习，稍后会有卡片需要复习',
+    editCard: '编辑卡片',
+    cardTitle: '卡片标题',
+    editTitlePlaceholder: '为这张卡片起个标题...',
+    content: '卡片内容',
+    contentRequired: '卡片内容 *',
+    editContentPlaceholder: '编辑卡片的核心知识内容...',
+    yourNote: '您的笔记',
+    personalNote: '个人笔记',
+    notePlaceholder: '添加您的想法、感受或笔记...',
+    tags: '标签',
+    tagPlaceholder: '添加标签...',
+    reviewCard: '复习卡片',
+    ratePrompt: '请根据您对这张卡片内容的掌握程度选择：',
+    ratings: {
+      veryHard: '很困难',
+      hard: '困难',
+      ok: '一般',
+      easy: '容易',
+      veryEasy: '很容易',
+    },
+    rateHelp: '点击选择您的掌握程度（1=完全忘记，5=完全掌握）',
+    reviewLater: '稍后复习',
+    newTitlePlaceholder: '输入卡片标题...',
+    newContentPlaceholder: '输入卡片的主要内容...',
+    createCard: '创建卡片',
+    unknownSession: '未知会话',
+    noDueCardsAlert: '没有需要复习的卡片',
+    batchComplete: '批量复习完成！共复习了 {count} 张卡片 🎉',
+    nothingToExport: '没有可导出的卡片数据',
+    csvHeaders: {
+      title: '标题',
+      content: '内容',
+      note: '笔记',
+      type: '类型',
+      tags: '标签',
+      createdAt: '创建时间',
+      lastReviewedAt: '最后复习时间',
+      nextReviewAt: '下次复习时间',
+      reviewCount: '复习次数',
+      difficulty: '难度',
+      sessionId: '会话ID',
+      chapterId: '章节ID',
+    },
+    csvInspiration: '灵感',
+    csvBookmark: '收藏',
+    exportSuccess: '成功导出 {count} 张卡片到文件：{filename}',
+    exportFailed: '导出失败，请重试',
+    pageSubtitle: '管理您的所有学习卡片',
+    startBatchReview: '开始批量复习 ({count} 张)',
+    exportCards: '导出卡片',
+    pageSearchPlaceholder: '搜索卡片标题、内容或笔记...',
+    session: '会话',
+    allSessions: '所有会话',
+    type: '类型',
+    allTypes: '所有类型',
+    reviewStatus: '复习状态',
+    allStatuses: '所有状态',
+    upcoming: '即将复习',
+    sortBy: '排序方式',
+    sortRecent: '最近创建',
+    sortTitle: '标题排序',
+    sortReview: '复习时间',
+    noCards: '还没有学习卡片',
+    adjustFilters: '尝试调整搜索条件或过滤器',
+    getStarted: '开始学习并收藏重要内容，或点击上方按钮新建卡片',
+    source: '来源：{name}',
+    startReview: '开始复习',
+    batchReview: '批量复习',
+    exitBatchReview: '退出批量复习',
+  },
+
+  landing: {
+    appName: 'AI学习私教',
+    tagline: '智能文档学习引导平台',
+    navFeatures: '功能特色',
+    navBenefits: '核心优势',
+    navPricing: '价格方案',
+    navTestimonials: '用户评价',
+    welcome: '欢迎，{email}',
+    enterApp: '进入应用',
+    login: '登录',
+    getStartedFree: '免费使用',
+    heroTitle: '让AI成为您的',
+    heroHighlight: '专属学习导师',
+    heroSubtitle: '上传任何文档，AI会为您生成个性化学习路径，提供互动式教学体验。告别枯燥的自学，开启智能引导的学习新时代。',
+    startTrial: '立即开始14天免费试用',
+    learnMore: '了解更多',
+    demoVideo: '产品演示视频',
+    demoCaption: '智能文档学习体验',
+    benefitsTitle: '为什么选择AI学习私教？',
+    benefitsSubtitle: '我们重新定义了文档学习体验，让每一次学习都变得高效且愉悦',
+    guidedTitle: '智能引导学习',
+    guidedText: 'AI导师采用苏格拉底式对话，不再是简单问答，而是启发式引导，让您在思考中掌握知识，培养批判性思维能力。',
+    modesTitle: '双模式教学',
+    modesText: '小白模式温和友善，注重基础建设；高手模式直击核心，探讨深层原理。AI自动调整教学节奏和深度，完美匹配您的学习水平。',
+    formatsTitle: '全格式解析',
+    formatsText: '支持PDF、Word、PPT、Markdown等多种格式，还能解析网页内容。无论什么形式的学习资料，都能智能提取并生成学习路径。',
+    featuresTitle: '功能特色一览',
+    featuresSubtitle: '从文档上传到知识沉淀，完整的学习闭环体验',
+    outlineTitle: '智能大纲生成 + 自由编辑',
+    outlineText: 'AI自动分析文档结构，生成逻辑清晰的学习大纲。您可以自由调整章节顺序、修改标题，完全按照个人喜好定制学习路径。',
+    exploreTitle: '探索式对话学习',
+    exploreText: '采用"教学节点+探索选项"模式，AI讲解完知识点后提供选择按钮，让您主导学习方向，激发学习兴趣和主动性。',
+    demoDeepDive: '深入了解',
+    demoExample: '查看示例',
+    demoCards: '知识卡片管理',
+    demoCard1Title: 'React Hooks核心概念',
+    demoCard1Text: '使用状态管理的最佳实践...',
+    demoCard2Title: '组件生命周期',
+    demoCard2Text: '理解组件挂载和更新过程...',
+    cardsTitle: '一键收藏知识卡片',
+    cardsText: '学习过程中遇到重要知识点，一键收藏为灵感💡或重点⭐卡片。AI自动生成精炼标题，建立个人知识库。',
+    reviewTitle: '科学复习 + Anki导出',
+    reviewText: '基于艾宾浩斯遗忘曲线，智能安排复习计划。支持导出到Anki，与您现有的学习工具无缝衔接。',
+    testimonialsTitle: '用户怎么说',
+    testimonialsSubtitle: '已有数千用户体验了AI私教的学习魅力',
+    testimonial1: '"作为编程新手，我一直觉得技术文档很难懂。用了AI学习私教后，复杂的概念都能用生活化的比喻解释清楚，学习效率提升了至少3倍！"',
+    testimonial1Initial: '张',
+    testimonial1Name: '张同学',
+    testimonial1Role: '前端开发新手',
+    testimonial2: '"高手模式真的很棒！不会浪费时间在基础概念上，直接深入核心原理。AI能够引导我思考架构设计，这种对话式学习让我收获很大。"',
+    testimonial2Initial: '李',
+    testimonial2Name: '李工程师',
+    testimonial2Role: '资深技术架构师',
+    ctaTitle: '准备开始您的AI学习之旅了吗？',
+    ctaSubtitle: '立即体验个性化AI私教服务，让学习变得更高效、更愉悦',
+    ctaNote: '无需信用卡 · 随时可取消 · 全功能体验',
+    pricingTitle: '选择适合您的方案',
+    pricingSubtitle: '从个人学习到团队协作，总有一款适合您',
+    planBasic: '基础版',
+    free: '免费',
+    perMonth: '/月',
+    basic1: '每月5个文档解析',
+    basic2: '基础AI对话功能',
+    basic3: '20张知识卡片',
+    basic4: '社区支持',
+    startUsing: '开始使用',
+    recommended: '推荐',
+    planPro: '专业版',
+    pro1: '无限文档解析',
+    pro2: '高级AI对话功能',
+    pro3: '无限知识卡片',
+    pro4: 'Anki导出功能',
+    pro5: '优先客服支持',
+    upgrade: '立即升级',
+    planEnterprise: '企业版',
+    contact: '联系',
+    sales: '销售',
+    enterprise1: '专业版所有功能',
+    enterprise2: '团队协作功能',
+    enterprise3: '数据安全保障',
+    enterprise4: '专属客户经理',
+    enterprise5: '定制化功能开发',
+    contactUs: '联系我们',
+    footerTagline: '让AI成为您的专属学习导师，开启智能引导的学习新时代。',
+    footerProduct: '产品',
+    changelog: '更新日志',
+    roadmap: '路线图',
+    footerSupport: '支持',
+    guide: '使用指南',
+    faq: '常见问题',
+    customerService: '联系客服',
+    feedback: '反馈建议',
+    footerCompany: '公司',
+    about: '关于我们',
+    privacy: '隐私政策',
+    terms: '服务条款',
+    careers: '加入我们',
+    copyright: '© 2024 AI学习私教. 保留所有权利.',
+  },
+
+  contextBudget: {
+    parts: {
+      document: '学习材料',
+      history: '对话历史',
+    },
+    kept: '{part}保留约{percent}%',
+    keptWithNote: '{part}保留约{percent}%（{note}）',
+    summary: '受上下文预算限制（模型窗口 {window} tokens），{details}',
+    separator: '，',
+    sampledDocument: '超大文档仅摘取开头、中间和结尾部分',
+    retrieved: '已按问题检索相关片段',
+    omittedMessages: '省略了{count}条较早的消息',
+  },
+
+  newSession: {
+    uploadTitle: '上传您的学习材料',
+    uploadIntro: '支持多种格式：PDF、Word、PowerPoint、Markdown、文本等。上传后AI将自动解析并生成学习大纲。',
+    generatingOutline: 'AI正在分析文档内容并生成学习大纲，请稍候...',
+    parsedTitle: '文档解析完成',
+    parsedIntro: '您的文档已成功上传并解析。请选择下一步操作。',
+    wordCount: '字数：{count} 字',
+    pageCount: '页数：{count} 页',
+    parseSuccess: '✅ 文档解析成功',
+    outlineProblem: '大纲生成遇到问题',
+    retryOutline: '重试生成大纲',
+    confirmOutlineTitle: '确认学习大纲',
+    outlineHeading: '学习大纲（{count} 个章节）',
+    confirmOutline: '确认大纲，下一步',
+    levelTitle: '选择您的学习水平',
+    levelIntro: 'AI私教将根据您选择的水平调整教学方式。',
+    beginnerTraits: {
+      pace: '节奏缓慢，循序渐进',
+      explain: '详细解释每个概念',
+      steps: '提供具体的操作步骤',
+      analogies: '使用通俗易懂的比喻',
+      checks: '频繁确认学习效果',
+    },
+    expertTraits: {
+      pace: '节奏较快，直击要点',
+      core: '聚焦核心概念和差异',
+      design: '讨论设计原理和最佳实践',
+      thinking: '启发式深度思考',
+      dialogue: '高层级的技术对话',
+    },
+    startLearning: '开始学习',
+    addChapterFirst: '请至少添加一个章节',
+    missingData: '缺少必要的解析结果或API配置',
+    saveFailed: '本地存储失败',
+    createFailed: '创建失败: {error}',
+    outlineFailed: '生成大纲失败',
+  },
+
+  dashboard: {
+    subtitle: '应用仪表板',
+    cards: '卡片管理',
+    apiSettings: 'API设置',
+    newSession: '开始新学习',
+    outlineProblemHelp: '可能是网络、API配置或文档内容复杂导致。您可以重试或使用基础大纲。',
+    backToUpload: '返回重新上传',
+    outlineIntro: 'AI已为您生成学习大纲，可根据需要进行调整。',
+    history: '学习历史 ({count})',
+    historyHint: '点击任一记录可继续学习',
+    configureTitle: '需要配置AI服务',
+    configureText: '请先配置您的AI API密钥，才能开始学习体验',
+    configureNow: '立即配置',
+    confirmDelete: '确定要删除这个学习记录吗？此操作不可恢复。',
+    deleteFailed: '删除失败，请重试',
+    confirmBatchDelete: '确定要删除选中的 {count} 个学习记录吗？此操作不可恢复。',
+    partialDeleteFailed: '有 {count} 个记录删除失败，已恢复到列表',
+    batchDeleteFailed: '批量删除失败，请重试',
+    saveConfigFailed: '保存配置失败，请重试',
+    configureFirst: '请先配置AI服务',
+    configureRequired: '需要先配置AI服务',
+  },
+
+  upload: {
+    fallbackChapters: {
+      basics: '基础概念与入门',
+      principles: '核心原理深入理解',
+      practice: '实践应用与案例',
+      advanced: '高级技巧与进阶',
+      summary: '总结与展望',
+    },
+    fallbackCoreContent: '核心内容学习',
+    fallbackSections: {
+      basics: '基础知识点',
+      details: '详细解析',
+      practice: '实践应用',
+    },
+    fallbackPart: '{title} - 第{number}部分',
+    errors: {
+      format: 'AI返回格式异常，可能是网络不稳定导致',
+      timeout: '请求超时，请检查网络连接',
+      auth: 'API配置问题，请检查密钥是否正确',
+      rateLimit: 'API调用次数限制，请稍后再试',
+      balance: 'API余额不足，请检查账户状态',
+    },
+    configMissing: 'API配置丢失，请重新设置',
+    usedFallbackOutline: 'AI大纲生成遇到问题，已为您创建基础学习大纲。您可以在下一步中自定义调整。',
+    outlineFailedAlert: '生成大纲失败: {error}\n\n您可以：\n1. 检查网络连接后重试\n2. 尝试上传较小的文档\n3. 检查API配置是否正确',
+    checkingConfig: '正在检查配置...',
+    title: '创建新的学习会话',
+    steps: {
+      upload: '上传文档',
+      outline: '编辑大纲',
+      level: '选择水平',
+    },
+    uploadIntro: '支持多种格式的文档，包括PDF、Word、PowerPoint、Markdown等。上传后AI将自动解析内容并生成学习大纲。',
+    outlineProblemHelp: 'AI大纲生成失败，这可能是由于网络问题、API配置问题或文档内容过于复杂导致的。',
+    useFallbackOutline: '使用基础大纲',
+    reupload: '重新上传',
+    outlineIntro: 'AI已为您生成了学习大纲，您可以根据需要进行调整。可以编辑章节标题、调整顺序或添加新章节。',
+    levelIntro: 'AI私教将根据您选择的水平调整教学方式。您可以随时在学习过程中调整这个设置。',
+    audience: '适合对象：',
+    beginnerAudience: '初学者或对主题不熟悉的用户',
+    expertAudience: '有相关基础或经验的用户',
+    teachingStyle: '教学特点：',
+  },
+
+  learn: {
+    sessionNotFound: '学习会话不存在',
+    configMissing: 'API配置丢失，请重新配置',
+    loadFailed: '加载会话失败',
+    budgetExceeded: '本月AI费用已超出预算：已用 {spent} / 预算 {limit}',
+    budgetWarning: '本月AI费用即将达到预算：已用 {spent} / 预算 {limit}（{percent}%）',
+    systemStarted: '学习会话已开始。文档标题：{title}，学习水平：{level}模式。',
+    levelSwitched: '学习水平已切换为{level}模式。',
+    switchLevel: '切换学习水平',
+    difficulty: '难度 {percent}%',
+    difficultyHint: '根据测验成绩、回复和学习节奏自动调整的当前小节难度（0% 为小白，100% 为高手）',
+    welcome: '你好！我将作为你的私人导师，帮助你更好的理解你上传的材料《{title}》。为了给您提供最合适的教学体验，我将根据你之前选择的{level}模式来跟你互动。\n\n看完左边这个课程大纲了吗？我们是按照这个顺序从第一章开始，还是您想先跳到某个您特别感兴趣的章节？',
+    replyFailed: 'AI响应失败',
+    replyFailedMessage: '❌ AI回复失败：{error}\n\n可能的原因：\n• API密钥无效或已过期\n• 网络连接问题\n• AI服务暂时不可用\n• 请求内容超过限制\n\n建议操作：\n• 检查API配置是否正确\n• 稍后重试\n• 联系技术支持',
+    outlineFixed: '✅ 大纲修复完成！使用了新的强化重组算法。请查看控制台日志了解详细过程。',
+    outlineFixFailed: '修复大纲失败，请稍后重试。',
+    jumpToSection: '我想跳转到"{title}"这个小节进行学习。',
+    cardNote: '学习感受：{note}',
+    saveCardFailed: '保存卡片失败',
+    bookmarkFailed: '收藏失败，请重试',
+    loadingSession: '加载学习会话中...',
+    notFoundTitle: '会话不存在',
+    notFoundHint: '请检查链接是否正确',
+    backHome: '返回首页',
+    chaptersCompleted: '{completed}/{total} 个章节已完成',
+    messageCount: '{count} 条对话',
+    resizeHint: '拖拽中间分隔条可调整面板大小',
+    outlineTitle: '学习大纲',
+    current: '当前：{title}',
+    sectionActions: '当前小节操作：',
+    completed: '✅ 已完成',
+    markCompleted: '标记为已完成',
+    suggestedNext: '建议下一节：{title}',
+    fixOutline: '🔧 修复大纲',
+    tutorTitle: 'AI私教助手',
+    beginnerTagline: '🌱 耐心引导模式，循序渐进，用心陪伴每一步',
+    expertTagline: '⚡ 高效学习模式，直击重点，快速掌握核心',
+    inputPlaceholder: '输入您的问题或回应...',
+  },
+
+  quiz: {
+    open: '📝 小节测验',
+    openWithScore: '📝 小节测验（最高 {score} 分）',
+    title: '小节测验：{title}',
+    intro: '根据本小节的学习材料出题，包含单选题、判断题和简答题，简答题由AI按评分要点批改。',
+    generate: '生成测验',
+    generating: '正在出题...',
+    regenerate: '重新出题',
+    confirmRegenerate: '重新出题会清空本小节的作答记录，确定继续吗？',
+    types: {
+      multipleChoice: '单选题',
+      trueFalse: '判断题',
+      shortAnswer: '简答题',
+    },
+    true: '正确',
+    false: '错误',
+    answerPlaceholder: '写下你的回答...',
+    submit: '提交答案',
+    grading: '批改中...',
+    retake: '重新作答',
+    confirmUnanswered: '还有 {count} 道题未作答，确定提交吗？',
+    score: '得分 {score} / 100（及格 {passing}）',
+    passed: '✅ 已通过',
+    failed: '未通过，复习后再试一次吧',
+    history: '最高分 {score} · 已作答 {count} 次',
+    correct: '✔ 回答正确',
+    incorrect: '✘ 回答错误',
+    partialScore: '得分 {percent}%',
+    correctAnswer: '正确答案：{answer}',
+    referenceAnswer: '参考答案：{answer}',
+    feedback: '评语：{text}',
+    explanation: '解析：{text}',
+    source: '原文：{text}',
+    requireToComplete: '通过测验后才自动标记小节完成',
+    generateFailed: '生成测验失败：{error}',
+    gradeFailed: '批改失败：{error}',
+  },
+
+  cardGeneration: {
+    open: '🃏 提取复习卡片',
+    suggestion: '“{title}”已完成，要从本小节提取复习卡片吗？',
+    dismiss: '暂不',
+    title: '提取复习卡片：{title}',
+    intro: '根据本小节的对话和原文提取 3-10 张问答卡或填空卡，确认后加入卡片库参与复习。',
+    generate: '提取卡片',
+    generating: '正在提取卡片...',
+    regenerate: '重新提取',
+    empty: '没有提取到卡片',
+    formats: {
+      qa: '问答卡',
+      cloze: '填空卡',
+    },
+    keep: '保留',
+    question: '问题',
+    answer: '答案',
+    clozeText: '句子',
+    clozeHint: '用 {{关键词}} 标出需要挖空的部分',
+    selected: '已保留 {count} / {total} 张',
+    incomplete: '有 {count} 张保留的卡片内容不完整',
+    save: '保存 {count} 张卡片',
+    generateFailed: '提取卡片失败：{error}',
+    saveFailed: '保存卡片失败，请重试',
+  },
+
+  citations: {
+    sources: '引用原文：',
+    chipTitle: '查看原文片段 {number}',
+    chipTitleWithHeading: '查看原文片段 {number}：{heading}',
+    passage: '片段 {number}',
+  },
+
+  sourceViewer: {
+    title: '原文',
+    show: '📄 查看原文',
+    hide: '隐藏原文',
+    close: '关闭原文',
+    page: '第 {page} 页',
+    slide: '幻灯片 {number}',
+    searchPlaceholder: '搜索原文...',
+    matchCount: '{current}/{total}',
+    noMatches: '无结果',
+    previousMatch: '上一个',
+    nextMatch: '下一个',
+    askTutor: '问问私教',
+    askPrompt: `关于原文中的这段内容：
+
+{quote}
+
+请帮我讲解一下。`,
+  },
+
+  annotations: {
+    sourceTab: '原文',
+    listTab: '批注 ({count})',
+    highlight: '用{color}高亮',
+    addNote: '批注',
+    selectionNotLocated: '无法在原文中定位这段文字，请缩小选区后重试',
+    notePlaceholder: '写下你的想法...',
+    saveNote: '保存',
+    cancel: '取消',
+    edit: '编辑',
+    delete: '删除',
+    confirmDelete: '确定删除这条批注吗？',
+    createCard: '生成卡片',
+    cardCreated: '已生成卡片',
+    cardFailed: '生成卡片失败，请重试',
+    saveFailed: '保存批注失败，请重试',
+    jumpTo: '定位到原文',
+    searchPlaceholder: '搜索批注...',
+    empty: '还没有批注。在原文中选中一段文字即可高亮或添加批注。',
+    noResults: '没有匹配的批注',
+    ungrouped: '未归入章节',
+    orphaned: '原文已变化，无法定位',
+    colors: {
+      yellow: '黄色',
+      green: '绿色',
+      blue: '蓝色',
+      pink: '粉色',
+      purple: '紫色',
+    },
+  },
+
+  glossary: {
+    outlineTab: '大纲',
+    glossaryTab: '术语表 ({count})',
+    generating: '正在从学习材料中提取术语...',
+    generate: '生成术语表',
+    regenerate: '重新生成',
+    confirmRegenerate: '重新生成会替换现有的术语表（已生成的卡片保留），确定吗？',
+    generateFailed: '生成术语表失败：{error}',
+    empty: '还没有术语表。术语表会在开始学习时自动生成，也可以手动生成。',
+    searchPlaceholder: '搜索术语...',
+    noResults: '没有匹配的术语',
+    appearsIn: '出现在：',
+    jumpToSource: '在原文中查看',
+    createCard: '制作卡片',
+    cardCreated: '已制作卡片',
+    cardFailed: '制作卡片失败，请重试。',
+    cardQuestion: '什么是“{term}”？',
+    cardTag: '术语',
+  },
+
+  conceptMap: {
+    open: '概念图',
+    title: '概念图：{title}',
+    generating: '正在从学习材料中提取概念和关系...',
+    generate: '生成概念图',
+    regenerate: '重新生成',
+    confirmRegenerate: '重新生成会替换现有的概念图，确定吗？',
+    generateFailed: '生成概念图失败：{error}',
+    empty: '还没有概念图。概念图在大纲的基础上加入学习材料中的关键概念及其关系。',
+    stats: '{concepts} 个概念 · {relations} 条关系',
+    hint: '拖动平移，滚轮缩放，点击章节或概念跳转学习',
+    zoomIn: '放大',
+    zoomOut: '缩小',
+    fit: '适应窗口',
+    exportSvg: '导出 SVG',
+    exportPng: '导出 PNG',
+    exportMermaid: '导出 Mermaid',
+    exportOpml: '导出 OPML',
+    exportFailed: '导出失败，请重试。',
+    relations: {
+      prerequisiteOf: '是前提',
+      partOf: '属于',
+      contrastsWith: '对比',
+    },
+  },
+
+  studyReport: {
+    open: '学习报告',
+    title: '学习报告：{title}',
+    overview: '概况',
+    level: '学习水平',
+    startedAt: '开始学习',
+    completedAt: '全部完成',
+    studyTime: '学习时长',
+    studyTimeHint: '根据对话时间估算，中途离开超过10分钟的时间不计入',
+    completion: '完成进度',
+    completionValue: '{completed}/{total} 个小节（{percent}%）',
+    cards: '制作的卡片',
+    averageQuizScore: '测验平均分',
+    noQuiz: '未测验',
+    sections: '各小节',
+    sectionStats: '学习时长 {time} · 提问 {questions} 次 · 卡片 {cards} 张 · 测验最高分 {quiz}',
+    keyPoints: '要点',
+    struggles: '遇到的困难',
+    openQuestions: '待解决的问题',
+    noRecap: '还没有复盘笔记',
+    hoursMinutes: '{hours} 小时 {minutes} 分钟',
+    generateRecap: '生成复盘',
+    regenerateRecap: '重新生成复盘',
+    generatingRecap: '正在生成复盘笔记...',
+    recapFailed: '生成复盘笔记失败：{error}',
+    autoGenerateRecaps: '完成小节时自动生成复盘笔记（会调用AI）',
+    exportMarkdown: '导出 Markdown',
+    exportPdf: '导出 PDF',
+    printBlocked: '无法打开打印窗口，请允许弹出窗口后重试。',
+    allCompleted: '已完成全部小节，学习报告已生成。',
+    view: '查看学习报告',
+  },
+
+  prompts: {
+    tutor: {
+      retrievedLabel: '(根据当前章节和问题检索出的相关片段)',
+      truncatedLabel: '(已智能截取关键部分)',
+      retrievedNotice: '注意：学习材料内容较长，以上只是与当前问题最相关的片段。请基于这些片段进行教学，片段中没有的内容不要编造。',
+      truncatedNotice: '注意：学习材料内容较长，已进行智能截取。请基于提供的关键部分进行教学，必要时可以要求用户提供更具体的问题或章节。',
+    },
+    progress: {
+      instructions: `## 学习进度标记 (Progress Signal)
+
+学习大纲中方括号内是每个小节的ID。每次回复的最后，你都必须另起一行输出一个进度标记，格式如下（只能是一行JSON，不要放在代码块中）：
+{example}
+
+规则：
+- current：本条回复讲解的小节；还没开始讲解具体小节时填 null
+- completed：只有当学习者确实学完某个小节（讲解结束且学习者已确认理解，或学习者明确要求跳过）时才填写，否则填 []
+- next：建议的下一个小节，没有建议时填 null
+- 只能使用大纲中 section 类型的ID，不要编造ID
+- 学习者看不到这个标记，不要在正文中提到它
+- 界面记录的当前小节：{current}`,
+      example: '{"current":"当前正在讲解的小节ID","completed":["本轮确认学完的小节ID"],"next":"建议接下来学习的小节ID"}',
+      currentItem: '{id}（{title}）',
+      notStarted: '尚未开始',
+    },
+    outline: {
+      generateTitle: `
+**首先**，请为这份文档生成一个8-20字的精确标题：
+要求：概括主要知识点或概念，使用专业术语，避免口语化，不要包含"学习"、"了解"等动词。
+
+然后，`,
+      documentTitle: `文档标题：{title}
+`,
+      truncationNote: ' (内容已智能截取用于大纲生成)',
+      longDocumentNote: `
+**长篇文档处理说明**：
+这是一份长篇文档({wordCount}字)，已采用章节结构感知截取。内容包含：
+1. 【完整章节结构】- 文档的所有章节标题
+2. 【章节内容摘要】- 重点章节的详细内容
+3. 前言和结尾部分
+
+请严格按照提供的【完整章节结构】来规划学习大纲：
+- 保持与原文档章节的一致性和完整性
+- 为每个原始章节创建对应的学习章节
+- 可以在章节下细分为合理的小节
+- 确保覆盖文档的完整逻辑结构
+- 学习大纲应该体现原文档的思想脉络
+`,
+      responseFormatWithTitle: `
+返回格式（需要生成标题）：
+{
+  "documentTitle": "生成的精确标题",
+  "outline": [
+    {"title": "第1章 基础概念介绍", "order": 1, "type": "chapter", "level": 1, "chapterNumber": 1},
+    {"title": "1.1 核心概念", "order": 2, "type": "section", "level": 2, "parentChapter": 1, "estimatedMinutes": 8},
+    {"title": "1.2 重要性分析", "order": 3, "type": "section", "level": 2, "parentChapter": 1, "estimatedMinutes": 7},
+    {"title": "第2章 深入理解", "order": 4, "type": "chapter", "level": 1, "chapterNumber": 2},
+    {"title": "2.1 本章要点", "order": 5, "type": "section", "level": 2, "parentChapter": 2, "estimatedMinutes": 10},
+    {"title": "2.2 实践应用", "order": 6, "type": "section", "level": 2, "parentChapter": 2, "estimatedMinutes": 12},
+    {"title": "第3章 高级应用", "order": 7, "type": "chapter", "level": 1, "chapterNumber": 3},
+    {"title": "3.1 案例分析", "order": 8, "type": "section", "level": 2, "parentChapter": 3, "estimatedMinutes": 15}
+  ]
+}
+
+❗️注意示例中的编号规律：
+- 第1章的小节：1.1, 1.2 (parentChapter都是1)
+- 第2章的小节：2.1, 2.2 (parentChapter都是2)  
+- 第3章的小节：3.1 (parentChapter是3)
+严格按照这个模式生成！`,
+      responseFormatWithoutTitle: `
+返回格式（已有标题）：
+{
+  "outline": [
+    {"title": "第1章 基础概念介绍", "order": 1, "type": "chapter", "level": 1, "chapterNumber": 1},
+    {"title": "1.1 核心概念", "order": 2, "type": "section", "level": 2, "parentChapter": 1, "estimatedMinutes": 8},
+    {"title": "1.2 重要性分析", "order": 3, "type": "section", "level": 2, "parentChapter": 1, "estimatedMinutes": 7},
+    {"title": "第2章 深入理解", "order": 4, "type": "chapter", "level": 1, "chapterNumber": 2},
+    {"title": "2.1 本章要点", "order": 5, "type": "section", "level": 2, "parentChapter": 2, "estimatedMinutes": 10},
+    {"title": "2.2 实践应用", "order": 6, "type": "section", "level": 2, "parentChapter": 2, "estimatedMinutes": 12}
+  ]
+}`,
+      structureShort: `1. 这是一个短文档（{wordCount}字），生成{chapters}个主要章节
+2. 每个章节下包含3-5个小节，确保内容分布均匀
+3. 重点是增加小节的数量和细分度，而不是章节数量
+4. 小节应该更加细致，每个小节控制在2-4分钟的学习时间`,
+      structureMedium: `1. 这是一个中等长度文档（{wordCount}字），生成{chapters}个主要章节
+2. 每个章节下包含2-4个小节
+3. 章节划分应该遵循逻辑结构，从基础到高级
+4. 小节时长建议5-8分钟`,
+      structureKeepChapters: `1. 文档本身包含{chapters}个明显的章节结构，保持原有章节划分
+2. 每个章节下包含2-3个小节
+3. 严格按照文档原有的章节标题和结构进行划分
+4. 如果原章节数量超过20个，请合并相似主题的章节`,
+      structureLong: `1. 这是一个长文档（{wordCount}字），生成{chapters}个主要章节（最多8章）
+2. 每个章节下包含3-4个小节
+3. 章节划分要有清晰的主题区分，避免内容重叠
+4. 小节时长建议8-12分钟`,
+      repair: `你输出的大纲没有通过格式校验，问题如下：
+{errors}
+
+请修正以上问题，其余内容保持不变。只输出修正后的完整JSON对象，不要任何解释或代码块标记。`,
+      structureDigest: '[基于完整章节结构的内容摘要]',
+      fullStructure: '【完整章节结构】',
+      chapterDigest: '【章节内容摘要】',
+      documentEnding: '[文档结尾部分]',
+      middlePart: '[...文档中间部分...]',
+      laterPart: '[...文档后续部分...]',
+      middleOmitted: '[...文档中间部分省略...]',
+      laterOmitted: '[...文档后续部分省略...]',
+      bodyOmitted: '[...文档主体内容省略...]',
+      fallbackDocumentTitle: '文档大纲',
+      placeholderChapter: '主题 {number}',
+      mainContent: '主要内容',
+      keySummary: '重点总结',
+      chapterKeyPoints: '本章要点',
+    },
+    memory: {
+      system: '你是学习记录整理助手，负责把私教与学习者的对话压缩成简洁的学习记忆。',
+      request: `请整理学习者在《{chapter}》中的学习情况。
+
+{previous}新增对话：
+{transcript}
+
+要求：
+1. {mergeHint}概括已经讲解过的知识点、学习者的理解程度和仍未解决的疑问
+2. 不超过200字，使用简洁的陈述句
+3. 只输出摘要本身，不要任何前言或解释`,
+      previousSummary: `已有摘要：
+{summary}
+
+`,
+      mergeHint: '在已有摘要的基础上合并新增对话，',
+      learner: '学习者',
+      tutor: '私教',
+    },
+    quiz: {
+      generate: `你是一名出题老师，请根据学习材料为小节《{section}》{chapterNote}出一套测验题。
+
+学习材料：
+{material}
+
+要求：
+1. 共出 {multipleChoice} 道单选题（type 为 "multipleChoice"）、{trueFalse} 道判断题（"trueFalse"）、{shortAnswer} 道简答题（"shortAnswer"）
+2. 只考查学习材料中与该小节相关的内容，不要超出材料范围，也不要考查无关紧要的细节
+3. {levelInstruction}
+4. 单选题给出3-4个选项（options）和正确选项的序号 answerIndex（从0开始），干扰项要合理、有迷惑性
+5. 判断题的题干是一个陈述句，answerIsTrue 表示该陈述是否正确
+6. 简答题给出参考答案 referenceAnswer 和2-4条评分要点 rubric
+7. 每道题附上答案解析 explanation，并在 sourceExcerpt 中摘录出题依据的原文（不超过100字）
+
+只输出JSON对象，不要任何解释或代码块标记，格式：
+{"questions":[{"type":"multipleChoice","question":"...","options":["...","...","..."],"answerIndex":0,"explanation":"...","sourceExcerpt":"..."}]}`,
+      chapterNote: '（属于《{chapter}》）',
+      beginnerLevel: '学习者是初学者，侧重考查对基础概念的理解，题目表述要直白',
+      expertLevel: '学习者有一定基础，侧重考查原理、对比和实际应用',
+      repair: `你输出的JSON没有通过格式校验，问题如下：
+{errors}
+
+请修正以上问题，其余内容保持不变。只输出修正后的完整JSON对象，不要任何解释或代码块标记。`,
+      grade: `你是一名阅卷老师，请按评分要点给学习者的简答题打分。
+
+{items}
+
+评分规则：
+- 每道题的得分 score 在0到1之间，按答到的评分要点比例给分；意思正确即可，不要求与参考答案措辞一致
+- 答非所问或与题目无关的回答得0分
+- feedback 用一两句话直接对学习者说明答对了哪些要点、遗漏了什么
+
+只输出JSON对象，不要任何解释或代码块标记，格式：
+{"grades":[{"questionId":"题目ID","score":0.5,"feedback":"..."}]}`,
+      gradeItem: `题目ID：{id}
+题目：{question}
+参考答案：{reference}
+评分要点：
+{rubric}
+学习者的回答：{answer}`,
+    },
+    cards: {
+      extract: `你是一名学习卡片制作助手。学习者刚学完小节《{section}》{chapterNote}，请从下面的原文和对话中提取 {min}-{max} 张用于间隔复习的卡片。
+
+小节原文：
+{material}
+
+本小节的对话（方括号内是对话编号）：
+{transcript}
+
+要求：
+1. 每张卡片只考查一个知识点，优先选择对话中讨论过、容易遗忘的关键概念、定义、因果关系和易错点
+2. 问答卡（format 为 "qa"）：question 是脱离上下文也能看懂的问题，answer 简洁准确（不超过60字）
+3. 填空卡（format 为 "cloze"）：clozeText 是一句完整的陈述，用 {{关键词}} 标出需要记忆的词语，每张卡片挖空1-2处
+4. 内容必须忠于原文和对话，不要编造
+5. sourceMessages 填写卡片内容来自的对话编号；内容只来自原文时填 []
+
+只输出JSON对象，不要任何解释或代码块标记，格式：
+{"cards":[{"format":"qa","question":"...","answer":"...","sourceMessages":[2,3]},{"format":"cloze","clozeText":"...{{...}}...","sourceMessages":[4]}]}`,
+      noConversation: '（本小节没有对话，请只根据原文提取）',
+    },
+    citations: {
+      instructions: `## 引用学习材料 (Citations)
+
+学习材料中的每个片段都标有编号（如【片段 {example}】）。回答中讲解的内容来自学习材料时，在相应句子末尾用方括号标注片段编号，如 [{example}]；依据多个片段时连续标注，如 [2][5]。
+- 只能使用学习材料中出现的片段编号，不要编造
+- 与学习材料无关的内容（如提问、鼓励、举例）不需要标注
+- 标注放在进度标记之前的正文中`,
+    },
+    difficulty: {
+      instructions: `## 讲解难度 (Difficulty)
+
+根据学习者的测验成绩、回复和学习节奏，当前小节的讲解难度为 {percent}%（0% 为完全的初学者，100% 为熟练的专业人士）。{guidance}`,
+      veryEasy: '学习者目前比较吃力：放慢节奏，每次只讲一个要点，多用生活中的比喻，讲完后确认学习者是否理解。',
+      easy: '学习者基本跟得上：保持通俗的讲解，解释用到的术语，适当举例。',
+      hard: '学习者掌握得不错：可以直接使用术语，加快节奏，多讲原理和联系。',
+      veryHard: '学习者掌握得很好：简明扼要，跳过基础解释，深入讨论细节、边界情况和实际应用。',
+    },
+    glossary: {
+      extract: `你是一名学习助手。请从下面的学习材料中提取 {min}-{max} 个学习者需要掌握的关键术语，组成术语表。
+
+学习大纲（方括号内是小节ID）：
+{outline}
+
+学习材料：
+{material}
+
+要求：
+1. term 使用学习材料中的原始写法，只选择材料中确实出现、对理解内容重要的专业术语和关键概念
+2. aliases 填写材料中出现的其他写法（如缩写、英文名），没有时填 []
+3. definition 依据学习材料给出简洁的定义（不超过60字），材料中没有明确定义时根据上下文概括，不要引入材料以外的说法
+4. quote 逐字摘录定义所依据的原文句子，不要改写
+5. sections 填写术语出现的小节ID，只能使用大纲中的ID
+
+只输出JSON对象，不要任何解释或代码块标记，格式：
+{"terms":[{"term":"...","aliases":["..."],"definition":"...","quote":"...","sections":["..."]}]}`,
+    },
+    conceptMap: {
+      terms: `术语表中的术语（可作为候选概念）：{terms}
+`,
+      extract: `你是一名学习助手。请从下面的学习材料中提取 {min}-{max} 个关键概念以及它们之间的关系，用于绘制概念图。
+
+学习大纲（方括号内是小节ID）：
+{outline}
+
+{terms}学习材料：
+{material}
+
+要求：
+1. id 使用 c1、c2 这样的编号；label 是简短的概念名称（不超过12个字），使用学习材料中的写法
+2. description 用一句话说明概念（不超过40字），依据学习材料，不要引入材料以外的说法
+3. section 填写最集中讲解该概念的小节ID，只能使用大纲中的ID
+4. relations 描述概念之间的关系，type 只能是：
+   - prerequisiteOf：理解 from 是理解 to 的前提
+   - partOf：from 是 to 的组成部分或子类
+   - contrastsWith：from 与 to 容易混淆、需要对比理解
+5. from、to 只能使用 concepts 中的编号，不要重复列出同一关系；大纲本身的章节层级不需要写成关系
+
+只输出JSON对象，不要任何解释或代码块标记，格式：
+{"concepts":[{"id":"c1","label":"...","description":"...","section":"..."}],"relations":[{"from":"c1","to":"c2","type":"prerequisiteOf"}]}`,
+    },
+    recap: {
+      noConversation: '（本小节没有对话，请只根据学习材料总结要点，struggles 和 openQuestions 填 []）',
+      extract: `你是一名学习助手。学习者刚刚学完《{section}》{chapterNote}，请根据本小节的学习材料和学习者与私教的对话，写一份复盘笔记。
+
+学习材料：
+{material}
+
+本小节的对话：
+{transcript}
+
+要求：
+1. keyPoints：本小节最重要的 3-{max} 个要点，每条一句话，依据学习材料，不要引入材料以外的说法
+2. struggles：学习者在对话中表现出没听懂、答错或反复追问的地方，每条说明具体是哪个知识点；对话中没有体现时填 []
+3. openQuestions：对话中没有得到充分解答、或值得学习者继续思考的问题，最多 {max} 条；没有时填 []
+4. 用第二人称“你”称呼学习者，语言简洁
+
+只输出JSON对象，不要任何解释或代码块标记，格式：
+{"keyPoints":["..."],"struggles":["..."],"openQuestions":["..."]}`,
+    },
+  },
+};
+
+export type Messages = typeof zh;
+
+export default zh;
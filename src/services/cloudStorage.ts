@@ -5,21 +5,24 @@
  * - 学习会话管理
  * - 对话消息管理  
  * - 学习卡片管理
+ * - 原文批注管理
  * - 用户数据管理
  * - 错误处理和类型安全
  */
 
 import { createClient } from '../utils/supabase'
-import { LearningSession, ChatMessage, LearningCard } from '../types'
+import { LearningSession, ChatMessage, LearningCard, Annotation } from '../types'
 import { 
   Database, 
   DbSession, 
   DbMessage, 
   DbCard, 
+  DbAnnotation,
   DbUser,
   DbSessionInsert,
   DbMessageInsert,
   DbCardInsert,
+  DbAnnotationInsert,
   UserStats 
 } from '../types/database.types'
 
@@ -143,7 +146,18 @@ export class CloudStorageService {
         status: session.status,
         outline: session.outline,
         current_chapter: session.currentChapter,
-        progress: {},
+        // 没有独立列的会话数据（对话记忆、提示词模板版本、PDF页码位置、当前对话分支等）存放在 progress 中
+        // 检索索引可以由文档内容重新构建，只保存在本机，不同步到云端
+        progress: {
+          ...(session.conversationMemory ? { conversationMemory: session.conversationMemory } : {}),
+          ...(session.promptTemplates ? { promptTemplates: session.promptTemplates } : {}),
+          ...(session.documentPageOffsets ? { documentPageOffsets: session.documentPageOffsets } : {}),
+          ...(session.activeMessageId ? { activeMessageId: session.activeMessageId } : {}),
+        },
+        learner_model: session.learnerModel || null,
+        glossary: session.glossary || null,
+        concept_map: session.conceptMap || null,
+        chapter_recaps: session.chapterRecaps || null,
         created_at: new Date(session.createdAt).toISOString(),
         updated_at: new Date(session.updatedAt).toISOString()
       }
@@ -173,6 +187,19 @@ export class CloudStorageService {
         }
       }
 
+      // 保存批注（空列表也要同步，以便删除云端已删除的批注）
+      // 卡片已在上面先保存；引用的卡片不在本会话中时不写入卡片ID，避免违反外键约束
+      if (session.annotations) {
+        const cardIds = new Set((session.cards || []).map(card => card.id))
+        const annotations = session.annotations.map(annotation =>
+          annotation.cardId && !cardIds.has(annotation.cardId) ? { ...annotation, cardId: undefined } : annotation
+        )
+        const annotationResult = await this.saveAnnotations(session.id, annotations)
+        if (!annotationResult.success) {
+          return annotationResult
+        }
+      }
+
       return { success: true }
     } catch (error) {
       console.error('保存会话到云端失败:', error)
@@ -218,6 +245,17 @@ export class CloudStorageService {
         console.warn('加载卡片失败:', cardsError.message)
       }
 
+      // 加载批注
+      const { data: annotations, error: annotationsError } = await this.client
+        .from('learning_annotations')
+        .select('*')
+        .eq('session_id', sessionId)
+        .order('anchor_start', { ascending: true })
+
+      if (annotationsError) {
+        console.warn('加载批注失败:', annotationsError.message)
+      }
+
       // 转换为前端类型
       const session: LearningSession = {
         id: sessionData.id,
@@ -231,7 +269,17 @@ export class CloudStorageService {
         messages: messages?.map(this.transformMessage) || [],
         currentChapter: sessionData.current_chapter,
         status: sessionData.status,
-        cards: cards?.map(this.transformCard) || []
+        cards: cards?.map(this.transformCard) || [],
+        annotations: annotations?.map(this.transformAnnotation) || [],
+        conversationMemory: sessionData.progress?.conversationMemory,
+        promptTemplates: sessionData.progress?.promptTemplates,
+        documentPageOffsets: sessionData.progress?.documentPageOffsets,
+        activeMessageId: sessionData.progress?.activeMessageId,
+        // 单独成列之前保存的会话，这些字段仍在 progress 中
+        learnerModel: sessionData.learner_model || sessionData.progress?.learnerModel,
+        glossary: sessionData.glossary || sessionData.progress?.glossary,
+        conceptMap: sessionData.concept_map || sessionData.progress?.conceptMap,
+        chapterRecaps: sessionData.chapter_recaps || sessionData.progress?.chapterRecaps
       }
 
       return { success: true, session }
@@ -319,7 +367,8 @@ export class CloudStorageService {
         chapter_id: msg.chapterId,
         is_bookmarked: msg.isBookmarked || false,
         card_id: msg.cardId,
-        metadata: {},
+        parent_id: msg.parentId ?? null,
+        metadata: this.buildMessageMetadata(msg),
         created_at: new Date(msg.timestamp).toISOString()
       }))
 
@@ -351,7 +400,8 @@ export class CloudStorageService {
         chapter_id: message.chapterId,
         is_bookmarked: message.isBookmarked || false,
         card_id: message.cardId,
-        metadata: {},
+        parent_id: message.parentId ?? null,
+        metadata: this.buildMessageMetadata(message),
         created_at: new Date(message.timestamp).toISOString()
       }
 
@@ -393,6 +443,8 @@ export class CloudStorageService {
         type: card.type,
         tags: card.tags,
         chapter_id: card.chapterId,
+        format: card.format ?? null,
+        source_message_ids: card.sourceMessageIds ?? null,
         difficulty: card.difficulty,
         review_count: card.reviewCount,
         last_reviewed_at: card.lastReviewedAt ? new Date(card.lastReviewedAt).toISOString() : null,
@@ -449,6 +501,8 @@ export class CloudStorageService {
         type: card.type,
         tags: card.tags,
         chapter_id: card.chapterId,
+        format: card.format ?? null,
+        source_message_ids: card.sourceMessageIds ?? null,
         difficulty: card.difficulty,
         review_count: card.reviewCount,
         last_reviewed_at: card.lastReviewedAt ? new Date(card.lastReviewedAt).toISOString() : null,
@@ -471,6 +525,67 @@ export class CloudStorageService {
     }
   }
 
+  // =================================
+  // 批注管理
+  // =================================
+
+  /**
+   * 保存会话的批注列表，并删除云端中已不在列表里的批注
+   */
+  async saveAnnotations(sessionId: string, annotations: Annotation[]): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { data: { user } } = await this.client.auth.getUser()
+      if (!user) return { success: false, error: '用户未登录' }
+
+      let staleQuery = this.client
+        .from('learning_annotations')
+        .delete()
+        .eq('session_id', sessionId)
+      if (annotations.length > 0) {
+        staleQuery = staleQuery.not('id', 'in', `(${annotations.map(annotation => annotation.id).join(',')})`)
+      }
+      const { error: deleteError } = await staleQuery
+
+      if (deleteError) {
+        return { success: false, error: `删除批注失败: ${deleteError.message}` }
+      }
+
+      if (annotations.length === 0) {
+        return { success: true }
+      }
+
+      const annotationData: DbAnnotationInsert[] = annotations.map(annotation => ({
+        id: annotation.id,
+        user_id: user.id,
+        session_id: sessionId,
+        chapter_id: annotation.chapterId ?? null,
+        color: annotation.color,
+        note: annotation.note ?? null,
+        anchor_start: annotation.anchor.start,
+        anchor_end: annotation.anchor.end,
+        quote: annotation.anchor.quote,
+        prefix: annotation.anchor.prefix,
+        suffix: annotation.anchor.suffix,
+        card_id: annotation.cardId ?? null,
+        created_at: new Date(annotation.createdAt).toISOString(),
+        updated_at: new Date(annotation.updatedAt).toISOString()
+      }))
+
+      const { error } = await this.client
+        .from('learning_annotations')
+        .upsert(annotationData)
+
+      if (error) {
+        return { success: false, error: `保存批注失败: ${error.message}` }
+      }
+
+      return { success: true }
+    } catch (error) {
+      console.error('保存批注失败:', error)
+      return { success: false, error: '保存批注时发生错误' }
+    }
+  }
+
   /**
    * 获取需要复习的卡片
    */
@@ -560,8 +675,9 @@ export class CloudStorageService {
       const { data: user } = await this.client.auth.getUser()
       if (!user.user) throw new Error('用户未登录')
 
-      // 删除相关的消息和卡片
+      // 删除相关的消息、批注和卡片（批注引用卡片，先删除批注）
       await this.client.from('chat_messages').delete().eq('session_id', sessionId)
+      await this.client.from('learning_annotations').delete().eq('session_id', sessionId)
       await this.client.from('learning_cards').delete().eq('session_id', sessionId)
       
       // 删除会话
@@ -584,6 +700,17 @@ export class CloudStorageService {
   // 数据转换工具函数
   // =================================
 
+  /**
+   * 生成消息的扩展元数据（数据库中没有单独列的字段）
+   */
+  private buildMessageMetadata = (message: ChatMessage): Record<string, any> => {
+    return {
+      ...(message.isInterrupted ? { isInterrupted: true } : {}),
+      ...(message.answeredBy ? { answeredBy: message.answeredBy } : {}),
+      ...(message.citations?.length ? { citations: message.citations } : {})
+    }
+  }
+
   /**
    * 转换数据库消息为前端消息类型
    */
@@ -595,7 +722,11 @@ export class CloudStorageService {
       timestamp: new Date(dbMessage.created_at).getTime(),
       chapterId: dbMessage.chapter_id,
       isBookmarked: dbMessage.is_bookmarked,
-      cardId: dbMessage.card_id
+      cardId: dbMessage.card_id,
+      parentId: dbMessage.parent_id ?? undefined,
+      isInterrupted: dbMessage.metadata?.isInterrupted || undefined,
+      answeredBy: dbMessage.metadata?.answeredBy || undefined,
+      citations: dbMessage.metadata?.citations || undefined
     }
   }
 
@@ -617,7 +748,32 @@ export class CloudStorageService {
       difficulty: dbCard.difficulty,
       sessionId: dbCard.session_id,
       messageId: dbCard.message_id || '',
-      chapterId: dbCard.chapter_id
+      chapterId: dbCard.chapter_id,
+      format: dbCard.format ?? undefined,
+      sourceMessageIds: dbCard.source_message_ids ?? undefined
+    }
+  }
+
+  /**
+   * 转换数据库批注为前端批注类型
+   */
+  private transformAnnotation = (dbAnnotation: DbAnnotation): Annotation => {
+    return {
+      id: dbAnnotation.id,
+      sessionId: dbAnnotation.session_id,
+      chapterId: dbAnnotation.chapter_id ?? undefined,
+      color: dbAnnotation.color,
+      note: dbAnnotation.note ?? undefined,
+      anchor: {
+        start: dbAnnotation.anchor_start,
+        end: dbAnnotation.anchor_end,
+        quote: dbAnnotation.quote,
+        prefix: dbAnnotation.prefix || '',
+        suffix: dbAnnotation.suffix || ''
+      },
+      cardId: dbAnnotation.card_id ?? undefined,
+      createdAt: new Date(dbAnnotation.created_at).getTime(),
+      updatedAt: new Date(dbAnnotation.updated_at).getTime()
     }
   }
 }
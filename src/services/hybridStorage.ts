@@ -161,8 +161,9 @@ export class HybridStorageService {
         
         if (cloudResult.success && cloudResult.session) {
           // 更新本地缓存
-          localStorageService.saveSession(cloudResult.session)
-          return cloudResult.session
+          const session = this.withLocalRetrievalIndex(cloudResult.session)
+          localStorageService.saveSession(session)
+          return session
         }
       }
       
@@ -549,7 +550,7 @@ export class HybridStorageService {
           const tombstones: Set<string> = new Set(tombstonesRaw ? JSON.parse(tombstonesRaw) : [])
           for (const session of data) {
             if (!tombstones.has(session.id)) {
-              localStorageService.saveSession(session)
+              localStorageService.saveSession(this.withLocalRetrievalIndex(session))
             }
           }
           break
@@ -561,6 +562,16 @@ export class HybridStorageService {
     }
   }
 
+  /**
+   * 检索索引不同步到云端：用云端数据覆盖本地缓存时保留本机已构建的索引，
+   * 本机没有时由学习页面根据文档内容重新构建
+   */
+  private withLocalRetrievalIndex(session: LearningSession): LearningSession {
+    if (session.retrievalIndex) return session
+    const localSession = localStorageService.getSessionById(session.id)
+    return localSession?.retrievalIndex ? { ...session, retrievalIndex: localSession.retrievalIndex } : session
+  }
+
   /**
    * 获取同步状态
    */
@@ -85,6 +85,10 @@ export interface Database {
           outline: Array<any>
           current_chapter: string | null
           progress: Record<string, any>
+          learner_model: Record<string, any> | null
+          glossary: Record<string, any> | null
+          concept_map: Record<string, any> | null
+          chapter_recaps: Record<string, any> | null
           message_count: number
           card_count: number
           completion_percentage: number
@@ -102,6 +106,10 @@ export interface Database {
           outline?: Array<any>
           current_chapter?: string | null
           progress?: Record<string, any>
+          learner_model?: Record<string, any> | null
+          glossary?: Record<string, any> | null
+          concept_map?: Record<string, any> | null
+          chapter_recaps?: Record<string, any> | null
           message_count?: number
           card_count?: number
           completion_percentage?: number
@@ -119,6 +127,10 @@ export interface Database {
           outline?: Array<any>
           current_chapter?: string | null
           progress?: Record<string, any>
+          learner_model?: Record<string, any> | null
+          glossary?: Record<string, any> | null
+          concept_map?: Record<string, any> | null
+          chapter_recaps?: Record<string, any> | null
           message_count?: number
           card_count?: number
           completion_percentage?: number
@@ -135,6 +147,7 @@ export interface Database {
           chapter_id: string | null
           is_bookmarked: boolean
           card_id: string | null
+          parent_id: string | null
           metadata: Record<string, any>
           created_at: string
         }
@@ -146,6 +159,7 @@ export interface Database {
           chapter_id?: string | null
           is_bookmarked?: boolean
           card_id?: string | null
+          parent_id?: string | null
           metadata?: Record<string, any>
           created_at?: string
         }
@@ -157,6 +171,7 @@ export interface Database {
           chapter_id?: string | null
           is_bookmarked?: boolean
           card_id?: string | null
+          parent_id?: string | null
           metadata?: Record<string, any>
           created_at?: string
         }
@@ -173,6 +188,8 @@ export interface Database {
           type: 'inspiration' | 'bookmark'
           tags: string[]
           chapter_id: string | null
+          format: 'qa' | 'cloze' | null
+          source_message_ids: string[] | null
           difficulty: number
           review_count: number
           last_reviewed_at: string | null
@@ -191,6 +208,8 @@ export interface Database {
           type: 'inspiration' | 'bookmark'
           tags?: string[]
           chapter_id?: string | null
+          format?: 'qa' | 'cloze' | null
+          source_message_ids?: string[] | null
           difficulty?: number
           review_count?: number
           last_reviewed_at?: string | null
@@ -209,6 +228,8 @@ export interface Database {
           type?: 'inspiration' | 'bookmark'
           tags?: string[]
           chapter_id?: string | null
+          format?: 'qa' | 'cloze' | null
+          source_message_ids?: string[] | null
           difficulty?: number
           review_count?: number
           last_reviewed_at?: string | null
@@ -217,6 +238,56 @@ export interface Database {
           updated_at?: string
         }
       }
+      learning_annotations: {
+        Row: {
+          id: string
+          user_id: string
+          session_id: string
+          chapter_id: string | null
+          color: 'yellow' | 'green' | 'blue' | 'pink' | 'purple'
+          note: string | null
+          anchor_start: number
+          anchor_end: number
+          quote: string
+          prefix: string
+          suffix: string
+          card_id: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          session_id: string
+          chapter_id?: string | null
+          color: 'yellow' | 'green' | 'blue' | 'pink' | 'purple'
+          note?: string | null
+          anchor_start: number
+          anchor_end: number
+          quote: string
+          prefix?: string
+          suffix?: string
+          card_id?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          session_id?: string
+          chapter_id?: string | null
+          color?: 'yellow' | 'green' | 'blue' | 'pink' | 'purple'
+          note?: string | null
+          anchor_start?: number
+          anchor_end?: number
+          quote?: string
+          prefix?: string
+          suffix?: string
+          card_id?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
     }
     Views: {
       [_ in never]: never
@@ -257,4 +328,8 @@ export type DbCard = Database['public']['Tables']['learning_cards']['Row']
 export type DbCardInsert = Database['public']['Tables']['learning_cards']['Insert']
 export type DbCardUpdate = Database['public']['Tables']['learning_cards']['Update']
 
+export type DbAnnotation = Database['public']['Tables']['learning_annotations']['Row']
+export type DbAnnotationInsert = Database['public']['Tables']['learning_annotations']['Insert']
+export type DbAnnotationUpdate = Database['public']['Tables']['learning_annotations']['Update']
+
 export type UserStats = Database['public']['Functions']['get_user_stats']['Returns'][0]
\ No newline at end of file
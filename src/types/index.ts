@@ -6,21 +6,57 @@
  * - 学习会话相关类型  
  * - 文档和大纲相关类型
  * - AI对话相关类型
+ * - 文档检索索引相关类型
+ * - 对话记忆相关类型
  */
 
 // 学习水平类型
 export type LearningLevel = 'beginner' | 'expert';
 
+// 界面与私教使用的语言
+export type Language = 'zh' | 'en';
+
+// 内置的AI服务商
+export type BuiltInProviderId = 'openai' | 'gemini' | 'claude' | 'deepseek' | 'kimi' | 'openrouter' | 'local' | 'mock';
+
 // API配置相关类型
 export interface APIConfig {
-  /** API提供商类型 */
-  provider: 'openai' | 'gemini' | 'claude' | 'deepseek' | 'kimi' | 'openrouter';
-  /** API密钥 */
+  /** API提供商类型（内置服务商，或通过 registerProvider 注册的自定义服务商ID） */
+  provider: BuiltInProviderId | (string & {});
+  /** API密钥（本地模型服务可留空） */
   apiKey: string;
   /** API基础URL（可选，用于自定义端点） */
   baseUrl?: string;
   /** 模型名称 */
   model?: string;
+  /** 本地模型服务的接口格式（仅 provider 为 local 时有效，默认 ollama） */
+  localApiFormat?: 'ollama' | 'openai';
+  /** 备用服务商（主服务商请求失败时按顺序切换，仅主配置使用） */
+  fallbacks?: APIConfig[];
+  /** 是否通过服务端AI代理请求（密钥保存在服务器上，浏览器不保存密钥；备用服务商沿用主配置的设置） */
+  useProxy?: boolean;
+}
+
+// 实际回答请求的模型
+export interface AnsweredBy {
+  /** 服务商ID */
+  provider: string;
+  /** 模型名称 */
+  model: string;
+  /** 是否由备用服务商回答（主服务商请求失败） */
+  isFallback: boolean;
+}
+
+// 私教回复引用的学习材料片段
+export interface MessageCitation {
+  /** 片段编号（与提示词中的“片段 N”一致，从1开始） */
+  number: number;
+  /** 片段在原文中的起始位置 */
+  start: number;
+  /** 片段在原文中的结束位置（不含） */
+  end: number;
+  /** 片段所属的标题（如果能识别） */
+  heading?: string;
 }
 
 // 学习大纲章节
@@ -49,6 +85,77 @@ export interface OutlineItem {
   completedAt?: number;
   /** 预估完成时间（分钟） */
   estimatedMinutes?: number;
+  /** 本小节的测验（题目与作答记录） */
+  quiz?: OutlineItemQuiz;
+}
+
+// 测验题型：单选、判断、简答
+export type QuizQuestionType = 'multipleChoice' | 'trueFalse' | 'shortAnswer';
+
+// 测验题目
+export interface QuizQuestion {
+  /** 题目唯一标识符 */
+  id: string;
+  /** 题型 */
+  type: QuizQuestionType;
+  /** 题干 */
+  question: string;
+  /** 选项（仅单选题） */
+  options?: string[];
+  /** 正确选项的序号，从0开始（仅单选题） */
+  answerIndex?: number;
+  /** 正确答案（仅判断题） */
+  answerIsTrue?: boolean;
+  /** 参考答案（仅简答题） */
+  referenceAnswer?: string;
+  /** 评分要点（仅简答题，AI据此评分） */
+  rubric?: string[];
+  /** 答案解析 */
+  explanation?: string;
+  /** 出题依据的原文摘录 */
+  sourceExcerpt?: string;
+}
+
+// 单题的作答与得分
+export interface QuizAnswerResult {
+  /** 题目ID */
+  questionId: string;
+  /** 学习者的回答：单选为选项序号，判断为 "true" / "false"，简答为原文 */
+  answer: string;
+  /** 得分（0-1） */
+  score: number;
+  /** 评语（简答题由AI给出） */
+  feedback?: string;
+}
+
+// 一次测验提交
+export interface QuizAttempt {
+  /** 提交记录ID */
+  id: string;
+  /** 提交时间 */
+  submittedAt: number;
+  /** 各题作答结果 */
+  answers: QuizAnswerResult[];
+  /** 总分（0-100） */
+  score: number;
+  /** 是否达到及格分 */
+  passed: boolean;
+}
+
+// 大纲项的测验
+export interface OutlineItemQuiz {
+  /** 题目 */
+  questions: QuizQuestion[];
+  /** 出题时间 */
+  createdAt: number;
+  /** 及格分（0-100） */
+  passingScore: number;
+  /** 作答记录（按提交时间升序） */
+  attempts: QuizAttempt[];
+  /** 历次最高分 */
+  bestScore?: number;
+  /** 是否已通过（任意一次达到及格分） */
+  passed?: boolean;
 }
 
 // 对话消息
@@ -59,14 +166,24 @@ export interface ChatMessage {
   role: 'user' | 'assistant' | 'system';
   /** 消息内容 */
   content: string;
-  /** 消息发送时间戳 */
+  /** 消息发送时间戳（AI消息为开始流式输出的时间） */
   timestamp: number;
+  /** AI回复输出完毕的时间戳（仅AI消息，旧数据为空） */
+  completedAt?: number;
   /** 关联的章节ID（如果适用） */
   chapterId?: string;
   /** 是否已收藏为卡片 */
   isBookmarked?: boolean;
   /** 关联的卡片ID（如果已收藏） */
   cardId?: string;
+  /** 是否被用户中途停止（内容只包含已生成的部分） */
+  isInterrupted?: boolean;
+  /** 实际回答的模型（仅AI消息） */
+  answeredBy?: AnsweredBy;
+  /** 回复中引用的学习材料片段（仅AI消息） */
+  citations?: MessageCitation[];
+  /** 上一条消息的ID（重新生成或编辑后的消息与原消息共享父消息，形成分支；旧数据为空时指向数组中的前一条消息） */
+  parentId?: string;
 }
 
 // 学习卡片
@@ -99,8 +216,15 @@ export interface LearningCard {
   messageId: string;
   /** 关联的章节ID */
   chapterId?: string;
+  /** 卡片形式（学完小节后自动提取的卡片：问答或填空），手动收藏的卡片为空 */
+  format?: CardFormat;
+  /** 提取卡片所依据的全部消息ID（messageId 为其中第一条） */
+  sourceMessageIds?: string[];
 }
 
+// 自动提取的卡片形式：问答卡（标题为问题、内容为答案）、填空卡（标题挖空、内容标出答案）
+export type CardFormat = 'qa' | 'cloze';
+
 // 复习记录
 export interface ReviewRecord {
   /** 记录ID */
@@ -131,16 +255,288 @@ export interface LearningSession {
   documentContent: string;
   /** 文档类型 */
   documentType: 'url' | 'pdf' | 'word' | 'ppt' | 'markdown' | 'text';
+  /** 每页在原文中的起始位置（仅PDF，解析时记录） */
+  documentPageOffsets?: number[];
   /** 学习大纲 */
   outline: OutlineItem[];
-  /** 对话历史 */
+  /** 对话历史（含全部分支，按创建顺序） */
   messages: ChatMessage[];
+  /** 当前查看的分支上的消息ID（为空时显示最新的分支） */
+  activeMessageId?: string;
   /** 当前学习进度（当前章节ID） */
   currentChapter?: string;
   /** 会话状态 */
   status: 'draft' | 'active' | 'completed' | 'paused';
   /** 学习卡片 */
   cards: LearningCard[];
+  /** 文档检索索引（对话时据此挑选与当前章节和问题相关的片段） */
+  retrievalIndex?: RetrievalIndex;
+  /** 对话记忆（较早对话按章节压缩成的摘要） */
+  conversationMemory?: ConversationMemory;
+  /** 使用的提示词模板版本（私教人设、生成大纲时使用的模板） */
+  promptTemplates?: Partial<Record<PromptTemplateKind, PromptTemplateRef>>;
+  /** 原文上的高亮与批注 */
+  annotations?: Annotation[];
+  /** 学习者模型（按学习信号调整的各章节难度） */
+  learnerModel?: LearnerModel;
+  /** 术语表（生成大纲后自动从学习材料中提取） */
+  glossary?: Glossary;
+  /** 概念图（概念及其关系，与大纲层级合并显示） */
+  conceptMap?: ConceptMap;
+  /** 小节复盘笔记（完成小节时生成，按小节ID索引） */
+  chapterRecaps?: Record<string, ChapterRecap>;
+}
+
+// 完成小节时生成的复盘笔记
+export interface ChapterRecap {
+  /** 小节ID */
+  outlineItemId: string;
+  /** 要点 */
+  keyPoints: string[];
+  /** 学习者在对话中遇到的困难 */
+  struggles: string[];
+  /** 仍待解决的问题 */
+  openQuestions: string[];
+  /** 生成时间 */
+  createdAt: number;
+}
+
+// 术语表中的一个术语
+export interface GlossaryTerm {
+  /** 术语唯一标识符 */
+  id: string;
+  /** 术语 */
+  term: string;
+  /** 其他写法（如缩写、英文名），在回复中同样识别 */
+  aliases?: string[];
+  /** 依据原文给出的定义 */
+  definition: string;
+  /** 定义依据的原文片段（已在原文中核实） */
+  sourceQuote?: string;
+  /** 原文片段（没有片段时为术语首次出现）在原文中的位置 */
+  sourceStart?: number;
+  /** 术语出现的大纲项ID */
+  outlineItemIds: string[];
+  /** 由术语生成的学习卡片ID */
+  cardId?: string;
+}
+
+// 概念之间的关系：先修（from 是 to 的先修）、组成部分（from 是 to 的一部分）、对比
+export type ConceptRelationType = 'prerequisiteOf' | 'partOf' | 'contrastsWith';
+
+// 概念图中的一个概念
+export interface ConceptNode {
+  /** 概念唯一标识符 */
+  id: string;
+  /** 概念名称 */
+  label: string;
+  /** 一句话说明 */
+  description?: string;
+  /** 概念所属的大纲项ID */
+  outlineItemId?: string;
+}
+
+// 两个概念之间的关系
+export interface ConceptRelation {
+  /** 起点概念ID */
+  from: string;
+  /** 终点概念ID */
+  to: string;
+  /** 关系类型 */
+  type: ConceptRelationType;
+}
+
+// 会话的概念图
+export interface ConceptMap {
+  /** 概念 */
+  concepts: ConceptNode[];
+  /** 概念之间的关系 */
+  relations: ConceptRelation[];
+  /** 生成时间 */
+  createdAt: number;
+}
+
+// 会话的术语表
+export interface Glossary {
+  /** 按在原文中首次出现的顺序排列的术语 */
+  terms: GlossaryTerm[];
+  /** 生成时间 */
+  createdAt: number;
+}
+
+// 学习者模型在一个大纲项上收集的学习信号
+export interface LearnerSignals {
+  /** 测验成绩（0-100） */
+  quizScores: number[];
+  /** 表示没听懂的回复次数 */
+  confusionCount: number;
+  /** 跳过反思与探索模块的次数 */
+  skippedReflections: number;
+  /** 参与统计的回复次数 */
+  responseCount: number;
+  /** 平均回复间隔（毫秒） */
+  averageResponseMs?: number;
+}
+
+// 单个大纲项上的难度
+export interface ChapterDifficulty {
+  /** 难度（0 为小白，1 为高手） */
+  difficulty: number;
+  /** 收集到的学习信号 */
+  signals: LearnerSignals;
+  /** 最后更新时间 */
+  updatedAt: number;
+}
+
+// 学习者模型：根据测验成绩、没听懂的回复、回复间隔和跳过的反思模块，连续调整每个大纲项的难度
+export interface LearnerModel {
+  /** 整体难度，新的大纲项从这里开始 */
+  difficulty: number;
+  /** 各大纲项上的难度，以大纲项ID为键 */
+  chapters: Record<string, ChapterDifficulty>;
+  /** 最后更新时间 */
+  updatedAt: number;
+}
+
+// 高亮颜色
+export type AnnotationColor = 'yellow' | 'green' | 'blue' | 'pink' | 'purple';
+
+// 批注在原文中的锚点：记录位置的同时保存原文片段和前后文，原文变化后据此重新定位
+export interface AnnotationAnchor {
+  /** 在原文中的起始位置 */
+  start: number;
+  /** 在原文中的结束位置（不含） */
+  end: number;
+  /** 高亮的原文 */
+  quote: string;
+  /** 高亮之前的一小段原文 */
+  prefix: string;
+  /** 高亮之后的一小段原文 */
+  suffix: string;
+}
+
+// 原文高亮与批注
+export interface Annotation {
+  /** 批注唯一标识符 */
+  id: string;
+  /** 关联的会话ID */
+  sessionId: string;
+  /** 高亮所在的大纲项ID */
+  chapterId?: string;
+  /** 高亮颜色 */
+  color: AnnotationColor;
+  /** 批注内容（只高亮时为空） */
+  note?: string;
+  /** 原文锚点 */
+  anchor: AnnotationAnchor;
+  /** 由批注生成的学习卡片ID */
+  cardId?: string;
+  /** 创建时间 */
+  createdAt: number;
+  /** 最后更新时间 */
+  updatedAt: number;
+}
+
+// 提示词模板用途：私教人设、大纲生成、卡片标题
+export type PromptTemplateKind = 'tutor' | 'outline' | 'cardTitle';
+
+// 提示词模板的一个版本
+export interface PromptTemplateVersion {
+  /** 版本号（从1开始递增） */
+  version: number;
+  /** 模板正文，{{变量}} 会被替换，{{#if 变量}}...{{/if}} 按条件保留 */
+  content: string;
+  /** 创建时间 */
+  createdAt: number;
+}
+
+// 提示词模板
+export interface PromptTemplate {
+  /** 模板唯一标识符 */
+  id: string;
+  /** 模板用途 */
+  kind: PromptTemplateKind;
+  /** 模板名称（私教模板即人设名称，如“考试教练”） */
+  name: string;
+  /** 说明 */
+  description?: string;
+  /** 是否为内置模板（不能删除，修改后以新版本保存） */
+  builtIn?: boolean;
+  /** 各版本内容（按版本号升序，最后一个为最新版本） */
+  versions: PromptTemplateVersion[];
+}
+
+// 会话记录的提示词模板版本
+export interface PromptTemplateRef {
+  /** 模板ID */
+  id: string;
+  /** 版本号 */
+  version: number;
+}
+
+// 单个章节的对话摘要
+export interface ChapterSummary {
+  /** 章节ID（未关联章节的对话为空） */
+  chapterId?: string;
+  /** 章节标题 */
+  chapterTitle: string;
+  /** 摘要内容：学习者在该章节已经学过、理解和仍有疑问的内容 */
+  content: string;
+  /** 已被压缩进摘要的消息数量 */
+  messageCount: number;
+  /** 最后更新时间 */
+  updatedAt: number;
+}
+
+// 对话记忆
+export interface ConversationMemory {
+  /** 按章节划分的摘要（按首次出现的顺序） */
+  summaries: ChapterSummary[];
+  /** 最后一条已被摘要的消息ID，之后的消息仍以原文发送 */
+  summarizedUntilMessageId?: string;
+  /** 最后更新时间 */
+  updatedAt: number;
+}
+
+// 文档片段（检索的最小单位，只记录在原文中的位置以节省存储）
+export interface DocumentChunk {
+  /** 片段序号 */
+  index: number;
+  /** 在原文中的起始位置 */
+  start: number;
+  /** 在原文中的结束位置（不含） */
+  end: number;
+  /** 片段所属的最近一个标题（如果能识别） */
+  heading?: string;
+  /** 片段的词项数量（BM25长度归一化用） */
+  length: number;
+}
+
+// 文档检索索引
+export interface RetrievalIndex {
+  /** 索引格式版本（分词或切分规则变化时递增，旧索引自动重建） */
+  version: number;
+  /** 原文指纹（文档内容变化时索引失效） */
+  documentHash: string;
+  /** 文档片段 */
+  chunks: DocumentChunk[];
+  /** 每个词项出现在多少个片段中 */
+  docFreq: Record<string, number>;
+  /** 片段平均词项数量 */
+  avgChunkLength: number;
+  /** 创建时间 */
+  createdAt: number;
+  /** 片段向量（服务商支持向量化时生成） */
+  embeddings?: {
+    /** 生成向量的服务商 */
+    provider: string;
+    /** 向量模型 */
+    model: string;
+    /** 与 chunks 一一对应的向量 */
+    vectors: number[][];
+  };
+  /** 向量化失败过的服务商/模型（避免每次打开都重试），格式为 provider:model */
+  embeddingUnavailable?: string;
 }
 
 // 文档解析结果
@@ -151,11 +547,15 @@ export interface DocumentParseResult {
   content: string;
   /** 文档标题（如果能提取到） */
   title?: string;
+  /** 文档类型（原文面板据此选择显示方式） */
+  documentType?: LearningSession['documentType'];
   /** 错误信息（如果解析失败） */
   error?: string;
   /** 文档元数据 */
   metadata?: {
     pageCount?: number;
+    /** 每页在 content 中的起始位置（仅PDF） */
+    pageOffsets?: number[];
     wordCount?: number;
     author?: string;
     createdDate?: string;
@@ -200,6 +600,85 @@ export interface GenerateOutlineResponse {
   generatedTitle?: string;
   /** 错误信息（如果生成失败） */
   error?: string;
+  /** 错误代码（如用户取消时为 ABORTED） */
+  code?: string;
+  /** 上下文用量与裁剪情况 */
+  contextUsage?: ContextUsage;
+  /** 生成时使用的大纲模板版本 */
+  promptTemplate?: PromptTemplateRef;
+}
+
+// 上下文裁剪记录
+export interface ContextTrimReport {
+  /** 被裁剪的部分 */
+  part: 'document' | 'history';
+  /** 裁剪前的估算token数 */
+  originalTokens: number;
+  /** 实际发送的估算token数 */
+  keptTokens: number;
+  /** 补充说明（如省略了几条消息） */
+  note?: string;
+}
+
+// 单次AI请求的上下文用量（估算值）
+export interface ContextUsage {
+  /** 模型上下文窗口 */
+  contextWindow: number;
+  /** 提示词估算token数 */
+  promptTokens: number;
+  /** 为回复预留的token数 */
+  completionTokens: number;
+  /** 因超出预算而被裁剪的内容 */
+  trimmed: ContextTrimReport[];
+}
+
+// 产生AI费用的操作类型
+export type UsageOperation = 'outline' | 'chat' | 'card' | 'memory' | 'quiz' | 'glossary' | 'conceptMap' | 'recap' | 'test';
+
+// 服务商返回（或估算）的token用量
+export interface TokenUsage {
+  /** 输入token数 */
+  promptTokens: number;
+  /** 输出token数 */
+  completionTokens: number;
+}
+
+// 单次AI请求的用量记录
+export interface UsageRecord extends TokenUsage {
+  /** 记录ID */
+  id: string;
+  /** 请求完成时间 */
+  timestamp: number;
+  /** 服务商ID */
+  provider: string;
+  /** 模型名称 */
+  model: string;
+  /** 所属学习会话（生成大纲时会话尚未创建，为空） */
+  sessionId?: string;
+  /** 操作类型 */
+  operation: UsageOperation;
+  /** 服务商未返回用量、按文本长度估算时为 true */
+  estimated: boolean;
+  /** 估算费用（美元），模型单价未知时为 null */
+  cost: number | null;
+}
+
+// 月度费用预算
+export interface UsageBudget {
+  /** 每月预算（美元），0 表示不限制 */
+  monthlyLimit: number;
+  /** 达到预算的该比例时开始提醒（0-1） */
+  warnRatio: number;
+}
+
+// 私教回复附带的学习进度信号（从回复末尾的进度标记解析，均为大纲项ID）
+export interface ChapterProgress {
+  /** 当前正在讲解的小节 */
+  currentItemId?: string;
+  /** 本轮确认已学完的小节 */
+  completedItemIds: string[];
+  /** 建议接下来学习的小节 */
+  nextSuggestedItemId?: string;
 }
 
 // API请求基础响应
@@ -212,6 +691,14 @@ export interface APIResponse<T = any> {
   error?: string;
   /** 错误代码 */
   code?: string;
+  /** 上下文用量与裁剪情况（仅AI生成类请求提供） */
+  contextUsage?: ContextUsage;
+  /** 实际回答的模型（仅AI生成类请求提供） */
+  answeredBy?: AnsweredBy;
+  /** 学习进度信号（仅私教对话提供，回复中没有进度标记时为空） */
+  progress?: ChapterProgress;
+  /** 回复中引用的学习材料片段（仅私教对话提供） */
+  citations?: MessageCitation[];
 }
 
 // 用户偏好设置
@@ -220,12 +707,20 @@ export interface UserPreferences {
   defaultLearningLevel: 'beginner' | 'expert';
   /** 主题偏好 */
   theme: 'light' | 'dark' | 'auto';
-  /** 语言偏好 */
-  language: 'zh' | 'en';
+  /** 语言偏好（界面文字、私教与提示词使用的语言） */
+  language: Language;
   /** 是否开启音效 */
   soundEnabled: boolean;
   /** 是否自动保存 */
   autoSave: boolean;
+  /** 用户自定义的提示词模板（含修改过的内置模板） */
+  promptTemplates?: PromptTemplate[];
+  /** 各用途默认使用的模板ID（未设置时使用内置模板） */
+  activePromptTemplates?: Partial<Record<PromptTemplateKind, string>>;
+  /** 小节须通过测验才能由私教的进度信号自动标记完成 */
+  requireQuizToComplete?: boolean;
+  /** 小节完成时自动生成复盘笔记（需要调用AI，未设置时开启） */
+  autoGenerateRecaps?: boolean;
 }
 
 // 本地存储的数据结构
@@ -236,6 +731,10 @@ export interface LocalStorageData {
   sessions: LearningSession[];
   /** 用户偏好设置 */
   preferences: UserPreferences;
+  /** AI用量记录（旧版本数据，现单独存放在 ai-learning-platform-usage 键下） */
+  usageRecords?: UsageRecord[];
+  /** 月度费用预算 */
+  usageBudget?: UsageBudget;
   /** 数据版本号（用于迁移） */
   version: string;
 }
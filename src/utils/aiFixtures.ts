@@ -0,0 +1,266 @@
+/**
+ * AI请求的录制与回放
+ *
+ * - 录制模式：照常请求服务商，把每次成功的交互（请求消息、Schema、回复）保存到本机
+ * - 回放模式：不请求服务商，按请求内容找到录制的回复返回；没有录到的请求由模拟服务商生成
+ * - 录制的交互可以导出为JSON文件，在其他环境导入后离线回放，用于开发调试和演示
+ *
+ * 模式优先读取环境变量 NEXT_PUBLIC_AI_FIXTURE_MODE（record / replay），未设置时使用界面中的设置。
+ * 录制内容只保存在本机 localStorage 中，不参与云端同步；和学习数据共用浏览器的存储空间，
+ * 因此按总大小限制录制内容，录制失败时通过 FIXTURE_RECORDING_FAILED_EVENT 事件通知界面
+ */
+
+import { UsageOperation } from '../types';
+import { ProviderMessage, StructuredOutputSchema } from './aiProviders';
+import { hashContent } from './documentRetrieval';
+
+/** 录制内容在 localStorage 中的键 */
+const FIXTURES_STORAGE_KEY = 'ai-learning-platform-fixtures';
+
+/** 导出文件的格式版本 */
+const FIXTURE_FILE_VERSION = 1;
+
+/** 录制内容的最大字符数（约为浏览器存储空间的五分之一），超出时丢弃最早的记录 */
+const MAX_RECORDED_CHARS = 1024 * 1024;
+
+/** 录制失败时在 window 上派发的事件，detail 为 { reason } */
+export const FIXTURE_RECORDING_FAILED_EVENT = 'aiFixtureRecordingFailed';
+
+/**
+ * 录制失败的原因：单次交互超出录制空间上限，或浏览器存储空间已满
+ */
+export type FixtureRecordingFailure = 'tooLarge' | 'quotaExceeded';
+
+/**
+ * 录制与回放模式
+ */
+export type AIFixtureMode = 'off' | 'record' | 'replay';
+
+/**
+ * 一次录制的交互
+ */
+export interface AIFixtureExchange {
+  /** 请求指纹（由请求消息和Schema计算） */
+  key: string;
+  /** 服务商ID */
+  provider: string;
+  /** 模型名称 */
+  model: string;
+  /** 请求用途 */
+  operation?: UsageOperation;
+  /** 结构化输出的Schema名称 */
+  schema?: string;
+  messages: ProviderMessage[];
+  /** 服务商的回复 */
+  content: string;
+  recordedAt: number;
+}
+
+/**
+ * 导出的录制文件
+ */
+export interface AIFixtureFile {
+  version: number;
+  exchanges: AIFixtureExchange[];
+}
+
+interface StoredFixtures {
+  mode: AIFixtureMode;
+  exchanges: AIFixtureExchange[];
+}
+
+const FIXTURE_MODES: AIFixtureMode[] = ['off', 'record', 'replay'];
+
+/** 上一次录制失败的原因，同样原因的连续失败只通知一次 */
+let lastRecordingFailure: FixtureRecordingFailure | null = null;
+
+const isFixtureMode = (value: unknown): value is AIFixtureMode => {
+  return FIXTURE_MODES.includes(value as AIFixtureMode);
+};
+
+const readStoredFixtures = (): StoredFixtures => {
+  if (typeof window === 'undefined') return { mode: 'off', exchanges: [] };
+  try {
+    const raw = localStorage.getItem(FIXTURES_STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : null;
+    return {
+      mode: isFixtureMode(parsed?.mode) ? parsed.mode : 'off',
+      exchanges: Array.isArray(parsed?.exchanges) ? parsed.exchanges : [],
+    };
+  } catch (error) {
+    console.warn('读取AI录制数据失败:', error);
+    return { mode: 'off', exchanges: [] };
+  }
+};
+
+const writeStoredFixtures = (data: StoredFixtures): boolean => {
+  try {
+    localStorage.setItem(FIXTURES_STORAGE_KEY, JSON.stringify(data));
+    return true;
+  } catch (error) {
+    console.error('保存AI录制数据失败:', error);
+    return false;
+  }
+};
+
+/**
+ * 按总大小保留最近的交互，丢弃最早的记录
+ */
+const trimToSizeLimit = (exchanges: AIFixtureExchange[]): AIFixtureExchange[] => {
+  const sizes = exchanges.map(exchange => JSON.stringify(exchange).length);
+  let total = sizes.reduce((sum, size) => sum + size, 0);
+  let start = 0;
+  while (total > MAX_RECORDED_CHARS && start < exchanges.length) {
+    total -= sizes[start];
+    start++;
+  }
+  return exchanges.slice(start);
+};
+
+const notifyRecordingFailed = (reason: FixtureRecordingFailure) => {
+  console.warn('⚠️ 录制AI交互失败:', reason);
+  if (reason !== lastRecordingFailure && typeof window !== 'undefined') {
+    window.dispatchEvent(new CustomEvent(FIXTURE_RECORDING_FAILED_EVENT, { detail: { reason } }));
+  }
+  lastRecordingFailure = reason;
+};
+
+/**
+ * 计算请求指纹：相同的消息和Schema得到相同的指纹，与服务商和模型无关，
+ * 这样用任何服务商录制的交互都可以回放
+ */
+export const getExchangeKey = (messages: ProviderMessage[], schema?: StructuredOutputSchema): string => {
+  return hashContent(JSON.stringify([schema?.name || '', messages.map(({ role, content }) => [role, content])]));
+};
+
+/**
+ * 部署是否通过环境变量固定了模式（此时界面中不能修改）
+ */
+export const getEnforcedFixtureMode = (): AIFixtureMode | null => {
+  const mode = process.env.NEXT_PUBLIC_AI_FIXTURE_MODE;
+  return isFixtureMode(mode) ? mode : null;
+};
+
+/**
+ * 当前的录制与回放模式
+ */
+export const getFixtureMode = (): AIFixtureMode => {
+  return getEnforcedFixtureMode() || readStoredFixtures().mode;
+};
+
+/**
+ * 设置录制与回放模式
+ */
+export const setFixtureMode = (mode: AIFixtureMode): boolean => {
+  const data = readStoredFixtures();
+  return writeStoredFixtures({ ...data, mode });
+};
+
+/**
+ * 获取已录制的交互
+ */
+export const getRecordedExchanges = (): AIFixtureExchange[] => {
+  return readStoredFixtures().exchanges;
+};
+
+/**
+ * 保存一次交互（相同指纹的旧记录会被替换）
+ * 失败时派发 FIXTURE_RECORDING_FAILED_EVENT 事件（同样原因的连续失败只派发一次）并返回 false
+ */
+export const recordExchange = (exchange: Omit<AIFixtureExchange, 'key' | 'recordedAt'> & { responseSchema?: StructuredOutputSchema }): boolean => {
+  const { responseSchema, ...rest } = exchange;
+  const key = getExchangeKey(rest.messages, responseSchema);
+  const recorded: AIFixtureExchange = { ...rest, key, schema: responseSchema?.name, recordedAt: Date.now() };
+  if (JSON.stringify(recorded).length > MAX_RECORDED_CHARS) {
+    notifyRecordingFailed('tooLarge');
+    return false;
+  }
+
+  const data = readStoredFixtures();
+  const exchanges = trimToSizeLimit([
+    ...data.exchanges.filter(existing => existing.key !== key),
+    recorded,
+  ]);
+  if (!writeStoredFixtures({ ...data, exchanges })) {
+    notifyRecordingFailed('quotaExceeded');
+    return false;
+  }
+
+  lastRecordingFailure = null;
+  return true;
+};
+
+/**
+ * 录制的交互是否与请求完全一致（Schema、每条消息的角色和内容）
+ */
+const isSameRequest = (
+  exchange: AIFixtureExchange,
+  messages: ProviderMessage[],
+  responseSchema?: StructuredOutputSchema
+): boolean => {
+  return (exchange.schema || '') === (responseSchema?.name || '') &&
+    exchange.messages.length === messages.length &&
+    exchange.messages.every((message, index) =>
+      message.role === messages[index].role && message.content === messages[index].content
+    );
+};
+
+/**
+ * 查找与请求对应的录制回复
+ * 只返回与请求完全一致的录制：“继续”这类短消息在不同会话、不同小节中含义不同，不能按消息内容近似匹配；
+ * 指纹只用于快速筛选，指纹相同但内容不同（哈希碰撞）时视为没有录到
+ */
+export const findRecordedExchange = (
+  messages: ProviderMessage[],
+  responseSchema?: StructuredOutputSchema
+): AIFixtureExchange | null => {
+  const key = getExchangeKey(messages, responseSchema);
+  return getRecordedExchanges().find(exchange =>
+    exchange.key === key && isSameRequest(exchange, messages, responseSchema)
+  ) || null;
+};
+
+/**
+ * 导出录制内容
+ */
+export const exportFixtures = (): string => {
+  const file: AIFixtureFile = {
+    version: FIXTURE_FILE_VERSION,
+    exchanges: getRecordedExchanges(),
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+/**
+ * 导入录制文件，与本机已有的录制合并（相同指纹以导入的为准），返回导入的条数
+ * 合并后超出录制空间上限时丢弃最早的记录，返回的条数不含被丢弃的导入记录
+ */
+export const importFixtures = (json: string): number => {
+  const file = JSON.parse(json);
+  if (!file || !Array.isArray(file.exchanges)) {
+    throw new Error('录制文件格式不正确：缺少 exchanges 数组');
+  }
+
+  const imported: AIFixtureExchange[] = file.exchanges.filter((exchange: any) =>
+    exchange && typeof exchange.key === 'string' && typeof exchange.content === 'string' && Array.isArray(exchange.messages)
+  );
+  const importedKeys = new Set(imported.map(exchange => exchange.key));
+  const data = readStoredFixtures();
+  const exchanges = trimToSizeLimit([
+    ...data.exchanges.filter(exchange => !importedKeys.has(exchange.key)),
+    ...imported,
+  ]);
+
+  if (!writeStoredFixtures({ ...data, exchanges })) {
+    throw new Error('保存录制内容失败，可能超出了浏览器存储空间');
+  }
+  return exchanges.filter(exchange => importedKeys.has(exchange.key)).length;
+};
+
+/**
+ * 清空录制内容（保留当前模式）
+ */
+export const clearFixtures = (): boolean => {
+  const data = readStoredFixtures();
+  return writeStoredFixtures({ ...data, exchanges: [] });
+};
@@ -0,0 +1,655 @@
+/**
+ * AI服务商适配器与注册表
+ *
+ * 把各服务商的差异收敛到统一的适配器接口中：
+ * - 认证请求头
+ * - 请求地址与请求体构建
+ * - 普通响应与流式数据块解析（含token用量）
+ * - 原生结构化输出（JSON Schema、Gemini responseSchema、Claude 工具调用）
+ * - 错误信息归一化
+ * - （可选）模型列表查询、连接诊断与文本向量化
+ * - （可选）不经网络在本地生成回复（离线演示用的模拟服务商）
+ *
+ * 新增服务商（如公司内部网关）只需调用 registerProvider 注册适配器，
+ * aiService 与配置界面会自动识别，无需修改核心代码。
+ */
+
+import { APIConfig, TokenUsage, UsageOperation } from '../types';
+import { mockProvider } from './mockProvider';
+
+/**
+ * 对话消息（发送给服务商的统一格式）
+ */
+export interface ProviderMessage {
+  role: string;
+  content: string;
+}
+
+/**
+ * 结构化输出的JSON Schema
+ *
+ * 各功能模块（大纲、测验、卡片、复盘、术语表、概念图）都按这里的约定定义响应Schema并校验模型输出：
+ * - Schema 只使用各服务商都支持的子集（不含 additionalProperties、$ref 等），同一份定义可交给任意服务商
+ * - 服务商不一定严格遵守 Schema，输出仍需在本地校验；校验函数返回中文错误列表，
+ *   由 aiService 的 requestValidatedJson 原样发回给模型修正
+ */
+export interface StructuredOutputSchema {
+  /** Schema名称（OpenAI 的 json_schema 名称、Claude 的工具名） */
+  name: string;
+  /** 说明 */
+  description?: string;
+  /** JSON Schema（只使用 type/properties/items/required/enum/description） */
+  schema: Record<string, any>;
+}
+
+/**
+ * 构建请求体时的生成参数
+ */
+export interface ProviderRequestOptions {
+  /** 是否使用流式输出 */
+  stream: boolean;
+  /** 最大生成token数 */
+  maxTokens: number;
+  /** 采样温度 */
+  temperature: number;
+  /** 要求按该Schema输出JSON（服务商支持时使用原生结构化输出，否则只依靠提示词） */
+  responseSchema?: StructuredOutputSchema;
+  /** 请求用途（只传给本地生成回复的服务商，用于区分对话、卡片标题等没有Schema的请求） */
+  operation?: UsageOperation;
+}
+
+/**
+ * 模型的上下文限制
+ */
+export interface ModelLimits {
+  /** 上下文窗口（输入+输出的token总数） */
+  contextWindow: number;
+  /** 单次回复的最大token数 */
+  maxOutputTokens: number;
+}
+
+/**
+ * 按模型名匹配上下文限制，未匹配时使用默认值
+ */
+const matchModelLimits = (
+  fallback: ModelLimits,
+  table: Array<[RegExp, ModelLimits]> = []
+) => (model: string): ModelLimits => {
+  return table.find(([pattern]) => pattern.test(model))?.[1] || fallback;
+};
+
+/**
+ * AI服务商适配器接口
+ */
+export interface AIProviderAdapter {
+  /** 服务商唯一标识（对应 APIConfig.provider） */
+  id: string;
+  /** 显示名称 */
+  name: string;
+  /** 默认API基础地址 */
+  baseUrl: string;
+  /** 默认模型 */
+  defaultModel: string;
+  /** 是否需要API密钥（默认需要，本地模型服务通常不需要） */
+  requiresApiKey?: boolean;
+  /** 获取模型的上下文限制（未提供时使用保守默认值） */
+  getModelLimits?: (model: string) => ModelLimits;
+  /** 生成请求地址 */
+  buildUrl: (baseUrl: string, model: string, stream: boolean, config: APIConfig) => string;
+  /** 生成认证相关的请求头（Content-Type 由调用方统一添加） */
+  buildHeaders: (config: APIConfig) => Record<string, string>;
+  /** 生成请求体 */
+  buildRequestBody: (messages: ProviderMessage[], model: string, options: ProviderRequestOptions, config: APIConfig) => any;
+  /** 从普通（非流式）响应中提取回复文本 */
+  parseResponse: (data: any) => string;
+  /** 从单个流式数据块中提取增量文本 */
+  parseStreamChunk: (payload: any) => string;
+  /** 从响应或流式数据块中提取token用量（可选，未提供或未返回时按文本长度估算） */
+  parseUsage?: (payload: any) => TokenUsage | null;
+  /** 将HTTP错误归一化为统一格式的错误（需保留状态码，重试逻辑依赖它） */
+  normalizeError: (status: number, errorText: string) => Error;
+  /** 查询服务端可用的模型列表（可选） */
+  listModels?: (config: APIConfig, signal?: AbortSignal) => Promise<string[]>;
+  /** 将连接失败转换为面向用户的诊断信息（可选） */
+  diagnoseError?: (config: APIConfig, error: Error) => string;
+  /** 向量模型名称（支持 embed 时提供，用于判断已有向量是否可复用） */
+  embeddingModel?: (config: APIConfig) => string;
+  /** 批量生成文本向量（可选，用于文档检索） */
+  embed?: (config: APIConfig, texts: string[], signal?: AbortSignal) => Promise<number[][]>;
+  /** 不经网络直接生成回复（可选，提供时不再构建和发送HTTP请求，也不经过AI代理） */
+  respond?: (messages: ProviderMessage[], options: ProviderRequestOptions, config: APIConfig) => Promise<string>;
+}
+
+/**
+ * 默认的错误归一化：尽量提取服务商返回的 error.message
+ * 格式固定为“API请求失败 (状态码): 详情”
+ */
+export const defaultNormalizeError = (status: number, errorText: string): Error => {
+  let detail = errorText;
+  try {
+    const parsed = JSON.parse(errorText);
+    // OpenAI / Claude / Gemini 的错误结构都是 { error: { message } }，部分网关直接返回 { message }
+    detail = parsed?.error?.message || parsed?.message || errorText;
+  } catch {
+    // 非JSON错误内容，保持原样
+  }
+  return new Error(`API请求失败 (${status}): ${detail}`);
+};
+
+/**
+ * 解析 OpenAI 兼容协议的 usage 字段
+ * Kimi 的流式响应把 usage 放在最后一个 choice 中
+ */
+const parseOpenAIUsage = (payload: any): TokenUsage | null => {
+  const usage = payload?.usage || payload?.choices?.[0]?.usage;
+  if (!usage) return null;
+  return {
+    promptTokens: usage.prompt_tokens || 0,
+    completionTokens: usage.completion_tokens || 0,
+  };
+};
+
+/**
+ * 转换为 Gemini responseSchema 格式（OpenAPI 子集，类型名为大写）
+ */
+const toGeminiSchema = (schema: Record<string, any>): Record<string, any> => {
+  const converted: Record<string, any> = {};
+  Object.entries(schema).forEach(([key, value]) => {
+    if (key === 'type' && typeof value === 'string') {
+      converted.type = value.toUpperCase();
+    } else if (key === 'properties') {
+      converted.properties = Object.fromEntries(
+        Object.entries(value as Record<string, any>).map(([name, child]) => [name, toGeminiSchema(child)])
+      );
+    } else if (key === 'items') {
+      converted.items = toGeminiSchema(value);
+    } else if (['required', 'enum', 'description'].includes(key)) {
+      converted[key] = value;
+    }
+  });
+  return converted;
+};
+
+/**
+ * 调用 OpenAI 兼容的 /embeddings 接口
+ */
+const requestOpenAIEmbeddings = async (
+  url: string,
+  authHeaders: Record<string, string>,
+  model: string,
+  texts: string[],
+  signal?: AbortSignal,
+  dimensions?: number
+): Promise<number[][]> => {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...authHeaders },
+    body: JSON.stringify({
+      model,
+      input: texts,
+      ...(dimensions ? { dimensions } : {}),
+    }),
+    signal,
+  });
+  if (!response.ok) {
+    throw defaultNormalizeError(response.status, await response.text());
+  }
+  const data = await response.json();
+  // 返回结果按 index 排序，保证与输入顺序一致
+  return (data.data || [])
+    .sort((a: any, b: any) => a.index - b.index)
+    .map((item: any) => item.embedding);
+};
+
+/**
+ * 生成额外请求头（支持固定值或按运行环境生成）
+ */
+const resolveHeaders = (headers?: Record<string, string> | (() => Record<string, string>)): Record<string, string> => {
+  return typeof headers === 'function' ? headers() : headers || {};
+};
+
+/**
+ * 当前站点地址（OpenRouter 用它标识调用来源）
+ * 浏览器中取页面地址，服务端（AI代理）读取 NEXT_PUBLIC_APP_URL
+ */
+const getSiteUrl = (): string => {
+  if (typeof window !== 'undefined') return window.location.origin;
+  return process.env.NEXT_PUBLIC_APP_URL || '';
+};
+
+/**
+ * 创建 OpenAI 兼容协议的适配器
+ * OpenAI、DeepSeek、Kimi、OpenRouter 以及大多数自建网关都使用这一协议
+ */
+export const createOpenAICompatibleProvider = (options: {
+  id: string;
+  name: string;
+  baseUrl: string;
+  defaultModel: string;
+  /** 额外的请求头（需要按运行环境生成时传入函数） */
+  extraHeaders?: Record<string, string> | (() => Record<string, string>);
+  /** 向量模型（提供时启用 /embeddings 接口） */
+  embeddingModel?: string;
+  /** 向量维度（支持降维的模型可用它减小存储体积） */
+  embeddingDimensions?: number;
+  /** 默认的模型上下文限制 */
+  modelLimits?: ModelLimits;
+  /** 特定模型的上下文限制（按顺序匹配模型名） */
+  modelLimitsByPattern?: Array<[RegExp, ModelLimits]>;
+  /** 流式请求是否附带 stream_options.include_usage（需服务端支持，否则可能报错） */
+  streamUsage?: boolean;
+  /** 结构化输出能力：json_schema 按Schema约束输出，json_object 只保证输出合法JSON */
+  structuredOutput?: 'json_schema' | 'json_object';
+}): AIProviderAdapter => ({
+  id: options.id,
+  name: options.name,
+  baseUrl: options.baseUrl,
+  defaultModel: options.defaultModel,
+  ...(options.modelLimits ? {
+    getModelLimits: matchModelLimits(options.modelLimits, options.modelLimitsByPattern),
+  } : {}),
+  buildUrl: (baseUrl) => `${baseUrl}/chat/completions`,
+  buildHeaders: (config) => ({
+    Authorization: `Bearer ${config.apiKey}`,
+    ...resolveHeaders(options.extraHeaders),
+  }),
+  buildRequestBody: (messages, model, { stream, maxTokens, temperature, responseSchema }) => ({
+    model,
+    messages,
+    max_tokens: maxTokens,
+    temperature,
+    ...(stream ? { stream: true } : {}),
+    ...(stream && options.streamUsage ? { stream_options: { include_usage: true } } : {}),
+    ...(responseSchema && options.structuredOutput ? {
+      response_format: options.structuredOutput === 'json_schema'
+        ? {
+            type: 'json_schema',
+            json_schema: {
+              name: responseSchema.name,
+              description: responseSchema.description,
+              schema: responseSchema.schema,
+            },
+          }
+        : { type: 'json_object' },
+    } : {}),
+  }),
+  parseResponse: (data) => data.choices?.[0]?.message?.content || '',
+  parseStreamChunk: (payload) => payload.choices?.[0]?.delta?.content || '',
+  parseUsage: parseOpenAIUsage,
+  normalizeError: defaultNormalizeError,
+  ...(options.embeddingModel ? {
+    embeddingModel: () => options.embeddingModel,
+    embed: (config: APIConfig, texts: string[], signal?: AbortSignal) => requestOpenAIEmbeddings(
+      `${config.baseUrl || options.baseUrl}/embeddings`,
+      { Authorization: `Bearer ${config.apiKey}`, ...resolveHeaders(options.extraHeaders) },
+      options.embeddingModel,
+      texts,
+      signal,
+      options.embeddingDimensions
+    ),
+  } : {}),
+});
+
+/**
+ * Anthropic Claude 适配器
+ * 系统提示词需要单独放在 system 字段中；结构化输出通过强制调用一个工具实现，工具参数即结构化结果
+ */
+const claudeProvider: AIProviderAdapter = {
+  id: 'claude',
+  name: 'Anthropic Claude',
+  baseUrl: 'https://api.anthropic.com/v1',
+  defaultModel: 'claude-3-sonnet-20240229',
+  getModelLimits: matchModelLimits({ contextWindow: 200000, maxOutputTokens: 4096 }, [
+    [/claude-3-5|claude-3-7|claude-(sonnet|opus|haiku)-4/, { contextWindow: 200000, maxOutputTokens: 8192 }],
+  ]),
+  buildUrl: (baseUrl) => `${baseUrl}/messages`,
+  buildHeaders: (config) => ({
+    'x-api-key': config.apiKey,
+    'anthropic-version': '2023-06-01',
+  }),
+  buildRequestBody: (messages, model, { stream, maxTokens, responseSchema }) => ({
+    model,
+    max_tokens: maxTokens,
+    messages: messages.filter(m => m.role !== 'system'),
+    system: messages.find(m => m.role === 'system')?.content,
+    ...(stream ? { stream: true } : {}),
+    ...(responseSchema ? {
+      tools: [{
+        name: responseSchema.name,
+        description: responseSchema.description,
+        input_schema: responseSchema.schema,
+      }],
+      tool_choice: { type: 'tool', name: responseSchema.name },
+    } : {}),
+  }),
+  parseResponse: (data) => {
+    const blocks: any[] = data.content || [];
+    const toolUse = blocks.find(block => block.type === 'tool_use');
+    if (toolUse) {
+      return JSON.stringify(toolUse.input);
+    }
+    return blocks.find(block => block.type === 'text')?.text || '';
+  },
+  // Claude 的文本增量只出现在 content_block_delta 事件中
+  parseStreamChunk: (payload) => payload.type === 'content_block_delta' ? payload.delta?.text || '' : '',
+  // 流式响应中输入用量在 message_start 事件，输出用量在 message_delta 事件
+  parseUsage: (payload) => {
+    const usage = payload?.usage || payload?.message?.usage;
+    if (!usage) return null;
+    return {
+      promptTokens: usage.input_tokens || 0,
+      completionTokens: usage.output_tokens || 0,
+    };
+  },
+  normalizeError: defaultNormalizeError,
+};
+
+/**
+ * Google Gemini 适配器
+ * 流式输出使用独立的 streamGenerateContent 端点
+ */
+const geminiProvider: AIProviderAdapter = {
+  id: 'gemini',
+  name: 'Google Gemini',
+  baseUrl: 'https://generativelanguage.googleapis.com/v1beta',
+  defaultModel: 'gemini-2.0-flash',
+  getModelLimits: matchModelLimits({ contextWindow: 1048576, maxOutputTokens: 8192 }, [
+    [/gemini-1\.0|gemini-pro$/, { contextWindow: 32768, maxOutputTokens: 2048 }],
+  ]),
+  buildUrl: (baseUrl, model, stream) => stream
+    // alt=sse 让其按SSE格式返回
+    ? `${baseUrl}/models/${encodeURIComponent(model)}:streamGenerateContent?alt=sse`
+    : `${baseUrl}/models/${encodeURIComponent(model)}:generateContent`,
+  buildHeaders: (config) => ({
+    'X-goog-api-key': config.apiKey,
+  }),
+  buildRequestBody: (messages, _model, { maxTokens, temperature, responseSchema }) => {
+    const requestBody: any = {
+      contents: messages
+        .filter(m => m.role !== 'system')
+        .map(m => ({
+          parts: [{ text: m.content }],
+          role: m.role === 'assistant' ? 'model' : 'user',
+        })),
+    };
+
+    // 如果有系统消息，添加到请求体中
+    const systemMessage = messages.find(m => m.role === 'system');
+    if (systemMessage) {
+      requestBody.systemInstruction = {
+        parts: [{ text: systemMessage.content }],
+      };
+    }
+
+    // 添加生成配置
+    requestBody.generationConfig = {
+      maxOutputTokens: maxTokens,
+      temperature,
+      ...(responseSchema ? {
+        responseMimeType: 'application/json',
+        responseSchema: toGeminiSchema(responseSchema.schema),
+      } : {}),
+    };
+
+    return requestBody;
+  },
+  parseResponse: (data) => data.candidates?.[0]?.content?.parts?.[0]?.text ||
+    data.candidates?.[0]?.output || '',
+  parseStreamChunk: (payload) => (payload.candidates?.[0]?.content?.parts || [])
+    .map((part: any) => part.text || '')
+    .join(''),
+  parseUsage: (payload) => {
+    const usage = payload?.usageMetadata;
+    if (!usage) return null;
+    return {
+      promptTokens: usage.promptTokenCount || 0,
+      completionTokens: usage.candidatesTokenCount || 0,
+    };
+  },
+  normalizeError: defaultNormalizeError,
+};
+
+/**
+ * 本地/自托管模型服务的默认地址（Ollama 默认端口）
+ */
+export const LOCAL_DEFAULT_BASE_URL = 'http://localhost:11434';
+
+/**
+ * Ollama 下用于文档检索的向量模型（需先 ollama pull，不可用时检索自动退回关键词匹配）
+ */
+const LOCAL_EMBEDDING_MODEL = 'nomic-embed-text';
+
+/**
+ * 本地模型默认的上下文窗口（Ollama 通过 num_ctx 显式设置，避免其默认的 2048 截断提示词）
+ */
+const LOCAL_CONTEXT_WINDOW = 8192;
+
+/**
+ * 本地服务是否使用 Ollama 原生接口（否则按 OpenAI 兼容接口处理）
+ */
+const isOllamaFormat = (config: APIConfig) => (config.localApiFormat || 'ollama') === 'ollama';
+
+/**
+ * 本地/自托管模型适配器
+ * 支持 Ollama 的 /api/chat 接口，以及 vLLM、LM Studio 等任意 OpenAI 兼容端点，API密钥可留空
+ */
+const localProvider: AIProviderAdapter = {
+  id: 'local',
+  name: '本地模型（Ollama / OpenAI兼容）',
+  baseUrl: LOCAL_DEFAULT_BASE_URL,
+  defaultModel: 'qwen2.5:7b',
+  requiresApiKey: false,
+  getModelLimits: () => ({ contextWindow: LOCAL_CONTEXT_WINDOW, maxOutputTokens: 2048 }),
+  buildUrl: (baseUrl, _model, _stream, config) => isOllamaFormat(config)
+    ? `${baseUrl}/api/chat`
+    : `${baseUrl}/chat/completions`,
+  buildHeaders: (config) => config.apiKey
+    ? { Authorization: `Bearer ${config.apiKey}` }
+    : {},
+  buildRequestBody: (messages, model, { stream, maxTokens, temperature, responseSchema }, config) => isOllamaFormat(config)
+    ? {
+        model,
+        messages,
+        // Ollama 默认开启流式输出，非流式请求必须显式关闭
+        stream,
+        // Ollama 0.5+ 支持用 JSON Schema 约束输出
+        ...(responseSchema ? { format: responseSchema.schema } : {}),
+        options: {
+          temperature,
+          num_predict: maxTokens,
+          num_ctx: LOCAL_CONTEXT_WINDOW,
+        },
+      }
+    : {
+        model,
+        messages,
+        max_tokens: maxTokens,
+        temperature,
+        ...(stream ? { stream: true } : {}),
+      },
+  // 同时兼容 Ollama（message.content）与 OpenAI（choices）两种响应结构
+  parseResponse: (data) => data.message?.content || data.choices?.[0]?.message?.content || '',
+  parseStreamChunk: (payload) => payload.message?.content || payload.choices?.[0]?.delta?.content || '',
+  // Ollama 在最后一个数据块（done: true）中返回 prompt_eval_count / eval_count
+  parseUsage: (payload) => {
+    if (payload?.prompt_eval_count !== undefined || payload?.eval_count !== undefined) {
+      return {
+        promptTokens: payload.prompt_eval_count || 0,
+        completionTokens: payload.eval_count || 0,
+      };
+    }
+    return parseOpenAIUsage(payload);
+  },
+  normalizeError: defaultNormalizeError,
+  listModels: async (config, signal) => {
+    const baseUrl = config.baseUrl || LOCAL_DEFAULT_BASE_URL;
+    const url = isOllamaFormat(config) ? `${baseUrl}/api/tags` : `${baseUrl}/models`;
+    const response = await fetch(url, {
+      headers: config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {},
+      signal,
+    });
+    if (!response.ok) {
+      throw defaultNormalizeError(response.status, await response.text());
+    }
+    const data = await response.json();
+    return isOllamaFormat(config)
+      ? (data.models || []).map((m: any) => m.name)
+      : (data.data || []).map((m: any) => m.id);
+  },
+  diagnoseError: (config, error) => {
+    const baseUrl = config.baseUrl || LOCAL_DEFAULT_BASE_URL;
+    const message = error.message || '';
+    // fetch 在网络不可达或被CORS拦截时抛出 TypeError，浏览器不会提供更具体的原因
+    if (error.name === 'TypeError' || /failed to fetch|networkerror|load failed/i.test(message)) {
+      return `无法连接到本地模型服务 ${baseUrl}。请检查：
+1. 模型服务是否已启动（如运行 ollama serve）
+2. 地址和端口是否正确${isOllamaFormat(config) ? '（Ollama 默认为 http://localhost:11434）' : '（OpenAI兼容端点通常以 /v1 结尾）'}
+3. 服务是否允许浏览器跨域访问${isOllamaFormat(config) ? '（Ollama 需设置环境变量 OLLAMA_ORIGINS=*）' : ''}`;
+    }
+    if (/\(404\)/.test(message)) {
+      return isOllamaFormat(config)
+        ? `接口或模型不存在：${message}。如果是模型未下载，请先运行 ollama pull ${config.model || localProvider.defaultModel}`
+        : `接口不存在：${message}。请确认端点地址包含正确的路径前缀（如 /v1）`;
+    }
+    return message;
+  },
+  embeddingModel: (config) => isOllamaFormat(config) ? LOCAL_EMBEDDING_MODEL : (config.model || localProvider.defaultModel),
+  embed: async (config, texts, signal) => {
+    const baseUrl = config.baseUrl || LOCAL_DEFAULT_BASE_URL;
+    const authHeaders: Record<string, string> = config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {};
+    if (!isOllamaFormat(config)) {
+      return requestOpenAIEmbeddings(`${baseUrl}/embeddings`, authHeaders, localProvider.embeddingModel(config), texts, signal);
+    }
+    const response = await fetch(`${baseUrl}/api/embed`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...authHeaders },
+      body: JSON.stringify({ model: LOCAL_EMBEDDING_MODEL, input: texts }),
+      signal,
+    });
+    if (!response.ok) {
+      throw defaultNormalizeError(response.status, await response.text());
+    }
+    const data = await response.json();
+    return data.embeddings || [];
+  },
+};
+
+/**
+ * 生成发给服务商的HTTP请求（地址、请求头、请求体）
+ * 浏览器直连和服务端AI代理共用，代理时 config 中是服务端保存的密钥
+ */
+export const buildProviderHttpRequest = (
+  adapter: AIProviderAdapter,
+  config: APIConfig,
+  messages: ProviderMessage[],
+  options: ProviderRequestOptions
+) => {
+  const baseUrl = config.baseUrl || adapter.baseUrl;
+  const model = config.model || adapter.defaultModel;
+  return {
+    url: adapter.buildUrl(baseUrl, model, options.stream, config),
+    headers: {
+      'Content-Type': 'application/json',
+      ...adapter.buildHeaders(config),
+    } as Record<string, string>,
+    requestBody: adapter.buildRequestBody(messages, model, options, config),
+    model,
+  };
+};
+
+// =================
+// 服务商注册表
+// =================
+
+const providerRegistry = new Map<string, AIProviderAdapter>();
+
+/**
+ * 注册（或覆盖）一个AI服务商适配器
+ */
+export const registerProvider = (adapter: AIProviderAdapter): void => {
+  if (providerRegistry.has(adapter.id)) {
+    console.warn(`AI服务商 ${adapter.id} 已存在，将被新的适配器覆盖`);
+  }
+  providerRegistry.set(adapter.id, adapter);
+};
+
+/**
+ * 注销AI服务商适配器
+ */
+export const unregisterProvider = (id: string): boolean => {
+  return providerRegistry.delete(id);
+};
+
+/**
+ * 根据ID获取AI服务商适配器
+ */
+export const getProviderAdapter = (id: string): AIProviderAdapter | undefined => {
+  return providerRegistry.get(id);
+};
+
+/**
+ * 获取所有已注册的AI服务商适配器（按注册顺序）
+ */
+export const getRegisteredProviders = (): AIProviderAdapter[] => {
+  return Array.from(providerRegistry.values());
+};
+
+// 注册内置服务商
+registerProvider(createOpenAICompatibleProvider({
+  id: 'openai',
+  name: 'OpenAI',
+  baseUrl: 'https://api.openai.com/v1',
+  defaultModel: 'gpt-3.5-turbo',
+  embeddingModel: 'text-embedding-3-small',
+  embeddingDimensions: 256,
+  streamUsage: true,
+  structuredOutput: 'json_schema',
+  modelLimits: { contextWindow: 16385, maxOutputTokens: 4096 },
+  modelLimitsByPattern: [
+    [/gpt-4\.1/, { contextWindow: 1047576, maxOutputTokens: 32768 }],
+    [/gpt-4o/, { contextWindow: 128000, maxOutputTokens: 16384 }],
+    [/gpt-4-turbo/, { contextWindow: 128000, maxOutputTokens: 4096 }],
+    [/gpt-4/, { contextWindow: 8192, maxOutputTokens: 4096 }],
+  ],
+}));
+registerProvider(geminiProvider);
+registerProvider(claudeProvider);
+registerProvider(createOpenAICompatibleProvider({
+  id: 'deepseek',
+  name: 'DeepSeek',
+  baseUrl: 'https://api.deepseek.com/v1',
+  defaultModel: 'deepseek-chat',
+  streamUsage: true,
+  structuredOutput: 'json_object',
+  modelLimits: { contextWindow: 65536, maxOutputTokens: 8192 },
+}));
+registerProvider(createOpenAICompatibleProvider({
+  id: 'kimi',
+  name: 'Kimi',
+  baseUrl: 'https://api.moonshot.cn/v1',
+  defaultModel: 'moonshot-v1-8k',
+  structuredOutput: 'json_object',
+  modelLimits: { contextWindow: 8192, maxOutputTokens: 4096 },
+  modelLimitsByPattern: [
+    [/32k/, { contextWindow: 32768, maxOutputTokens: 4096 }],
+    [/128k/, { contextWindow: 131072, maxOutputTokens: 4096 }],
+  ],
+}));
+registerProvider(createOpenAICompatibleProvider({
+  id: 'openrouter',
+  name: 'OpenRouter Gemini 2.0',
+  baseUrl: 'https://openrouter.ai/api/v1',
+  defaultModel: 'google/gemini-2.0-flash-001',
+  streamUsage: true,
+  structuredOutput: 'json_schema',
+  modelLimits: { contextWindow: 1048576, maxOutputTokens: 8192 },
+  extraHeaders: () => {
+    const siteUrl = getSiteUrl();
+    return {
+      ...(siteUrl ? { 'HTTP-Referer': siteUrl } : {}),
+      'X-Title': 'AI Learning Platform',
+    };
+  },
+}));
+registerProvider(localProvider);
+registerProvider(mockProvider);
@@ -0,0 +1,97 @@
+/**
+ * AI服务端代理（浏览器端）
+ *
+ * 代理模式下浏览器不保存也不发送API密钥：
+ * - 请求发往本站的 /api/ai/completion，由服务端附上密钥后转发给服务商
+ * - 服务端原样返回服务商的响应（含流式数据），浏览器仍由适配器解析
+ * - 团队部署可设置 NEXT_PUBLIC_AI_PROXY_MODE=true 强制所有用户使用代理
+ *
+ * 服务端的密钥读取与鉴权见 aiProxyServer.ts
+ */
+
+import { APIConfig } from '../types';
+import { ProviderMessage, ProviderRequestOptions, StructuredOutputSchema } from './aiProviders';
+
+/** 代理转发接口 */
+export const AI_PROXY_COMPLETION_ENDPOINT = '/api/ai/completion';
+/** 代理状态接口（返回服务端已配置密钥的服务商） */
+export const AI_PROXY_STATUS_ENDPOINT = '/api/ai/status';
+
+/**
+ * 发给代理的请求（不含密钥和端点，由服务端决定）
+ */
+export interface AIProxyRequest {
+  /** 服务商ID */
+  provider: string;
+  /** 模型名称（不传时使用服务商默认模型） */
+  model?: string;
+  /** 本地模型服务的接口格式 */
+  localApiFormat?: APIConfig['localApiFormat'];
+  messages: ProviderMessage[];
+  stream: boolean;
+  maxTokens: number;
+  temperature: number;
+  responseSchema?: StructuredOutputSchema;
+}
+
+/**
+ * 代理状态
+ */
+export interface AIProxyStatus {
+  /** 服务端已配置密钥、可通过代理使用的服务商ID */
+  providers: string[];
+  /** 是否需要登录后才能使用代理 */
+  requireAuth: boolean;
+}
+
+/**
+ * 部署是否强制使用代理（团队部署时浏览器中不允许填写密钥）
+ */
+export const isProxyEnforced = (): boolean => process.env.NEXT_PUBLIC_AI_PROXY_MODE === 'true';
+
+/**
+ * 该配置是否通过服务端代理请求
+ */
+export const isProxyMode = (config: Pick<APIConfig, 'useProxy'>): boolean => {
+  return isProxyEnforced() || !!config.useProxy;
+};
+
+/**
+ * 生成发往代理的请求，返回结构与直连服务商时一致
+ */
+export const buildProxyRequest = (
+  config: APIConfig,
+  messages: ProviderMessage[],
+  options: ProviderRequestOptions
+) => {
+  const requestBody: AIProxyRequest = {
+    provider: config.provider,
+    model: config.model || undefined,
+    localApiFormat: config.localApiFormat,
+    messages,
+    stream: options.stream,
+    maxTokens: options.maxTokens,
+    temperature: options.temperature,
+    responseSchema: options.responseSchema,
+  };
+
+  return {
+    url: AI_PROXY_COMPLETION_ENDPOINT,
+    headers: { 'Content-Type': 'application/json' } as Record<string, string>,
+    requestBody,
+  };
+};
+
+/**
+ * 查询代理状态，服务端不可用（如静态部署）时返回 null
+ */
+export const fetchProxyStatus = async (): Promise<AIProxyStatus | null> => {
+  try {
+    const response = await fetch(AI_PROXY_STATUS_ENDPOINT);
+    if (!response.ok) return null;
+    return await response.json();
+  } catch (error) {
+    console.warn('⚠️ 获取AI代理状态失败:', error);
+    return null;
+  }
+};
@@ -0,0 +1,124 @@
+/**
+ * AI服务端代理（服务端）
+ *
+ * 只在 API 路由中使用，密钥只存在于服务端环境变量中：
+ * - AI_PROXY_ENABLED=true：开启代理；未开启时即使配置了服务商密钥，代理也不可用
+ * - <服务商ID大写>_API_KEY：服务商密钥，如 OPENAI_API_KEY、OPENROUTER_API_KEY
+ * - <服务商ID大写>_BASE_URL：可选，覆盖服务商默认地址（本地模型服务必须配置，如 LOCAL_BASE_URL）
+ * - AI_PROXY_REQUIRE_AUTH=false：允许未登录的用户使用代理（默认只允许已登录的 Supabase 用户）
+ * - AI_PROXY_RATE_LIMIT：每个用户每分钟最多的请求次数，默认 20
+ *
+ * 浏览器传来的端点地址一律忽略，避免服务端密钥被转发到任意地址
+ */
+
+import type { NextApiRequest } from 'next';
+import { APIConfig } from '../types';
+import { getProviderAdapter, getRegisteredProviders } from './aiProviders';
+
+/** 每个用户每分钟默认允许的代理请求次数 */
+const DEFAULT_RATE_LIMIT_PER_MINUTE = 20;
+
+/** 限流的统计窗口 */
+const RATE_LIMIT_WINDOW_MS = 60 * 1000;
+
+/** 各用户在统计窗口内的请求时间，只保存在当前服务进程的内存中 */
+const recentRequests = new Map<string, number[]>();
+
+/**
+ * 是否开启了代理
+ */
+export const isProxyEnabled = (): boolean => process.env.AI_PROXY_ENABLED === 'true';
+
+/**
+ * 服务商对应的环境变量前缀，如 openrouter -> OPENROUTER
+ */
+const getEnvPrefix = (providerId: string): string => {
+  return providerId.toUpperCase().replace(/[^A-Z0-9]/g, '_');
+};
+
+/**
+ * 读取服务端保存的服务商配置，未配置时返回 null
+ * 需要密钥的服务商必须配置密钥；不需要密钥的（本地模型服务）必须配置地址
+ */
+export const getServerProviderConfig = (providerId: string): APIConfig | null => {
+  const adapter = getProviderAdapter(providerId);
+  if (!adapter) return null;
+
+  const prefix = getEnvPrefix(providerId);
+  const apiKey = process.env[`${prefix}_API_KEY`] || '';
+  const baseUrl = process.env[`${prefix}_BASE_URL`] || undefined;
+  const isConfigured = adapter.requiresApiKey === false ? !!baseUrl : !!apiKey;
+
+  return isConfigured ? { provider: providerId, apiKey, baseUrl } : null;
+};
+
+/**
+ * 可通过代理使用的服务商ID
+ */
+export const getProxyProviders = (): string[] => {
+  if (!isProxyEnabled()) return [];
+  return getRegisteredProviders()
+    .filter(adapter => getServerProviderConfig(adapter.id))
+    .map(adapter => adapter.id);
+};
+
+/**
+ * 是否要求登录后才能使用代理（默认要求，只有显式设置 AI_PROXY_REQUIRE_AUTH=false 时才允许匿名使用）
+ */
+export const isProxyAuthRequired = (): boolean => process.env.AI_PROXY_REQUIRE_AUTH !== 'false';
+
+/**
+ * 请求来源的IP地址，允许匿名使用时作为限流的依据
+ */
+const getClientAddress = (req: NextApiRequest): string => {
+  const forwarded = req.headers['x-forwarded-for'];
+  const first = (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(',')[0].trim();
+  return first || req.socket.remoteAddress || 'unknown';
+};
+
+/**
+ * 检查请求是否有权使用代理，返回用于限流的调用方标识，无权使用时返回 null
+ * 要求登录时通过 Supabase 登录 Cookie 校验用户，标识为用户ID；允许匿名使用时标识为IP地址
+ */
+export const authorizeProxyRequest = async (req: NextApiRequest): Promise<string | null> => {
+  if (!isProxyAuthRequired()) return `ip:${getClientAddress(req)}`;
+
+  try {
+    // 按需加载，未开启鉴权的部署不需要配置 Supabase
+    const { createServerSupabaseClient } = await import('./supabase');
+    const supabase = createServerSupabaseClient({
+      get: (name) => (req.cookies[name] !== undefined ? { value: req.cookies[name]! } : undefined),
+      // API 路由只读取登录状态，不需要刷新 Cookie
+      set: () => {},
+      remove: () => {},
+    });
+    const { data, error } = await supabase.auth.getUser();
+    return !error && data.user ? `user:${data.user.id}` : null;
+  } catch (error) {
+    console.error('❌ AI代理鉴权失败:', error);
+    return null;
+  }
+};
+
+/**
+ * 记录一次代理请求并检查是否超出限流，超出时返回需要等待的秒数，未超出时返回 0
+ * 计数保存在内存中，多实例部署时每个实例分别计数
+ */
+export const consumeProxyRateLimit = (clientId: string, now: number = Date.now()): number => {
+  const limit = Number(process.env.AI_PROXY_RATE_LIMIT) || DEFAULT_RATE_LIMIT_PER_MINUTE;
+  const windowStart = now - RATE_LIMIT_WINDOW_MS;
+
+  // 顺带清理窗口外已没有请求的调用方，避免内存持续增长
+  recentRequests.forEach((times, id) => {
+    if (times[times.length - 1] <= windowStart) recentRequests.delete(id);
+  });
+
+  const times = (recentRequests.get(clientId) || []).filter(time => time > windowStart);
+  if (times.length >= limit) {
+    recentRequests.set(clientId, times);
+    return Math.max(1, Math.ceil((times[0] + RATE_LIMIT_WINDOW_MS - now) / 1000));
+  }
+
+  recentRequests.set(clientId, [...times, now]);
+  return 0;
+};
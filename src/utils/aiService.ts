@@ -8,137 +8,240 @@
  * - API配置管理
  */
 
-import { APIConfig, APIResponse, GenerateOutlineResponse, ChatMessage } from '../types';
+import {
+  APIConfig,
+  APIResponse,
+  GenerateOutlineResponse,
+  ChatMessage,
+  ConversationMemory,
+  OutlineItem,
+  OutlineItemQuiz,
+  QuizAnswerResult,
+  QuizAttempt,
+  LearningLevel,
+  RetrievalIndex,
+  ContextTrimReport,
+  ContextUsage,
+  TokenUsage,
+  AnsweredBy,
+  PromptTemplateRef,
+  GlossaryTerm,
+  ConceptMap,
+  ChapterRecap,
+} from '../types';
+import {
+  AIProviderAdapter,
+  buildProviderHttpRequest,
+  getProviderAdapter,
+  getRegisteredProviders,
+  ProviderRequestOptions,
+  StructuredOutputSchema,
+} from './aiProviders';
+import { buildProxyRequest, isProxyMode } from './aiProxy';
+import { findRecordedExchange, getFixtureMode, recordExchange } from './aiFixtures';
+import { MOCK_PROVIDER_ID } from './mockProvider';
+import {
+  buildRetrievedContext,
+  formatRetrievedPassages,
+  getAllPassages,
+  isRetrievalIndexValid,
+  RetrievedPassage,
+  retrieveRelevantPassages,
+} from './documentRetrieval';
+import { buildCitationInstructions, extractCitations } from './citations';
+import {
+  buildConversationHistory,
+  getMessagesToSummarize,
+  isConversationMemoryValid,
+  mergeChapterSummaries,
+} from './conversationMemory';
+import {
+  allocateTokenBudget,
+  charsForTokens,
+  createContextUsage,
+  estimateMessagesTokens,
+  estimateTokens,
+} from './tokenBudget';
+import { mergeTokenUsage, recordUsage, UsageContext } from './usageTracker';
+import { OutlineDraft, OUTLINE_RESPONSE_SCHEMA, parseOutlineDraft } from './outlineSchema';
+import { buildProgressInstructions, extractChapterProgress, stripProgressEnvelope } from './chapterProgress';
+import { buildDifficultyInstructions, getLevelForDifficulty } from './learnerModel';
+import {
+  createQuizAttempt,
+  gradeObjectiveAnswer,
+  parseQuizGrades,
+  parseQuizQuestions,
+  QUIZ_GRADING_SCHEMA,
+  QUIZ_PASSING_SCORE,
+  QUIZ_QUESTION_COUNTS,
+  QUIZ_RESPONSE_SCHEMA,
+} from './chapterQuiz';
+import {
+  buildNumberedTranscript,
+  CARD_EXTRACTION_SCHEMA,
+  CardDraft,
+  MAX_GENERATED_CARDS,
+  MIN_GENERATED_CARDS,
+  parseCardDrafts,
+} from './cardGeneration';
+import { GLOSSARY_RESPONSE_SCHEMA, MAX_GLOSSARY_TERMS, MIN_GLOSSARY_TERMS, parseGlossaryTerms } from './glossary';
+import { CONCEPT_MAP_RESPONSE_SCHEMA, MAX_CONCEPTS, MIN_CONCEPTS, parseConceptMap } from './conceptMap';
+import { MAX_RECAP_ITEMS, parseChapterRecap, RECAP_RESPONSE_SCHEMA } from './studyReport';
+import { getLanguageLabel, renderPromptTemplate, resolvePromptTemplate } from './promptTemplates';
+import { getCurrentLanguage, t } from './i18n';
+import {
+  CHAPTER_HEADING_LINE_PATTERN,
+  CHAPTER_MENTION_PATTERN,
+  formatChapterTitle,
+  isChapterHeading,
+  parseChapterNumber,
+  renumberChapterTitle,
+  stripChapterPrefix,
+  stripSectionPrefix,
+} from './chapterNumbering';
 
 /**
- * AI服务提供商配置
+ * 各类请求的token预算（回复长度会再受模型最大输出限制）
  */
-const AI_PROVIDERS = {
-  openai: {
-    name: 'OpenAI',
-    baseUrl: 'https://api.openai.com/v1',
-    defaultModel: 'gpt-3.5-turbo',
-    chatEndpoint: '/chat/completions',
-  },
-  gemini: {
-    name: 'Google Gemini',
-    baseUrl: 'https://generativelanguage.googleapis.com/v1beta',
-    defaultModel: 'gemini-2.0-flash',
-    chatEndpoint: '/models/gemini-2.0-flash:generateContent',
-  },
-  claude: {
-    name: 'Anthropic Claude',
-    baseUrl: 'https://api.anthropic.com/v1',
-    defaultModel: 'claude-3-sonnet-20240229',
-    chatEndpoint: '/messages',
-  },
-  deepseek: {
-    name: 'DeepSeek',
-    baseUrl: 'https://api.deepseek.com/v1',
-    defaultModel: 'deepseek-chat',
-    chatEndpoint: '/chat/completions',
-  },
-  kimi: {
-    name: 'Kimi',
-    baseUrl: 'https://api.moonshot.cn/v1',
-    defaultModel: 'moonshot-v1-8k',
-    chatEndpoint: '/chat/completions',
-  },
-  openrouter: {
-    name: 'OpenRouter Gemini 2.0',
-    baseUrl: 'https://openrouter.ai/api/v1',
-    defaultModel: 'google/gemini-2.0-flash-001',
-    chatEndpoint: '/chat/completions',
-  },
-};
+const DEFAULT_COMPLETION_TOKENS = 2000;
+/** 对话：回复长度、学习材料上限、对话历史上限 */
+const CHAT_COMPLETION_TOKENS = 2000;
+const CHAT_DOCUMENT_MAX_TOKENS = 8000;
+const CHAT_HISTORY_MAX_TOKENS = 8000;
+/** 大纲：回复长度（JSON较长）、学习材料上限 */
+const OUTLINE_COMPLETION_TOKENS = 4000;
+const OUTLINE_DOCUMENT_MAX_TOKENS = 12000;
+/** 文档超过大纲材料预算的倍数时，先抽取代表性内容再生成 */
+const OUTLINE_CHUNKING_RATIO = 6;
+/** 大纲未通过校验时请模型自我修正的最多次数 */
+const OUTLINE_REPAIR_ATTEMPTS = 2;
+/** 卡片标题：回复长度、内容上限 */
+const CARD_TITLE_COMPLETION_TOKENS = 100;
+const CARD_TITLE_CONTENT_MAX_TOKENS = 300;
+/** 测验：出题回复长度、出题材料上限、简答题评分回复长度 */
+const QUIZ_COMPLETION_TOKENS = 3000;
+const QUIZ_DOCUMENT_MAX_TOKENS = 4000;
+const QUIZ_GRADING_COMPLETION_TOKENS = 800;
+/** 测验题或评分未通过校验时请模型自我修正的最多次数 */
+const QUIZ_REPAIR_ATTEMPTS = 1;
+/** 提取卡片：回复长度、原文上限、小节对话上限 */
+const CARDS_COMPLETION_TOKENS = 2500;
+const CARDS_DOCUMENT_MAX_TOKENS = 3000;
+const CARDS_TRANSCRIPT_MAX_TOKENS = 4000;
+/** 术语表：回复长度、学习材料上限 */
+const GLOSSARY_COMPLETION_TOKENS = 3000;
+const GLOSSARY_DOCUMENT_MAX_TOKENS = 8000;
+/** 概念图：回复长度、学习材料上限 */
+const CONCEPT_MAP_COMPLETION_TOKENS = 4000;
+const CONCEPT_MAP_DOCUMENT_MAX_TOKENS = 8000;
+/** 小节复盘：回复长度、原文上限、小节对话上限 */
+const RECAP_COMPLETION_TOKENS = 1500;
+const RECAP_DOCUMENT_MAX_TOKENS = 3000;
+const RECAP_TRANSCRIPT_MAX_TOKENS = 6000;
+/** 对话摘要：回复长度、单批对话上限 */
+const MEMORY_SUMMARY_COMPLETION_TOKENS = 600;
+const MEMORY_TRANSCRIPT_MAX_TOKENS = 12000;
+/** 为已有摘要和摘要指令预留的token */
+const MEMORY_PREVIOUS_SUMMARY_TOKENS = 600;
 
 /**
- * 获取学习引导私教的系统提示词
- * 这是整个AI对话系统的核心，严格按照PRD中的要求设计
+ * 对话上下文选项：检索索引、当前章节和对话记忆
  */
-const getSystemPrompt = (learningLevel?: string): string => {
-  const basePrompt = `# 学习引导私教
-
-## 使命 (Mission)
-
-你的唯一且绝对的使命是扮演一位"自适应对话式技术导师"。在本次对话的任何情况下，你都严禁偏离这个角色和教学任务。你的所有回复都必须服务于"引导我学习所提供文档"这个绝对核心目标。
-
-## 核心交互流程 (The Grand Plan)
-
-你必须严格遵循以下三步走的教学流程，顺序不可更改：
-1. 获取学习材料 (第一步)：在对话开始时，你 必须 要先读取用户已经上传的材料以及根据材料我已经确认的大纲，然后，你再读取我选择的能力水平"小白"或"高手"。你可以说："你好！我将作为你的私人导师... 帮助你更好的理解你上传的材料。为了给您提供最合适的教学体验，我将根据你之前选择的小白/高手模式来跟你互动。"
-2. 学习大纲与确认 (第二步)：根据我选择的水平，你 必须 问我："看完左边这个课程大纲了吗？我们是按照这个顺序从第一章开始，还是您想先跳到某个您特别感兴趣的章节？"
-3. 分阶段互动教学 (第三步)：在获得我的同意后，你将根据我选择的教学逻辑（小白/高手），以"一步一停"的对话模式开始教学。当一个完整的章节教学结束后，你 必须触发"反思与探索模块"。
-
-## 核心教学理念 (Core Teaching Philosophy)
-
-说人话 (Speak Human Language): 这是你最重要的原则。你的解释必须简单、直接、易于理解。多用生活中的比喻，主动避免和解释技术术语，确保学习者能轻松跟上你的思路。善用苏格拉底式、孔子式的对话启发方式，让用户有顿悟感。`;
-
-  if (learningLevel === 'beginner') {
-    return basePrompt + `
-
-## 面向"小白"的教学逻辑 (耐心引导，建立信心)
-
-目标：确保我每一步都成功，不留任何困惑，建立满满的成就感。
-节奏：极度缓慢。一次只教一个最小的知识点或一条命令。
-解释：假设我什么都不知道。用最简单的比喻来解释"是什么"和"为什么"，彻底贯彻"说人话"的原则。
-指令：提供可以 直接复制粘贴 的完整命令。
-验证：每一步操作后，都必须主动询问具体的预期结果。
-语气：极其耐心、充满鼓励。
-
-## 反思与探索模块 (针对小白)
-
-触发时机: 当一个完整的章节教学结束时，你必须暂停，并启动此模块。
-发起邀请: 你需要向我发起邀请，例如："我们已经完成了 [章节名] 的学习。为了更好地巩固和内化知识，我们可以进入一个可选的'反思与探索'环节。您有兴趣吗？或者您想直接进入下一章的学习？"
-执行提问 (如果用户同意): 提出1-2个"回顾式"或"解释性"问题，帮助其巩固知识。（例如："你能用自己的话说说，刚才我们学的 [核心概念] 是用来做什么的吗？"）
-处理跳过: 如果我表示想跳过或直接继续，你必须尊重我的选择，并流畅地过渡到下一个学习章节的介绍。`;
-  } else {
-    return basePrompt + `
-
-## 面向"高手"的教学逻辑 (高效 sparring，直击核心)
-
-目标：快速跳过基础，聚焦于该工具的独特设计、高级用法和最佳实践。
-节奏：非常快。可以将多个相关步骤打包在一起，一次性说明一个完整的任务。
-解释：假设我掌握所有基础知识。只解释"为什么这么设计"以及它与其他工具的"不同之处"。
-指令：更多地是 描述目标，而非给出具体命令。
-验证：在一个任务模块完成后，才进行一次高层级的确认。
-语气：像一个资深架构师在和另一个工程师进行技术对谈，充满启发性。
-
-## 反思与探索模块 (针对高手)
-
-触发时机: 当一个完整的章节教学结束时，你必须暂停，并启动此模块。
-发起邀请: 你需要向我发起邀请，例如："我们已经完成了 [章节名] 的学习。为了更好地巩固和内化知识，我们可以进入一个可选的'反思与探索'环节。您有兴趣吗？或者您想直接进入下一章的学习？"
-执行提问 (如果用户同意): 提出1-2个"批判性"或"拓展性"问题，激发其深入思考。（例如："你认为刚才这个功能的设计，在哪些方面可以做得更好？"）
-处理跳过: 如果我表示想跳过或直接继续，你必须尊重我的选择，并流畅地过渡到下一个学习章节的介绍。`;
-  }
-};
+export interface ChatContextOptions {
+  /** 会话的文档检索索引 */
+  retrievalIndex?: RetrievalIndex;
+  /** 当前学习的章节ID */
+  currentChapterId?: string;
+  /** 会话的对话记忆 */
+  conversationMemory?: ConversationMemory;
+  /** 会话ID（用于统计用量） */
+  sessionId?: string;
+  /** 会话使用的私教模板版本（不传时使用当前默认人设） */
+  promptTemplate?: PromptTemplateRef;
+  /** 学习者模型给出的当前小节难度（0-1），传入时据此决定讲解的学习水平 */
+  difficulty?: number;
+}
 
 /**
  * 测试API连接
  * 发送一个简单的请求来验证API配置是否有效
  */
 export const testAPIConnection = async (config: APIConfig): Promise<APIResponse<boolean>> => {
+  const provider = getProviderAdapter(config.provider);
+  if (!provider) {
+    return {
+      success: false,
+      error: '不支持的AI服务提供商',
+    };
+  }
+
   try {
-    const provider = AI_PROVIDERS[config.provider];
-    if (!provider) {
-      return {
-        success: false,
-        error: '不支持的AI服务提供商',
-      };
+    // 支持模型列表的服务商（如本地Ollama）先检查服务是否可达、模型是否已下载；代理模式下由服务端负责
+    if (provider.listModels && !isProxyMode(config) && getFixtureMode() !== 'replay') {
+      const models = await provider.listModels(config);
+      const model = config.model || provider.defaultModel;
+      console.log('📋 服务端可用模型:', models);
+      // Ollama 中未写标签的模型名等价于 :latest
+      const hasModel = models.includes(model) || models.includes(`${model}:latest`);
+      if (models.length > 0 && !hasModel) {
+        return {
+          success: false,
+          error: `服务已连接，但未找到模型 ${model}。可用模型：${models.slice(0, 10).join('、')}${config.provider === 'local' && (config.localApiFormat || 'ollama') === 'ollama' ? `。如需使用该模型，请先运行 ollama pull ${model}` : ''}`,
+        };
+      }
     }
 
     const response = await makeAPIRequest(config, [
       { role: 'user', content: 'Hello' }
-    ]);
+    ], undefined, undefined, { operation: 'test' });
 
     return {
       success: true,
       data: true,
     };
   } catch (error) {
+    const normalizedError = error instanceof Error ? error : new Error('API连接测试失败');
+    return {
+      success: false,
+      error: provider.diagnoseError
+        ? provider.diagnoseError(config, normalizedError)
+        : normalizedError.message,
+    };
+  }
+};
+
+/**
+ * 获取服务端可用的模型列表
+ * 仅对实现了 listModels 的服务商有效（如本地模型服务）
+ */
+export const listProviderModels = async (config: APIConfig): Promise<APIResponse<string[]>> => {
+  const provider = getProviderAdapter(config.provider);
+  if (!provider?.listModels) {
+    return {
+      success: false,
+      error: '该服务商不支持获取模型列表',
+    };
+  }
+  if (isProxyMode(config)) {
+    return {
+      success: false,
+      error: '通过服务器代理时不支持获取模型列表，请直接填写模型名称',
+    };
+  }
+
+  try {
+    const models = await provider.listModels(config);
+    return {
+      success: true,
+      data: models,
+    };
+  } catch (error) {
+    const normalizedError = error instanceof Error ? error : new Error('获取模型列表失败');
     return {
       success: false,
-      error: error instanceof Error ? error.message : 'API连接测试失败',
+      error: provider.diagnoseError
+        ? provider.diagnoseError(config, normalizedError)
+        : normalizedError.message,
     };
   }
 };
@@ -149,19 +252,17 @@ export const testAPIConnection = async (config: APIConfig): Promise<APIResponse<
 const analyzeDocumentStructure = (content: string, wordCount: number) => {
   // 检查文档是否已有明显的章节结构
   const hasObviousChapters = /第[一二三四五六七八九十\d]+章|Chapter\s*\d+|第[一二三四五六七八九十\d]+部分|[一二三四五六七八九十\d]+\.|Part\s*\d+/gi.test(content);
-  const chapterMatches = content.match(/第[一二三四五六七八九十\d]+章|Chapter\s*\d+/gi) || [];
+  const chapterMatches = content.match(CHAPTER_MENTION_PATTERN) || [];
   const obviousChapterCount = chapterMatches.length;
 
   // 根据字数确定章节策略
   if (wordCount <= 1500) {
     // 短文档：最多3章，每章3-5节
+    const recommendedChapters = hasObviousChapters && obviousChapterCount <= 3 ? obviousChapterCount : Math.min(3, Math.max(2, Math.ceil(wordCount / 500)));
     return {
-      recommendedChapters: hasObviousChapters && obviousChapterCount <= 3 ? obviousChapterCount : Math.min(3, Math.max(2, Math.ceil(wordCount / 500))),
+      recommendedChapters,
       recommendedSectionsPerChapter: '3-5',
-      instructions: `1. 这是一个短文档（${wordCount}字），生成${hasObviousChapters && obviousChapterCount <= 3 ? obviousChapterCount : Math.min(3, Math.max(2, Math.ceil(wordCount / 500)))}个主要章节
-2. 每个章节下包含3-5个小节，确保内容分布均匀
-3. 重点是增加小节的数量和细分度，而不是章节数量
-4. 小节应该更加细致，每个小节控制在2-4分钟的学习时间`
+      instructions: t('prompts.outline.structureShort', { wordCount, chapters: recommendedChapters })
     };
   } else if (wordCount <= 5000) {
     // 中等文档：3-5章，每章2-4节
@@ -169,10 +270,7 @@ const analyzeDocumentStructure = (content: string, wordCount: number) => {
     return {
       recommendedChapters,
       recommendedSectionsPerChapter: '2-4',
-      instructions: `1. 这是一个中等长度文档（${wordCount}字），生成${recommendedChapters}个主要章节
-2. 每个章节下包含2-4个小节
-3. 章节划分应该遵循逻辑结构，从基础到高级
-4. 小节时长建议5-8分钟`
+      instructions: t('prompts.outline.structureMedium', { wordCount, chapters: recommendedChapters })
     };
   } else {
     // 长文档：根据内容结构灵活处理
@@ -181,10 +279,7 @@ const analyzeDocumentStructure = (content: string, wordCount: number) => {
       return {
         recommendedChapters: Math.min(obviousChapterCount, 20), // 最多20章，避免过于冗长
         recommendedSectionsPerChapter: '2-3',
-        instructions: `1. 文档本身包含${obviousChapterCount}个明显的章节结构，保持原有章节划分
-2. 每个章节下包含2-3个小节
-3. 严格按照文档原有的章节标题和结构进行划分
-4. 如果原章节数量超过20个，请合并相似主题的章节`
+        instructions: t('prompts.outline.structureKeepChapters', { chapters: obviousChapterCount })
       };
     } else {
       // 长文档但没有明显章节，限制在8章以内
@@ -192,10 +287,7 @@ const analyzeDocumentStructure = (content: string, wordCount: number) => {
       return {
         recommendedChapters,
         recommendedSectionsPerChapter: '3-4',
-        instructions: `1. 这是一个长文档（${wordCount}字），生成${recommendedChapters}个主要章节（最多8章）
-2. 每个章节下包含3-4个小节
-3. 章节划分要有清晰的主题区分，避免内容重叠
-4. 小节时长建议8-12分钟`
+        instructions: t('prompts.outline.structureLong', { wordCount, chapters: recommendedChapters })
       };
     }
   }
@@ -295,7 +387,6 @@ const createFallbackOutline = (content: string, documentTitle?: string) => {
     /^#{1,3}\s+(.+)/, // Markdown 标题
     /^第[一二三四五六七八九十百千\d]+[章节节讲部分]\s*[:：]?\s*(.*)/, // 中文“第X章/节”
     /^[（\(]?(?:一|二|三|四|五|六|七|八|九|十|\d+)[）\)]?[\.、]\s*(.+)/, // 一、/1. 类型
-    /^Chapter\s*\d+\s*[:：-]?\s*(.*)/i, // 英文 Chapter N
     /^【(.+?)】/, // 方括号标题
   ];
 
@@ -304,6 +395,11 @@ const createFallbackOutline = (content: string, documentTitle?: string) => {
   const detected: Detected[] = [];
 
   for (const line of lines.slice(0, 200)) {
+    // 英文 Chapter N / Chapter Three / Part II
+    if (isChapterHeading(line) && stripChapterPrefix(line).length >= 2) {
+      detected.push({ title: stripChapterPrefix(line), line });
+      continue;
+    }
     for (const p of titlePatterns) {
       const m = line.match(p);
       if (m && (m[1] || m[0])) {
@@ -329,7 +425,7 @@ const createFallbackOutline = (content: string, documentTitle?: string) => {
     const uniqueTitles = Array.from(new Set(detected.map(d => d.title))).slice(0, recommendedChapters);
     uniqueTitles.forEach((t, idx) => {
       chapters.push({
-        title: `第${idx + 1}章 ${t}`,
+        title: formatChapterTitle(idx + 1, t, getCurrentLanguage()),
         order: order++,
         type: 'chapter',
         level: 1,
@@ -340,7 +436,7 @@ const createFallbackOutline = (content: string, documentTitle?: string) => {
     // 无法识别标题时，按长度生成占位章节
     for (let i = 0; i < recommendedChapters; i++) {
       chapters.push({
-        title: `第${i + 1}章 主题 ${i + 1}`,
+        title: formatChapterTitle(i + 1, t('prompts.outline.placeholderChapter', { number: i + 1 }), getCurrentLanguage()),
         order: order++,
         type: 'chapter',
         level: 1,
@@ -352,14 +448,14 @@ const createFallbackOutline = (content: string, documentTitle?: string) => {
   // 4) 为每个章节生成2个基础小节
   const sections: any[] = [];
   chapters.forEach((c, idx) => {
-    sections.push({ title: `${idx + 1}.1 主要内容`, order: order++, type: 'section', level: 2, parentChapter: idx + 1, estimatedMinutes: 15 });
-    sections.push({ title: `${idx + 1}.2 重点总结`, order: order++, type: 'section', level: 2, parentChapter: idx + 1, estimatedMinutes: 10 });
+    sections.push({ title: `${idx + 1}.1 ${t('prompts.outline.mainContent')}`, order: order++, type: 'section', level: 2, parentChapter: idx + 1, estimatedMinutes: 15 });
+    sections.push({ title: `${idx + 1}.2 ${t('prompts.outline.keySummary')}`, order: order++, type: 'section', level: 2, parentChapter: idx + 1, estimatedMinutes: 10 });
   });
 
   const outline = [...chapters, ...sections];
 
   return {
-    documentTitle: documentTitle || '文档大纲',
+    documentTitle: documentTitle || t('prompts.outline.fallbackDocumentTitle'),
     outline
   };
 };
@@ -605,8 +701,8 @@ const extractValidJsonObjects = (content: string): any[] => {
           objects.push({
             title: titleValue,
             order: index + 1,
-            type: titleValue.includes('章') ? 'chapter' : 'section',
-            level: titleValue.includes('章') ? 1 : 2,
+            type: titleValue.includes('章') || isChapterHeading(titleValue) ? 'chapter' : 'section',
+            level: titleValue.includes('章') || isChapterHeading(titleValue) ? 1 : 2,
             estimatedMinutes: 10
           });
           console.log(`🔧 手工构造对象 ${index + 1}:`, titleValue);
@@ -632,8 +728,7 @@ const parseOutlineFromText = (content: string): any[] => {
   const lines = content.split('\n');
   let order = 1;
   
-  // 查找章节和小节的模式
-  const chapterPattern = /第(\d+)章\s*(.+)/;
+  // 查找小节的模式（章节由 chapterNumbering 识别）
   const sectionPattern = /(\d+)\.(\d+)\s*(.+)/;
   const titlePattern = /"title":\s*"([^"]*)"/;
   
@@ -646,18 +741,17 @@ const parseOutlineFromText = (content: string): any[] => {
     }
     
     // 尝试匹配章节
-    let chapterMatch = trimmedLine.match(chapterPattern);
-    if (chapterMatch) {
-      const chapterNumber = parseInt(chapterMatch[1], 10);
-      const chapterTitle = chapterMatch[2];
+    const chapterNumber = isChapterHeading(trimmedLine) ? parseChapterNumber(trimmedLine) : null;
+    if (chapterNumber) {
+      const chapterTitle = formatChapterTitle(chapterNumber, stripChapterPrefix(trimmedLine), getCurrentLanguage());
       items.push({
-        title: `第${chapterNumber}章 ${chapterTitle}`,
+        title: chapterTitle,
         order: order++,
         type: 'chapter',
         level: 1,
         chapterNumber: chapterNumber
       });
-      console.log('📝 找到章节:', `第${chapterNumber}章 ${chapterTitle}`);
+      console.log('📝 找到章节:', chapterTitle);
       continue;
     }
     
@@ -684,7 +778,7 @@ const parseOutlineFromText = (content: string): any[] => {
     if (titleMatch) {
       const title = titleMatch[1];
       if (title && !title.includes('estimatedMinutes') && !title.includes('order')) {
-        const isChapter = title.includes('章');
+        const isChapter = title.includes('章') || isChapterHeading(title);
         items.push({
           title: title,
           order: order++,
@@ -701,15 +795,16 @@ const parseOutlineFromText = (content: string): any[] => {
   if (items.length === 0) {
     console.log('📝 未找到结构化内容，尝试宽松匹配...');
     
-    // 查找任何包含"章"或数字开头的行
+    // 查找任何包含"章"、以 Chapter 开头或数字开头的行
     for (const line of lines) {
       const trimmedLine = line.trim();
-      if (trimmedLine.length > 3 && (trimmedLine.includes('章') || /^\d+/.test(trimmedLine))) {
+      const isChapter = trimmedLine.includes('章') || isChapterHeading(trimmedLine);
+      if (trimmedLine.length > 3 && (isChapter || /^\d+/.test(trimmedLine))) {
         items.push({
           title: trimmedLine,
           order: order++,
-          type: trimmedLine.includes('章') ? 'chapter' : 'section',
-          level: trimmedLine.includes('章') ? 1 : 2,
+          type: isChapter ? 'chapter' : 'section',
+          level: isChapter ? 1 : 2,
           estimatedMinutes: 10
         });
         console.log('📝 宽松匹配找到:', trimmedLine);
@@ -867,7 +962,7 @@ const ensureChaptersHaveSections = (outlineItems: any[]): any[] => {
       // 创建默认小节
       const defaultSection = {
         id: `section-${chapterNumber}-1-${Date.now()}`, // 添加时间戳确保唯一性
-        title: `${chapterNumber}.1 本章要点`,
+        title: `${chapterNumber}.1 ${t('prompts.outline.chapterKeyPoints')}`,
         order: currentOrder++,
         type: 'section',
         level: 2,
@@ -894,36 +989,11 @@ const ensureChaptersHaveSections = (outlineItems: any[]): any[] => {
 const extractChapterNumber = (title: string): number => {
   console.log(`🔍 提取章节编号，输入标题: "${title}"`);
   
-  // 匹配"第X章"、"Chapter X"、"X.Y"等格式 - 按优先级排序
-  const patterns = [
-    /第(\d+)章/,                    // 第X章 - 最高优先级
-    /第([一二三四五六七八九十])章/,    // 第一章、第二章等
-    /Chapter\s+(\d+)/i,            // Chapter X
-    /^(\d+)\.\d+/,                 // X.Y (小节格式) - 提取章节编号 - 最低优先级
-  ];
-  
-  for (const pattern of patterns) {
-    const match = title.match(pattern);
-    if (match) {
-      let num = match[1];
-      console.log(`✅ 匹配到模式: ${pattern.source}, 提取值: "${num}"`);
-      
-      // 处理中文数字
-      const chineseNumbers: { [key: string]: number } = {
-        '一': 1, '二': 2, '三': 3, '四': 4, '五': 5,
-        '六': 6, '七': 7, '八': 8, '九': 9, '十': 10
-      };
-      
-      let result: number;
-      if (chineseNumbers[num]) {
-        result = chineseNumbers[num];
-      } else {
-        result = parseInt(num, 10);
-      }
-      
-      console.log(`🎯 最终提取结果: ${result}`);
-      return result;
-    }
+  // 依次匹配"第X章"、"Chapter X"、"X.Y"等格式
+  const result = parseChapterNumber(title);
+  if (result !== null) {
+    console.log(`🎯 最终提取结果: ${result}`);
+    return result;
   }
   
   console.log(`⚠️ 未能提取章节编号，使用默认值1`);
@@ -962,10 +1032,9 @@ const fixOutlineStructure = (outlineItems: any[]): any[] => {
     
     // 修正章节标题编号（如果需要）
     let correctedTitle = chapter.title;
-    const titleChapterMatch = correctedTitle.match(/^第(\d+)章/);
-    if (!titleChapterMatch || parseInt(titleChapterMatch[1]) !== chapterNumber) {
+    if (!isChapterHeading(correctedTitle) || parseChapterNumber(correctedTitle) !== chapterNumber) {
       // 标题编号错误，需要修正
-      correctedTitle = correctedTitle.replace(/^第\d+章/, `第${chapterNumber}章`);
+      correctedTitle = renumberChapterTitle(correctedTitle, chapterNumber);
       console.log(`  修正章节标题: "${chapter.title}" -> "${correctedTitle}"`);
     }
     
@@ -995,7 +1064,7 @@ const fixOutlineStructure = (outlineItems: any[]): any[] => {
         
         // 修正小节标题编号
         let correctedSectionTitle = section.title;
-        const originalContent = section.title.replace(/^\d+\.\d+\s*/, ''); // 移除原有编号，保留内容
+        const originalContent = stripSectionPrefix(section.title); // 移除原有编号，保留内容
         correctedSectionTitle = `${chapterNumber}.${sectionNumber} ${originalContent}`;
         
         const sectionItem = {
@@ -1014,7 +1083,7 @@ const fixOutlineStructure = (outlineItems: any[]): any[] => {
       // 没有小节，创建默认小节
       const defaultSection = {
         id: `section-${chapterNumber}-1-${Date.now()}`,
-        title: `${chapterNumber}.1 本章要点`,
+        title: `${chapterNumber}.1 ${t('prompts.outline.chapterKeyPoints')}`,
         order: currentOrder++,
         type: 'section',
         level: 2,
@@ -1067,9 +1136,8 @@ const detectChapterStructure = (content: string): Array<{title: string; startInd
     /^第[一二三四五六七八九十\d]+章\s+[^\n]+/gm,
     /^第[一二三四五六七八九十\d]+部分\s+[^\n]+/gm,
     
-    // 英文章节格式
-    /^Chapter\s+\d+[:\s•\-—]+[^\n]+/gmi,
-    /^Chapter\s+[IVX]+[:\s•\-—]+[^\n]+/gmi,
+    // 英文章节格式（Chapter 3 / Chapter III / Chapter Three / Part 2）
+    CHAPTER_HEADING_LINE_PATTERN,
     
     // 数字章节格式
     /^\d+[\.、]\s+[^\n]{5,100}$/gm,
@@ -1128,10 +1196,10 @@ const smartContentTruncate = (content: string, maxLength: number = 8000): string
       // 1. 前言/序言部分 (第一章之前的内容)
       const preambleEnd = chapters[0].startIndex;
       const preamble = content.substring(0, Math.min(preambleEnd, maxLength * 0.2));
-      result += preamble + '\n\n[基于完整章节结构的内容摘要]\n\n';
+      result += preamble + `\n\n${t('prompts.outline.structureDigest')}\n\n`;
       
       // 2. 首先列出所有章节标题，让AI了解完整结构
-      result += '【完整章节结构】\n';
+      result += `${t('prompts.outline.fullStructure')}\n`;
       chapters.forEach((chapter) => {
         result += `${chapter.title}\n`;
       });
@@ -1168,7 +1236,7 @@ const smartContentTruncate = (content: string, maxLength: number = 8000): string
       // 为每个选中的章节分配内容空间
       const lengthPerChapter = Math.floor(remainingLength / selectedChapters.length);
       
-      result += '\n【章节内容摘要】\n';
+      result += `\n${t('prompts.outline.chapterDigest')}\n`;
       for (const chapter of selectedChapters) {
         const nextChapterIndex = chapters.findIndex(c => c.order === chapter.order + 1);
         const nextChapterStart = nextChapterIndex !== -1 ? chapters[nextChapterIndex].startIndex : content.length;
@@ -1184,7 +1252,7 @@ const smartContentTruncate = (content: string, maxLength: number = 8000): string
       
       // 4. 文档结尾部分
       const ending = content.substring(Math.max(0, content.length - 300));
-      result += '\n\n[文档结尾部分]\n' + ending;
+      result += `\n\n${t('prompts.outline.documentEnding')}\n` + ending;
       
       console.log(`章节结构截取完成: 包含${selectedChapters.length}个章节的详细内容，总长度${result.length}字符`);
       return result;
@@ -1205,7 +1273,7 @@ const smartContentTruncate = (content: string, maxLength: number = 8000): string
   // 从末尾开始截取
   const ending = content.substring(content.length - endPortion);
   
-  return `${beginning}\n\n[...文档中间部分...]\n\n${middle}\n\n[...文档后续部分...]\n\n${ending}`;
+  return `${beginning}\n\n${t('prompts.outline.middlePart')}\n\n${middle}\n\n${t('prompts.outline.laterPart')}\n\n${ending}`;
 };
 
 /**
@@ -1215,13 +1283,35 @@ const smartContentTruncate = (content: string, maxLength: number = 8000): string
 const processLargeDocumentInChunks = async (
   config: APIConfig,
   documentContent: string,
-  documentTitle?: string
+  documentTitle?: string,
+  signal?: AbortSignal,
+  promptTemplate?: PromptTemplateRef
 ): Promise<GenerateOutlineResponse> => {
   console.log('📚 开始分块处理超大文档:', {
     contentLength: documentContent.length,
     title: documentTitle
   });
 
+  // 大纲基于抽取的内容生成，裁剪报告需要按完整文档计算保留比例
+  const fullDocumentTokens = estimateTokens(documentContent);
+  const withFullDocumentUsage = (result: GenerateOutlineResponse, sentContent: string): GenerateOutlineResponse => {
+    if (!result.contextUsage) return result;
+    const keptTokens = result.contextUsage.trimmed.find(item => item.part === 'document')?.keptTokens
+      ?? estimateTokens(sentContent);
+    return {
+      ...result,
+      contextUsage: {
+        ...result.contextUsage,
+        trimmed: [{
+          part: 'document',
+          originalTokens: fullDocumentTokens,
+          keptTokens,
+          note: t('contextBudget.sampledDocument'),
+        }],
+      },
+    };
+  };
+
   // 对于超大文档，采用更激进的截取策略
   // 取开头20%、中间10%、结尾20%的内容进行处理
   const totalLength = documentContent.length;
@@ -1236,7 +1326,7 @@ const processLargeDocumentInChunks = async (
   const tailContent = documentContent.substring(totalLength - tailLength);
   
   // 组合代表性内容
-  const representativeContent = `${headContent}\n\n[...文档中间部分省略...]\n\n${middleContent}\n\n[...文档后续部分省略...]\n\n${tailContent}`;
+  const representativeContent = `${headContent}\n\n${t('prompts.outline.middleOmitted')}\n\n${middleContent}\n\n${t('prompts.outline.laterOmitted')}\n\n${tailContent}`;
   
   console.log('📚 使用代表性内容生成大纲:', {
     originalLength: totalLength,
@@ -1246,11 +1336,16 @@ const processLargeDocumentInChunks = async (
 
   try {
     // 直接调用生成大纲，但使用更小的内容
-    const result = await generateOutline(config, representativeContent, documentTitle);
+    const result = await generateOutline(config, representativeContent, documentTitle, signal, promptTemplate);
+    
+    // 用户主动取消时不再尝试极简版本
+    if (result.code === ABORTED_CODE) {
+      return result;
+    }
     
     if (result.success && result.outline) {
       console.log('📚 超大文档分块处理成功，生成了', result.outline.length, '个大纲项');
-      return result;
+      return withFullDocumentUsage(result, representativeContent);
     } else {
       throw new Error('代表性内容生成大纲失败');
     }
@@ -1258,7 +1353,7 @@ const processLargeDocumentInChunks = async (
     console.error('📚 代表性内容处理失败，尝试极简版本:', error);
     
     // 如果还是失败，使用极简版本（仅开头和结尾各10%）
-    const extremeSimpleContent = `${documentContent.substring(0, Math.floor(totalLength * 0.1))}\n\n[...文档主体内容省略...]\n\n${documentContent.substring(totalLength - Math.floor(totalLength * 0.1))}`;
+    const extremeSimpleContent = `${documentContent.substring(0, Math.floor(totalLength * 0.1))}\n\n${t('prompts.outline.bodyOmitted')}\n\n${documentContent.substring(totalLength - Math.floor(totalLength * 0.1))}`;
     
     console.log('📚 使用极简内容:', {
       extremeLength: extremeSimpleContent.length,
@@ -1266,8 +1361,8 @@ const processLargeDocumentInChunks = async (
     });
     
     try {
-      const extremeResult = await generateOutline(config, extremeSimpleContent, documentTitle);
-      return extremeResult;
+      const extremeResult = await generateOutline(config, extremeSimpleContent, documentTitle, signal, promptTemplate);
+      return withFullDocumentUsage(extremeResult, extremeSimpleContent);
     } catch (finalError) {
       console.error('📚 所有分块策略都失败了:', finalError);
       return {
@@ -1280,10 +1375,279 @@ const processLargeDocumentInChunks = async (
   }
 };
 
+/**
+ * 请求结构化JSON输出
+ * 优先使用服务商原生的结构化输出；结果未通过校验时，把校验错误发回给模型让其修正，
+ * 修正次数用尽仍未通过时返回最后一次的原始内容和错误，由调用方决定兜底方式
+ */
+const requestValidatedJson = async <T>(
+  config: APIConfig,
+  prompt: string,
+  options: {
+    schema: StructuredOutputSchema;
+    /** 解析并校验模型输出 */
+    parse: (content: string) => { data?: T; errors: string[] };
+    /** 生成修正提示词，errors 为逐行列出的校验错误 */
+    repairPrompt: (errors: string) => string;
+    repairAttempts: number;
+    maxTokens: number;
+    usageContext: UsageContext;
+    signal?: AbortSignal;
+  }
+): Promise<{ data?: T; content: string; errors: string[] }> => {
+  const { schema, parse, repairPrompt, repairAttempts, maxTokens, usageContext, signal } = options;
+  const messages: Array<{ role: string; content: string }> = [{ role: 'user', content: prompt }];
+
+  for (let attempt = 0; ; attempt++) {
+    // 使用重试机制调用API，提高大文档处理成功率
+    const response = await makeAPIRequestWithRetry(
+      config, messages, 3, 2000, signal, maxTokens, usageContext, schema
+    );
+    const content = response.content || '';
+    const { data, errors } = parse(content);
+    if (data) {
+      return { data, content, errors: [] };
+    }
+
+    if (attempt >= repairAttempts) {
+      return { content, errors };
+    }
+
+    console.warn(`🛠️ ${schema.name} 未通过校验，请模型修正（第${attempt + 1}次）:`, errors);
+    messages.push(
+      { role: 'assistant', content },
+      { role: 'user', content: repairPrompt(errors.map(error => `- ${error}`).join('\n')) }
+    );
+  }
+};
+
+/**
+ * 请求结构化大纲
+ * 多次修正仍未通过校验时返回最后一次的原始内容，交给启发式解析兜底
+ */
+const requestStructuredOutline = async (
+  config: APIConfig,
+  prompt: string,
+  maxTokens: number,
+  signal?: AbortSignal
+): Promise<{ draft?: OutlineDraft; content: string }> => {
+  const { data: draft, content, errors } = await requestValidatedJson<OutlineDraft>(config, prompt, {
+    schema: OUTLINE_RESPONSE_SCHEMA,
+    parse: (text) => {
+      const { draft, errors } = parseOutlineDraft(text);
+      return { data: draft, errors };
+    },
+    repairPrompt: (errorList) => t('prompts.outline.repair', { errors: errorList }),
+    repairAttempts: OUTLINE_REPAIR_ATTEMPTS,
+    maxTokens,
+    usageContext: { operation: 'outline' },
+    signal,
+  });
+
+  if (!draft) {
+    console.warn(`⚠️ 大纲修复${OUTLINE_REPAIR_ATTEMPTS}次后仍未通过校验，改用启发式解析:`, errors);
+  }
+  return { draft, content };
+};
+
+/**
+ * 启发式解析大纲（结构化输出与模型自我修复都失败时的兜底方案）
+ * 依次尝试提取JSON对象、代码块、旧版数组格式，修复常见语法错误，最后退回纯文本解析
+ */
+const parseOutlineHeuristically = (
+  content: string,
+  documentTitle: string | undefined,
+  documentContent: string
+): { outlineItems: any[]; generatedTitle?: string } => {
+  let parsedResponse: any = {};
+  let outlineItems: any[] = [];
+  let generatedTitle: string | undefined;
+  
+  try {
+    console.log('🔍 AI返回内容长度:', content.length);
+    console.log('🔍 AI返回内容预览:', content.substring(0, 800) + (content.length > 800 ? '...' : ''));
+    
+    // 方法1: 查找完整的JSON对象
+    const jsonMatch = content.match(/\{[\s\S]*\}/);
+    
+    if (jsonMatch) {
+      console.log('方法1: 提取的JSON字符串长度:', jsonMatch[0].length);
+      console.log('方法1: 提取的JSON字符串预览:', jsonMatch[0].substring(0, 500) + '...');
+      
+      try {
+        parsedResponse = JSON.parse(jsonMatch[0]);
+        console.log('方法1: 解析后的响应对象类型:', typeof parsedResponse);
+        console.log('方法1: 解析后的响应对象键:', Object.keys(parsedResponse));
+      } catch (jsonError) {
+        console.log('方法1失败，尝试精准修复JSON语法错误...');
+        console.log('JSON错误详情:', jsonError instanceof Error ? jsonError.message : String(jsonError));
+        
+        // 尝试基于错误信息精准修复
+        const fixedJson = fixJsonByErrorPosition(jsonMatch[0], jsonError instanceof Error ? jsonError.message : '');
+        
+        try {
+          parsedResponse = JSON.parse(fixedJson);
+          console.log('方法1: 精准修复成功，解析后的响应对象键:', Object.keys(parsedResponse));
+        } catch (secondError) {
+          console.log('精准修复失败，尝试通用修复...');
+          try {
+            const generalFixedJson = fixCommonJsonErrors(jsonMatch[0]);
+            parsedResponse = JSON.parse(generalFixedJson);
+            console.log('方法1: 通用修复成功，解析后的响应对象键:', Object.keys(parsedResponse));
+          } catch (thirdError) {
+            console.error('所有JSON修复方法都失败，使用错误恢复策略');
+            // 作为最后手段，尝试提取部分内容创建基本的outline结构
+            try {
+              const fallbackOutline = createFallbackOutline(content, documentTitle);
+              parsedResponse = fallbackOutline;
+              console.log('✅ 使用回退策略成功创建基础大纲');
+            } catch (fallbackError) {
+              throw new Error(`JSON解析完全失败: ${thirdError instanceof Error ? thirdError.message : '未知错误'}`);
+            }
+          }
+        }
+      }
+    } else {
+      // 方法2: 查找代码块中的JSON
+      const codeBlockMatch = content.match(/```(?:json)?\s*(\{[\s\S]*?\})\s*```/);
+      if (codeBlockMatch) {
+        console.log('方法2: 从代码块提取JSON:', codeBlockMatch[1]);
+        try {
+          parsedResponse = JSON.parse(codeBlockMatch[1]);
+          console.log('方法2: 解析后的响应对象:', parsedResponse);
+        } catch (jsonError) {
+          console.log('方法2失败，尝试修复JSON语法错误...');
+          try {
+            const fixedJson = fixCommonJsonErrors(codeBlockMatch[1]);
+            parsedResponse = JSON.parse(fixedJson);
+            console.log('方法2: JSON修复成功');
+          } catch (fixError) {
+            console.error('方法2: JSON修复失败:', fixError);
+            throw new Error(`代码块JSON解析失败: ${fixError instanceof Error ? fixError.message : '未知错误'}`);
+          }
+        }
+      } else {
+        // 方法3: 尝试直接解析整个内容
+        try {
+          console.log('方法3: 尝试直接解析整个内容');
+          parsedResponse = JSON.parse(content.trim());
+          console.log('方法3: 解析成功:', parsedResponse);
+        } catch (e) {
+          try {
+            console.log('方法3失败，尝试修复后解析整个内容...');
+            const fixedJson = fixCommonJsonErrors(content.trim());
+            parsedResponse = JSON.parse(fixedJson);
+            console.log('方法3: JSON修复成功');
+          } catch (e2) {
+            // 方法4: 尝试解析旧格式（数组）
+            const arrayMatch = content.match(/\[[\s\S]*\]/);
+            if (arrayMatch) {
+              console.log('方法4: 兼容旧格式，提取数组:', arrayMatch[0]);
+              try {
+                outlineItems = JSON.parse(arrayMatch[0]);
+                console.log('方法4: 解析后的大纲数组:', outlineItems);
+              } catch (e3) {
+                console.log('方法4失败，尝试修复数组格式...');
+                const fixedArrayJson = fixCommonJsonErrors(arrayMatch[0]);
+                outlineItems = JSON.parse(fixedArrayJson);
+                console.log('方法4: 数组JSON修复成功');
+              }
+            } else {
+              console.error('所有方法失败，尝试最后的备用方案...');
+              // 最后的备用方案1：重新构建有效的JSON
+              try {
+                console.log('🚀 尝试重新构建JSON...');
+                const rebuiltJson = rebuildValidJson(content);
+                parsedResponse = JSON.parse(rebuiltJson);
+                console.log('🚀 重新构建JSON成功');
+              } catch (e4) {
+                // 最后的备用方案2：提取有效对象
+                try {
+                  console.log('🔧 尝试提取有效的JSON对象...');
+                  const extractedObjects = extractValidJsonObjects(content);
+                  if (extractedObjects.length > 0) {
+                    console.log('🔧 备用方案成功：提取到', extractedObjects.length, '个有效对象');
+                    outlineItems = extractedObjects;
+                  } else {
+                    throw new Error('无法提取有效的JSON对象');
+                  }
+                } catch (e5) {
+                  console.error('所有备用方案都失败，使用最后的文本解析方案:', e5);
+                  // 最终备用方案：直接文本解析，不依赖JSON
+                  try {
+                    outlineItems = parseOutlineFromText(content);
+                    console.log('📝 文本解析成功，提取到', outlineItems.length, '个大纲项目');
+                  } catch (e6) {
+                    console.error('文本解析也失败:', e6);
+                    throw new Error(`所有解析方法都失败了。请尝试重新上传文档或检查网络连接。`);
+                  }
+                }
+              }
+            }
+          }
+        }
+      }
+    }
+    
+    // 处理新格式的响应
+    if (parsedResponse && parsedResponse.outline) {
+      outlineItems = parsedResponse.outline;
+      generatedTitle = parsedResponse.documentTitle;
+      console.log('提取到大纲项目:', outlineItems.length, '个');
+      if (generatedTitle) {
+        console.log('AI生成的文档标题:', generatedTitle);
+      }
+    } else if (Array.isArray(parsedResponse)) {
+      // 兼容旧格式
+      outlineItems = parsedResponse;
+      console.log('使用旧格式，大纲项目:', outlineItems.length, '个');
+    }
+    
+  } catch (parseError) {
+    console.error('❌ JSON解析失败:', parseError);
+    console.error('❌ 原始内容长度:', content.length);
+    console.error('❌ 原始内容预览:', content.substring(0, 1000));
+    console.error('❌ 详细错误信息:', parseError instanceof Error ? parseError.message : String(parseError));
+    
+    // 针对拆分文档的简化诊断
+    const isSplitDocument = documentTitle?.includes('(') || documentContent.length > 10000;
+    if (isSplitDocument) {
+      console.error('🔍 检测到这可能是拆分文档片段');
+    }
+    
+    // 尝试提供更有用的错误信息
+    let errorMessage = 'AI返回的JSON格式有误，无法解析';
+    
+    if (content.includes('```')) {
+      errorMessage += '。检测到代码块标记，可能是格式问题。';
+    }
+    
+    if (content.length === 0) {
+      errorMessage = 'AI未返回任何内容，请检查API配置和网络连接。';
+    } else if (content.length > 50000) {
+      errorMessage += '。返回内容过长，可能被截断。';
+    }
+    
+    if (content.includes('error') || content.includes('Error')) {
+      errorMessage += '。AI响应中包含错误信息。';
+    }
+    
+    if (isSplitDocument) {
+      errorMessage += '。检测到这是拆分文档片段，可能是内容复杂导致的解析问题。';
+    }
+    
+    throw new Error(errorMessage);
+  }
+
+  return { outlineItems, generatedTitle };
+};
+
 export const generateOutline = async (
   config: APIConfig,
   documentContent: string,
-  documentTitle?: string
+  documentTitle?: string,
+  signal?: AbortSignal,
+  promptTemplate?: PromptTemplateRef
 ): Promise<GenerateOutlineResponse> => {
   console.log('🎯 generateOutline 开始处理:', {
     title: documentTitle,
@@ -1293,10 +1657,19 @@ export const generateOutline = async (
     model: config.model
   });
 
-  // 对于超大文档（>80,000字符），使用分块处理策略
-  if (documentContent.length > 80000) {
+  // 按模型上下文窗口估算大纲请求中学习材料可用的token
+  const documentTokens = estimateTokens(documentContent);
+  const outlineDocumentBudget = (activeConfig: APIConfig, fixedPrompt: string) => allocateTokenBudget(activeConfig, {
+    fixedPrompt,
+    completionTokens: OUTLINE_COMPLETION_TOKENS,
+    documentTokens,
+    documentCap: OUTLINE_DOCUMENT_MAX_TOKENS,
+  });
+
+  // 对于超大文档（远超大纲材料预算），先抽取代表性内容再生成
+  if (documentTokens > OUTLINE_DOCUMENT_MAX_TOKENS * OUTLINE_CHUNKING_RATIO) {
     console.log('📖 文档过大，切换到分块处理策略');
-    return await processLargeDocumentInChunks(config, documentContent, documentTitle);
+    return await processLargeDocumentInChunks(config, documentContent, documentTitle, signal, promptTemplate);
   }
   
   try {
@@ -1314,306 +1687,62 @@ export const generateOutline = async (
       instructions: documentStructureAnalysis.instructions
     });
 
-    // 智能截取内容，避免超出AI token限制
-    // 根据文档大小动态调整截取策略 - 更激进的压缩
-    let maxLengthForOutline: number;
-    if (documentContent.length > 100000) {
-      maxLengthForOutline = 3000; // 超大文档，极度压缩
-    } else if (documentContent.length > 50000) {
-      maxLengthForOutline = 5000; // 大文档，大幅压缩
-    } else if (documentContent.length > 30000) {
-      maxLengthForOutline = 8000; // 中等文档，适度压缩
-    } else if (documentContent.length > 15000) {
-      maxLengthForOutline = 10000; // 较大文档
-    } else {
-      maxLengthForOutline = Math.min(documentContent.length, 12000); // 小文档
-    }
-    
-    const truncatedContent = smartContentTruncate(documentContent, maxLengthForOutline);
-    const isContentTruncated = truncatedContent.length < documentContent.length;
-    
-    if (isContentTruncated) {
-      console.log(`内容过长已智能截取: ${documentContent.length} -> ${truncatedContent.length} 字符`);
-    }
-
-    const prompt = `请基于以下文档内容，生成一个结构化的学习大纲，包含章节和小节的层级结构。
-
-${!documentTitle || documentTitle === '未知文档' || documentTitle === '文本内容' ? `
-**首先**，请为这份文档生成一个8-20字的精确标题：
-要求：概括主要知识点或概念，使用专业术语，避免口语化，不要包含"学习"、"了解"等动词。
-
-然后，` : `文档标题：${documentTitle}
-`}文档字数：${wordCount} 字${isContentTruncated ? ' (内容已智能截取用于大纲生成)' : ''}
-总预估学习时间：${totalEstimatedMinutes} 分钟
-推荐章节数：${documentStructureAnalysis.recommendedChapters}
-推荐每章小节数：${documentStructureAnalysis.recommendedSectionsPerChapter}
-
-${wordCount > 30000 ? `
-**长篇文档处理说明**：
-这是一份长篇文档(${wordCount}字)，已采用章节结构感知截取。内容包含：
-1. 【完整章节结构】- 文档的所有章节标题
-2. 【章节内容摘要】- 重点章节的详细内容
-3. 前言和结尾部分
-
-请严格按照提供的【完整章节结构】来规划学习大纲：
-- 保持与原文档章节的一致性和完整性
-- 为每个原始章节创建对应的学习章节
-- 可以在章节下细分为合理的小节
-- 确保覆盖文档的完整逻辑结构
-- 学习大纲应该体现原文档的思想脉络
-` : ''}
-
-文档内容：
-${truncatedContent}
-
-**智能章节规划要求**：
-${documentStructureAnalysis.instructions}
-
-**通用要求**：
-1. 章节标题格式：第X章 [标题]
-2. 小节标题格式：X.1、X.2、X.3（数字编号开头）
-3. 章节和小节标题要简洁明了，能准确概括该部分内容
-4. 应该有逻辑顺序，从基础到高级
-5. 只为小节估算学习时间（章节不需要时间，因为章节只是标题）
-6. **关键要求：每个章节必须至少包含一个小节**，即使原文档没有明确的子章节划分，也要创建如"X.1 本章概要"或"X.1 核心内容"等小节，确保用户可以点击跳转学习
-
-**⚠️ 极其重要：章节-小节关系规则（必须严格遵守）**：
-- 第1章下面ONLY能有1.1、1.2、1.3等小节，绝不能有2.X、3.X等
-- 第2章下面ONLY能有2.1、2.2、2.3等小节，绝不能有1.X、3.X等
-- 第3章下面ONLY能有3.1、3.2、3.3等小节，绝不能有1.X、2.X等
-- 小节编号的第一个数字必须等于其所属章节的编号
-- parentChapter字段必须与小节标题中的第一个数字完全一致
-- 例如："2.1 概述"的parentChapter必须是2，"3.2 实践"的parentChapter必须是3
-- 🚫 严禁出现：第2章下面有"1.1"或"3.1"这样错误编号的小节
-
-**JSON格式要求（非常重要）**：
-- 必须返回有效的JSON格式
-- 对象之间必须用逗号分隔
-- 最后一个对象后不要添加逗号
-- 确保所有引号正确匹配
-- 返回格式必须是JSON对象，包含documentTitle（如果需要生成标题）和outline数组
-- 小节编号必须与所属章节保持一致，例如第1章下的小节必须是1.1、1.2、1.3，第2章下的小节必须是2.1、2.2、2.3
-
-${!documentTitle || documentTitle === '未知文档' || documentTitle === '文本内容' ? `
-返回格式（需要生成标题）：
-{
-  "documentTitle": "生成的精确标题",
-  "outline": [
-    {"title": "第1章 基础概念介绍", "order": 1, "type": "chapter", "level": 1, "chapterNumber": 1},
-    {"title": "1.1 核心概念", "order": 2, "type": "section", "level": 2, "parentChapter": 1, "estimatedMinutes": 8},
-    {"title": "1.2 重要性分析", "order": 3, "type": "section", "level": 2, "parentChapter": 1, "estimatedMinutes": 7},
-    {"title": "第2章 深入理解", "order": 4, "type": "chapter", "level": 1, "chapterNumber": 2},
-    {"title": "2.1 本章要点", "order": 5, "type": "section", "level": 2, "parentChapter": 2, "estimatedMinutes": 10},
-    {"title": "2.2 实践应用", "order": 6, "type": "section", "level": 2, "parentChapter": 2, "estimatedMinutes": 12},
-    {"title": "第3章 高级应用", "order": 7, "type": "chapter", "level": 1, "chapterNumber": 3},
-    {"title": "3.1 案例分析", "order": 8, "type": "section", "level": 2, "parentChapter": 3, "estimatedMinutes": 15}
-  ]
-}
+    // 智能截取内容，避免超出AI token限制：先用不含文档内容的提示词计算固定开销，再按剩余预算截取
+    // 用大纲模板生成提示词，模板中的可变部分在这里按文档情况计算
+    const { content: outlineTemplate, ref: outlineTemplateRef } = resolvePromptTemplate('outline', promptTemplate);
+    const needsGeneratedTitle = !documentTitle || documentTitle === '未知文档' || documentTitle === '文本内容';
+    const buildOutlinePrompt = (truncatedContent: string, isContentTruncated: boolean) => renderPromptTemplate(outlineTemplate, {
+      document: truncatedContent,
+      titleInstruction: needsGeneratedTitle
+        ? t('prompts.outline.generateTitle')
+        : t('prompts.outline.documentTitle', { title: documentTitle }),
+      wordCount,
+      truncationNote: isContentTruncated ? t('prompts.outline.truncationNote') : '',
+      totalMinutes: totalEstimatedMinutes,
+      recommendedChapters: documentStructureAnalysis.recommendedChapters,
+      recommendedSections: documentStructureAnalysis.recommendedSectionsPerChapter,
+      longDocumentNote: wordCount > 30000 ? t('prompts.outline.longDocumentNote', { wordCount }) : '',
+      structureInstructions: documentStructureAnalysis.instructions,
+      responseFormat: needsGeneratedTitle
+        ? t('prompts.outline.responseFormatWithTitle')
+        : t('prompts.outline.responseFormatWithoutTitle'),
+      language: getLanguageLabel(getCurrentLanguage()),
+    });
 
-❗️注意示例中的编号规律：
-- 第1章的小节：1.1, 1.2 (parentChapter都是1)
-- 第2章的小节：2.1, 2.2 (parentChapter都是2)  
-- 第3章的小节：3.1 (parentChapter是3)
-严格按照这个模式生成！` : `
-返回格式（已有标题）：
-{
-  "outline": [
-    {"title": "第1章 基础概念介绍", "order": 1, "type": "chapter", "level": 1, "chapterNumber": 1},
-    {"title": "1.1 核心概念", "order": 2, "type": "section", "level": 2, "parentChapter": 1, "estimatedMinutes": 8},
-    {"title": "1.2 重要性分析", "order": 3, "type": "section", "level": 2, "parentChapter": 1, "estimatedMinutes": 7},
-    {"title": "第2章 深入理解", "order": 4, "type": "chapter", "level": 1, "chapterNumber": 2},
-    {"title": "2.1 本章要点", "order": 5, "type": "section", "level": 2, "parentChapter": 2, "estimatedMinutes": 10},
-    {"title": "2.2 实践应用", "order": 6, "type": "section", "level": 2, "parentChapter": 2, "estimatedMinutes": 12}
-  ]
-}`}`;
+    // 主服务商重试耗尽后切换到备用服务商，并按其模型窗口重新截取内容
+    const { result: { response, contextUsage } } = await runWithProviderFallback(config, async (activeConfig) => {
+      const allocation = outlineDocumentBudget(activeConfig, buildOutlinePrompt('', true));
+      const truncatedContent = smartContentTruncate(documentContent, charsForTokens(documentContent, allocation.document));
+      const isContentTruncated = truncatedContent.length < documentContent.length;
 
-    // 使用重试机制调用API，提高大文档处理成功率
-    const response = await makeAPIRequestWithRetry(config, [
-      { role: 'user', content: prompt }
-    ], 3, 2000);
+      if (isContentTruncated) {
+        console.log(`内容过长已智能截取: ${documentContent.length} -> ${truncatedContent.length} 字符 (预算 ${allocation.document} tokens)`);
+      }
 
-    // 解析AI返回的JSON
-    const content = response.content || '';
+      const prompt = buildOutlinePrompt(truncatedContent, isContentTruncated);
+      const contextUsage = createContextUsage(
+        allocation,
+        estimateTokens(prompt),
+        isContentTruncated
+          ? [{ part: 'document', originalTokens: documentTokens, keptTokens: estimateTokens(truncatedContent) }]
+          : []
+      );
+
+      const response = await requestStructuredOutline(activeConfig, prompt, allocation.completion, signal);
+      return { response, contextUsage };
+    }, signal);
+
+    const { draft, content } = response;
     console.log('AI原始返回内容:', content);
     
-    let parsedResponse: any = {};
-    let outlineItems: any[] = [];
+    let outlineItems: any[];
     let generatedTitle: string | undefined;
-    
-    try {
-      console.log('🔍 AI返回内容长度:', content.length);
-      console.log('🔍 AI返回内容预览:', content.substring(0, 800) + (content.length > 800 ? '...' : ''));
-      
-      // 方法1: 查找完整的JSON对象
-      const jsonMatch = content.match(/\{[\s\S]*\}/);
-      
-      if (jsonMatch) {
-        console.log('方法1: 提取的JSON字符串长度:', jsonMatch[0].length);
-        console.log('方法1: 提取的JSON字符串预览:', jsonMatch[0].substring(0, 500) + '...');
-        
-        try {
-          parsedResponse = JSON.parse(jsonMatch[0]);
-          console.log('方法1: 解析后的响应对象类型:', typeof parsedResponse);
-          console.log('方法1: 解析后的响应对象键:', Object.keys(parsedResponse));
-        } catch (jsonError) {
-          console.log('方法1失败，尝试精准修复JSON语法错误...');
-          console.log('JSON错误详情:', jsonError instanceof Error ? jsonError.message : String(jsonError));
-          
-          // 尝试基于错误信息精准修复
-          const fixedJson = fixJsonByErrorPosition(jsonMatch[0], jsonError instanceof Error ? jsonError.message : '');
-          
-          try {
-            parsedResponse = JSON.parse(fixedJson);
-            console.log('方法1: 精准修复成功，解析后的响应对象键:', Object.keys(parsedResponse));
-          } catch (secondError) {
-            console.log('精准修复失败，尝试通用修复...');
-            try {
-              const generalFixedJson = fixCommonJsonErrors(jsonMatch[0]);
-              parsedResponse = JSON.parse(generalFixedJson);
-              console.log('方法1: 通用修复成功，解析后的响应对象键:', Object.keys(parsedResponse));
-            } catch (thirdError) {
-              console.error('所有JSON修复方法都失败，使用错误恢复策略');
-              // 作为最后手段，尝试提取部分内容创建基本的outline结构
-              try {
-                const fallbackOutline = createFallbackOutline(content, documentTitle);
-                parsedResponse = fallbackOutline;
-                console.log('✅ 使用回退策略成功创建基础大纲');
-              } catch (fallbackError) {
-                throw new Error(`JSON解析完全失败: ${thirdError instanceof Error ? thirdError.message : '未知错误'}`);
-              }
-            }
-          }
-        }
-      } else {
-        // 方法2: 查找代码块中的JSON
-        const codeBlockMatch = content.match(/```(?:json)?\s*(\{[\s\S]*?\})\s*```/);
-        if (codeBlockMatch) {
-          console.log('方法2: 从代码块提取JSON:', codeBlockMatch[1]);
-          try {
-            parsedResponse = JSON.parse(codeBlockMatch[1]);
-            console.log('方法2: 解析后的响应对象:', parsedResponse);
-          } catch (jsonError) {
-            console.log('方法2失败，尝试修复JSON语法错误...');
-            try {
-              const fixedJson = fixCommonJsonErrors(codeBlockMatch[1]);
-              parsedResponse = JSON.parse(fixedJson);
-              console.log('方法2: JSON修复成功');
-            } catch (fixError) {
-              console.error('方法2: JSON修复失败:', fixError);
-              throw new Error(`代码块JSON解析失败: ${fixError instanceof Error ? fixError.message : '未知错误'}`);
-            }
-          }
-        } else {
-          // 方法3: 尝试直接解析整个内容
-          try {
-            console.log('方法3: 尝试直接解析整个内容');
-            parsedResponse = JSON.parse(content.trim());
-            console.log('方法3: 解析成功:', parsedResponse);
-          } catch (e) {
-            try {
-              console.log('方法3失败，尝试修复后解析整个内容...');
-              const fixedJson = fixCommonJsonErrors(content.trim());
-              parsedResponse = JSON.parse(fixedJson);
-              console.log('方法3: JSON修复成功');
-            } catch (e2) {
-              // 方法4: 尝试解析旧格式（数组）
-              const arrayMatch = content.match(/\[[\s\S]*\]/);
-              if (arrayMatch) {
-                console.log('方法4: 兼容旧格式，提取数组:', arrayMatch[0]);
-                try {
-                  outlineItems = JSON.parse(arrayMatch[0]);
-                  console.log('方法4: 解析后的大纲数组:', outlineItems);
-                } catch (e3) {
-                  console.log('方法4失败，尝试修复数组格式...');
-                  const fixedArrayJson = fixCommonJsonErrors(arrayMatch[0]);
-                  outlineItems = JSON.parse(fixedArrayJson);
-                  console.log('方法4: 数组JSON修复成功');
-                }
-              } else {
-                console.error('所有方法失败，尝试最后的备用方案...');
-                // 最后的备用方案1：重新构建有效的JSON
-                try {
-                  console.log('🚀 尝试重新构建JSON...');
-                  const rebuiltJson = rebuildValidJson(content);
-                  parsedResponse = JSON.parse(rebuiltJson);
-                  console.log('🚀 重新构建JSON成功');
-                } catch (e4) {
-                  // 最后的备用方案2：提取有效对象
-                  try {
-                    console.log('🔧 尝试提取有效的JSON对象...');
-                    const extractedObjects = extractValidJsonObjects(content);
-                    if (extractedObjects.length > 0) {
-                      console.log('🔧 备用方案成功：提取到', extractedObjects.length, '个有效对象');
-                      outlineItems = extractedObjects;
-                    } else {
-                      throw new Error('无法提取有效的JSON对象');
-                    }
-                  } catch (e5) {
-                    console.error('所有备用方案都失败，使用最后的文本解析方案:', e5);
-                    // 最终备用方案：直接文本解析，不依赖JSON
-                    try {
-                      outlineItems = parseOutlineFromText(content);
-                      console.log('📝 文本解析成功，提取到', outlineItems.length, '个大纲项目');
-                    } catch (e6) {
-                      console.error('文本解析也失败:', e6);
-                      throw new Error(`所有解析方法都失败了。请尝试重新上传文档或检查网络连接。`);
-                    }
-                  }
-                }
-              }
-            }
-          }
-        }
-      }
-      
-      // 处理新格式的响应
-      if (parsedResponse && parsedResponse.outline) {
-        outlineItems = parsedResponse.outline;
-        generatedTitle = parsedResponse.documentTitle;
-        console.log('提取到大纲项目:', outlineItems.length, '个');
-        if (generatedTitle) {
-          console.log('AI生成的文档标题:', generatedTitle);
-        }
-      } else if (Array.isArray(parsedResponse)) {
-        // 兼容旧格式
-        outlineItems = parsedResponse;
-        console.log('使用旧格式，大纲项目:', outlineItems.length, '个');
-      }
-      
-    } catch (parseError) {
-      console.error('❌ JSON解析失败:', parseError);
-      console.error('❌ 原始内容长度:', content.length);
-      console.error('❌ 原始内容预览:', content.substring(0, 1000));
-      console.error('❌ 详细错误信息:', parseError instanceof Error ? parseError.message : String(parseError));
-      
-      // 针对拆分文档的简化诊断
-      const isSplitDocument = documentTitle?.includes('(') || documentContent.length > 10000;
-      if (isSplitDocument) {
-        console.error('🔍 检测到这可能是拆分文档片段');
-      }
-      
-      // 尝试提供更有用的错误信息
-      let errorMessage = 'AI返回的JSON格式有误，无法解析';
-      
-      if (content.includes('```')) {
-        errorMessage += '。检测到代码块标记，可能是格式问题。';
-      }
-      
-      if (content.length === 0) {
-        errorMessage = 'AI未返回任何内容，请检查API配置和网络连接。';
-      } else if (content.length > 50000) {
-        errorMessage += '。返回内容过长，可能被截断。';
-      }
-      
-      if (content.includes('error') || content.includes('Error')) {
-        errorMessage += '。AI响应中包含错误信息。';
-      }
-      
-      if (isSplitDocument) {
-        errorMessage += '。检测到这是拆分文档片段，可能是内容复杂导致的解析问题。';
-      }
-      
-      throw new Error(errorMessage);
+    if (draft) {
+      outlineItems = draft.outline;
+      generatedTitle = draft.documentTitle;
+      console.log('✅ 大纲通过结构校验，共', outlineItems.length, '项');
+    } else {
+      ({ outlineItems, generatedTitle } = parseOutlineHeuristically(content, documentTitle, documentContent));
     }
     
     if (!Array.isArray(outlineItems)) {
@@ -1656,8 +1785,18 @@ ${!documentTitle || documentTitle === '未知文档' || documentTitle === '文
       success: true,
       outline: processedItems,
       generatedTitle, // 如果AI生成了标题，一并返回
+      contextUsage,
+      promptTemplate: outlineTemplateRef,
     };
   } catch (error) {
+    if (isAbortError(error)) {
+      return {
+        success: false,
+        outline: [],
+        error: '已取消生成大纲',
+        code: ABORTED_CODE,
+      };
+    }
     return {
       success: false,
       outline: [],
@@ -1672,7 +1811,8 @@ ${!documentTitle || documentTitle === '未知文档' || documentTitle === '文
  */
 export const summarizeCardTitle = async (
   config: APIConfig,
-  content: string
+  content: string,
+  sessionId?: string
 ): Promise<APIResponse<string>> => {
   try {
     console.log('开始生成卡片标题，内容长度:', content.length);
@@ -1694,25 +1834,27 @@ export const summarizeCardTitle = async (
     
     console.log('提取核心内容用于标题生成:', coreContent.substring(0, 50) + '...');
 
-    // 构建更精确的提示词
-    const prompt = `请为以下知识内容生成一个精确的标题：
-
-**要求**：
-1. 标题长度8-20个汉字，优先选择12-16字的完整表达
-2. 概括主要知识点或概念
-3. 使用专业术语，避免口语化
-4. 不要包含"学习"、"了解"等动词
-5. 确保标题语义完整，不要在词汇中间截断
-6. 只返回标题文字，不要其他内容
-
-**知识内容**：
-${coreContent.substring(0, 300)}
+    // 用卡片标题模板生成提示词，知识内容按token预算截取
+    const { content: titleTemplate } = resolvePromptTemplate('cardTitle');
+    const buildTitlePrompt = (knowledgeContent: string) => renderPromptTemplate(titleTemplate, {
+      content: knowledgeContent,
+      language: getLanguageLabel(getCurrentLanguage()),
+    });
 
-请直接回复标题：`;
+    const { result: response } = await runWithProviderFallback(config, (activeConfig) => {
+      const allocation = allocateTokenBudget(activeConfig, {
+        fixedPrompt: buildTitlePrompt(''),
+        completionTokens: CARD_TITLE_COMPLETION_TOKENS,
+        documentTokens: estimateTokens(coreContent),
+        documentCap: CARD_TITLE_CONTENT_MAX_TOKENS,
+      });
+      const knowledgeContent = coreContent.substring(0, charsForTokens(coreContent, allocation.document));
+      const prompt = buildTitlePrompt(knowledgeContent);
 
-    const response = await makeAPIRequest(config, [
-      { role: 'user', content: prompt }
-    ]);
+      return makeAPIRequest(activeConfig, [
+        { role: 'user', content: prompt }
+      ], undefined, allocation.completion, { operation: 'card', sessionId });
+    });
 
     let title = response.content?.trim() || '';
     
@@ -1961,65 +2103,816 @@ export const purifyCardContent = async (
 };
 
 /**
- * 发送聊天消息
- * 处理与AI私教的对话交互
+ * 挑选小节相关的学习材料（出题、提取卡片时使用）
+ * 文档较短时使用全文；否则按小节标题检索相关片段，检索不到时退回智能截取
  */
-export const sendChatMessage = async (
+const selectSectionMaterial = async (
   config: APIConfig,
-  messages: ChatMessage[],
   documentContent: string,
-  outline: any[],
-  learningLevel: 'beginner' | 'expert'
-): Promise<APIResponse<string>> => {
-  try {
-    // 智能截取学习材料内容，避免token超限
-    const truncatedDocumentContent = smartContentTruncate(documentContent, 6000); // 对话中给更多空间给其他内容
-    const isContentTruncated = truncatedDocumentContent.length < documentContent.length;
-    
-    if (isContentTruncated) {
-      console.log(`对话系统: 学习材料过长已智能截取: ${documentContent.length} -> ${truncatedDocumentContent.length} 字符`);
-    }
-    
-    // 构建系统消息
-    const systemMessage = {
-      role: 'system' as const,
-      content: `${getSystemPrompt(learningLevel)}
+  item: OutlineItem,
+  chapterTitle: string | undefined,
+  retrievalIndex: RetrievalIndex | undefined,
+  maxChars: number,
+  signal?: AbortSignal
+): Promise<string> => {
+  if (documentContent.length <= maxChars) {
+    return documentContent;
+  }
 
-当前学习材料${isContentTruncated ? '(已智能截取关键部分)' : ''}：
-${truncatedDocumentContent}
+  if (retrievalIndex && isRetrievalIndexValid(retrievalIndex, documentContent)) {
+    const passages = await retrieveRelevantPassages(documentContent, retrievalIndex, {
+      query: item.title,
+      chapterTitle,
+      config,
+      maxChars,
+      signal,
+    });
+    if (passages.length > 0) {
+      return formatRetrievedPassages(passages);
+    }
+  }
 
-学习大纲：
-${outline.map((item, index) => `${index + 1}. ${item.title}`).join('\n')}
+  return smartContentTruncate(documentContent, maxChars);
+};
 
-用户学习水平：${learningLevel === 'beginner' ? '小白' : '高手'}
+/**
+ * 为大纲中的小节生成测验
+ * 根据小节标题检索相关原文片段出题（单选、判断、简答），题目未通过校验时请模型修正一次
+ */
+export const generateChapterQuiz = async (
+  config: APIConfig,
+  documentContent: string,
+  outline: OutlineItem[],
+  itemId: string,
+  options: {
+    retrievalIndex?: RetrievalIndex;
+    learningLevel?: LearningLevel;
+    sessionId?: string;
+    signal?: AbortSignal;
+  } = {}
+): Promise<APIResponse<OutlineItemQuiz>> => {
+  const { retrievalIndex, learningLevel = 'beginner', sessionId, signal } = options;
+  const item = outline.find(outlineItem => outlineItem.id === itemId);
+  if (!item) {
+    return { success: false, error: '找不到要出题的小节' };
+  }
+  const chapter = outline.find(outlineItem => outlineItem.id === item.parentId);
 
-${isContentTruncated ? '注意：学习材料内容较长，已进行智能截取。请基于提供的关键部分进行教学，必要时可以要求用户提供更具体的问题或章节。' : ''}
+  try {
+    const buildQuizPrompt = (material: string) => t('prompts.quiz.generate', {
+      section: item.title,
+      chapterNote: chapter ? t('prompts.quiz.chapterNote', { chapter: chapter.title }) : '',
+      material,
+      multipleChoice: QUIZ_QUESTION_COUNTS.multipleChoice,
+      trueFalse: QUIZ_QUESTION_COUNTS.trueFalse,
+      shortAnswer: QUIZ_QUESTION_COUNTS.shortAnswer,
+      levelInstruction: t(learningLevel === 'beginner' ? 'prompts.quiz.beginnerLevel' : 'prompts.quiz.expertLevel'),
+    });
+
+    const { result: { data: questions, errors } } = await runWithProviderFallback(config, async (activeConfig) => {
+      const allocation = allocateTokenBudget(activeConfig, {
+        fixedPrompt: buildQuizPrompt(''),
+        completionTokens: QUIZ_COMPLETION_TOKENS,
+        documentTokens: estimateTokens(documentContent),
+        documentCap: QUIZ_DOCUMENT_MAX_TOKENS,
+      });
+      const material = await selectSectionMaterial(
+        activeConfig,
+        documentContent,
+        item,
+        chapter?.title,
+        retrievalIndex,
+        charsForTokens(documentContent, allocation.document),
+        signal
+      );
+
+      return requestValidatedJson(activeConfig, buildQuizPrompt(material), {
+        schema: QUIZ_RESPONSE_SCHEMA,
+        parse: (content) => {
+          const { questions, errors } = parseQuizQuestions(content, item.id);
+          return { data: questions, errors };
+        },
+        repairPrompt: (errorList) => t('prompts.quiz.repair', { errors: errorList }),
+        repairAttempts: QUIZ_REPAIR_ATTEMPTS,
+        maxTokens: allocation.completion,
+        usageContext: { operation: 'quiz', sessionId },
+        signal,
+      });
+    }, signal);
+
+    if (!questions) {
+      throw new Error(`测验题未通过格式校验：${errors.join('；')}`);
+    }
+
+    console.log(`📝 已为《${item.title}》生成 ${questions.length} 道测验题`);
+    return {
+      success: true,
+      data: {
+        questions,
+        createdAt: Date.now(),
+        passingScore: QUIZ_PASSING_SCORE,
+        attempts: [],
+      },
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : '生成测验失败',
+      code: isAbortError(error) ? ABORTED_CODE : undefined,
+    };
+  }
+};
+
+/**
+ * 批改一次测验
+ * 单选题和判断题在本地判分；作答了的简答题一次性交给模型按评分要点打分，未作答的简答题记0分
+ */
+export const gradeQuizAnswers = async (
+  config: APIConfig,
+  quiz: OutlineItemQuiz,
+  answers: Record<string, string>,
+  options: {
+    sessionId?: string;
+    signal?: AbortSignal;
+  } = {}
+): Promise<APIResponse<QuizAttempt>> => {
+  const { sessionId, signal } = options;
+  const shortAnswers = quiz.questions.filter(question =>
+    question.type === 'shortAnswer' && (answers[question.id] || '').trim()
+  );
+
+  try {
+    let grades: Record<string, { score: number; feedback: string }> = {};
+    if (shortAnswers.length > 0) {
+      const prompt = t('prompts.quiz.grade', {
+        items: shortAnswers.map(question => t('prompts.quiz.gradeItem', {
+          id: question.id,
+          question: question.question,
+          reference: question.referenceAnswer || '',
+          rubric: (question.rubric || []).map(point => `- ${point}`).join('\n'),
+          answer: answers[question.id].trim(),
+        })).join('\n\n'),
+      });
+      const questionIds = shortAnswers.map(question => question.id);
+
+      const { result } = await runWithProviderFallback(config, (activeConfig) => requestValidatedJson(activeConfig, prompt, {
+        schema: QUIZ_GRADING_SCHEMA,
+        parse: (content) => {
+          const { grades, errors } = parseQuizGrades(content, questionIds);
+          return { data: grades, errors };
+        },
+        repairPrompt: (errorList) => t('prompts.quiz.repair', { errors: errorList }),
+        repairAttempts: QUIZ_REPAIR_ATTEMPTS,
+        maxTokens: QUIZ_GRADING_COMPLETION_TOKENS,
+        usageContext: { operation: 'quiz', sessionId },
+        signal,
+      }), signal);
+
+      if (!result.data) {
+        throw new Error(`简答题评分未通过格式校验：${result.errors.join('；')}`);
+      }
+      grades = result.data;
+    }
+
+    const results: QuizAnswerResult[] = quiz.questions.map(question => {
+      const answer = answers[question.id] ?? '';
+      const objectiveScore = gradeObjectiveAnswer(question, answer);
+      if (objectiveScore !== null) {
+        return { questionId: question.id, answer, score: objectiveScore };
+      }
+      const grade = grades[question.id];
+      return grade
+        ? { questionId: question.id, answer, score: grade.score, feedback: grade.feedback }
+        : { questionId: question.id, answer, score: 0 };
+    });
+
+    const attempt = createQuizAttempt(quiz, results);
+    console.log(`📝 测验得分 ${attempt.score}（及格 ${quiz.passingScore}）`);
+    return { success: true, data: attempt };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : '批改测验失败',
+      code: isAbortError(error) ? ABORTED_CODE : undefined,
+    };
+  }
+};
+
+/**
+ * 小节的对话（不含系统消息），超出上限时从最近的消息往前保留
+ */
+const selectSectionMessages = (messages: ChatMessage[], itemId: string, maxTokens: number): ChatMessage[] => {
+  const sectionMessages = messages.filter(message =>
+    message.chapterId === itemId && message.role !== 'system' && message.content.trim()
+  );
+  const keptMessages: ChatMessage[] = [];
+  let transcriptTokens = 0;
+  for (const message of [...sectionMessages].reverse()) {
+    transcriptTokens += estimateTokens(message.content);
+    if (transcriptTokens > maxTokens && keptMessages.length > 0) break;
+    keptMessages.unshift(message);
+  }
+  return keptMessages;
+};
+
+/**
+ * 从学完的小节中提取复习卡片
+ * 依据本小节的对话（过长时保留最近的部分）和相关原文，生成问答卡和填空卡草稿，交给用户确认后再保存
+ */
+export const generateChapterCards = async (
+  config: APIConfig,
+  documentContent: string,
+  outline: OutlineItem[],
+  itemId: string,
+  messages: ChatMessage[],
+  options: {
+    retrievalIndex?: RetrievalIndex;
+    sessionId?: string;
+    signal?: AbortSignal;
+  } = {}
+): Promise<APIResponse<CardDraft[]>> => {
+  const { retrievalIndex, sessionId, signal } = options;
+  const item = outline.find(outlineItem => outlineItem.id === itemId);
+  if (!item) {
+    return { success: false, error: '找不到要提取卡片的小节' };
+  }
+  const chapter = outline.find(outlineItem => outlineItem.id === item.parentId);
+
+  const keptMessages = selectSectionMessages(messages, itemId, CARDS_TRANSCRIPT_MAX_TOKENS);
+  const transcript = keptMessages.length > 0
+    ? buildNumberedTranscript(keptMessages, { learner: t('prompts.memory.learner'), tutor: t('prompts.memory.tutor') })
+    : t('prompts.cards.noConversation');
+
+  try {
+    const buildCardsPrompt = (material: string) => t('prompts.cards.extract', {
+      section: item.title,
+      chapterNote: chapter ? t('prompts.quiz.chapterNote', { chapter: chapter.title }) : '',
+      min: MIN_GENERATED_CARDS,
+      max: MAX_GENERATED_CARDS,
+      material,
+      transcript,
+    });
+
+    const { result: { data: drafts, errors } } = await runWithProviderFallback(config, async (activeConfig) => {
+      const allocation = allocateTokenBudget(activeConfig, {
+        fixedPrompt: buildCardsPrompt(''),
+        completionTokens: CARDS_COMPLETION_TOKENS,
+        documentTokens: estimateTokens(documentContent),
+        documentCap: CARDS_DOCUMENT_MAX_TOKENS,
+      });
+      const material = await selectSectionMaterial(
+        activeConfig,
+        documentContent,
+        item,
+        chapter?.title,
+        retrievalIndex,
+        charsForTokens(documentContent, allocation.document),
+        signal
+      );
+
+      return requestValidatedJson(activeConfig, buildCardsPrompt(material), {
+        schema: CARD_EXTRACTION_SCHEMA,
+        parse: (content) => {
+          const { drafts, errors } = parseCardDrafts(content, keptMessages);
+          return { data: drafts, errors };
+        },
+        repairPrompt: (errorList) => t('prompts.quiz.repair', { errors: errorList }),
+        repairAttempts: QUIZ_REPAIR_ATTEMPTS,
+        maxTokens: allocation.completion,
+        usageContext: { operation: 'card', sessionId },
+        signal,
+      });
+    }, signal);
+
+    if (!drafts) {
+      throw new Error(`卡片未通过格式校验：${errors.join('；')}`);
+    }
+
+    console.log(`🃏 已从《${item.title}》提取 ${drafts.length} 张卡片草稿`);
+    return { success: true, data: drafts };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : '提取卡片失败',
+      code: isAbortError(error) ? ABORTED_CODE : undefined,
+    };
+  }
+};
+
+/**
+ * 为学完的小节生成复盘笔记
+ * 依据本小节的对话（过长时保留最近的部分）和相关原文，总结要点、学习者遇到的困难和待解决的问题
+ */
+export const generateChapterRecap = async (
+  config: APIConfig,
+  documentContent: string,
+  outline: OutlineItem[],
+  itemId: string,
+  messages: ChatMessage[],
+  options: {
+    retrievalIndex?: RetrievalIndex;
+    sessionId?: string;
+    signal?: AbortSignal;
+  } = {}
+): Promise<APIResponse<ChapterRecap>> => {
+  const { retrievalIndex, sessionId, signal } = options;
+  const item = outline.find(outlineItem => outlineItem.id === itemId);
+  if (!item) {
+    return { success: false, error: '找不到要复盘的小节' };
+  }
+  const chapter = outline.find(outlineItem => outlineItem.id === item.parentId);
+
+  const keptMessages = selectSectionMessages(messages, itemId, RECAP_TRANSCRIPT_MAX_TOKENS);
+  const transcript = keptMessages.length > 0
+    ? buildNumberedTranscript(keptMessages, { learner: t('prompts.memory.learner'), tutor: t('prompts.memory.tutor') })
+    : t('prompts.recap.noConversation');
+
+  try {
+    const buildRecapPrompt = (material: string) => t('prompts.recap.extract', {
+      section: item.title,
+      chapterNote: chapter ? t('prompts.quiz.chapterNote', { chapter: chapter.title }) : '',
+      max: MAX_RECAP_ITEMS,
+      material,
+      transcript,
+    });
+
+    const { result: { data: recap, errors } } = await runWithProviderFallback(config, async (activeConfig) => {
+      const allocation = allocateTokenBudget(activeConfig, {
+        fixedPrompt: buildRecapPrompt(''),
+        completionTokens: RECAP_COMPLETION_TOKENS,
+        documentTokens: estimateTokens(documentContent),
+        documentCap: RECAP_DOCUMENT_MAX_TOKENS,
+      });
+      const material = await selectSectionMaterial(
+        activeConfig,
+        documentContent,
+        item,
+        chapter?.title,
+        retrievalIndex,
+        charsForTokens(documentContent, allocation.document),
+        signal
+      );
+
+      return requestValidatedJson(activeConfig, buildRecapPrompt(material), {
+        schema: RECAP_RESPONSE_SCHEMA,
+        parse: (content) => {
+          const { recap, errors } = parseChapterRecap(content);
+          return { data: recap, errors };
+        },
+        repairPrompt: (errorList) => t('prompts.quiz.repair', { errors: errorList }),
+        repairAttempts: QUIZ_REPAIR_ATTEMPTS,
+        maxTokens: allocation.completion,
+        usageContext: { operation: 'recap', sessionId },
+        signal,
+      });
+    }, signal);
+
+    if (!recap) {
+      throw new Error(`复盘笔记未通过格式校验：${errors.join('；')}`);
+    }
+
+    console.log(`📒 已生成《${item.title}》的复盘笔记`);
+    return { success: true, data: { ...recap, outlineItemId: itemId, createdAt: Date.now() } };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : '生成复盘笔记失败',
+      code: isAbortError(error) ? ABORTED_CODE : undefined,
+    };
+  }
+};
+
+/**
+ * 从学习材料中提取术语表（生成大纲后调用）
+ * 学习材料过长时智能截取；术语和定义依据的原文片段在原文中核实，未通过校验时请模型修正一次
+ */
+export const generateGlossary = async (
+  config: APIConfig,
+  documentContent: string,
+  outline: OutlineItem[],
+  options: {
+    sessionId?: string;
+    signal?: AbortSignal;
+  } = {}
+): Promise<APIResponse<GlossaryTerm[]>> => {
+  const { sessionId, signal } = options;
+
+  try {
+    const outlineText = outline.map(item => `[${item.id}] ${item.title}`).join('\n');
+    const buildGlossaryPrompt = (material: string) => t('prompts.glossary.extract', {
+      min: MIN_GLOSSARY_TERMS,
+      max: MAX_GLOSSARY_TERMS,
+      outline: outlineText,
+      material,
+    });
+
+    const { result: { data: terms, errors } } = await runWithProviderFallback(config, async (activeConfig) => {
+      const allocation = allocateTokenBudget(activeConfig, {
+        fixedPrompt: buildGlossaryPrompt(''),
+        completionTokens: GLOSSARY_COMPLETION_TOKENS,
+        documentTokens: estimateTokens(documentContent),
+        documentCap: GLOSSARY_DOCUMENT_MAX_TOKENS,
+      });
+      const material = smartContentTruncate(documentContent, charsForTokens(documentContent, allocation.document));
+
+      return requestValidatedJson(activeConfig, buildGlossaryPrompt(material), {
+        schema: GLOSSARY_RESPONSE_SCHEMA,
+        parse: (content) => {
+          const { terms, errors } = parseGlossaryTerms(content, documentContent, outline);
+          return { data: terms, errors };
+        },
+        repairPrompt: (errorList) => t('prompts.quiz.repair', { errors: errorList }),
+        repairAttempts: QUIZ_REPAIR_ATTEMPTS,
+        maxTokens: allocation.completion,
+        usageContext: { operation: 'glossary', sessionId },
+        signal,
+      });
+    }, signal);
+
+    if (!terms) {
+      throw new Error(`术语表未通过格式校验：${errors.join('；')}`);
+    }
+
+    console.log(`📖 已提取 ${terms.length} 个术语`);
+    return { success: true, data: terms };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : '提取术语表失败',
+      code: isAbortError(error) ? ABORTED_CODE : undefined,
+    };
+  }
+};
 
-请严格按照上述要求进行教学指导。`,
+/**
+ * 从学习材料中提取概念及其关系，用于生成概念图
+ * 概念挂到大纲的小节下，已有术语表时作为候选概念提供给模型；未通过校验时请模型修正一次
+ */
+export const generateConceptMap = async (
+  config: APIConfig,
+  documentContent: string,
+  outline: OutlineItem[],
+  options: {
+    glossaryTerms?: GlossaryTerm[];
+    sessionId?: string;
+    signal?: AbortSignal;
+  } = {}
+): Promise<APIResponse<Omit<ConceptMap, 'createdAt'>>> => {
+  const { glossaryTerms = [], sessionId, signal } = options;
+
+  try {
+    const outlineText = outline.map(item => `[${item.id}] ${item.title}`).join('\n');
+    const termsText = glossaryTerms.length > 0
+      ? t('prompts.conceptMap.terms', { terms: glossaryTerms.map(term => term.term).join('、') })
+      : '';
+    const buildConceptMapPrompt = (material: string) => t('prompts.conceptMap.extract', {
+      min: MIN_CONCEPTS,
+      max: MAX_CONCEPTS,
+      outline: outlineText,
+      terms: termsText,
+      material,
+    });
+
+    const { result: { data: conceptMap, errors } } = await runWithProviderFallback(config, async (activeConfig) => {
+      const allocation = allocateTokenBudget(activeConfig, {
+        fixedPrompt: buildConceptMapPrompt(''),
+        completionTokens: CONCEPT_MAP_COMPLETION_TOKENS,
+        documentTokens: estimateTokens(documentContent),
+        documentCap: CONCEPT_MAP_DOCUMENT_MAX_TOKENS,
+      });
+      const material = smartContentTruncate(documentContent, charsForTokens(documentContent, allocation.document));
+
+      return requestValidatedJson(activeConfig, buildConceptMapPrompt(material), {
+        schema: CONCEPT_MAP_RESPONSE_SCHEMA,
+        parse: (content) => {
+          const { conceptMap, errors } = parseConceptMap(content, outline);
+          return { data: conceptMap, errors };
+        },
+        repairPrompt: (errorList) => t('prompts.quiz.repair', { errors: errorList }),
+        repairAttempts: QUIZ_REPAIR_ATTEMPTS,
+        maxTokens: allocation.completion,
+        usageContext: { operation: 'conceptMap', sessionId },
+        signal,
+      });
+    }, signal);
+
+    if (!conceptMap) {
+      throw new Error(`概念图未通过格式校验：${errors.join('；')}`);
+    }
+
+    console.log(`🗺️ 已提取 ${conceptMap.concepts.length} 个概念、${conceptMap.relations.length} 条关系`);
+    return { success: true, data: conceptMap };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : '生成概念图失败',
+      code: isAbortError(error) ? ABORTED_CODE : undefined,
     };
+  }
+};
+
+/**
+ * 构建对话请求的消息列表
+ * 用会话的私教模板渲染系统消息（学习材料、大纲等作为模板变量），附上进度标记和引用说明，再附上历史对话
+ */
+const buildChatMessages = (
+  messages: ChatMessage[],
+  documentContent: string,
+  outline: any[],
+  learningLevel: 'beginner' | 'expert',
+  context: {
+    retrievedContext?: string | null;
+    /** 按片段编号的完整学习材料（文档能完整放入上下文时使用） */
+    numberedDocument?: string | null;
+    /** 学习材料中带编号、可供引用的片段 */
+    citablePassages?: RetrievedPassage[];
+    conversationSummary?: string | null;
+    /** 学习材料可用的最大字符数（由token预算换算），不传则不截取 */
+    documentMaxChars?: number;
+    /** 界面记录的当前小节ID */
+    currentChapterId?: string;
+    /** 私教模板版本 */
+    promptTemplate?: PromptTemplateRef;
+    /** 当前小节难度（0-1） */
+    difficulty?: number;
+  } = {}
+): Array<{ role: string; content: string }> => {
+  const { retrievedContext, numberedDocument, citablePassages = [], conversationSummary, documentMaxChars = documentContent.length, currentChapterId, difficulty } = context;
+  // 学习者模型调整过难度时，按难度决定讲解的学习水平
+  const level = difficulty === undefined ? learningLevel : getLevelForDifficulty(difficulty);
+  // 优先使用检索到的相关片段；没有检索结果时智能截取学习材料内容，避免token超限
+  const truncatedDocumentContent = retrievedContext || numberedDocument ||
+    (documentMaxChars > 0 ? smartContentTruncate(documentContent, documentMaxChars) : '');
+  const isContentTruncated = !numberedDocument && truncatedDocumentContent.length < documentContent.length;
+  
+  if (retrievedContext) {
+    console.log(`对话系统: 已按当前章节和问题检索学习材料: ${documentContent.length} -> ${retrievedContext.length} 字符`);
+  } else if (isContentTruncated) {
+    console.log(`对话系统: 学习材料过长已智能截取: ${documentContent.length} -> ${truncatedDocumentContent.length} 字符`);
+  }
+  
+  // 用私教模板构建系统消息，进度标记说明是界面依赖的协议，始终附在最后
+  const { content: template } = resolvePromptTemplate('tutor', context.promptTemplate);
+  const systemPrompt = renderPromptTemplate(template, {
+    document: truncatedDocumentContent,
+    documentLabel: retrievedContext
+      ? t('prompts.tutor.retrievedLabel')
+      : isContentTruncated ? t('prompts.tutor.truncatedLabel') : '',
+    documentNotice: retrievedContext
+      ? t('prompts.tutor.retrievedNotice')
+      : isContentTruncated ? t('prompts.tutor.truncatedNotice') : '',
+    outline: outline.map((item, index) => `${index + 1}. [${item.id}] ${item.title}`).join('\n'),
+    level: level === 'beginner' ? t('common.beginner') : t('common.expert'),
+    levelId: level,
+    language: getLanguageLabel(getCurrentLanguage()),
+    conversationSummary,
+  });
+  const systemMessage = {
+    role: 'system' as const,
+    content: `${systemPrompt}
 
-    // 转换消息格式
-    const apiMessages = [
-      systemMessage,
-      ...messages.map(msg => ({
-        role: msg.role,
-        content: msg.content,
-      }))
-    ];
-
-    const response = await makeAPIRequest(config, apiMessages);
-    
-    // 清理AI回复中的多余空白和格式问题
-    let cleanedContent = response.content || '';
-    
-    // 移除多余的空白字符和空行
-    cleanedContent = cleanedContent
-      .replace(/\s{3,}/g, ' ')           // 将3个以上的连续空格替换为1个空格
-      .replace(/\n\s*\n\s*\n/g, '\n\n') // 将3个以上的连续空行替换为2个空行
-      .replace(/^\s+/gm, '')            // 移除每行开头的空白
-      .replace(/\s+$/gm, '')            // 移除每行结尾的空白
-      .replace(/\n{4,}/g, '\n\n\n')     // 限制最多3个连续换行
-      .trim();                          // 移除开头和结尾的空白
+${buildProgressInstructions(outline, currentChapterId)}${difficulty !== undefined ? `
+
+${buildDifficultyInstructions(difficulty)}` : ''}${citablePassages.length > 0 ? `
+
+${buildCitationInstructions(citablePassages)}` : ''}`,
+  };
+
+  // 转换消息格式
+  return [
+    systemMessage,
+    ...messages.map(msg => ({
+      role: msg.role,
+      content: msg.content,
+    }))
+  ];
+};
+
+/**
+ * 准备对话请求消息
+ * - 按模型上下文窗口在系统提示词、学习材料、对话历史和回复之间分配token
+ * - 长文档先检索与当前章节和最新问题相关的片段，检索失败时退回智能截取
+ * - 学习材料按片段编号发送，返回可供私教引用的片段（智能截取时没有编号，不支持引用）
+ * - 对话历史使用章节摘要 + 最近几轮原文，并控制在分配到的历史预算内
+ */
+const prepareChatMessages = async (
+  config: APIConfig,
+  messages: ChatMessage[],
+  documentContent: string,
+  outline: any[],
+  learningLevel: 'beginner' | 'expert',
+  context: ChatContextOptions = {},
+  signal?: AbortSignal
+): Promise<{
+  apiMessages: Array<{ role: string; content: string }>;
+  maxTokens: number;
+  contextUsage: ContextUsage;
+  citablePassages: RetrievedPassage[];
+}> => {
+  // 以不含学习材料和历史的系统提示词估算固定开销
+  const fixedPrompt = buildChatMessages([], '', outline, learningLevel, {
+    currentChapterId: context.currentChapterId,
+    promptTemplate: context.promptTemplate,
+    difficulty: context.difficulty,
+  })[0].content;
+  const documentTokens = estimateTokens(documentContent);
+  const historyTokens = estimateMessagesTokens(messages);
+  const allocation = allocateTokenBudget(config, {
+    fixedPrompt,
+    completionTokens: CHAT_COMPLETION_TOKENS,
+    documentTokens,
+    documentCap: CHAT_DOCUMENT_MAX_TOKENS,
+    historyTokens,
+    historyCap: CHAT_HISTORY_MAX_TOKENS,
+  });
+  const documentMaxChars = charsForTokens(documentContent, allocation.document);
+
+  let retrievedContext: string | null = null;
+  let citablePassages: RetrievedPassage[] = [];
+  try {
+    const retrieved = await buildRetrievedContext(
+      documentContent, messages, outline, context.retrievalIndex, context.currentChapterId, config, documentMaxChars, signal
+    );
+    if (retrieved) {
+      retrievedContext = retrieved.context;
+      citablePassages = retrieved.passages;
+    }
+  } catch (error) {
+    if (isAbortError(error) || signal?.aborted) throw createAbortError();
+    console.warn('⚠️ 文档检索失败，改用智能截取:', error);
+  }
+
+  // 文档能完整放入上下文时同样按片段编号，编号后的长度仍须在预算内
+  let numberedDocument: string | null = null;
+  if (!retrievedContext && documentContent.length <= documentMaxChars && isRetrievalIndexValid(context.retrievalIndex, documentContent)) {
+    const allPassages = getAllPassages(documentContent, context.retrievalIndex!);
+    const formatted = formatRetrievedPassages(allPassages);
+    if (allPassages.length > 0 && formatted.length <= documentMaxChars) {
+      numberedDocument = formatted;
+      citablePassages = allPassages;
+    }
+  }
+
+  const { summaryText, recentMessages, omittedCount, omittedTokens } = buildConversationHistory(
+    messages, context.conversationMemory, allocation.history
+  );
+
+  const apiMessages = buildChatMessages(recentMessages, documentContent, outline, learningLevel, {
+    retrievedContext,
+    numberedDocument,
+    citablePassages,
+    conversationSummary: summaryText,
+    documentMaxChars,
+    currentChapterId: context.currentChapterId,
+    promptTemplate: context.promptTemplate,
+    difficulty: context.difficulty,
+  });
+
+  // 记录被裁剪的内容，供界面提示
+  const trimmed: ContextTrimReport[] = [];
+  if (documentMaxChars < documentContent.length) {
+    trimmed.push({
+      part: 'document',
+      originalTokens: documentTokens,
+      keptTokens: estimateTokens(retrievedContext || smartContentTruncate(documentContent, documentMaxChars)),
+      note: retrievedContext ? t('contextBudget.retrieved') : undefined,
+    });
+  }
+  if (omittedCount > 0) {
+    trimmed.push({
+      part: 'history',
+      originalTokens: historyTokens,
+      keptTokens: Math.max(0, historyTokens - omittedTokens),
+      note: t('contextBudget.omittedMessages', { count: omittedCount }),
+    });
+  }
+
+  const contextUsage = createContextUsage(allocation, estimateMessagesTokens(apiMessages), trimmed);
+  console.log('📐 对话上下文预算:', { ...allocation, promptTokens: contextUsage.promptTokens, trimmed });
+
+  return { apiMessages, maxTokens: allocation.completion, contextUsage, citablePassages };
+};
+
+/**
+ * 更新对话记忆
+ * 将最近几轮之前、尚未摘要的对话按章节压缩进摘要；没有需要压缩的内容时原样返回
+ */
+export const updateConversationMemory = async (
+  config: APIConfig,
+  messages: ChatMessage[],
+  memory: ConversationMemory | undefined,
+  outline: OutlineItem[],
+  signal?: AbortSignal,
+  sessionId?: string
+): Promise<APIResponse<ConversationMemory | undefined>> => {
+  // 对话历史被修改导致记忆失效时，从头重新摘要
+  const baseMemory = isConversationMemoryValid(messages, memory) ? memory : undefined;
+  // 单批对话的token上限：受模型窗口限制，并为已有摘要预留空间
+  const allocation = allocateTokenBudget(config, {
+    fixedPrompt: t('prompts.memory.system'),
+    completionTokens: MEMORY_SUMMARY_COMPLETION_TOKENS,
+    documentTokens: MEMORY_TRANSCRIPT_MAX_TOKENS,
+  });
+  const transcriptBudget = Math.max(500, allocation.document - MEMORY_PREVIOUS_SUMMARY_TOKENS);
+  const pending = getMessagesToSummarize(messages, baseMemory, outline, transcriptBudget);
+  if (!pending) {
+    return { success: true, data: baseMemory };
+  }
+  const { groups } = pending;
+
+  try {
+    const updates = [];
+    for (const group of groups) {
+      const previousSummary = baseMemory?.summaries.find(s => (s.chapterId || '') === (group.chapterId || ''))?.content;
+      const transcript = group.messages
+        .map(m => `${m.role === 'user' ? t('prompts.memory.learner') : t('prompts.memory.tutor')}: ${m.content}`)
+        .join('\n\n');
+
+      const { result: response } = await runWithProviderFallback(config, (activeConfig) => makeAPIRequest(activeConfig, [
+        {
+          role: 'system',
+          content: t('prompts.memory.system'),
+        },
+        {
+          role: 'user',
+          content: t('prompts.memory.request', {
+            chapter: group.chapterTitle,
+            previous: previousSummary ? t('prompts.memory.previousSummary', { summary: previousSummary }) : '',
+            transcript,
+            mergeHint: previousSummary ? t('prompts.memory.mergeHint') : '',
+          }),
+        },
+      ], signal, MEMORY_SUMMARY_COMPLETION_TOKENS, { operation: 'memory', sessionId }), signal);
+
+      const content = response.content.trim();
+      if (!content) {
+        throw new Error(`《${group.chapterTitle}》的对话摘要为空`);
+      }
+      updates.push({
+        chapterId: group.chapterId,
+        chapterTitle: group.chapterTitle,
+        content,
+        messageCount: group.messages.length,
+      });
+    }
+
+    console.log(`🧠 对话记忆已更新: ${groups.reduce((sum, g) => sum + g.messages.length, 0)} 条消息压缩为 ${updates.length} 个章节摘要`);
+    return {
+      success: true,
+      data: mergeChapterSummaries(baseMemory, updates, pending.lastMessageId),
+    };
+  } catch (error) {
+    console.warn('⚠️ 对话记忆更新失败，下次对话时重试:', error);
+    return {
+      success: false,
+      data: baseMemory,
+      error: error instanceof Error ? error.message : '对话记忆更新失败',
+      code: isAbortError(error) ? ABORTED_CODE : undefined,
+    };
+  }
+};
+
+/**
+ * 清理AI回复中的多余空白和格式问题
+ */
+const cleanChatReply = (content: string): string => {
+  return content
+    .replace(/\s{3,}/g, ' ')           // 将3个以上的连续空格替换为1个空格
+    .replace(/\n\s*\n\s*\n/g, '\n\n') // 将3个以上的连续空行替换为2个空行
+    .replace(/^\s+/gm, '')            // 移除每行开头的空白
+    .replace(/\s+$/gm, '')            // 移除每行结尾的空白
+    .replace(/\n{4,}/g, '\n\n\n')     // 限制最多3个连续换行
+    .trim();                          // 移除开头和结尾的空白
+};
+
+/**
+ * 发送聊天消息
+ * 处理与AI私教的对话交互，传入 context 时启用文档检索和对话记忆；
+ * 主服务商失败时切换到备用服务商，并按其模型窗口重新组装上下文
+ */
+export const sendChatMessage = async (
+  config: APIConfig,
+  messages: ChatMessage[],
+  documentContent: string,
+  outline: any[],
+  learningLevel: 'beginner' | 'expert',
+  signal?: AbortSignal,
+  context?: ChatContextOptions
+): Promise<APIResponse<string>> => {
+  try {
+    const { result: { response, contextUsage, citablePassages }, answeredBy } = await runWithProviderFallback(config, async (activeConfig) => {
+      const { apiMessages, maxTokens, contextUsage, citablePassages } = await prepareChatMessages(
+        activeConfig, messages, documentContent, outline, learningLevel, context, signal
+      );
+      const response = await makeAPIRequest(activeConfig, apiMessages, signal, maxTokens, {
+        operation: 'chat',
+        sessionId: context?.sessionId,
+      });
+      return { response, contextUsage, citablePassages };
+    }, signal);
+    
+    const { text, progress } = extractChapterProgress(response.content || '', outline);
+    const cleanedContent = cleanChatReply(text);
     
     console.log('AI回复清理前长度:', response.content?.length || 0);
     console.log('AI回复清理后长度:', cleanedContent.length);
@@ -2027,28 +2920,173 @@ ${isContentTruncated ? '注意：学习材料内容较长，已进行智能截
     return {
       success: true,
       data: cleanedContent,
+      contextUsage,
+      answeredBy,
+      progress: progress || undefined,
+      citations: extractCitations(cleanedContent, citablePassages),
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : '发送消息失败',
+      code: isAbortError(error) ? ABORTED_CODE : undefined,
+    };
+  }
+};
+
+/**
+ * 流式发送聊天消息
+ * 与 sendChatMessage 使用相同的提示词，但边生成边通过 onDelta 回调增量文本，
+ * 用于逐字渲染私教回复。失败或被取消时若已收到部分内容，会通过 data 一并返回；
+ * 只有在尚未输出任何内容时才会切换到备用服务商。
+ * 回调和返回的文本均已去掉进度标记，进度信号通过 progress 返回
+ */
+export const sendChatMessageStream = async (
+  config: APIConfig,
+  messages: ChatMessage[],
+  documentContent: string,
+  outline: any[],
+  learningLevel: 'beginner' | 'expert',
+  onDelta: (delta: string, accumulated: string) => void,
+  signal?: AbortSignal,
+  context?: ChatContextOptions
+): Promise<APIResponse<string>> => {
+  let accumulated = '';
+  // 已回调给界面的文本（不含进度标记）
+  let visible = '';
+  let contextUsage: ContextUsage | undefined;
+  // 本轮发送给私教、可供引用的学习材料片段
+  let citablePassages: RetrievedPassage[] = [];
+  // 当前正在请求的服务商，失败且已有部分内容时用于标注回答来源
+  let answeredBy: AnsweredBy | undefined;
+
+  try {
+    const result = await runWithProviderFallback(config, async (activeConfig, isFallback) => {
+      const prepared = await prepareChatMessages(
+        activeConfig, messages, documentContent, outline, learningLevel, context, signal
+      );
+      contextUsage = prepared.contextUsage;
+      citablePassages = prepared.citablePassages;
+      answeredBy = toAnsweredBy(activeConfig, isFallback);
+
+      await makeStreamingAPIRequest(activeConfig, prepared.apiMessages, (delta) => {
+        accumulated += delta;
+        const nextVisible = stripProgressEnvelope(accumulated);
+        if (nextVisible !== visible) {
+          onDelta(nextVisible.startsWith(visible) ? nextVisible.slice(visible.length) : nextVisible, nextVisible);
+          visible = nextVisible;
+        }
+      }, signal, prepared.maxTokens, { operation: 'chat', sessionId: context?.sessionId });
+    }, signal, () => accumulated.length === 0);
+
+    const { text, progress } = extractChapterProgress(accumulated, outline);
+    const reply = cleanChatReply(text);
+    return {
+      success: true,
+      data: reply,
+      contextUsage,
+      answeredBy: result.answeredBy,
+      progress: progress || undefined,
+      citations: extractCitations(reply, citablePassages),
     };
   } catch (error) {
+    const aborted = isAbortError(error);
+    if (aborted) {
+      console.log('⏹️ 流式对话已被用户停止，已接收长度:', accumulated.length);
+    } else {
+      console.error('流式对话失败，已接收长度:', accumulated.length, error);
+    }
+    const partialReply = visible ? cleanChatReply(visible) : undefined;
     return {
       success: false,
+      data: partialReply,
       error: error instanceof Error ? error.message : '发送消息失败',
+      code: aborted ? ABORTED_CODE : undefined,
+      contextUsage,
+      answeredBy: visible ? answeredBy : undefined,
+      citations: partialReply ? extractCitations(partialReply, citablePassages) : undefined,
     };
   }
 };
 
+/**
+ * 请求被取消时返回的错误代码
+ */
+export const ABORTED_CODE = 'ABORTED';
+
+/**
+ * 创建“请求已取消”错误，与浏览器原生的 AbortError 同名，便于统一判断
+ */
+const createAbortError = (): Error => {
+  const error = new Error('请求已取消');
+  error.name = 'AbortError';
+  return error;
+};
+
+/**
+ * 判断错误是否由取消请求引起
+ */
+export const isAbortError = (error: unknown): boolean => {
+  return error instanceof Error && error.name === 'AbortError';
+};
+
+/**
+ * 将外部的取消信号转发到内部的 AbortController
+ * 返回解除监听的函数，请求结束后需要调用
+ */
+const forwardAbortSignal = (controller: AbortController, signal?: AbortSignal): (() => void) => {
+  if (!signal) return () => {};
+  if (signal.aborted) {
+    controller.abort();
+    return () => {};
+  }
+  const onAbort = () => controller.abort();
+  signal.addEventListener('abort', onAbort);
+  return () => signal.removeEventListener('abort', onAbort);
+};
+
+/**
+ * 可取消的等待，用于重试之间的退避
+ */
+const abortableDelay = (ms: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+};
+
 /**
  * 带重试机制的API请求函数
- * 处理大文档解析时的网络超时和服务错误
+ * 处理大文档解析时的网络超时和服务错误，取消信号会同时中止进行中的请求和退避等待
  */
 const makeAPIRequestWithRetry = async (
   config: APIConfig,
   messages: Array<{ role: string; content: string }>,
   maxRetries: number = 3,
-  retryDelay: number = 2000
+  retryDelay: number = 2000,
+  signal?: AbortSignal,
+  maxTokens?: number,
+  usageContext?: UsageContext,
+  responseSchema?: StructuredOutputSchema
 ): Promise<{ content: string }> => {
   let lastError: Error | null = null;
   
   for (let attempt = 1; attempt <= maxRetries; attempt++) {
+    if (signal?.aborted) {
+      throw createAbortError();
+    }
+
     try {
       console.log(`📡 API请求尝试 ${attempt}/${maxRetries}`, {
         provider: config.provider,
@@ -2056,11 +3094,16 @@ const makeAPIRequestWithRetry = async (
         messageLength: messages[0]?.content?.length || 0
       });
       
-      const result = await makeAPIRequest(config, messages);
+      const result = await makeAPIRequest(config, messages, signal, maxTokens, usageContext, responseSchema);
       console.log(`✅ API请求第${attempt}次尝试成功`);
       return result;
       
     } catch (error) {
+      // 用户主动取消，不再重试
+      if (isAbortError(error)) {
+        throw error;
+      }
+
       lastError = error instanceof Error ? error : new Error(String(error));
       console.warn(`⚠️ API请求第${attempt}次尝试失败:`, {
         attempt,
@@ -2093,7 +3136,7 @@ const makeAPIRequestWithRetry = async (
       // 计算延迟时间（指数退避）
       const delay = retryDelay * Math.pow(2, attempt - 1);
       console.log(`⏳ 等待 ${delay}ms 后重试...`);
-      await new Promise(resolve => setTimeout(resolve, delay));
+      await abortableDelay(delay, signal);
     }
   }
   
@@ -2102,104 +3145,227 @@ const makeAPIRequestWithRetry = async (
 };
 
 /**
- * 通用API请求处理函数
- * 处理不同AI服务商的API调用差异
+ * 获取服务商适配器，未注册时抛出错误
  */
-const makeAPIRequest = async (
+const resolveProviderAdapter = (config: APIConfig): AIProviderAdapter => {
+  const adapter = getProviderAdapter(config.provider);
+  if (!adapter) {
+    throw new Error(`不支持的AI服务提供商: ${config.provider}`);
+  }
+  return adapter;
+};
+
+/**
+ * 获取按优先级排列的服务商配置：主配置在前，备用配置按用户设置的顺序排列
+ */
+const getProviderChain = (config: APIConfig): APIConfig[] => {
+  const { fallbacks = [], ...primary } = config;
+  return [
+    primary,
+    ...fallbacks.map(({ fallbacks: _nested, ...fallback }) => ({ ...fallback, useProxy: primary.useProxy })),
+  ];
+};
+
+/**
+ * 生成服务商配置的显示名称，如“DeepSeek · deepseek-chat”
+ */
+export const describeProviderConfig = (config: Pick<APIConfig, 'provider' | 'model'>): string => {
+  const adapter = getProviderAdapter(config.provider);
+  return `${adapter?.name || config.provider} · ${config.model || adapter?.defaultModel || '默认模型'}`;
+};
+
+/**
+ * 生成回答来源信息
+ */
+const toAnsweredBy = (config: APIConfig, isFallback: boolean): AnsweredBy => ({
+  provider: config.provider,
+  model: config.model || getProviderAdapter(config.provider)?.defaultModel || '',
+  isFallback,
+});
+
+/**
+ * 依次使用主服务商和备用服务商执行请求
+ * 当前服务商失败（包括重试耗尽）时切换到下一个；用户取消、或 canFailOver 返回 false
+ * （如流式回复已经输出了部分内容）时不再切换。只有一个服务商时原样抛出错误
+ */
+const runWithProviderFallback = async <T>(
   config: APIConfig,
-  messages: Array<{ role: string; content: string }>
-): Promise<{ content: string }> => {
-  const provider = AI_PROVIDERS[config.provider];
-  const baseUrl = config.baseUrl || provider.baseUrl;
-  const model = config.model || provider.defaultModel;
+  request: (activeConfig: APIConfig, isFallback: boolean) => Promise<T>,
+  signal?: AbortSignal,
+  canFailOver: () => boolean = () => true
+): Promise<{ result: T; answeredBy: AnsweredBy }> => {
+  const chain = getProviderChain(config);
+  const failures: string[] = [];
+
+  for (let index = 0; index < chain.length; index++) {
+    const activeConfig = chain[index];
+    try {
+      const result = await request(activeConfig, index > 0);
+      if (index > 0) {
+        console.log(`🔀 已由备用服务商完成请求: ${describeProviderConfig(activeConfig)}`);
+      }
+      return { result, answeredBy: toAnsweredBy(activeConfig, index > 0) };
+    } catch (error) {
+      if (isAbortError(error) || signal?.aborted) {
+        throw error;
+      }
+      const message = error instanceof Error ? error.message : String(error);
+      failures.push(`${describeProviderConfig(activeConfig)}：${message}`);
 
-  const url = `${baseUrl}${provider.chatEndpoint}`;
-  
-  // 构建请求头
-  const headers: Record<string, string> = {
-    'Content-Type': 'application/json',
+      const next = chain[index + 1];
+      if (chain.length === 1 || !canFailOver()) {
+        throw error;
+      }
+      if (!next) {
+        throw new Error(`所有服务商均请求失败：\n${failures.join('\n')}`);
+      }
+      console.warn(`⚠️ ${describeProviderConfig(activeConfig)} 请求失败，切换到备用服务商 ${describeProviderConfig(next)}:`, message);
+    }
+  }
+
+  throw new Error('未配置可用的AI服务商');
+};
+
+/**
+ * 构建服务商请求
+ * 通过服务商适配器生成请求地址、请求头和请求体（普通请求与流式请求共用）；
+ * 代理模式下改为发往本站的AI代理，由服务端附上密钥，响应格式不变
+ */
+const buildProviderRequest = (
+  config: APIConfig,
+  messages: Array<{ role: string; content: string }>,
+  stream: boolean = false,
+  maxTokens: number = DEFAULT_COMPLETION_TOKENS,
+  responseSchema?: StructuredOutputSchema
+) => {
+  const adapter = resolveProviderAdapter(config);
+  const options = {
+    stream,
+    maxTokens,
+    temperature: 0.7,
+    responseSchema,
   };
 
-  // 根据不同服务商设置认证头
-  switch (config.provider) {
-    case 'openai':
-    case 'deepseek':
-    case 'kimi':
-      headers['Authorization'] = `Bearer ${config.apiKey}`;
-      break;
-    case 'openrouter':
-      headers['Authorization'] = `Bearer ${config.apiKey}`;
-      headers['HTTP-Referer'] = 'http://localhost:3003'; 
-      headers['X-Title'] = 'AI Learning Platform'; 
-      break;
-    case 'claude':
-      headers['x-api-key'] = config.apiKey;
-      headers['anthropic-version'] = '2023-06-01';
-      break;
-    case 'gemini':
-      headers['X-goog-api-key'] = config.apiKey;
-      break;
+  if (isProxyMode(config)) {
+    const model = config.model || adapter.defaultModel;
+    return { adapter, model, ...buildProxyRequest(config, messages, options) };
   }
+  return { adapter, ...buildProviderHttpRequest(adapter, config, messages, options) };
+};
 
-  // 构建请求体
-  let requestBody: any;
-  
-  switch (config.provider) {
-    case 'openai':
-    case 'deepseek':
-    case 'kimi':
-      requestBody = {
-        model,
-        messages,
-        max_tokens: 2000,
-        temperature: 0.7,
-      };
-      break;
-    
-    case 'openrouter':
-      requestBody = {
-        model,
-        messages,
-        max_tokens: 2000,
-        temperature: 0.7,
-      };
-      break;
-    
-    case 'claude':
-      requestBody = {
-        model,
-        max_tokens: 2000,
-        messages: messages.filter(m => m.role !== 'system'),
-        system: messages.find(m => m.role === 'system')?.content,
-      };
-      break;
-    
-    case 'gemini':
-      requestBody = {
-        contents: messages
-          .filter(m => m.role !== 'system')
-          .map(m => ({
-            parts: [{ text: m.content }],
-            role: m.role === 'assistant' ? 'model' : 'user',
-          })),
-      };
-      
-      // 如果有系统消息，添加到请求体中
-      const systemMessage = messages.find(m => m.role === 'system');
-      if (systemMessage) {
-        requestBody.systemInstruction = {
-          parts: [{ text: systemMessage.content }],
-        };
-      }
-      
-      // 添加生成配置
-      requestBody.generationConfig = {
-        maxOutputTokens: 2000,
-        temperature: 0.7,
-      };
-      break;
+/**
+ * 记录一次请求的token用量
+ * 服务商未返回用量时按文本长度估算；记录失败不影响请求结果
+ */
+const trackUsage = (
+  config: APIConfig,
+  model: string,
+  messages: Array<{ role: string; content: string }>,
+  content: string,
+  usage: TokenUsage | null,
+  usageContext?: UsageContext
+) => {
+  if (!usageContext) return;
+  try {
+    recordUsage(
+      config.provider,
+      model,
+      usageContext,
+      usage || {
+        promptTokens: estimateMessagesTokens(messages),
+        completionTokens: estimateTokens(content),
+      },
+      !usage
+    );
+  } catch (error) {
+    console.warn('⚠️ 记录AI用量失败:', error);
+  }
+};
+
+/** 离线回复按流式输出时每次发送的字符数 */
+const OFFLINE_STREAM_CHUNK_CHARS = 12;
+
+/** 离线回复按流式输出时每段之间的间隔（毫秒），模拟真实的打字效果 */
+const OFFLINE_STREAM_INTERVAL_MS = 20;
+
+/**
+ * 不经网络生成回复，需要请求服务商时返回 null
+ * - 回放模式：返回录制的回复，没有录到时由模拟服务商生成，始终不请求服务商
+ * - 服务商自身在本地生成回复（模拟服务商）
+ * 离线回复按模拟服务商记录用量（不产生费用）
+ */
+const respondOffline = async (
+  config: APIConfig,
+  messages: Array<{ role: string; content: string }>,
+  options: ProviderRequestOptions,
+  usageContext?: UsageContext
+): Promise<{ content: string } | null> => {
+  const replaying = getFixtureMode() === 'replay';
+  const recorded = replaying ? findRecordedExchange(messages, options.responseSchema) : null;
+  const adapter = replaying ? getProviderAdapter(MOCK_PROVIDER_ID) : resolveProviderAdapter(config);
+  if (!recorded && !adapter?.respond) {
+    return null;
+  }
+
+  const content = recorded ? recorded.content : await adapter.respond(messages, options, config);
+  console.log(recorded ? '🎞️ 回放录制的AI回复:' : '🧪 模拟服务商生成回复:', {
+    provider: config.provider,
+    operation: options.operation,
+    schema: options.responseSchema?.name,
+    length: content.length,
+  });
+  trackUsage({ ...config, provider: MOCK_PROVIDER_ID }, recorded?.model || adapter.defaultModel, messages, content, null, usageContext);
+  return { content };
+};
+
+/**
+ * 录制模式下保存一次成功的交互，录制失败不影响请求结果
+ */
+const recordIfEnabled = (
+  config: APIConfig,
+  model: string,
+  messages: Array<{ role: string; content: string }>,
+  content: string,
+  usageContext?: UsageContext,
+  responseSchema?: StructuredOutputSchema
+) => {
+  if (getFixtureMode() !== 'record' || !content) return;
+  recordExchange({
+    provider: config.provider,
+    model,
+    operation: usageContext?.operation,
+    messages: messages.map(({ role, content }) => ({ role, content })),
+    content,
+    responseSchema,
+  });
+};
+
+/**
+ * 通用API请求处理函数
+ * 处理不同AI服务商的API调用差异，传入 usageContext 时记录本次请求的用量，
+ * 传入 responseSchema 时要求按该Schema输出JSON
+ */
+const makeAPIRequest = async (
+  config: APIConfig,
+  messages: Array<{ role: string; content: string }>,
+  signal?: AbortSignal,
+  maxTokens?: number,
+  usageContext?: UsageContext,
+  responseSchema?: StructuredOutputSchema
+): Promise<{ content: string }> => {
+  const offline = await respondOffline(config, messages, {
+    stream: false,
+    maxTokens: maxTokens ?? DEFAULT_COMPLETION_TOKENS,
+    temperature: 0.7,
+    responseSchema,
+    operation: usageContext?.operation,
+  }, usageContext);
+  if (offline) {
+    return offline;
   }
 
+  const { adapter, url, headers, requestBody, model } = buildProviderRequest(config, messages, false, maxTokens, responseSchema);
+
     // 发送请求
   const finalUrl = url;
 
@@ -2219,6 +3385,7 @@ const makeAPIRequest = async (
   const timeoutMs = 60000; // 60秒超时
   const controller = new AbortController();
   const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+  const releaseSignal = forwardAbortSignal(controller, signal);
 
   let response;
   try {
@@ -2230,8 +3397,13 @@ const makeAPIRequest = async (
     });
     
     clearTimeout(timeoutId);
+    releaseSignal();
   } catch (error) {
     clearTimeout(timeoutId);
+    releaseSignal();
+    if (signal?.aborted) {
+      throw createAbortError();
+    }
     if (error.name === 'AbortError') {
       throw new Error(`请求超时 (${timeoutMs/1000}秒)，请尝试使用更短的文档或分段上传`);
     }
@@ -2253,7 +3425,7 @@ const makeAPIRequest = async (
       url: finalUrl,
       provider: config.provider
     });
-    throw new Error(`API请求失败 (${response.status}): ${errorText}`);
+    throw adapter.normalizeError(response.status, errorText);
   }
 
   const data = await response.json();
@@ -2263,40 +3435,205 @@ const makeAPIRequest = async (
     dataPreview: JSON.stringify(data).substring(0, 200) + '...'
   });
 
-  // 解析不同服务商的响应格式
+  // 由适配器解析不同服务商的响应格式
+  const content = adapter.parseResponse(data);
+  trackUsage(config, model, messages, content, adapter.parseUsage?.(data) || null, usageContext);
+  recordIfEnabled(config, model, messages, content, usageContext, responseSchema);
+
+  return { content };
+};
+
+/**
+ * 从流式数据块中提取增量文本
+ * 各服务商的流式事件结构不同，由适配器统一成纯文本增量
+ */
+const extractStreamDelta = (adapter: AIProviderAdapter, payload: any): string => {
+  // 流式过程中服务商也可能以数据块的形式返回错误
+  if (payload?.error || payload?.type === 'error') {
+    const message = payload.error?.message || JSON.stringify(payload.error || payload);
+    throw new Error(`流式响应出错: ${message}`);
+  }
+
+  return adapter.parseStreamChunk(payload);
+};
+
+/**
+ * 解析单行流式数据，返回数据块对象（无内容时返回 null）
+ * 处理SSE的 data: 行，忽略 event:、注释和心跳行；
+ * Ollama 原生接口使用 NDJSON（每行一个JSON对象），也在这里一并处理
+ */
+const parseSSELine = (line: string): any | null => {
+  const trimmed = line.trim();
+  const isNDJSON = trimmed.startsWith('{');
+  if (!isNDJSON && !trimmed.startsWith('data:')) {
+    return null;
+  }
+
+  const data = isNDJSON ? trimmed : trimmed.slice(5).trim();
+  if (!data || data === '[DONE]') {
+    return null;
+  }
+
+  try {
+    return JSON.parse(data);
+  } catch {
+    console.warn('⚠️ 无法解析的流式数据块:', data.substring(0, 200));
+    return null;
+  }
+};
+
+/**
+ * 流式API请求处理函数
+ * 以SSE方式读取服务商响应，每收到一段增量文本就回调一次，结束后返回完整内容；
+ * 传入 usageContext 时记录用量（中途停止或出错时按已收到的内容记录）
+ */
+const makeStreamingAPIRequest = async (
+  config: APIConfig,
+  messages: Array<{ role: string; content: string }>,
+  onDelta: (delta: string) => void,
+  signal?: AbortSignal,
+  maxTokens?: number,
+  usageContext?: UsageContext
+): Promise<{ content: string }> => {
+  const offline = await respondOffline(config, messages, {
+    stream: true,
+    maxTokens: maxTokens ?? DEFAULT_COMPLETION_TOKENS,
+    temperature: 0.7,
+    operation: usageContext?.operation,
+  }, usageContext);
+  if (offline) {
+    // 分段输出离线回复，界面的流式展示与进度标记处理保持一致
+    for (let i = 0; i < offline.content.length; i += OFFLINE_STREAM_CHUNK_CHARS) {
+      await abortableDelay(OFFLINE_STREAM_INTERVAL_MS, signal);
+      onDelta(offline.content.slice(i, i + OFFLINE_STREAM_CHUNK_CHARS));
+    }
+    return offline;
+  }
+
+  const { adapter, url, headers, requestBody, model } = buildProviderRequest(config, messages, true, maxTokens);
+
+  console.log('🌊 发送流式AI请求:', {
+    provider: config.provider,
+    model,
+    url,
+    messagesCount: messages.length,
+  });
+
+  // 空闲超时：连续60秒没有收到任何数据才判定超时，长回复不会被误杀
+  const idleTimeoutMs = 60000;
+  const controller = new AbortController();
+  let timeoutId = setTimeout(() => controller.abort(), idleTimeoutMs);
+  const resetIdleTimeout = () => {
+    clearTimeout(timeoutId);
+    timeoutId = setTimeout(() => controller.abort(), idleTimeoutMs);
+  };
+  const releaseSignal = forwardAbortSignal(controller, signal);
+  const toTimeoutError = (error: any) => {
+    if (signal?.aborted) return createAbortError();
+    return error?.name === 'AbortError'
+      ? new Error(`请求超时 (${idleTimeoutMs/1000}秒内未收到数据)，请稍后重试`)
+      : error;
+  };
+
   let content = '';
-  
-  switch (config.provider) {
-    case 'openai':
-    case 'deepseek':
-    case 'kimi':
-      content = data.choices?.[0]?.message?.content || '';
-      break;
-    
-    case 'openrouter':
-      content = data.choices?.[0]?.message?.content || '';
-      break;
-    
-    case 'claude':
-      content = data.content?.[0]?.text || '';
-      break;
-    
-    case 'gemini':
-      content = data.candidates?.[0]?.content?.parts?.[0]?.text || 
-                data.candidates?.[0]?.output || '';
-      break;
+  let usage: TokenUsage | null = null;
+  // 服务商已开始返回内容后才会产生费用
+  let responded = false;
+
+  try {
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(requestBody),
+        signal: controller.signal
+      });
+    } catch (error) {
+      throw toTimeoutError(error);
+    }
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('❌ 流式API请求失败:', {
+        status: response.status,
+        statusText: response.statusText,
+        errorText,
+        url,
+        provider: config.provider
+      });
+      throw adapter.normalizeError(response.status, errorText);
+    }
+
+    if (!response.body) {
+      throw new Error('当前浏览器不支持流式响应');
+    }
+    responded = true;
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    const handleLine = (line: string) => {
+      const payload = parseSSELine(line);
+      if (!payload) return;
+      usage = mergeTokenUsage(usage, adapter.parseUsage?.(payload) || null);
+      const delta = extractStreamDelta(adapter, payload);
+      if (delta) {
+        content += delta;
+        onDelta(delta);
+      }
+    };
+
+    while (true) {
+      let chunk: ReadableStreamReadResult<Uint8Array>;
+      try {
+        chunk = await reader.read();
+      } catch (error) {
+        throw toTimeoutError(error);
+      }
+      if (chunk.done) break;
+
+      resetIdleTimeout();
+      buffer += decoder.decode(chunk.value, { stream: true });
+
+      // SSE按行分隔，最后一行可能不完整，留到下一个数据块再处理
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+      lines.forEach(handleLine);
+    }
+
+    buffer += decoder.decode();
+    if (buffer) {
+      handleLine(buffer);
+    }
+  } finally {
+    clearTimeout(timeoutId);
+    releaseSignal();
+    if (responded) {
+      trackUsage(config, model, messages, content, usage, usageContext);
+    }
   }
 
+  console.log('🌊 流式响应结束，总长度:', content.length);
+  recordIfEnabled(config, model, messages, content, usageContext);
   return { content };
 };
 
 /**
  * 获取支持的AI服务商列表
+ * 读取服务商注册表，包含通过 registerProvider 注册的自定义服务商
  */
 export const getSupportedProviders = () => {
-  return Object.entries(AI_PROVIDERS).map(([key, value]) => ({
-    id: key as keyof typeof AI_PROVIDERS,
-    name: value.name,
-    defaultModel: value.defaultModel,
+  return getRegisteredProviders().map(adapter => ({
+    id: adapter.id as APIConfig['provider'],
+    name: adapter.name,
+    defaultModel: adapter.defaultModel,
+    /** 是否需要API密钥 */
+    requiresApiKey: adapter.requiresApiKey !== false,
+    /** 是否支持获取模型列表 */
+    supportsModelList: !!adapter.listModels,
+    /** 是否在本地生成回复（不需要网络和服务器代理） */
+    offline: !!adapter.respond,
   }));
-};
\ No newline at end of file
+};
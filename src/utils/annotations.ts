@@ -0,0 +1,321 @@
+/**
+ * 原文高亮与批注工具
+ *
+ * - 批注锚定在原文的字符区间上，同时保存高亮的原文和前后文
+ * - 原文变化后按保存的原文片段和前后文重新定位，找不到时视为失效
+ * - 把原文面板中的选区换算为原文位置（Markdown渲染后的文字不含标记符号）
+ * - 在段落块渲染好的HTML中插入彩色高亮
+ * - 按章节分组、搜索批注，把批注转换为学习卡片
+ */
+
+import { Annotation, AnnotationAnchor, AnnotationColor, LearningCard, OutlineItem } from '../types';
+import { FIRST_REVIEW_DELAY_MS } from './cardGeneration';
+import { findOutlineItemOffset } from './sourceDocument';
+import { escapeRegExp } from './textEscape';
+
+/** 可选的高亮颜色（第一个为默认颜色） */
+export const ANNOTATION_COLORS: AnnotationColor[] = ['yellow', 'green', 'blue', 'pink', 'purple'];
+
+/** 各颜色的高亮样式 */
+export const ANNOTATION_COLOR_CLASSES: Record<AnnotationColor, { mark: string; swatch: string; border: string }> = {
+  yellow: { mark: 'bg-yellow-200', swatch: 'bg-yellow-300', border: 'border-yellow-400' },
+  green: { mark: 'bg-green-200', swatch: 'bg-green-300', border: 'border-green-400' },
+  blue: { mark: 'bg-blue-200', swatch: 'bg-blue-300', border: 'border-blue-400' },
+  pink: { mark: 'bg-pink-200', swatch: 'bg-pink-300', border: 'border-pink-400' },
+  purple: { mark: 'bg-purple-200', swatch: 'bg-purple-300', border: 'border-purple-400' },
+};
+
+/** 锚点保存的前后文长度 */
+const ANCHOR_CONTEXT_CHARS = 32;
+
+/** 重新定位时最多比较的候选位置数 */
+const MAX_ANCHOR_CANDIDATES = 200;
+
+/** 卡片标题的最大长度 */
+const CARD_TITLE_MAX_CHARS = 60;
+
+/** Markdown中的行内标记符号，渲染后不出现在选中的文字里 */
+const INLINE_MARKUP = '[*_`~]*';
+
+/** 选中文字中的空白可能对应原文中的换行、列表和引用标记 */
+const WHITESPACE_MARKUP = '[\\s*_`~#>|\\-]+';
+
+/** 高亮标记使用Unicode私用区字符，渲染HTML后再替换为 <mark> */
+const MARKER_START_BASE = 0xe000;
+const MARKER_END_BASE = 0xe800;
+const MAX_MARKERS = MARKER_END_BASE - MARKER_START_BASE;
+const MARKER_PATTERN = /[\uE000-\uEFFF]/g;
+
+/**
+ * 原文中的一个区间
+ */
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * 重新定位后的批注（原文中已找不到时 range 为 null）
+ */
+export interface ResolvedAnnotation {
+  annotation: Annotation;
+  range: TextRange | null;
+}
+
+/**
+ * 为原文区间生成锚点
+ */
+export const createAnnotationAnchor = (content: string, start: number, end: number): AnnotationAnchor => {
+  return {
+    start,
+    end,
+    quote: content.slice(start, end),
+    prefix: content.slice(Math.max(0, start - ANCHOR_CONTEXT_CHARS), start),
+    suffix: content.slice(end, end + ANCHOR_CONTEXT_CHARS),
+  };
+};
+
+/** 两段文字末尾相同的字符数 */
+const commonSuffixLength = (a: string, b: string): number => {
+  let length = 0;
+  while (length < a.length && length < b.length && a[a.length - 1 - length] === b[b.length - 1 - length]) {
+    length++;
+  }
+  return length;
+};
+
+/** 两段文字开头相同的字符数 */
+const commonPrefixLength = (a: string, b: string): number => {
+  let length = 0;
+  while (length < a.length && length < b.length && a[length] === b[length]) {
+    length++;
+  }
+  return length;
+};
+
+/**
+ * 在候选位置中选出与锚点最吻合的一个：前后文越一致越好，其次离原位置越近越好
+ */
+const pickBestCandidate = (content: string, anchor: AnnotationAnchor, candidates: TextRange[]): TextRange | null => {
+  let best: TextRange | null = null;
+  let bestScore = -Infinity;
+  for (const candidate of candidates) {
+    const contextScore =
+      commonSuffixLength(content.slice(Math.max(0, candidate.start - anchor.prefix.length), candidate.start), anchor.prefix) +
+      commonPrefixLength(content.slice(candidate.end, candidate.end + anchor.suffix.length), anchor.suffix);
+    const score = contextScore - Math.abs(candidate.start - anchor.start) / Math.max(content.length, 1);
+    if (score > bestScore) {
+      best = candidate;
+      bestScore = score;
+    }
+  }
+  return best;
+};
+
+/**
+ * 按锚点在原文中定位批注：
+ * 原位置的文字未变时直接使用，否则查找相同的原文片段（先精确查找，再忽略空白差异），
+ * 有多处时按前后文选择；都找不到时返回 null
+ */
+export const resolveAnnotationAnchor = (content: string, anchor: AnnotationAnchor): TextRange | null => {
+  if (!anchor.quote) return null;
+  if (content.slice(anchor.start, anchor.end) === anchor.quote) {
+    return { start: anchor.start, end: anchor.end };
+  }
+
+  const exact: TextRange[] = [];
+  let index = content.indexOf(anchor.quote);
+  while (index >= 0 && exact.length < MAX_ANCHOR_CANDIDATES) {
+    exact.push({ start: index, end: index + anchor.quote.length });
+    index = content.indexOf(anchor.quote, index + 1);
+  }
+  if (exact.length > 0) {
+    return pickBestCandidate(content, anchor, exact);
+  }
+
+  const words = anchor.quote.trim().split(/\s+/).map(escapeRegExp);
+  if (words.length === 0 || !words[0]) return null;
+  const loose = Array.from(content.matchAll(new RegExp(words.join('\\s+'), 'g')))
+    .slice(0, MAX_ANCHOR_CANDIDATES)
+    .map(match => ({ start: match.index!, end: match.index! + match[0].length }));
+  return pickBestCandidate(content, anchor, loose);
+};
+
+/**
+ * 在当前原文中定位全部批注
+ */
+export const resolveAnnotations = (content: string, annotations: Annotation[]): ResolvedAnnotation[] => {
+  return annotations.map(annotation => ({ annotation, range: resolveAnnotationAnchor(content, annotation.anchor) }));
+};
+
+/**
+ * 按当前原文更新批注的锚点，返回位置有变化的批注（已失效的批注保持不变）
+ */
+export const reanchorAnnotations = (content: string, annotations: Annotation[]): Annotation[] => {
+  return resolveAnnotations(content, annotations)
+    .filter(({ annotation, range }) => range && (range.start !== annotation.anchor.start || range.end !== annotation.anchor.end))
+    .map(({ annotation, range }) => ({
+      ...annotation,
+      anchor: createAnnotationAnchor(content, range!.start, range!.end),
+    }));
+};
+
+/**
+ * 在原文的一段区间内查找选中的文字，返回其在原文中的位置
+ * 选中的是渲染后的文字，原文中可能夹有Markdown标记，匹配时予以忽略
+ */
+export const locateSelection = (content: string, text: string, searchStart: number, searchEnd: number): TextRange | null => {
+  const selected = text.trim();
+  if (!selected) return null;
+
+  const pattern = selected
+    .split(/(\s+)/)
+    .filter(Boolean)
+    .map(part => /^\s+$/.test(part) ? WHITESPACE_MARKUP : Array.from(part).map(escapeRegExp).join(INLINE_MARKUP))
+    .join('');
+  const match = new RegExp(pattern).exec(content.slice(searchStart, searchEnd));
+  if (!match) return null;
+  return { start: searchStart + match.index, end: searchStart + match.index + match[0].length };
+};
+
+/**
+ * 原文位置所属的大纲项：标题位置在该位置之前的最后一个大纲项
+ */
+export const findOutlineItemForOffset = (content: string, outline: OutlineItem[], offset: number): string | undefined => {
+  let bestId: string | undefined;
+  let bestOffset = -1;
+  for (const item of outline) {
+    const itemOffset = findOutlineItemOffset(content, outline, item.id);
+    if (itemOffset >= 0 && itemOffset <= offset && itemOffset >= bestOffset) {
+      bestId = item.id;
+      bestOffset = itemOffset;
+    }
+  }
+  return bestId;
+};
+
+/**
+ * 在段落块的原文中插入高亮标记，与块有交叠的批注按其在列表中的序号标记
+ */
+export const insertAnnotationMarkers = (
+  text: string,
+  blockStart: number,
+  ranges: Array<{ index: number; range: TextRange }>
+): string => {
+  const blockEnd = blockStart + text.length;
+  const markers: Array<{ position: number; char: string }> = [];
+  for (const { index, range } of ranges) {
+    if (index >= MAX_MARKERS || range.end <= blockStart || range.start >= blockEnd) continue;
+    markers.push({ position: Math.max(range.start, blockStart) - blockStart, char: String.fromCharCode(MARKER_START_BASE + index) });
+    markers.push({ position: Math.min(range.end, blockEnd) - blockStart, char: String.fromCharCode(MARKER_END_BASE + index) });
+  }
+
+  // 从后往前插入，避免前面的插入影响后面的位置
+  markers.sort((a, b) => b.position - a.position);
+  let result = text;
+  for (const marker of markers) {
+    result = result.slice(0, marker.position) + marker.char + result.slice(marker.position);
+  }
+  return result;
+};
+
+/**
+ * 把渲染好的HTML中的高亮标记替换为 <mark>
+ * 高亮跨越标签时在每段文字上分别加 <mark>，重叠的高亮使用后开始的批注的颜色
+ */
+export const renderAnnotationMarks = (html: string, annotations: Annotation[], activeId?: string | null): string => {
+  const open: number[] = [];
+  return html
+    .split(/(<[^>]*>)/)
+    .map(segment => {
+      if (segment.startsWith('<')) return segment.replace(MARKER_PATTERN, '');
+
+      let output = '';
+      let buffer = '';
+      const flush = () => {
+        if (!buffer) return;
+        const annotation = open.length > 0 ? annotations[open[open.length - 1]] : undefined;
+        if (annotation) {
+          const active = annotation.id === activeId ? ' ring-2 ring-primary-500' : '';
+          output += `<mark data-annotation="${annotation.id}" class="${ANNOTATION_COLOR_CLASSES[annotation.color].mark} rounded-sm cursor-pointer${active}">${buffer}</mark>`;
+        } else {
+          output += buffer;
+        }
+        buffer = '';
+      };
+
+      for (const char of segment) {
+        const code = char.charCodeAt(0);
+        if (code >= MARKER_START_BASE && code < MARKER_END_BASE) {
+          flush();
+          open.push(code - MARKER_START_BASE);
+        } else if (code >= MARKER_END_BASE && code < MARKER_END_BASE + MAX_MARKERS) {
+          flush();
+          const position = open.lastIndexOf(code - MARKER_END_BASE);
+          if (position >= 0) open.splice(position, 1);
+        } else {
+          buffer += char;
+        }
+      }
+      flush();
+      return output;
+    })
+    .join('');
+};
+
+/**
+ * 搜索批注（原文片段或批注内容包含搜索词，不区分大小写）
+ */
+export const filterAnnotations = (annotations: Annotation[], query: string): Annotation[] => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return annotations;
+  return annotations.filter(annotation =>
+    annotation.anchor.quote.toLowerCase().includes(needle) ||
+    (annotation.note || '').toLowerCase().includes(needle)
+  );
+};
+
+/**
+ * 按大纲顺序分组批注，组内按原文位置排序；不属于任何大纲项的批注放在最后（item 为空）
+ */
+export const groupAnnotationsByOutlineItem = (
+  annotations: Annotation[],
+  outline: OutlineItem[]
+): Array<{ item?: OutlineItem; annotations: Annotation[] }> => {
+  const sorted = [...annotations].sort((a, b) => a.anchor.start - b.anchor.start);
+  const groups = outline
+    .map(item => ({ item, annotations: sorted.filter(annotation => annotation.chapterId === item.id) }))
+    .filter(group => group.annotations.length > 0);
+  const ungrouped = sorted.filter(annotation => !outline.some(item => item.id === annotation.chapterId));
+  return ungrouped.length > 0 ? [...groups, { annotations: ungrouped }] : groups;
+};
+
+/**
+ * 把批注转换为学习卡片：有批注内容时以批注为标题，原文片段以引用形式放在内容中
+ */
+export const createCardFromAnnotation = (annotation: Annotation, options: { id: string }): LearningCard => {
+  const now = Date.now();
+  const quote = annotation.anchor.quote.trim();
+  const note = annotation.note?.trim();
+  const titleSource = (note || quote).replace(/\s+/g, ' ');
+  const title = titleSource.length > CARD_TITLE_MAX_CHARS
+    ? `${titleSource.slice(0, CARD_TITLE_MAX_CHARS)}…`
+    : titleSource;
+  const quoted = quote.split('\n').map(line => `> ${line}`).join('\n');
+
+  return {
+    id: options.id,
+    title,
+    content: note ? `${quoted}\n\n${note}` : quoted,
+    ...(note ? { userNote: note } : {}),
+    type: 'bookmark',
+    tags: [],
+    createdAt: now,
+    nextReviewAt: now + FIRST_REVIEW_DELAY_MS,
+    reviewCount: 0,
+    difficulty: 3,
+    sessionId: annotation.sessionId,
+    messageId: '',
+    chapterId: annotation.chapterId,
+  };
+};
@@ -0,0 +1,198 @@
+/**
+ * 学完小节后自动提取学习卡片
+ *
+ * - 提取响应的 JSON Schema（交给服务商的原生结构化输出使用）
+ * - 按卡片类型校验问题、答案或挖空，来源编号须落在对话记录的范围内
+ * - 把对话整理成带编号的记录，模型用编号标注每张卡片的来源消息
+ * - 把确认后的卡片草稿转换为 LearningCard
+ *
+ * 问答卡：标题为问题、内容为答案；填空卡：标题中挖空（____），内容中加粗标出答案
+ */
+
+import { CardFormat, ChatMessage, LearningCard } from '../types';
+import { StructuredOutputSchema } from './aiProviders';
+import { extractJsonText } from './outlineSchema';
+
+/** 每次提取的卡片数量范围 */
+export const MIN_GENERATED_CARDS = 3;
+export const MAX_GENERATED_CARDS = 10;
+
+/** 首次复习安排在提取后的一天 */
+export const FIRST_REVIEW_DELAY_MS = 24 * 60 * 60 * 1000;
+
+/** 反馈给模型的错误条数上限，避免修复提示过长 */
+const MAX_REPORTED_ERRORS = 20;
+
+/** 填空卡中的挖空标记，如 {{线粒体}} */
+const CLOZE_PATTERN = /\{\{([^{}]+)\}\}/g;
+
+/**
+ * 待确认的卡片草稿
+ */
+export interface CardDraft {
+  format: CardFormat;
+  /** 问答卡的问题 */
+  question?: string;
+  /** 问答卡的答案 */
+  answer?: string;
+  /** 填空卡的完整句子，挖空部分用 {{答案}} 标出 */
+  clozeText?: string;
+  /** 来源消息ID */
+  sourceMessageIds: string[];
+}
+
+/**
+ * 提取响应的 JSON Schema
+ * 填空卡用 {{答案}} 标出挖空，转换为卡片时再改为标题中的 ____ 和内容中的加粗答案
+ */
+export const CARD_EXTRACTION_SCHEMA: StructuredOutputSchema = {
+  name: 'flashcards',
+  description: '从小节对话和原文中提取的复习卡片',
+  schema: {
+    type: 'object',
+    properties: {
+      cards: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            format: { type: 'string', enum: ['qa', 'cloze'] },
+            question: { type: 'string', description: '问题，仅问答卡填写' },
+            answer: { type: 'string', description: '答案，仅问答卡填写' },
+            clozeText: { type: 'string', description: '完整句子，用 {{答案}} 标出挖空部分，仅填空卡填写' },
+            sourceMessages: { type: 'array', items: { type: 'integer' }, description: '卡片内容来自的对话编号' },
+          },
+          required: ['format', 'sourceMessages'],
+        },
+      },
+    },
+    required: ['cards'],
+  },
+};
+
+const isNonEmptyString = (value: unknown): value is string => {
+  return typeof value === 'string' && value.trim().length > 0;
+};
+
+/**
+ * 把小节的对话整理成带编号的记录（编号从1开始），供模型标注卡片来源
+ */
+export const buildNumberedTranscript = (
+  messages: ChatMessage[],
+  labels: { learner: string; tutor: string }
+): string => {
+  return messages
+    .map((message, index) => `[${index + 1}] ${message.role === 'user' ? labels.learner : labels.tutor}: ${message.content}`)
+    .join('\n\n');
+};
+
+/**
+ * 校验单张卡片的字段
+ */
+const validateCard = (card: any, path: string, messageCount: number, errors: string[]) => {
+  if (!card || typeof card !== 'object' || Array.isArray(card)) {
+    errors.push(`${path} 必须是对象`);
+    return;
+  }
+
+  if (card.format === 'qa') {
+    if (!isNonEmptyString(card.question)) errors.push(`${path}.question 必须是非空字符串`);
+    if (!isNonEmptyString(card.answer)) errors.push(`${path}.answer 必须是非空字符串`);
+  } else if (card.format === 'cloze') {
+    if (!isNonEmptyString(card.clozeText) || !card.clozeText.match(CLOZE_PATTERN)) {
+      errors.push(`${path}.clozeText 必须包含至少一处 {{答案}} 形式的挖空`);
+    }
+  } else {
+    errors.push(`${path}.format 必须是 "qa" 或 "cloze"`);
+  }
+
+  if (card.sourceMessages !== undefined && (
+    !Array.isArray(card.sourceMessages) ||
+    !card.sourceMessages.every((n: unknown) => Number.isInteger(n) && (n as number) >= 1 && (n as number) <= messageCount)
+  )) {
+    errors.push(`${path}.sourceMessages 必须是 1 到 ${messageCount} 之间的对话编号`);
+  }
+};
+
+/**
+ * 解析并校验模型提取的卡片
+ * 对话编号换算为消息ID；未标注来源的卡片归到整段对话。超出数量上限的卡片直接丢弃
+ */
+export const parseCardDrafts = (content: string, messages: ChatMessage[]): { drafts?: CardDraft[]; errors: string[] } => {
+  let data: any;
+  try {
+    data = JSON.parse(extractJsonText(content));
+  } catch (error) {
+    return {
+      errors: [`输出不是有效的JSON：${error instanceof Error ? error.message : String(error)}`],
+    };
+  }
+
+  if (!data || typeof data !== 'object' || !Array.isArray(data.cards) || data.cards.length === 0) {
+    return { errors: ['输出必须是包含非空 cards 数组的JSON对象'] };
+  }
+
+  const cards = data.cards.slice(0, MAX_GENERATED_CARDS);
+  const errors: string[] = [];
+  cards.forEach((card: any, index: number) => validateCard(card, `cards[${index}]`, messages.length, errors));
+  if (errors.length > 0) {
+    return { errors: errors.slice(0, MAX_REPORTED_ERRORS) };
+  }
+
+  const allMessageIds = messages.map(message => message.id);
+  const drafts: CardDraft[] = cards.map((card: any) => {
+    const sourceIndexes: number[] = Array.from(new Set<number>(card.sourceMessages || [])).sort((a, b) => a - b);
+    return {
+      format: card.format,
+      ...(card.format === 'qa'
+        ? { question: card.question.trim(), answer: card.answer.trim() }
+        : { clozeText: card.clozeText.trim() }),
+      sourceMessageIds: sourceIndexes.length > 0
+        ? sourceIndexes.map(n => allMessageIds[n - 1])
+        : allMessageIds,
+    };
+  });
+  return { drafts, errors: [] };
+};
+
+/**
+ * 草稿内容是否完整（用户编辑后可能被清空）
+ */
+export const isCardDraftComplete = (draft: CardDraft): boolean => {
+  return draft.format === 'qa'
+    ? isNonEmptyString(draft.question) && isNonEmptyString(draft.answer)
+    : isNonEmptyString(draft.clozeText) && !!draft.clozeText.match(CLOZE_PATTERN);
+};
+
+/**
+ * 把卡片草稿转换为学习卡片
+ */
+export const createCardFromDraft = (
+  draft: CardDraft,
+  options: { id: string; sessionId: string; chapterId: string }
+): LearningCard => {
+  const now = Date.now();
+  const [title, content] = draft.format === 'qa'
+    ? [draft.question!.trim(), draft.answer!.trim()]
+    : [
+        draft.clozeText!.replace(CLOZE_PATTERN, '____').trim(),
+        draft.clozeText!.replace(CLOZE_PATTERN, (_match, answer: string) => `**${answer.trim()}**`).trim(),
+      ];
+
+  return {
+    id: options.id,
+    title,
+    content,
+    type: 'bookmark',
+    format: draft.format,
+    tags: [],
+    createdAt: now,
+    nextReviewAt: now + FIRST_REVIEW_DELAY_MS,
+    reviewCount: 0,
+    difficulty: 3,
+    sessionId: options.sessionId,
+    messageId: draft.sourceMessageIds[0] || '',
+    sourceMessageIds: draft.sourceMessageIds,
+    chapterId: options.chapterId,
+  };
+};
@@ -0,0 +1,154 @@
+/**
+ * 章节编号工具
+ *
+ * 统一识别和生成中英文文档中的章节编号：
+ * - 中文：第3章、第三章、第2部分，小节 2.1
+ * - 英文：Chapter 3、Chapter III、Chapter Three、Part 2，小节 2.1、Section 2.1
+ *
+ * 大纲中的章节标题按界面语言生成（“第1章 标题” / “Chapter 1: 标题”），小节统一为“X.Y 标题”
+ */
+
+import { Language } from '../types';
+
+const CHINESE_DIGITS: Record<string, number> = {
+  零: 0, 〇: 0, 一: 1, 二: 2, 两: 2, 三: 3, 四: 4, 五: 5, 六: 6, 七: 7, 八: 8, 九: 9,
+};
+
+const ENGLISH_NUMBER_WORDS = [
+  'zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten',
+  'eleven', 'twelve', 'thirteen', 'fourteen', 'fifteen', 'sixteen', 'seventeen', 'eighteen', 'nineteen', 'twenty',
+];
+
+const ROMAN_VALUES: Record<string, number> = { I: 1, V: 5, X: 10, L: 50, C: 100 };
+
+const capitalize = (word: string) => word[0].toUpperCase() + word.slice(1);
+const keyword = (word: string) => `(?:${word}|${capitalize(word)}|${word.toUpperCase()})`;
+
+const CHINESE_NUMBER = '[零〇一二两三四五六七八九十百\\d]+';
+// 罗马数字只识别大写，避免把 “Chapter civil” 之类的单词当成编号
+const ENGLISH_NUMBER = `(?:\\d+|[IVXLC]+|${ENGLISH_NUMBER_WORDS.slice(1).map(keyword).join('|')})`;
+
+/** 文中出现的章节标记（用于估算文档已有的章节数） */
+export const CHAPTER_MENTION_PATTERN = new RegExp(`第${CHINESE_NUMBER}章|\\b${keyword('chapter')}\\s+${ENGLISH_NUMBER}\\b`, 'g');
+
+/** 标题开头的章节编号，如“第3章”“Chapter 3:”“Part II -” */
+const CHAPTER_PREFIX_PATTERN = new RegExp(
+  `^\\s*(?:第\\s*(${CHINESE_NUMBER})\\s*[章部篇]分?|(?:${keyword('chapter')}|${keyword('part')})\\s+(${ENGLISH_NUMBER})\\b)\\s*[:：.、\\-–—]?\\s*`
+);
+
+/** 以章节编号开头的整行（用于在文档中切分章节），如“第3章 标题”“Chapter III: Title”“Part 2 Title” */
+export const CHAPTER_HEADING_LINE_PATTERN = new RegExp(
+  `^[ \\t]*(?:第[ \\t]*${CHINESE_NUMBER}[ \\t]*[章部篇]分?|(?:${keyword('chapter')}|${keyword('part')})[ \\t]+${ENGLISH_NUMBER}\\b)[^\\n]*$`,
+  'gm'
+);
+
+/** 标题开头的小节编号，如“2.1”“Section 2.1:” */
+const SECTION_PREFIX_PATTERN = /^\s*(?:(?:Section|SECTION|§)\s*)?(\d+)\.(\d+)(?:\.\d+)*\s*[:：.、\-–—]?\s*/;
+
+/**
+ * 解析中文数字（支持到九百九十九）
+ */
+const parseChineseNumber = (text: string): number | null => {
+  if (/^\d+$/.test(text)) return parseInt(text, 10);
+
+  let total = 0;
+  let current = 0;
+  for (const char of text) {
+    if (char in CHINESE_DIGITS) {
+      current = CHINESE_DIGITS[char];
+    } else if (char === '十') {
+      total += (current || 1) * 10;
+      current = 0;
+    } else if (char === '百') {
+      total += (current || 1) * 100;
+      current = 0;
+    } else {
+      return null;
+    }
+  }
+  const result = total + current;
+  return result > 0 ? result : null;
+};
+
+/**
+ * 解析英文编号：阿拉伯数字、罗马数字或英文单词
+ */
+const parseEnglishNumber = (text: string): number | null => {
+  if (/^\d+$/.test(text)) return parseInt(text, 10);
+
+  const wordIndex = ENGLISH_NUMBER_WORDS.indexOf(text.toLowerCase());
+  if (wordIndex > 0) return wordIndex;
+
+  const roman = text.toUpperCase();
+  if (!/^[IVXLC]+$/.test(roman)) return null;
+  let result = 0;
+  for (let i = 0; i < roman.length; i++) {
+    const value = ROMAN_VALUES[roman[i]];
+    const next = ROMAN_VALUES[roman[i + 1]] || 0;
+    result += value < next ? -value : value;
+  }
+  return result > 0 ? result : null;
+};
+
+/**
+ * 标题是否以章节编号开头
+ */
+export const isChapterHeading = (title: string): boolean => CHAPTER_PREFIX_PATTERN.test(title);
+
+/**
+ * 从标题中提取章节编号
+ * 依次识别章节编号（第3章 / Chapter 3）和小节编号（2.1 / Section 2.1 归属第2章），无法识别时返回 null
+ */
+export const parseChapterNumber = (title: string): number | null => {
+  const chapterMatch = title.match(CHAPTER_PREFIX_PATTERN);
+  if (chapterMatch) {
+    return chapterMatch[1] !== undefined
+      ? parseChineseNumber(chapterMatch[1])
+      : parseEnglishNumber(chapterMatch[2]);
+  }
+
+  const sectionMatch = title.match(SECTION_PREFIX_PATTERN);
+  return sectionMatch ? parseInt(sectionMatch[1], 10) : null;
+};
+
+/**
+ * 从标题中提取小节编号，如“2.1 概述”“Section 2.1 Overview”返回 { chapter: 2, section: 1 }
+ */
+export const parseSectionNumber = (title: string): { chapter: number; section: number } | null => {
+  const match = title.match(SECTION_PREFIX_PATTERN);
+  return match ? { chapter: parseInt(match[1], 10), section: parseInt(match[2], 10) } : null;
+};
+
+/**
+ * 去掉标题开头的章节编号
+ */
+export const stripChapterPrefix = (title: string): string => title.replace(CHAPTER_PREFIX_PATTERN, '').trim();
+
+/**
+ * 去掉标题开头的小节编号
+ */
+export const stripSectionPrefix = (title: string): string => title.replace(SECTION_PREFIX_PATTERN, '').trim();
+
+/**
+ * 生成章节标题，如“第1章 基础概念” / “Chapter 1: Basics”
+ */
+export const formatChapterTitle = (chapterNumber: number, title: string, language: Language): string => {
+  return language === 'en' ? `Chapter ${chapterNumber}: ${title}` : `第${chapterNumber}章 ${title}`;
+};
+
+/**
+ * 生成小节标题，如“2.1 概述”
+ */
+export const formatSectionTitle = (chapterNumber: number, sectionNumber: number, title: string): string => {
+  return `${chapterNumber}.${sectionNumber} ${title}`;
+};
+
+/**
+ * 修正章节标题中的编号，保留原有写法（第3章 / Chapter 3 / Part 3）；标题没有编号时原样返回
+ */
+export const renumberChapterTitle = (title: string, chapterNumber: number): string => {
+  const match = title.match(CHAPTER_PREFIX_PATTERN);
+  if (!match) return title;
+  const prefix = match[0].replace(match[1] ?? match[2], String(chapterNumber));
+  return `${prefix}${title.slice(match[0].length)}`;
+};
@@ -0,0 +1,108 @@
+/**
+ * 学习进度信号工具
+ *
+ * 私教在每条回复末尾附带一个机器可读的进度标记，例如：
+ * <progress>{"current":"section-3","completed":["section-2"],"next":"section-4"}</progress>
+ *
+ * - 提示词中说明标记格式，并给出大纲项ID
+ * - 解析回复时取出标记、校验ID，并从展示给学习者的文本中去掉
+ * - 流式输出时隐藏尚未接收完整的标记
+ *
+ * 学习页面据此更新当前小节和完成状态，不再从私教的回复文字中猜测
+ */
+
+import { ChapterProgress, OutlineItem } from '../types';
+import { t } from './i18n';
+
+const PROGRESS_OPEN_TAG = '<progress>';
+const PROGRESS_CLOSE_TAG = '</progress>';
+const PROGRESS_BLOCK_PATTERN = /<progress>([\s\S]*?)<\/progress>/g;
+
+/**
+ * 生成提示词中的进度标记说明
+ */
+export const buildProgressInstructions = (outline: OutlineItem[], currentChapterId?: string): string => {
+  const currentItem = outline.find(item => item.id === currentChapterId);
+  return t('prompts.progress.instructions', {
+    example: `${PROGRESS_OPEN_TAG}${t('prompts.progress.example')}${PROGRESS_CLOSE_TAG}`,
+    current: currentItem
+      ? t('prompts.progress.currentItem', { id: currentItem.id, title: currentItem.title })
+      : t('prompts.progress.notStarted'),
+  });
+};
+
+/**
+ * 去掉完整的进度标记，以及没有结束标签的残缺标记（模型输出被截断时）
+ */
+const removeProgressBlocks = (content: string): string => {
+  const visible = content.replace(PROGRESS_BLOCK_PATTERN, '');
+  const openIndex = visible.lastIndexOf(PROGRESS_OPEN_TAG);
+  return (openIndex >= 0 ? visible.slice(0, openIndex) : visible).trimEnd();
+};
+
+/**
+ * 流式输出过程中隐藏进度标记
+ * 除了已接收的标记，还要隐藏末尾只收到一半的开始标签（如 "<pro"）
+ */
+export const stripProgressEnvelope = (content: string): string => {
+  const visible = removeProgressBlocks(content);
+  for (let length = PROGRESS_OPEN_TAG.length - 1; length > 0; length--) {
+    if (visible.endsWith(PROGRESS_OPEN_TAG.slice(0, length))) {
+      return visible.slice(0, -length).trimEnd();
+    }
+  }
+  return visible;
+};
+
+/**
+ * 校验并取出一个小节ID，不存在或不是小节时返回 undefined
+ */
+const toSectionId = (value: unknown, outline: OutlineItem[]): string | undefined => {
+  if (typeof value !== 'string') return undefined;
+  const item = outline.find(outlineItem => outlineItem.id === value.trim());
+  if (!item || item.type !== 'section') {
+    console.warn('⚠️ 进度标记中的ID不是大纲中的小节，已忽略:', value);
+    return undefined;
+  }
+  return item.id;
+};
+
+/**
+ * 从私教回复中解析进度标记
+ * 返回去掉标记后的正文和进度信号；没有标记或标记无效时 progress 为 null。
+ * 出现多个标记时以最后一个为准
+ */
+export const extractChapterProgress = (
+  content: string,
+  outline: OutlineItem[]
+): { text: string; progress: ChapterProgress | null } => {
+  const blocks = [...content.matchAll(PROGRESS_BLOCK_PATTERN)];
+  const text = removeProgressBlocks(content);
+  if (blocks.length === 0) {
+    return { text, progress: null };
+  }
+
+  let data: any;
+  try {
+    data = JSON.parse(blocks[blocks.length - 1][1].trim());
+  } catch (error) {
+    console.warn('⚠️ 进度标记不是有效的JSON，已忽略:', blocks[blocks.length - 1][1]);
+    return { text, progress: null };
+  }
+  if (!data || typeof data !== 'object') {
+    return { text, progress: null };
+  }
+
+  const completedItemIds = (Array.isArray(data.completed) ? data.completed : [])
+    .map((value: unknown) => toSectionId(value, outline))
+    .filter((id: string | undefined): id is string => !!id);
+
+  return {
+    text,
+    progress: {
+      currentItemId: toSectionId(data.current, outline),
+      completedItemIds: Array.from(new Set<string>(completedItemIds)),
+      nextSuggestedItemId: toSectionId(data.next, outline),
+    },
+  };
+};
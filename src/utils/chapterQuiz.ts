@@ -0,0 +1,267 @@
+/**
+ * 小节测验工具
+ *
+ * - 出题与简答题评分响应的 JSON Schema（交给服务商的原生结构化输出使用）
+ * - 按题型校验各题必填的字段（选项与正确选项、判断结果、参考答案与评分要点），评分须覆盖每道简答题
+ * - 单选题和判断题在本地判分，简答题由 aiService 请模型按评分要点打分
+ * - 汇总得分、记录作答并判断是否通过
+ *
+ * 测验保存在对应的大纲项上（OutlineItem.quiz），随会话一起存储和同步
+ */
+
+import { OutlineItemQuiz, QuizAnswerResult, QuizAttempt, QuizQuestion, QuizQuestionType } from '../types';
+import { StructuredOutputSchema } from './aiProviders';
+import { extractJsonText } from './outlineSchema';
+
+/** 默认及格分（0-100） */
+export const QUIZ_PASSING_SCORE = 60;
+
+/** 每次出题的题型分布 */
+export const QUIZ_QUESTION_COUNTS: Record<QuizQuestionType, number> = {
+  multipleChoice: 3,
+  trueFalse: 2,
+  shortAnswer: 1,
+};
+
+/** 单选题选项数量范围 */
+const MIN_OPTIONS = 2;
+const MAX_OPTIONS = 6;
+
+/** 反馈给模型的错误条数上限，避免修复提示过长 */
+const MAX_REPORTED_ERRORS = 20;
+
+/**
+ * 出题响应的 JSON Schema
+ * 三种题型共用一个题目对象，各题型只填写自己的答案字段
+ */
+export const QUIZ_RESPONSE_SCHEMA: StructuredOutputSchema = {
+  name: 'chapter_quiz',
+  description: '根据小节内容生成的测验题',
+  schema: {
+    type: 'object',
+    properties: {
+      questions: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            type: { type: 'string', enum: ['multipleChoice', 'trueFalse', 'shortAnswer'] },
+            question: { type: 'string', description: '题干' },
+            options: { type: 'array', items: { type: 'string' }, description: '选项，仅单选题填写' },
+            answerIndex: { type: 'integer', description: '正确选项的序号（从0开始），仅单选题填写' },
+            answerIsTrue: { type: 'boolean', description: '题干陈述是否正确，仅判断题填写' },
+            referenceAnswer: { type: 'string', description: '参考答案，仅简答题填写' },
+            rubric: { type: 'array', items: { type: 'string' }, description: '评分要点，仅简答题填写' },
+            explanation: { type: 'string', description: '答案解析' },
+            sourceExcerpt: { type: 'string', description: '出题依据的原文摘录' },
+          },
+          required: ['type', 'question'],
+        },
+      },
+    },
+    required: ['questions'],
+  },
+};
+
+/**
+ * 简答题评分响应的 JSON Schema
+ */
+export const QUIZ_GRADING_SCHEMA: StructuredOutputSchema = {
+  name: 'quiz_grades',
+  description: '按评分要点给简答题打分',
+  schema: {
+    type: 'object',
+    properties: {
+      grades: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            questionId: { type: 'string' },
+            score: { type: 'number', description: '得分，0到1之间' },
+            feedback: { type: 'string', description: '简短评语：答对了哪些要点、遗漏了什么' },
+          },
+          required: ['questionId', 'score', 'feedback'],
+        },
+      },
+    },
+    required: ['grades'],
+  },
+};
+
+const isNonEmptyString = (value: unknown): value is string => {
+  return typeof value === 'string' && value.trim().length > 0;
+};
+
+/**
+ * 校验单道题目的字段类型
+ */
+const validateQuestion = (item: any, path: string, errors: string[]) => {
+  if (!item || typeof item !== 'object' || Array.isArray(item)) {
+    errors.push(`${path} 必须是对象`);
+    return;
+  }
+  if (!isNonEmptyString(item.question)) {
+    errors.push(`${path}.question 必须是非空字符串`);
+  }
+
+  switch (item.type) {
+    case 'multipleChoice': {
+      const options = item.options;
+      if (!Array.isArray(options) || options.length < MIN_OPTIONS || options.length > MAX_OPTIONS || !options.every(isNonEmptyString)) {
+        errors.push(`${path}.options 必须是${MIN_OPTIONS}-${MAX_OPTIONS}个非空字符串`);
+      } else if (!Number.isInteger(item.answerIndex) || item.answerIndex < 0 || item.answerIndex >= options.length) {
+        errors.push(`${path}.answerIndex 必须是 0 到 ${options.length - 1} 之间的整数`);
+      }
+      break;
+    }
+    case 'trueFalse':
+      if (typeof item.answerIsTrue !== 'boolean') {
+        errors.push(`${path}.answerIsTrue 必须是布尔值`);
+      }
+      break;
+    case 'shortAnswer':
+      if (!isNonEmptyString(item.referenceAnswer)) {
+        errors.push(`${path}.referenceAnswer 必须是非空字符串`);
+      }
+      if (!Array.isArray(item.rubric) || item.rubric.length === 0 || !item.rubric.every(isNonEmptyString)) {
+        errors.push(`${path}.rubric 必须是非空的字符串数组`);
+      }
+      break;
+    default:
+      errors.push(`${path}.type 必须是 "multipleChoice"、"trueFalse" 或 "shortAnswer"`);
+  }
+};
+
+/**
+ * 解析并校验模型生成的测验题
+ * 通过时返回补充了ID的题目，否则返回错误列表（JSON语法错误也在其中）
+ */
+export const parseQuizQuestions = (content: string, idPrefix: string): { questions?: QuizQuestion[]; errors: string[] } => {
+  let data: any;
+  try {
+    data = JSON.parse(extractJsonText(content));
+  } catch (error) {
+    return {
+      errors: [`输出不是有效的JSON：${error instanceof Error ? error.message : String(error)}`],
+    };
+  }
+
+  if (!data || typeof data !== 'object' || !Array.isArray(data.questions) || data.questions.length === 0) {
+    return { errors: ['输出必须是包含非空 questions 数组的JSON对象'] };
+  }
+
+  const errors: string[] = [];
+  data.questions.forEach((item: any, index: number) => validateQuestion(item, `questions[${index}]`, errors));
+  if (errors.length > 0) {
+    return { errors: errors.slice(0, MAX_REPORTED_ERRORS) };
+  }
+
+  const questions: QuizQuestion[] = data.questions.map((item: any, index: number) => ({
+    id: `${idPrefix}-q${index + 1}`,
+    type: item.type,
+    question: item.question.trim(),
+    ...(item.type === 'multipleChoice' ? { options: item.options.map((option: string) => option.trim()), answerIndex: item.answerIndex } : {}),
+    ...(item.type === 'trueFalse' ? { answerIsTrue: item.answerIsTrue } : {}),
+    ...(item.type === 'shortAnswer' ? { referenceAnswer: item.referenceAnswer.trim(), rubric: item.rubric.map((point: string) => point.trim()) } : {}),
+    ...(isNonEmptyString(item.explanation) ? { explanation: item.explanation.trim() } : {}),
+    ...(isNonEmptyString(item.sourceExcerpt) ? { sourceExcerpt: item.sourceExcerpt.trim() } : {}),
+  }));
+  return { questions, errors: [] };
+};
+
+/**
+ * 解析并校验简答题评分
+ * 每道待评分的题目都必须有一条得分在0-1之间的评分
+ */
+export const parseQuizGrades = (
+  content: string,
+  questionIds: string[]
+): { grades?: Record<string, { score: number; feedback: string }>; errors: string[] } => {
+  let data: any;
+  try {
+    data = JSON.parse(extractJsonText(content));
+  } catch (error) {
+    return {
+      errors: [`输出不是有效的JSON：${error instanceof Error ? error.message : String(error)}`],
+    };
+  }
+
+  if (!data || typeof data !== 'object' || !Array.isArray(data.grades)) {
+    return { errors: ['输出必须是包含 grades 数组的JSON对象'] };
+  }
+
+  const errors: string[] = [];
+  const grades: Record<string, { score: number; feedback: string }> = {};
+  data.grades.forEach((grade: any, index: number) => {
+    const path = `grades[${index}]`;
+    if (!grade || !questionIds.includes(grade.questionId)) {
+      errors.push(`${path}.questionId 必须是以下之一：${questionIds.join('、')}`);
+      return;
+    }
+    if (typeof grade.score !== 'number' || grade.score < 0 || grade.score > 1) {
+      errors.push(`${path}.score 必须是0到1之间的数字`);
+      return;
+    }
+    grades[grade.questionId] = {
+      score: grade.score,
+      feedback: typeof grade.feedback === 'string' ? grade.feedback.trim() : '',
+    };
+  });
+
+  questionIds
+    .filter(id => !grades[id] && !errors.some(error => error.includes(id)))
+    .forEach(id => errors.push(`缺少题目 ${id} 的评分`));
+
+  if (errors.length > 0) {
+    return { errors: errors.slice(0, MAX_REPORTED_ERRORS) };
+  }
+  return { grades, errors: [] };
+};
+
+/**
+ * 判定客观题（单选、判断）的得分，简答题返回 null
+ */
+export const gradeObjectiveAnswer = (question: QuizQuestion, answer: string): number | null => {
+  switch (question.type) {
+    case 'multipleChoice':
+      return answer !== '' && Number(answer) === question.answerIndex ? 1 : 0;
+    case 'trueFalse':
+      return answer === String(question.answerIsTrue) ? 1 : 0;
+    default:
+      return null;
+  }
+};
+
+/**
+ * 汇总各题得分，生成一次测验提交记录
+ */
+export const createQuizAttempt = (quiz: OutlineItemQuiz, answers: QuizAnswerResult[]): QuizAttempt => {
+  const total = answers.reduce((sum, answer) => sum + answer.score, 0);
+  const score = quiz.questions.length > 0 ? Math.round(total / quiz.questions.length * 100) : 0;
+  return {
+    id: `attempt-${Date.now()}`,
+    submittedAt: Date.now(),
+    answers,
+    score,
+    passed: score >= quiz.passingScore,
+  };
+};
+
+/**
+ * 把一次提交记入测验，更新最高分和通过状态
+ */
+export const recordQuizAttempt = (quiz: OutlineItemQuiz, attempt: QuizAttempt): OutlineItemQuiz => ({
+  ...quiz,
+  attempts: [...quiz.attempts, attempt],
+  bestScore: Math.max(quiz.bestScore ?? 0, attempt.score),
+  passed: quiz.passed || attempt.passed,
+});
+
+/**
+ * 小节是否可以由私教的进度信号自动标记完成
+ * 开启“须通过测验”后，只有测验已通过的小节才会自动完成
+ */
+export const canAutoComplete = (quiz: OutlineItemQuiz | undefined, requireQuizToComplete: boolean): boolean => {
+  return !requireQuizToComplete || !!quiz?.passed;
+};
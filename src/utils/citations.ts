@@ -0,0 +1,92 @@
+/**
+ * 回答引用工具
+ *
+ * 发送给私教的学习材料按片段编号（【片段 N】），私教在依据材料的句子末尾标注 [N]：
+ * - 提示词中说明引用格式
+ * - 解析回复中的引用编号，换算为片段在原文中的位置
+ * - 把回复HTML中的引用编号渲染为可点击的标签
+ * - 按PDF解析时记录的每页起始位置，把原文位置换算为页码
+ *
+ * 学习页面点击引用标签时打开原文面板，滚动到对应片段
+ */
+
+import { MessageCitation } from '../types';
+import { RetrievedPassage } from './documentRetrieval';
+import { escapeHtml } from './textEscape';
+import { t } from './i18n';
+
+/** 回复中的引用标记，如 [3] */
+const CITATION_PATTERN = /\[(\d{1,4})\]/g;
+
+/** 代码片段中的方括号不是引用 */
+const CODE_SEGMENT_PATTERN = /(<pre[\s\S]*?<\/pre>|<code[\s\S]*?<\/code>)/;
+
+/** HTML标签：标签内的属性值（href、title、alt 等）中的方括号不是引用 */
+const HTML_TAG_PATTERN = /(<[^>]*>)/;
+
+/**
+ * 生成提示词中的引用说明
+ */
+export const buildCitationInstructions = (passages: RetrievedPassage[]): string => {
+  return t('prompts.citations.instructions', { example: passages[0].chunk.index + 1 });
+};
+
+/**
+ * 取出回复中引用的片段（按首次出现的顺序去重）
+ * 只保留本轮实际发送给私教的片段编号，编造的编号直接忽略
+ */
+export const extractCitations = (text: string, passages: RetrievedPassage[]): MessageCitation[] => {
+  const passagesByNumber = new Map(passages.map(passage => [passage.chunk.index + 1, passage]));
+  const citations: MessageCitation[] = [];
+
+  for (const marker of text.match(CITATION_PATTERN) || []) {
+    const number = Number(marker.slice(1, -1));
+    const passage = passagesByNumber.get(number);
+    if (!passage || citations.some(citation => citation.number === number)) continue;
+    citations.push({
+      number,
+      start: passage.chunk.start,
+      end: passage.chunk.end,
+      ...(passage.chunk.heading ? { heading: passage.chunk.heading } : {}),
+    });
+  }
+
+  return citations;
+};
+
+/**
+ * 把回复HTML中的引用编号替换为可点击的标签（data-citation 为片段编号）
+ * 只替换标签之间的文本；代码块中的内容、标签属性和不在引用列表中的编号保持原样
+ */
+export const renderCitationChips = (html: string, citations: MessageCitation[] | undefined): string => {
+  if (!citations?.length) return html;
+
+  const renderChip = (marker: string, digits: string): string => {
+    const citation = citations.find(item => item.number === Number(digits));
+    if (!citation) return marker;
+    const title = citation.heading
+      ? t('citations.chipTitleWithHeading', { number: citation.number, heading: citation.heading })
+      : t('citations.chipTitle', { number: citation.number });
+    return `<button type="button" data-citation="${citation.number}" title="${escapeHtml(title)}" class="inline-flex items-center justify-center min-w-[1.25rem] h-5 px-1 mx-0.5 text-xs font-medium rounded bg-primary-100 text-primary-700 hover:bg-primary-200 align-text-top cursor-pointer">${citation.number}</button>`;
+  };
+
+  return html
+    .split(CODE_SEGMENT_PATTERN)
+    .map((segment, index) => index % 2 === 1 ? segment : segment
+      .split(HTML_TAG_PATTERN)
+      .map((part, partIndex) => partIndex % 2 === 1 ? part : part.replace(CITATION_PATTERN, renderChip))
+      .join(''))
+    .join('');
+};
+
+/**
+ * 原文位置所在的页码（从1开始），没有页码信息时返回 undefined
+ */
+export const getPageNumber = (pageOffsets: number[] | undefined, offset: number): number | undefined => {
+  if (!pageOffsets?.length) return undefined;
+  let page = 1;
+  for (let i = 0; i < pageOffsets.length && pageOffsets[i] <= offset; i++) {
+    page = i + 1;
+  }
+  return page;
+};
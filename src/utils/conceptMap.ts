@@ -0,0 +1,401 @@
+/**
+ * 概念图工具
+ *
+ * 大纲只有章、节两级，概念图在此基础上加入模型提取的概念及其关系（先修、组成部分、对比）：
+ * - 提取响应的 JSON Schema 与校验：概念编号不能重复，关系的两端必须是已列出的概念
+ * - 把概念挂到所属的大纲项下，与大纲层级合并，按从左到右的树形布局计算位置
+ * - 导出为 Mermaid 流程图和 OPML 大纲（SVG、PNG 由页面上渲染好的图导出）
+ */
+
+import { ConceptMap, ConceptNode, ConceptRelation, ConceptRelationType, OutlineItem } from '../types';
+import { StructuredOutputSchema } from './aiProviders';
+import { extractJsonText } from './outlineSchema';
+import { t } from './i18n';
+
+/** 每次提取的概念数量范围 */
+export const MIN_CONCEPTS = 5;
+export const MAX_CONCEPTS = 40;
+
+/** 关系数量上限 */
+const MAX_RELATIONS = 80;
+
+/** 反馈给模型的错误条数上限，避免修复提示过长 */
+const MAX_REPORTED_ERRORS = 20;
+
+export const CONCEPT_RELATION_TYPES: ConceptRelationType[] = ['prerequisiteOf', 'partOf', 'contrastsWith'];
+
+/** 布局尺寸：节点宽高、列间距、行间距 */
+export const NODE_WIDTH = 180;
+export const NODE_HEIGHT = 36;
+const COLUMN_GAP = 70;
+const ROW_GAP = 12;
+
+/** 节点标签的最大宽度（中文字符按两个单位计算） */
+const MAX_LABEL_UNITS = 24;
+
+/**
+ * 提取响应的 JSON Schema
+ * 概念和关系分成两个数组，关系用模型自拟的概念编号（如 c1）引用概念
+ */
+export const CONCEPT_MAP_RESPONSE_SCHEMA: StructuredOutputSchema = {
+  name: 'concept_map',
+  description: '从学习材料中提取的概念及其关系',
+  schema: {
+    type: 'object',
+    properties: {
+      concepts: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', description: '概念编号，如 c1' },
+            label: { type: 'string', description: '概念名称' },
+            description: { type: 'string', description: '一句话说明' },
+            section: { type: 'string', description: '概念所属的小节ID' },
+          },
+          required: ['id', 'label'],
+        },
+      },
+      relations: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            from: { type: 'string', description: '起点概念编号' },
+            to: { type: 'string', description: '终点概念编号' },
+            type: { type: 'string', enum: CONCEPT_RELATION_TYPES },
+          },
+          required: ['from', 'to', 'type'],
+        },
+      },
+    },
+    required: ['concepts', 'relations'],
+  },
+};
+
+/**
+ * 概念图中的节点（根节点为会话标题）
+ */
+export interface ConceptMapLayoutNode {
+  id: string;
+  kind: 'root' | 'chapter' | 'section' | 'concept';
+  label: string;
+  /** 截断后显示的标签 */
+  displayLabel: string;
+  description?: string;
+  /** 点击后跳转的大纲项ID */
+  outlineItemId?: string;
+  /** 左上角坐标 */
+  x: number;
+  y: number;
+}
+
+/**
+ * 概念图中的连线：大纲层级或概念关系
+ */
+export interface ConceptMapLayoutEdge {
+  from: string;
+  to: string;
+  kind: 'hierarchy' | ConceptRelationType;
+}
+
+export interface ConceptMapLayout {
+  nodes: ConceptMapLayoutNode[];
+  edges: ConceptMapLayoutEdge[];
+  width: number;
+  height: number;
+}
+
+const isNonEmptyString = (value: unknown): value is string => {
+  return typeof value === 'string' && value.trim().length > 0;
+};
+
+/**
+ * 解析并校验模型提取的概念图
+ * 概念编号重新编排；不属于大纲中任何小节的概念不挂到大纲项下；自指和重复的关系直接丢弃
+ */
+export const parseConceptMap = (
+  content: string,
+  outline: OutlineItem[]
+): { conceptMap?: Omit<ConceptMap, 'createdAt'>; errors: string[] } => {
+  let data: any;
+  try {
+    data = JSON.parse(extractJsonText(content));
+  } catch (error) {
+    return {
+      errors: [`输出不是有效的JSON：${error instanceof Error ? error.message : String(error)}`],
+    };
+  }
+
+  if (!data || typeof data !== 'object' || !Array.isArray(data.concepts) || data.concepts.length === 0) {
+    return { errors: ['输出必须是包含非空 concepts 数组的JSON对象'] };
+  }
+  if (data.relations !== undefined && !Array.isArray(data.relations)) {
+    return { errors: ['relations 必须是数组'] };
+  }
+
+  const rawConcepts = data.concepts.slice(0, MAX_CONCEPTS);
+  const rawRelations = (data.relations || []).slice(0, MAX_RELATIONS);
+  const errors: string[] = [];
+  const rawIds = new Set<string>();
+
+  rawConcepts.forEach((concept: any, index: number) => {
+    const path = `concepts[${index}]`;
+    if (!concept || typeof concept !== 'object' || Array.isArray(concept)) {
+      errors.push(`${path} 必须是对象`);
+      return;
+    }
+    if (!isNonEmptyString(concept.id)) {
+      errors.push(`${path}.id 必须是非空字符串`);
+    } else if (rawIds.has(concept.id)) {
+      errors.push(`${path}.id "${concept.id}" 重复`);
+    } else {
+      rawIds.add(concept.id);
+    }
+    if (!isNonEmptyString(concept.label)) errors.push(`${path}.label 必须是非空字符串`);
+  });
+
+  rawRelations.forEach((relation: any, index: number) => {
+    const path = `relations[${index}]`;
+    if (!relation || typeof relation !== 'object') {
+      errors.push(`${path} 必须是对象`);
+      return;
+    }
+    if (!rawIds.has(relation.from)) errors.push(`${path}.from 必须是 concepts 中的概念编号`);
+    if (!rawIds.has(relation.to)) errors.push(`${path}.to 必须是 concepts 中的概念编号`);
+    if (!CONCEPT_RELATION_TYPES.includes(relation.type)) {
+      errors.push(`${path}.type 必须是 ${CONCEPT_RELATION_TYPES.map(type => `"${type}"`).join('、')} 之一`);
+    }
+  });
+
+  if (errors.length > 0) {
+    return { errors: errors.slice(0, MAX_REPORTED_ERRORS) };
+  }
+
+  const outlineIds = new Set(outline.map(item => item.id));
+  const idMap = new Map<string, string>();
+  const concepts: ConceptNode[] = rawConcepts.map((concept: any, index: number) => {
+    const id = `concept-${index + 1}`;
+    idMap.set(concept.id, id);
+    return {
+      id,
+      label: concept.label.trim(),
+      ...(isNonEmptyString(concept.description) ? { description: concept.description.trim() } : {}),
+      ...(outlineIds.has(concept.section) ? { outlineItemId: concept.section } : {}),
+    };
+  });
+
+  const relations: ConceptRelation[] = [];
+  const relationKeys = new Set<string>();
+  for (const relation of rawRelations) {
+    const from = idMap.get(relation.from)!;
+    const to = idMap.get(relation.to)!;
+    // 对比关系没有方向，按两端排序去重
+    const key = relation.type === 'contrastsWith' ? [from, to].sort().join('|') : `${from}|${to}`;
+    if (from === to || relationKeys.has(`${relation.type}:${key}`)) continue;
+    relationKeys.add(`${relation.type}:${key}`);
+    relations.push({ from, to, type: relation.type });
+  }
+
+  return { conceptMap: { concepts, relations }, errors: [] };
+};
+
+/**
+ * 标签的显示宽度单位（中文等全角字符按两个单位计算）
+ */
+const labelUnits = (char: string): number => (char.charCodeAt(0) > 0xff ? 2 : 1);
+
+/**
+ * 截断过长的标签
+ */
+export const truncateLabel = (label: string, maxUnits: number = MAX_LABEL_UNITS): string => {
+  let units = 0;
+  let result = '';
+  for (const char of label) {
+    units += labelUnits(char);
+    if (units > maxUnits) return `${result}…`;
+    result += char;
+  }
+  return result;
+};
+
+/**
+ * 小节所属的章：优先使用 parentId，没有时取大纲中前面最近的章
+ */
+const findParentChapterId = (outline: OutlineItem[], index: number): string | undefined => {
+  const item = outline[index];
+  if (item.parentId && outline.some(other => other.id === item.parentId)) return item.parentId;
+  for (let i = index - 1; i >= 0; i--) {
+    if (outline[i].type === 'chapter') return outline[i].id;
+  }
+  return undefined;
+};
+
+/**
+ * 合并大纲层级和概念，计算从左到右的树形布局
+ * 根节点、章、节、概念各占一列；叶子节点依次排列，父节点与子节点的中点对齐
+ * 不属于任何大纲项的概念挂在根节点下
+ */
+export const layoutConceptMap = (
+  conceptMap: ConceptMap | undefined,
+  outline: OutlineItem[],
+  title: string
+): ConceptMapLayout => {
+  const ROOT_ID = 'root';
+  const children = new Map<string, string[]>();
+  const addChild = (parentId: string, childId: string) => {
+    if (!children.has(parentId)) children.set(parentId, []);
+    children.get(parentId)!.push(childId);
+  };
+
+  const nodes = new Map<string, Omit<ConceptMapLayoutNode, 'x' | 'y'> & { column: number }>();
+  const edges: ConceptMapLayoutEdge[] = [];
+  nodes.set(ROOT_ID, { id: ROOT_ID, kind: 'root', label: title, displayLabel: truncateLabel(title), column: 0 });
+
+  outline.forEach((item, index) => {
+    const parentId = item.type === 'section' ? findParentChapterId(outline, index) || ROOT_ID : ROOT_ID;
+    nodes.set(item.id, {
+      id: item.id,
+      kind: item.type,
+      label: item.title,
+      displayLabel: truncateLabel(item.title),
+      outlineItemId: item.id,
+      column: item.type === 'section' ? 2 : 1,
+    });
+    addChild(parentId, item.id);
+    edges.push({ from: parentId, to: item.id, kind: 'hierarchy' });
+  });
+
+  for (const concept of conceptMap?.concepts || []) {
+    const parentId = concept.outlineItemId && nodes.has(concept.outlineItemId) ? concept.outlineItemId : ROOT_ID;
+    nodes.set(concept.id, {
+      id: concept.id,
+      kind: 'concept',
+      label: concept.label,
+      displayLabel: truncateLabel(concept.label),
+      description: concept.description,
+      outlineItemId: concept.outlineItemId,
+      column: 3,
+    });
+    addChild(parentId, concept.id);
+    edges.push({ from: parentId, to: concept.id, kind: 'hierarchy' });
+  }
+
+  for (const relation of conceptMap?.relations || []) {
+    if (nodes.has(relation.from) && nodes.has(relation.to)) {
+      edges.push({ from: relation.from, to: relation.to, kind: relation.type });
+    }
+  }
+
+  // 叶子节点依次占一行，父节点居中
+  const rowHeight = NODE_HEIGHT + ROW_GAP;
+  const positions = new Map<string, number>();
+  let nextRow = 0;
+  const place = (id: string): number => {
+    const childIds = children.get(id) || [];
+    if (childIds.length === 0) {
+      positions.set(id, nextRow * rowHeight);
+      nextRow++;
+    } else {
+      const childYs = childIds.map(place);
+      positions.set(id, (childYs[0] + childYs[childYs.length - 1]) / 2);
+    }
+    return positions.get(id)!;
+  };
+  place(ROOT_ID);
+
+  const layoutNodes: ConceptMapLayoutNode[] = Array.from(nodes.values()).map(({ column, ...node }) => ({
+    ...node,
+    x: column * (NODE_WIDTH + COLUMN_GAP),
+    y: positions.get(node.id) ?? 0,
+  }));
+  const maxColumn = Math.max(...Array.from(nodes.values()).map(node => node.column));
+
+  return {
+    nodes: layoutNodes,
+    edges,
+    width: maxColumn * (NODE_WIDTH + COLUMN_GAP) + NODE_WIDTH,
+    height: Math.max(1, nextRow) * rowHeight - ROW_GAP,
+  };
+};
+
+/**
+ * Mermaid 标签中的引号用实体表示
+ */
+const escapeMermaidLabel = (label: string): string => label.replace(/"/g, '#quot;').replace(/\s+/g, ' ');
+
+/**
+ * 导出为 Mermaid 流程图
+ */
+export const toMermaid = (layout: ConceptMapLayout): string => {
+  const ids = new Map(layout.nodes.map((node, index) => [node.id, `n${index}`]));
+  const shapes: Record<ConceptMapLayoutNode['kind'], [string, string]> = {
+    root: ['((', '))'],
+    chapter: ['[', ']'],
+    section: ['(', ')'],
+    concept: ['([', '])'],
+  };
+  const arrows: Record<ConceptMapLayoutEdge['kind'], (label: string) => string> = {
+    hierarchy: () => '-->',
+    prerequisiteOf: label => `==>|${label}|`,
+    partOf: label => `-.->|${label}|`,
+    contrastsWith: label => `<-.->|${label}|`,
+  };
+
+  const lines = ['flowchart LR'];
+  for (const node of layout.nodes) {
+    const [open, close] = shapes[node.kind];
+    lines.push(`  ${ids.get(node.id)}${open}"${escapeMermaidLabel(node.label)}"${close}`);
+  }
+  for (const edge of layout.edges) {
+    const label = edge.kind === 'hierarchy' ? '' : escapeMermaidLabel(t(`conceptMap.relations.${edge.kind}`));
+    lines.push(`  ${ids.get(edge.from)} ${arrows[edge.kind](label)} ${ids.get(edge.to)}`);
+  }
+  return lines.join('\n');
+};
+
+const escapeXml = (text: string): string => {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+};
+
+/**
+ * 导出为 OPML 大纲：按大纲层级嵌套，概念的说明和关系写在备注中
+ */
+export const toOpml = (layout: ConceptMapLayout): string => {
+  const nodesById = new Map(layout.nodes.map(node => [node.id, node]));
+  const childIds = new Map<string, string[]>();
+  const relationNotes = new Map<string, string[]>();
+  for (const edge of layout.edges) {
+    if (edge.kind === 'hierarchy') {
+      if (!childIds.has(edge.from)) childIds.set(edge.from, []);
+      childIds.get(edge.from)!.push(edge.to);
+    } else {
+      if (!relationNotes.has(edge.from)) relationNotes.set(edge.from, []);
+      relationNotes.get(edge.from)!.push(`${t(`conceptMap.relations.${edge.kind}`)}: ${nodesById.get(edge.to)?.label}`);
+    }
+  }
+
+  const renderOutline = (id: string, depth: number): string => {
+    const node = nodesById.get(id)!;
+    const note = [node.description, ...(relationNotes.get(id) || [])].filter(Boolean).join('\n');
+    const attributes = `text="${escapeXml(node.label)}"${note ? ` _note="${escapeXml(note).replace(/\n/g, '&#10;')}"` : ''}`;
+    const indent = '  '.repeat(depth);
+    const nested = (childIds.get(id) || []).map(childId => renderOutline(childId, depth + 1));
+    return nested.length > 0
+      ? `${indent}<outline ${attributes}>\n${nested.join('\n')}\n${indent}</outline>`
+      : `${indent}<outline ${attributes}/>`;
+  };
+
+  const root = layout.nodes.find(node => node.kind === 'root');
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<opml version="2.0">',
+    '  <head>',
+    `    <title>${escapeXml(root?.label || '')}</title>`,
+    '  </head>',
+    '  <body>',
+    ...(childIds.get(root?.id || '') || []).map(id => renderOutline(id, 2)),
+    '  </body>',
+    '</opml>',
+  ].join('\n');
+};
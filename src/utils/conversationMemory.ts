@@ -0,0 +1,196 @@
+/**
+ * 对话记忆工具
+ *
+ * 长时间学习后对话历史会越来越长，全部发送既容易超出上下文又浪费费用：
+ * - 最近几轮对话保留原文
+ * - 更早的对话按章节压缩成“学习者已学内容”摘要
+ * - 发送前按 tokenBudget 分配给对话历史的预算裁剪，保证不超预算
+ *
+ * 本模块只负责纯计算，生成摘要的AI请求见 aiService.updateConversationMemory
+ */
+
+import { ChapterSummary, ChatMessage, ConversationMemory, OutlineItem } from '../types';
+import { estimateTokens } from './tokenBudget';
+
+/** 保留原文的最近轮数（一问一答为一轮） */
+const KEEP_RECENT_TURNS = 4;
+/** 至少积累这么多条未摘要的旧消息才触发一次摘要，避免频繁请求 */
+const SUMMARIZE_BATCH_MIN = 6;
+/** 摘要在历史预算中最多占用的比例 */
+const SUMMARY_BUDGET_RATIO = 0.4;
+/** 未关联章节的对话使用的标题 */
+const GENERAL_CHAPTER_TITLE = '课程导入与综合讨论';
+
+/**
+ * 消息所属章节的分组键
+ */
+const getChapterKey = (chapterId?: string): string => chapterId || 'general';
+
+/**
+ * 获取章节标题
+ */
+const getChapterTitle = (outline: OutlineItem[], chapterId?: string): string => {
+  if (!chapterId) return GENERAL_CHAPTER_TITLE;
+  return outline.find(item => item.id === chapterId)?.title || GENERAL_CHAPTER_TITLE;
+};
+
+/**
+ * 拆分出需要参与记忆管理的对话消息（系统消息始终原样保留）
+ */
+const getDialogueMessages = (messages: ChatMessage[]): ChatMessage[] => {
+  return messages.filter(m => m.role !== 'system');
+};
+
+/**
+ * 已被摘要覆盖的对话消息数量
+ * 记录的消息已不存在（如历史被修改）时视为没有摘要
+ */
+const getSummarizedCount = (dialogue: ChatMessage[], memory?: ConversationMemory): number => {
+  if (!memory?.summarizedUntilMessageId) return 0;
+  return dialogue.findIndex(m => m.id === memory.summarizedUntilMessageId) + 1;
+};
+
+/**
+ * 检查记忆是否与当前对话历史一致
+ */
+export const isConversationMemoryValid = (messages: ChatMessage[], memory?: ConversationMemory): boolean => {
+  if (!memory?.summarizedUntilMessageId) return true;
+  return getSummarizedCount(getDialogueMessages(messages), memory) > 0;
+};
+
+/**
+ * 待摘要的消息（按章节分组）
+ */
+export interface PendingSummary {
+  /** 按章节分组的消息 */
+  groups: Array<{ chapterId?: string; chapterTitle: string; messages: ChatMessage[] }>;
+  /** 本批最后一条消息ID，摘要完成后记为 summarizedUntilMessageId */
+  lastMessageId: string;
+}
+
+/**
+ * 找出应当被压缩进摘要的消息
+ * 最近几轮始终保留原文，旧消息积累到一定数量后才返回，不需要摘要时返回 null；
+ * 单批消息超过 maxTokens 时只取前面一部分，其余留给下一次摘要
+ */
+export const getMessagesToSummarize = (
+  messages: ChatMessage[],
+  memory: ConversationMemory | undefined,
+  outline: OutlineItem[],
+  maxTokens: number = Infinity
+): PendingSummary | null => {
+  const dialogue = getDialogueMessages(messages);
+  const summarizedCount = getSummarizedCount(dialogue, memory);
+  const recentStart = Math.max(0, dialogue.length - KEEP_RECENT_TURNS * 2);
+  const candidates = dialogue.slice(summarizedCount, recentStart);
+
+  if (candidates.length < SUMMARIZE_BATCH_MIN) {
+    return null;
+  }
+
+  const pending: ChatMessage[] = [];
+  let usedTokens = 0;
+  for (const message of candidates) {
+    const cost = estimateTokens(message.content);
+    if (pending.length > 0 && usedTokens + cost > maxTokens) break;
+    pending.push(message);
+    usedTokens += cost;
+  }
+
+  const groups = new Map<string, PendingSummary['groups'][number]>();
+  for (const message of pending) {
+    const key = getChapterKey(message.chapterId);
+    if (!groups.has(key)) {
+      groups.set(key, {
+        chapterId: message.chapterId,
+        chapterTitle: getChapterTitle(outline, message.chapterId),
+        messages: [],
+      });
+    }
+    groups.get(key)!.messages.push(message);
+  }
+
+  return {
+    groups: Array.from(groups.values()),
+    lastMessageId: pending[pending.length - 1].id,
+  };
+};
+
+/**
+ * 将新生成的章节摘要合并进记忆
+ */
+export const mergeChapterSummaries = (
+  memory: ConversationMemory | undefined,
+  updates: Array<Omit<ChapterSummary, 'updatedAt'>>,
+  summarizedUntilMessageId: string
+): ConversationMemory => {
+  const now = Date.now();
+  const summaries = [...(memory?.summaries || [])];
+
+  for (const update of updates) {
+    const index = summaries.findIndex(s => getChapterKey(s.chapterId) === getChapterKey(update.chapterId));
+    if (index >= 0) {
+      summaries[index] = {
+        ...update,
+        messageCount: summaries[index].messageCount + update.messageCount,
+        updatedAt: now,
+      };
+    } else {
+      summaries.push({ ...update, updatedAt: now });
+    }
+  }
+
+  return {
+    summaries,
+    summarizedUntilMessageId,
+    updatedAt: now,
+  };
+};
+
+/**
+ * 在预算内组装发给AI的对话历史
+ * 返回摘要文本（没有时为 null）和保留原文的消息；超出预算时先丢弃最早的章节摘要，再丢弃最早的原文消息，
+ * 但始终保留最后一条消息（即用户当前的提问）
+ */
+export const buildConversationHistory = (
+  messages: ChatMessage[],
+  memory: ConversationMemory | undefined,
+  tokenBudget: number
+): { summaryText: string | null; recentMessages: ChatMessage[]; omittedCount: number; omittedTokens: number } => {
+  const systemMessages = messages.filter(m => m.role === 'system');
+  const dialogue = getDialogueMessages(messages);
+  const summarizedCount = getSummarizedCount(dialogue, memory);
+
+  // 摘要部分：超出占比时从最早的章节开始丢弃
+  const summaries = summarizedCount > 0 ? [...(memory?.summaries || [])] : [];
+  const formatSummaries = (items: ChapterSummary[]) => items
+    .map(s => `《${s.chapterTitle}》：${s.content}`)
+    .join('\n');
+  while (summaries.length > 1 && estimateTokens(formatSummaries(summaries)) > tokenBudget * SUMMARY_BUDGET_RATIO) {
+    summaries.shift();
+  }
+  const summaryText = summaries.length > 0 ? formatSummaries(summaries) : null;
+
+  // 原文部分：从最新的消息往前取，直到用完剩余预算
+  let remaining = tokenBudget - (summaryText ? estimateTokens(summaryText) : 0);
+  const candidates = dialogue.slice(summarizedCount);
+  const recent: ChatMessage[] = [];
+  for (let i = candidates.length - 1; i >= 0; i--) {
+    const cost = estimateTokens(candidates[i].content);
+    if (recent.length > 0 && cost > remaining) break;
+    recent.unshift(candidates[i]);
+    remaining -= cost;
+  }
+
+  const omitted = candidates.slice(0, candidates.length - recent.length);
+  if (omitted.length > 0) {
+    console.warn(`⚠️ 对话历史超出预算(${tokenBudget} tokens)，已省略 ${omitted.length} 条较早的未摘要消息`);
+  }
+
+  return {
+    summaryText,
+    recentMessages: [...systemMessages, ...recent],
+    omittedCount: omitted.length,
+    omittedTokens: omitted.reduce((sum, m) => sum + estimateTokens(m.content), 0),
+  };
+};
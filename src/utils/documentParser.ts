@@ -12,6 +12,8 @@
  */
 
 import { DocumentParseResult, DocumentSplit } from '../types';
+import { CHAPTER_HEADING_LINE_PATTERN } from './chapterNumbering';
+import { t } from './i18n';
 
 /**
  * 通用文档解析函数
@@ -31,20 +33,20 @@ export const parseDocument = async (
     // 如果输入是字符串，判断是URL还是文本内容
     if (typeof input === 'string') {
       if (type === 'url' || isValidURL(input)) {
-        progressCallback?.(50, '正在抓取网页内容...');
+        progressCallback?.(50, t('parser.fetchingUrl'));
         const result = await parseURL(input);
-        progressCallback?.(100, '网页解析完成！');
-        return result;
+        progressCallback?.(100, t('parser.urlDone'));
+        return { ...result, documentType: 'url' };
       } else if (type === 'markdown' || input.includes('# ') || input.includes('## ')) {
-        progressCallback?.(50, '正在解析Markdown内容...');
+        progressCallback?.(50, t('parser.parsingMarkdown'));
         const result = parseMarkdown(input);
-        progressCallback?.(100, 'Markdown解析完成！');
-        return result;
+        progressCallback?.(100, t('parser.markdownDone'));
+        return { ...result, documentType: 'markdown' };
       } else {
-        progressCallback?.(50, '正在处理文本内容...');
+        progressCallback?.(50, t('parser.processingText'));
         const result = parseText(input);
-        progressCallback?.(100, '文本处理完成！');
-        return result;
+        progressCallback?.(100, t('parser.textDone'));
+        return { ...result, documentType: 'text' };
       }
     }
 
@@ -54,36 +56,36 @@ export const parseDocument = async (
     switch (fileType) {
       case 'pdf':
         // PDF解析支持进度回调
-        return await parsePDF(input, progressCallback);
+        return { ...(await parsePDF(input, progressCallback)), documentType: 'pdf' };
       case 'word':
-        progressCallback?.(50, '正在解析Word文档...');
+        progressCallback?.(50, t('parser.parsingWord'));
         const wordResult = await parseWord(input);
-        progressCallback?.(100, 'Word文档解析完成！');
-        return wordResult;
+        progressCallback?.(100, t('parser.wordDone'));
+        return { ...wordResult, documentType: 'word' };
       case 'ppt':
-        progressCallback?.(50, '正在解析PowerPoint文档...');
+        progressCallback?.(50, t('parser.parsingPowerPoint'));
         const pptResult = await parsePowerPoint(input);
-        progressCallback?.(100, 'PowerPoint文档解析完成！');
-        return pptResult;
+        progressCallback?.(100, t('parser.powerPointDone'));
+        return { ...pptResult, documentType: 'ppt' };
       case 'markdown':
-        progressCallback?.(25, '正在读取Markdown文件...');
+        progressCallback?.(25, t('parser.readingMarkdown'));
         const markdownContent = await readFileAsText(input);
-        progressCallback?.(75, '正在解析Markdown内容...');
+        progressCallback?.(75, t('parser.parsingMarkdown'));
         const markdownResult = parseMarkdown(markdownContent);
-        progressCallback?.(100, 'Markdown文件解析完成！');
-        return markdownResult;
+        progressCallback?.(100, t('parser.markdownFileDone'));
+        return { ...markdownResult, documentType: 'markdown' };
       case 'text':
       default:
-        progressCallback?.(25, '正在读取文本文件...');
+        progressCallback?.(25, t('parser.readingText'));
         const textContent = await readFileAsText(input);
-        progressCallback?.(75, '正在处理文本内容...');
+        progressCallback?.(75, t('parser.processingText'));
         const textResult = parseText(textContent);
-        progressCallback?.(100, '文本文件处理完成！');
-        return textResult;
+        progressCallback?.(100, t('parser.textFileDone'));
+        return { ...textResult, documentType: 'text' };
     }
   } catch (error) {
     console.error('文档解析失败:', error);
-    progressCallback?.(0, '解析失败');
+    progressCallback?.(0, t('parser.failed'));
     return {
       success: false,
       content: '',
@@ -404,7 +406,7 @@ const parsePDF = async (
 ): Promise<DocumentParseResult> => {
   try {
     // 更新进度: 开始加载PDF.js
-    progressCallback?.(5, '正在初始化PDF解析器...');
+    progressCallback?.(5, t('parser.initPdf'));
     
     // 使用CDN版本的PDF.js worker来避免构建问题
     const pdfjs = await import('pdfjs-dist/legacy/build/pdf.js');
@@ -446,15 +448,15 @@ const parsePDF = async (
     }
     
     // 更新进度: 正在读取文件
-    progressCallback?.(10, '正在读取PDF文件...');
+    progressCallback?.(10, t('parser.readingPdf'));
     
     // 分块读取大文件，避免内存溢出
     const arrayBuffer = await readFileInChunks(file, (progress) => {
-      progressCallback?.(10 + progress * 0.1, '正在读取PDF文件...');
+      progressCallback?.(10 + progress * 0.1, t('parser.readingPdf'));
     });
     
     // 更新进度: 正在解析PDF结构
-    progressCallback?.(20, '正在解析PDF文档结构...');
+    progressCallback?.(20, t('parser.parsingPdfStructure'));
     
     const pdf = await pdfjs.getDocument({ data: arrayBuffer }).promise;
     const totalPages = pdf.numPages;
@@ -465,6 +467,12 @@ const parsePDF = async (
     }
     
     let fullText = '';
+    // 每页在全文中的起始位置，引用原文时据此定位页码
+    const pageOffsets: number[] = [];
+    const appendPage = (pageText: string) => {
+      pageOffsets.push(fullText.length);
+      fullText += pageText + '\n\n';
+    };
     const batchSize = totalPages > 50 ? 10 : 5; // 大文档使用更大的批次
     
     // 分批处理页面，避免内存压力过大
@@ -474,7 +482,7 @@ const parsePDF = async (
       
       progressCallback?.(
         20 + batchProgress, 
-        `正在解析第 ${startPage}-${endPage} 页 (共 ${totalPages} 页)...`
+        t('parser.parsingPdfPages', { start: startPage, end: endPage, total: totalPages })
       );
       
       // 并行处理批次内的页面
@@ -485,17 +493,17 @@ const parsePDF = async (
       
       try {
         const batchTexts = await Promise.all(batchPromises);
-        fullText += batchTexts.join('\n\n') + '\n\n';
+        batchTexts.forEach(appendPage);
       } catch (batchError) {
         console.warn(`批次 ${startPage}-${endPage} 解析部分失败:`, batchError);
         // 对失败的页面进行单独重试
         for (let pageNum = startPage; pageNum <= endPage; pageNum++) {
           try {
             const pageText = await extractPageText(pdf, pageNum);
-            fullText += pageText + '\n\n';
+            appendPage(pageText);
           } catch (pageError) {
             console.warn(`第 ${pageNum} 页解析失败，跳过:`, pageError);
-            fullText += `[第${pageNum}页解析失败]\n\n`;
+            appendPage(`[第${pageNum}页解析失败]`);
           }
         }
       }
@@ -507,7 +515,7 @@ const parsePDF = async (
     }
     
     // 更新进度: 完成解析
-    progressCallback?.(90, '正在整理解析结果...');
+    progressCallback?.(90, t('parser.collectingResults'));
     
     const wordCount = fullText.trim().split(/\s+/).length;
     
@@ -516,11 +524,13 @@ const parsePDF = async (
       console.info(`文档内容较长(${wordCount}字)，建议用户考虑分段处理`);
     }
     
-    progressCallback?.(100, '解析完成！');
+    progressCallback?.(100, t('parser.done'));
     
     const trimmedContent = fullText.trim();
     const documentTitle = file.name.replace(/\.[^/.]+$/, '');
     const requiresSplit = shouldSplitDocument(trimmedContent);
+    // 去掉开头空白后页码位置随之前移
+    const leadingWhitespace = fullText.length - fullText.trimStart().length;
     
     const result: DocumentParseResult = {
       success: true,
@@ -528,6 +538,7 @@ const parsePDF = async (
       title: documentTitle,
       metadata: {
         pageCount: totalPages,
+        pageOffsets: pageOffsets.map(offset => Math.min(Math.max(0, offset - leadingWhitespace), trimmedContent.length)),
         wordCount: wordCount,
         // 注意：fileSize 不在 DocumentParseResult.metadata 类型定义中
         // processingTime: Date.now(), // 可用于性能分析
@@ -1047,7 +1058,7 @@ const splitByChapters = (
   const chapterPatterns = [
     /^第[一二三四五六七八九十\d]+章\s+[^\n]+/gm,      // 第X章 标题
     /^第[一二三四五六七八九十\d]+部分\s+[^\n]+/gm,    // 第X部分 标题
-    /^Chapter\s+\d+[:\s]+[^\n]+/gmi,                // Chapter X: Title
+    CHAPTER_HEADING_LINE_PATTERN,                   // Chapter X: Title / Chapter Three / Part II
     /^\d+\.\s+[^\n]{8,80}$/gm,                      // 1. 标题形式
     /^[一二三四五六七八九十]\s*[、\.]\s*[^\n]{8,80}$/gm, // 一、标题形式
     /^#{1,3}\s+[^\n]{8,80}$/gm,                     // Markdown标题
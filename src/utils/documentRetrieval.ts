@@ -0,0 +1,454 @@
+/**
+ * 文档检索工具
+ *
+ * 为长文档对话提供本地检索能力，替代固定窗口截取：
+ * - 按段落将文档切分为片段
+ * - 中英文混合分词（英文按单词，中文按二元组）
+ * - BM25 关键词检索
+ * - 服务商支持向量化时，叠加向量相似度做混合排序
+ * - 索引随学习会话保存，刷新页面后无需重建
+ */
+
+import { APIConfig, ChatMessage, DocumentChunk, OutlineItem, RetrievalIndex } from '../types';
+import { getProviderAdapter } from './aiProviders';
+import { isProxyMode } from './aiProxy';
+import { getFixtureMode } from './aiFixtures';
+import { isChapterHeading } from './chapterNumbering';
+
+/** 索引格式版本，分词或切分规则变化时递增 */
+const INDEX_VERSION = 1;
+/** 片段目标长度（字符） */
+const CHUNK_SIZE = 800;
+/** BM25 参数 */
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+/** 每批向量化的片段数量 */
+const EMBEDDING_BATCH_SIZE = 32;
+/** 向量保存的小数位数（减小存储体积，对相似度影响可忽略） */
+const EMBEDDING_PRECISION = 4;
+
+/** 英文停用词（中文使用二元组，停用字影响较小，不单独处理） */
+const STOP_WORDS = new Set([
+  'the', 'a', 'an', 'and', 'or', 'of', 'to', 'in', 'on', 'for', 'is', 'are', 'was', 'were',
+  'be', 'it', 'this', 'that', 'with', 'as', 'by', 'at', 'from', 'what', 'how', 'why',
+]);
+
+/**
+ * 检索得到的文档片段
+ */
+export interface RetrievedPassage {
+  /** 片段信息 */
+  chunk: DocumentChunk;
+  /** 片段原文 */
+  content: string;
+  /** 综合得分 */
+  score: number;
+}
+
+/**
+ * 计算文档指纹（djb2），用于判断索引是否与文档内容一致
+ */
+export const hashContent = (content: string): string => {
+  let hash = 5381;
+  for (let i = 0; i < content.length; i++) {
+    hash = ((hash << 5) + hash + content.charCodeAt(i)) | 0;
+  }
+  return `${content.length}-${(hash >>> 0).toString(36)}`;
+};
+
+/**
+ * 中英文混合分词
+ * 英文和数字按单词切分，中文连续片段切分为二元组（单字片段保留单字）
+ */
+export const tokenize = (text: string): string[] => {
+  const tokens: string[] = [];
+  const segments = text.toLowerCase().match(/[a-z0-9]+|[\u4e00-\u9fff]+/g) || [];
+
+  for (const segment of segments) {
+    if (/^[a-z0-9]/.test(segment)) {
+      if (segment.length > 1 && !STOP_WORDS.has(segment)) {
+        tokens.push(segment);
+      }
+      continue;
+    }
+
+    if (segment.length === 1) {
+      tokens.push(segment);
+      continue;
+    }
+    for (let i = 0; i < segment.length - 1; i++) {
+      tokens.push(segment.slice(i, i + 2));
+    }
+  }
+
+  return tokens;
+};
+
+/**
+ * 判断一行文本是否为标题
+ */
+const isHeadingLine = (line: string): boolean => {
+  const trimmed = line.trim();
+  if (!trimmed || trimmed.length > 60) return false;
+  return /^#{1,6}\s+/.test(trimmed) ||
+    /^第[一二三四五六七八九十百\d]+[章节部分篇]/.test(trimmed) ||
+    isChapterHeading(trimmed) ||
+    /^Section\s*\d+/i.test(trimmed) ||
+    /^\d+(\.\d+)*[\s、.]\s*\S/.test(trimmed);
+};
+
+/**
+ * 将文档切分为片段
+ * 以段落为单位累积到目标长度，超长段落按句子边界再切分，只记录原文位置
+ */
+const splitIntoChunks = (content: string): Array<Omit<DocumentChunk, 'index' | 'length'>> => {
+  const chunks: Array<Omit<DocumentChunk, 'index' | 'length'>> = [];
+  const paragraphPattern = /[^\n]+/g;
+  let currentHeading: string | undefined;
+  let chunkStart = -1;
+  let chunkEnd = 0;
+  let chunkHeading: string | undefined;
+
+  const flush = () => {
+    if (chunkStart >= 0 && chunkEnd > chunkStart) {
+      chunks.push({ start: chunkStart, end: chunkEnd, heading: chunkHeading });
+    }
+    chunkStart = -1;
+  };
+
+  let match: RegExpExecArray | null;
+  while ((match = paragraphPattern.exec(content)) !== null) {
+    const line = match[0];
+    if (!line.trim()) continue;
+
+    const lineStart = match.index;
+    const lineEnd = lineStart + line.length;
+
+    // 遇到标题时另起片段，保证片段不跨章节
+    if (isHeadingLine(line)) {
+      flush();
+      currentHeading = line.trim().replace(/^#+\s*/, '');
+    }
+
+    // 超长段落按句子边界切分
+    if (line.length > CHUNK_SIZE) {
+      flush();
+      let pieceStart = lineStart;
+      while (pieceStart < lineEnd) {
+        let pieceEnd = Math.min(pieceStart + CHUNK_SIZE, lineEnd);
+        if (pieceEnd < lineEnd) {
+          const window = content.slice(pieceStart, pieceEnd);
+          const lastBreak = Math.max(
+            window.lastIndexOf('。'), window.lastIndexOf('！'), window.lastIndexOf('？'),
+            window.lastIndexOf('. '), window.lastIndexOf('; ')
+          );
+          if (lastBreak > CHUNK_SIZE / 2) {
+            pieceEnd = pieceStart + lastBreak + 1;
+          }
+        }
+        chunks.push({ start: pieceStart, end: pieceEnd, heading: currentHeading });
+        pieceStart = pieceEnd;
+      }
+      continue;
+    }
+
+    if (chunkStart >= 0 && lineEnd - chunkStart > CHUNK_SIZE) {
+      flush();
+    }
+    if (chunkStart < 0) {
+      chunkStart = lineStart;
+      chunkHeading = currentHeading;
+    }
+    chunkEnd = lineEnd;
+  }
+  flush();
+
+  return chunks;
+};
+
+/**
+ * 构建文档检索索引（仅关键词部分，向量通过 addEmbeddingsToIndex 追加）
+ */
+export const buildRetrievalIndex = (documentContent: string): RetrievalIndex => {
+  const rawChunks = splitIntoChunks(documentContent);
+  const docFreq: Record<string, number> = {};
+  let totalLength = 0;
+
+  const chunks: DocumentChunk[] = rawChunks.map((chunk, index) => {
+    const tokens = tokenize(documentContent.slice(chunk.start, chunk.end));
+    for (const token of new Set(tokens)) {
+      docFreq[token] = (docFreq[token] || 0) + 1;
+    }
+    totalLength += tokens.length;
+    return { ...chunk, index, length: tokens.length };
+  });
+
+  console.log(`🔎 文档检索索引已构建: ${chunks.length} 个片段, ${Object.keys(docFreq).length} 个词项`);
+
+  return {
+    version: INDEX_VERSION,
+    documentHash: hashContent(documentContent),
+    chunks,
+    docFreq,
+    avgChunkLength: chunks.length > 0 ? totalLength / chunks.length : 0,
+    createdAt: Date.now(),
+  };
+};
+
+/**
+ * 检查索引是否仍然适用于当前文档
+ */
+export const isRetrievalIndexValid = (index: RetrievalIndex | undefined, documentContent: string): boolean => {
+  return !!index &&
+    index.version === INDEX_VERSION &&
+    index.documentHash === hashContent(documentContent);
+};
+
+/**
+ * 获取服务商当前使用的向量模型标识（provider:model），不支持向量化时返回 null
+ */
+const getEmbeddingKey = (config: APIConfig): string | null => {
+  const adapter = getProviderAdapter(config.provider);
+  // 代理模式下浏览器没有密钥，无法直接请求向量接口；回放模式下不请求服务商。两者都只使用关键词检索
+  if (!adapter?.embed || !adapter.embeddingModel || isProxyMode(config) || getFixtureMode() === 'replay') return null;
+  return `${config.provider}:${adapter.embeddingModel(config)}`;
+};
+
+/**
+ * 判断索引是否还需要（并且可以）为当前服务商生成向量
+ */
+export const needsEmbeddings = (index: RetrievalIndex, config: APIConfig): boolean => {
+  const key = getEmbeddingKey(config);
+  if (!key || index.chunks.length === 0) return false;
+  if (index.embeddingUnavailable === key) return false;
+  return !index.embeddings || `${index.embeddings.provider}:${index.embeddings.model}` !== key;
+};
+
+/**
+ * 为索引中的片段生成向量
+ * 向量化失败时记录下来并返回仅含关键词检索的索引，不影响对话
+ */
+export const addEmbeddingsToIndex = async (
+  index: RetrievalIndex,
+  documentContent: string,
+  config: APIConfig,
+  signal?: AbortSignal
+): Promise<RetrievalIndex> => {
+  const adapter = getProviderAdapter(config.provider);
+  const key = getEmbeddingKey(config);
+  if (!adapter?.embed || !key) return index;
+
+  try {
+    const vectors: number[][] = [];
+    for (let i = 0; i < index.chunks.length; i += EMBEDDING_BATCH_SIZE) {
+      const batch = index.chunks
+        .slice(i, i + EMBEDDING_BATCH_SIZE)
+        .map(chunk => documentContent.slice(chunk.start, chunk.end));
+      const batchVectors = await adapter.embed(config, batch, signal);
+      if (batchVectors.length !== batch.length) {
+        throw new Error(`向量数量不匹配: 期望 ${batch.length}, 实际 ${batchVectors.length}`);
+      }
+      vectors.push(...batchVectors.map(roundVector));
+    }
+
+    console.log(`🧭 文档向量已生成: ${vectors.length} 个片段 (${key})`);
+    return {
+      ...index,
+      embeddings: {
+        provider: config.provider,
+        model: adapter.embeddingModel!(config),
+        vectors,
+      },
+      embeddingUnavailable: undefined,
+    };
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    console.warn('⚠️ 文档向量化失败，将仅使用关键词检索:', error);
+    return { ...index, embeddingUnavailable: key };
+  }
+};
+
+/**
+ * 降低向量精度以减小存储体积
+ */
+const roundVector = (vector: number[]): number[] => {
+  const factor = 10 ** EMBEDDING_PRECISION;
+  return vector.map(value => Math.round(value * factor) / factor);
+};
+
+/**
+ * 余弦相似度
+ */
+const cosineSimilarity = (a: number[], b: number[]): number => {
+  if (a.length !== b.length || a.length === 0) return 0;
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+};
+
+// 片段词频缓存：词频可由原文快速重建，不随索引保存，按文档指纹缓存在内存中
+const termFreqCache = new Map<string, Array<Map<string, number>>>();
+
+/**
+ * 获取各片段的词频表
+ */
+const getChunkTermFreqs = (index: RetrievalIndex, documentContent: string): Array<Map<string, number>> => {
+  const cached = termFreqCache.get(index.documentHash);
+  if (cached && cached.length === index.chunks.length) return cached;
+
+  const termFreqs = index.chunks.map(chunk => {
+    const freq = new Map<string, number>();
+    for (const token of tokenize(documentContent.slice(chunk.start, chunk.end))) {
+      freq.set(token, (freq.get(token) || 0) + 1);
+    }
+    return freq;
+  });
+  termFreqCache.set(index.documentHash, termFreqs);
+  return termFreqs;
+};
+
+/**
+ * 计算所有片段对查询的 BM25 得分，并归一化到 0-1
+ */
+const scoreBM25 = (
+  index: RetrievalIndex,
+  termFreqs: Array<Map<string, number>>,
+  query: string
+): number[] => {
+  const queryTokens = Array.from(new Set(tokenize(query)));
+  const totalChunks = index.chunks.length;
+  const scores = index.chunks.map((chunk, i) => {
+    let score = 0;
+    for (const token of queryTokens) {
+      const tf = termFreqs[i].get(token);
+      if (!tf) continue;
+      const df = index.docFreq[token] || 0;
+      const idf = Math.log(1 + (totalChunks - df + 0.5) / (df + 0.5));
+      const norm = tf + BM25_K1 * (1 - BM25_B + BM25_B * chunk.length / (index.avgChunkLength || 1));
+      score += idf * (tf * (BM25_K1 + 1)) / norm;
+    }
+    return score;
+  });
+
+  const maxScore = Math.max(0, ...scores);
+  return maxScore > 0 ? scores.map(score => score / maxScore) : scores;
+};
+
+/**
+ * 检索与查询最相关的文档片段
+ * 用户问题为主要查询，当前章节标题作为辅助查询；有向量时与向量相似度加权融合
+ */
+export const retrieveRelevantPassages = async (
+  documentContent: string,
+  index: RetrievalIndex,
+  options: {
+    query: string;
+    chapterTitle?: string;
+    config?: APIConfig;
+    maxChars?: number;
+    signal?: AbortSignal;
+  }
+): Promise<RetrievedPassage[]> => {
+  const { query, chapterTitle, config, maxChars = 6000, signal } = options;
+  const termFreqs = getChunkTermFreqs(index, documentContent);
+
+  const queryScores = scoreBM25(index, termFreqs, query);
+  const chapterScores = chapterTitle ? scoreBM25(index, termFreqs, chapterTitle) : queryScores.map(() => 0);
+
+  // 向量相似度（仅当索引向量与当前服务商的向量模型一致时使用）
+  let vectorScores: number[] | null = null;
+  if (config && index.embeddings && getEmbeddingKey(config) === `${index.embeddings.provider}:${index.embeddings.model}`) {
+    try {
+      const adapter = getProviderAdapter(config.provider);
+      const [queryVector] = await adapter!.embed!(config, [[chapterTitle, query].filter(Boolean).join('\n')], signal);
+      vectorScores = index.embeddings.vectors.map(vector => Math.max(0, cosineSimilarity(queryVector, vector)));
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      console.warn('⚠️ 查询向量化失败，本轮仅使用关键词检索:', error);
+    }
+  }
+
+  const chapterTitleLower = chapterTitle?.toLowerCase();
+  const scored = index.chunks.map((chunk, i) => {
+    const keywordScore = queryScores[i] * 0.7 + chapterScores[i] * 0.3;
+    let score = vectorScores ? keywordScore * 0.5 + vectorScores[i] * 0.5 : keywordScore;
+    // 片段所在标题与当前章节一致时适当加权
+    if (chapterTitleLower && chunk.heading && chunk.heading.toLowerCase().includes(chapterTitleLower)) {
+      score += 0.2;
+    }
+    return { chunk, score };
+  });
+
+  // 按得分挑选片段直至达到字数上限，再按原文顺序排列，保持阅读连贯
+  const selected: RetrievedPassage[] = [];
+  let usedChars = 0;
+  for (const { chunk, score } of scored.sort((a, b) => b.score - a.score)) {
+    if (score <= 0) break;
+    const chunkLength = chunk.end - chunk.start;
+    if (usedChars + chunkLength > maxChars) continue;
+    selected.push({ chunk, content: documentContent.slice(chunk.start, chunk.end), score });
+    usedChars += chunkLength;
+  }
+
+  return selected.sort((a, b) => a.chunk.start - b.chunk.start);
+};
+
+/**
+ * 把检索到的片段拼成提示词中的学习材料，每个片段标注序号和所属标题
+ */
+export const formatRetrievedPassages = (passages: RetrievedPassage[]): string => {
+  return passages
+    .map(passage => `【片段 ${passage.chunk.index + 1}${passage.chunk.heading ? ` · ${passage.chunk.heading}` : ''}】\n${passage.content}`)
+    .join('\n\n');
+};
+
+/**
+ * 按原文顺序列出全部片段，文档能完整放入上下文时用于给片段编号
+ */
+export const getAllPassages = (documentContent: string, index: RetrievalIndex): RetrievedPassage[] => {
+  return index.chunks.map(chunk => ({ chunk, content: documentContent.slice(chunk.start, chunk.end), score: 0 }));
+};
+
+/**
+ * 为当前对话轮次挑选文档上下文
+ * 返回拼好的学习材料和所用片段（私教据片段编号标注引用）；
+ * 文档较短或检索不到相关内容时返回 null，由调用方退回原有的截取策略
+ */
+export const buildRetrievedContext = async (
+  documentContent: string,
+  messages: ChatMessage[],
+  outline: OutlineItem[],
+  index: RetrievalIndex | undefined,
+  currentChapterId: string | undefined,
+  config: APIConfig,
+  maxChars: number,
+  signal?: AbortSignal
+): Promise<{ context: string; passages: RetrievedPassage[] } | null> => {
+  if (documentContent.length <= maxChars || !index || !isRetrievalIndexValid(index, documentContent)) {
+    return null;
+  }
+
+  const lastUserMessage = [...messages].reverse().find(m => m.role === 'user');
+  const currentChapter = outline.find(item => item.id === currentChapterId);
+  const passages = await retrieveRelevantPassages(documentContent, index, {
+    query: lastUserMessage?.content || '',
+    chapterTitle: currentChapter?.title,
+    config,
+    maxChars,
+    signal,
+  });
+
+  if (passages.length === 0) {
+    return null;
+  }
+
+  console.log(`🔎 检索到 ${passages.length} 个相关片段:`, passages.map(p => `#${p.chunk.index}(${p.score.toFixed(2)})`).join(' '));
+
+  return { context: formatRetrievedPassages(passages), passages };
+};
@@ -0,0 +1,297 @@
+/**
+ * 术语表工具
+ *
+ * 生成大纲后从学习材料中提取关键术语：
+ * - 提取响应的 JSON Schema 与字段校验（术语和定义必填）
+ * - 定义依据的原文片段在原文中核实，没有出现在原文中的术语直接丢弃
+ * - 按术语在原文中出现的位置，找出术语所在的大纲项
+ * - 在私教回复的HTML中标出术语（悬停显示定义），把术语转换为学习卡片
+ */
+
+import { GlossaryTerm, LearningCard, OutlineItem } from '../types';
+import { StructuredOutputSchema } from './aiProviders';
+import { extractJsonText } from './outlineSchema';
+import { FIRST_REVIEW_DELAY_MS } from './cardGeneration';
+import { findOutlineItemOffset, findSearchMatches } from './sourceDocument';
+import { escapeHtml, escapeRegExp } from './textEscape';
+import { t } from './i18n';
+
+/** 每次提取的术语数量范围 */
+export const MIN_GLOSSARY_TERMS = 5;
+export const MAX_GLOSSARY_TERMS = 30;
+
+/** 反馈给模型的错误条数上限，避免修复提示过长 */
+const MAX_REPORTED_ERRORS = 20;
+
+/** 太短的写法（如单个字母）在回复中容易误标，不参与标注 */
+const MIN_HIGHLIGHT_CHARS = 2;
+
+/** 回复中不标注术语的部分：代码、引用标签、链接 */
+const SKIPPED_SEGMENT_PATTERN = /(<pre[\s\S]*?<\/pre>|<code[\s\S]*?<\/code>|<button[\s\S]*?<\/button>|<a\b[\s\S]*?<\/a>)/;
+
+/**
+ * 提取响应的 JSON Schema
+ * quote 要求逐字摘录，解析时据此在原文中核实定义
+ */
+export const GLOSSARY_RESPONSE_SCHEMA: StructuredOutputSchema = {
+  name: 'glossary',
+  description: '从学习材料中提取的关键术语',
+  schema: {
+    type: 'object',
+    properties: {
+      terms: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            term: { type: 'string', description: '术语（与原文中的写法一致）' },
+            aliases: { type: 'array', items: { type: 'string' }, description: '原文中的其他写法，如缩写、英文名' },
+            definition: { type: 'string', description: '依据原文给出的定义' },
+            quote: { type: 'string', description: '定义依据的原文句子（逐字摘录）' },
+            sections: { type: 'array', items: { type: 'string' }, description: '术语出现的小节ID' },
+          },
+          required: ['term', 'definition'],
+        },
+      },
+    },
+    required: ['terms'],
+  },
+};
+
+const isNonEmptyString = (value: unknown): value is string => {
+  return typeof value === 'string' && value.trim().length > 0;
+};
+
+const WORD_CHAR_PATTERN = /[A-Za-z0-9_]/;
+
+/**
+ * 匹配到的文字是否是完整的词（英文术语不能是其他单词的一部分，中文不受限制）
+ */
+const isWholeWord = (text: string, start: number, length: number): boolean => {
+  const end = start + length;
+  const startsWithWord = WORD_CHAR_PATTERN.test(text[start]);
+  const endsWithWord = WORD_CHAR_PATTERN.test(text[end - 1]);
+  return !(startsWithWord && start > 0 && WORD_CHAR_PATTERN.test(text[start - 1])) &&
+    !(endsWithWord && end < text.length && WORD_CHAR_PATTERN.test(text[end]));
+};
+
+/**
+ * 术语在原文中出现的位置（不区分大小写，只算完整的词）
+ */
+const findTermOccurrences = (content: string, texts: string[]): number[] => {
+  const positions = texts.flatMap(text =>
+    findSearchMatches(content, text).filter(position => isWholeWord(content, position, text.trim().length))
+  );
+  return Array.from(new Set(positions)).sort((a, b) => a - b);
+};
+
+/**
+ * 原文片段在原文中的位置：先精确查找，再忽略空白差异查找，找不到时返回 -1
+ */
+const locateQuote = (content: string, quote: string): number => {
+  const exact = content.indexOf(quote);
+  if (exact >= 0) return exact;
+  const words = quote.trim().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return -1;
+  const match = content.match(new RegExp(words.map(escapeRegExp).join('\\s+')));
+  return match?.index ?? -1;
+};
+
+/**
+ * 按原文位置查找所在大纲项（大纲项标题的位置只计算一次）
+ */
+const createOutlineLocator = (content: string, outline: OutlineItem[]) => {
+  const offsets = outline
+    .map(item => ({ id: item.id, offset: findOutlineItemOffset(content, outline, item.id) }))
+    .filter(entry => entry.offset >= 0)
+    .sort((a, b) => a.offset - b.offset);
+  return (position: number): string | undefined => {
+    let id: string | undefined;
+    for (const entry of offsets) {
+      if (entry.offset > position) break;
+      id = entry.id;
+    }
+    return id;
+  };
+};
+
+/**
+ * 校验单个术语的字段
+ */
+const validateTerm = (term: any, path: string, errors: string[]) => {
+  if (!term || typeof term !== 'object' || Array.isArray(term)) {
+    errors.push(`${path} 必须是对象`);
+    return;
+  }
+  if (!isNonEmptyString(term.term)) errors.push(`${path}.term 必须是非空字符串`);
+  if (!isNonEmptyString(term.definition)) errors.push(`${path}.definition 必须是非空字符串`);
+  if (term.aliases !== undefined && (!Array.isArray(term.aliases) || !term.aliases.every((alias: unknown) => typeof alias === 'string'))) {
+    errors.push(`${path}.aliases 必须是字符串数组`);
+  }
+  if (term.quote !== undefined && typeof term.quote !== 'string') {
+    errors.push(`${path}.quote 必须是字符串`);
+  }
+  if (term.sections !== undefined && (!Array.isArray(term.sections) || !term.sections.every((id: unknown) => typeof id === 'string'))) {
+    errors.push(`${path}.sections 必须是小节ID数组`);
+  }
+};
+
+/**
+ * 解析并校验模型提取的术语
+ * - 原文片段在原文中核实，找不到时不保留片段
+ * - 术语及其其他写法都没有出现在原文中的直接丢弃，重复的术语只保留第一个
+ * - 所在大纲项按术语在原文中出现的位置确定，原文中找不到小节标题时使用模型给出的小节
+ */
+export const parseGlossaryTerms = (
+  content: string,
+  documentContent: string,
+  outline: OutlineItem[]
+): { terms?: GlossaryTerm[]; errors: string[] } => {
+  let data: any;
+  try {
+    data = JSON.parse(extractJsonText(content));
+  } catch (error) {
+    return {
+      errors: [`输出不是有效的JSON：${error instanceof Error ? error.message : String(error)}`],
+    };
+  }
+
+  if (!data || typeof data !== 'object' || !Array.isArray(data.terms) || data.terms.length === 0) {
+    return { errors: ['输出必须是包含非空 terms 数组的JSON对象'] };
+  }
+
+  const rawTerms = data.terms.slice(0, MAX_GLOSSARY_TERMS);
+  const errors: string[] = [];
+  rawTerms.forEach((term: any, index: number) => validateTerm(term, `terms[${index}]`, errors));
+  if (errors.length > 0) {
+    return { errors: errors.slice(0, MAX_REPORTED_ERRORS) };
+  }
+
+  const locateOutlineItem = createOutlineLocator(documentContent, outline);
+  const outlineIds = new Set(outline.map(item => item.id));
+  const seen = new Set<string>();
+  const terms: Array<{ term: GlossaryTerm; firstOccurrence: number }> = [];
+
+  for (const raw of rawTerms) {
+    const term = raw.term.trim();
+    const key = term.toLowerCase();
+    if (seen.has(key)) continue;
+
+    const aliases: string[] = Array.from(new Set<string>((raw.aliases || []).map((alias: string) => alias.trim())))
+      .filter(alias => alias && alias.toLowerCase() !== key);
+    const occurrences = findTermOccurrences(documentContent, [term, ...aliases]);
+    if (occurrences.length === 0) continue;
+    seen.add(key);
+
+    const quote = isNonEmptyString(raw.quote) ? raw.quote.trim() : '';
+    const quoteStart = quote ? locateQuote(documentContent, quote) : -1;
+    const locatedIds = occurrences.map(locateOutlineItem).filter((id): id is string => !!id);
+    const outlineItemIds = locatedIds.length > 0
+      ? Array.from(new Set(locatedIds))
+      : Array.from(new Set<string>((raw.sections || []).filter((id: string) => outlineIds.has(id))));
+
+    terms.push({
+      term: {
+        id: '',
+        term,
+        ...(aliases.length > 0 ? { aliases } : {}),
+        definition: raw.definition.trim(),
+        ...(quoteStart >= 0 ? { sourceQuote: quote } : {}),
+        sourceStart: quoteStart >= 0 ? quoteStart : occurrences[0],
+        outlineItemIds,
+      },
+      firstOccurrence: occurrences[0],
+    });
+  }
+
+  if (terms.length === 0) {
+    return { errors: ['提取的术语都没有出现在学习材料中，请使用原文中的写法'] };
+  }
+
+  terms.sort((a, b) => a.firstOccurrence - b.firstOccurrence);
+  return { terms: terms.map(({ term }, index) => ({ ...term, id: `term-${index + 1}` })), errors: [] };
+};
+
+/**
+ * 重新生成术语表时保留已生成的卡片关联（按术语匹配）
+ */
+export const carryOverGlossaryCards = (previous: GlossaryTerm[] | undefined, terms: GlossaryTerm[]): GlossaryTerm[] => {
+  const cardIds = new Map((previous || []).filter(term => term.cardId).map(term => [term.term.toLowerCase(), term.cardId]));
+  return terms.map(term => cardIds.has(term.term.toLowerCase()) ? { ...term, cardId: cardIds.get(term.term.toLowerCase()) } : term);
+};
+
+/**
+ * 按关键词筛选术语（匹配术语、其他写法和定义）
+ */
+export const filterGlossaryTerms = (terms: GlossaryTerm[], query: string): GlossaryTerm[] => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return terms;
+  return terms.filter(term =>
+    [term.term, term.definition, ...(term.aliases || [])].some(text => text.toLowerCase().includes(needle))
+  );
+};
+
+/**
+ * 在回复HTML的文字部分标出术语（data-glossary-term 为术语ID，悬停显示定义）
+ * 每个术语只标出第一次出现，代码、引用标签和链接中的内容保持原样
+ */
+export const renderGlossaryTerms = (html: string, terms: GlossaryTerm[] | undefined): string => {
+  if (!terms?.length) return html;
+
+  // 较长的写法优先，避免只标出长术语中的一部分
+  const variants = terms
+    .flatMap(term => [term.term, ...(term.aliases || [])].map(text => ({ text: escapeHtml(text.trim()), term })))
+    .filter(variant => variant.text.length >= MIN_HIGHLIGHT_CHARS)
+    .sort((a, b) => b.text.length - a.text.length);
+  if (variants.length === 0) return html;
+
+  const termsByText = new Map<string, GlossaryTerm>();
+  for (const variant of variants) {
+    const key = variant.text.toLowerCase();
+    if (!termsByText.has(key)) termsByText.set(key, variant.term);
+  }
+  const pattern = new RegExp(variants.map(variant => escapeRegExp(variant.text)).join('|'), 'gi');
+  const highlighted = new Set<string>();
+
+  return html
+    .split(SKIPPED_SEGMENT_PATTERN)
+    .map((segment, index) => index % 2 === 1 ? segment : segment.replace(/(^|>)([^<]+)/g, (_match, lead: string, text: string) =>
+      lead + text.replace(pattern, (found: string, offset: number) => {
+        const term = termsByText.get(found.toLowerCase());
+        if (!term || highlighted.has(term.id) || !isWholeWord(text, offset, found.length)) return found;
+        highlighted.add(term.id);
+        const title = escapeHtml(`${term.term}: ${term.definition}`);
+        return `<span data-glossary-term="${term.id}" title="${title}" class="underline decoration-dotted decoration-primary-500 underline-offset-2 cursor-help">${found}</span>`;
+      })
+    ))
+    .join('');
+};
+
+/**
+ * 把术语转换为学习卡片：标题为提问，内容为定义和原文依据
+ */
+export const createCardFromGlossaryTerm = (
+  term: GlossaryTerm,
+  options: { id: string; sessionId: string }
+): LearningCard => {
+  const now = Date.now();
+  const quoted = term.sourceQuote
+    ? `\n\n${term.sourceQuote.split('\n').map(line => `> ${line}`).join('\n')}`
+    : '';
+
+  return {
+    id: options.id,
+    title: t('glossary.cardQuestion', { term: term.term }),
+    content: `${term.definition}${quoted}`,
+    type: 'bookmark',
+    format: 'qa',
+    tags: [t('glossary.cardTag')],
+    createdAt: now,
+    nextReviewAt: now + FIRST_REVIEW_DELAY_MS,
+    reviewCount: 0,
+    difficulty: 3,
+    sessionId: options.sessionId,
+    messageId: '',
+    chapterId: term.outlineItemIds[0],
+  };
+};
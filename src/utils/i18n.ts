@@ -0,0 +1,90 @@
+/**
+ * 多语言工具
+ *
+ * 界面文字和非模板化的提示词都来自 src/locales 下的消息目录：
+ * - 消息键为点分路径，如 'learn.markComplete'
+ * - 文字中的 {name} 由参数替换
+ * - 当前语言取自用户偏好设置（UserPreferences.language），每次调用时读取，切换后立即生效
+ *
+ * React 组件使用 LanguageContext 提供的 t()，切换语言时会重新渲染；
+ * 非组件代码（AI服务、存储工具等）使用本文件的 t()
+ */
+
+import { Language } from '../types';
+import zh, { Messages } from '../locales/zh';
+import en from '../locales/en';
+import { getUserPreferences } from './storage';
+
+/** 各语言的消息目录，新增语言时在这里注册 */
+const MESSAGES: Record<Language, Messages> = { zh, en };
+
+/** 默认语言（消息缺失时的兜底） */
+export const DEFAULT_LANGUAGE: Language = 'zh';
+
+/** 支持的语言及其显示名称（用各自的语言书写） */
+export const SUPPORTED_LANGUAGES: Array<{ code: Language; label: string }> = [
+  { code: 'zh', label: '中文' },
+  { code: 'en', label: 'English' },
+];
+
+/** 各语言对应的区域设置（用于日期和数字格式化） */
+const LOCALES: Record<Language, string> = { zh: 'zh-CN', en: 'en-US' };
+
+/**
+ * 消息目录中所有文字的点分路径
+ */
+type MessagePaths<T, Prefix extends string = ''> = {
+  [K in keyof T & string]: T[K] extends string ? `${Prefix}${K}` : MessagePaths<T[K], `${Prefix}${K}.`>;
+}[keyof T & string];
+
+export type MessageKey = MessagePaths<Messages>;
+
+export type MessageParams = Record<string, string | number | null | undefined>;
+
+const lookup = (messages: Messages, key: string): string | undefined => {
+  const value = key.split('.').reduce<any>((node, part) => (node == null ? undefined : node[part]), messages);
+  return typeof value === 'string' ? value : undefined;
+};
+
+/**
+ * 翻译指定语言的消息，缺失时依次退回默认语言和消息键本身
+ */
+export const translate = (language: Language, key: MessageKey, params?: MessageParams): string => {
+  const template = lookup(MESSAGES[language] || MESSAGES[DEFAULT_LANGUAGE], key)
+    ?? lookup(MESSAGES[DEFAULT_LANGUAGE], key);
+  if (template === undefined) {
+    console.warn('⚠️ 缺少翻译:', key);
+    return key;
+  }
+  if (!params) return template;
+  return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    params[name] === undefined || params[name] === null ? match : String(params[name])
+  );
+};
+
+/**
+ * 是否为支持的语言
+ */
+export const isSupportedLanguage = (value: unknown): value is Language => {
+  return SUPPORTED_LANGUAGES.some(language => language.code === value);
+};
+
+/**
+ * 语言对应的区域设置，如 'zh-CN'
+ */
+export const getLocale = (language: Language): string => LOCALES[language] || LOCALES[DEFAULT_LANGUAGE];
+
+/**
+ * 当前语言（读取用户偏好设置）
+ */
+export const getCurrentLanguage = (): Language => {
+  const language = getUserPreferences()?.language;
+  return isSupportedLanguage(language) ? language : DEFAULT_LANGUAGE;
+};
+
+/**
+ * 按当前语言翻译（非组件代码使用）
+ */
+export const t = (key: MessageKey, params?: MessageParams): string => {
+  return translate(getCurrentLanguage(), key, params);
+};
@@ -0,0 +1,205 @@
+/**
+ * 学习者模型
+ *
+ * 会话创建时选择的学习水平只是起点，学习过程中根据学习信号连续调整每个大纲项的难度（0 为小白，1 为高手）：
+ * - 测验成绩：高分调高难度，低分调低难度
+ * - 表示没听懂的回复（如“还有疑问”“I don't understand”）调低难度
+ * - 回复间隔：很快接着学调高难度，长时间才回复调低难度（离开太久的不计）
+ * - 跳过反思与探索模块调高难度
+ *
+ * 每个信号同时以较小的幅度调整整体难度，新的大纲项从整体难度开始
+ * 对话时按当前小节的难度决定私教使用的学习水平，并在提示词中说明难度
+ */
+
+import { ChatMessage, ChapterDifficulty, LearnerModel, LearningLevel } from '../types';
+import { t } from './i18n';
+
+/** 两种学习水平对应的初始难度 */
+const LEVEL_DIFFICULTY: Record<LearningLevel, number> = {
+  beginner: 0.25,
+  expert: 0.75,
+};
+
+/** 难度达到该值时按高手水平讲解 */
+const EXPERT_THRESHOLD = 0.5;
+
+/** 整体难度随大纲项难度调整的比例 */
+const OVERALL_RATE = 0.5;
+
+/** 没听懂的回复调低的难度 */
+const CONFUSION_STEP = -0.08;
+
+/** 跳过反思模块调高的难度 */
+const SKIP_STEP = 0.05;
+
+/** 测验成绩以该分数为中点，每高出（低于）100分调整的难度 */
+const QUIZ_PIVOT_SCORE = 70;
+const QUIZ_RATE = 0.3;
+
+/** 回复间隔（以私教回复开始的时间计算）：快于它视为跟得上 */
+const FAST_RESPONSE_MS = 30 * 1000;
+/** 慢于它视为吃力 */
+const SLOW_RESPONSE_MS = 5 * 60 * 1000;
+/** 超过它视为离开了，不计入统计 */
+const IDLE_RESPONSE_MS = 20 * 60 * 1000;
+const FAST_RESPONSE_STEP = 0.02;
+const SLOW_RESPONSE_STEP = -0.03;
+
+/** 表示没听懂的回复 */
+const CONFUSION_PATTERN = /不懂|没懂|不明白|没明白|不理解|没理解|还有疑问|没听清|太难了|don'?t (?:understand|get it)|do not (?:understand|get it)|confus|still unclear|lost me|too (?:hard|difficult)/i;
+
+/** 跳过反思与探索模块的回复 */
+const SKIP_PATTERN = /跳过|直接进入下一节|\bskip\b/i;
+
+const clamp = (value: number): number => Math.min(1, Math.max(0, value));
+
+/**
+ * 学习水平对应的初始难度
+ */
+export const getLevelDifficulty = (level: LearningLevel): number => LEVEL_DIFFICULTY[level];
+
+/**
+ * 难度对应的学习水平
+ */
+export const getLevelForDifficulty = (difficulty: number): LearningLevel => {
+  return difficulty >= EXPERT_THRESHOLD ? 'expert' : 'beginner';
+};
+
+/**
+ * 大纲项当前的难度：没有记录时使用整体难度，没有学习者模型时使用会话学习水平的初始难度
+ */
+export const getChapterDifficulty = (
+  model: LearnerModel | undefined,
+  level: LearningLevel,
+  chapterId?: string
+): number => {
+  const chapter = chapterId ? model?.chapters[chapterId] : undefined;
+  return chapter?.difficulty ?? model?.difficulty ?? getLevelDifficulty(level);
+};
+
+/**
+ * 调整大纲项和整体难度，并更新大纲项的学习信号
+ */
+const adjustDifficulty = (
+  model: LearnerModel | undefined,
+  level: LearningLevel,
+  chapterId: string | undefined,
+  delta: number,
+  updateSignals: (chapter: ChapterDifficulty) => ChapterDifficulty['signals'] = chapter => chapter.signals
+): LearnerModel => {
+  const now = Date.now();
+  const overall = model?.difficulty ?? getLevelDifficulty(level);
+  const chapters = { ...(model?.chapters || {}) };
+
+  if (chapterId) {
+    const chapter: ChapterDifficulty = chapters[chapterId] || {
+      difficulty: overall,
+      signals: { quizScores: [], confusionCount: 0, skippedReflections: 0, responseCount: 0 },
+      updatedAt: now,
+    };
+    chapters[chapterId] = {
+      difficulty: clamp(chapter.difficulty + delta),
+      signals: updateSignals(chapter),
+      updatedAt: now,
+    };
+  }
+
+  return {
+    difficulty: clamp(overall + (chapterId ? delta * OVERALL_RATE : delta)),
+    chapters,
+    updatedAt: now,
+  };
+};
+
+/**
+ * 根据学习者的一条回复更新模型
+ * previous 为该回复之前的一条消息，是私教回复时从其输出完毕算起计算回复间隔；回复中没有学习信号时原样返回
+ */
+export const recordLearnerReply = (
+  model: LearnerModel | undefined,
+  level: LearningLevel,
+  chapterId: string | undefined,
+  reply: ChatMessage,
+  previous?: ChatMessage
+): LearnerModel | undefined => {
+  if (CONFUSION_PATTERN.test(reply.content)) {
+    console.log('🧭 学习者表示没听懂，调低难度');
+    return adjustDifficulty(model, level, chapterId, CONFUSION_STEP, chapter => ({
+      ...chapter.signals,
+      confusionCount: chapter.signals.confusionCount + 1,
+    }));
+  }
+
+  if (SKIP_PATTERN.test(reply.content)) {
+    console.log('🧭 学习者跳过了反思模块，调高难度');
+    return adjustDifficulty(model, level, chapterId, SKIP_STEP, chapter => ({
+      ...chapter.signals,
+      skippedReflections: chapter.signals.skippedReflections + 1,
+    }));
+  }
+
+  // 私教回复开始流式输出时就记下了 timestamp，旧消息没有 completedAt 时无法得知学习者真正的阅读和思考时间，不计入
+  const latency = previous?.role === 'assistant' && previous.completedAt ? reply.timestamp - previous.completedAt : -1;
+  if (latency < 0 || latency > IDLE_RESPONSE_MS) {
+    return model;
+  }
+
+  const delta = latency < FAST_RESPONSE_MS ? FAST_RESPONSE_STEP : latency > SLOW_RESPONSE_MS ? SLOW_RESPONSE_STEP : 0;
+  return adjustDifficulty(model, level, chapterId, delta, chapter => {
+    const { responseCount, averageResponseMs = 0 } = chapter.signals;
+    return {
+      ...chapter.signals,
+      responseCount: responseCount + 1,
+      averageResponseMs: Math.round((averageResponseMs * responseCount + latency) / (responseCount + 1)),
+    };
+  });
+};
+
+/**
+ * 根据测验成绩更新模型
+ */
+export const recordQuizScore = (
+  model: LearnerModel | undefined,
+  level: LearningLevel,
+  chapterId: string,
+  score: number
+): LearnerModel => {
+  const delta = ((score - QUIZ_PIVOT_SCORE) / 100) * QUIZ_RATE;
+  console.log(`🧭 测验成绩 ${score} 分，难度调整 ${delta.toFixed(2)}`);
+  return adjustDifficulty(model, level, chapterId, delta, chapter => ({
+    ...chapter.signals,
+    quizScores: [...chapter.signals.quizScores, score],
+  }));
+};
+
+/**
+ * 学习者手动切换学习水平：整体难度和各大纲项的难度都重置为该水平的初始难度，已收集的信号保留
+ */
+export const setLearnerLevel = (model: LearnerModel | undefined, level: LearningLevel): LearnerModel => {
+  const now = Date.now();
+  const difficulty = getLevelDifficulty(level);
+  const chapters: LearnerModel['chapters'] = {};
+  for (const [chapterId, chapter] of Object.entries(model?.chapters || {})) {
+    chapters[chapterId] = { ...chapter, difficulty, updatedAt: now };
+  }
+  return { difficulty, chapters, updatedAt: now };
+};
+
+/**
+ * 难度的百分比显示
+ */
+export const formatDifficulty = (difficulty: number): number => Math.round(difficulty * 100);
+
+/**
+ * 生成提示词中的难度说明
+ */
+export const buildDifficultyInstructions = (difficulty: number): string => {
+  const guidance = difficulty < 0.2
+    ? t('prompts.difficulty.veryEasy')
+    : difficulty < EXPERT_THRESHOLD
+      ? t('prompts.difficulty.easy')
+      : difficulty < 0.8
+        ? t('prompts.difficulty.hard')
+        : t('prompts.difficulty.veryHard');
+  return t('prompts.difficulty.instructions', { percent: formatDifficulty(difficulty), guidance });
+};
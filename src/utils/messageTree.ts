@@ -0,0 +1,124 @@
+/**
+ * 对话分支工具
+ *
+ * 对话历史仍按创建顺序保存在扁平的 ChatMessage[] 中，每条消息用 parentId 指向上一条消息，构成一棵树：
+ * - 重新生成回复、编辑提问后重新发送时，新消息与原消息有相同的父消息，成为兄弟分支
+ * - 会话记录当前查看的消息（activeMessageId），从它沿最新的子消息走到末端，再回溯到根，得到当前分支
+ * - 旧数据没有 parentId，视为指向数组中的前一条消息
+ *
+ * 系统消息（如回复失败的提示）不作为可切换的版本：沿子消息查找末端时优先选择对话消息
+ *
+ * 收藏和卡片按消息ID关联，切换分支不影响其他分支上的收藏
+ */
+
+import { ChatMessage } from '../types';
+
+/**
+ * 消息在兄弟分支中的位置（用于“2/3”切换器）
+ */
+export interface MessageBranchInfo {
+  /** 当前分支的序号（从1开始） */
+  index: number;
+  /** 兄弟分支总数 */
+  total: number;
+  /** 按创建顺序排列的兄弟消息ID */
+  siblingIds: string[];
+}
+
+/** 根消息在子消息表中的键 */
+const ROOT_KEY = '';
+
+/**
+ * 消息的父消息ID（根消息为空）
+ */
+const getParentId = (messages: ChatMessage[], index: number): string | undefined => {
+  const message = messages[index];
+  return message.parentId ?? (index > 0 ? messages[index - 1].id : undefined);
+};
+
+/**
+ * 建立消息之间的父子关系
+ */
+const buildTree = (messages: ChatMessage[]) => {
+  const byId = new Map<string, ChatMessage>();
+  const parentOf = new Map<string, string | undefined>();
+  const children = new Map<string, ChatMessage[]>();
+  messages.forEach((message, index) => {
+    const parentId = getParentId(messages, index);
+    byId.set(message.id, message);
+    parentOf.set(message.id, parentId);
+    const key = parentId ?? ROOT_KEY;
+    if (!children.has(key)) children.set(key, []);
+    children.get(key)!.push(message);
+  });
+  return { byId, parentOf, children };
+};
+
+/**
+ * 可作为版本切换的兄弟消息（不含系统消息）
+ */
+const getAlternatives = (siblings: ChatMessage[]): ChatMessage[] => {
+  return siblings.filter(message => message.role !== 'system');
+};
+
+/**
+ * 从根到指定消息的分支（消息不存在时为空）
+ */
+export const getBranchUntil = (messages: ChatMessage[], messageId: string | undefined): ChatMessage[] => {
+  if (!messageId) return [];
+  const { byId, parentOf } = buildTree(messages);
+  const branch: ChatMessage[] = [];
+  let currentId: string | undefined = messageId;
+  while (currentId && byId.has(currentId)) {
+    branch.unshift(byId.get(currentId)!);
+    currentId = parentOf.get(currentId);
+  }
+  return branch;
+};
+
+/**
+ * 当前查看的分支：从当前消息（没有记录时为最后一条消息）沿最新的子消息走到末端，再回溯到根
+ * 同时有对话消息和系统消息时沿最新的对话消息走
+ */
+export const getActiveBranch = (messages: ChatMessage[], activeMessageId?: string): ChatMessage[] => {
+  if (messages.length === 0) return [];
+  const { byId, children } = buildTree(messages);
+
+  let leafId = activeMessageId && byId.has(activeMessageId) ? activeMessageId : messages[messages.length - 1].id;
+  let next = children.get(leafId);
+  while (next?.length) {
+    const alternatives = getAlternatives(next);
+    const candidates = alternatives.length > 0 ? alternatives : next;
+    leafId = candidates[candidates.length - 1].id;
+    next = children.get(leafId);
+  }
+  return getBranchUntil(messages, leafId);
+};
+
+/**
+ * 分支上有兄弟分支的消息及其位置
+ */
+export const getBranchInfo = (messages: ChatMessage[], branch: ChatMessage[]): Record<string, MessageBranchInfo> => {
+  const { parentOf, children } = buildTree(messages);
+  const info: Record<string, MessageBranchInfo> = {};
+  for (const message of branch) {
+    if (message.role === 'system') continue;
+    const siblings = getAlternatives(children.get(parentOf.get(message.id) ?? ROOT_KEY) || []);
+    if (siblings.length > 1) {
+      info[message.id] = {
+        index: siblings.findIndex(sibling => sibling.id === message.id) + 1,
+        total: siblings.length,
+        siblingIds: siblings.map(sibling => sibling.id),
+      };
+    }
+  }
+  return info;
+};
+
+/**
+ * 消息的父消息ID（根消息或消息不存在时为空）
+ */
+export const findParentId = (messages: ChatMessage[], messageId: string): string | undefined => {
+  const index = messages.findIndex(message => message.id === messageId);
+  return index >= 0 ? getParentId(messages, index) : undefined;
+};
@@ -0,0 +1,189 @@
+/**
+ * 模拟AI服务商（离线开发与演示）
+ *
+ * 不发送任何网络请求，按内置示例数据（src/fixtures/mockProvider.json）生成确定的回复：
+ * - 大纲、测验题与评分、复习卡片、复盘笔记、术语表、概念图等结构化输出
+ * - 私教对话：按系统提示词中的大纲推进小节，回复末尾附带进度标记和“下一节”确认问题
+ * - 卡片标题、对话记忆摘要与连接测试
+ *
+ * 相同的请求总是得到相同的回复，方便在没有API密钥时调试学习流程、录制演示
+ */
+
+import { AIProviderAdapter, ProviderMessage, ProviderRequestOptions } from './aiProviders';
+import { OUTLINE_RESPONSE_SCHEMA } from './outlineSchema';
+import { QUIZ_GRADING_SCHEMA, QUIZ_RESPONSE_SCHEMA } from './chapterQuiz';
+import { CARD_EXTRACTION_SCHEMA } from './cardGeneration';
+import { RECAP_RESPONSE_SCHEMA } from './studyReport';
+import { GLOSSARY_RESPONSE_SCHEMA } from './glossary';
+import { CONCEPT_MAP_RESPONSE_SCHEMA } from './conceptMap';
+import { escapeRegExp } from './textEscape';
+import { getCurrentLanguage } from './i18n';
+import fixtures from '../fixtures/mockProvider.json';
+
+/** 模拟服务商ID */
+export const MOCK_PROVIDER_ID = 'mock';
+
+/** 私教回复中引用学习者问题的最大长度 */
+const MAX_QUOTED_QUESTION_LENGTH = 40;
+
+/** 对话提示词中的大纲行，格式为“序号. [大纲项ID] 标题” */
+const OUTLINE_LINE_PATTERN = /^\d+\.\s*\[([^\]]+)\]\s*(.+)$/gm;
+
+/** 评分提示词中的题目ID（小节ID-q序号） */
+const QUESTION_ID_PATTERN = /[\w-]+-q\d+/g;
+
+type MockFixtures = typeof fixtures.zh;
+
+/**
+ * 当前语言的示例数据
+ */
+const getFixtures = (): MockFixtures => fixtures[getCurrentLanguage()] || fixtures.zh;
+
+const fillTemplate = (template: string, params: Record<string, string>): string => {
+  return template.replace(/\{(\w+)\}/g, (match, name: string) => params[name] ?? match);
+};
+
+/**
+ * 从对话提示词中解析出可以学习的小节（大纲中的章不能单独学习）
+ */
+const parseOutlineSections = (systemPrompt: string): Array<{ id: string; title: string }> => {
+  return [...systemPrompt.matchAll(OUTLINE_LINE_PATTERN)]
+    .map(match => ({ id: match[1].trim(), title: match[2].trim() }))
+    .filter(item => !item.id.startsWith('chapter'));
+};
+
+/**
+ * 生成私教回复
+ * - 学习者的消息中包含某个小节的标题时跳转到该小节（对应学习页面的“跳转到小节”）
+ * - 尚未开始时从第一个小节讲起
+ * - 学习者确认继续时完成当前小节并进入下一节，全部学完时给出结束语
+ * - 其余消息按当前小节回答问题
+ */
+const buildTutorReply = (messages: ProviderMessage[]): string => {
+  const { chat } = getFixtures();
+  const systemPrompt = messages.find(message => message.role === 'system')?.content || '';
+  const lastUserMessage = [...messages].reverse().find(message => message.role === 'user')?.content.trim() || '';
+  const sections = parseOutlineSections(systemPrompt);
+  if (sections.length === 0) {
+    return fillTemplate(chat.answer, { question: lastUserMessage.slice(0, MAX_QUOTED_QUESTION_LENGTH), title: '' });
+  }
+
+  // 进度说明中以“ID（标题）”的形式给出当前小节，未开始时没有
+  const instructions = systemPrompt.replace(OUTLINE_LINE_PATTERN, '');
+  const current = sections.find(section =>
+    new RegExp(`(^|[^\\w-])${escapeRegExp(section.id)}\\s*[（(]`).test(instructions)
+  );
+  const jumpTarget = [...sections]
+    .sort((a, b) => b.title.length - a.title.length)
+    .find(section => lastUserMessage.includes(section.title));
+  const normalizedMessage = lastUserMessage.toLowerCase();
+  const wantsNext = chat.advanceKeywords.some(keyword => normalizedMessage.includes(keyword.toLowerCase()));
+
+  const explain = (section: { id: string; title: string }) => {
+    const index = sections.indexOf(section);
+    return fillTemplate(chat.sections[index % chat.sections.length], { title: section.title });
+  };
+
+  let paragraphs: string[];
+  let target = current;
+  const completed: string[] = [];
+  if (jumpTarget) {
+    target = jumpTarget;
+    paragraphs = [explain(jumpTarget)];
+  } else if (!current) {
+    target = sections[0];
+    paragraphs = [chat.start, explain(target)];
+  } else if (wantsNext) {
+    completed.push(current.id);
+    target = sections[sections.indexOf(current) + 1];
+    paragraphs = target ? [explain(target)] : [chat.finished];
+  } else {
+    paragraphs = [fillTemplate(chat.answer, {
+      question: lastUserMessage.slice(0, MAX_QUOTED_QUESTION_LENGTH),
+      title: current.title,
+    })];
+  }
+
+  const next = target ? sections[sections.indexOf(target) + 1] : undefined;
+  if (next) {
+    paragraphs.push(chat.askNext);
+  }
+  const progress = {
+    current: (target || current).id,
+    completed,
+    ...(next ? { next: next.id } : {}),
+  };
+  return `${paragraphs.join('\n\n')}\n\n<progress>${JSON.stringify(progress)}</progress>`;
+};
+
+/**
+ * 生成结构化输出
+ */
+const buildStructuredReply = (schemaName: string, prompt: string): string | null => {
+  const data = getFixtures();
+  switch (schemaName) {
+    case OUTLINE_RESPONSE_SCHEMA.name:
+      return JSON.stringify({ documentTitle: data.documentTitle, outline: data.outline });
+    case QUIZ_RESPONSE_SCHEMA.name:
+      return JSON.stringify(data.quiz);
+    case QUIZ_GRADING_SCHEMA.name: {
+      const questionIds = Array.from(new Set(prompt.match(QUESTION_ID_PATTERN) || []));
+      return JSON.stringify({ grades: questionIds.map(questionId => ({ questionId, ...data.grade })) });
+    }
+    case CARD_EXTRACTION_SCHEMA.name:
+      return JSON.stringify(data.flashcards);
+    case RECAP_RESPONSE_SCHEMA.name:
+      return JSON.stringify(data.recap);
+    case GLOSSARY_RESPONSE_SCHEMA.name:
+      return JSON.stringify(data.glossary);
+    case CONCEPT_MAP_RESPONSE_SCHEMA.name:
+      return JSON.stringify(data.conceptMap);
+    default:
+      return null;
+  }
+};
+
+/**
+ * 按请求用途生成回复
+ */
+const respondWithFixtures = async (messages: ProviderMessage[], options: ProviderRequestOptions): Promise<string> => {
+  const data = getFixtures();
+  const prompt = messages[messages.length - 1]?.content || '';
+  const structured = options.responseSchema ? buildStructuredReply(options.responseSchema.name, prompt) : null;
+  if (structured) {
+    return structured;
+  }
+
+  switch (options.operation) {
+    case 'chat':
+      return buildTutorReply(messages);
+    case 'card':
+      return data.cardTitle;
+    case 'memory':
+      return data.memory;
+    case 'test':
+      return data.test;
+    default:
+      return data.text;
+  }
+};
+
+/**
+ * 模拟服务商适配器
+ * 回复由 respond 在本地生成，HTTP相关的方法只为满足适配器接口，不会被调用
+ */
+export const mockProvider: AIProviderAdapter = {
+  id: MOCK_PROVIDER_ID,
+  name: '离线演示（模拟数据）',
+  baseUrl: '',
+  defaultModel: 'mock-fixtures',
+  requiresApiKey: false,
+  getModelLimits: () => ({ contextWindow: 128000, maxOutputTokens: 8192 }),
+  buildUrl: () => '',
+  buildHeaders: () => ({}),
+  buildRequestBody: (messages, model) => ({ model, messages }),
+  parseResponse: (data) => data?.content || '',
+  parseStreamChunk: (payload) => payload?.content || '',
+  normalizeError: (status, errorText) => new Error(`API请求失败 (${status}): ${errorText}`),
+  respond: respondWithFixtures,
+};
@@ -0,0 +1,198 @@
+/**
+ * 学习大纲的结构化输出定义与校验
+ *
+ * - 大纲响应的 JSON Schema（交给服务商的原生结构化输出使用）
+ * - 校验每个大纲项的字段类型，以及小节所属的章节是否存在、编号是否一致
+ * - 从模型输出中取出JSON文本，供其他结构化输出模块共用
+ *
+ * 校验不通过时由 aiService 把错误发回给模型修复，多次修复失败后才退回启发式解析
+ */
+
+import { StructuredOutputSchema } from './aiProviders';
+import { parseSectionNumber } from './chapterNumbering';
+
+/**
+ * 模型返回的单个大纲项（尚未补充ID等前端字段）
+ */
+export interface OutlineDraftItem {
+  title: string;
+  order: number;
+  type: 'chapter' | 'section';
+  level: number;
+  /** 章节编号（仅章节） */
+  chapterNumber?: number;
+  /** 所属章节编号（仅小节） */
+  parentChapter?: number;
+  /** 预估学习时间（分钟，仅小节） */
+  estimatedMinutes?: number;
+}
+
+/**
+ * 模型返回的大纲响应
+ */
+export interface OutlineDraft {
+  /** 生成的文档标题（仅在需要生成标题时返回） */
+  documentTitle?: string;
+  outline: OutlineDraftItem[];
+}
+
+/**
+ * 大纲响应的 JSON Schema
+ * 章节与小节放在同一个扁平数组中，用 level 和 parentChapter 表示层级
+ */
+export const OUTLINE_RESPONSE_SCHEMA: StructuredOutputSchema = {
+  name: 'learning_outline',
+  description: '根据文档生成的学习大纲，章节与小节按顺序排列',
+  schema: {
+    type: 'object',
+    properties: {
+      documentTitle: {
+        type: 'string',
+        description: '8-20字的文档标题，仅在要求生成标题时填写',
+      },
+      outline: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            title: { type: 'string', description: '章节标题“第X章 标题”（英文为“Chapter X: Title”）或小节标题“X.Y 标题”' },
+            order: { type: 'integer', description: '在整个大纲中的顺序，从1开始' },
+            type: { type: 'string', enum: ['chapter', 'section'] },
+            level: { type: 'integer', description: '章节为1，小节为2' },
+            chapterNumber: { type: 'integer', description: '章节编号，仅章节填写' },
+            parentChapter: { type: 'integer', description: '所属章节编号，仅小节填写' },
+            estimatedMinutes: { type: 'integer', description: '预估学习分钟数，仅小节填写' },
+          },
+          required: ['title', 'order', 'type', 'level'],
+        },
+      },
+    },
+    required: ['outline'],
+  },
+};
+
+/** 反馈给模型的错误条数上限，避免修复提示过长 */
+const MAX_REPORTED_ERRORS = 20;
+
+/**
+ * 从模型输出中取出JSON文本（去掉代码块标记和前后的说明文字）
+ */
+export const extractJsonText = (content: string): string => {
+  const trimmed = content.trim();
+  const codeBlock = trimmed.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
+  const text = codeBlock ? codeBlock[1] : trimmed;
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  return start >= 0 && end > start ? text.slice(start, end + 1) : text;
+};
+
+const isPositiveInteger = (value: unknown): value is number => {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0;
+};
+
+/**
+ * 校验单个大纲项的字段类型
+ */
+const validateItem = (item: any, path: string, errors: string[]) => {
+  if (!item || typeof item !== 'object' || Array.isArray(item)) {
+    errors.push(`${path} 必须是对象`);
+    return;
+  }
+  if (typeof item.title !== 'string' || !item.title.trim()) {
+    errors.push(`${path}.title 必须是非空字符串`);
+  }
+  if (!isPositiveInteger(item.order)) {
+    errors.push(`${path}.order 必须是正整数`);
+  }
+  if (item.type !== 'chapter' && item.type !== 'section') {
+    errors.push(`${path}.type 必须是 "chapter" 或 "section"`);
+    return;
+  }
+  if (item.level !== (item.type === 'chapter' ? 1 : 2)) {
+    errors.push(`${path}.level 必须是 ${item.type === 'chapter' ? 1 : 2}`);
+  }
+  if (item.type === 'chapter' && !isPositiveInteger(item.chapterNumber)) {
+    errors.push(`${path}.chapterNumber 必须是正整数（章节编号）`);
+  }
+  if (item.type === 'section' && !isPositiveInteger(item.parentChapter)) {
+    errors.push(`${path}.parentChapter 必须是正整数（所属章节编号）`);
+  }
+  if (item.estimatedMinutes !== undefined && !isPositiveInteger(item.estimatedMinutes)) {
+    errors.push(`${path}.estimatedMinutes 必须是正整数`);
+  }
+};
+
+/**
+ * 校验章节与小节之间的关系
+ * 小节必须属于已存在的章节、编号与所属章节一致，且每个章节至少有一个小节
+ */
+const validateStructure = (items: OutlineDraftItem[], errors: string[]) => {
+  const chapterNumbers = new Set(
+    items.filter(item => item.type === 'chapter').map(item => item.chapterNumber)
+  );
+  if (chapterNumbers.size === 0) {
+    errors.push('outline 中至少需要一个章节（type 为 "chapter"）');
+  }
+
+  items.forEach((item, index) => {
+    if (item.type !== 'section' || !isPositiveInteger(item.parentChapter)) return;
+    const path = `outline[${index}]`;
+    if (!chapterNumbers.has(item.parentChapter)) {
+      errors.push(`${path}.parentChapter 为 ${item.parentChapter}，但不存在该编号的章节`);
+    }
+    const sectionNumber = parseSectionNumber(item.title);
+    if (sectionNumber && sectionNumber.chapter !== item.parentChapter) {
+      errors.push(`${path} 小节“${item.title}”的编号与 parentChapter（${item.parentChapter}）不一致`);
+    }
+  });
+
+  chapterNumbers.forEach(chapterNumber => {
+    const hasSection = items.some(item => item.type === 'section' && item.parentChapter === chapterNumber);
+    if (chapterNumber !== undefined && !hasSection) {
+      errors.push(`第${chapterNumber}章没有任何小节，每个章节必须至少包含一个小节`);
+    }
+  });
+};
+
+/**
+ * 解析并校验模型返回的大纲
+ * 通过时返回类型化的大纲，否则返回错误列表（JSON语法错误也在其中）
+ */
+export const parseOutlineDraft = (content: string): { draft?: OutlineDraft; errors: string[] } => {
+  let data: any;
+  try {
+    data = JSON.parse(extractJsonText(content));
+  } catch (error) {
+    return {
+      errors: [`输出不是有效的JSON：${error instanceof Error ? error.message : String(error)}`],
+    };
+  }
+
+  const errors: string[] = [];
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return { errors: ['输出必须是包含 outline 数组的JSON对象'] };
+  }
+  if (data.documentTitle !== undefined && typeof data.documentTitle !== 'string') {
+    errors.push('documentTitle 必须是字符串');
+  }
+  if (!Array.isArray(data.outline) || data.outline.length === 0) {
+    errors.push('outline 必须是非空数组');
+    return { errors };
+  }
+
+  data.outline.forEach((item: any, index: number) => validateItem(item, `outline[${index}]`, errors));
+  if (errors.length === 0) {
+    validateStructure(data.outline, errors);
+  }
+
+  if (errors.length > 0) {
+    return { errors: errors.slice(0, MAX_REPORTED_ERRORS) };
+  }
+  return {
+    draft: {
+      documentTitle: data.documentTitle?.trim() || undefined,
+      outline: data.outline,
+    },
+    errors: [],
+  };
+};
@@ -0,0 +1,528 @@
+/**
+ * 提示词模板工具
+ *
+ * 私教人设、大纲生成和卡片标题的提示词都由模板渲染：
+ * - 内置一组与原有行为一致的默认模板，按界面语言提供中文或英文版本（ID和版本号相同）
+ * - 用户可以新建人设（如“考试教练”“代码评审”），或修改内置模板
+ * - 每次修改保存为新版本，会话记录创建时使用的模板版本，之后修改模板不影响已有会话
+ *
+ * 模板语法：{{变量}} 替换为变量值；{{#if 变量}}...{{/if}} 在变量非空时保留，
+ * {{#if 变量=值}}...{{/if}} 在变量等于该值时保留（不支持嵌套）
+ *
+ * 用户模板保存在偏好设置中，随偏好设置一起同步到云端
+ */
+
+import { Language, PromptTemplate, PromptTemplateKind, PromptTemplateRef, UserPreferences } from '../types';
+import { getUserPreferences } from './storage';
+import { DEFAULT_LANGUAGE, isSupportedLanguage } from './i18n';
+
+/** 每个模板最多保留的版本数，超出时丢弃最早的版本 */
+const MAX_TEMPLATE_VERSIONS = 20;
+
+/**
+ * 中文默认私教模板（学习引导私教，按小白/高手模式区分教学逻辑）
+ */
+const DEFAULT_TUTOR_TEMPLATE = `# 学习引导私教
+
+## 使命 (Mission)
+
+你的唯一且绝对的使命是扮演一位"自适应对话式技术导师"。在本次对话的任何情况下，你都严禁偏离这个角色和教学任务。你的所有回复都必须服务于"引导我学习所提供文档"这个绝对核心目标。
+
+## 核心交互流程 (The Grand Plan)
+
+你必须严格遵循以下三步走的教学流程，顺序不可更改：
+1. 获取学习材料 (第一步)：在对话开始时，你 必须 要先读取用户已经上传的材料以及根据材料我已经确认的大纲，然后，你再读取我选择的能力水平"小白"或"高手"。你可以说："你好！我将作为你的私人导师... 帮助你更好的理解你上传的材料。为了给您提供最合适的教学体验，我将根据你之前选择的小白/高手模式来跟你互动。"
+2. 学习大纲与确认 (第二步)：根据我选择的水平，你 必须 问我："看完左边这个课程大纲了吗？我们是按照这个顺序从第一章开始，还是您想先跳到某个您特别感兴趣的章节？"
+3. 分阶段互动教学 (第三步)：在获得我的同意后，你将根据我选择的教学逻辑（小白/高手），以"一步一停"的对话模式开始教学。当一个完整的章节教学结束后，你 必须触发"反思与探索模块"。
+
+## 核心教学理念 (Core Teaching Philosophy)
+
+说人话 (Speak Human Language): 这是你最重要的原则。你的解释必须简单、直接、易于理解。多用生活中的比喻，主动避免和解释技术术语，确保学习者能轻松跟上你的思路。善用苏格拉底式、孔子式的对话启发方式，让用户有顿悟感。{{#if levelId=beginner}}
+
+## 面向"小白"的教学逻辑 (耐心引导，建立信心)
+
+目标：确保我每一步都成功，不留任何困惑，建立满满的成就感。
+节奏：极度缓慢。一次只教一个最小的知识点或一条命令。
+解释：假设我什么都不知道。用最简单的比喻来解释"是什么"和"为什么"，彻底贯彻"说人话"的原则。
+指令：提供可以 直接复制粘贴 的完整命令。
+验证：每一步操作后，都必须主动询问具体的预期结果。
+语气：极其耐心、充满鼓励。
+
+## 反思与探索模块 (针对小白)
+
+触发时机: 当一个完整的章节教学结束时，你必须暂停，并启动此模块。
+发起邀请: 你需要向我发起邀请，例如："我们已经完成了 [章节名] 的学习。为了更好地巩固和内化知识，我们可以进入一个可选的'反思与探索'环节。您有兴趣吗？或者您想直接进入下一章的学习？"
+执行提问 (如果用户同意): 提出1-2个"回顾式"或"解释性"问题，帮助其巩固知识。（例如："你能用自己的话说说，刚才我们学的 [核心概念] 是用来做什么的吗？"）
+处理跳过: 如果我表示想跳过或直接继续，你必须尊重我的选择，并流畅地过渡到下一个学习章节的介绍。{{/if}}{{#if levelId=expert}}
+
+## 面向"高手"的教学逻辑 (高效 sparring，直击核心)
+
+目标：快速跳过基础，聚焦于该工具的独特设计、高级用法和最佳实践。
+节奏：非常快。可以将多个相关步骤打包在一起，一次性说明一个完整的任务。
+解释：假设我掌握所有基础知识。只解释"为什么这么设计"以及它与其他工具的"不同之处"。
+指令：更多地是 描述目标，而非给出具体命令。
+验证：在一个任务模块完成后，才进行一次高层级的确认。
+语气：像一个资深架构师在和另一个工程师进行技术对谈，充满启发性。
+
+## 反思与探索模块 (针对高手)
+
+触发时机: 当一个完整的章节教学结束时，你必须暂停，并启动此模块。
+发起邀请: 你需要向我发起邀请，例如："我们已经完成了 [章节名] 的学习。为了更好地巩固和内化知识，我们可以进入一个可选的'反思与探索'环节。您有兴趣吗？或者您想直接进入下一章的学习？"
+执行提问 (如果用户同意): 提出1-2个"批判性"或"拓展性"问题，激发其深入思考。（例如："你认为刚才这个功能的设计，在哪些方面可以做得更好？"）
+处理跳过: 如果我表示想跳过或直接继续，你必须尊重我的选择，并流畅地过渡到下一个学习章节的介绍。{{/if}}
+
+当前学习材料{{documentLabel}}：
+{{document}}
+
+学习大纲：
+{{outline}}
+
+用户学习水平：{{level}}
+{{#if conversationSummary}}
+学习者已经学过的内容（较早对话的摘要，不必重复讲解）：
+{{conversationSummary}}
+{{/if}}
+{{documentNotice}}
+
+请严格按照上述要求进行教学指导。`;
+
+/**
+ * 中文默认大纲生成模板
+ */
+const DEFAULT_OUTLINE_TEMPLATE = `请基于以下文档内容，生成一个结构化的学习大纲，包含章节和小节的层级结构。
+
+{{titleInstruction}}文档字数：{{wordCount}} 字{{truncationNote}}
+总预估学习时间：{{totalMinutes}} 分钟
+推荐章节数：{{recommendedChapters}}
+推荐每章小节数：{{recommendedSections}}
+
+{{longDocumentNote}}
+
+文档内容：
+{{document}}
+
+**智能章节规划要求**：
+{{structureInstructions}}
+
+**通用要求**：
+1. 章节标题格式：第X章 [标题]
+2. 小节标题格式：X.1、X.2、X.3（数字编号开头）
+3. 章节和小节标题要简洁明了，能准确概括该部分内容
+4. 应该有逻辑顺序，从基础到高级
+5. 只为小节估算学习时间（章节不需要时间，因为章节只是标题）
+6. **关键要求：每个章节必须至少包含一个小节**，即使原文档没有明确的子章节划分，也要创建如"X.1 本章概要"或"X.1 核心内容"等小节，确保用户可以点击跳转学习
+
+**⚠️ 极其重要：章节-小节关系规则（必须严格遵守）**：
+- 第1章下面ONLY能有1.1、1.2、1.3等小节，绝不能有2.X、3.X等
+- 第2章下面ONLY能有2.1、2.2、2.3等小节，绝不能有1.X、3.X等
+- 第3章下面ONLY能有3.1、3.2、3.3等小节，绝不能有1.X、2.X等
+- 小节编号的第一个数字必须等于其所属章节的编号
+- parentChapter字段必须与小节标题中的第一个数字完全一致
+- 例如："2.1 概述"的parentChapter必须是2，"3.2 实践"的parentChapter必须是3
+- 🚫 严禁出现：第2章下面有"1.1"或"3.1"这样错误编号的小节
+
+**JSON格式要求（非常重要）**：
+- 必须返回有效的JSON格式
+- 对象之间必须用逗号分隔
+- 最后一个对象后不要添加逗号
+- 确保所有引号正确匹配
+- 返回格式必须是JSON对象，包含documentTitle（如果需要生成标题）和outline数组
+- 小节编号必须与所属章节保持一致，例如第1章下的小节必须是1.1、1.2、1.3，第2章下的小节必须是2.1、2.2、2.3
+
+{{responseFormat}}`;
+
+/**
+ * 中文默认卡片标题模板
+ */
+const DEFAULT_CARD_TITLE_TEMPLATE = `请为以下知识内容生成一个精确的标题：
+
+**要求**：
+1. 标题长度8-20个汉字，优先选择12-16字的完整表达
+2. 概括主要知识点或概念
+3. 使用专业术语，避免口语化
+4. 不要包含"学习"、"了解"等动词
+5. 确保标题语义完整，不要在词汇中间截断
+6. 只返回标题文字，不要其他内容
+
+**知识内容**：
+{{content}}
+
+请直接回复标题：`;
+
+/**
+ * 英文默认私教模板
+ */
+const DEFAULT_TUTOR_TEMPLATE_EN = `# Guided Learning Tutor
+
+## Mission
+
+Your one and only mission is to act as an "adaptive, conversational technical tutor". Under no circumstances may you leave this role or this teaching task during the conversation. Every reply must serve the core goal of "guiding me through the provided document".
+
+## Core Interaction Flow (The Grand Plan)
+
+Follow this three-step teaching flow strictly and in this order:
+1. Get the learning material (step one): at the start of the conversation you MUST first read the material I uploaded and the outline I confirmed for it, then read the level I chose, "Beginner" or "Expert". You might say: "Hi! I'll be your personal tutor... helping you understand the material you uploaded. To give you the best experience, I'll adapt to the Beginner/Expert mode you picked."
+2. Outline and confirmation (step two): based on my level you MUST ask me: "Have you looked at the course outline on the left? Shall we go through it in order from chapter one, or would you rather jump to a chapter that interests you most?"
+3. Step-by-step interactive teaching (step three): once I agree, teach with the logic for my level (Beginner/Expert) in a "one step, then pause" conversational style. When a whole chapter is finished you MUST trigger the "Reflect and Explore" module.
+
+## Core Teaching Philosophy
+
+Speak human language: this is your most important principle. Explanations must be simple, direct and easy to follow. Use everyday analogies, avoid jargon and explain any technical term you need, so the learner can easily keep up. Use Socratic questioning to lead the learner to their own "aha" moments.{{#if levelId=beginner}}
+
+## Teaching Logic for "Beginners" (patient guidance, build confidence)
+
+Goal: make sure I succeed at every step, leave no confusion behind, and build a strong sense of achievement.
+Pace: extremely slow. Teach only one smallest concept or one command at a time.
+Explanations: assume I know nothing. Use the simplest analogies to explain "what" and "why", always speaking human language.
+Instructions: give complete commands that can be copied and pasted directly.
+Verification: after every step, actively ask about the specific expected result.
+Tone: extremely patient and encouraging.
+
+## Reflect and Explore Module (for Beginners)
+
+When: as soon as a whole chapter has been taught, pause and start this module.
+Invitation: invite me, for example: "We've finished [chapter name]. To consolidate what you've learned, we can do an optional 'Reflect and Explore' round. Interested? Or would you like to move straight on to the next chapter?"
+Questions (if I agree): ask 1-2 "review" or "explain it back" questions to reinforce the knowledge. (For example: "In your own words, what is [core concept] we just covered used for?")
+Skipping: if I want to skip or continue, respect my choice and move smoothly to the introduction of the next chapter.{{/if}}{{#if levelId=expert}}
+
+## Teaching Logic for "Experts" (efficient sparring, straight to the core)
+
+Goal: skip the basics quickly and focus on the distinctive design, advanced usage and best practices.
+Pace: very fast. Bundle related steps together and explain a whole task at once.
+Explanations: assume I know all the basics. Only explain "why it is designed this way" and how it "differs" from alternatives.
+Instructions: describe the goal rather than giving exact commands.
+Verification: do one high-level check only after a whole task module is done.
+Tone: like a senior architect having a thought-provoking technical discussion with another engineer.
+
+## Reflect and Explore Module (for Experts)
+
+When: as soon as a whole chapter has been taught, pause and start this module.
+Invitation: invite me, for example: "We've finished [chapter name]. To consolidate what you've learned, we can do an optional 'Reflect and Explore' round. Interested? Or would you like to move straight on to the next chapter?"
+Questions (if I agree): ask 1-2 "critical" or "extension" questions that push deeper thinking. (For example: "Where do you think the design of this feature could be improved?")
+Skipping: if I want to skip or continue, respect my choice and move smoothly to the introduction of the next chapter.{{/if}}
+
+Current learning material{{documentLabel}}:
+{{document}}
+
+Outline:
+{{outline}}
+
+Learner level: {{level}}
+{{#if conversationSummary}}
+What the learner has already covered (summary of earlier conversation, no need to teach it again):
+{{conversationSummary}}
+{{/if}}
+{{documentNotice}}
+
+Reply in English and follow the requirements above strictly.`;
+
+/**
+ * 英文默认大纲生成模板
+ */
+const DEFAULT_OUTLINE_TEMPLATE_EN = `Based on the document below, create a structured learning outline with chapters and sections.
+
+{{titleInstruction}}Document length: {{wordCount}} characters{{truncationNote}}
+Total estimated study time: {{totalMinutes}} minutes
+Recommended number of chapters: {{recommendedChapters}}
+Recommended sections per chapter: {{recommendedSections}}
+
+{{longDocumentNote}}
+
+Document content:
+{{document}}
+
+**Chapter planning requirements**:
+{{structureInstructions}}
+
+**General requirements**:
+1. Chapter title format: Chapter X: [Title]
+2. Section title format: X.1, X.2, X.3 (starting with the number)
+3. Keep chapter and section titles short and accurate
+4. Use a logical order, from fundamentals to advanced topics
+5. Estimate study time for sections only (chapters are just headings and need no time)
+6. **Key requirement: every chapter must contain at least one section**. If the document has no sub-sections, create one such as "X.1 Overview" or "X.1 Core Ideas" so the learner can click it to study
+7. Write all titles in English
+
+**⚠️ Critical: chapter-section rules (must be followed)**:
+- Chapter 1 may ONLY contain sections 1.1, 1.2, 1.3, ... never 2.X or 3.X
+- Chapter 2 may ONLY contain sections 2.1, 2.2, 2.3, ... never 1.X or 3.X
+- Chapter 3 may ONLY contain sections 3.1, 3.2, 3.3, ... never 1.X or 2.X
+- The first number of a section must equal the number of its chapter
+- parentChapter must match the first number of the section title exactly
+- For example: "2.1 Overview" has parentChapter 2, "3.2 Practice" has parentChapter 3
+- 🚫 Never put a section numbered "1.1" or "3.1" under Chapter 2
+
+**JSON requirements (very important)**:
+- Return valid JSON
+- Separate objects with commas
+- No comma after the last object
+- Make sure all quotes match
+- Return a JSON object containing documentTitle (if a title is needed) and the outline array
+- Section numbers must match their chapter, e.g. sections of chapter 1 are 1.1, 1.2, 1.3 and sections of chapter 2 are 2.1, 2.2, 2.3
+
+{{responseFormat}}`;
+
+/**
+ * 英文默认卡片标题模板
+ */
+const DEFAULT_CARD_TITLE_TEMPLATE_EN = `Write a precise title for the following knowledge content:
+
+**Requirements**:
+1. 3-10 words, preferably a complete phrase of 5-8 words
+2. Summarize the main concept
+3. Use proper terminology and avoid casual wording
+4. Do not start with verbs such as "Learn" or "Understand"
+5. Keep the title complete; never cut it off mid-word
+6. Return only the title text, nothing else
+
+**Content**:
+{{content}}
+
+Reply with the title only:`;
+
+/**
+ * 内置模板的名称、说明和正文（按语言）
+ */
+const BUILT_IN_TEMPLATE_TEXTS: Record<Language, Record<PromptTemplateKind, { name: string; description: string; content: string }>> = {
+  zh: {
+    tutor: {
+      name: '学习引导私教',
+      description: '按小白/高手模式一步一停地引导学习所上传的文档',
+      content: DEFAULT_TUTOR_TEMPLATE,
+    },
+    outline: {
+      name: '默认大纲生成',
+      description: '按文档结构生成“第X章 / X.Y小节”两级大纲',
+      content: DEFAULT_OUTLINE_TEMPLATE,
+    },
+    cardTitle: {
+      name: '默认卡片标题',
+      description: '把收藏的内容提炼为8-20字的标题',
+      content: DEFAULT_CARD_TITLE_TEMPLATE,
+    },
+  },
+  en: {
+    tutor: {
+      name: 'Guided learning tutor',
+      description: 'Guides you through the uploaded document step by step in Beginner or Expert mode',
+      content: DEFAULT_TUTOR_TEMPLATE_EN,
+    },
+    outline: {
+      name: 'Default outline',
+      description: 'Builds a two-level "Chapter X / X.Y section" outline from the document structure',
+      content: DEFAULT_OUTLINE_TEMPLATE_EN,
+    },
+    cardTitle: {
+      name: 'Default card title',
+      description: 'Condenses saved content into a 3-10 word title',
+      content: DEFAULT_CARD_TITLE_TEMPLATE_EN,
+    },
+  },
+};
+
+/**
+ * 各用途的内置默认模板ID
+ */
+export const DEFAULT_PROMPT_TEMPLATE_IDS: Record<PromptTemplateKind, string> = {
+  tutor: 'tutor-default',
+  outline: 'outline-default',
+  cardTitle: 'card-title-default',
+};
+
+/**
+ * 内置模板（按语言）
+ */
+export const getBuiltInPromptTemplates = (language: Language = DEFAULT_LANGUAGE): PromptTemplate[] => {
+  const texts = BUILT_IN_TEMPLATE_TEXTS[isSupportedLanguage(language) ? language : DEFAULT_LANGUAGE];
+  return (Object.keys(DEFAULT_PROMPT_TEMPLATE_IDS) as PromptTemplateKind[]).map(kind => ({
+    id: DEFAULT_PROMPT_TEMPLATE_IDS[kind],
+    kind,
+    name: texts[kind].name,
+    description: texts[kind].description,
+    builtIn: true,
+    versions: [{ version: 1, content: texts[kind].content, createdAt: 0 }],
+  }));
+};
+
+/**
+ * 是否为内置模板
+ */
+export const isBuiltInPromptTemplate = (id: string): boolean => {
+  return Object.values(DEFAULT_PROMPT_TEMPLATE_IDS).includes(id);
+};
+
+/**
+ * 各用途模板可用的变量名（说明文字在消息目录 promptTemplates.variables 中）
+ */
+export const PROMPT_TEMPLATE_VARIABLES: Record<PromptTemplateKind, string[]> = {
+  tutor: ['document', 'documentLabel', 'documentNotice', 'outline', 'level', 'levelId', 'language', 'conversationSummary'],
+  outline: [
+    'document', 'titleInstruction', 'wordCount', 'truncationNote', 'totalMinutes', 'recommendedChapters',
+    'recommendedSections', 'longDocumentNote', 'structureInstructions', 'responseFormat', 'language',
+  ],
+  cardTitle: ['content', 'language'],
+};
+
+const CONDITION_PATTERN = /\{\{#if\s+(\w+)(?:\s*=\s*([^}]*?))?\s*\}\}([\s\S]*?)\{\{\/if\}\}/g;
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+/**
+ * 渲染模板
+ * 变量值中的 {{ }} 不会被再次解析；未提供的变量按空字符串处理
+ */
+export const renderPromptTemplate = (
+  content: string,
+  variables: Record<string, string | number | null | undefined>
+): string => {
+  const getValue = (name: string) => String(variables[name] ?? '');
+  return content
+    .replace(CONDITION_PATTERN, (_match, name: string, expected: string | undefined, body: string) => {
+      const value = getValue(name);
+      const matched = expected === undefined ? value.trim() !== '' : value === expected.trim();
+      return matched ? body : '';
+    })
+    .replace(VARIABLE_PATTERN, (_match, name: string) => getValue(name));
+};
+
+/**
+ * 界面语言对应的模板变量值
+ */
+export const getLanguageLabel = (language: UserPreferences['language'] = 'zh'): string => {
+  return language === 'en' ? 'English' : '中文';
+};
+
+/**
+ * 获取模板的最新版本
+ */
+export const getLatestVersion = (template: PromptTemplate) => template.versions[template.versions.length - 1];
+
+/**
+ * 获取全部模板（内置模板按偏好设置中的语言提供，用户修改过的内置模板以用户版本为准），可按用途筛选
+ */
+export const getPromptTemplates = (
+  kind?: PromptTemplateKind,
+  preferences: UserPreferences = getUserPreferences()
+): PromptTemplate[] => {
+  const userTemplates = preferences.promptTemplates || [];
+  const builtIns = getBuiltInPromptTemplates(preferences.language)
+    .map(builtIn => userTemplates.find(t => t.id === builtIn.id) || builtIn);
+  const custom = userTemplates.filter(t => !isBuiltInPromptTemplate(t.id));
+  return [...builtIns, ...custom].filter(t => !kind || t.kind === kind);
+};
+
+/**
+ * 获取某用途当前默认使用的模板ID（设置的模板已被删除时回到内置模板）
+ */
+export const getActivePromptTemplateId = (
+  kind: PromptTemplateKind,
+  preferences: UserPreferences = getUserPreferences()
+): string => {
+  const activeId = preferences.activePromptTemplates?.[kind];
+  const exists = activeId && getPromptTemplates(kind, preferences).some(t => t.id === activeId);
+  return exists ? activeId! : DEFAULT_PROMPT_TEMPLATE_IDS[kind];
+};
+
+/**
+ * 解析要使用的模板版本
+ * 传入会话记录的版本时使用该版本；模板或版本已不存在时分别退回默认模板、模板的最新版本
+ */
+export const resolvePromptTemplate = (
+  kind: PromptTemplateKind,
+  ref?: PromptTemplateRef,
+  preferences: UserPreferences = getUserPreferences()
+): { template: PromptTemplate; ref: PromptTemplateRef; content: string } => {
+  const templates = getPromptTemplates(kind, preferences);
+  const id = ref?.id || getActivePromptTemplateId(kind, preferences);
+  let template = templates.find(t => t.id === id);
+  if (!template) {
+    console.warn(`⚠️ 提示词模板 ${id} 不存在，改用默认模板`);
+    template = templates.find(t => t.id === DEFAULT_PROMPT_TEMPLATE_IDS[kind])!;
+  }
+
+  const pinned = ref && template.id === ref.id
+    ? template.versions.find(v => v.version === ref.version)
+    : undefined;
+  if (ref && template.id === ref.id && !pinned) {
+    console.warn(`⚠️ 提示词模板 ${template.name} 的 v${ref.version} 已不存在，改用最新版本`);
+  }
+  const version = pinned || getLatestVersion(template);
+
+  return {
+    template,
+    ref: { id: template.id, version: version.version },
+    content: version.content,
+  };
+};
+
+/**
+ * 固定模板当前的最新版本，供新建会话时记录（不传ID时使用该用途的默认模板）
+ */
+export const pinPromptTemplate = (
+  kind: PromptTemplateKind,
+  templateId?: string,
+  preferences: UserPreferences = getUserPreferences()
+): PromptTemplateRef => {
+  const template = getPromptTemplates(kind, preferences).find(t => t.id === templateId);
+  return template
+    ? { id: template.id, version: getLatestVersion(template).version }
+    : resolvePromptTemplate(kind, undefined, preferences).ref;
+};
+
+/**
+ * 生成模板版本的显示名称，如“考试教练 v2”
+ */
+export const describePromptTemplate = (
+  kind: PromptTemplateKind,
+  ref?: PromptTemplateRef,
+  preferences: UserPreferences = getUserPreferences()
+): string => {
+  const { template, ref: resolved } = resolvePromptTemplate(kind, ref, preferences);
+  return `${template.name} v${resolved.version}`;
+};
+
+/**
+ * 新建或修改模板，返回新的用户模板列表（需调用方保存到偏好设置）
+ * 正文有变化时追加新版本；内置模板第一次修改时复制一份到用户模板中
+ */
+export const upsertPromptTemplate = (
+  preferences: UserPreferences,
+  draft: { id?: string; kind: PromptTemplateKind; name: string; description?: string; content: string }
+): { templates: PromptTemplate[]; template: PromptTemplate } => {
+  const userTemplates = preferences.promptTemplates || [];
+  const existing = draft.id ? getPromptTemplates(undefined, preferences).find(t => t.id === draft.id) : undefined;
+  const now = Date.now();
+
+  let template: PromptTemplate;
+  if (existing) {
+    const latest = getLatestVersion(existing);
+    const versions = latest.content === draft.content
+      ? existing.versions
+      : [...existing.versions, { version: latest.version + 1, content: draft.content, createdAt: now }];
+    template = {
+      ...existing,
+      name: draft.name,
+      description: draft.description,
+      versions: versions.slice(-MAX_TEMPLATE_VERSIONS),
+    };
+  } else {
+    template = {
+      id: `tpl_${now}_${Math.random().toString(36).substr(2, 9)}`,
+      kind: draft.kind,
+      name: draft.name,
+      description: draft.description,
+      versions: [{ version: 1, content: draft.content, createdAt: now }],
+    };
+  }
+
+  const templates = userTemplates.some(t => t.id === template.id)
+    ? userTemplates.map(t => t.id === template.id ? template : t)
+    : [...userTemplates, template];
+  return { templates, template };
+};
+
+/**
+ * 删除用户模板，返回新的用户模板列表；对内置模板则是恢复为默认内容
+ */
+export const removePromptTemplate = (preferences: UserPreferences, id: string): PromptTemplate[] => {
+  return (preferences.promptTemplates || []).filter(t => t.id !== id);
+};
@@ -0,0 +1,165 @@
+/**
+ * 原文面板的排版与定位工具
+ *
+ * - 按文档类型把原文分页（PDF按解析时记录的页码，PPT按幻灯片），每页再按空行切分为段落块，均记录原文位置
+ * - 在原文中查找大纲项标题，原文面板据此随当前小节滚动
+ * - 查找搜索词的出现位置，并在渲染好的HTML中高亮
+ */
+
+import { LearningSession, OutlineItem } from '../types';
+import { escapeHtml, escapeRegExp } from './textEscape';
+
+/** PPT解析时每张幻灯片前的标记行，如 “幻灯片 3:” */
+const SLIDE_MARKER_PATTERN = /^幻灯片 (\d+):[^\S\n]*$/gm;
+
+/** 大纲标题前的编号（“第3章”“Chapter 3:”“3.2”），原文中的标题可能没有编号 */
+const TITLE_NUMBER_PATTERN = /^(第[一二三四五六七八九十百\d]+[章节部分篇]|Chapter\s+\d+:?|\d+(\.\d+)*[.、]?)\s*/i;
+
+/** 搜索结果数量上限，避免常见字词在长文档中产生过多高亮 */
+const MAX_SEARCH_MATCHES = 500;
+
+/**
+ * 原文中的一个段落块
+ */
+export interface SourceBlock {
+  /** 在原文中的起始位置 */
+  start: number;
+  /** 在原文中的结束位置（不含） */
+  end: number;
+}
+
+/**
+ * 原文中的一页（PDF页、PPT幻灯片，其他文档整篇为一页）
+ */
+export interface SourcePage {
+  kind: 'page' | 'slide' | 'document';
+  /** 页码或幻灯片编号（整篇文档时为空） */
+  number?: number;
+  blocks: SourceBlock[];
+}
+
+/**
+ * 把一段原文按空行切分为段落块
+ */
+const splitBlocks = (content: string, start: number, end: number): SourceBlock[] => {
+  const blocks: SourceBlock[] = [];
+  const pattern = /\S[\s\S]*?(?=\n[^\S\n]*\n|$)/g;
+  const text = content.slice(start, end);
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    blocks.push({ start: start + match.index, end: start + match.index + match[0].length });
+  }
+  return blocks;
+};
+
+/**
+ * 是否按幻灯片显示（旧会话没有记录文档类型时，根据解析标记判断）
+ */
+const isSlideDocument = (content: string, documentType: LearningSession['documentType']): boolean => {
+  return documentType === 'ppt' || /^幻灯片 1:/.test(content);
+};
+
+/**
+ * 原文是否按Markdown渲染（PDF和PPT按纯文本分页显示）
+ */
+export const isMarkdownSource = (
+  content: string,
+  documentType: LearningSession['documentType'],
+  pageOffsets?: number[]
+): boolean => {
+  return !pageOffsets?.length && !isSlideDocument(content, documentType);
+};
+
+/**
+ * 把原文切分为页和段落块
+ */
+export const splitSourcePages = (
+  content: string,
+  documentType: LearningSession['documentType'],
+  pageOffsets?: number[]
+): SourcePage[] => {
+  if (pageOffsets?.length) {
+    return pageOffsets.map((start, index) => ({
+      kind: 'page' as const,
+      number: index + 1,
+      blocks: splitBlocks(content, start, index + 1 < pageOffsets.length ? pageOffsets[index + 1] : content.length),
+    }));
+  }
+
+  if (isSlideDocument(content, documentType)) {
+    const markers = Array.from(content.matchAll(SLIDE_MARKER_PATTERN));
+    if (markers.length > 0) {
+      return markers.map((marker, index) => ({
+        kind: 'slide' as const,
+        number: Number(marker[1]),
+        blocks: splitBlocks(
+          content,
+          marker.index! + marker[0].length,
+          index + 1 < markers.length ? markers[index + 1].index! : content.length
+        ),
+      }));
+    }
+  }
+
+  return [{ kind: 'document', blocks: splitBlocks(content, 0, content.length) }];
+};
+
+/**
+ * 在原文中查找标题，先找完整标题，再找去掉编号后的标题
+ */
+const findTitle = (content: string, title: string, fromIndex: number): number => {
+  const candidates = [title.trim(), title.trim().replace(TITLE_NUMBER_PATTERN, '')]
+    .filter(candidate => candidate.length >= 2);
+  for (const candidate of candidates) {
+    const index = content.indexOf(candidate, fromIndex);
+    if (index >= 0) return index;
+  }
+  return -1;
+};
+
+/**
+ * 大纲项标题在原文中的位置，找不到时返回 -1
+ * 小节从所属章节标题之后开始查找，避免匹配到目录或其他章节中的同名内容
+ */
+export const findOutlineItemOffset = (content: string, outline: OutlineItem[], itemId: string): number => {
+  const item = outline.find(outlineItem => outlineItem.id === itemId);
+  if (!item) return -1;
+
+  const chapter = item.parentId ? outline.find(outlineItem => outlineItem.id === item.parentId) : undefined;
+  const chapterOffset = chapter ? findTitle(content, chapter.title, 0) : -1;
+  if (chapterOffset >= 0) {
+    const offset = findTitle(content, item.title, chapterOffset);
+    if (offset >= 0) return offset;
+  }
+  return findTitle(content, item.title, 0);
+};
+
+/**
+ * 搜索词在原文中出现的位置（不区分大小写）
+ */
+export const findSearchMatches = (content: string, query: string): number[] => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return [];
+
+  const haystack = content.toLowerCase();
+  const matches: number[] = [];
+  let index = haystack.indexOf(needle);
+  while (index >= 0 && matches.length < MAX_SEARCH_MATCHES) {
+    matches.push(index);
+    index = haystack.indexOf(needle, index + needle.length);
+  }
+  return matches;
+};
+
+/**
+ * 在HTML的文本部分高亮搜索词（不改动标签）
+ */
+export const highlightHtml = (html: string, query: string): string => {
+  const needle = escapeHtml(query.trim());
+  if (!needle) return html;
+
+  const pattern = new RegExp(escapeRegExp(needle), 'gi');
+  return html.replace(/(^|>)([^<]+)/g, (_match, lead: string, text: string) =>
+    lead + text.replace(pattern, found => `<mark class="bg-yellow-200 rounded-sm">${found}</mark>`)
+  );
+};
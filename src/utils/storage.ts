@@ -9,10 +9,14 @@
  */
 
 import { LocalStorageData, LearningSession, APIConfig, UserPreferences, ChatMessage } from '../types';
-import { LearningCard, ReviewRecord } from '../types';
+import { LearningCard, ReviewRecord, RetrievalIndex, ConversationMemory, UsageRecord, UsageBudget, OutlineItemQuiz, Annotation, LearnerModel, Glossary, ConceptMap, ChapterRecap } from '../types';
 
 const STORAGE_KEY = 'ai-learning-platform';
 const CURRENT_VERSION = '1.0.0';
+/** 用量记录单独存放，每次AI调用只重写这一项，不必重写全部会话数据 */
+const USAGE_RECORDS_KEY = 'ai-learning-platform-usage';
+/** 最多保留的用量记录条数，超出后丢弃最早的记录 */
+const MAX_USAGE_RECORDS = 5000;
 // 软删除墓碑列表，防止被其他来源(导入/云端缓存)回灌
 const DELETED_IDS_KEY = 'ai-learning-platform-deleted-ids';
 
@@ -245,6 +249,81 @@ export const updateSessionMessages = (sessionId: string, messages: ChatMessage[]
   });
 };
 
+/**
+ * 更新会话当前查看的对话分支
+ */
+export const updateSessionActiveMessage = (sessionId: string, activeMessageId: string): boolean => {
+  const session = getSessionById(sessionId);
+  if (!session) {
+    return false;
+  }
+
+  return saveSession({
+    ...session,
+    activeMessageId,
+  });
+};
+
+/**
+ * 更新会话的学习者模型
+ */
+export const updateSessionLearnerModel = (sessionId: string, learnerModel: LearnerModel): boolean => {
+  const session = getSessionById(sessionId);
+  if (!session) {
+    return false;
+  }
+
+  return saveSession({
+    ...session,
+    learnerModel,
+  });
+};
+
+/**
+ * 更新会话的术语表
+ */
+export const updateSessionGlossary = (sessionId: string, glossary: Glossary): boolean => {
+  const session = getSessionById(sessionId);
+  if (!session) {
+    return false;
+  }
+
+  return saveSession({
+    ...session,
+    glossary,
+  });
+};
+
+/**
+ * 更新会话的概念图
+ */
+export const updateSessionConceptMap = (sessionId: string, conceptMap: ConceptMap): boolean => {
+  const session = getSessionById(sessionId);
+  if (!session) {
+    return false;
+  }
+
+  return saveSession({
+    ...session,
+    conceptMap,
+  });
+};
+
+/**
+ * 保存小节的复盘笔记（同一小节只保留最新一份）
+ */
+export const updateSessionChapterRecap = (sessionId: string, recap: ChapterRecap): boolean => {
+  const session = getSessionById(sessionId);
+  if (!session) {
+    return false;
+  }
+
+  return saveSession({
+    ...session,
+    chapterRecaps: { ...(session.chapterRecaps || {}), [recap.outlineItemId]: recap },
+  });
+};
+
 /**
  * 更新会话的当前章节
  */
@@ -260,6 +339,66 @@ export const updateSessionCurrentChapter = (sessionId: string, chapterId: string
   });
 };
 
+/**
+ * 更新会话的文档检索索引
+ */
+export const updateSessionRetrievalIndex = (sessionId: string, retrievalIndex: RetrievalIndex): boolean => {
+  const session = getSessionById(sessionId);
+  if (!session) {
+    return false;
+  }
+
+  return saveSession({
+    ...session,
+    retrievalIndex,
+  });
+};
+
+/**
+ * 更新会话的对话记忆
+ */
+export const updateSessionConversationMemory = (sessionId: string, conversationMemory: ConversationMemory): boolean => {
+  const session = getSessionById(sessionId);
+  if (!session) {
+    return false;
+  }
+
+  return saveSession({
+    ...session,
+    conversationMemory,
+  });
+};
+
+/**
+ * 更新会话的原文高亮与批注
+ */
+export const updateSessionAnnotations = (sessionId: string, annotations: Annotation[]): boolean => {
+  const session = getSessionById(sessionId);
+  if (!session) {
+    return false;
+  }
+
+  return saveSession({
+    ...session,
+    annotations,
+  });
+};
+
+/**
+ * 更新大纲项的测验
+ */
+export const updateOutlineItemQuiz = (sessionId: string, itemId: string, quiz: OutlineItemQuiz): boolean => {
+  const session = getSessionById(sessionId);
+  if (!session) {
+    return false;
+  }
+
+  return saveSession({
+    ...session,
+    outline: session.outline.map(item => item.id === itemId ? { ...item, quiz } : item),
+  });
+};
+
 /**
  * 标记章节为已完成
  */
@@ -540,6 +679,93 @@ export const saveUserPreferences = (preferences: Partial<UserPreferences>): bool
   }
 };
 
+// =================
+// AI用量管理
+// =================
+
+/**
+ * 把旧版本保存在主数据中的用量记录移到单独的键下
+ */
+const migrateLegacyUsageRecords = (): UsageRecord[] => {
+  const data = safeGetStorageData();
+  const records = data.usageRecords || [];
+  localStorage.setItem(USAGE_RECORDS_KEY, JSON.stringify(records));
+  if (data.usageRecords) {
+    delete data.usageRecords;
+    safeSaveStorageData(data);
+  }
+  return records;
+};
+
+/**
+ * 获取所有AI用量记录（按时间先后排列）
+ */
+export const getUsageRecords = (): UsageRecord[] => {
+  try {
+    if (typeof window === 'undefined') return [];
+    const stored = localStorage.getItem(USAGE_RECORDS_KEY);
+    if (stored === null) {
+      return migrateLegacyUsageRecords();
+    }
+    const records = JSON.parse(stored);
+    return Array.isArray(records) ? records : [];
+  } catch (error) {
+    console.warn('读取用量记录失败:', error);
+    return [];
+  }
+};
+
+/**
+ * 追加一条AI用量记录
+ */
+export const addUsageRecord = (record: UsageRecord): boolean => {
+  try {
+    if (typeof window === 'undefined') return false;
+    const records = [...getUsageRecords(), record];
+    localStorage.setItem(USAGE_RECORDS_KEY, JSON.stringify(records.slice(-MAX_USAGE_RECORDS)));
+    return true;
+  } catch (error) {
+    console.error('保存用量记录失败:', error);
+    return false;
+  }
+};
+
+/**
+ * 清空AI用量记录
+ */
+export const clearUsageRecords = (): boolean => {
+  try {
+    if (typeof window === 'undefined') return false;
+    localStorage.setItem(USAGE_RECORDS_KEY, JSON.stringify([]));
+    return true;
+  } catch (error) {
+    console.error('清空用量记录失败:', error);
+    return false;
+  }
+};
+
+/**
+ * 获取月度费用预算
+ */
+export const getUsageBudget = (): UsageBudget | null => {
+  const data = safeGetStorageData();
+  return data.usageBudget || null;
+};
+
+/**
+ * 保存月度费用预算
+ */
+export const saveUsageBudget = (budget: UsageBudget): boolean => {
+  try {
+    const data = safeGetStorageData();
+    data.usageBudget = budget;
+    return safeSaveStorageData(data);
+  } catch (error) {
+    console.error('保存费用预算失败:', error);
+    return false;
+  }
+};
+
 // =================
 // 数据清理和维护
 // =================
@@ -552,6 +778,7 @@ export const clearAllData = (): boolean => {
   try {
     if (typeof window !== 'undefined') {
       localStorage.removeItem(STORAGE_KEY);
+      localStorage.removeItem(USAGE_RECORDS_KEY);
     }
     return true;
   } catch (error) {
@@ -5,8 +5,8 @@
  * 在用户登录时自动使用云端同步，未登录时使用本地存储
  */
 
-import { LearningSession, ChatMessage, LearningCard, APIConfig, UserPreferences } from '../types'
-import { hybridStorage, addLearningCard as hybridAddLearningCard } from '../services/hybridStorage'
+import { LearningSession, ChatMessage, LearningCard, APIConfig, UserPreferences, RetrievalIndex, ConversationMemory, OutlineItemQuiz, Annotation, LearnerModel, Glossary, ConceptMap, ChapterRecap } from '../types'
+import { hybridStorage } from '../services/hybridStorage'
 import * as localStorage from './storage'
 import { createClient } from './supabase'
 
@@ -28,6 +28,30 @@ async function isUserLoggedIn(): Promise<boolean> {
  * 统一的存储适配器类
  */
 class StorageAdapter {
+  /**
+   * 更新会话的某些字段
+   * 登录时在本地会话上应用修改，通过混合存储保存整个会话并同步到云端；未登录或出错时使用本地存储的更新方法
+   */
+  private async updateSessionField(
+    sessionId: string,
+    fieldName: string,
+    getChanges: (session: LearningSession) => Partial<LearningSession>,
+    updateLocal: () => boolean
+  ): Promise<boolean> {
+    try {
+      if (await isUserLoggedIn()) {
+        const session = localStorage.getSessionById(sessionId)
+        if (!session) return false
+        return await hybridStorage.saveSession({ ...session, ...getChanges(session) })
+      } else {
+        return updateLocal()
+      }
+    } catch (error) {
+      console.error(`更新${fieldName}失败，降级到本地存储:`, error)
+      return updateLocal()
+    }
+  }
+
   /**
    * 保存学习会话
    */
@@ -125,6 +149,50 @@ class StorageAdapter {
     }
   }
 
+  /**
+   * 更新会话当前查看的对话分支
+   */
+  async updateSessionActiveMessage(sessionId: string, activeMessageId: string): Promise<boolean> {
+    return this.updateSessionField(sessionId, '当前对话分支', () => ({ activeMessageId }),
+      () => localStorage.updateSessionActiveMessage(sessionId, activeMessageId))
+  }
+
+  /**
+   * 更新会话的学习者模型
+   */
+  async updateSessionLearnerModel(sessionId: string, learnerModel: LearnerModel): Promise<boolean> {
+    return this.updateSessionField(sessionId, '学习者模型', () => ({ learnerModel }),
+      () => localStorage.updateSessionLearnerModel(sessionId, learnerModel))
+  }
+
+  /**
+   * 更新会话的术语表
+   */
+  async updateSessionGlossary(sessionId: string, glossary: Glossary): Promise<boolean> {
+    return this.updateSessionField(sessionId, '术语表', () => ({ glossary }),
+      () => localStorage.updateSessionGlossary(sessionId, glossary))
+  }
+
+  /**
+   * 更新会话的概念图
+   */
+  async updateSessionConceptMap(sessionId: string, conceptMap: ConceptMap): Promise<boolean> {
+    return this.updateSessionField(sessionId, '概念图', () => ({ conceptMap }),
+      () => localStorage.updateSessionConceptMap(sessionId, conceptMap))
+  }
+
+  /**
+   * 保存小节的复盘笔记
+   */
+  async updateSessionChapterRecap(sessionId: string, recap: ChapterRecap): Promise<boolean> {
+    return this.updateSessionField(
+      sessionId,
+      '复盘笔记',
+      session => ({ chapterRecaps: { ...(session.chapterRecaps || {}), [recap.outlineItemId]: recap } }),
+      () => localStorage.updateSessionChapterRecap(sessionId, recap)
+    )
+  }
+
   /**
    * 更新会话当前章节
    */
@@ -142,6 +210,42 @@ class StorageAdapter {
     }
   }
 
+  /**
+   * 更新会话的文档检索索引
+   * 索引可以由文档内容重新构建，只保存在本机，不同步到云端
+   */
+  async updateSessionRetrievalIndex(sessionId: string, retrievalIndex: RetrievalIndex): Promise<boolean> {
+    return localStorage.updateSessionRetrievalIndex(sessionId, retrievalIndex)
+  }
+
+  /**
+   * 更新会话的对话记忆
+   */
+  async updateSessionConversationMemory(sessionId: string, conversationMemory: ConversationMemory): Promise<boolean> {
+    return this.updateSessionField(sessionId, '对话记忆', () => ({ conversationMemory }),
+      () => localStorage.updateSessionConversationMemory(sessionId, conversationMemory))
+  }
+
+  /**
+   * 更新会话的原文高亮与批注（云端保存到批注表）
+   */
+  async updateSessionAnnotations(sessionId: string, annotations: Annotation[]): Promise<boolean> {
+    return this.updateSessionField(sessionId, '批注', () => ({ annotations }),
+      () => localStorage.updateSessionAnnotations(sessionId, annotations))
+  }
+
+  /**
+   * 更新大纲项的测验（测验随大纲同步到云端）
+   */
+  async updateOutlineItemQuiz(sessionId: string, itemId: string, quiz: OutlineItemQuiz): Promise<boolean> {
+    return this.updateSessionField(
+      sessionId,
+      '测验',
+      session => ({ outline: session.outline.map(item => item.id === itemId ? { ...item, quiz } : item) }),
+      () => localStorage.updateOutlineItemQuiz(sessionId, itemId, quiz)
+    )
+  }
+
   /**
    * 标记章节完成
    */
@@ -161,11 +265,12 @@ class StorageAdapter {
 
   /**
    * 添加学习卡片
+   * 登录时等云端卡片保存后再返回，之后保存的批注等数据可以放心引用这张卡片
    */
   async addLearningCard(sessionId: string, card: LearningCard): Promise<boolean> {
     try {
       if (await isUserLoggedIn()) {
-        return hybridAddLearningCard(sessionId, card)
+        return await hybridStorage.addLearningCard(sessionId, card)
       } else {
         return localStorage.addLearningCard(sessionId, card)
       }
@@ -288,8 +393,26 @@ export const getAPIConfig = () => storageAdapter.getAPIConfig_sync()
 export const saveSession = (session: LearningSession) => storageAdapter.saveSession(session)
 export const updateSessionMessages = (sessionId: string, messages: ChatMessage[]) => 
   storageAdapter.updateSessionMessages(sessionId, messages)
+export const updateSessionActiveMessage = (sessionId: string, activeMessageId: string) =>
+  storageAdapter.updateSessionActiveMessage(sessionId, activeMessageId)
+export const updateSessionLearnerModel = (sessionId: string, learnerModel: LearnerModel) =>
+  storageAdapter.updateSessionLearnerModel(sessionId, learnerModel)
+export const updateSessionGlossary = (sessionId: string, glossary: Glossary) =>
+  storageAdapter.updateSessionGlossary(sessionId, glossary)
+export const updateSessionConceptMap = (sessionId: string, conceptMap: ConceptMap) =>
+  storageAdapter.updateSessionConceptMap(sessionId, conceptMap)
+export const updateSessionChapterRecap = (sessionId: string, recap: ChapterRecap) =>
+  storageAdapter.updateSessionChapterRecap(sessionId, recap)
 export const updateSessionCurrentChapter = (sessionId: string, chapterId: string) =>
   storageAdapter.updateSessionCurrentChapter(sessionId, chapterId)
+export const updateSessionRetrievalIndex = (sessionId: string, retrievalIndex: RetrievalIndex) =>
+  storageAdapter.updateSessionRetrievalIndex(sessionId, retrievalIndex)
+export const updateSessionConversationMemory = (sessionId: string, conversationMemory: ConversationMemory) =>
+  storageAdapter.updateSessionConversationMemory(sessionId, conversationMemory)
+export const updateSessionAnnotations = (sessionId: string, annotations: Annotation[]) =>
+  storageAdapter.updateSessionAnnotations(sessionId, annotations)
+export const updateOutlineItemQuiz = (sessionId: string, itemId: string, quiz: OutlineItemQuiz) =>
+  storageAdapter.updateOutlineItemQuiz(sessionId, itemId, quiz)
 export const markChapterCompleted = (sessionId: string, chapterId: string) =>
   storageAdapter.markChapterCompleted(sessionId, chapterId)
 export const addLearningCard = (sessionId: string, card: LearningCard) => storageAdapter.addLearningCard(sessionId, card)
@@ -0,0 +1,267 @@
+/**
+ * 小节复盘与学习报告
+ *
+ * - 完成小节时由模型生成的复盘笔记：要点、学习者在对话中遇到的困难、仍待解决的问题
+ * - 复盘响应的 JSON Schema 与校验：三类条目都须是字符串数组，至少有一条要点
+ * - 根据对话时间、卡片、测验和完成情况汇总整个会话的学习报告（随时按会话数据重新计算，不单独保存）
+ * - 把学习报告导出为 Markdown
+ */
+
+import { ChapterRecap, LearningCard, LearningSession, OutlineItem } from '../types';
+import { StructuredOutputSchema } from './aiProviders';
+import { extractJsonText } from './outlineSchema';
+import { getCurrentLanguage, getLocale, t } from './i18n';
+
+/** 每类条目的数量上限 */
+export const MAX_RECAP_ITEMS = 6;
+
+/** 反馈给模型的错误条数上限，避免修复提示过长 */
+const MAX_REPORTED_ERRORS = 20;
+
+/** 两条消息间隔超过该值时视为中途离开，这段时间不计入学习时长 */
+const IDLE_GAP_MS = 10 * 60 * 1000;
+
+/**
+ * 复盘响应的 JSON Schema
+ * 三类条目都必须给出，没有困难或待解决问题时返回空数组
+ */
+export const RECAP_RESPONSE_SCHEMA: StructuredOutputSchema = {
+  name: 'chapter_recap',
+  description: '学完一个小节后的复盘笔记',
+  schema: {
+    type: 'object',
+    properties: {
+      keyPoints: { type: 'array', items: { type: 'string' }, description: '本小节的要点' },
+      struggles: { type: 'array', items: { type: 'string' }, description: '学习者在对话中遇到的困难' },
+      openQuestions: { type: 'array', items: { type: 'string' }, description: '仍待解决的问题' },
+    },
+    required: ['keyPoints', 'struggles', 'openQuestions'],
+  },
+};
+
+/**
+ * 学习报告中的一个小节
+ */
+export interface SectionReport {
+  item: OutlineItem;
+  /** 所属章的标题 */
+  chapterTitle?: string;
+  /** 估算的学习时长（毫秒） */
+  studyTimeMs: number;
+  /** 学习者在本小节发送的消息数 */
+  questionCount: number;
+  /** 本小节制作的卡片数 */
+  cardCount: number;
+  /** 测验最高分（未作答时为空） */
+  bestQuizScore?: number;
+  /** 测验作答次数 */
+  quizAttempts: number;
+  recap?: ChapterRecap;
+}
+
+/**
+ * 整个会话的学习报告
+ */
+export interface SessionReport {
+  title: string;
+  learningLevel: LearningSession['learningLevel'];
+  startedAt: number;
+  /** 全部小节完成的时间（尚未全部完成时为空） */
+  completedAt?: number;
+  studyTimeMs: number;
+  completedCount: number;
+  totalCount: number;
+  completionPercent: number;
+  cardCount: number;
+  /** 作答过测验的小节的最高分平均值（没有作答时为空） */
+  averageQuizScore?: number;
+  sections: SectionReport[];
+}
+
+const isStringArray = (value: unknown): value is string[] => {
+  return Array.isArray(value) && value.every(entry => typeof entry === 'string');
+};
+
+/**
+ * 解析并校验模型生成的复盘笔记，去掉空条目并限制每类条目的数量
+ */
+export const parseChapterRecap = (
+  content: string
+): { recap?: Pick<ChapterRecap, 'keyPoints' | 'struggles' | 'openQuestions'>; errors: string[] } => {
+  let data: any;
+  try {
+    data = JSON.parse(extractJsonText(content));
+  } catch (error) {
+    return {
+      errors: [`输出不是有效的JSON：${error instanceof Error ? error.message : String(error)}`],
+    };
+  }
+
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return { errors: ['输出必须是包含 keyPoints、struggles、openQuestions 的JSON对象'] };
+  }
+
+  const errors: string[] = [];
+  for (const field of ['keyPoints', 'struggles', 'openQuestions']) {
+    if (!isStringArray(data[field])) {
+      errors.push(`${field} 必须是字符串数组`);
+    }
+  }
+  if (errors.length === 0 && !data.keyPoints.some((point: string) => point.trim())) {
+    errors.push('keyPoints 至少需要一条要点');
+  }
+  if (errors.length > 0) {
+    return { errors: errors.slice(0, MAX_REPORTED_ERRORS) };
+  }
+
+  const clean = (entries: string[]) => entries.map(entry => entry.trim()).filter(Boolean).slice(0, MAX_RECAP_ITEMS);
+  return {
+    recap: {
+      keyPoints: clean(data.keyPoints),
+      struggles: clean(data.struggles),
+      openQuestions: clean(data.openQuestions),
+    },
+    errors: [],
+  };
+};
+
+/**
+ * 根据消息时间估算学习时长（含全部分支）
+ * 相邻两条消息的间隔计入后一条消息所属的小节，间隔过长视为中途离开，不计入
+ */
+export const estimateStudyTime = (session: LearningSession): { totalMs: number; bySection: Record<string, number> } => {
+  const messages = [...session.messages].sort((a, b) => a.timestamp - b.timestamp);
+  const bySection: Record<string, number> = {};
+  let totalMs = 0;
+
+  for (let i = 1; i < messages.length; i++) {
+    const gap = messages[i].timestamp - messages[i - 1].timestamp;
+    if (gap <= 0 || gap > IDLE_GAP_MS) continue;
+    totalMs += gap;
+    const sectionId = messages[i].chapterId;
+    if (sectionId) {
+      bySection[sectionId] = (bySection[sectionId] || 0) + gap;
+    }
+  }
+
+  return { totalMs, bySection };
+};
+
+/**
+ * 汇总会话的学习报告
+ * 只有小节可以学习和完成；大纲中没有小节时按全部大纲项统计
+ */
+export const buildSessionReport = (session: LearningSession, cards: LearningCard[] = session.cards || []): SessionReport => {
+  const sections = session.outline.some(item => item.type === 'section')
+    ? session.outline.filter(item => item.type === 'section')
+    : session.outline;
+  const { totalMs, bySection } = estimateStudyTime(session);
+  const sessionCards = cards.filter(card => card.sessionId === session.id);
+
+  const sectionReports: SectionReport[] = sections.map(item => {
+    const attempts = item.quiz?.attempts || [];
+    return {
+      item,
+      chapterTitle: session.outline.find(other => other.id === item.parentId)?.title,
+      studyTimeMs: bySection[item.id] || 0,
+      questionCount: session.messages.filter(message => message.chapterId === item.id && message.role === 'user').length,
+      cardCount: sessionCards.filter(card => card.chapterId === item.id).length,
+      bestQuizScore: attempts.length > 0 ? Math.max(...attempts.map(attempt => attempt.score)) : undefined,
+      quizAttempts: attempts.length,
+      recap: session.chapterRecaps?.[item.id],
+    };
+  });
+
+  const completedCount = sections.filter(item => item.isCompleted).length;
+  const quizScores = sectionReports
+    .map(section => section.bestQuizScore)
+    .filter((score): score is number => score !== undefined);
+
+  return {
+    title: session.title,
+    learningLevel: session.learningLevel,
+    startedAt: session.createdAt,
+    completedAt: sections.length > 0 && completedCount === sections.length
+      ? Math.max(...sections.map(item => item.completedAt || 0)) || undefined
+      : undefined,
+    studyTimeMs: totalMs,
+    completedCount,
+    totalCount: sections.length,
+    completionPercent: sections.length > 0 ? Math.round((completedCount / sections.length) * 100) : 0,
+    cardCount: sessionCards.length,
+    averageQuizScore: quizScores.length > 0
+      ? Math.round(quizScores.reduce((sum, score) => sum + score, 0) / quizScores.length)
+      : undefined,
+    sections: sectionReports,
+  };
+};
+
+/**
+ * 学习时长的显示（不足一分钟按一分钟计）
+ */
+export const formatStudyTime = (ms: number): string => {
+  const totalMinutes = Math.max(ms > 0 ? 1 : 0, Math.round(ms / 60000));
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  return hours > 0
+    ? t('studyReport.hoursMinutes', { hours, minutes })
+    : t('common.minutes', { count: minutes });
+};
+
+const formatDate = (timestamp: number): string => {
+  return new Date(timestamp).toLocaleString(getLocale(getCurrentLanguage()));
+};
+
+/**
+ * 把学习报告导出为 Markdown
+ */
+export const reportToMarkdown = (report: SessionReport): string => {
+  const lines: string[] = [
+    `# ${t('studyReport.title', { title: report.title })}`,
+    '',
+    `## ${t('studyReport.overview')}`,
+    '',
+    `- ${t('studyReport.level')}: ${t(report.learningLevel === 'expert' ? 'common.expertMode' : 'common.beginnerMode')}`,
+    `- ${t('studyReport.startedAt')}: ${formatDate(report.startedAt)}`,
+    ...(report.completedAt ? [`- ${t('studyReport.completedAt')}: ${formatDate(report.completedAt)}`] : []),
+    `- ${t('studyReport.studyTime')}: ${formatStudyTime(report.studyTimeMs)}`,
+    `- ${t('studyReport.completion')}: ${t('studyReport.completionValue', {
+      completed: report.completedCount,
+      total: report.totalCount,
+      percent: report.completionPercent,
+    })}`,
+    `- ${t('studyReport.cards')}: ${report.cardCount}`,
+    `- ${t('studyReport.averageQuizScore')}: ${report.averageQuizScore ?? t('studyReport.noQuiz')}`,
+    '',
+    `## ${t('studyReport.sections')}`,
+  ];
+
+  const renderList = (heading: string, entries: string[]) => {
+    if (entries.length === 0) return;
+    lines.push('', `**${heading}**`, '', ...entries.map(entry => `- ${entry}`));
+  };
+
+  for (const section of report.sections) {
+    const status = section.item.isCompleted ? '✅' : '⬜';
+    lines.push('', `### ${status} ${section.item.title}`, '');
+    if (section.chapterTitle) {
+      lines.push(`*${section.chapterTitle}*`, '');
+    }
+    lines.push(t('studyReport.sectionStats', {
+      time: formatStudyTime(section.studyTimeMs),
+      questions: section.questionCount,
+      cards: section.cardCount,
+      quiz: section.bestQuizScore ?? t('studyReport.noQuiz'),
+    }));
+
+    if (section.recap) {
+      renderList(t('studyReport.keyPoints'), section.recap.keyPoints);
+      renderList(t('studyReport.struggles'), section.recap.struggles);
+      renderList(t('studyReport.openQuestions'), section.recap.openQuestions);
+    } else if (section.item.isCompleted) {
+      lines.push('', `*${t('studyReport.noRecap')}*`);
+    }
+  }
+
+  return lines.join('\n') + '\n';
+};
@@ -0,0 +1,12 @@
+/**
+ * 文本转义工具
+ *
+ * - escapeRegExp：把文字按字面拼进正则表达式（查找术语、批注原文、大纲项ID等）
+ * - escapeHtml：把文字放进HTML，文本内容和双引号包裹的属性值都可以使用
+ */
+
+export const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export const escapeHtml = (text: string): string => {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+};
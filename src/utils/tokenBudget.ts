@@ -0,0 +1,168 @@
+/**
+ * Token预算管理工具
+ *
+ * 统一以token（而不是字符）为单位规划每次AI请求的上下文：
+ * - 粗略估算文本的token数（无需加载分词器）
+ * - 读取各服务商模型的上下文窗口和最大输出长度
+ * - 在系统提示词、学习材料、对话历史和回复之间分配预算
+ * - 生成裁剪报告，供界面提示用户哪些内容没有发给AI
+ */
+
+import { APIConfig, ContextTrimReport, ContextUsage } from '../types';
+import { getProviderAdapter, ModelLimits } from './aiProviders';
+import { getCurrentLanguage, getLocale, t } from './i18n';
+
+/** 未提供模型信息时的保守默认值 */
+const DEFAULT_MODEL_LIMITS: ModelLimits = {
+  contextWindow: 8192,
+  maxOutputTokens: 2048,
+};
+
+/** 预留的安全余量比例（估算误差、消息格式开销等） */
+const SAFETY_MARGIN_RATIO = 0.05;
+const MIN_SAFETY_MARGIN = 256;
+/** 每条消息的格式开销（角色标记等） */
+const TOKENS_PER_MESSAGE = 4;
+
+/**
+ * 粗略估算文本的token数
+ * 中日韩字符约1个token，其余字符约4个字符1个token
+ */
+export const estimateTokens = (text: string): number => {
+  if (!text) return 0;
+  const cjkCount = (text.match(/[\u3000-\u303f\u4e00-\u9fff\uff00-\uffef]/g) || []).length;
+  return cjkCount + Math.ceil((text.length - cjkCount) / 4);
+};
+
+/**
+ * 估算一组消息的token数
+ */
+export const estimateMessagesTokens = (messages: Array<{ content: string }>): number => {
+  return messages.reduce((sum, m) => sum + estimateTokens(m.content) + TOKENS_PER_MESSAGE, 0);
+};
+
+/**
+ * 将token预算换算成该文本可保留的字符数
+ * 按文本自身的字符/token比例换算，中英文混排时也能大致准确
+ */
+export const charsForTokens = (text: string, tokens: number): number => {
+  const totalTokens = estimateTokens(text);
+  if (totalTokens <= tokens) return text.length;
+  return Math.max(0, Math.floor(text.length * tokens / totalTokens));
+};
+
+/**
+ * 获取当前配置所用模型的上下文限制
+ */
+export const getModelLimits = (config: APIConfig): ModelLimits => {
+  const adapter = getProviderAdapter(config.provider);
+  const model = config.model || adapter?.defaultModel || '';
+  return adapter?.getModelLimits?.(model) || DEFAULT_MODEL_LIMITS;
+};
+
+/**
+ * Token预算分配结果
+ */
+export interface TokenAllocation {
+  /** 模型上下文窗口 */
+  contextWindow: number;
+  /** 为回复预留的token（作为请求的 maxTokens） */
+  completion: number;
+  /** 固定提示词（系统提示词、指令、大纲等）占用的token */
+  fixed: number;
+  /** 分配给学习材料的token */
+  document: number;
+  /** 分配给对话历史的token */
+  history: number;
+}
+
+/**
+ * 在系统提示词、学习材料、对话历史和回复之间分配token预算
+ * 先按比例给材料和历史划分可用空间，再把一方用不完的额度让给另一方；
+ * 各部分都不会超过自身的实际需要和上限
+ */
+export const allocateTokenBudget = (
+  config: APIConfig,
+  options: {
+    /** 不含学习材料和历史的固定提示词 */
+    fixedPrompt: string;
+    /** 期望的回复长度 */
+    completionTokens: number;
+    /** 学习材料的实际token数 */
+    documentTokens?: number;
+    /** 学习材料的上限（控制费用） */
+    documentCap?: number;
+    /** 对话历史的实际token数 */
+    historyTokens?: number;
+    /** 对话历史的上限 */
+    historyCap?: number;
+    /** 材料与历史都需要空间时，材料所占的比例 */
+    documentShare?: number;
+  }
+): TokenAllocation => {
+  const {
+    fixedPrompt,
+    completionTokens,
+    documentTokens = 0,
+    documentCap = Infinity,
+    historyTokens = 0,
+    historyCap = Infinity,
+    documentShare = 0.6,
+  } = options;
+  const limits = getModelLimits(config);
+
+  const completion = Math.min(completionTokens, limits.maxOutputTokens);
+  const fixed = estimateTokens(fixedPrompt);
+  const safetyMargin = Math.max(MIN_SAFETY_MARGIN, Math.floor(limits.contextWindow * SAFETY_MARGIN_RATIO));
+  const available = Math.max(0, limits.contextWindow - completion - fixed - safetyMargin);
+
+  const documentNeed = Math.min(documentTokens, documentCap);
+  const historyNeed = Math.min(historyTokens, historyCap);
+
+  let document = Math.min(documentNeed, historyNeed > 0 ? Math.floor(available * documentShare) : available);
+  const history = Math.min(historyNeed, available - document);
+  // 历史用不完的额度让给学习材料
+  document = Math.min(documentNeed, available - history);
+
+  return {
+    contextWindow: limits.contextWindow,
+    completion,
+    fixed,
+    document,
+    history,
+  };
+};
+
+/**
+ * 生成本次请求的上下文用量报告
+ */
+export const createContextUsage = (
+  allocation: TokenAllocation,
+  promptTokens: number,
+  trimmed: ContextTrimReport[]
+): ContextUsage => ({
+  contextWindow: allocation.contextWindow,
+  promptTokens,
+  completionTokens: allocation.completion,
+  trimmed,
+});
+
+/**
+ * 把裁剪报告转换为面向用户的提示文字，没有裁剪时返回 null
+ */
+export const describeContextTrimming = (usage?: ContextUsage): string | null => {
+  if (!usage || usage.trimmed.length === 0) return null;
+
+  const details = usage.trimmed.map(item => {
+    const percent = item.originalTokens > 0 ? Math.round(item.keptTokens / item.originalTokens * 100) : 0;
+    const part = t(`contextBudget.parts.${item.part}`);
+    return item.note
+      ? t('contextBudget.keptWithNote', { part, percent, note: item.note })
+      : t('contextBudget.kept', { part, percent });
+  });
+
+  return t('contextBudget.summary', {
+    window: usage.contextWindow.toLocaleString(getLocale(getCurrentLanguage())),
+    details: details.join(t('contextBudget.separator')),
+  });
+};
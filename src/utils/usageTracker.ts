@@ -0,0 +1,273 @@
+/**
+ * AI用量与费用统计工具
+ *
+ * 记录每次AI请求消耗的token，并按模型单价估算费用：
+ * - 优先使用服务商响应中返回的真实用量，未返回时按文本长度估算
+ * - 每条记录包含服务商、模型、所属会话和操作类型（大纲/对话/卡片等）
+ * - 按日期、会话、服务商汇总，并检查月度预算
+ *
+ * 用量记录只保存在本机 localStorage 中，不参与云端同步
+ */
+
+import { TokenUsage, UsageBudget, UsageOperation, UsageRecord } from '../types';
+import { addUsageRecord, getUsageBudget, getUsageRecords } from './storage';
+
+/**
+ * 发起请求时附带的用量归属信息
+ */
+export interface UsageContext {
+  /** 操作类型 */
+  operation: UsageOperation;
+  /** 所属学习会话 */
+  sessionId?: string;
+}
+
+/**
+ * 模型单价（美元 / 每百万token）
+ */
+interface ModelPricing {
+  input: number;
+  output: number;
+}
+
+/**
+ * 常用模型的公开报价（近似值，服务商调价后需同步更新）
+ * 按模型名匹配，OpenRouter 的 "厂商/模型" 形式同样适用；按顺序匹配，更具体的规则放在前面
+ */
+const MODEL_PRICING: Array<[RegExp, ModelPricing]> = [
+  // OpenAI
+  [/gpt-4\.1-nano/, { input: 0.1, output: 0.4 }],
+  [/gpt-4\.1-mini/, { input: 0.4, output: 1.6 }],
+  [/gpt-4\.1/, { input: 2, output: 8 }],
+  [/gpt-4o-mini/, { input: 0.15, output: 0.6 }],
+  [/gpt-4o/, { input: 2.5, output: 10 }],
+  [/gpt-4-turbo/, { input: 10, output: 30 }],
+  [/gpt-4/, { input: 30, output: 60 }],
+  [/gpt-3\.5-turbo/, { input: 0.5, output: 1.5 }],
+  // Anthropic
+  [/claude-3-haiku/, { input: 0.25, output: 1.25 }],
+  [/claude-3[.-]5-haiku|claude-haiku/, { input: 0.8, output: 4 }],
+  [/claude-3-opus|claude-opus/, { input: 15, output: 75 }],
+  [/claude/, { input: 3, output: 15 }],
+  // Google
+  [/gemini-2\.5-pro/, { input: 1.25, output: 10 }],
+  [/gemini-2\.5-flash/, { input: 0.3, output: 2.5 }],
+  [/gemini-2\.0-flash/, { input: 0.1, output: 0.4 }],
+  [/gemini-1\.5-pro/, { input: 1.25, output: 5 }],
+  [/gemini-1\.5-flash/, { input: 0.075, output: 0.3 }],
+  // DeepSeek
+  [/deepseek-reasoner|deepseek-r1/, { input: 0.55, output: 2.19 }],
+  [/deepseek/, { input: 0.27, output: 1.1 }],
+  // Kimi（按人民币报价换算）
+  [/moonshot-v1-128k/, { input: 8.4, output: 8.4 }],
+  [/moonshot-v1-32k/, { input: 3.4, output: 3.4 }],
+  [/moonshot-v1-8k/, { input: 1.7, output: 1.7 }],
+];
+
+/** 本地模型和离线演示不产生API费用 */
+const FREE_PROVIDERS = ['local', 'mock'];
+
+/**
+ * 默认预算：不限制，达到80%时提醒
+ */
+export const DEFAULT_USAGE_BUDGET: UsageBudget = {
+  monthlyLimit: 0,
+  warnRatio: 0.8,
+};
+
+/**
+ * 查找模型单价，未知模型返回 null
+ */
+const getModelPricing = (provider: string, model: string): ModelPricing | null => {
+  if (FREE_PROVIDERS.includes(provider)) {
+    return { input: 0, output: 0 };
+  }
+  const normalizedModel = model.toLowerCase();
+  return MODEL_PRICING.find(([pattern]) => pattern.test(normalizedModel))?.[1] || null;
+};
+
+/**
+ * 估算一次请求的费用（美元），单价未知时返回 null
+ */
+export const calculateCost = (provider: string, model: string, usage: TokenUsage): number | null => {
+  const pricing = getModelPricing(provider, model);
+  if (!pricing) return null;
+  return (usage.promptTokens * pricing.input + usage.completionTokens * pricing.output) / 1000000;
+};
+
+/**
+ * 合并流式响应中多次出现的用量信息
+ * 各服务商要么在最后一个数据块给出总量，要么分多次给出累计值（如Claude的输入、输出分开返回），取各项最大值即可
+ */
+export const mergeTokenUsage = (current: TokenUsage | null, next: TokenUsage | null): TokenUsage | null => {
+  if (!next) return current;
+  if (!current) return next;
+  return {
+    promptTokens: Math.max(current.promptTokens, next.promptTokens),
+    completionTokens: Math.max(current.completionTokens, next.completionTokens),
+  };
+};
+
+/**
+ * 保存一次请求的用量记录
+ */
+export const recordUsage = (
+  provider: string,
+  model: string,
+  context: UsageContext,
+  usage: TokenUsage,
+  estimated: boolean
+): UsageRecord => {
+  const record: UsageRecord = {
+    id: `usage_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    timestamp: Date.now(),
+    provider,
+    model,
+    sessionId: context.sessionId,
+    operation: context.operation,
+    promptTokens: usage.promptTokens,
+    completionTokens: usage.completionTokens,
+    estimated,
+    cost: calculateCost(provider, model, usage),
+  };
+
+  addUsageRecord(record);
+  console.log('💰 记录AI用量:', {
+    provider,
+    model,
+    operation: context.operation,
+    tokens: usage.promptTokens + usage.completionTokens,
+    estimated,
+    cost: record.cost,
+  });
+  return record;
+};
+
+/**
+ * 用量汇总行
+ */
+export interface UsageSummaryRow {
+  /** 分组键（日期 YYYY-MM-DD、会话ID或服务商ID） */
+  key: string;
+  /** 请求次数 */
+  requests: number;
+  /** 输入token总数 */
+  promptTokens: number;
+  /** 输出token总数 */
+  completionTokens: number;
+  /** 已知单价部分的费用合计（美元） */
+  cost: number;
+  /** 是否包含单价未知的请求 */
+  hasUnknownCost: boolean;
+  /** 是否包含估算的用量 */
+  hasEstimated: boolean;
+}
+
+/**
+ * 按本地时区格式化日期
+ */
+const formatDay = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+/**
+ * 按日期、会话或服务商汇总用量
+ * 按日期汇总时从近到远排列，其余按费用从高到低排列；未关联会话的请求归入空键
+ */
+export const summarizeUsage = (
+  records: UsageRecord[],
+  groupBy: 'day' | 'session' | 'provider'
+): UsageSummaryRow[] => {
+  const groups = new Map<string, UsageSummaryRow>();
+
+  for (const record of records) {
+    const key = groupBy === 'day'
+      ? formatDay(record.timestamp)
+      : groupBy === 'session'
+        ? record.sessionId || ''
+        : record.provider;
+
+    if (!groups.has(key)) {
+      groups.set(key, {
+        key,
+        requests: 0,
+        promptTokens: 0,
+        completionTokens: 0,
+        cost: 0,
+        hasUnknownCost: false,
+        hasEstimated: false,
+      });
+    }
+    const row = groups.get(key)!;
+    row.requests += 1;
+    row.promptTokens += record.promptTokens;
+    row.completionTokens += record.completionTokens;
+    row.cost += record.cost ?? 0;
+    row.hasUnknownCost = row.hasUnknownCost || record.cost === null;
+    row.hasEstimated = row.hasEstimated || record.estimated;
+  }
+
+  const rows = Array.from(groups.values());
+  return groupBy === 'day'
+    ? rows.sort((a, b) => b.key.localeCompare(a.key))
+    : rows.sort((a, b) => b.cost - a.cost);
+};
+
+/**
+ * 当月（自然月）的已知费用合计
+ */
+export const getMonthlyCost = (records: UsageRecord[], now: number = Date.now()): number => {
+  const current = new Date(now);
+  const monthStart = new Date(current.getFullYear(), current.getMonth(), 1).getTime();
+  return records
+    .filter(record => record.timestamp >= monthStart)
+    .reduce((sum, record) => sum + (record.cost ?? 0), 0);
+};
+
+/**
+ * 月度预算状态
+ */
+export interface BudgetStatus {
+  /** 每月预算（美元），0 表示不限制 */
+  limit: number;
+  /** 本月已用费用 */
+  spent: number;
+  /** 已用比例 */
+  ratio: number;
+  /** none：未设置预算；ok：正常；warning：接近预算；exceeded：已超出 */
+  level: 'none' | 'ok' | 'warning' | 'exceeded';
+}
+
+/**
+ * 检查本月费用相对预算的状态
+ * 不传参数时从本地存储读取记录和预算
+ */
+export const getBudgetStatus = (
+  records: UsageRecord[] = getUsageRecords(),
+  budget: UsageBudget = getUsageBudget() || DEFAULT_USAGE_BUDGET
+): BudgetStatus => {
+  const spent = getMonthlyCost(records);
+  if (!budget.monthlyLimit || budget.monthlyLimit <= 0) {
+    return { limit: 0, spent, ratio: 0, level: 'none' };
+  }
+
+  const ratio = spent / budget.monthlyLimit;
+  return {
+    limit: budget.monthlyLimit,
+    spent,
+    ratio,
+    level: ratio >= 1 ? 'exceeded' : ratio >= budget.warnRatio ? 'warning' : 'ok',
+  };
+};
+
+/**
+ * 格式化费用显示（美元）
+ */
+export const formatCost = (cost: number): string => {
+  if (cost === 0) return '$0';
+  if (cost < 0.01) return `$${cost.toFixed(4)}`;
+  return `$${cost.toFixed(2)}`;
+};
@@ -0,0 +1,13 @@
+-- ================================
+-- 学习卡片：自动提取卡片的形式与来源消息
+-- ================================
+--
+-- 学完小节后可以从对话和原文中自动提取卡片：
+-- format 记录卡片形式（qa 问答卡 / cloze 填空卡，手动收藏的卡片为空），
+-- source_message_ids 记录提取所依据的全部消息（message_id 仍为其中第一条）
+
+ALTER TABLE public.learning_cards
+ADD COLUMN IF NOT EXISTS format TEXT CHECK (format IN ('qa', 'cloze'));
+
+ALTER TABLE public.learning_cards
+ADD COLUMN IF NOT EXISTS source_message_ids TEXT[];
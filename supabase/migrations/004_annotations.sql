@@ -0,0 +1,47 @@
+-- ================================
+-- 原文高亮与批注
+-- ================================
+--
+-- 学习页面的原文面板中可以高亮原文并添加批注：
+-- anchor_start / anchor_end 记录高亮在原文中的位置，
+-- quote / prefix / suffix 保存高亮的原文和前后文，原文变化后据此重新定位；
+-- card_id 记录由批注生成的学习卡片；
+-- 与 002_fix_id_types.sql 之后的其他表一致，ID字段使用TEXT类型
+
+CREATE TABLE IF NOT EXISTS public.learning_annotations (
+    -- 基础字段
+    id TEXT PRIMARY KEY,
+    user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+    session_id TEXT REFERENCES public.learning_sessions(id) ON DELETE CASCADE NOT NULL,
+    chapter_id TEXT,
+
+    -- 高亮与批注
+    color TEXT NOT NULL CHECK (color IN ('yellow', 'green', 'blue', 'pink', 'purple')),
+    note TEXT,
+
+    -- 原文锚点
+    anchor_start INTEGER NOT NULL,
+    anchor_end INTEGER NOT NULL,
+    quote TEXT NOT NULL,
+    prefix TEXT DEFAULT '',
+    suffix TEXT DEFAULT '',
+
+    -- 由批注生成的卡片
+    card_id TEXT REFERENCES public.learning_cards(id) ON DELETE SET NULL,
+
+    -- 时间戳
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_learning_annotations_user_id ON public.learning_annotations(user_id);
+CREATE INDEX IF NOT EXISTS idx_learning_annotations_session_id ON public.learning_annotations(session_id);
+
+CREATE TRIGGER trigger_learning_annotations_updated_at
+    BEFORE UPDATE ON public.learning_annotations
+    FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+ALTER TABLE public.learning_annotations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "annotations_all_own" ON public.learning_annotations
+    FOR ALL USING (auth.uid() = user_id);
@@ -0,0 +1,13 @@
+-- ================================
+-- 对话分支：消息的父消息
+-- ================================
+--
+-- 重新生成回复、编辑提问后重新发送时保留原来的消息作为兄弟分支：
+-- parent_id 记录上一条消息，同一父消息下的多条消息即为可切换的分支；
+-- 旧消息的 parent_id 为空，按创建时间视为接在前一条消息之后。
+-- 当前查看的分支记录在 learning_sessions.progress.activeMessageId 中
+
+ALTER TABLE public.chat_messages
+ADD COLUMN IF NOT EXISTS parent_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_chat_messages_parent_id ON public.chat_messages(parent_id);
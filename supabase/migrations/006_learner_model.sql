@@ -0,0 +1,10 @@
+-- ================================
+-- 学习会话：学习者模型
+-- ================================
+--
+-- 学习者模型根据测验成绩、没听懂的回复、回复间隔和跳过的反思模块记录每个大纲项的难度，
+-- 随对话不断更新，单独成列，不写入 progress；
+-- 本迁移之前保存在 progress.learnerModel 中的数据在读取时仍然兼容
+
+ALTER TABLE public.learning_sessions
+ADD COLUMN IF NOT EXISTS learner_model JSONB;
@@ -0,0 +1,10 @@
+-- ================================
+-- 学习会话：术语表
+-- ================================
+--
+-- 术语表保存会话中提取的术语、释义、出现位置和由术语生成的卡片ID，随学习进行不断增长，
+-- 单独成列，不写入 progress；
+-- 本迁移之前保存在 progress.glossary 中的数据在读取时仍然兼容
+
+ALTER TABLE public.learning_sessions
+ADD COLUMN IF NOT EXISTS glossary JSONB;
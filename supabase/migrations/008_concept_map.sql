@@ -0,0 +1,10 @@
+-- ================================
+-- 学习会话：概念图
+-- ================================
+--
+-- 概念图保存由大纲生成的概念、概念所属的大纲项以及概念之间的关系，
+-- 单独成列，不写入 progress；
+-- 本迁移之前保存在 progress.conceptMap 中的数据在读取时仍然兼容
+
+ALTER TABLE public.learning_sessions
+ADD COLUMN IF NOT EXISTS concept_map JSONB;
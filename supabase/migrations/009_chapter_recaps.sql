@@ -0,0 +1,10 @@
+-- ================================
+-- 学习会话：小节复盘笔记
+-- ================================
+--
+-- 按小节ID保存复盘笔记（要点、遇到的困难、待解决的问题），每学完一个小节增加一条，
+-- 单独成列，不写入 progress；
+-- 本迁移之前保存在 progress.chapterRecaps 中的数据在读取时仍然兼容
+
+ALTER TABLE public.learning_sessions
+ADD COLUMN IF NOT EXISTS chapter_recaps JSONB;